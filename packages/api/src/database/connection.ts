@@ -5,7 +5,7 @@
  * Configured via environment variables matching docker-compose.yml.
  */
 
-import { Pool, QueryResult } from 'pg';
+import { Pool, PoolClient, QueryResult } from 'pg';
 import { logger } from '../utils/logger';
 
 // Neon PostgreSQL connection (cloud database)
@@ -50,6 +50,25 @@ export async function getClient() {
   return client;
 }
 
+/**
+ * Run fn in a transaction on a single client: committed if it resolves,
+ * rolled back if it throws
+ */
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Test database connectivity
  */
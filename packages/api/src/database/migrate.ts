@@ -18,14 +18,26 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 
 -- Drop stale tables so schema is always consistent (dev migration)
+DROP TABLE IF EXISTS payment_routes CASCADE;
+DROP TABLE IF EXISTS ecedi_reconciliations CASCADE;
 DROP TABLE IF EXISTS ecedi_transactions CASCADE;
+DROP TABLE IF EXISTS yield_note_coupons CASCADE;
 DROP TABLE IF EXISTS yield_notes CASCADE;
+DROP TABLE IF EXISTS yield_note_series CASCADE;
+DROP TABLE IF EXISTS variation_orders CASCADE;
+DROP TABLE IF EXISTS project_budget_entries CASCADE;
+DROP TABLE IF EXISTS milestone_evidence CASCADE;
 DROP TABLE IF EXISTS project_milestones CASCADE;
 DROP TABLE IF EXISTS government_projects CASCADE;
+DROP TABLE IF EXISTS payment_reviews CASCADE;
 DROP TABLE IF EXISTS momo_transactions CASCADE;
+DROP TABLE IF EXISTS settlement_cycles CASCADE;
+DROP TABLE IF EXISTS iso20022_messages CASCADE;
 DROP TABLE IF EXISTS bank_settlements CASCADE;
 DROP TABLE IF EXISTS audit_log CASCADE;
 DROP TABLE IF EXISTS oracle_attestations CASCADE;
+DROP TABLE IF EXISTS royalty_notes CASCADE;
+DROP TABLE IF EXISTS royalty_forecasts CASCADE;
 DROP TABLE IF EXISTS gold_production_reports CASCADE;
 DROP TABLE IF EXISTS warehouse_entries CASCADE;
 DROP TABLE IF EXISTS cocoa_deliveries CASCADE;
@@ -34,8 +46,16 @@ DROP TABLE IF EXISTS cocoa_lots CASCADE;
 DROP TABLE IF EXISTS sensor_readings CASCADE;
 DROP TABLE IF EXISTS vault_sensors CASCADE;
 DROP TABLE IF EXISTS gold_bars CASCADE;
+DROP TABLE IF EXISTS margin_calls CASCADE;
+DROP TABLE IF EXISTS collateral_haircuts CASCADE;
+DROP TABLE IF EXISTS crdn_orders CASCADE;
+DROP TABLE IF EXISTS crdn_seasons CASCADE;
 DROP TABLE IF EXISTS crdn_instruments CASCADE;
 DROP TABLE IF EXISTS gbdc_instruments CASCADE;
+DROP TABLE IF EXISTS transaction_reversals CASCADE;
+DROP TABLE IF EXISTS ledger_snapshots CASCADE;
+DROP TABLE IF EXISTS ledger_reserve_entries CASCADE;
+DROP TABLE IF EXISTS ledger_accounts CASCADE;
 DROP TABLE IF EXISTS ledger_transactions CASCADE;
 DROP TABLE IF EXISTS ledger_blocks CASCADE;
 DROP TABLE IF EXISTS account_balances CASCADE;
@@ -55,6 +75,8 @@ CREATE TABLE IF NOT EXISTS organizations (
     'LBC', 'MINING_COMPANY', 'OTHER'
   )),
   registration_number VARCHAR(100),
+  -- SWIFT BIC identifying the institution in ISO 20022 messages
+  bic_code VARCHAR(11) UNIQUE,
   address TEXT,
   region VARCHAR(100),
   is_active BOOLEAN DEFAULT true,
@@ -68,7 +90,7 @@ CREATE TABLE IF NOT EXISTS user_accounts (
   organization_id UUID REFERENCES organizations(id),
   role VARCHAR(30) NOT NULL CHECK (role IN (
     'BOG_ADMIN', 'BOG_AUDITOR', 'GOVT_AGENCY', 'COMMERCIAL_BANK',
-    'CONTRACTOR', 'FARMER', 'LBC', 'DIASPORA', 'PUBLIC'
+    'CONTRACTOR', 'INSPECTOR', 'FARMER', 'LBC', 'DIASPORA', 'PUBLIC'
   )),
   full_name VARCHAR(255) NOT NULL,
   email VARCHAR(255) UNIQUE NOT NULL,
@@ -77,6 +99,8 @@ CREATE TABLE IF NOT EXISTS user_accounts (
   is_active BOOLEAN DEFAULT true,
   kyc_verified BOOLEAN DEFAULT false,
   kyc_verified_at TIMESTAMPTZ,
+  -- BoG e-Money KYC tier setting the holder's payment limits: 0=none, 1=basic, 2=enhanced, 3=full
+  kyc_tier SMALLINT NOT NULL DEFAULT 0 CHECK (kyc_tier BETWEEN 0 AND 3),
   permissions JSONB DEFAULT '[]',
   last_login_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -97,6 +121,7 @@ CREATE TABLE IF NOT EXISTS ledger_blocks (
   validator_id VARCHAR(100) NOT NULL,
   validator_signature TEXT,
   nonce BIGINT DEFAULT 0,
+  block_timestamp TIMESTAMPTZ NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -104,8 +129,9 @@ CREATE TABLE IF NOT EXISTS ledger_transactions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   tx_id VARCHAR(64) UNIQUE NOT NULL,
   block_height BIGINT REFERENCES ledger_blocks(block_height),
+  block_position INT,
   tx_type VARCHAR(20) NOT NULL CHECK (tx_type IN (
-    'MINT', 'TRANSFER', 'REDEEM', 'CONVERT', 'SETTLE', 'BURN'
+    'MINT', 'TRANSFER', 'REDEEM', 'CONVERT', 'SETTLE', 'BURN', 'EXPIRE', 'PLEDGE', 'RELEASE', 'ESCROW', 'YIELD_NOTE'
   )),
   instrument_type VARCHAR(10) NOT NULL CHECK (instrument_type IN ('GBDC', 'CRDN')),
   instrument_id VARCHAR(100) NOT NULL,
@@ -119,7 +145,7 @@ CREATE TABLE IF NOT EXISTS ledger_transactions (
     'INTERBANK', 'MOMO', 'BANK_TRANSFER', 'ECEDI'
   )),
   description TEXT,
-  signature_hash VARCHAR(64),
+  signature_hash TEXT,
   tx_data JSONB DEFAULT '{}',
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -131,6 +157,57 @@ CREATE INDEX IF NOT EXISTS idx_tx_to ON ledger_transactions(to_account);
 CREATE INDEX IF NOT EXISTS idx_tx_status ON ledger_transactions(status);
 CREATE INDEX IF NOT EXISTS idx_tx_created ON ledger_transactions(created_at);
 
+-- Ledger engine state journal, committed atomically with each block.
+-- Together with ledger_blocks/ledger_transactions this is everything the
+-- LedgerEngine needs to rebuild its state after a restart.
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  account_id VARCHAR(50) PRIMARY KEY,
+  role VARCHAR(30) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  registered_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS ledger_reserve_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  asset_type VARCHAR(10) NOT NULL CHECK (asset_type IN ('GOLD', 'COCOA')),
+  quantity DECIMAL(20,6) NOT NULL,
+  attestation_hash VARCHAR(128) NOT NULL,
+  block_height BIGINT NOT NULL REFERENCES ledger_blocks(block_height),
+  recorded_at TIMESTAMPTZ NOT NULL
+);
+
+-- Signed state snapshots; the engine restores from the latest one and
+-- replays only the blocks after it.
+CREATE TABLE IF NOT EXISTS ledger_snapshots (
+  block_height BIGINT PRIMARY KEY REFERENCES ledger_blocks(block_height),
+  block_hash VARCHAR(64) NOT NULL,
+  state_root VARCHAR(64) NOT NULL,
+  validator_id VARCHAR(100) NOT NULL,
+  signature TEXT NOT NULL,
+  state JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+-- Disputed transfers. A reversal is raised by one BoG admin and executed
+-- on the ledger as a compensating transfer once a second admin approves.
+CREATE TABLE IF NOT EXISTS transaction_reversals (
+  reversal_id VARCHAR(50) PRIMARY KEY,
+  original_tx_id VARCHAR(64) NOT NULL REFERENCES ledger_transactions(tx_id),
+  reason TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING_APPROVAL' CHECK (status IN (
+    'PENDING_APPROVAL', 'EXECUTED', 'REJECTED'
+  )),
+  requested_by VARCHAR(50) NOT NULL,
+  reviewed_by VARCHAR(50),
+  review_note TEXT,
+  reversal_tx_id VARCHAR(64) REFERENCES ledger_transactions(tx_id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ
+);
+
+-- At most one open or executed reversal per transaction
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reversal_original ON transaction_reversals(original_tx_id) WHERE status <> 'REJECTED';
+
 -- ============================================================
 -- GBDC — Gold-Backed Digital Cedi
 -- ============================================================
@@ -170,14 +247,19 @@ CREATE TABLE IF NOT EXISTS crdn_instruments (
   price_per_kg_ghs DECIMAL(10,4) NOT NULL,
   farmer_id VARCHAR(50) NOT NULL,
   lbc_id VARCHAR(50) NOT NULL,
+  holder_id VARCHAR(50),
+  parent_instrument_id VARCHAR(100),
   warehouse_receipt_id VARCHAR(100),
   quality_grade VARCHAR(20) CHECK (quality_grade IN ('GRADE_1', 'GRADE_2', 'SUB_STANDARD')),
   season_year VARCHAR(10) NOT NULL,
   status VARCHAR(20) NOT NULL DEFAULT 'ISSUED' CHECK (status IN (
-    'ISSUED', 'HELD', 'CONVERTING', 'CONVERTED', 'EXPIRED', 'CANCELLED'
+    'ISSUED', 'HELD', 'CONVERTING', 'PLEDGED', 'CONVERTED', 'EXPIRED', 'CANCELLED'
   )),
   converted_to_gbdc VARCHAR(100),
   converted_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  payout_account VARCHAR(50),
+  payout_reference VARCHAR(100),
   metadata JSONB DEFAULT '{}',
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -187,6 +269,62 @@ CREATE INDEX IF NOT EXISTS idx_crdn_farmer ON crdn_instruments(farmer_id);
 CREATE INDEX IF NOT EXISTS idx_crdn_lbc ON crdn_instruments(lbc_id);
 CREATE INDEX IF NOT EXISTS idx_crdn_status ON crdn_instruments(status);
 CREATE INDEX IF NOT EXISTS idx_crdn_season ON crdn_instruments(season_year);
+CREATE INDEX IF NOT EXISTS idx_crdn_expiry ON crdn_instruments(expires_at);
+CREATE INDEX IF NOT EXISTS idx_crdn_holder ON crdn_instruments(holder_id);
+
+-- Validity period of CRDNs issued in each cocoa season; seasons without
+-- a row use the ledger default.
+CREATE TABLE IF NOT EXISTS crdn_seasons (
+  season_year VARCHAR(10) PRIMARY KEY,
+  validity_days INT NOT NULL CHECK (validity_days > 0),
+  updated_by VARCHAR(50) NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Secondary market: holders offer CRDNs at a discount to face value and
+-- banks fill the offers, paying in GBDC.
+CREATE TABLE IF NOT EXISTS crdn_orders (
+  order_id VARCHAR(50) PRIMARY KEY,
+  instrument_id VARCHAR(100) NOT NULL REFERENCES crdn_instruments(instrument_id),
+  seller_id VARCHAR(50) NOT NULL,
+  amount_cedi DECIMAL(20,4) NOT NULL,
+  discount_percent DECIMAL(5,2) NOT NULL CHECK (discount_percent >= 0 AND discount_percent < 100),
+  price_cedi DECIMAL(20,4) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'FILLED', 'CANCELLED')),
+  buyer_id VARCHAR(50),
+  fill_tx_id VARCHAR(64),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_crdn_orders_open ON crdn_orders(status, discount_percent DESC);
+CREATE INDEX IF NOT EXISTS idx_crdn_orders_instrument ON crdn_orders(instrument_id);
+
+-- ============================================================
+-- COLLATERALISED LENDING — Bank facilities against GBDC and CRDNs
+-- ============================================================
+
+-- Haircut overrides for new pledges, keyed GBDC, CRDN or CRDN_<grade>;
+-- keys without a row use the ledger defaults.
+CREATE TABLE IF NOT EXISTS collateral_haircuts (
+  haircut_key VARCHAR(30) PRIMARY KEY,
+  haircut_percent DECIMAL(5,2) NOT NULL CHECK (haircut_percent >= 0 AND haircut_percent < 100),
+  updated_by VARCHAR(50) NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS margin_calls (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bank_id VARCHAR(50) NOT NULL,
+  exposure_cedi DECIMAL(20,4) NOT NULL,
+  collateral_value_cedi DECIMAL(20,4) NOT NULL,
+  shortfall_cedi DECIMAL(20,4) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'CURED')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  cured_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_margin_calls_bank ON margin_calls(bank_id, status);
 
 -- ============================================================
 -- ORACLE — Gold Reserves
@@ -394,6 +532,41 @@ CREATE TABLE IF NOT EXISTS gold_production_reports (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE TABLE IF NOT EXISTS royalty_forecasts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  forecast_id VARCHAR(100) UNIQUE NOT NULL,
+  period_year INT NOT NULL,
+  period_quarter INT NOT NULL CHECK (period_quarter BETWEEN 1 AND 4),
+  estimated_production_ounces DECIMAL(15,4) NOT NULL,
+  estimated_gold_price_usd DECIMAL(12,4) NOT NULL,
+  estimated_royalty_usd DECIMAL(20,4) NOT NULL,
+  estimated_royalty_ghs DECIMAL(20,4) NOT NULL,
+  confidence VARCHAR(10) NOT NULL CHECK (confidence IN ('HIGH', 'MEDIUM', 'LOW')),
+  assumptions JSONB DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS royalty_notes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  note_id VARCHAR(100) UNIQUE NOT NULL,
+  principal_ghs DECIMAL(20,4) NOT NULL,
+  backing_royalty_ids JSONB NOT NULL DEFAULT '[]',
+  forecast_ids JSONB NOT NULL DEFAULT '[]',
+  yield_percent DECIMAL(6,4) NOT NULL,
+  maturity_months INT NOT NULL,
+  status VARCHAR(20) DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'ISSUED', 'ACTIVE', 'MATURED', 'REDEEMED')),
+  verified_royalty_ghs DECIMAL(20,4) NOT NULL DEFAULT 0,
+  forecast_royalty_ghs DECIMAL(20,4) NOT NULL DEFAULT 0,
+  coverage_ratio DECIMAL(12,6) NOT NULL DEFAULT 0,
+  issued_at TIMESTAMPTZ,
+  activated_at TIMESTAMPTZ,
+  matures_at TIMESTAMPTZ,
+  matured_at TIMESTAMPTZ,
+  created_by VARCHAR(50),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- ============================================================
 -- ORACLE — Attestations
 -- ============================================================
@@ -428,14 +601,62 @@ CREATE TABLE IF NOT EXISTS bank_settlements (
   amount_cedi DECIMAL(20,4) NOT NULL,
   direction VARCHAR(10) NOT NULL CHECK (direction IN ('CREDIT', 'DEBIT')),
   counterparty_bank_id VARCHAR(50),
+  -- NET settlements wait for a netting cycle; RTGS settlements settle gross or queue
+  mode VARCHAR(10) NOT NULL DEFAULT 'NET' CHECK (mode IN ('NET', 'RTGS')),
+  priority VARCHAR(10) CHECK (priority IN ('URGENT', 'HIGH', 'NORMAL')),
   status VARCHAR(20) DEFAULT 'PENDING' CHECK (status IN (
-    'PENDING', 'CLEARING', 'SETTLED', 'FAILED'
+    'PENDING', 'QUEUED', 'CLEARING', 'SETTLED', 'FAILED'
   )),
+  tx_id VARCHAR(64),
   settled_at TIMESTAMPTZ,
   reference_number VARCHAR(100),
+  -- Netting or RTGS optimiser cycle the settlement is in or was settled by
+  cycle_id VARCHAR(100),
+  -- Cycles that held the settlement back for lack of liquidity
+  queued_cycles INTEGER NOT NULL DEFAULT 0,
+  settle_by TIMESTAMPTZ,
+  failure_reason TEXT,
+  -- Set for settlements imported from ISO 20022 pacs.008/pacs.009 messages
+  iso_message_id VARCHAR(35),
+  end_to_end_id VARCHAR(35),
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE INDEX IF NOT EXISTS idx_bank_settlements_status ON bank_settlements(mode, status, created_at);
+
+CREATE TABLE IF NOT EXISTS iso20022_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  msg_id VARCHAR(35) NOT NULL,
+  message_type VARCHAR(20) NOT NULL,
+  direction VARCHAR(10) NOT NULL CHECK (direction IN ('INBOUND', 'OUTBOUND')),
+  -- Sending bank for inbound messages, receiving bank for outbound ones
+  bank_id VARCHAR(50),
+  original_msg_id VARCHAR(35),
+  payload TEXT NOT NULL,
+  -- Transactions of an inbound message rejected before they reached bank_settlements
+  rejections JSONB NOT NULL DEFAULT '[]',
+  created_by VARCHAR(50),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (msg_id, message_type, direction)
+);
+
+CREATE TABLE IF NOT EXISTS settlement_cycles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  cycle_id VARCHAR(100) UNIQUE NOT NULL,
+  -- NET for netting cycles, RTGS for optimiser releases of queued RTGS payments
+  mode VARCHAR(10) NOT NULL DEFAULT 'NET' CHECK (mode IN ('NET', 'RTGS')),
+  settled_count INTEGER NOT NULL,
+  queued_count INTEGER NOT NULL,
+  rejected_count INTEGER NOT NULL,
+  gross_cedi DECIMAL(20,4) NOT NULL,
+  net_cedi DECIMAL(20,4) NOT NULL,
+  positions JSONB NOT NULL,
+  tx_ids JSONB NOT NULL,
+  block_height BIGINT,
+  started_at TIMESTAMPTZ NOT NULL,
+  settled_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 CREATE TABLE IF NOT EXISTS momo_transactions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   momo_tx_id VARCHAR(100) UNIQUE NOT NULL,
@@ -443,17 +664,61 @@ CREATE TABLE IF NOT EXISTS momo_transactions (
   provider VARCHAR(30) NOT NULL CHECK (provider IN (
     'MTN_MOMO', 'VODAFONE_CASH', 'AIRTELTIGO_MONEY'
   )),
+  -- Our reference with the provider, reused on every attempt so a resent payout is not paid twice
+  provider_reference UUID UNIQUE,
+  provider_tx_id VARCHAR(100),
   phone_number VARCHAR(20) NOT NULL,
   amount_cedi DECIMAL(20,4) NOT NULL,
   instrument_type VARCHAR(10) NOT NULL,
+  crdn_instrument_id VARCHAR(100),
+  account_id VARCHAR(50),
+  -- A cash-out above the holder's limits is paid in tranches, one row each, sent in order
+  cashout_id VARCHAR(100) NOT NULL,
+  tranche INTEGER NOT NULL DEFAULT 1,
+  tranche_count INTEGER NOT NULL DEFAULT 1,
+  -- When the tranche counts against the holder's limits; it is not sent before then
+  scheduled_for TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- HELD payouts wait for a compliance review
   status VARCHAR(20) DEFAULT 'INITIATED' CHECK (status IN (
-    'INITIATED', 'PENDING', 'COMPLETED', 'FAILED', 'REVERSED'
+    'HELD', 'INITIATED', 'PENDING', 'COMPLETED', 'FAILED', 'REVERSED'
   )),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  accepted_at TIMESTAMPTZ,
+  last_error TEXT,
   failure_reason TEXT,
+  -- Ledger transaction that completed or failed the CRDN conversion, or returned a failed GBDC payout
+  settlement_tx_id VARCHAR(64),
   created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
   completed_at TIMESTAMPTZ
 );
 
+CREATE INDEX IF NOT EXISTS idx_momo_status ON momo_transactions(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_momo_cashout ON momo_transactions(cashout_id, tranche);
+CREATE INDEX IF NOT EXISTS idx_momo_account ON momo_transactions(account_id, scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_momo_phone ON momo_transactions(phone_number, scheduled_for);
+
+-- Payments held because an AML check flagged them, until BoG approves or rejects them
+CREATE TABLE IF NOT EXISTS payment_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  review_id VARCHAR(100) UNIQUE NOT NULL,
+  cashout_id VARCHAR(100) NOT NULL,
+  account_id VARCHAR(50) NOT NULL,
+  phone_number VARCHAR(20),
+  amount_cedi DECIMAL(20,4) NOT NULL,
+  reason_code VARCHAR(20) NOT NULL,
+  reason TEXT NOT NULL,
+  checks JSONB NOT NULL DEFAULT '[]',
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+  decided_by VARCHAR(50),
+  decision_note TEXT,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reviews_status ON payment_reviews(status, created_at);
+
 -- ============================================================
 -- GOVERNMENT PROJECTS
 -- ============================================================
@@ -465,6 +730,7 @@ CREATE TABLE IF NOT EXISTS government_projects (
   project_name VARCHAR(500) NOT NULL,
   description TEXT,
   budget_gbdc DECIMAL(20,4) NOT NULL,
+  committed_gbdc DECIMAL(20,4) DEFAULT 0,
   disbursed_gbdc DECIMAL(20,4) DEFAULT 0,
   status VARCHAR(20) DEFAULT 'DRAFT' CHECK (status IN (
     'DRAFT', 'SUBMITTED', 'APPROVED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'
@@ -472,6 +738,8 @@ CREATE TABLE IF NOT EXISTS government_projects (
   contractors JSONB DEFAULT '[]',
   approved_by VARCHAR(50),
   approved_at TIMESTAMPTZ,
+  escrow_account VARCHAR(120),
+  escrow_tx_id VARCHAR(100),
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -482,12 +750,76 @@ CREATE TABLE IF NOT EXISTS project_milestones (
   project_id VARCHAR(100) REFERENCES government_projects(project_id),
   description TEXT NOT NULL,
   amount_gbdc DECIMAL(20,4) NOT NULL,
+  disbursed_gbdc DECIMAL(20,4) DEFAULT 0,
   contractor_id VARCHAR(50) NOT NULL,
   status VARCHAR(20) DEFAULT 'PENDING' CHECK (status IN (
-    'PENDING', 'IN_PROGRESS', 'COMPLETED', 'VERIFIED'
+    'PENDING', 'IN_PROGRESS', 'COMPLETED', 'VERIFIED', 'RELEASED', 'REFUNDED'
   )),
+  release_conditions JSONB DEFAULT '[]',
   completed_at TIMESTAMPTZ,
   verified_by VARCHAR(50),
+  verified_at TIMESTAMPTZ,
+  verification_tx_id VARCHAR(100),
+  released_tx_id VARCHAR(100),
+  released_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Evidence that a milestone was delivered, reviewed by an independent inspector
+CREATE TABLE IF NOT EXISTS milestone_evidence (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  evidence_id VARCHAR(100) UNIQUE NOT NULL,
+  milestone_id VARCHAR(100) NOT NULL REFERENCES project_milestones(milestone_id),
+  evidence_type VARCHAR(20) NOT NULL CHECK (evidence_type IN ('DOCUMENT', 'PHOTO', 'QUANTITY_SURVEY')),
+  document_hash VARCHAR(64) NOT NULL,
+  gps_lat DECIMAL(10,7),
+  gps_lng DECIMAL(10,7),
+  captured_at TIMESTAMPTZ,
+  data JSONB DEFAULT '{}',
+  submitted_by VARCHAR(50) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_evidence_milestone ON milestone_evidence(milestone_id);
+
+-- Per-project budget ledger: every change to the budget, commitments and disbursements, with running totals
+CREATE TABLE IF NOT EXISTS project_budget_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  entry_id VARCHAR(100) UNIQUE NOT NULL,
+  project_id VARCHAR(100) NOT NULL REFERENCES government_projects(project_id),
+  entry_type VARCHAR(30) NOT NULL CHECK (entry_type IN (
+    'BUDGET', 'VARIATION', 'COMMITMENT', 'DISBURSEMENT', 'DISBURSEMENT_REVERSAL'
+  )),
+  amount_gbdc DECIMAL(20,4) NOT NULL,
+  milestone_id VARCHAR(100),
+  variation_id VARCHAR(100),
+  tx_id VARCHAR(100) UNIQUE,
+  budget_after DECIMAL(20,4) NOT NULL,
+  committed_after DECIMAL(20,4) NOT NULL,
+  disbursed_after DECIMAL(20,4) NOT NULL,
+  remaining_after DECIMAL(20,4) NOT NULL,
+  created_by VARCHAR(50) NOT NULL,
+  -- Several entries are posted per transaction; clock_timestamp keeps them in order
+  created_at TIMESTAMPTZ DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_entries_project ON project_budget_entries(project_id, created_at);
+
+-- Budget revisions requested by the agency and approved by BoG
+CREATE TABLE IF NOT EXISTS variation_orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  variation_id VARCHAR(100) UNIQUE NOT NULL,
+  project_id VARCHAR(100) NOT NULL REFERENCES government_projects(project_id),
+  budget_delta_gbdc DECIMAL(20,4) NOT NULL DEFAULT 0,
+  new_milestones JSONB DEFAULT '[]',
+  amendments JSONB DEFAULT '[]',
+  reason TEXT NOT NULL,
+  status VARCHAR(20) DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+  requested_by VARCHAR(50) NOT NULL,
+  decided_by VARCHAR(50),
+  decided_at TIMESTAMPTZ,
+  decision_note TEXT,
+  tx_ids JSONB DEFAULT '[]',
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -495,9 +827,28 @@ CREATE TABLE IF NOT EXISTS project_milestones (
 -- DIASPORA YIELD NOTES
 -- ============================================================
 
+CREATE TABLE IF NOT EXISTS yield_note_series (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  series_id VARCHAR(100) UNIQUE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  asset_type VARCHAR(20) NOT NULL CHECK (asset_type IN ('GOLD', 'COCOA', 'MINERAL_ROYALTY')),
+  backing_ids JSONB NOT NULL DEFAULT '[]',
+  backing_value_cedi DECIMAL(20,4) NOT NULL,
+  issue_size_cedi DECIMAL(20,4) NOT NULL,
+  subscribed_cedi DECIMAL(20,4) NOT NULL DEFAULT 0,
+  coupon_rate_percent DECIMAL(6,4) NOT NULL,
+  coupon_interval_months INT NOT NULL,
+  maturity_date TIMESTAMPTZ NOT NULL,
+  account_id VARCHAR(50) NOT NULL,
+  issued_by VARCHAR(50) NOT NULL,
+  tx_id VARCHAR(64) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 CREATE TABLE IF NOT EXISTS yield_notes (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   note_id VARCHAR(100) UNIQUE NOT NULL,
+  series_id VARCHAR(100) REFERENCES yield_note_series(series_id),
   asset_type VARCHAR(20) NOT NULL CHECK (asset_type IN ('GOLD', 'COCOA', 'MINERAL_ROYALTY')),
   investor_id VARCHAR(50) NOT NULL,
   principal_cedi DECIMAL(20,4) NOT NULL,
@@ -507,30 +858,104 @@ CREATE TABLE IF NOT EXISTS yield_notes (
   status VARCHAR(20) DEFAULT 'ACTIVE' CHECK (status IN (
     'ACTIVE', 'MATURED', 'REDEEMED', 'CANCELLED'
   )),
+  coupons_paid_cedi DECIMAL(20,4) NOT NULL DEFAULT 0,
+  last_coupon_at TIMESTAMPTZ,
+  subscription_tx_id VARCHAR(64),
+  redemption_tx_id VARCHAR(64),
+  redeemed_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE INDEX IF NOT EXISTS idx_yield_notes_investor ON yield_notes(investor_id);
+CREATE INDEX IF NOT EXISTS idx_yield_notes_series ON yield_notes(series_id);
+
+CREATE TABLE IF NOT EXISTS yield_note_coupons (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  note_id VARCHAR(100) NOT NULL REFERENCES yield_notes(note_id),
+  coupon_date TIMESTAMPTZ NOT NULL,
+  amount_cedi DECIMAL(20,4) NOT NULL,
+  tx_id VARCHAR(64) UNIQUE NOT NULL,
+  paid_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_yield_coupons_note ON yield_note_coupons(note_id, coupon_date);
+
 -- ============================================================
 -- CBDC INTEGRATION
 -- ============================================================
 
 CREATE TABLE IF NOT EXISTS ecedi_transactions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  ecedi_tx_id VARCHAR(100) UNIQUE NOT NULL,
+  -- Bridge transfers only; also their reference with the eCedi gateway
+  transfer_id VARCHAR(64) UNIQUE,
+  -- Set once the eCedi side has prepared its leg
+  ecedi_tx_id VARCHAR(100) UNIQUE,
+  -- Ledger lock of a bridge transfer's GBDC
   govres_tx_id VARCHAR(64),
+  -- Ledger commit or rollback of the lock
+  settlement_tx_id VARCHAR(64),
+  account_id VARCHAR(50) REFERENCES user_accounts(account_id),
+  ecedi_wallet VARCHAR(100),
   amount_cedi DECIMAL(20,4) NOT NULL,
   direction VARCHAR(30) NOT NULL CHECK (direction IN (
     'GBDC_TO_ECEDI', 'ECEDI_TO_GBDC', 'CRDN_TO_ECEDI'
   )),
   status VARCHAR(20) DEFAULT 'PENDING' CHECK (status IN (
-    'PENDING', 'COMPLETED', 'FAILED'
+    'PENDING', 'LOCKED', 'COMMITTING', 'ROLLING_BACK', 'COMPLETED', 'FAILED'
   )),
+  failure_reason TEXT,
+  last_error TEXT,
   proof_hash VARCHAR(64),
+  requested_by VARCHAR(50),
+  -- Latest reconciliation finding; NULL when the transfer matched
+  mismatch TEXT,
+  reconciled_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
   completed_at TIMESTAMPTZ
 );
 
+CREATE INDEX IF NOT EXISTS idx_ecedi_status ON ecedi_transactions(status);
+CREATE INDEX IF NOT EXISTS idx_ecedi_account ON ecedi_transactions(account_id);
+
+CREATE TABLE IF NOT EXISTS ecedi_reconciliations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id VARCHAR(64) UNIQUE NOT NULL,
+  transfers_checked INT NOT NULL,
+  float_balance_cedi DECIMAL(20,4) NOT NULL,
+  expected_float_cedi DECIMAL(20,4) NOT NULL,
+  mismatches JSONB NOT NULL DEFAULT '[]',
+  status VARCHAR(20) NOT NULL CHECK (status IN ('MATCHED', 'MISMATCHED')),
+  run_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================
+-- SMART PAYMENT ROUTING
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS payment_routes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  route_id VARCHAR(64) UNIQUE NOT NULL,
+  payer_account_id VARCHAR(50) REFERENCES user_accounts(account_id),
+  -- Account, eCedi wallet and MoMo number the payment may be sent to
+  recipient JSONB NOT NULL,
+  amount_cedi DECIMAL(20,4) NOT NULL,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('SINGLE', 'SPLIT', 'UNROUTABLE')),
+  -- Planned legs, with the fee each rail charges
+  legs JSONB NOT NULL DEFAULT '[]',
+  total_fee_cedi DECIMAL(20,4) NOT NULL DEFAULT 0,
+  scores JSONB NOT NULL DEFAULT '[]',
+  explanation JSONB NOT NULL DEFAULT '[]',
+  -- Legs as sent, including fallbacks; NULL for routes only planned
+  execution JSONB,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('PLANNED', 'UNROUTABLE', 'COMPLETED', 'PARTIAL', 'FAILED')),
+  requested_by VARCHAR(50),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_routes_payer ON payment_routes(payer_account_id, created_at);
+
 -- ============================================================
 -- AUDIT TRAIL
 -- ============================================================
@@ -0,0 +1,153 @@
+/**
+ * GOVRES — Database Row Types
+ *
+ * Rows as node-postgres returns them for the tables the services read
+ * and lock. DECIMAL columns come back as strings and are converted with
+ * Number() where they are used; TIMESTAMPTZ columns come back as Dates.
+ */
+
+import { MOMO_PROVIDERS } from '@govres/shared';
+import { BridgeDirection } from '@govres/ledger';
+
+// ─── Government Projects ────────────────────────────────────────
+
+export type ProjectStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+
+export interface ProjectRow {
+  project_id: string;
+  agency_id: string;
+  project_name: string;
+  description: string | null;
+  budget_gbdc: string;
+  committed_gbdc: string;
+  disbursed_gbdc: string;
+  status: ProjectStatus;
+  contractors: unknown[];
+  approved_by: string | null;
+  approved_at: Date | null;
+  escrow_account: string | null;
+  escrow_tx_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type MilestoneStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'VERIFIED' | 'RELEASED' | 'REFUNDED';
+
+export interface MilestoneRow {
+  milestone_id: string;
+  project_id: string;
+  description: string;
+  amount_gbdc: string;
+  disbursed_gbdc: string;
+  contractor_id: string;
+  status: MilestoneStatus;
+  release_conditions: unknown[];
+  completed_at: Date | null;
+  verified_by: string | null;
+  verified_at: Date | null;
+  verification_tx_id: string | null;
+  released_tx_id: string | null;
+  released_at: Date | null;
+  created_at: Date;
+}
+
+// ─── Interbank Settlements ──────────────────────────────────────
+
+export type BankSettlementStatus = 'PENDING' | 'QUEUED' | 'CLEARING' | 'SETTLED' | 'FAILED';
+
+export interface BankSettlementRow {
+  settlement_id: string;
+  bank_id: string;
+  bank_name: string | null;
+  instrument_type: string;
+  amount_cedi: string;
+  direction: 'CREDIT' | 'DEBIT';
+  counterparty_bank_id: string | null;
+  mode: 'NET' | 'RTGS';
+  priority: 'URGENT' | 'HIGH' | 'NORMAL' | null;
+  status: BankSettlementStatus;
+  tx_id: string | null;
+  settled_at: Date | null;
+  reference_number: string | null;
+  cycle_id: string | null;
+  queued_cycles: number;
+  settle_by: Date | null;
+  failure_reason: string | null;
+  iso_message_id: string | null;
+  end_to_end_id: string | null;
+  created_at: Date;
+}
+
+// ─── Mobile Money Payouts ───────────────────────────────────────
+
+export type MomoPayoutStatus = 'HELD' | 'INITIATED' | 'PENDING' | 'COMPLETED' | 'FAILED' | 'REVERSED';
+
+export interface MomoPayoutRow {
+  momo_tx_id: string;
+  govres_tx_id: string | null;
+  provider: typeof MOMO_PROVIDERS[number]['code'];
+  provider_reference: string;
+  provider_tx_id: string | null;
+  phone_number: string;
+  amount_cedi: string;
+  instrument_type: 'GBDC' | 'CRDN';
+  crdn_instrument_id: string | null;
+  account_id: string | null;
+  cashout_id: string;
+  tranche: number;
+  tranche_count: number;
+  scheduled_for: Date;
+  status: MomoPayoutStatus;
+  attempts: number;
+  next_attempt_at: Date | null;
+  accepted_at: Date | null;
+  last_error: string | null;
+  failure_reason: string | null;
+  settlement_tx_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface PaymentReviewRow {
+  review_id: string;
+  cashout_id: string;
+  account_id: string;
+  phone_number: string | null;
+  amount_cedi: string;
+  reason_code: string;
+  reason: string;
+  checks: unknown[];
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  decided_by: string | null;
+  decision_note: string | null;
+  decided_at: Date | null;
+  created_at: Date;
+}
+
+// ─── eCedi Bridge ───────────────────────────────────────────────
+
+/* PENDING to LOCKED to a decision (COMMITTING or ROLLING_BACK), then COMPLETED or FAILED */
+export type EcediTransferStatus = 'PENDING' | 'LOCKED' | 'COMMITTING' | 'ROLLING_BACK' | 'COMPLETED' | 'FAILED';
+
+/* A bridge transfer's row in ecedi_transactions */
+export interface EcediTransferRow {
+  transfer_id: string;
+  ecedi_tx_id: string | null;
+  govres_tx_id: string | null;
+  settlement_tx_id: string | null;
+  account_id: string;
+  ecedi_wallet: string;
+  amount_cedi: string;
+  direction: BridgeDirection;
+  status: EcediTransferStatus;
+  failure_reason: string | null;
+  last_error: string | null;
+  proof_hash: string | null;
+  requested_by: string | null;
+  mismatch: string | null;
+  reconciled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
@@ -16,6 +16,7 @@
  * LBC               clerk@pbc.com.gh            govres2025
  * FARMER            kwame@example.com           govres2025
  * CONTRACTOR        info@northgate.com.gh       govres2025
+ * INSPECTOR         inspector@ghie.org.gh       govres2025
  * DIASPORA          kofi.asante@email.com       govres2025
  * ──────────────────────────────────────────────────────────
  */
@@ -32,48 +33,50 @@ async function buildSeedSQL(): Promise<string> {
 -- ============================================================
 
 -- Organizations
-INSERT INTO organizations (org_code, org_name, org_type, region) VALUES
-  ('BOG', 'Bank of Ghana', 'BOG', 'Greater Accra'),
-  ('MOF', 'Ministry of Finance', 'GOVERNMENT_AGENCY', 'Greater Accra'),
-  ('MRH', 'Ministry of Roads & Highways', 'GOVERNMENT_AGENCY', 'Greater Accra'),
-  ('GCB', 'GCB Bank Limited', 'COMMERCIAL_BANK', 'Greater Accra'),
-  ('ECO', 'Ecobank Ghana Limited', 'COMMERCIAL_BANK', 'Greater Accra'),
-  ('STB', 'Stanbic Bank Ghana Limited', 'COMMERCIAL_BANK', 'Greater Accra'),
-  ('FID', 'Fidelity Bank Ghana Limited', 'COMMERCIAL_BANK', 'Greater Accra'),
-  ('ADB', 'Agricultural Development Bank', 'COMMERCIAL_BANK', 'Greater Accra'),
-  ('LBC001', 'PBC Limited', 'LBC', 'Ashanti'),
-  ('LBC002', 'Akuafo Adamfo Marketing Company', 'LBC', 'Western'),
-  ('LBC003', 'Kuapa Kokoo Limited', 'LBC', 'Ashanti'),
-  ('NEWMONT', 'Newmont Corporation Ghana', 'MINING_COMPANY', 'Ashanti'),
-  ('AGA', 'AngloGold Ashanti - Obuasi', 'MINING_COMPANY', 'Ashanti'),
-  ('GFL', 'Gold Fields Ghana - Tarkwa', 'MINING_COMPANY', 'Western')
+INSERT INTO organizations (org_code, org_name, org_type, region, bic_code) VALUES
+  ('BOG', 'Bank of Ghana', 'BOG', 'Greater Accra', 'BAGHGHAC'),
+  ('MOF', 'Ministry of Finance', 'GOVERNMENT_AGENCY', 'Greater Accra', NULL),
+  ('MRH', 'Ministry of Roads & Highways', 'GOVERNMENT_AGENCY', 'Greater Accra', NULL),
+  ('GCB', 'GCB Bank Limited', 'COMMERCIAL_BANK', 'Greater Accra', 'GHCBGHAC'),
+  ('ECO', 'Ecobank Ghana Limited', 'COMMERCIAL_BANK', 'Greater Accra', 'ECOCGHAC'),
+  ('STB', 'Stanbic Bank Ghana Limited', 'COMMERCIAL_BANK', 'Greater Accra', 'SBICGHAC'),
+  ('FID', 'Fidelity Bank Ghana Limited', 'COMMERCIAL_BANK', 'Greater Accra', 'FBLIGHAC'),
+  ('ADB', 'Agricultural Development Bank', 'COMMERCIAL_BANK', 'Greater Accra', 'ADNTGHAC'),
+  ('LBC001', 'PBC Limited', 'LBC', 'Ashanti', NULL),
+  ('LBC002', 'Akuafo Adamfo Marketing Company', 'LBC', 'Western', NULL),
+  ('LBC003', 'Kuapa Kokoo Limited', 'LBC', 'Ashanti', NULL),
+  ('NEWMONT', 'Newmont Corporation Ghana', 'MINING_COMPANY', 'Ashanti', NULL),
+  ('AGA', 'AngloGold Ashanti - Obuasi', 'MINING_COMPANY', 'Ashanti', NULL),
+  ('GFL', 'Gold Fields Ghana - Tarkwa', 'MINING_COMPANY', 'Western', NULL)
 ON CONFLICT (org_code) DO NOTHING;
 
 -- User accounts with proper bcrypt password hashes
 -- Default dev password: govres2025
-INSERT INTO user_accounts (account_id, organization_id, role, full_name, email, phone, password_hash) VALUES
+INSERT INTO user_accounts (account_id, organization_id, role, full_name, email, phone, password_hash, kyc_tier) VALUES
   ('BOG-ADMIN-001', (SELECT id FROM organizations WHERE org_code = 'BOG'), 'BOG_ADMIN',
-   'GOVRES System Administrator', 'admin@bog.gov.gh', '+233302666174', '${devHash}'),
+   'GOVRES System Administrator', 'admin@bog.gov.gh', '+233302666174', '${devHash}', 3),
   ('BOG-AUDIT-001', (SELECT id FROM organizations WHERE org_code = 'BOG'), 'BOG_AUDITOR',
-   'GOVRES Auditor', 'auditor@bog.gov.gh', '+233302666175', '${devHash}'),
+   'GOVRES Auditor', 'auditor@bog.gov.gh', '+233302666175', '${devHash}', 3),
   ('MOF-001', (SELECT id FROM organizations WHERE org_code = 'MOF'), 'GOVT_AGENCY',
-   'Ministry of Finance Officer', 'officer@mof.gov.gh', '+233302000001', '${devHash}'),
+   'Ministry of Finance Officer', 'officer@mof.gov.gh', '+233302000001', '${devHash}', 3),
   ('MRH-001', (SELECT id FROM organizations WHERE org_code = 'MRH'), 'GOVT_AGENCY',
-   'Ministry of Roads Officer', 'roads@mrh.gov.gh', '+233302000003', '${devHash}'),
+   'Ministry of Roads Officer', 'roads@mrh.gov.gh', '+233302000003', '${devHash}', 3),
   ('GCB-001', (SELECT id FROM organizations WHERE org_code = 'GCB'), 'COMMERCIAL_BANK',
-   'GCB Settlement Officer', 'settlement@gcbbank.com.gh', '+233302000002', '${devHash}'),
+   'GCB Settlement Officer', 'settlement@gcbbank.com.gh', '+233302000002', '${devHash}', 3),
   ('ECO-001', (SELECT id FROM organizations WHERE org_code = 'ECO'), 'COMMERCIAL_BANK',
-   'Ecobank Settlement Officer', 'settlement@ecobank.com.gh', '+233302000004', '${devHash}'),
+   'Ecobank Settlement Officer', 'settlement@ecobank.com.gh', '+233302000004', '${devHash}', 3),
   ('LBC001-001', (SELECT id FROM organizations WHERE org_code = 'LBC001'), 'LBC',
-   'PBC Purchase Clerk', 'clerk@pbc.com.gh', '+233200000001', '${devHash}'),
+   'PBC Purchase Clerk', 'clerk@pbc.com.gh', '+233200000001', '${devHash}', 3),
   ('FARMER-001', NULL, 'FARMER',
-   'Kwame Mensah', 'kwame@example.com', '+233240000001', '${devHash}'),
+   'Kwame Mensah', 'kwame@example.com', '+233240000001', '${devHash}', 1),
   ('FARMER-002', NULL, 'FARMER',
-   'Ama Serwaa', 'ama@example.com', '+233240000002', '${devHash}'),
+   'Ama Serwaa', 'ama@example.com', '+233240000002', '${devHash}', 2),
   ('CONTRACTOR-001', NULL, 'CONTRACTOR',
-   'Northgate Construction Ltd', 'info@northgate.com.gh', '+233300000001', '${devHash}'),
+   'Northgate Construction Ltd', 'info@northgate.com.gh', '+233300000001', '${devHash}', 2),
+  ('INSPECTOR-001', NULL, 'INSPECTOR',
+   'Efua Boateng (Independent Inspector)', 'inspector@ghie.org.gh', '+233300000002', '${devHash}', 2),
   ('DIASPORA-001', NULL, 'DIASPORA',
-   'Kofi Asante', 'kofi.asante@email.com', '+14155550001', '${devHash}')
+   'Kofi Asante', 'kofi.asante@email.com', '+14155550001', '${devHash}', 2)
 ON CONFLICT (account_id) DO NOTHING;
 
 -- Initialize account balances
@@ -85,14 +88,11 @@ INSERT INTO account_balances (account_id, gbdc_balance, crdn_balance) VALUES
   ('FARMER-001', 0, 0),
   ('FARMER-002', 0, 0),
   ('CONTRACTOR-001', 0, 0),
+  ('INSPECTOR-001', 0, 0),
   ('DIASPORA-001', 0, 0)
 ON CONFLICT (account_id) DO NOTHING;
 
--- Genesis block
-INSERT INTO ledger_blocks (block_height, previous_hash, hash, merkle_root, transaction_count, validator_id)
-VALUES (0, REPEAT('0', 64), encode(digest('genesis-govres-bog', 'sha256'), 'hex'),
-        encode(digest('empty', 'sha256'), 'hex'), 0, 'BOG-VALIDATOR-001')
-ON CONFLICT (block_height) DO NOTHING;
+-- Genesis block is written by the LedgerEngine on first start
 `;
 }
 
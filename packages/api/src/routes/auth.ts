@@ -10,7 +10,7 @@
  *
  * Protected endpoints:
  *   GET  /me            — current user profile + balances
- *   POST /register      — admin-only: create privileged accounts (BOG/BANK/AGENCY/LBC)
+ *   POST /register      — admin-only: create privileged accounts (BOG/BANK/AGENCY/LBC/INSPECTOR)
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
@@ -220,13 +220,44 @@ router.post(
   }
 );
 
+// ── PUT /api/v1/auth/users/:accountId/kyc (ADMIN-ONLY — KYC tier) ──
+
+router.put(
+  '/users/:accountId/kyc',
+  authMiddleware,
+  requireRole(UserRole.BOG_ADMIN),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tier = Number(req.body.tier);
+      if (!Number.isInteger(tier) || tier < 0 || tier > 3) {
+        throw new AppError('tier must be 0, 1, 2 or 3', 400, 'VALIDATION');
+      }
+
+      // The tier sets the holder's payment limits; tier 0 withdraws verification
+      const result = await query(
+        `UPDATE user_accounts SET kyc_tier = $1, kyc_verified = $1 > 0,
+           kyc_verified_at = CASE WHEN $1 > 0 THEN NOW() END, updated_at = NOW()
+         WHERE account_id = $2
+         RETURNING id, account_id, role, full_name, email, is_active, kyc_verified, kyc_verified_at, kyc_tier`,
+        [tier, req.params.accountId]
+      );
+      if (result.rows.length === 0) throw new AppError('User not found', 404, 'NOT_FOUND');
+      logger.info('KYC tier set', { accountId: req.params.accountId, tier, by: req.user?.accountId });
+
+      res.json({ success: true, data: result.rows[0] });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // ── GET /api/v1/auth/me ─────────────────────────────────────────
 
 router.get('/me', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const result = await query(
       `SELECT ua.id, ua.account_id, ua.role, ua.full_name, ua.email, ua.phone,
-              ua.is_active, ua.kyc_verified, ua.permissions, ua.last_login_at,
+              ua.is_active, ua.kyc_verified, ua.kyc_tier, ua.permissions, ua.last_login_at,
               o.org_code, o.org_name, o.org_type,
               ab.gbdc_balance, ab.crdn_balance
        FROM user_accounts ua
@@ -1,105 +1,192 @@
 /**
  * GOVRES — CBDC Integration Routes
- * eCedi interoperability layer with real DB integration.
+ * eCedi interoperability layer with real DB integration. GBDC moves to
+ * and from eCedi through the two-phase bridge; BoG follows its transfers
+ * and reconciliation runs. Only a bank's GBDC crosses the bridge, so a
+ * CRDN is converted through /crdn/convert first. Payments are smart-routed across the ledger,
+ * eCedi, MoMo and RTGS rails.
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { UserRole } from '@govres/shared';
+import { BridgeDirection, buildMerkleProof, verifyMerkleProof } from '@govres/ledger';
 import { requireRole } from '../middleware/auth';
 import { query } from '../database/connection';
+import { AppError } from '../middleware/error-handler';
+import { getLedger } from '../services/ledger';
+import { recordAudit } from '../services/audit';
+import { bridgeFailedError, runEcediBridge, startBridgeTransfer } from '../services/ecedi-bridge';
+import { MockECediAdapter, getECediAdapter } from '../services/ecedi-adapter';
+import { routePayment } from '../services/routing';
 
 const router = Router();
 
 /* GET /api/v1/cbdc/status */
-router.get('/status', async (_req: Request, res: Response) => {
-  res.json({
-    success: true,
-    data: {
-      ecediStatus: 'PILOT',
-      interoperabilityReady: true,
-      smartRoutingEnabled: false,
-      lastSyncAt: null,
-      supportedConversions: ['GBDC_TO_ECEDI', 'ECEDI_TO_GBDC', 'CRDN_TO_ECEDI'],
-    },
-  });
+router.get('/status', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const lastRun = await query('SELECT run_at, status FROM ecedi_reconciliations ORDER BY run_at DESC LIMIT 1');
+    res.json({
+      success: true,
+      data: {
+        ecediStatus: 'PILOT',
+        ecediGateway: getECediAdapter() instanceof MockECediAdapter ? 'MOCK' : 'LIVE',
+        interoperabilityReady: true,
+        smartRoutingEnabled: true,
+        lastSyncAt: lastRun.rows[0]?.run_at ?? null,
+        lastReconciliation: lastRun.rows[0]?.status ?? null,
+        supportedConversions: ['GBDC_TO_ECEDI', 'ECEDI_TO_GBDC'],
+      },
+    });
+  } catch (error) { next(error); }
 });
 
-/* POST /api/v1/cbdc/convert/gbdc-to-ecedi */
-router.post('/convert/gbdc-to-ecedi', requireRole(UserRole.COMMERCIAL_BANK, UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+/* Move GBDC across the bridge for the requesting bank, or for the bank a BoG admin names */
+function bridgeConversion(direction: BridgeDirection) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { ecediWallet } = req.body;
+      const amountCedi = Number(req.body.amountCedi);
+      if (!(amountCedi > 0)) throw new AppError('amountCedi must be a positive amount', 400, 'VALIDATION');
+      if (typeof ecediWallet !== 'string' || !ecediWallet.trim()) throw new AppError('ecediWallet required', 400, 'VALIDATION');
+      const accountId = req.user!.role === UserRole.BOG_ADMIN ? req.body.accountId : req.user!.accountId;
+      if (!accountId) throw new AppError('accountId of the bank required', 400, 'VALIDATION');
+
+      const transfer = await startBridgeTransfer({ direction, accountId, wallet: ecediWallet.trim(), amountCedi, requestedBy: req.user!.accountId });
+      await recordAudit(req, `ECEDI_${direction}`, 'ECEDI_TRANSACTION', transfer.transfer_id, { accountId, amountCedi, status: transfer.status });
+      if (transfer.status === 'FAILED') throw bridgeFailedError(transfer);
+      // Still between phases when the gateway could not be reached; the bridge run finishes it
+      res.status(transfer.status === 'COMPLETED' ? 201 : 202).json({ success: true, data: transfer });
+    } catch (error) { next(error); }
+  };
+}
+
+/* POST /api/v1/cbdc/convert/gbdc-to-ecedi — Lock a bank's GBDC and issue eCedi against it to a wallet */
+router.post('/convert/gbdc-to-ecedi', requireRole(UserRole.COMMERCIAL_BANK, UserRole.BOG_ADMIN), bridgeConversion('GBDC_TO_ECEDI'));
+
+/* POST /api/v1/cbdc/convert/ecedi-to-gbdc — Redeem eCedi from a wallet for GBDC out of the bridge float */
+router.post('/convert/ecedi-to-gbdc', requireRole(UserRole.COMMERCIAL_BANK, UserRole.BOG_ADMIN), bridgeConversion('ECEDI_TO_GBDC'));
+
+/* GET /api/v1/cbdc/bridge/transfers — Bridge transfers, newest first; banks see their own */
+router.get('/bridge/transfers', requireRole(UserRole.COMMERCIAL_BANK, UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { gbdcInstrumentId, amountCedi } = req.body;
-    const ecediTxId = `ECEDI-${Date.now().toString(36).toUpperCase()}`;
-    const govresTxId = `TX-${Date.now().toString(36).toUpperCase()}`;
-    const proofHash = require('crypto').createHash('sha256').update(`${ecediTxId}:${govresTxId}:${amountCedi}`).digest('hex');
-
-    await query(
-      `INSERT INTO ecedi_transactions (ecedi_tx_id, govres_tx_id, amount_cedi, direction, status, proof_hash)
-       VALUES ($1, $2, $3, 'GBDC_TO_ECEDI', 'PENDING', $4)`,
-      [ecediTxId, govresTxId, amountCedi, proofHash]
-    );
-
-    await query(
-      `INSERT INTO ledger_transactions (tx_id, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status, channel)
-       VALUES ($1, 'CONVERT', 'GBDC', $2, $3, 'ECEDI_BRIDGE', $4, 'CONFIRMED', 'ECEDI')`,
-      [govresTxId, gbdcInstrumentId, req.user?.accountId, amountCedi]
-    );
-
-    res.json({ success: true, data: { ecediTxId, govresTxId, direction: 'GBDC_TO_ECEDI', amountCedi, status: 'PENDING', proofHash } });
+    const conditions = ['transfer_id IS NOT NULL'];
+    const params: unknown[] = [];
+    if (req.user!.role === UserRole.COMMERCIAL_BANK) {
+      params.push(req.user!.accountId);
+      conditions.push(`account_id = $${params.length}`);
+    }
+    if (req.query.status) {
+      params.push(req.query.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (req.query.mismatched === 'true') conditions.push('mismatch IS NOT NULL');
+    const result = await query(`SELECT * FROM ecedi_transactions WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC LIMIT 200`, params);
+    res.json({ success: true, data: result.rows });
   } catch (error) { next(error); }
 });
 
-/* POST /api/v1/cbdc/convert/crdn-to-ecedi */
-router.post('/convert/crdn-to-ecedi', requireRole(UserRole.FARMER, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+/* GET /api/v1/cbdc/bridge/transfers/:transferId */
+router.get('/bridge/transfers/:transferId', requireRole(UserRole.COMMERCIAL_BANK, UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { crdnInstrumentId, farmerId } = req.body;
-    const crdn = await query('SELECT amount_cedi FROM crdn_instruments WHERE instrument_id = $1', [crdnInstrumentId]);
-    const amountCedi = crdn.rows[0]?.amount_cedi || 0;
-
-    const ecediTxId = `ECEDI-${Date.now().toString(36).toUpperCase()}`;
-    const govresTxId = `TX-${Date.now().toString(36).toUpperCase()}`;
+    const result = await query('SELECT * FROM ecedi_transactions WHERE transfer_id = $1', [req.params.transferId]);
+    if (result.rows.length === 0) throw new AppError('eCedi transfer not found', 404, 'NOT_FOUND');
+    if (req.user!.role === UserRole.COMMERCIAL_BANK && result.rows[0].account_id !== req.user!.accountId) {
+      throw new AppError('Banks can only view their own transfers', 403, 'AUTH_002');
+    }
+    res.json({ success: true, data: result.rows[0] });
+  } catch (error) { next(error); }
+});
 
-    await query(
-      `INSERT INTO ecedi_transactions (ecedi_tx_id, govres_tx_id, amount_cedi, direction, status)
-       VALUES ($1, $2, $3, 'CRDN_TO_ECEDI', 'PENDING')`,
-      [ecediTxId, govresTxId, amountCedi]
-    );
+/* GET /api/v1/cbdc/bridge/reconciliations — Recent reconciliation runs, newest first */
+router.get('/bridge/reconciliations', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (req.query.status) {
+      params.push(req.query.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await query(`SELECT * FROM ecedi_reconciliations ${where} ORDER BY run_at DESC LIMIT 50`, params);
+    res.json({ success: true, data: result.rows });
+  } catch (error) { next(error); }
+});
 
-    res.json({ success: true, data: { ecediTxId, govresTxId, direction: 'CRDN_TO_ECEDI', crdnInstrumentId, farmerId, status: 'PENDING' } });
+/* POST /api/v1/cbdc/bridge/reconcile — Finish stalled transfers and reconcile the bridge now */
+router.post('/bridge/reconcile', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await runEcediBridge();
+    await recordAudit(req, 'ECEDI_BRIDGE_RECONCILED', 'ECEDI_RECONCILIATION', run.reconciliation.runId, {
+      resumed: run.resumed,
+      mismatches: run.reconciliation.mismatches.length,
+    });
+    res.json({ success: true, data: run });
   } catch (error) { next(error); }
 });
 
 /* POST /api/v1/cbdc/transaction-proof */
-router.post('/transaction-proof', requireRole(UserRole.BOG_ADMIN, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/transaction-proof', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { txId, instrumentType, instrumentId } = req.body;
-    const proofHash = require('crypto').createHash('sha256').update(`proof:${txId}:${instrumentId}`).digest('hex');
+    const { txId } = req.body;
+    if (!txId) throw new AppError('txId required', 400, 'VALIDATION');
+
+    const located = await query('SELECT block_height FROM ledger_transactions WHERE tx_id = $1 AND block_height IS NOT NULL', [txId]);
+    if (located.rows.length === 0) throw new AppError('Transaction not found in a committed block', 404, 'NOT_FOUND');
+    const blockHeight = Number(located.rows[0].block_height);
+
+    // Older blocks may only be in storage once the engine has pruned them
+    const block = await (await getLedger()).fetchBlock(blockHeight);
+    const proof = block && buildMerkleProof(block, txId);
+    if (!block || !proof) throw new AppError('Transaction not found in a committed block', 404, 'NOT_FOUND');
+    const tx = block.transactions.find(t => t.txId === txId)!;
+    if (req.user!.role === UserRole.COMMERCIAL_BANK && tx.fromAccount !== req.user!.accountId && tx.toAccount !== req.user!.accountId) {
+      throw new AppError('Banks can only prove their own transactions', 403, 'AUTH_002');
+    }
 
     res.json({
       success: true,
       data: {
         proofId: `PROOF-${Date.now().toString(36).toUpperCase()}`,
-        txId, instrumentType, instrumentId,
-        assetBacking: { verified: true, assetType: instrumentType === 'GBDC' ? 'GOLD' : 'COCOA' },
-        proofHash,
+        txId,
+        instrumentType: tx.instrumentType,
+        instrumentId: tx.instrumentId,
+        signature: tx.signature,
+        assetBacking: { assetType: tx.instrumentType === 'GBDC' ? 'GOLD' : 'COCOA' },
+        proof,
+        verified: verifyMerkleProof(proof, block.header.merkleRoot),
       },
     });
   } catch (error) { next(error); }
 });
 
-/* POST /api/v1/cbdc/smart-route */
-router.post('/smart-route', requireRole(UserRole.COMMERCIAL_BANK, UserRole.BOG_ADMIN), async (req: Request, res: Response) => {
-  const { fromAccount, toAccount, amountCedi, instrumentType } = req.body;
-  const ecediAvailable = false;
-
-  res.json({
-    success: true,
-    data: {
-      routeId: `ROUTE-${Date.now().toString(36).toUpperCase()}`,
-      selectedRoute: ecediAvailable ? 'ECEDI' : 'STANDARD',
-      fromAccount, toAccount, amountCedi, instrumentType,
-      status: 'ROUTED',
-    },
-  });
+/* POST /api/v1/cbdc/smart-route — Route a GBDC payment over the best rail or rails, sending it when execute is set */
+router.post('/smart-route', requireRole(UserRole.COMMERCIAL_BANK, UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { toAccount, ecediWallet, momoPhone, instrumentType } = req.body;
+    const amountCedi = Number(req.body.amountCedi);
+    if (!(amountCedi > 0)) throw new AppError('amountCedi must be a positive amount', 400, 'VALIDATION');
+    if (instrumentType && instrumentType !== 'GBDC') throw new AppError('Only GBDC payments are routed', 400, 'VALIDATION');
+    const payerAccountId = req.user!.role === UserRole.BOG_ADMIN ? req.body.fromAccount : req.user!.accountId;
+    if (!payerAccountId) throw new AppError('fromAccount required', 400, 'VALIDATION');
+
+    const execute = req.body.execute === true;
+    const route = await routePayment({
+      payerAccountId,
+      recipient: { accountId: toAccount || undefined, ecediWallet: ecediWallet?.trim() || undefined, momoPhone: momoPhone || undefined },
+      amountCedi,
+      allowSplit: req.body.allowSplit === true,
+      execute,
+      requestedBy: req.user!.accountId,
+    });
+    if (execute) {
+      await recordAudit(req, 'PAYMENT_ROUTED', 'PAYMENT_ROUTE', route.routeId, {
+        payerAccountId, amountCedi, status: route.status, legs: route.execution?.legs.map(leg => ({ ...leg.leg, status: leg.status })),
+      });
+    }
+    if (execute && route.status === 'UNROUTABLE') throw new AppError(`Payment cannot be routed: ${route.explanation[0]}`, 422, 'UNROUTABLE');
+    if (route.status === 'FAILED') throw new AppError(`Payment failed on every rail: ${route.execution!.explanation.join('; ')}`, 422, 'ROUTE_FAILED');
+    res.status(execute ? 201 : 200).json({ success: true, data: route });
+  } catch (error) { next(error); }
 });
 
 export { router as cbdcRoutes };
@@ -0,0 +1,154 @@
+/**
+ * GOVRES — Collateral Routes
+ * Collateralised lending facility: banks pledge GBDC or CRDNs to BoG and
+ * draw GBDC against them; BoG sets haircuts and feeds attested prices.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { UserRole } from '@govres/shared';
+import { requireRole } from '../middleware/auth';
+import { query } from '../database/connection';
+import { AppError } from '../middleware/error-handler';
+import { getLedger, submit } from '../services/ledger';
+import { recordAudit } from '../services/audit';
+
+const router = Router();
+
+const ASSETS = ['GOLD', 'COCOA'] as const;
+const HAIRCUT_KEYS = ['GBDC', 'CRDN', 'CRDN_GRADE_1', 'CRDN_GRADE_2', 'CRDN_SUB_STANDARD'];
+
+/* POST /api/v1/collateral/pledges — Pledge a GBDC or CRDN instrument to BoG */
+router.post('/pledges', requireRole(UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { instrumentId, instrumentType } = req.body;
+    if (!instrumentId || (instrumentType !== 'GBDC' && instrumentType !== 'CRDN')) {
+      throw new AppError('instrumentId and instrumentType (GBDC or CRDN) required', 400, 'VALIDATION');
+    }
+
+    // CRDN haircuts depend on the QCC grade recorded at issuance
+    let qualityGrade: string | undefined;
+    if (instrumentType === 'CRDN') {
+      const crdn = await query('SELECT quality_grade FROM crdn_instruments WHERE instrument_id = $1', [instrumentId]);
+      if (crdn.rows.length === 0) throw new AppError('CRDN not found', 404, 'NOT_FOUND');
+      qualityGrade = crdn.rows[0].quality_grade || undefined;
+    }
+
+    const bank = req.user!.accountId;
+    const { result: txId, blockHeight } = await submit(engine => engine.pledgeCollateral({ instrumentId, instrumentType, bank, qualityGrade }));
+    const pledge = (await getLedger()).getCreditLine(bank).pledges.find(p => p.instrumentId === instrumentId)!;
+    await recordAudit(req, 'COLLATERAL_PLEDGED', instrumentType, instrumentId, { haircutPercent: pledge.haircutPercent, txId });
+
+    res.status(201).json({ success: true, data: { ...pledge, txId, blockHeight } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/collateral/pledges/:instrumentId/release — Return a pledged instrument to the bank */
+router.post('/pledges/:instrumentId/release', requireRole(UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { instrumentId } = req.params;
+    const bank = req.user!.accountId;
+    const { result: txId, blockHeight } = await submit(engine => engine.releaseCollateral({ instrumentId, bank }));
+    await recordAudit(req, 'COLLATERAL_RELEASED', 'COLLATERAL', instrumentId, { txId });
+
+    res.json({ success: true, data: { instrumentId, txId, blockHeight } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/collateral/draw — Draw GBDC against pledged collateral */
+router.post('/draw', requireRole(UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const amountCedi = Number(req.body.amountCedi);
+    if (!(amountCedi > 0)) throw new AppError('amountCedi must be positive', 400, 'VALIDATION');
+
+    const bank = req.user!.accountId;
+    const { result: txId, blockHeight } = await submit(engine => engine.drawCredit({ bank, amountCedi, description: req.body.description }));
+    await recordAudit(req, 'FACILITY_DRAWN', 'CREDIT_LINE', bank, { amountCedi, txId });
+
+    res.status(201).json({ success: true, data: { ...(await getLedger()).getCreditLine(bank), txId, blockHeight } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/collateral/repay — Repay interest then principal in GBDC */
+router.post('/repay', requireRole(UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const amountCedi = Number(req.body.amountCedi);
+    if (!(amountCedi > 0)) throw new AppError('amountCedi must be positive', 400, 'VALIDATION');
+
+    const bank = req.user!.accountId;
+    const { result: txId, blockHeight } = await submit(engine => engine.repayCredit({ bank, amountCedi }));
+    await recordAudit(req, 'FACILITY_REPAID', 'CREDIT_LINE', bank, { amountCedi, txId });
+
+    res.json({ success: true, data: { ...(await getLedger()).getCreditLine(bank), txId, blockHeight } });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/collateral/credit-lines/:bankId — Pledges, drawn balance and headroom */
+router.get('/credit-lines/:bankId', requireRole(UserRole.COMMERCIAL_BANK, UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { bankId } = req.params;
+    if (req.user!.role === UserRole.COMMERCIAL_BANK && req.user!.accountId !== bankId) {
+      throw new AppError('Banks can only view their own credit line', 403, 'AUTH_002');
+    }
+    const line = (await getLedger()).getCreditLine(bankId);
+    const marginCalls = await query('SELECT * FROM margin_calls WHERE bank_id = $1 ORDER BY created_at DESC LIMIT 20', [bankId]);
+    res.json({ success: true, data: { ...line, marginCalls: marginCalls.rows } });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/collateral/margin-calls — Open margin calls across banks */
+router.get('/margin-calls', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await query("SELECT * FROM margin_calls WHERE status = 'OPEN' ORDER BY shortfall_cedi DESC");
+    res.json({ success: true, data: result.rows });
+  } catch (error) { next(error); }
+});
+
+/* PUT /api/v1/collateral/haircuts/:key — Set the haircut for new pledges of an instrument type or CRDN grade */
+router.put('/haircuts/:key', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { key } = req.params;
+    if (!HAIRCUT_KEYS.includes(key)) throw new AppError(`Haircut key must be one of ${HAIRCUT_KEYS.join(', ')}`, 400, 'VALIDATION');
+    const haircutPercent = Number(req.body.haircutPercent);
+    if (!(haircutPercent >= 0 && haircutPercent < 100)) {
+      throw new AppError('haircutPercent must be at least 0 and below 100', 400, 'VALIDATION');
+    }
+
+    await query(
+      `INSERT INTO collateral_haircuts (haircut_key, haircut_percent, updated_by) VALUES ($1, $2, $3)
+       ON CONFLICT (haircut_key) DO UPDATE SET haircut_percent = EXCLUDED.haircut_percent, updated_by = EXCLUDED.updated_by, updated_at = NOW()`,
+      [key, haircutPercent, req.user!.accountId]
+    );
+    (await getLedger()).setCollateralHaircut(key, haircutPercent);
+    await recordAudit(req, 'COLLATERAL_HAIRCUT_SET', 'COLLATERAL_HAIRCUT', key, { haircutPercent });
+
+    res.json({ success: true, data: { key, haircutPercent } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/collateral/prices — Attest a gold (per gram) or cocoa (per kg) price and revalue pledges */
+router.post('/prices', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { asset } = req.body;
+    const pricePerUnitGHS = Number(req.body.pricePerUnitGHS);
+    if (!ASSETS.includes(asset) || !(pricePerUnitGHS > 0)) {
+      throw new AppError('asset (GOLD or COCOA) and a positive pricePerUnitGHS required', 400, 'VALIDATION');
+    }
+
+    const data = { asset, pricePerUnitGHS, source: req.body.source || null };
+    const attestationId = `PRICE-ATT-${Date.now().toString(36).toUpperCase()}`;
+    const hash = crypto.createHash('sha256').update(JSON.stringify({ ...data, attestationId })).digest('hex');
+    await query(
+      `INSERT INTO oracle_attestations (attestation_id, source_type, source_id, data, hash, signature, verified, verified_at, expires_at)
+       VALUES ($1, 'COLLATERAL_PRICE', $2, $3, $4, 'BOG-SYSTEM', true, NOW(), NOW() + INTERVAL '24 hours')`,
+      [attestationId, asset, JSON.stringify(data), hash]
+    );
+
+    const marginCalls = (await getLedger()).updateCollateralPrice({ asset, pricePerUnitGHS, attestationHash: hash });
+    await recordAudit(req, 'COLLATERAL_PRICE_ATTESTED', 'ORACLE_ATTESTATION', attestationId, { asset, pricePerUnitGHS, marginCalls });
+
+    res.status(201).json({ success: true, data: { attestationId, asset, pricePerUnitGHS, hash, marginCalls } });
+  } catch (error) { next(error); }
+});
+
+export { router as collateralRoutes };
@@ -4,13 +4,33 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { UserRole } from '@govres/shared';
+import { UserRole, CRDNStatus } from '@govres/shared';
+import { convertedInstrumentId } from '@govres/ledger';
 import { requireRole } from '../middleware/auth';
 import { query } from '../database/connection';
 import { AppError } from '../middleware/error-handler';
+import { ensureAccounts, getLedger, submit } from '../services/ledger';
+import { recordAudit } from '../services/audit';
+import crypto from 'crypto';
 
 const router = Router();
 
+function generateOrderId(): string {
+  return `ORD-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+/* Record the note split off by a partial transfer; it keeps the parent's issuance details */
+async function insertSplitNote(instrumentId: string, parentInstrumentId: string): Promise<void> {
+  const crdn = (await getLedger()).getCRDNRecord(instrumentId)!;
+  await query(
+    `INSERT INTO crdn_instruments (instrument_id, amount_cedi, cocoa_weight_kg, price_per_kg_ghs, farmer_id, lbc_id, holder_id, parent_instrument_id,
+                                   warehouse_receipt_id, quality_grade, season_year, status, expires_at)
+     SELECT $1, $2, $3, price_per_kg_ghs, farmer_id, lbc_id, $4, instrument_id, warehouse_receipt_id, quality_grade, season_year, $5, expires_at
+     FROM crdn_instruments WHERE instrument_id = $6`,
+    [instrumentId, crdn.amountCedi, crdn.cocoaWeightKg, crdn.holder, crdn.status, parentInstrumentId]
+  );
+}
+
 /* POST /api/v1/crdn/issue — Issue CRDN at farm-gate delivery */
 router.post('/issue', requireRole(UserRole.LBC, UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -18,49 +38,278 @@ router.post('/issue', requireRole(UserRole.LBC, UserRole.BOG_ADMIN), async (req:
     if (!farmerId || !cocoaWeightKg || !pricePerKgGHS) throw new AppError('Missing required fields', 400, 'VALIDATION');
 
     const amountCedi = cocoaWeightKg * pricePerKgGHS;
-    const instrumentId = `CRDN-${Date.now().toString(36).toUpperCase()}`;
+    const lbcAccount = lbcId || req.user!.accountId;
+    const season = seasonYear || '2025/2026';
+    const attestationHash = crypto.createHash('sha256')
+      .update(`${warehouseReceiptId || ''}:${farmerId}:${cocoaWeightKg}:${lbcAccount}`)
+      .digest('hex');
 
+    await ensureAccounts(farmerId, lbcAccount);
+    const { result: instrumentId, txId, blockHeight } = await submit(engine => engine.issueCRDN({
+      farmerId,
+      lbcId: lbcAccount,
+      cocoaWeightKg,
+      pricePerKgGHS,
+      warehouseReceiptId: warehouseReceiptId || '',
+      seasonYear: season,
+      attestationHash,
+    }));
+
+    const { expiresAt } = (await getLedger()).getCRDNRecord(instrumentId)!;
     const result = await query(
-      `INSERT INTO crdn_instruments (instrument_id, amount_cedi, cocoa_weight_kg, price_per_kg_ghs, farmer_id, lbc_id, warehouse_receipt_id, quality_grade, season_year, status)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'ISSUED')
+      `INSERT INTO crdn_instruments (instrument_id, amount_cedi, cocoa_weight_kg, price_per_kg_ghs, farmer_id, lbc_id, holder_id, warehouse_receipt_id, quality_grade, season_year, status, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $5, $7, $8, $9, 'ISSUED', $10)
        RETURNING *`,
-      [instrumentId, amountCedi, cocoaWeightKg, pricePerKgGHS, farmerId, lbcId || req.user?.accountId, warehouseReceiptId, qualityGrade, seasonYear || '2025/2026']
-    );
-
-    const txId = `TX-${Date.now().toString(36).toUpperCase()}`;
-    await query(
-      `INSERT INTO ledger_transactions (tx_id, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status)
-       VALUES ($1, 'MINT', 'CRDN', $2, $3, $4, $5, 'CONFIRMED')`,
-      [txId, instrumentId, lbcId || req.user?.accountId, farmerId, amountCedi]
+      [instrumentId, amountCedi, cocoaWeightKg, pricePerKgGHS, farmerId, lbcAccount, warehouseReceiptId, qualityGrade, season, expiresAt]
     );
 
-    // Update farmer balance
-    await query('UPDATE account_balances SET crdn_balance = crdn_balance + $1, last_updated = NOW() WHERE account_id = $2', [amountCedi, farmerId]);
-
-    res.status(201).json({ success: true, data: { ...result.rows[0], txId } });
+    res.status(201).json({ success: true, data: { ...result.rows[0], txId, blockHeight } });
   } catch (error) { next(error); }
 });
 
-/* POST /api/v1/crdn/convert — Convert CRDN to GBDC or cash */
+/* POST /api/v1/crdn/convert — Convert CRDN to GBDC, or start a cash payout */
 router.post('/convert', requireRole(UserRole.FARMER, UserRole.LBC, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { instrumentId, targetInstrument, settlementChannel, momoPhone } = req.body;
 
-    await query(`UPDATE crdn_instruments SET status = 'CONVERTING', updated_at = NOW() WHERE instrument_id = $1`, [instrumentId]);
+    if (!instrumentId || !targetInstrument) throw new AppError('instrumentId and targetInstrument required', 400, 'VALIDATION');
 
-    const txId = `TX-${Date.now().toString(36).toUpperCase()}`;
-    const crdn = await query('SELECT * FROM crdn_instruments WHERE instrument_id = $1', [instrumentId]);
+    const crdn = await query('SELECT farmer_id, holder_id FROM crdn_instruments WHERE instrument_id = $1', [instrumentId]);
     if (crdn.rows.length === 0) throw new AppError('CRDN not found', 404, 'NOT_FOUND');
+    // Notes sold or pledged on the secondary market are converted for their current holder
+    const holderId = crdn.rows[0].holder_id || crdn.rows[0].farmer_id;
+    if (req.user!.role === UserRole.FARMER && req.user!.accountId !== holderId) {
+      throw new AppError('Farmers can only convert their own CRDN', 403, 'AUTH_002');
+    }
+    const bankAccountId = req.user!.role === UserRole.COMMERCIAL_BANK ? req.user!.accountId : undefined;
 
-    await query(
-      `INSERT INTO ledger_transactions (tx_id, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status, channel)
-       VALUES ($1, 'CONVERT', 'CRDN', $2, $3, $4, $5, 'CONFIRMED', $6)`,
-      [txId, instrumentId, crdn.rows[0].farmer_id, req.user?.accountId, crdn.rows[0].amount_cedi, settlementChannel]
+    await ensureAccounts(holderId, ...(bankAccountId ? [bankAccountId] : []));
+    const { txId, blockHeight } = await submit(
+      engine => engine.convertCRDN({ instrumentId, farmerId: holderId, targetInstrument, bankAccountId }),
+      { channel: settlementChannel }
     );
 
-    await query(`UPDATE crdn_instruments SET status = 'CONVERTED', converted_at = NOW(), updated_at = NOW() WHERE instrument_id = $1`, [instrumentId]);
+    const engine = await getLedger();
+    const record = engine.getCRDNRecord(instrumentId)!;
+
+    // Conversion to GBDC issues a cocoa-backed instrument to the farmer
+    let gbdcInstrumentId: string | undefined;
+    if (targetInstrument === 'GBDC') {
+      const gbdc = engine.getGBDCRecord(convertedInstrumentId(instrumentId))!;
+      gbdcInstrumentId = gbdc.instrumentId;
+      await query(
+        `INSERT INTO gbdc_instruments (instrument_id, amount_cedi, gold_backing_grams, issued_by, holder_id, status, issuance_id)
+         VALUES ($1, $2, 0, 'BOG_RESERVE', $3, 'MINTED', $4)`,
+        [gbdc.instrumentId, gbdc.amountCedi, holderId, instrumentId]
+      );
+      await query('UPDATE crdn_instruments SET converted_to_gbdc = $1, converted_at = NOW() WHERE instrument_id = $2', [gbdcInstrumentId, instrumentId]);
+    } else {
+      // Cash stays CONVERTING until the bank or MoMo payout is confirmed
+      await query('UPDATE crdn_instruments SET payout_account = $1 WHERE instrument_id = $2', [record.payoutAccount, instrumentId]);
+    }
+
+    res.json({ success: true, data: { txId, blockHeight, instrumentId, targetInstrument, gbdcInstrumentId, settlementChannel, payoutAccount: record.payoutAccount, status: record.status } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/crdn/:instrumentId/transfer — Sell or pledge all or part of a CRDN to a farmer, LBC or bank */
+router.post('/:instrumentId/transfer', requireRole(UserRole.FARMER, UserRole.LBC, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { instrumentId } = req.params;
+    const { toAccount, amountCedi, description } = req.body;
+    if (!toAccount) throw new AppError('toAccount required', 400, 'VALIDATION');
+
+    const fromAccount = req.user!.accountId;
+    await ensureAccounts(fromAccount, toAccount);
+    const { result, txId, blockHeight } = await submit(engine => engine.transferCRDN({
+      instrumentId,
+      fromAccount,
+      toAccount,
+      amountCedi: amountCedi === undefined ? undefined : Number(amountCedi),
+      description,
+    }));
+    if (result.instrumentId !== instrumentId) await insertSplitNote(result.instrumentId, instrumentId);
+
+    const transferred = (await getLedger()).getCRDNRecord(result.instrumentId)!;
+    res.json({
+      success: true,
+      data: {
+        txId,
+        blockHeight,
+        instrumentId: result.instrumentId,
+        parentInstrumentId: transferred.parentInstrumentId,
+        fromAccount,
+        toAccount,
+        amountCedi: transferred.amountCedi,
+        status: transferred.status,
+      },
+    });
+  } catch (error) { next(error); }
+});
+
+// ─── Secondary Market ───────────────────────────────────────
+// Holders offer notes at a discount to face value; banks fill offers and
+// pay the price in GBDC, settled together with the note on the ledger.
+
+/* POST /api/v1/crdn/orders — Offer all or part of a CRDN for sale */
+router.post('/orders', requireRole(UserRole.FARMER, UserRole.LBC, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { instrumentId, amountCedi } = req.body;
+    const discountPercent = Number(req.body.discountPercent);
+    if (!instrumentId || !(discountPercent >= 0 && discountPercent < 100)) {
+      throw new AppError('instrumentId and a discountPercent from 0 to under 100 required', 400, 'VALIDATION');
+    }
+
+    const crdn = (await getLedger()).getCRDNRecord(instrumentId);
+    if (!crdn) throw new AppError('CRDN not found', 404, 'NOT_FOUND');
+    if (crdn.holder !== req.user!.accountId) throw new AppError('Only the holder can offer a CRDN', 403, 'AUTH_002');
+    if (crdn.status !== CRDNStatus.ISSUED && crdn.status !== CRDNStatus.HELD) {
+      throw new AppError(`CRDN is ${crdn.status.toLowerCase()}`, 409, 'CONFLICT');
+    }
+
+    const amount = Number(amountCedi ?? crdn.amountCedi);
+    const offered = await query("SELECT COALESCE(SUM(amount_cedi), 0) AS total FROM crdn_orders WHERE instrument_id = $1 AND status = 'OPEN'", [instrumentId]);
+    if (!(amount > 0) || amount + Number(offered.rows[0].total) > crdn.amountCedi) {
+      throw new AppError('Open offers would exceed the face value of the note', 422, 'VALIDATION');
+    }
+
+    const orderId = generateOrderId();
+    const priceCedi = Math.round(amount * (100 - discountPercent)) / 100;
+    const result = await query(
+      `INSERT INTO crdn_orders (order_id, instrument_id, seller_id, amount_cedi, discount_percent, price_cedi)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [orderId, instrumentId, req.user!.accountId, amount, discountPercent, priceCedi]
+    );
+    res.status(201).json({ success: true, data: result.rows[0] });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/crdn/orders — Open offers, deepest discount first */
+router.get('/orders', requireRole(UserRole.COMMERCIAL_BANK, UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { seasonYear } = req.query;
+    const params: any[] = [];
+    let sql = `SELECT o.*, c.season_year, c.quality_grade, c.expires_at, c.farmer_id
+               FROM crdn_orders o JOIN crdn_instruments c ON c.instrument_id = o.instrument_id
+               WHERE o.status = 'OPEN'`;
+    if (seasonYear) { params.push(seasonYear); sql += ` AND c.season_year = $${params.length}`; }
+    sql += ' ORDER BY o.discount_percent DESC, o.created_at ASC LIMIT 100';
+
+    const result = await query(sql, params);
+    res.json({ success: true, data: result.rows });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/crdn/orders/:orderId/fill — Buy an offered CRDN */
+router.post('/orders/:orderId/fill', requireRole(UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const buyerId = req.user!.accountId;
+    // Claim the order first so two banks cannot fill it at once
+    const claimed = await query(
+      "UPDATE crdn_orders SET status = 'FILLED', buyer_id = $1, closed_at = NOW() WHERE order_id = $2 AND status = 'OPEN' AND seller_id <> $1 RETURNING *",
+      [buyerId, req.params.orderId]
+    );
+    if (claimed.rows.length === 0) throw new AppError('Order is not open for this buyer', 409, 'CONFLICT');
+    const order = claimed.rows[0];
+
+    let receipt;
+    try {
+      await ensureAccounts(order.seller_id, buyerId);
+      receipt = await submit(engine => engine.transferCRDN({
+        instrumentId: order.instrument_id,
+        fromAccount: order.seller_id,
+        toAccount: buyerId,
+        amountCedi: Number(order.amount_cedi),
+        priceCedi: Number(order.price_cedi),
+        description: `CRDN order ${order.order_id}`,
+      }));
+    } catch (error) {
+      await query("UPDATE crdn_orders SET status = 'OPEN', buyer_id = NULL, closed_at = NULL WHERE order_id = $1", [order.order_id]);
+      throw error;
+    }
+
+    const { result, blockHeight } = receipt;
+    await query('UPDATE crdn_orders SET fill_tx_id = $1 WHERE order_id = $2', [result.txId, order.order_id]);
+    if (result.instrumentId !== order.instrument_id) await insertSplitNote(result.instrumentId, order.instrument_id);
+
+    res.json({
+      success: true,
+      data: {
+        orderId: order.order_id,
+        instrumentId: result.instrumentId,
+        amountCedi: Number(order.amount_cedi),
+        priceCedi: Number(order.price_cedi),
+        txId: result.txId,
+        paymentTxId: result.paymentTxId,
+        blockHeight,
+        status: 'FILLED',
+      },
+    });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/crdn/orders/:orderId/cancel — Withdraw an offer */
+router.post('/orders/:orderId/cancel', requireRole(UserRole.FARMER, UserRole.LBC, UserRole.COMMERCIAL_BANK, UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const sellerFilter = req.user!.role === UserRole.BOG_ADMIN ? '' : ' AND seller_id = $2';
+    const result = await query(
+      `UPDATE crdn_orders SET status = 'CANCELLED', closed_at = NOW() WHERE order_id = $1 AND status = 'OPEN'${sellerFilter} RETURNING *`,
+      req.user!.role === UserRole.BOG_ADMIN ? [req.params.orderId] : [req.params.orderId, req.user!.accountId]
+    );
+    if (result.rows.length === 0) throw new AppError('No open order to cancel', 404, 'NOT_FOUND');
+    res.json({ success: true, data: result.rows[0] });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/crdn/:instrumentId/payout — Confirm or fail the payout of a cash conversion */
+router.post('/:instrumentId/payout', requireRole(UserRole.COMMERCIAL_BANK, UserRole.FARMER, UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { instrumentId } = req.params;
+    const { outcome, payoutReference, reason } = req.body;
+    if (outcome === 'COMPLETED' && !payoutReference) throw new AppError('payoutReference required', 400, 'VALIDATION');
+    if (outcome === 'FAILED' && !reason) throw new AppError('reason required', 400, 'VALIDATION');
+    if (outcome !== 'COMPLETED' && outcome !== 'FAILED') throw new AppError('outcome must be COMPLETED or FAILED', 400, 'VALIDATION');
+
+    const crdn = (await getLedger()).getCRDNRecord(instrumentId);
+    if (!crdn) throw new AppError('CRDN not found', 404, 'NOT_FOUND');
+    // MoMo payouts go to the farmer's own wallet, bank payouts through the bank
+    if (req.user!.role !== UserRole.BOG_ADMIN && crdn.payoutAccount !== req.user!.accountId) {
+      throw new AppError('Only the paying account can settle this conversion', 403, 'AUTH_002');
+    }
+
+    const { txId, blockHeight } = await submit(engine => outcome === 'COMPLETED'
+      ? engine.completeCRDNConversion({ instrumentId, payoutReference })
+      : engine.failCRDNConversion({ instrumentId, reason }));
+
+    if (outcome === 'COMPLETED') {
+      await query('UPDATE crdn_instruments SET payout_reference = $1, converted_at = NOW() WHERE instrument_id = $2', [payoutReference, instrumentId]);
+    } else {
+      await query('UPDATE crdn_instruments SET payout_account = NULL WHERE instrument_id = $1', [instrumentId]);
+    }
+
+    const status = (await getLedger()).getCRDNRecord(instrumentId)!.status;
+    res.json({ success: true, data: { txId, blockHeight, instrumentId, outcome, payoutReference, reason, status } });
+  } catch (error) { next(error); }
+});
+
+/* PUT /api/v1/crdn/season/:seasonYear/validity — Set the validity period of a season's CRDNs */
+router.put('/season/:seasonYear/validity', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { seasonYear } = req.params;
+    const validityDays = Number(req.body.validityDays);
+    if (!Number.isInteger(validityDays) || validityDays <= 0) {
+      throw new AppError('validityDays must be a positive whole number', 400, 'VALIDATION');
+    }
+
+    await query(
+      `INSERT INTO crdn_seasons (season_year, validity_days, updated_by) VALUES ($1, $2, $3)
+       ON CONFLICT (season_year) DO UPDATE SET validity_days = EXCLUDED.validity_days, updated_by = EXCLUDED.updated_by, updated_at = NOW()`,
+      [seasonYear, validityDays, req.user!.accountId]
+    );
+    (await getLedger()).setCRDNValidity(seasonYear, validityDays);
+    await recordAudit(req, 'CRDN_VALIDITY_SET', 'CRDN_SEASON', seasonYear, { validityDays });
 
-    res.json({ success: true, data: { txId, instrumentId, targetInstrument, settlementChannel, status: 'CONVERTED' } });
+    res.json({ success: true, data: { seasonYear, validityDays } });
   } catch (error) { next(error); }
 });
 
@@ -69,8 +318,9 @@ router.get('/farmer/:farmerId', requireRole(UserRole.FARMER, UserRole.LBC, UserR
   try {
     const instruments = await query('SELECT * FROM crdn_instruments WHERE farmer_id = $1 ORDER BY created_at DESC', [req.params.farmerId]);
     const totals = await query(
-      `SELECT COALESCE(SUM(amount_cedi) FILTER (WHERE status != 'CONVERTED' AND status != 'CANCELLED'), 0) as outstanding,
-              COALESCE(SUM(amount_cedi) FILTER (WHERE status = 'CONVERTED'), 0) as converted
+      `SELECT COALESCE(SUM(amount_cedi) FILTER (WHERE status NOT IN ('CONVERTED','CANCELLED','EXPIRED')), 0) as outstanding,
+              COALESCE(SUM(amount_cedi) FILTER (WHERE status = 'CONVERTED'), 0) as converted,
+              COALESCE(SUM(amount_cedi) FILTER (WHERE status = 'EXPIRED'), 0) as expired
        FROM crdn_instruments WHERE farmer_id = $1`,
       [req.params.farmerId]
     );
@@ -86,11 +336,13 @@ router.get('/season/:seasonYear', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_A
               COALESCE(SUM(amount_cedi), 0) as total_value,
               COALESCE(SUM(amount_cedi) FILTER (WHERE status = 'CONVERTED'), 0) as total_converted,
               COALESCE(SUM(amount_cedi) FILTER (WHERE status NOT IN ('CONVERTED','CANCELLED','EXPIRED')), 0) as total_outstanding,
+              COALESCE(SUM(amount_cedi) FILTER (WHERE status = 'EXPIRED'), 0) as total_expired,
               COALESCE(SUM(cocoa_weight_kg), 0) as total_cocoa_kg
        FROM crdn_instruments WHERE season_year = $1`,
       [req.params.seasonYear]
     );
-    res.json({ success: true, data: { seasonYear: req.params.seasonYear, ...result.rows[0] } });
+    const validityDays = (await getLedger()).getCRDNValidity(req.params.seasonYear);
+    res.json({ success: true, data: { seasonYear: req.params.seasonYear, validityDays, ...result.rows[0] } });
   } catch (error) { next(error); }
 });
 
@@ -169,7 +169,7 @@ router.get('/simulation', async (_req: Request, res: Response) => {
     const { LedgerEngine } = await import('@govres/ledger');
 
     const engine = new LedgerEngine('simulation-demo-validator');
-    engine.initialize();
+    await engine.initialize();
 
     // Register reserves
     engine.registerGoldReserve(5_000_000, 'sim-gold-attest');    // 5M grams (~161k oz)
@@ -8,6 +8,7 @@ import { UserRole } from '@govres/shared';
 import { requireRole } from '../middleware/auth';
 import { query } from '../database/connection';
 import { AppError } from '../middleware/error-handler';
+import { ensureAccounts, getLedger, submit } from '../services/ledger';
 
 const router = Router();
 
@@ -17,25 +18,26 @@ router.post('/mint', requireRole(UserRole.BOG_ADMIN), async (req: Request, res:
     const { amountCedi, goldBackingGrams, goldPricePerGramUSD, exchangeRateUSDGHS } = req.body;
     if (!amountCedi || !goldBackingGrams) throw new AppError('amountCedi and goldBackingGrams required', 400, 'VALIDATION');
 
-    const instrumentId = `GBDC-${Date.now().toString(36).toUpperCase()}`;
     const issuanceId = `ISS-${Date.now().toString(36).toUpperCase()}`;
+    const issuedBy = req.user!.accountId;
+    await ensureAccounts(issuedBy);
+    const { result: instrumentId, txId, blockHeight } = await submit(engine => engine.mintGBDC({
+      amountCedi,
+      goldBackingGrams,
+      goldPricePerGramUSD: goldPricePerGramUSD || 0,
+      exchangeRateUSDGHS: exchangeRateUSDGHS || 0,
+      issuanceId,
+      issuedBy,
+    }));
 
     const result = await query(
       `INSERT INTO gbdc_instruments (instrument_id, amount_cedi, gold_backing_grams, gold_price_per_gram_usd, exchange_rate_usd_ghs, issued_by, holder_id, status, issuance_id)
        VALUES ($1, $2, $3, $4, $5, $6, $7, 'MINTED', $8)
        RETURNING *`,
-      [instrumentId, amountCedi, goldBackingGrams, goldPricePerGramUSD || 0, exchangeRateUSDGHS || 0, req.user?.accountId, 'BOG_TREASURY', issuanceId]
+      [instrumentId, amountCedi, goldBackingGrams, goldPricePerGramUSD || 0, exchangeRateUSDGHS || 0, issuedBy, 'BOG_TREASURY', issuanceId]
     );
 
-    // Record transaction
-    const txId = `TX-${Date.now().toString(36).toUpperCase()}`;
-    await query(
-      `INSERT INTO ledger_transactions (tx_id, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status)
-       VALUES ($1, 'MINT', 'GBDC', $2, 'BOG_TREASURY', 'BOG_TREASURY', $3, 'CONFIRMED')`,
-      [txId, instrumentId, amountCedi]
-    );
-
-    res.status(201).json({ success: true, data: { ...result.rows[0], txId } });
+    res.status(201).json({ success: true, data: { ...result.rows[0], txId, blockHeight } });
   } catch (error) { next(error); }
 });
 
@@ -45,17 +47,17 @@ router.post('/transfer', requireRole(UserRole.BOG_ADMIN, UserRole.COMMERCIAL_BAN
     const { instrumentId, toAccount, amountCedi, description } = req.body;
     if (!instrumentId || !toAccount || !amountCedi) throw new AppError('Missing required fields', 400, 'VALIDATION');
 
-    const txId = `TX-${Date.now().toString(36).toUpperCase()}`;
-    await query(
-      `INSERT INTO ledger_transactions (tx_id, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status, description)
-       VALUES ($1, 'TRANSFER', 'GBDC', $2, $3, $4, $5, 'CONFIRMED', $6)`,
-      [txId, instrumentId, req.user?.accountId, toAccount, amountCedi, description]
-    );
-
-    // Update holder
-    await query(`UPDATE gbdc_instruments SET holder_id = $1, status = 'CIRCULATING', updated_at = NOW() WHERE instrument_id = $2`, [toAccount, instrumentId]);
-
-    res.json({ success: true, data: { txId, instrumentId, fromAccount: req.user?.accountId, toAccount, amountCedi, status: 'CONFIRMED' } });
+    const fromAccount = req.user!.accountId;
+    await ensureAccounts(fromAccount, toAccount);
+    const { txId, blockHeight } = await submit(engine => engine.transferGBDC({
+      instrumentId,
+      fromAccount,
+      toAccount,
+      amountCedi,
+      description: description || '',
+    }));
+
+    res.json({ success: true, data: { txId, blockHeight, instrumentId, fromAccount, toAccount, amountCedi, status: 'CONFIRMED' } });
   } catch (error) { next(error); }
 });
 
@@ -63,16 +65,49 @@ router.post('/transfer', requireRole(UserRole.BOG_ADMIN, UserRole.COMMERCIAL_BAN
 router.post('/redeem', requireRole(UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { instrumentId, amountCedi } = req.body;
-    const txId = `TX-${Date.now().toString(36).toUpperCase()}`;
-
-    await query(`UPDATE gbdc_instruments SET status = 'REDEEMED', updated_at = NOW() WHERE instrument_id = $1`, [instrumentId]);
-    await query(
-      `INSERT INTO ledger_transactions (tx_id, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status)
-       VALUES ($1, 'REDEEM', 'GBDC', $2, $3, 'BOG_TREASURY', $4, 'CONFIRMED')`,
-      [txId, instrumentId, req.user?.accountId, amountCedi]
-    );
+    if (!instrumentId || !amountCedi) throw new AppError('instrumentId and amountCedi required', 400, 'VALIDATION');
+
+    const holderAccount = req.user!.accountId;
+    await ensureAccounts(holderAccount);
+    const { result: gbdc, txId, blockHeight } = await submit(engine => {
+      engine.redeemGBDC({ instrumentId, holderAccount, amountCedi });
+      return { ...engine.getGBDCRecord(instrumentId)! };
+    });
+
+    res.json({
+      success: true,
+      data: { txId, blockHeight, instrumentId, amountCedi, remainingCedi: gbdc.amountCedi - gbdc.redeemedCedi, status: gbdc.status },
+    });
+  } catch (error) { next(error); }
+});
 
-    res.json({ success: true, data: { txId, instrumentId, amountCedi, status: 'REDEEMED' } });
+/* POST /api/v1/gbdc/burn — Burn redeemed GBDC and release its gold backing (BoG only) */
+router.post('/burn', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { instrumentId, amountCedi } = req.body;
+    if (!instrumentId) throw new AppError('instrumentId required', 400, 'VALIDATION');
+
+    const burnedBy = req.user!.accountId;
+    await ensureAccounts(burnedBy);
+    const { result: gbdc, txId, blockHeight } = await submit(engine => {
+      engine.burnGBDC({ instrumentId, burnedBy, amountCedi });
+      return { ...engine.getGBDCRecord(instrumentId)! };
+    });
+    const tx = (await (await getLedger()).fetchBlock(blockHeight))?.transactions.find(t => t.txId === txId);
+    if (!tx) throw new AppError('Burn transaction not found in its block', 500, 'LEDGER_BLOCK_MISSING');
+
+    res.json({
+      success: true,
+      data: {
+        txId,
+        blockHeight,
+        instrumentId,
+        amountCedi: tx.amount,
+        goldReleasedGrams: tx.data.goldReleasedGrams,
+        burnedCedi: gbdc.burnedCedi,
+        status: gbdc.status,
+      },
+    });
   } catch (error) { next(error); }
 });
 
@@ -0,0 +1,283 @@
+/**
+ * GOVRES — ISO 20022 Routes
+ * Banks send pacs.008 and pacs.009 credit transfers, which become
+ * interbank settlements; each import is answered with a pacs.002 status
+ * report, and camt.053 statements report a bank's GBDC account per day.
+ */
+
+import express, { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { UserRole } from '@govres/shared';
+import { requireRole } from '../middleware/auth';
+import { query } from '../database/connection';
+import { BankSettlementRow } from '../database/rows';
+import { AppError } from '../middleware/error-handler';
+import { getLedger } from '../services/ledger';
+import { SettlementMode, submitInterbankSettlement } from '../services/settlement';
+import {
+  CreditTransfer,
+  STATEMENT_MESSAGE,
+  STATUS_REPORT_MESSAGE,
+  StatementEntry,
+  TransactionStatus,
+  buildPaymentStatusReport,
+  buildStatement,
+  decodeCreditTransfer,
+} from '../services/iso20022';
+import { recordAudit } from '../services/audit';
+
+const router = Router();
+
+router.use(express.text({ type: ['application/xml', 'text/xml'], limit: '5mb' }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function generateMsgId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+/* BoG's own BIC, which services every bank's GBDC account */
+async function getCentralBankBic(): Promise<string> {
+  const result = await query(`SELECT bic_code FROM organizations WHERE org_type = 'BOG' AND bic_code IS NOT NULL LIMIT 1`);
+  return result.rows[0]?.bic_code ?? 'BAGHGHAC';
+}
+
+/* Map BICs to the commercial bank account of the organisation holding each one */
+async function resolveBanks(bics: string[]): Promise<Map<string, string>> {
+  const result = await query(
+    `SELECT DISTINCT ON (o.bic_code) o.bic_code, ua.account_id
+       FROM organizations o
+       JOIN user_accounts ua ON ua.organization_id = o.id
+      WHERE o.bic_code = ANY($1) AND o.is_active AND ua.role = 'COMMERCIAL_BANK' AND ua.is_active
+      ORDER BY o.bic_code, ua.created_at`,
+    [bics]
+  );
+  return new Map(result.rows.map(row => [row.bic_code, row.account_id]));
+}
+
+/* A clearing channel selects the settlement mode; without one, FI transfers settle gross and customer transfers net */
+function settlementMode(messageType: string, tx: CreditTransfer): SettlementMode {
+  if (tx.clearingChannel === 'RTGS') return 'RTGS';
+  if (tx.clearingChannel === 'RTNS' || tx.clearingChannel === 'MPNS') return 'NET';
+  return messageType.startsWith('pacs.009') ? 'RTGS' : 'NET';
+}
+
+function toTransactionStatus(
+  tx: CreditTransfer,
+  settlement: Pick<BankSettlementRow, 'status' | 'settled_at' | 'failure_reason'>
+): TransactionStatus {
+  const ids = { endToEndId: tx.endToEndId, instrId: tx.instrId, txId: tx.txId, uetr: tx.uetr };
+  switch (settlement.status) {
+    case 'SETTLED':
+      return { ...ids, status: 'ACSC', settledAt: settlement.settled_at ?? undefined };
+    case 'FAILED':
+      return { ...ids, status: 'RJCT', reasonCode: 'NARR', reason: settlement.failure_reason ?? 'Settlement failed' };
+    default:
+      return { ...ids, status: 'ACSP' };
+  }
+}
+
+/* Save an exchanged message; a repeated inbound MsgId is refused */
+async function storeMessage(params: {
+  msgId: string;
+  messageType: string;
+  direction: 'INBOUND' | 'OUTBOUND';
+  bankId: string | null;
+  originalMsgId?: string;
+  payload: string;
+  createdBy: string;
+}): Promise<void> {
+  const result = await query(
+    `INSERT INTO iso20022_messages (msg_id, message_type, direction, bank_id, original_msg_id, payload, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (msg_id, message_type, direction) DO NOTHING
+     RETURNING id`,
+    [params.msgId, params.messageType, params.direction, params.bankId, params.originalMsgId ?? null, params.payload, params.createdBy]
+  );
+  if (result.rows.length === 0) throw new AppError(`Message ${params.msgId} has already been received`, 409, 'CONFLICT');
+}
+
+/* POST /api/v1/settlement/iso20022/import — Settle a pacs.008 or pacs.009 message and reply with a pacs.002 */
+router.post('/import', requireRole(UserRole.BOG_ADMIN, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (typeof req.body !== 'string' || req.body.length === 0) {
+      throw new AppError('Send the message as application/xml', 400, 'VALIDATION');
+    }
+    const message = decodeCreditTransfer(req.body);
+    const banks = await resolveBanks([...new Set(message.transactions.flatMap(tx => [tx.debtorBic, tx.creditorBic]))]);
+
+    const sender = req.user!.accountId;
+    if (req.user!.role === UserRole.COMMERCIAL_BANK && message.transactions.some(tx => banks.get(tx.debtorBic) !== sender)) {
+      throw new AppError('Banks can only send credit transfers they pay', 403, 'AUTH_002');
+    }
+    await storeMessage({
+      msgId: message.msgId,
+      messageType: message.messageType,
+      direction: 'INBOUND',
+      bankId: req.user!.role === UserRole.COMMERCIAL_BANK ? sender : null,
+      payload: req.body,
+      createdBy: sender,
+    });
+
+    // Transactions settle in message order; each one is accepted or rejected on its own
+    const statuses: TransactionStatus[] = [];
+    for (const tx of message.transactions) {
+      const ids = { endToEndId: tx.endToEndId, instrId: tx.instrId, txId: tx.txId, uetr: tx.uetr };
+      const fromBankId = banks.get(tx.debtorBic);
+      const toBankId = banks.get(tx.creditorBic);
+      if (tx.currency !== 'GHS') {
+        statuses.push({ ...ids, status: 'RJCT', reasonCode: 'AM03', reason: 'Only GHS settles in GBDC' });
+      } else if (!fromBankId) {
+        statuses.push({ ...ids, status: 'RJCT', reasonCode: 'RC03', reason: `No commercial bank holds BIC ${tx.debtorBic}` });
+      } else if (!toBankId) {
+        statuses.push({ ...ids, status: 'RJCT', reasonCode: 'RC04', reason: `No commercial bank holds BIC ${tx.creditorBic}` });
+      } else if (fromBankId === toBankId) {
+        statuses.push({ ...ids, status: 'RJCT', reasonCode: 'AG01', reason: 'A bank cannot settle with itself' });
+      } else {
+        try {
+          const settlement = await submitInterbankSettlement({
+            fromBankId,
+            toBankId,
+            amountCedi: tx.amount,
+            mode: settlementMode(message.messageType, tx),
+            priority: tx.instructionPriority === 'HIGH' ? 'HIGH' : 'NORMAL',
+            isoMessageId: message.msgId,
+            endToEndId: tx.endToEndId,
+          });
+          statuses.push(toTransactionStatus(tx, settlement));
+        } catch (error) {
+          statuses.push({ ...ids, status: 'RJCT', reasonCode: 'NARR', reason: (error as Error).message });
+        }
+      }
+    }
+
+    const rejections = statuses.filter(status => status.status === 'RJCT');
+    await query(
+      `UPDATE iso20022_messages SET rejections = $1 WHERE msg_id = $2 AND message_type = $3 AND direction = 'INBOUND'`,
+      [JSON.stringify(rejections), message.msgId, message.messageType]
+    );
+    const msgId = generateMsgId('P002');
+    const report = buildPaymentStatusReport({ msgId, original: message, transactions: statuses });
+    await storeMessage({
+      msgId,
+      messageType: STATUS_REPORT_MESSAGE,
+      direction: 'OUTBOUND',
+      bankId: banks.get(message.transactions[0].debtorBic) ?? null,
+      originalMsgId: message.msgId,
+      payload: report,
+      createdBy: sender,
+    });
+    await recordAudit(req, 'ISO20022_IMPORTED', 'ISO20022_MESSAGE', message.msgId, {
+      messageType: message.messageType,
+      transactions: statuses.length,
+      rejected: rejections.length,
+    });
+
+    res.type('application/xml').send(report);
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/settlement/iso20022/pacs002/:msgId — Current status report for an imported message */
+router.get('/pacs002/:msgId', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const inbound = await query(
+      `SELECT * FROM iso20022_messages WHERE msg_id = $1 AND direction = 'INBOUND' ORDER BY created_at DESC LIMIT 1`,
+      [req.params.msgId]
+    );
+    if (inbound.rows.length === 0) throw new AppError('Message not found', 404, 'NOT_FOUND');
+    const stored = inbound.rows[0];
+    if (req.user!.role === UserRole.COMMERCIAL_BANK && stored.bank_id !== req.user!.accountId) {
+      throw new AppError('Banks can only view their own messages', 403, 'AUTH_002');
+    }
+
+    const message = decodeCreditTransfer(stored.payload);
+    const settlements = await query('SELECT * FROM bank_settlements WHERE iso_message_id = $1', [message.msgId]);
+    const rejections = new Map<string, TransactionStatus>(stored.rejections.map((status: TransactionStatus) => [status.endToEndId, status]));
+    const statuses = message.transactions.map(tx => {
+      const settlement = settlements.rows.find(row => row.end_to_end_id === tx.endToEndId);
+      return settlement ? toTransactionStatus(tx, settlement) : rejections.get(tx.endToEndId) ?? {
+        endToEndId: tx.endToEndId, instrId: tx.instrId, txId: tx.txId, uetr: tx.uetr, status: 'RJCT', reasonCode: 'NARR', reason: 'Not settled',
+      } as TransactionStatus;
+    });
+
+    res.type('application/xml').send(buildPaymentStatusReport({ msgId: generateMsgId('P002'), original: message, transactions: statuses }));
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/settlement/iso20022/camt053/:bankId — End-of-day GBDC statement for a bank (?date=YYYY-MM-DD, default today) */
+router.get('/camt053/:bankId', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { bankId } = req.params;
+    if (req.user!.role === UserRole.COMMERCIAL_BANK && bankId !== req.user!.accountId) {
+      throw new AppError('Banks can only view their own statements', 403, 'AUTH_002');
+    }
+    const date = (req.query.date as string | undefined) ?? new Date().toISOString().slice(0, 10);
+    const dayStart = new Date(`${date}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(dayStart.getTime())) {
+      throw new AppError('date must be YYYY-MM-DD', 400, 'VALIDATION');
+    }
+    const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+    if (dayStart.getTime() > Date.now()) throw new AppError('Statements cover past days only', 400, 'VALIDATION');
+
+    const engine = await getLedger();
+    const account = engine.getAccountBalance(bankId);
+    if (!account || account.role !== UserRole.COMMERCIAL_BANK) throw new AppError('Bank account not found', 404, 'NOT_FOUND');
+
+    // Committed GBDC movements on or after the statement day; mints credit, transfers and redemptions debit
+    const movements = await query(
+      `SELECT lt.tx_id, lt.tx_type, lt.from_account, lt.to_account, lt.amount_cedi, lt.description, lt.created_at, bs.end_to_end_id
+         FROM ledger_transactions lt
+         LEFT JOIN bank_settlements bs ON bs.tx_id = lt.tx_id
+        WHERE lt.instrument_type = 'GBDC' AND lt.block_height IS NOT NULL AND lt.created_at >= $2
+          AND ((lt.tx_type IN ('MINT', 'TRANSFER') AND lt.to_account = $1)
+            OR (lt.tx_type IN ('TRANSFER', 'REDEEM') AND lt.from_account = $1))
+        ORDER BY lt.block_height, lt.block_position`,
+      [bankId, dayStart]
+    );
+    const signed = (row: any) => (row.to_account === bankId && row.tx_type !== 'REDEEM' ? 1 : -1) * Number(row.amount_cedi);
+    const during = movements.rows.filter(row => new Date(row.created_at) < dayEnd);
+    const after = movements.rows.filter(row => new Date(row.created_at) >= dayEnd);
+    const closingBalanceCedi = account.gbdcBalance - after.reduce((sum, row) => sum + signed(row), 0);
+    const openingBalanceCedi = closingBalanceCedi - during.reduce((sum, row) => sum + signed(row), 0);
+
+    const entries: StatementEntry[] = during.map(row => ({
+      txId: row.tx_id,
+      txType: row.tx_type,
+      amountCedi: Number(row.amount_cedi),
+      credit: signed(row) > 0,
+      bookedAt: new Date(row.created_at),
+      counterparty: signed(row) > 0 ? row.from_account : row.to_account,
+      description: row.description ?? undefined,
+      endToEndId: row.end_to_end_id ?? undefined,
+    }));
+
+    const org = await query(
+      `SELECT o.org_name, o.bic_code FROM user_accounts ua JOIN organizations o ON o.id = ua.organization_id WHERE ua.account_id = $1`,
+      [bankId]
+    );
+    const msgId = generateMsgId('C053');
+    const statement = buildStatement({
+      msgId,
+      accountId: bankId,
+      accountName: org.rows[0]?.org_name,
+      ownerBic: org.rows[0]?.bic_code ?? undefined,
+      servicerBic: await getCentralBankBic(),
+      date,
+      openingBalanceCedi,
+      closingBalanceCedi,
+      entries,
+    });
+    await storeMessage({
+      msgId,
+      messageType: STATEMENT_MESSAGE,
+      direction: 'OUTBOUND',
+      bankId,
+      payload: statement,
+      createdBy: req.user!.accountId,
+    });
+
+    res.type('application/xml').send(statement);
+  } catch (error) { next(error); }
+});
+
+export { router as iso20022Routes };
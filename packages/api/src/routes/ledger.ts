@@ -1,13 +1,17 @@
 /**
  * GOVRES — Ledger Routes
- * Real DB integration for chain status, blocks, transactions, audit.
+ * Real DB integration for chain status, blocks, transactions, audit
+ * and disputed-transaction reversals.
  */
 
+import crypto from 'crypto';
 import { Router, Request, Response, NextFunction } from 'express';
 import { UserRole } from '@govres/shared';
 import { requireRole } from '../middleware/auth';
 import { query } from '../database/connection';
 import { AppError } from '../middleware/error-handler';
+import { getLedger, ensureAccounts, submit } from '../services/ledger';
+import { recordAudit } from '../services/audit';
 
 const router = Router();
 
@@ -96,4 +100,146 @@ router.get('/audit-trail', requireRole(UserRole.BOG_AUDITOR), async (req: Reques
   } catch (error) { next(error); }
 });
 
+// ─── Reversals ──────────────────────────────────────────────
+// A BoG admin raises a reversal of a committed transfer or settlement
+// with the dispute reason; a second admin approves it, which posts a
+// compensating transfer on the ledger, or rejects it.
+
+function generateReversalId(): string {
+  return `REV-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+async function loadPendingReversal(reversalId: string) {
+  const result = await query('SELECT * FROM transaction_reversals WHERE reversal_id = $1', [reversalId]);
+  if (result.rows.length === 0) throw new AppError('Reversal not found', 404, 'NOT_FOUND');
+  const reversal = result.rows[0];
+  if (reversal.status !== 'PENDING_APPROVAL') {
+    throw new AppError(`Reversal is already ${reversal.status.toLowerCase()}`, 409, 'CONFLICT');
+  }
+  return reversal;
+}
+
+/* POST /api/v1/ledger/reversals — Raise a reversal of a committed transfer */
+router.post('/reversals', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { txId, reason } = req.body;
+    if (!txId || typeof reason !== 'string' || !reason.trim()) {
+      throw new AppError('txId and reason required', 400, 'VALIDATION');
+    }
+
+    const tx = await query('SELECT * FROM ledger_transactions WHERE tx_id = $1', [txId]);
+    if (tx.rows.length === 0) throw new AppError('Transaction not found', 404, 'NOT_FOUND');
+    const original = tx.rows[0];
+    if (original.tx_type !== 'TRANSFER' || original.instrument_type !== 'GBDC' || original.tx_data?.reversalOf) {
+      throw new AppError('Only GBDC transfers and settlements can be reversed', 422, 'VALIDATION');
+    }
+    if (original.status !== 'CONFIRMED' && original.status !== 'SETTLED') {
+      throw new AppError(`Transaction is ${original.status.toLowerCase()}`, 409, 'CONFLICT');
+    }
+    const open = await query("SELECT reversal_id FROM transaction_reversals WHERE original_tx_id = $1 AND status <> 'REJECTED'", [txId]);
+    if (open.rows.length > 0) {
+      throw new AppError(`Transaction already has reversal ${open.rows[0].reversal_id}`, 409, 'CONFLICT');
+    }
+
+    const reversalId = generateReversalId();
+    await query(
+      'INSERT INTO transaction_reversals (reversal_id, original_tx_id, reason, requested_by) VALUES ($1, $2, $3, $4)',
+      [reversalId, txId, reason.trim(), req.user!.accountId]
+    );
+    await recordAudit(req, 'REVERSAL_REQUESTED', 'TRANSACTION', txId, {
+      reversalId,
+      reason: reason.trim(),
+      fromAccount: original.from_account,
+      toAccount: original.to_account,
+      amountCedi: Number(original.amount_cedi),
+    });
+
+    res.status(201).json({ success: true, data: { reversalId, originalTxId: txId, reason: reason.trim(), status: 'PENDING_APPROVAL' } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/ledger/reversals/:reversalId/approve — Second admin approves and the ledger posts the reversal */
+router.post('/reversals/:reversalId/approve', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const reversal = await loadPendingReversal(req.params.reversalId);
+    const approvedBy = req.user!.accountId;
+    if (reversal.requested_by === approvedBy) {
+      throw new AppError('A reversal must be approved by a different admin', 403, 'AUTH_002');
+    }
+
+    const row = await query('SELECT block_height FROM ledger_transactions WHERE tx_id = $1 AND block_height IS NOT NULL', [reversal.original_tx_id]);
+    if (row.rows.length === 0) throw new AppError('Transaction not found in a committed block', 404, 'NOT_FOUND');
+    const engine = await getLedger();
+    const block = await engine.fetchBlock(Number(row.rows[0].block_height));
+    const original = block?.transactions.find(tx => tx.txId === reversal.original_tx_id);
+    if (!original) throw new AppError('Transaction not found on the ledger', 404, 'NOT_FOUND');
+
+    await ensureAccounts(reversal.requested_by, approvedBy);
+    const { txId: reversalTxId, blockHeight } = await submit(ledger => ledger.reverseTransaction({
+      original,
+      requestedBy: reversal.requested_by,
+      approvedBy,
+      reason: reversal.reason,
+    }));
+
+    await query("UPDATE ledger_transactions SET status = 'REVERSED' WHERE tx_id = $1", [original.txId]);
+    await query(
+      `UPDATE transaction_reversals SET status = 'EXECUTED', reviewed_by = $1, reversal_tx_id = $2, reviewed_at = NOW()
+       WHERE reversal_id = $3`,
+      [approvedBy, reversalTxId, reversal.reversal_id]
+    );
+    await recordAudit(req, 'REVERSAL_APPROVED', 'TRANSACTION', original.txId, {
+      reversalId: reversal.reversal_id,
+      reversalTxId,
+      blockHeight,
+      requestedBy: reversal.requested_by,
+      reason: reversal.reason,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        reversalId: reversal.reversal_id,
+        originalTxId: original.txId,
+        reversalTxId,
+        blockHeight,
+        amountCedi: original.amount,
+        status: 'EXECUTED',
+      },
+    });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/ledger/reversals/:reversalId/reject — Decline a reversal request */
+router.post('/reversals/:reversalId/reject', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const reversal = await loadPendingReversal(req.params.reversalId);
+    const { note } = req.body;
+
+    await query(
+      `UPDATE transaction_reversals SET status = 'REJECTED', reviewed_by = $1, review_note = $2, reviewed_at = NOW()
+       WHERE reversal_id = $3`,
+      [req.user!.accountId, note || null, reversal.reversal_id]
+    );
+    await recordAudit(req, 'REVERSAL_REJECTED', 'TRANSACTION', reversal.original_tx_id, {
+      reversalId: reversal.reversal_id,
+      requestedBy: reversal.requested_by,
+      note: note || null,
+    });
+
+    res.json({ success: true, data: { reversalId: reversal.reversal_id, originalTxId: reversal.original_tx_id, status: 'REJECTED' } });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/ledger/reversals */
+router.get('/reversals', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status } = req.query;
+    const result = status
+      ? await query('SELECT * FROM transaction_reversals WHERE status = $1 ORDER BY created_at DESC LIMIT 100', [status])
+      : await query('SELECT * FROM transaction_reversals ORDER BY created_at DESC LIMIT 100');
+    res.json({ success: true, data: result.rows });
+  } catch (error) { next(error); }
+});
+
 export { router as ledgerRoutes };
@@ -0,0 +1,136 @@
+/**
+ * GOVRES — Mobile Money Routes
+ * MoMo payouts of converted CRDNs: providers call back when a payout
+ * settles, holders follow their payouts, BoG can resend or reverse
+ * payouts that are stuck, and decides cash-outs held for compliance review.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { MOMO_PROVIDERS, UserRole } from '@govres/shared';
+import { requireRole } from '../middleware/auth';
+import { query } from '../database/connection';
+import { AppError } from '../middleware/error-handler';
+import { MomoProviderCode } from '../services/momo-providers';
+import { decideMomoReview, handleMomoCallback, reverseMomoPayout, sendMomoPayout } from '../services/momo';
+import { recordAudit } from '../services/audit';
+
+const router = Router();
+const callbackRouter = Router();
+
+const PROVIDER_CODES = MOMO_PROVIDERS.map(provider => provider.code) as string[];
+
+/* Load a payout, checking a holder only sees their own */
+async function getPayout(req: Request, momoTxId: string): Promise<any> {
+  const result = await query('SELECT * FROM momo_transactions WHERE momo_tx_id = $1', [momoTxId]);
+  if (result.rows.length === 0) throw new AppError('MoMo payout not found', 404, 'NOT_FOUND');
+  if (![UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR].includes(req.user!.role) && result.rows[0].account_id !== req.user!.accountId) {
+    throw new AppError('Holders can only view their own payouts', 403, 'AUTH_002');
+  }
+  return result.rows[0];
+}
+
+/* POST|PUT /api/v1/momo/callback/:provider — Provider notification that a payout has settled; public, as providers cannot authenticate */
+async function callback(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { provider } = req.params;
+    if (!PROVIDER_CODES.includes(provider)) throw new AppError('Unknown MoMo provider', 404, 'NOT_FOUND');
+
+    // The callback body is not trusted; the payout's status is read back from the provider
+    const payout = await handleMomoCallback(provider as MomoProviderCode, req.body);
+    if (!payout) throw new AppError('No payout matches this callback', 404, 'NOT_FOUND');
+    res.json({ success: true });
+  } catch (error) { next(error); }
+}
+callbackRouter.post('/:provider', callback);
+callbackRouter.put('/:provider', callback);
+
+/* GET /api/v1/momo/payouts — Payouts, newest first; holders see their own */
+router.get('/payouts', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (![UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR].includes(req.user!.role)) {
+      params.push(req.user!.accountId);
+      conditions.push(`account_id = $${params.length}`);
+    }
+    if (req.query.status) {
+      params.push(req.query.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (req.query.cashoutId) {
+      params.push(req.query.cashoutId);
+      conditions.push(`cashout_id = $${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await query(`SELECT * FROM momo_transactions ${where} ORDER BY created_at DESC, tranche LIMIT 200`, params);
+    res.json({ success: true, data: result.rows });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/momo/payouts/:momoTxId — A payout and its attempts so far */
+router.get('/payouts/:momoTxId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ success: true, data: await getPayout(req, req.params.momoTxId) });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/momo/payouts/:momoTxId/send — Send a payout waiting to be retried now */
+router.post('/payouts/:momoTxId/send', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const existing = await getPayout(req, req.params.momoTxId);
+    if (existing.status !== 'INITIATED') throw new AppError(`MoMo payout is ${existing.status}`, 409, 'CONFLICT');
+
+    const payout = await sendMomoPayout(existing.momo_tx_id);
+    await recordAudit(req, 'MOMO_PAYOUT_RESENT', 'MOMO_TRANSACTION', payout.momo_tx_id, { status: payout.status, attempts: payout.attempts });
+    res.json({ success: true, data: payout });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/momo/payouts/:momoTxId/reverse — Reverse a pending payout with its provider and return the CRDN to its holder */
+router.post('/payouts/:momoTxId/reverse', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { reason } = req.body;
+    if (!reason) throw new AppError('reason required', 400, 'VALIDATION');
+    const existing = await getPayout(req, req.params.momoTxId);
+
+    const payout = await reverseMomoPayout(existing.momo_tx_id, reason);
+    if (payout.status !== 'REVERSED') {
+      throw new AppError(`Provider did not reverse the payout: ${payout.last_error ?? payout.status}`, 502, 'SETTLE_003');
+    }
+    await recordAudit(req, 'MOMO_PAYOUT_REVERSED', 'MOMO_TRANSACTION', payout.momo_tx_id, { reason, settlementTxId: payout.settlement_tx_id });
+    res.json({ success: true, data: payout });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/momo/reviews — Cash-outs held for compliance review, oldest first */
+router.get('/reviews', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await query(
+      'SELECT * FROM payment_reviews WHERE status = $1 ORDER BY created_at LIMIT 200',
+      [req.query.status ?? 'PENDING']
+    );
+    res.json({ success: true, data: result.rows });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/momo/reviews/:reviewId/approve — Release a held cash-out's payouts */
+router.post('/reviews/:reviewId/approve', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const review = await decideMomoReview(req.params.reviewId, { approve: true, decidedBy: req.user!.accountId, note: req.body.note });
+    await recordAudit(req, 'PAYMENT_REVIEW_APPROVED', 'PAYMENT_REVIEW', review.review_id, { cashoutId: review.cashout_id, note: review.decision_note });
+    res.json({ success: true, data: review });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/momo/reviews/:reviewId/reject — Refuse a held cash-out and return the CRDN to its holder */
+router.post('/reviews/:reviewId/reject', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { reason } = req.body;
+    if (!reason) throw new AppError('reason required', 400, 'VALIDATION');
+    const review = await decideMomoReview(req.params.reviewId, { approve: false, decidedBy: req.user!.accountId, note: reason });
+    await recordAudit(req, 'PAYMENT_REVIEW_REJECTED', 'PAYMENT_REVIEW', review.review_id, { cashoutId: review.cashout_id, reason });
+    res.json({ success: true, data: review });
+  } catch (error) { next(error); }
+});
+
+export { router as momoRoutes, callbackRouter as momoCallbackRoutes };
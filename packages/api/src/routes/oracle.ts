@@ -1,15 +1,37 @@
 /**
  * GOVRES — Oracle Routes
- * Real DB integration for gold vault, cocoa warehouse, GoldBod feeds.
+ * Real DB integration for gold vault, cocoa warehouse, GoldBod feeds and
+ * royalty-backed notes.
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { UserRole } from '@govres/shared';
+import { GoldBodRoyaltyOracle, RoyaltyBackedNote } from '@govres/oracle';
 import { requireRole } from '../middleware/auth';
 import { query } from '../database/connection';
+import { AppError } from '../middleware/error-handler';
+import { syncGoldReserve } from '../services/ledger';
+import { recordAudit } from '../services/audit';
+import { loadRoyaltyOracle, saveRoyaltyForecast, saveRoyaltyNote } from '../services/royalty-notes';
 
 const router = Router();
 
+/* Run a royalty note step on a freshly loaded oracle and save the note it returns; oracle rejections become 404 or 422 */
+async function runNoteStep(step: (oracle: GoldBodRoyaltyOracle) => RoyaltyBackedNote, createdBy?: string): Promise<RoyaltyBackedNote> {
+  const oracle = await loadRoyaltyOracle();
+  let note: RoyaltyBackedNote;
+  try {
+    note = step(oracle);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw message.includes('not found')
+      ? new AppError(message, 404, 'NOT_FOUND')
+      : new AppError(message, 422, 'ROYALTY_NOTE_REJECTED');
+  }
+  await saveRoyaltyNote(note, createdBy);
+  return note;
+}
+
 /* GET /api/v1/oracle/gold/vault/:vaultId */
 router.get('/gold/vault/:vaultId', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -37,7 +59,10 @@ router.post('/gold/attestation', requireRole(UserRole.BOG_ADMIN), async (req: Re
       [attestationId, vaultId, JSON.stringify(attestData || {}), hash]
     );
 
-    res.status(201).json({ success: true, data: { attestationId, vaultId, hash, status: 'VERIFIED' } });
+    // Record any newly vaulted gold as ledger reserve backing
+    const reserveAddedGrams = await syncGoldReserve(hash);
+
+    res.status(201).json({ success: true, data: { attestationId, vaultId, hash, reserveAddedGrams, status: 'VERIFIED' } });
   } catch (error) { next(error); }
 });
 
@@ -79,7 +104,7 @@ router.get('/goldbod/royalties', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AU
 /* POST /api/v1/oracle/goldbod/production-report */
 router.post('/goldbod/production-report', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { periodYear, periodQuarter, producerId, producerName, mineId, mineName, region, productionOunces, goldPricePerOunceUSD, exchangeRateUSDGHS } = req.body;
+    const { periodYear, periodQuarter, producerId, producerName, mineId, mineName, region, productionOunces, goldPricePerOunceUSD, exchangeRateUSDGHS, verifiedBy } = req.body;
     const reportId = `PROD-${Date.now().toString(36).toUpperCase()}`;
     const productionGrams = (productionOunces || 0) * 31.1035;
     const grossRevenue = (productionOunces || 0) * (goldPricePerOunceUSD || 0);
@@ -87,12 +112,107 @@ router.post('/goldbod/production-report', requireRole(UserRole.BOG_ADMIN), async
     const royaltyGHS = royaltyUSD * (exchangeRateUSDGHS || 15);
 
     await query(
-      `INSERT INTO gold_production_reports (report_id, period_year, period_quarter, producer_id, producer_name, mine_id, mine_name, region, production_ounces, production_grams, gold_price_per_ounce_usd, gross_revenue_usd, royalty_amount_usd, royalty_amount_ghs, exchange_rate_usd_ghs, report_date)
-       VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15, CURRENT_DATE)`,
-      [reportId, periodYear, periodQuarter, producerId, producerName, mineId, mineName, region, productionOunces, productionGrams, goldPricePerOunceUSD, grossRevenue, royaltyUSD, royaltyGHS, exchangeRateUSDGHS]
+      `INSERT INTO gold_production_reports (report_id, period_year, period_quarter, producer_id, producer_name, mine_id, mine_name, region, production_ounces, production_grams, gold_price_per_ounce_usd, gross_revenue_usd, royalty_amount_usd, royalty_amount_ghs, exchange_rate_usd_ghs, report_date, verified_by)
+       VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15, CURRENT_DATE, $16)`,
+      [reportId, periodYear, periodQuarter, producerId, producerName, mineId, mineName, region, productionOunces, productionGrams, goldPricePerOunceUSD, grossRevenue, royaltyUSD, royaltyGHS, exchangeRateUSDGHS, verifiedBy || null]
     );
 
-    res.status(201).json({ success: true, data: { reportId, royaltyUSD, royaltyGHS, status: 'RECORDED' } });
+    // The new report may realise a forecast backing a note; re-check every outstanding note's coverage
+    const oracle = await loadRoyaltyOracle();
+    const undercoveredNotes: string[] = [];
+    oracle.on('note:undercovered', (event: { noteId: string }) => undercoveredNotes.push(event.noteId));
+    for (const note of oracle.recheckCoverage()) await saveRoyaltyNote(note);
+
+    res.status(201).json({ success: true, data: { reportId, royaltyUSD, royaltyGHS, status: 'RECORDED', undercoveredNotes } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/oracle/goldbod/forecasts — Forecast a quarter's royalties from recorded production */
+router.post('/goldbod/forecasts', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const year = Number(req.body.year);
+    const quarter = Number(req.body.quarter);
+    const estimatedGoldPriceUSD = Number(req.body.estimatedGoldPriceUSD);
+    const exchangeRateUSDGHS = Number(req.body.exchangeRateUSDGHS);
+    if (!Number.isInteger(year) || !Number.isInteger(quarter) || quarter < 1 || quarter > 4) {
+      throw new AppError('year and quarter (1-4) required', 400, 'VALIDATION');
+    }
+    if (!(estimatedGoldPriceUSD > 0) || !(exchangeRateUSDGHS > 0)) {
+      throw new AppError('estimatedGoldPriceUSD and exchangeRateUSDGHS must be positive', 400, 'VALIDATION');
+    }
+
+    const forecast = (await loadRoyaltyOracle()).generateForecast({ year, quarter, estimatedGoldPriceUSD, exchangeRateUSDGHS });
+    await saveRoyaltyForecast(forecast);
+    res.status(201).json({ success: true, data: forecast });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/oracle/goldbod/notes — Royalty-backed notes with their current coverage */
+router.get('/goldbod/notes', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR, UserRole.GOVT_AGENCY), async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const notes = (await loadRoyaltyOracle()).getNotes().sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    res.json({ success: true, data: notes });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/oracle/goldbod/notes/:noteId — A royalty-backed note and its backing */
+router.get('/goldbod/notes/:noteId', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR, UserRole.GOVT_AGENCY), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const note = (await loadRoyaltyOracle()).getNote(req.params.noteId);
+    if (!note) throw new AppError('Royalty-backed note not found', 404, 'NOT_FOUND');
+    const reports = await query('SELECT * FROM gold_production_reports WHERE report_id = ANY($1)', [note.backingRoyaltyIds]);
+    const forecasts = await query('SELECT * FROM royalty_forecasts WHERE forecast_id = ANY($1)', [note.forecastIds]);
+    res.json({ success: true, data: { ...note, reports: reports.rows, forecasts: forecasts.rows } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/oracle/goldbod/notes — Structure a DRAFT note against verified reports and forecasts */
+router.post('/goldbod/notes', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { backingRoyaltyIds, forecastIds = [] } = req.body;
+    if (!Array.isArray(backingRoyaltyIds) || !Array.isArray(forecastIds)) {
+      throw new AppError('backingRoyaltyIds and forecastIds must be arrays', 400, 'VALIDATION');
+    }
+    const note = await runNoteStep(oracle => oracle.structureNote({
+      principalGHS: Number(req.body.principalGHS),
+      backingRoyaltyIds,
+      forecastIds,
+      yieldPercent: Number(req.body.yieldPercent),
+      maturityMonths: Number(req.body.maturityMonths),
+    }), req.user!.accountId);
+    await recordAudit(req, 'ROYALTY_NOTE_STRUCTURED', 'ROYALTY_NOTE', note.noteId, { principalGHS: note.principalGHS, coverageRatio: note.coverageRatio });
+
+    res.status(201).json({ success: true, data: note });
+  } catch (error) { next(error); }
+});
+
+/* PUT /api/v1/oracle/goldbod/notes/:noteId/issue — Issue a DRAFT note whose coverage still holds */
+router.put('/goldbod/notes/:noteId/issue', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const note = await runNoteStep(oracle => oracle.issueNote(req.params.noteId));
+    await recordAudit(req, 'ROYALTY_NOTE_ISSUED', 'ROYALTY_NOTE', note.noteId, { coverageRatio: note.coverageRatio });
+    res.json({ success: true, data: note });
+  } catch (error) { next(error); }
+});
+
+/* PUT /api/v1/oracle/goldbod/notes/:noteId/activate — Activate an issued note and start its term */
+router.put('/goldbod/notes/:noteId/activate', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const note = await runNoteStep(oracle => oracle.activateNote(req.params.noteId));
+    await recordAudit(req, 'ROYALTY_NOTE_ACTIVATED', 'ROYALTY_NOTE', note.noteId, { maturesAt: note.maturesAt });
+    res.json({ success: true, data: note });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/oracle/goldbod/notes/mature — Mature active notes past their term */
+router.post('/goldbod/notes/mature', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const matured = (await loadRoyaltyOracle()).matureDueNotes();
+    for (const note of matured) {
+      await saveRoyaltyNote(note);
+      await recordAudit(req, 'ROYALTY_NOTE_MATURED', 'ROYALTY_NOTE', note.noteId);
+    }
+    res.json({ success: true, data: matured });
   } catch (error) { next(error); }
 });
 
@@ -1,22 +1,76 @@
 /**
  * GOVRES — Government Project Routes
  * Real DB integration for project budgets, approvals, contractor payments.
+ * Approval locks the budget in a ledger escrow; milestones are paid from it
+ * once their release conditions are met.
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 import { UserRole } from '@govres/shared';
+import { ReleaseCondition, canRelease, validateConditions } from '@govres/ledger';
 import { requireRole } from '../middleware/auth';
-import { query } from '../database/connection';
+import { query, withTransaction } from '../database/connection';
+import { MilestoneRow } from '../database/rows';
 import { AppError } from '../middleware/error-handler';
+import { ensureAccounts, getLedger, recordEscrowEvent, submit } from '../services/ledger';
+import { recordAudit } from '../services/audit';
+import { applyVariation, getBudget, openBudget } from '../services/budget';
 
 const router = Router();
 
+const EVIDENCE_TYPES = ['DOCUMENT', 'PHOTO', 'QUANTITY_SURVEY'];
+
+interface MilestoneRequest {
+  description?: string;
+  amountGBDC: number;
+  contractorId: string;
+  conditions: ReleaseCondition[];
+}
+
+/* Load a milestone, checking it belongs to the project */
+async function getMilestone(projectId: string, milestoneId: string): Promise<MilestoneRow> {
+  const result = await query('SELECT * FROM project_milestones WHERE milestone_id = $1 AND project_id = $2', [milestoneId, projectId]);
+  if (result.rows.length === 0) throw new AppError('Milestone not found', 404, 'NOT_FOUND');
+  return result.rows[0];
+}
+
+/**
+ * Validate milestones from a request. Milestones without conditions are
+ * released on the submitting agency's sign-off; every milestone also
+ * waits on an independent inspector's verification.
+ */
+function toMilestoneTerms(milestones: unknown, agencyAccountId: string): MilestoneRequest[] {
+  const terms: MilestoneRequest[] = (Array.isArray(milestones) ? milestones : []).map((m: any) => {
+    const conditions: ReleaseCondition[] = m.conditions ?? [{ type: 'SIGN_OFF', verifierId: agencyAccountId }];
+    return {
+      description: m.description,
+      amountGBDC: Number(m.amountGBDC),
+      contractorId: m.contractorId,
+      conditions: Array.isArray(conditions) && !conditions.some(c => c?.type === 'INSPECTION')
+        ? [...conditions, { type: 'INSPECTION' }]
+        : conditions,
+    };
+  });
+  for (const m of terms) {
+    if (!m.contractorId || !(m.amountGBDC > 0)) throw new AppError('Each milestone needs a contractorId and positive amountGBDC', 400, 'VALIDATION');
+    const problem = validateConditions(m.conditions);
+    if (problem) throw new AppError(`Milestone ${m.description || m.contractorId}: ${problem}`, 400, 'VALIDATION');
+  }
+  return terms;
+}
+
 /* POST /api/v1/projects — Submit a new project */
 router.post('/', requireRole(UserRole.GOVT_AGENCY), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { projectName, description, budgetGBDC, contractors, milestones } = req.body;
     if (!projectName || !budgetGBDC) throw new AppError('projectName and budgetGBDC required', 400, 'VALIDATION');
 
+    const terms = toMilestoneTerms(milestones, req.user!.accountId);
+    if (terms.reduce((sum, m) => sum + Number(m.amountGBDC), 0) > Number(budgetGBDC)) {
+      throw new AppError('Milestones total more than budgetGBDC', 400, 'VALIDATION');
+    }
+
     const projectId = `PROJ-${Date.now().toString(36).toUpperCase()}`;
     const result = await query(
       `INSERT INTO government_projects (project_id, agency_id, project_name, description, budget_gbdc, status, contractors)
@@ -26,51 +80,329 @@ router.post('/', requireRole(UserRole.GOVT_AGENCY), async (req: Request, res: Re
     );
 
     // Insert milestones
-    if (milestones && Array.isArray(milestones)) {
-      for (let i = 0; i < milestones.length; i++) {
-        const m = milestones[i];
-        const milestoneId = `MILE-${projectId}-${i + 1}`;
-        await query(
-          `INSERT INTO project_milestones (milestone_id, project_id, description, amount_gbdc, contractor_id, status)
-           VALUES ($1, $2, $3, $4, $5, 'PENDING')`,
-          [milestoneId, projectId, m.description, m.amountGBDC, m.contractorId]
-        );
-      }
+    for (let i = 0; i < terms.length; i++) {
+      const m = terms[i];
+      const milestoneId = `MILE-${projectId}-${i + 1}`;
+      await query(
+        `INSERT INTO project_milestones (milestone_id, project_id, description, amount_gbdc, contractor_id, status, release_conditions)
+         VALUES ($1, $2, $3, $4, $5, 'PENDING', $6)`,
+        [milestoneId, projectId, m.description, m.amountGBDC, m.contractorId, JSON.stringify(m.conditions)]
+      );
     }
 
     res.status(201).json({ success: true, data: result.rows[0] });
   } catch (error) { next(error); }
 });
 
-/* PUT /api/v1/projects/:projectId/approve */
+/* PUT /api/v1/projects/:projectId/approve — Approve a project and lock its budget in escrow */
 router.put('/:projectId/approve', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const { projectId } = req.params;
+    const project = await query('SELECT * FROM government_projects WHERE project_id = $1', [projectId]);
+    if (project.rows.length === 0) throw new AppError('Project not found', 404, 'NOT_FOUND');
+    if (project.rows[0].status !== 'SUBMITTED') throw new AppError(`Project is ${project.rows[0].status}`, 409, 'CONFLICT');
+
+    const milestones = await query('SELECT * FROM project_milestones WHERE project_id = $1 ORDER BY created_at', [projectId]);
+    const terms = milestones.rows.map(row => ({
+      milestoneId: row.milestone_id,
+      contractorId: row.contractor_id,
+      amountCedi: Number(row.amount_gbdc),
+      conditions: row.release_conditions as ReleaseCondition[],
+    }));
+    const verifiers = terms.flatMap(m => m.conditions.flatMap(c => c.type === 'SIGN_OFF' ? [c.verifierId] : []));
+
+    const fundedBy = req.user!.accountId;
+    await ensureAccounts(fundedBy, ...terms.map(m => m.contractorId), ...verifiers);
+
+    // The escrow is funded last, so a budget that cannot be opened leaves nothing locked on the ledger
+    const { approved, escrow, txId, blockHeight } = await withTransaction(async (client) => {
+      const locked = await client.query('SELECT status FROM government_projects WHERE project_id = $1 FOR UPDATE', [projectId]);
+      if (locked.rows[0].status !== 'SUBMITTED') throw new AppError(`Project is ${locked.rows[0].status}`, 409, 'CONFLICT');
+      await openBudget(client, projectId, fundedBy);
+
+      const receipt = await submit(engine => engine.fundEscrow({
+        projectId,
+        amountCedi: Number(project.rows[0].budget_gbdc),
+        milestones: terms,
+        fundedBy,
+      }));
+      const escrow = (await getLedger()).getEscrow(projectId)!;
+      const result = await client.query(
+        `UPDATE government_projects SET status = 'APPROVED', approved_by = $1, approved_at = NOW(), escrow_account = $2, escrow_tx_id = $3, updated_at = NOW()
+         WHERE project_id = $4 RETURNING *`,
+        [req.user?.userId, escrow.account, receipt.txId, projectId]
+      );
+      return { approved: result.rows[0], escrow, txId: receipt.txId, blockHeight: receipt.blockHeight };
+    });
+    await recordAudit(req, 'PROJECT_ESCROW_FUNDED', 'PROJECT', projectId, { amountCedi: escrow.fundedCedi, txId });
+
+    res.json({ success: true, data: { ...approved, escrow, blockHeight } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/projects/:projectId/milestones/:milestoneId/sign-off — Verifier sign-off; releases the milestone once all its conditions are met */
+router.post('/:projectId/milestones/:milestoneId/sign-off', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { projectId, milestoneId } = req.params;
+    const verifierId = req.user!.accountId;
+    await ensureAccounts(verifierId);
+    const { result: txIds, blockHeight } = await submit(engine => engine.signOffMilestone({ projectId, milestoneId, verifierId }));
+    const milestone = (await getLedger()).getEscrow(projectId)!.milestones.find(m => m.milestoneId === milestoneId)!;
+    await recordAudit(req, 'MILESTONE_SIGNED_OFF', 'PROJECT_MILESTONE', milestoneId, { projectId, txId: txIds[0], released: milestone.status === 'RELEASED' });
+
+    res.json({ success: true, data: { projectId, ...milestone, signOffTxId: txIds[0], blockHeight } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/projects/:projectId/milestones/:milestoneId/evidence — Upload a document hash, GPS-tagged photo or quantity survey */
+router.post('/:projectId/milestones/:milestoneId/evidence', requireRole(UserRole.CONTRACTOR, UserRole.GOVT_AGENCY, UserRole.INSPECTOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { projectId, milestoneId } = req.params;
+    const { evidenceType, documentHash, gpsLat, gpsLng, capturedAt, data } = req.body;
+    if (!EVIDENCE_TYPES.includes(evidenceType)) throw new AppError(`evidenceType must be one of ${EVIDENCE_TYPES.join(', ')}`, 400, 'VALIDATION');
+    if (!/^[0-9a-f]{64}$/i.test(documentHash || '')) throw new AppError('documentHash must be a SHA-256 hex digest', 400, 'VALIDATION');
+    if (evidenceType === 'PHOTO' && (gpsLat == null || gpsLng == null || !Number.isFinite(Number(gpsLat)) || !Number.isFinite(Number(gpsLng)))) {
+      throw new AppError('Photos must be GPS-tagged with gpsLat and gpsLng', 400, 'VALIDATION');
+    }
+    if (evidenceType === 'QUANTITY_SURVEY' && !Array.isArray(data?.items)) {
+      throw new AppError('Quantity surveys need data.items with the quantities measured', 400, 'VALIDATION');
+    }
+
+    const milestone = await getMilestone(projectId, milestoneId);
+    if (req.user!.role === UserRole.CONTRACTOR && milestone.contractor_id !== req.user!.accountId) {
+      throw new AppError('Contractors can only submit evidence for their own milestones', 403, 'AUTH_002');
+    }
+    if (['RELEASED', 'REFUNDED'].includes(milestone.status)) throw new AppError(`Milestone is ${milestone.status}`, 409, 'CONFLICT');
+
+    const evidenceId = `EVID-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+    const result = await query(
+      `INSERT INTO milestone_evidence (evidence_id, milestone_id, evidence_type, document_hash, gps_lat, gps_lng, captured_at, data, submitted_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+      [evidenceId, milestoneId, evidenceType, documentHash.toLowerCase(), gpsLat ?? null, gpsLng ?? null, capturedAt ?? null, JSON.stringify(data || {}), req.user!.accountId]
+    );
+    await recordAudit(req, 'MILESTONE_EVIDENCE_SUBMITTED', 'PROJECT_MILESTONE', milestoneId, { projectId, evidenceId, evidenceType });
+
+    res.status(201).json({ success: true, data: result.rows[0] });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/projects/:projectId/milestones/:milestoneId/evidence */
+router.get('/:projectId/milestones/:milestoneId/evidence', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { projectId, milestoneId } = req.params;
+    await getMilestone(projectId, milestoneId);
+    const result = await query('SELECT * FROM milestone_evidence WHERE milestone_id = $1 ORDER BY created_at', [milestoneId]);
+    res.json({ success: true, data: result.rows });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/projects/:projectId/milestones/:milestoneId/verify — Independent inspector verifies a milestone against its evidence */
+router.post('/:projectId/milestones/:milestoneId/verify', requireRole(UserRole.INSPECTOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { projectId, milestoneId } = req.params;
+    const inspectorId = req.user!.accountId;
+    const project = await query('SELECT agency_id FROM government_projects WHERE project_id = $1', [projectId]);
+    if (project.rows.length === 0) throw new AppError('Project not found', 404, 'NOT_FOUND');
+    const milestone = await getMilestone(projectId, milestoneId);
+
+    // Inspectors must be independent of both sides of the payment
+    if (inspectorId === milestone.contractor_id || (req.user!.organizationId && req.user!.organizationId === project.rows[0].agency_id)) {
+      throw new AppError('Inspectors cannot verify milestones for their own agency or contract', 403, 'AUTH_002');
+    }
+    if (milestone.status === 'VERIFIED' || milestone.verified_by) throw new AppError('Milestone already verified', 409, 'CONFLICT');
+
+    const evidence = await query('SELECT document_hash FROM milestone_evidence WHERE milestone_id = $1 ORDER BY document_hash', [milestoneId]);
+    if (evidence.rows.length === 0) throw new AppError('No evidence has been submitted for this milestone', 409, 'CONFLICT');
+    const evidenceHash = crypto.createHash('sha256').update(evidence.rows.map(row => row.document_hash).join(':')).digest('hex');
+
+    if (!(await getLedger()).getEscrow(projectId)) throw new AppError('Project has no escrow; approve it first', 409, 'CONFLICT');
+    await ensureAccounts(inspectorId);
+    const { result: txIds, blockHeight } = await submit(engine => engine.verifyMilestone({ projectId, milestoneId, inspectorId, evidenceHash }));
+
     const result = await query(
-      `UPDATE government_projects SET status = 'APPROVED', approved_by = $1, approved_at = NOW(), updated_at = NOW()
-       WHERE project_id = $2 RETURNING *`,
-      [req.user?.userId, req.params.projectId]
+      `UPDATE project_milestones SET verified_by = $1, verified_at = NOW(), verification_tx_id = $2,
+       status = CASE WHEN status IN ('RELEASED', 'REFUNDED') THEN status ELSE 'VERIFIED' END
+       WHERE milestone_id = $3 RETURNING *`,
+      [inspectorId, txIds[0], milestoneId]
     );
-    if (result.rows.length === 0) throw new AppError('Project not found', 404, 'NOT_FOUND');
-    res.json({ success: true, data: result.rows[0] });
+    await recordAudit(req, 'MILESTONE_VERIFIED', 'PROJECT_MILESTONE', milestoneId, { projectId, evidenceHash, evidenceCount: evidence.rows.length, txId: txIds[0] });
+
+    res.json({ success: true, data: { ...result.rows[0], evidenceHash, blockHeight } });
   } catch (error) { next(error); }
 });
 
-/* POST /api/v1/projects/:projectId/disburse */
+/* POST /api/v1/projects/:projectId/disburse — Release a milestone whose conditions are met from escrow */
 router.post('/:projectId/disburse', requireRole(UserRole.BOG_ADMIN, UserRole.GOVT_AGENCY), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { milestoneId, contractorId, amountGBDC } = req.body;
-    const txId = `TX-${Date.now().toString(36).toUpperCase()}`;
+    const { projectId } = req.params;
+    const { milestoneId } = req.body;
+    if (!milestoneId) throw new AppError('milestoneId required', 400, 'VALIDATION');
+    const row = await getMilestone(projectId, milestoneId);
+    if (row.status !== 'VERIFIED') {
+      throw new AppError(['RELEASED', 'REFUNDED'].includes(row.status)
+        ? `Milestone is ${row.status}`
+        : 'Milestone must be VERIFIED by an independent inspector before disbursement', 409, 'CONFLICT');
+    }
 
-    await query(
-      `INSERT INTO ledger_transactions (tx_id, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status, description)
-       VALUES ($1, 'TRANSFER', 'GBDC', $2, 'BOG_TREASURY', $3, $4, 'CONFIRMED', $5)`,
-      [txId, req.params.projectId, contractorId, amountGBDC, `Disbursement for ${milestoneId}`]
+    const escrow = (await getLedger()).getEscrow(projectId);
+    if (!escrow) throw new AppError('Project has no escrow; approve it first', 404, 'NOT_FOUND');
+    const milestone = escrow.milestones.find(m => m.milestoneId === milestoneId);
+    if (!milestone) throw new AppError('Milestone not found', 404, 'NOT_FOUND');
+    if (!canRelease(milestone, new Date())) {
+      throw new AppError(`Milestone is ${milestone.status === 'LOCKED' ? 'awaiting its release conditions' : milestone.status}`, 409, 'CONFLICT');
+    }
+
+    const { result: txId, blockHeight } = await submit(engine => engine.releaseMilestone({ projectId, milestoneId }));
+    await recordAudit(req, 'MILESTONE_DISBURSED', 'PROJECT_MILESTONE', milestoneId, { projectId, amountCedi: milestone.amountCedi, txId });
+
+    res.json({ success: true, data: { projectId, milestoneId, contractorId: milestone.contractorId, amountGBDC: milestone.amountCedi, txId, blockHeight, status: 'RELEASED' } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/projects/:projectId/cancel — Cancel a project; unreleased escrow returns to Treasury */
+router.post('/:projectId/cancel', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { projectId } = req.params;
+    const project = await query('SELECT status FROM government_projects WHERE project_id = $1', [projectId]);
+    if (project.rows.length === 0) throw new AppError('Project not found', 404, 'NOT_FOUND');
+    if (['COMPLETED', 'CANCELLED'].includes(project.rows[0].status)) throw new AppError(`Project is ${project.rows[0].status}`, 409, 'CONFLICT');
+
+    let refund: { txId: string; blockHeight: number; amountCedi: number } | undefined;
+    if ((await getLedger()).getEscrow(projectId)) {
+      const cancelledBy = req.user!.accountId;
+      const { result: txId, blockHeight } = await submit(engine => engine.cancelEscrow({ projectId, cancelledBy }));
+      refund = { txId, blockHeight, amountCedi: (await getLedger()).getEscrow(projectId)!.refundedCedi };
+    }
+    await query("UPDATE government_projects SET status = 'CANCELLED', updated_at = NOW() WHERE project_id = $1", [projectId]);
+    await query("UPDATE project_milestones SET status = 'REFUNDED' WHERE project_id = $1 AND status NOT IN ('RELEASED', 'REFUNDED')", [projectId]);
+    await recordAudit(req, 'PROJECT_CANCELLED', 'PROJECT', projectId, { reason: req.body.reason, ...refund });
+
+    res.json({ success: true, data: { projectId, status: 'CANCELLED', refund } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/projects/:projectId/variations — Request a budget revision: a budget change, new milestones or amended amounts */
+router.post('/:projectId/variations', requireRole(UserRole.GOVT_AGENCY), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { projectId } = req.params;
+    const { reason } = req.body;
+    const budgetDeltaGBDC = Number(req.body.budgetDeltaGBDC ?? 0);
+    const milestones = toMilestoneTerms(req.body.milestones, req.user!.accountId);
+    const amendments: { milestoneId: string; amountGBDC: number }[] = (Array.isArray(req.body.amendments) ? req.body.amendments : [])
+      .map((a: any) => ({ milestoneId: a.milestoneId, amountGBDC: Number(a.amountGBDC) }));
+    if (!reason) throw new AppError('reason required', 400, 'VALIDATION');
+    if (!Number.isFinite(budgetDeltaGBDC)) throw new AppError('budgetDeltaGBDC must be a number', 400, 'VALIDATION');
+    if (amendments.some(a => !a.milestoneId || !(a.amountGBDC > 0))) {
+      throw new AppError('Each amendment needs a milestoneId and positive amountGBDC', 400, 'VALIDATION');
+    }
+    if (budgetDeltaGBDC === 0 && milestones.length === 0 && amendments.length === 0) {
+      throw new AppError('A variation order must change the budget or its milestones', 400, 'VALIDATION');
+    }
+
+    const project = await query('SELECT status FROM government_projects WHERE project_id = $1', [projectId]);
+    if (project.rows.length === 0) throw new AppError('Project not found', 404, 'NOT_FOUND');
+    if (!['APPROVED', 'IN_PROGRESS'].includes(project.rows[0].status)) throw new AppError(`Project is ${project.rows[0].status}`, 409, 'CONFLICT');
+    for (const amendment of amendments) await getMilestone(projectId, amendment.milestoneId);
+
+    const variationId = `VO-${Date.now().toString(36).toUpperCase()}`;
+    const result = await query(
+      `INSERT INTO variation_orders (variation_id, project_id, budget_delta_gbdc, new_milestones, amendments, reason, requested_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+      [variationId, projectId, budgetDeltaGBDC, JSON.stringify(milestones), JSON.stringify(amendments), reason, req.user!.accountId]
     );
+    await recordAudit(req, 'VARIATION_REQUESTED', 'PROJECT', projectId, { variationId, budgetDeltaGBDC });
+
+    res.status(201).json({ success: true, data: result.rows[0] });
+  } catch (error) { next(error); }
+});
+
+/* PUT /api/v1/projects/:projectId/variations/:variationId/approve — BoG approves a variation order and applies it to escrow and the budget ledger */
+router.put('/:projectId/variations/:variationId/approve', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { projectId, variationId } = req.params;
+    const order = await query('SELECT * FROM variation_orders WHERE variation_id = $1 AND project_id = $2', [variationId, projectId]);
+    if (order.rows.length === 0) throw new AppError('Variation order not found', 404, 'NOT_FOUND');
+    const variation = order.rows[0];
+    if (variation.status !== 'PENDING') throw new AppError(`Variation order is ${variation.status}`, 409, 'CONFLICT');
+
+    // New milestones continue the project's numbering
+    const count = await query('SELECT COUNT(*) AS total FROM project_milestones WHERE project_id = $1', [projectId]);
+    const milestones = (variation.new_milestones as MilestoneRequest[]).map((m, i) => ({
+      ...m,
+      milestoneId: `MILE-${projectId}-${Number(count.rows[0].total) + i + 1}`,
+    }));
+    const amendments = variation.amendments as { milestoneId: string; amountGBDC: number }[];
+    const budgetDeltaGBDC = Number(variation.budget_delta_gbdc);
+    const approvedBy = req.user!.accountId;
+
+    const verifiers = milestones.flatMap(m => m.conditions.flatMap(c => c.type === 'SIGN_OFF' ? [c.verifierId] : []));
+    await ensureAccounts(approvedBy, ...milestones.map(m => m.contractorId), ...verifiers);
+
+    // The budget checks run first and the escrow is varied last, so a refused variation leaves the escrow as it was
+    const { approved, txIds } = await withTransaction(async (client) => {
+      const locked = await client.query('SELECT status FROM variation_orders WHERE variation_id = $1 FOR UPDATE', [variationId]);
+      if (locked.rows[0].status !== 'PENDING') throw new AppError(`Variation order is ${locked.rows[0].status}`, 409, 'CONFLICT');
+      await applyVariation(client, { variationId, projectId, budgetDeltaGBDC, milestones, amendments, createdBy: approvedBy });
+
+      let txIds: string[] = [];
+      if ((await getLedger()).getEscrow(projectId)) {
+        ({ result: txIds } = await submit(engine => engine.varyEscrow({
+          projectId,
+          variationId,
+          budgetDeltaCedi: budgetDeltaGBDC,
+          milestones: milestones.map(m => ({ milestoneId: m.milestoneId, contractorId: m.contractorId, amountCedi: m.amountGBDC, conditions: m.conditions })),
+          amendments: amendments.map(a => ({ milestoneId: a.milestoneId, amountCedi: a.amountGBDC })),
+          approvedBy,
+        })));
+      }
+      const result = await client.query(
+        `UPDATE variation_orders SET status = 'APPROVED', decided_by = $1, decided_at = NOW(), decision_note = $2, tx_ids = $3
+         WHERE variation_id = $4 RETURNING *`,
+        [approvedBy, req.body.note || null, JSON.stringify(txIds), variationId]
+      );
+      return { approved: result.rows[0], txIds };
+    });
+    await recordAudit(req, 'VARIATION_APPROVED', 'PROJECT', projectId, { variationId, budgetDeltaGBDC, txIds });
+
+    res.json({ success: true, data: { ...approved, budget: await getBudget(projectId) } });
+  } catch (error) { next(error); }
+});
+
+/* PUT /api/v1/projects/:projectId/variations/:variationId/reject */
+router.put('/:projectId/variations/:variationId/reject', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { projectId, variationId } = req.params;
+    const result = await query(
+      `UPDATE variation_orders SET status = 'REJECTED', decided_by = $1, decided_at = NOW(), decision_note = $2
+       WHERE variation_id = $3 AND project_id = $4 AND status = 'PENDING' RETURNING *`,
+      [req.user!.accountId, req.body.note || null, variationId, projectId]
+    );
+    if (result.rows.length === 0) throw new AppError('Pending variation order not found', 404, 'NOT_FOUND');
+    await recordAudit(req, 'VARIATION_REJECTED', 'PROJECT', projectId, { variationId, note: req.body.note });
+
+    res.json({ success: true, data: result.rows[0] });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/projects/:projectId/budget — Committed, disbursed and remaining amounts with the budget ledger and variation orders */
+router.get('/:projectId/budget', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const budget = await getBudget(req.params.projectId);
+    const variations = await query('SELECT * FROM variation_orders WHERE project_id = $1 ORDER BY created_at', [req.params.projectId]);
+    res.json({ success: true, data: { ...budget, variations: variations.rows } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/projects/escrow/events — Record an oracle event that escrow release conditions wait on */
+router.post('/escrow/events', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { eventType, reference } = req.body;
+    if (!eventType) throw new AppError('eventType required', 400, 'VALIDATION');
 
-    await query(`UPDATE project_milestones SET status = 'COMPLETED', completed_at = NOW() WHERE milestone_id = $1`, [milestoneId]);
-    await query(`UPDATE government_projects SET disbursed_gbdc = disbursed_gbdc + $1, updated_at = NOW() WHERE project_id = $2`, [amountGBDC, req.params.projectId]);
+    const transactions = await recordEscrowEvent(eventType, reference);
+    await recordAudit(req, 'ESCROW_EVENT_RECORDED', 'ESCROW_EVENT', eventType, { reference, transactions });
 
-    res.json({ success: true, data: { projectId: req.params.projectId, milestoneId, contractorId, amountGBDC, txId, status: 'DISBURSED' } });
+    res.status(201).json({ success: true, data: { eventType, reference, transactions } });
   } catch (error) { next(error); }
 });
 
@@ -80,7 +412,8 @@ router.get('/:projectId', async (req: Request, res: Response, next: NextFunction
     const project = await query('SELECT * FROM government_projects WHERE project_id = $1', [req.params.projectId]);
     if (project.rows.length === 0) throw new AppError('Project not found', 404, 'NOT_FOUND');
     const milestones = await query('SELECT * FROM project_milestones WHERE project_id = $1 ORDER BY created_at', [req.params.projectId]);
-    res.json({ success: true, data: { ...project.rows[0], milestones: milestones.rows } });
+    const escrow = (await getLedger()).getEscrow(req.params.projectId);
+    res.json({ success: true, data: { ...project.rows[0], milestones: milestones.rows, escrow } });
   } catch (error) { next(error); }
 });
 
@@ -1,6 +1,8 @@
 /**
  * GOVRES — Settlement Routes
  * Real DB integration for interbank, contractor, and farmer settlement.
+ * Interbank settlements are queued and settled net in netting cycles, or
+ * settled gross in RTGS mode with a prioritised liquidity queue.
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
@@ -8,29 +10,143 @@ import { UserRole } from '@govres/shared';
 import { requireRole } from '../middleware/auth';
 import { query } from '../database/connection';
 import { AppError } from '../middleware/error-handler';
+import { ensureAccounts, getLedger, submit } from '../services/ledger';
+import { cancelDisbursement, confirmDisbursement, reserveDisbursement } from '../services/budget';
+import {
+  RTGS_PRIORITIES,
+  RtgsPriority,
+  getIntradayLiquidity,
+  getSettlementQueue,
+  reprioritiseRtgsPayment,
+  runRtgsQueue,
+  runSettlementCycle,
+  submitInterbankSettlement,
+} from '../services/settlement';
+import { providerForPhone } from '../services/momo-providers';
+import { startMomoCashout } from '../services/momo';
+import { recordAudit } from '../services/audit';
 
 const router = Router();
 
-/* POST /api/v1/settlement/interbank */
+/* POST /api/v1/settlement/interbank — Queue an interbank GBDC settlement for the next netting cycle, or settle it gross in RTGS mode */
 router.post('/interbank', requireRole(UserRole.BOG_ADMIN, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { fromBankId, toBankId, amountCedi, instrumentId, referenceNumber } = req.body;
-    const settlementId = `SETT-${Date.now().toString(36).toUpperCase()}`;
+    const { fromBankId, toBankId, referenceNumber } = req.body;
+    const amountCedi = Number(req.body.amountCedi);
+    const mode = req.body.mode ?? 'NET';
+    const priority = req.body.priority ?? 'NORMAL';
+    if (!fromBankId || !toBankId || !amountCedi) throw new AppError('fromBankId, toBankId and amountCedi required', 400, 'VALIDATION');
+    if (!(amountCedi > 0)) throw new AppError('amountCedi must be positive', 400, 'VALIDATION');
+    if (fromBankId === toBankId) throw new AppError('A bank cannot settle with itself', 400, 'VALIDATION');
+    if (mode !== 'NET' && mode !== 'RTGS') throw new AppError('mode must be NET or RTGS', 400, 'VALIDATION');
+    if (mode === 'RTGS' && !RTGS_PRIORITIES.includes(priority)) {
+      throw new AppError(`priority must be one of ${RTGS_PRIORITIES.join(', ')}`, 400, 'VALIDATION');
+    }
+    if (req.user!.role === UserRole.COMMERCIAL_BANK && fromBankId !== req.user!.accountId) {
+      throw new AppError('Banks can only settle from their own account', 403, 'AUTH_002');
+    }
 
-    await query(
-      `INSERT INTO bank_settlements (settlement_id, bank_id, bank_name, instrument_type, amount_cedi, direction, counterparty_bank_id, status, reference_number)
-       VALUES ($1, $2, '', 'GBDC', $3, 'DEBIT', $4, 'CLEARING', $5)`,
-      [settlementId, fromBankId, amountCedi, toBankId, referenceNumber || settlementId]
-    );
+    const settlement = await submitInterbankSettlement({ fromBankId, toBankId, amountCedi, mode, priority, referenceNumber });
+    await recordAudit(req, `INTERBANK_${mode}_${settlement.status}`, 'BANK_SETTLEMENT', settlement.settlement_id, { fromBankId, toBankId, amountCedi, priority });
+
+    res.status(settlement.status === 'SETTLED' ? 201 : 202).json({ success: true, data: settlement });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/settlement/interbank/queue — Queued NET (default) or RTGS settlements and the net positions they would settle to */
+router.get('/interbank/queue', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const mode = req.query.mode ?? 'NET';
+    if (mode !== 'NET' && mode !== 'RTGS') throw new AppError('mode must be NET or RTGS', 400, 'VALIDATION');
+    const bankId = req.user!.role === UserRole.COMMERCIAL_BANK ? req.user!.accountId : (req.query.bankId as string | undefined);
+    res.json({ success: true, data: await getSettlementQueue(mode, bankId) });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/settlement/interbank/liquidity — Intraday liquidity of each bank, or the caller's own */
+router.get('/interbank/liquidity', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const bankId = req.user!.role === UserRole.COMMERCIAL_BANK ? req.user!.accountId : (req.query.bankId as string | undefined);
+    res.json({ success: true, data: await getIntradayLiquidity(bankId) });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/settlement/interbank/rtgs/optimise — Retry the RTGS queue and release payments funded by offsetting flows */
+router.post('/interbank/rtgs/optimise', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await runRtgsQueue();
+    await recordAudit(req, 'RTGS_QUEUE_OPTIMISED', 'SETTLEMENT_CYCLE', run.optimised?.cycleId ?? 'NONE', { ...run });
+    res.json({ success: true, data: run });
+  } catch (error) { next(error); }
+});
 
-    const txId = `TX-${Date.now().toString(36).toUpperCase()}`;
-    await query(
-      `INSERT INTO ledger_transactions (tx_id, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status, channel)
-       VALUES ($1, 'SETTLE', 'GBDC', $2, $3, $4, $5, 'CONFIRMED', 'INTERBANK')`,
-      [txId, instrumentId || settlementId, fromBankId, toBankId, amountCedi]
+/* POST /api/v1/settlement/interbank/cycles — Run a netting cycle now rather than waiting for the next one */
+router.post('/interbank/cycles', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const summary = await runSettlementCycle();
+    if (summary) await recordAudit(req, 'SETTLEMENT_CYCLE_RUN', 'SETTLEMENT_CYCLE', summary.cycleId, { ...summary });
+    res.json({ success: true, data: summary });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/settlement/interbank/cycles — Recent netting cycles */
+router.get('/interbank/cycles', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const limit = Math.min(Number(req.query.limit) || 50, 500);
+    const result = await query('SELECT * FROM settlement_cycles ORDER BY settled_at DESC LIMIT $1', [limit]);
+    res.json({ success: true, data: result.rows });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/settlement/interbank/cycles/:cycleId — A cycle and the settlements it settled */
+router.get('/interbank/cycles/:cycleId', requireRole(UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const cycle = await query('SELECT * FROM settlement_cycles WHERE cycle_id = $1', [req.params.cycleId]);
+    if (cycle.rows.length === 0) throw new AppError('Settlement cycle not found', 404, 'NOT_FOUND');
+    const settlements = await query('SELECT * FROM bank_settlements WHERE cycle_id = $1 ORDER BY created_at', [req.params.cycleId]);
+    res.json({ success: true, data: { ...cycle.rows[0], settlements: settlements.rows } });
+  } catch (error) { next(error); }
+});
+
+/* PUT /api/v1/settlement/interbank/:settlementId/priority — Reprioritise a queued RTGS payment */
+router.put('/interbank/:settlementId/priority', requireRole(UserRole.BOG_ADMIN, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const priority = req.body.priority as RtgsPriority;
+    if (!RTGS_PRIORITIES.includes(priority)) throw new AppError(`priority must be one of ${RTGS_PRIORITIES.join(', ')}`, 400, 'VALIDATION');
+    const existing = await query('SELECT * FROM bank_settlements WHERE settlement_id = $1', [req.params.settlementId]);
+    if (existing.rows.length === 0) throw new AppError('Settlement not found', 404, 'NOT_FOUND');
+    if (req.user!.role === UserRole.COMMERCIAL_BANK && existing.rows[0].bank_id !== req.user!.accountId) {
+      throw new AppError('Banks can only reprioritise their own settlements', 403, 'AUTH_002');
+    }
+
+    const settlement = await reprioritiseRtgsPayment(req.params.settlementId, priority);
+    if (!settlement) throw new AppError(`Only queued RTGS payments can be reprioritised; this one is ${existing.rows[0].mode} ${existing.rows[0].status}`, 409, 'CONFLICT');
+    await recordAudit(req, 'RTGS_SETTLEMENT_REPRIORITISED', 'BANK_SETTLEMENT', req.params.settlementId, { from: existing.rows[0].priority, to: priority });
+
+    res.json({ success: true, data: settlement });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/settlement/interbank/:settlementId/cancel — Withdraw a settlement still waiting in the queue */
+router.post('/interbank/:settlementId/cancel', requireRole(UserRole.BOG_ADMIN, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const existing = await query('SELECT * FROM bank_settlements WHERE settlement_id = $1', [req.params.settlementId]);
+    if (existing.rows.length === 0) throw new AppError('Settlement not found', 404, 'NOT_FOUND');
+    if (req.user!.role === UserRole.COMMERCIAL_BANK && existing.rows[0].bank_id !== req.user!.accountId) {
+      throw new AppError('Banks can only cancel their own settlements', 403, 'AUTH_002');
+    }
+
+    // Settlements claimed by a running cycle or RTGS release are no longer queued and cannot be cancelled
+    const result = await query(
+      `UPDATE bank_settlements SET status = 'FAILED', failure_reason = $1
+       WHERE settlement_id = $2 AND status IN ('PENDING', 'QUEUED')
+       RETURNING *`,
+      [`Cancelled by ${req.user!.accountId}`, req.params.settlementId]
     );
+    if (result.rows.length === 0) throw new AppError(`Settlement is ${existing.rows[0].status}`, 409, 'CONFLICT');
+    await recordAudit(req, 'INTERBANK_SETTLEMENT_CANCELLED', 'BANK_SETTLEMENT', req.params.settlementId, {});
 
-    res.status(201).json({ success: true, data: { settlementId, txId, fromBankId, toBankId, amountCedi, status: 'CLEARING' } });
+    res.json({ success: true, data: result.rows[0] });
   } catch (error) { next(error); }
 });
 
@@ -38,40 +154,85 @@ router.post('/interbank', requireRole(UserRole.BOG_ADMIN, UserRole.COMMERCIAL_BA
 router.post('/contractor-payment', requireRole(UserRole.BOG_ADMIN, UserRole.GOVT_AGENCY, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { projectId, contractorId, amountCedi, milestoneId, bankId, description } = req.body;
+    if (!contractorId || !amountCedi) throw new AppError('contractorId and amountCedi required', 400, 'VALIDATION');
+    if (Boolean(projectId) !== Boolean(milestoneId)) throw new AppError('projectId and milestoneId must be given together', 400, 'VALIDATION');
     const paymentId = `PAY-${Date.now().toString(36).toUpperCase()}`;
+    const payer = bankId || 'BOG_TREASURY';
+    if (req.user!.role === UserRole.COMMERCIAL_BANK && payer !== req.user!.accountId) {
+      throw new AppError('Banks can only pay from their own account', 403, 'AUTH_002');
+    }
+    if (req.user!.role === UserRole.GOVT_AGENCY && payer !== 'BOG_TREASURY' && payer !== req.user!.accountId) {
+      throw new AppError('Agencies can only pay from the treasury or their own account', 403, 'AUTH_002');
+    }
 
-    const txId = `TX-${Date.now().toString(36).toUpperCase()}`;
-    await query(
-      `INSERT INTO ledger_transactions (tx_id, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status, description, channel)
-       VALUES ($1, 'TRANSFER', 'GBDC', $2, $3, $4, $5, 'CONFIRMED', $6, 'BANK_TRANSFER')`,
-      [txId, paymentId, bankId || 'BOG_TREASURY', contractorId, amountCedi, description]
-    );
+    // Project payments are held to the milestone's amount and the project's budget
+    let budgetEntryId: string | undefined;
+    if (projectId) {
+      if ((await getLedger()).getEscrow(projectId)) {
+        throw new AppError('Project milestones are paid from escrow through /projects/:projectId/disburse', 409, 'CONFLICT');
+      }
+      budgetEntryId = await reserveDisbursement({ projectId, milestoneId, contractorId, amountGBDC: Number(amountCedi), createdBy: req.user!.accountId });
+    }
 
-    if (milestoneId) {
-      await query(`UPDATE project_milestones SET status = 'COMPLETED', completed_at = NOW() WHERE milestone_id = $1`, [milestoneId]);
-      await query(`UPDATE government_projects SET disbursed_gbdc = disbursed_gbdc + $1, updated_at = NOW() WHERE project_id = $2`, [amountCedi, projectId]);
+    let receipt;
+    try {
+      await ensureAccounts(payer, contractorId);
+      receipt = await submit(engine => engine.transferGBDC({
+        fromAccount: payer,
+        toAccount: contractorId,
+        amountCedi,
+        description: description || `Contractor payment ${paymentId}`,
+      }), { channel: 'BANK_TRANSFER' });
+    } catch (error) {
+      if (budgetEntryId) await cancelDisbursement(budgetEntryId, req.user!.accountId);
+      throw error;
     }
+    const { txId, blockHeight } = receipt;
+    if (budgetEntryId) await confirmDisbursement(budgetEntryId, txId);
 
-    res.status(201).json({ success: true, data: { paymentId, txId, projectId, contractorId, amountCedi, status: 'PROCESSING' } });
+    res.status(201).json({ success: true, data: { paymentId, txId, blockHeight, projectId, contractorId, amountCedi, status: 'PROCESSING' } });
   } catch (error) { next(error); }
 });
 
-/* POST /api/v1/settlement/farmer-cashout */
+/* POST /api/v1/settlement/farmer-cashout — Convert a CRDN to cash, paid to the holder's MoMo wallet */
 router.post('/farmer-cashout', requireRole(UserRole.FARMER, UserRole.LBC, UserRole.COMMERCIAL_BANK), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { crdnInstrumentId, farmerId, channel, momoProvider, momoPhone } = req.body;
+    const { crdnInstrumentId, farmerId, channel, momoPhone } = req.body;
     const cashoutId = `CASH-${Date.now().toString(36).toUpperCase()}`;
 
     if (channel === 'MOMO') {
-      const momoTxId = `MOMO-${Date.now().toString(36).toUpperCase()}`;
-      const crdn = await query('SELECT amount_cedi FROM crdn_instruments WHERE instrument_id = $1', [crdnInstrumentId]);
+      if (!crdnInstrumentId || !momoPhone) throw new AppError('crdnInstrumentId and momoPhone required', 400, 'VALIDATION');
+      const crdn = await query('SELECT farmer_id, holder_id FROM crdn_instruments WHERE instrument_id = $1', [crdnInstrumentId]);
       if (crdn.rows.length === 0) throw new AppError('CRDN not found', 404, 'NOT_FOUND');
+      const holderId = crdn.rows[0].holder_id || crdn.rows[0].farmer_id;
+      if (holderId !== req.user!.accountId) throw new AppError('Only the holder can cash out a CRDN to MoMo', 403, 'AUTH_002');
+
+      // The provider is implied by the number's prefix; one given must agree with it
+      const provider = providerForPhone(momoPhone);
+      if (!provider) throw new AppError('momoPhone is not a Ghanaian mobile money number', 400, 'VALIDATION');
+      if (req.body.momoProvider && req.body.momoProvider !== provider) {
+        throw new AppError(`${momoPhone} is a ${provider} number`, 400, 'VALIDATION');
+      }
 
-      await query(
-        `INSERT INTO momo_transactions (momo_tx_id, provider, phone_number, amount_cedi, instrument_type, status)
-         VALUES ($1, $2, $3, $4, 'CRDN', 'INITIATED')`,
-        [momoTxId, momoProvider, momoPhone, crdn.rows[0].amount_cedi]
-      );
+      // Cash-outs above the holder's limits are split over days unless they opt out
+      const cashout = await startMomoCashout({
+        instrumentId: crdnInstrumentId, holderId, provider, phoneNumber: momoPhone, allowSplit: req.body.allowSplit !== false,
+      });
+      await recordAudit(req, 'MOMO_CASHOUT_INITIATED', 'MOMO_TRANSACTION', cashout.cashoutId, {
+        crdnInstrumentId, provider, action: cashout.limits.action, tranches: cashout.payouts.length,
+        reviewId: cashout.review?.review_id, txId: cashout.payouts[0].govres_tx_id,
+      });
+      res.status(202).json({
+        success: true,
+        data: {
+          cashoutId: cashout.cashoutId, crdnInstrumentId, farmerId: holderId, channel,
+          status: cashout.payouts[0].status,
+          limits: { action: cashout.limits.action, code: cashout.limits.code, reason: cashout.limits.reason, tranches: cashout.limits.tranches },
+          payouts: cashout.payouts,
+          review: cashout.review,
+        },
+      });
+      return;
     }
 
     res.status(201).json({ success: true, data: { cashoutId, crdnInstrumentId, farmerId, channel, status: 'INITIATED' } });
@@ -9,6 +9,8 @@ import { UserRole } from '@govres/shared';
 import { requireRole } from '../middleware/auth';
 import { query } from '../database/connection';
 import { AppError } from '../middleware/error-handler';
+import { ensureAccounts, recordEscrowEvent, submit } from '../services/ledger';
+import { logger } from '../utils/logger';
 import crypto from 'crypto';
 
 const router = Router();
@@ -25,7 +27,7 @@ function generateEventId(): string {
   return `EVT-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
 }
 
-/** Insert a supply chain event */
+/** Insert a supply chain event and apply it to escrowed milestones waiting on it */
 async function insertEvent(
   lotGuid: string,
   eventType: string,
@@ -47,6 +49,10 @@ async function insertEvent(
      RETURNING *`,
     [eventId, lotGuid, eventType, actorId, actorRole, actorName, gpsLat, gpsLng, JSON.stringify(data || {}), signatureHash]
   );
+
+  // Project milestones may be waiting on this event; a failed release must not fail the event itself
+  await recordEscrowEvent(eventType, lotGuid)
+    .catch(error => logger.error('Escrow event failed', { eventType, lotGuid, error: error instanceof Error ? error.message : String(error) }));
   return result.rows[0];
 }
 
@@ -290,29 +296,36 @@ router.post('/lots/:lotGuid/crdn', requireRole(UserRole.LBC, UserRole.BOG_ADMIN)
       throw new AppError('Lot must be at least GRADED to issue CRDN', 400, 'VALIDATION');
     }
 
-    const amountCedi = (l.weight_kg || 0) * (pricePerKgGHS || 26.0);
-    const instrumentId = `CRDN-${Date.now().toString(36).toUpperCase()}`;
+    const price = pricePerKgGHS || 26.0;
+    const amountCedi = (l.weight_kg || 0) * price;
+    const attestationHash = crypto.createHash('sha256')
+      .update(`${lotGuid}:${l.weight_kg}:${l.quality_grade}:${l.lbc_id}`)
+      .digest('hex');
+
+    await ensureAccounts(l.farmer_id, l.lbc_id);
+    const { result: instrumentId, txId, blockHeight } = await submit(engine => engine.issueCRDN({
+      farmerId: l.farmer_id,
+      lbcId: l.lbc_id,
+      cocoaWeightKg: Number(l.weight_kg),
+      pricePerKgGHS: price,
+      warehouseReceiptId: lotGuid,
+      seasonYear: l.season_year,
+      attestationHash,
+    }));
 
     await query(
       `INSERT INTO crdn_instruments (instrument_id, amount_cedi, cocoa_weight_kg, price_per_kg_ghs, farmer_id, lbc_id, quality_grade, season_year, status)
        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'ISSUED')`,
-      [instrumentId, amountCedi, l.weight_kg, pricePerKgGHS || 26.0, l.farmer_id, l.lbc_id, l.quality_grade, l.season_year]
+      [instrumentId, amountCedi, l.weight_kg, price, l.farmer_id, l.lbc_id, l.quality_grade, l.season_year]
     );
 
     await query('UPDATE cocoa_lots SET crdn_instrument_id = $1, updated_at = NOW() WHERE lot_guid = $2', [instrumentId, lotGuid]);
 
-    const txId = `TX-${Date.now().toString(36).toUpperCase()}`;
-    await query(
-      `INSERT INTO ledger_transactions (tx_id, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status)
-       VALUES ($1, 'MINT', 'CRDN', $2, $3, $4, $5, 'CONFIRMED')`,
-      [txId, instrumentId, l.lbc_id, l.farmer_id, amountCedi]
-    );
-
     await insertEvent(lotGuid, 'CRDN_ISSUED', req.user?.accountId || '', req.user?.role || 'LBC', '', undefined, undefined, {
-      instrumentId, amountCedi, pricePerKgGHS: pricePerKgGHS || 26.0
+      instrumentId, amountCedi, pricePerKgGHS: price, txId
     });
 
-    res.status(201).json({ success: true, data: { lotGuid, instrumentId, amountCedi, txId } });
+    res.status(201).json({ success: true, data: { lotGuid, instrumentId, amountCedi, txId, blockHeight } });
   } catch (error) { next(error); }
 });
 
@@ -0,0 +1,203 @@
+/**
+ * GOVRES — Yield Note Routes
+ * Diaspora yield notes: BoG issues note series backed by GBDC, cocoa or
+ * gold royalties; diaspora investors subscribe in GBDC, receive coupons
+ * on the series' schedule and redeem their principal at maturity.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { AssetType, UserRole } from '@govres/shared';
+import { accrueCoupon, couponSchedule, nextCouponDate } from '@govres/ledger';
+import { requireRole } from '../middleware/auth';
+import { query } from '../database/connection';
+import { AppError } from '../middleware/error-handler';
+import { ensureAccounts, getLedger, payDueCoupons, submit } from '../services/ledger';
+import { recordAudit } from '../services/audit';
+
+const router = Router();
+
+const ASSET_TYPES = Object.values(AssetType) as string[];
+
+function generateNoteId(): string {
+  return `YN-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+/* Load a note, checking a diaspora investor only sees their own */
+async function getNote(req: Request, noteId: string): Promise<any> {
+  const result = await query('SELECT * FROM yield_notes WHERE note_id = $1', [noteId]);
+  if (result.rows.length === 0) throw new AppError('Yield note not found', 404, 'NOT_FOUND');
+  if (req.user!.role === UserRole.DIASPORA && result.rows[0].investor_id !== req.user!.accountId) {
+    throw new AppError('Investors can only view their own notes', 403, 'AUTH_002');
+  }
+  return result.rows[0];
+}
+
+/* POST /api/v1/yield-notes/series — Issue a note series against GBDC, CRDN or royalty report backing */
+router.post('/series', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, assetType, backingIds } = req.body;
+    const issueSizeCedi = Number(req.body.issueSizeCedi);
+    const couponRatePercent = Number(req.body.couponRatePercent);
+    const couponIntervalMonths = Number(req.body.couponIntervalMonths ?? 6);
+    const maturityDate = new Date(req.body.maturityDate);
+    if (!name || !ASSET_TYPES.includes(assetType)) {
+      throw new AppError(`name and assetType (${ASSET_TYPES.join(', ')}) required`, 400, 'VALIDATION');
+    }
+    if (!Array.isArray(backingIds) || backingIds.length === 0) throw new AppError('backingIds required', 400, 'VALIDATION');
+    if (!(issueSizeCedi > 0) || !(couponRatePercent > 0)) {
+      throw new AppError('issueSizeCedi and couponRatePercent must be positive', 400, 'VALIDATION');
+    }
+    if (!Number.isInteger(couponIntervalMonths) || couponIntervalMonths < 1) {
+      throw new AppError('couponIntervalMonths must be a whole number of months', 400, 'VALIDATION');
+    }
+    if (Number.isNaN(maturityDate.getTime())) throw new AppError('maturityDate must be a date', 400, 'VALIDATION');
+
+    // Royalty backing is valued from the production reports' attested royalties
+    let royaltyValueCedi: number | undefined;
+    if (assetType === AssetType.MINERAL_ROYALTY) {
+      const reports = await query(
+        'SELECT report_id, royalty_amount_ghs FROM gold_production_reports WHERE report_id = ANY($1)',
+        [backingIds]
+      );
+      const missing = backingIds.filter((id: string) => !reports.rows.some(row => row.report_id === id));
+      if (missing.length > 0) throw new AppError(`Production reports not found: ${missing.join(', ')}`, 404, 'NOT_FOUND');
+      royaltyValueCedi = reports.rows.reduce((sum, row) => sum + Number(row.royalty_amount_ghs), 0);
+    }
+
+    const seriesId = `YNS-${Date.now().toString(36).toUpperCase()}`;
+    const issuedBy = req.user!.accountId;
+    await ensureAccounts(issuedBy);
+    const { result: txId, blockHeight } = await submit(engine => engine.createNoteSeries({
+      seriesId,
+      assetType,
+      backingIds,
+      royaltyValueCedi,
+      issueSizeCedi,
+      couponRatePercent,
+      couponIntervalMonths,
+      maturityDate,
+      issuedBy,
+    }));
+    const series = (await getLedger()).getNoteSeries(seriesId)!;
+
+    const result = await query(
+      `INSERT INTO yield_note_series (series_id, name, asset_type, backing_ids, backing_value_cedi, issue_size_cedi,
+         coupon_rate_percent, coupon_interval_months, maturity_date, account_id, issued_by, tx_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING *`,
+      [seriesId, name, assetType, JSON.stringify(backingIds), series.backingValueCedi, issueSizeCedi,
+        couponRatePercent, couponIntervalMonths, series.maturityDate, series.account, issuedBy, txId]
+    );
+    await recordAudit(req, 'YIELD_NOTE_SERIES_ISSUED', 'YIELD_NOTE_SERIES', seriesId, {
+      assetType, issueSizeCedi, backingValueCedi: series.backingValueCedi, txId,
+    });
+
+    res.status(201).json({ success: true, data: { ...result.rows[0], couponDates: couponSchedule(series), blockHeight } });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/yield-notes/series — Note series with subscription totals */
+router.get('/series', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await query('SELECT * FROM yield_note_series ORDER BY created_at DESC');
+    res.json({ success: true, data: result.rows });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/yield-notes/series/:seriesId — A series and its coupon dates */
+router.get('/series/:seriesId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await query('SELECT * FROM yield_note_series WHERE series_id = $1', [req.params.seriesId]);
+    if (result.rows.length === 0) throw new AppError('Yield note series not found', 404, 'NOT_FOUND');
+    const series = (await getLedger()).getNoteSeries(req.params.seriesId);
+
+    res.json({ success: true, data: { ...result.rows[0], couponDates: series ? couponSchedule(series) : [] } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/yield-notes/series/:seriesId/subscribe — Subscribe to a series in GBDC */
+router.post('/series/:seriesId/subscribe', requireRole(UserRole.DIASPORA), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { seriesId } = req.params;
+    const amountCedi = Number(req.body.amountCedi);
+    if (!(amountCedi > 0)) throw new AppError('amountCedi must be positive', 400, 'VALIDATION');
+
+    const investorId = req.user!.accountId;
+    const noteId = generateNoteId();
+    await ensureAccounts(investorId);
+    const { result: txId, blockHeight } = await submit(engine => engine.subscribeNote({ seriesId, noteId, investorId, amountCedi }));
+    await recordAudit(req, 'YIELD_NOTE_SUBSCRIBED', 'YIELD_NOTE', noteId, { seriesId, amountCedi, txId });
+
+    const note = await query('SELECT * FROM yield_notes WHERE note_id = $1', [noteId]);
+    res.status(201).json({ success: true, data: { ...note.rows[0], blockHeight } });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/yield-notes/coupons/pay — Pay every coupon that has fallen due now */
+router.post('/coupons/pay', requireRole(UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const couponsPaid = await payDueCoupons();
+    await recordAudit(req, 'YIELD_NOTE_COUPONS_PAID', 'YIELD_NOTE', 'ALL', { couponsPaid });
+    res.json({ success: true, data: { couponsPaid } });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/yield-notes — Notes held; diaspora investors see their own */
+router.get('/', requireRole(UserRole.DIASPORA, UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (req.user!.role === UserRole.DIASPORA) {
+      params.push(req.user!.accountId);
+      conditions.push(`investor_id = $${params.length}`);
+    }
+    if (req.query.seriesId) {
+      params.push(req.query.seriesId);
+      conditions.push(`series_id = $${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await query(`SELECT * FROM yield_notes ${where} ORDER BY created_at DESC`, params);
+    res.json({ success: true, data: result.rows });
+  } catch (error) { next(error); }
+});
+
+/* GET /api/v1/yield-notes/:noteId — A note, its coupons, the coupon accrued so far and the next coupon date */
+router.get('/:noteId', requireRole(UserRole.DIASPORA, UserRole.BOG_ADMIN, UserRole.BOG_AUDITOR), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const row = await getNote(req, req.params.noteId);
+    const coupons = await query('SELECT * FROM yield_note_coupons WHERE note_id = $1 ORDER BY coupon_date', [row.note_id]);
+    const engine = await getLedger();
+    const note = engine.getYieldNote(row.note_id);
+    const series = note && engine.getNoteSeries(note.seriesId);
+    const active = note?.status === 'ACTIVE' && series;
+
+    res.json({
+      success: true,
+      data: {
+        ...row,
+        coupons: coupons.rows,
+        accruedCouponCedi: active ? accrueCoupon(note.principalCedi, series.couponRatePercent, note.lastCouponAt, new Date()) : 0,
+        nextCouponDate: active ? nextCouponDate(series, note) : null,
+      },
+    });
+  } catch (error) { next(error); }
+});
+
+/* POST /api/v1/yield-notes/:noteId/redeem — Return a matured note's principal to its investor */
+router.post('/:noteId/redeem', requireRole(UserRole.DIASPORA, UserRole.BOG_ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const row = await getNote(req, req.params.noteId);
+    if (row.status !== 'MATURED') throw new AppError(`Yield note is ${row.status}`, 409, 'CONFLICT');
+
+    const requestedBy = req.user!.accountId;
+    await ensureAccounts(requestedBy);
+    const { result: txId, blockHeight } = await submit(engine => engine.redeemNote({ noteId: row.note_id, requestedBy }));
+    await recordAudit(req, 'YIELD_NOTE_REDEEMED', 'YIELD_NOTE', row.note_id, { principalCedi: Number(row.principal_cedi), txId });
+
+    const note = await query('SELECT * FROM yield_notes WHERE note_id = $1', [row.note_id]);
+    res.json({ success: true, data: { ...note.rows[0], blockHeight } });
+  } catch (error) { next(error); }
+});
+
+export { router as yieldNoteRoutes };
@@ -17,18 +17,26 @@ import { logger } from './utils/logger';
 import { errorHandler } from './middleware/error-handler';
 import { authMiddleware } from './middleware/auth';
 import { testConnection } from './database/connection';
+import { getLedger, startCouponPayments, startCRDNExpiry, startEscrowReleases } from './services/ledger';
+import { startRtgsQueue, startSettlementCycles } from './services/settlement';
+import { startMomoPayouts } from './services/momo';
+import { startEcediBridge } from './services/ecedi-bridge';
 
 // Routes
 import { ledgerRoutes } from './routes/ledger';
 import { gbdcRoutes } from './routes/gbdc';
 import { crdnRoutes } from './routes/crdn';
+import { collateralRoutes } from './routes/collateral';
 import { oracleRoutes } from './routes/oracle';
 import { settlementRoutes } from './routes/settlement';
+import { iso20022Routes } from './routes/iso20022';
 import { dashboardRoutes } from './routes/dashboard';
 import { projectRoutes } from './routes/project';
 import { cbdcRoutes } from './routes/cbdc';
 import { authRoutes } from './routes/auth';
 import { supplyChainRoutes } from './routes/supply-chain';
+import { yieldNoteRoutes } from './routes/yield-notes';
+import { momoCallbackRoutes, momoRoutes } from './routes/momo';
 
 dotenv.config();
 
@@ -88,17 +96,22 @@ app.get('/health', (_req, res) => {
 
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/dashboard', dashboardRoutes); // Public read-only dashboard
+app.use('/api/v1/momo/callback', momoCallbackRoutes); // Providers re-checked before acting
 
 // ─── Authenticated Routes ───────────────────────────────────────
 
 app.use('/api/v1/ledger', authMiddleware, ledgerRoutes);
 app.use('/api/v1/gbdc', authMiddleware, gbdcRoutes);
 app.use('/api/v1/crdn', authMiddleware, crdnRoutes);
+app.use('/api/v1/collateral', authMiddleware, collateralRoutes);
 app.use('/api/v1/oracle', authMiddleware, oracleRoutes);
+app.use('/api/v1/settlement/iso20022', authMiddleware, iso20022Routes);
 app.use('/api/v1/settlement', authMiddleware, settlementRoutes);
 app.use('/api/v1/projects', authMiddleware, projectRoutes);
 app.use('/api/v1/cbdc', authMiddleware, cbdcRoutes);
 app.use('/api/v1/supply-chain', authMiddleware, supplyChainRoutes);
+app.use('/api/v1/yield-notes', authMiddleware, yieldNoteRoutes);
+app.use('/api/v1/momo', authMiddleware, momoRoutes);
 
 // ─── Error Handling ─────────────────────────────────────────────
 
@@ -115,6 +128,18 @@ app.listen(PORT, async () => {
   const dbConnected = await testConnection();
   if (dbConnected) {
     logger.info('Database connected successfully');
+    try {
+      await getLedger();
+      startCRDNExpiry();
+      startEscrowReleases();
+      startCouponPayments();
+      startSettlementCycles();
+      startRtgsQueue();
+      startMomoPayouts();
+      startEcediBridge();
+    } catch (error: any) {
+      logger.error('Ledger engine failed to start', { error: error.message });
+    }
   } else {
     logger.warn('Database not available — API routes will return errors for DB-dependent operations');
   }
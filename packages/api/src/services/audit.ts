@@ -0,0 +1,35 @@
+/**
+ * GOVRES — Audit Service
+ *
+ * Appends entries to audit_log for the actions auditors review through
+ * GET /api/v1/ledger/audit-trail. Each entry carries a SHA-256 hash of
+ * its own content so later edits to a row are detectable.
+ */
+
+import crypto from 'crypto';
+import { Request } from 'express';
+import { query } from '../database/connection';
+
+/**
+ * Record an action taken by the authenticated user of req
+ */
+export async function recordAudit(
+  req: Request,
+  action: string,
+  resourceType: string,
+  resourceId: string,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  const performedBy = req.user!.accountId;
+  const role = req.user!.role;
+  const createdAt = new Date();
+  const signatureHash = crypto.createHash('sha256')
+    .update(JSON.stringify({ action, performedBy, role, resourceType, resourceId, details, createdAt }))
+    .digest('hex');
+
+  await query(
+    `INSERT INTO audit_log (action, performed_by, role, resource_type, resource_id, details, ip_address, user_agent, signature_hash, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [action, performedBy, role, resourceType, resourceId, JSON.stringify(details), req.ip || null, req.get('user-agent') || null, signatureHash, createdAt]
+  );
+}
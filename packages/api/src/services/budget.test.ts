@@ -0,0 +1,218 @@
+/**
+ * GOVRES — Project Budget Service Tests
+ * Commitment, variation and disbursement-reversal accounting against an
+ * in-memory stand-in for the project tables
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PoolClient } from 'pg';
+
+const db = vi.hoisted(() => ({
+  projects: new Map<string, any>(),
+  milestones: new Map<string, any>(),
+  entries: [] as any[],
+  client: undefined as any,
+}));
+
+vi.mock('../database/connection', () => ({
+  query: (text: string, params: unknown[]) => db.client.query(text, params),
+  withTransaction: (fn: (client: unknown) => Promise<unknown>) => fn(db.client),
+}));
+
+import { applyVariation, cancelDisbursement, openBudget, postBudgetEntry, reserveDisbursement } from './budget';
+
+/* Answers the statements the budget service runs; DECIMAL columns are strings, as pg returns them */
+function fakeClient() {
+  const rows = (list: any[]) => ({ rows: list, rowCount: list.length });
+  return {
+    async query(text: string, params: any[] = []) {
+      const sql = text.replace(/\s+/g, ' ').trim();
+      if (sql.startsWith('SELECT * FROM government_projects')) return rows([db.projects.get(params[0])].filter(Boolean));
+      if (sql.startsWith('SELECT * FROM project_milestones')) {
+        const milestone = db.milestones.get(params[0]);
+        return rows(milestone && milestone.project_id === params[1] ? [milestone] : []);
+      }
+      if (sql.startsWith('SELECT milestone_id, amount_gbdc FROM project_milestones')) {
+        return rows([...db.milestones.values()].filter(m => m.project_id === params[0]));
+      }
+      if (sql.startsWith('SELECT * FROM project_budget_entries')) return rows(db.entries.filter(e => e.entry_id === params[0]));
+      if (sql.startsWith('UPDATE government_projects SET budget_gbdc')) {
+        Object.assign(db.projects.get(params[3]), { budget_gbdc: String(params[0]), committed_gbdc: String(params[1]), disbursed_gbdc: String(params[2]) });
+        return rows([]);
+      }
+      if (sql.startsWith('UPDATE project_milestones SET disbursed_gbdc = disbursed_gbdc - $1')) {
+        const milestone = db.milestones.get(params[1]);
+        milestone.disbursed_gbdc = String(Number(milestone.disbursed_gbdc) - params[0]);
+        return rows([]);
+      }
+      if (sql.startsWith('UPDATE project_milestones SET disbursed_gbdc = $1')) {
+        db.milestones.get(params[1]).disbursed_gbdc = String(params[0]);
+        return rows([]);
+      }
+      if (sql.startsWith('UPDATE project_milestones SET amount_gbdc = $1')) {
+        db.milestones.get(params[1]).amount_gbdc = String(params[0]);
+        return rows([]);
+      }
+      if (sql.startsWith('INSERT INTO project_milestones')) {
+        db.milestones.set(params[0], milestone(params[0], params[1], params[3], params[4]));
+        return rows([]);
+      }
+      if (sql.startsWith('INSERT INTO project_budget_entries')) {
+        const [entry_id, project_id, entry_type, amount_gbdc, milestone_id, variation_id, tx_id,
+          budget_after, committed_after, disbursed_after, remaining_after, created_by] = params;
+        db.entries.push({ entry_id, project_id, entry_type, amount_gbdc: String(amount_gbdc), milestone_id, variation_id, tx_id,
+          budget_after, committed_after, disbursed_after, remaining_after, created_by });
+        return rows([]);
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+}
+
+function milestone(milestoneId: string, projectId: string, amountGBDC: number, contractorId = 'CONTRACTOR-1', status = 'PENDING') {
+  return {
+    milestone_id: milestoneId, project_id: projectId, description: '', amount_gbdc: String(amountGBDC), disbursed_gbdc: '0',
+    contractor_id: contractorId, status, release_conditions: [],
+  };
+}
+
+const client = () => db.client as PoolClient;
+const position = (projectId = 'PRJ-1') => {
+  const project = db.projects.get(projectId);
+  return { budget: Number(project.budget_gbdc), committed: Number(project.committed_gbdc), disbursed: Number(project.disbursed_gbdc) };
+};
+
+beforeEach(() => {
+  db.projects.clear();
+  db.milestones.clear();
+  db.entries.length = 0;
+  db.client = fakeClient();
+  db.projects.set('PRJ-1', {
+    project_id: 'PRJ-1', agency_id: 'MOF', project_name: 'Tema Motorway', description: null,
+    budget_gbdc: '1000000', committed_gbdc: '0', disbursed_gbdc: '0', status: 'APPROVED',
+  });
+  db.milestones.set('MS-1', milestone('MS-1', 'PRJ-1', 400_000));
+  db.milestones.set('MS-2', milestone('MS-2', 'PRJ-1', 350_000));
+});
+
+// ─── Commitments ────────────────────────────────────────
+
+describe('commitments', () => {
+  it('opens the budget with one commitment per milestone and running totals on every entry', async () => {
+    await openBudget(client(), 'PRJ-1', 'BOG-ADMIN');
+
+    expect(position()).toEqual({ budget: 1_000_000, committed: 750_000, disbursed: 0 });
+    expect(db.entries.map(e => [e.entry_type, e.committed_after, e.remaining_after])).toEqual([
+      ['BUDGET', 0, 1_000_000],
+      ['COMMITMENT', 400_000, 1_000_000],
+      ['COMMITMENT', 750_000, 1_000_000],
+    ]);
+  });
+
+  it('commits up to the budget exactly but not past it', async () => {
+    await openBudget(client(), 'PRJ-1', 'BOG-ADMIN');
+    await postBudgetEntry(client(), 'PRJ-1', { entryType: 'COMMITMENT', amountGBDC: 250_000, createdBy: 'BOG-ADMIN' });
+    expect(position().committed).toBe(1_000_000);
+
+    await expect(postBudgetEntry(client(), 'PRJ-1', { entryType: 'COMMITMENT', amountGBDC: 0.0001, createdBy: 'BOG-ADMIN' }))
+      .rejects.toMatchObject({ statusCode: 409, code: 'BUDGET_EXCEEDED' });
+    expect(position().committed).toBe(1_000_000);
+  });
+
+  it('rounds amounts to the four places the columns store', async () => {
+    await postBudgetEntry(client(), 'PRJ-1', { entryType: 'COMMITMENT', amountGBDC: 0.1, createdBy: 'BOG-ADMIN' });
+    await postBudgetEntry(client(), 'PRJ-1', { entryType: 'COMMITMENT', amountGBDC: 0.2, createdBy: 'BOG-ADMIN' });
+    expect(position().committed).toBe(0.3);
+  });
+});
+
+// ─── Variations ─────────────────────────────────────────
+
+describe('applyVariation', () => {
+  it('raises the budget before moving commitments, so the checks see the final budget', async () => {
+    await openBudget(client(), 'PRJ-1', 'BOG-ADMIN');
+    await applyVariation(client(), {
+      variationId: 'VAR-1',
+      projectId: 'PRJ-1',
+      budgetDeltaGBDC: 200_000,
+      milestones: [{ milestoneId: 'MS-3', amountGBDC: 300_000, contractorId: 'CONTRACTOR-2', conditions: [] }],
+      amendments: [{ milestoneId: 'MS-2', amountGBDC: 500_000 }],
+      createdBy: 'BOG-ADMIN',
+    });
+
+    expect(position()).toEqual({ budget: 1_200_000, committed: 1_200_000, disbursed: 0 });
+    expect(db.entries.filter(e => e.variation_id === 'VAR-1').map(e => [e.entry_type, Number(e.amount_gbdc)])).toEqual([
+      ['VARIATION', 200_000],
+      ['COMMITMENT', 150_000],
+      ['COMMITMENT', 300_000],
+    ]);
+  });
+
+  it('releases commitments before lowering the budget', async () => {
+    await openBudget(client(), 'PRJ-1', 'BOG-ADMIN');
+    await applyVariation(client(), {
+      variationId: 'VAR-2',
+      projectId: 'PRJ-1',
+      budgetDeltaGBDC: -300_000,
+      milestones: [],
+      amendments: [{ milestoneId: 'MS-1', amountGBDC: 300_000 }],
+      createdBy: 'BOG-ADMIN',
+    });
+
+    expect(position()).toEqual({ budget: 700_000, committed: 650_000, disbursed: 0 });
+    expect(db.entries.at(-1)).toMatchObject({ entry_type: 'VARIATION', budget_after: 700_000, remaining_after: 700_000 });
+  });
+
+  it('refuses a cut that leaves less budget than is committed', async () => {
+    await openBudget(client(), 'PRJ-1', 'BOG-ADMIN');
+    await expect(applyVariation(client(), {
+      variationId: 'VAR-3', projectId: 'PRJ-1', budgetDeltaGBDC: -300_000, milestones: [], amendments: [], createdBy: 'BOG-ADMIN',
+    })).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED' });
+  });
+
+  it('refuses to amend a milestone below what it has been paid', async () => {
+    db.milestones.get('MS-1').disbursed_gbdc = '100000';
+    await expect(applyVariation(client(), {
+      variationId: 'VAR-4', projectId: 'PRJ-1', budgetDeltaGBDC: 0, milestones: [],
+      amendments: [{ milestoneId: 'MS-1', amountGBDC: 90_000 }], createdBy: 'BOG-ADMIN',
+    })).rejects.toMatchObject({ statusCode: 409, code: 'BUDGET_EXCEEDED' });
+  });
+});
+
+// ─── Disbursements ──────────────────────────────────────
+
+describe('disbursements', () => {
+  beforeEach(async () => {
+    await openBudget(client(), 'PRJ-1', 'BOG-ADMIN');
+    db.milestones.get('MS-1').status = 'VERIFIED';
+  });
+
+  const reserve = (amountGBDC: number) => reserveDisbursement({
+    projectId: 'PRJ-1', milestoneId: 'MS-1', contractorId: 'CONTRACTOR-1', amountGBDC, createdBy: 'MOF',
+  });
+
+  it('reverses a failed payment back to the position before it', async () => {
+    const entryId = await reserve(150_000);
+    expect(position().disbursed).toBe(150_000);
+    expect(db.milestones.get('MS-1').disbursed_gbdc).toBe('150000');
+
+    await cancelDisbursement(entryId, 'MOF');
+    expect(position()).toEqual({ budget: 1_000_000, committed: 750_000, disbursed: 0 });
+    expect(Number(db.milestones.get('MS-1').disbursed_gbdc)).toBe(0);
+    expect(db.entries.slice(-2).map(e => [e.entry_type, Number(e.amount_gbdc), e.disbursed_after, e.remaining_after])).toEqual([
+      ['DISBURSEMENT', 150_000, 150_000, 850_000],
+      ['DISBURSEMENT_REVERSAL', -150_000, 0, 1_000_000],
+    ]);
+  });
+
+  it('pays a milestone up to its amount, and no further', async () => {
+    await reserve(400_000);
+    await expect(reserve(0.01)).rejects.toMatchObject({ statusCode: 409, code: 'BUDGET_EXCEEDED' });
+    expect(position().disbursed).toBe(400_000);
+  });
+
+  it('refuses milestones not yet verified by an inspector', async () => {
+    db.milestones.get('MS-1').status = 'COMPLETED';
+    await expect(reserve(1_000)).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * GOVRES — Project Budget Service
+ *
+ * Keeps each project's budget ledger: the approved budget and its
+ * variations, what is committed to milestones and what has been
+ * disbursed, with running totals on every entry. Each change locks the
+ * project row inside a database transaction, so concurrent payments
+ * cannot take a project past its budget or a milestone past its amount.
+ */
+
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../database/connection';
+import { MilestoneRow, ProjectRow } from '../database/rows';
+import { AppError } from '../middleware/error-handler';
+
+export type BudgetEntryType = 'BUDGET' | 'VARIATION' | 'COMMITMENT' | 'DISBURSEMENT' | 'DISBURSEMENT_REVERSAL';
+
+export interface BudgetPosition {
+  projectId: string;
+  budgetGBDC: number;
+  committedGBDC: number;
+  disbursedGBDC: number;
+  /** Budget not yet disbursed */
+  remainingGBDC: number;
+  /** Budget not yet committed to milestones */
+  uncommittedGBDC: number;
+}
+
+export interface NewMilestone {
+  milestoneId: string;
+  description?: string;
+  amountGBDC: number;
+  contractorId: string;
+  conditions: unknown[];
+}
+
+/* Amounts are stored as DECIMAL(20,4) */
+const round = (amount: number) => Math.round(amount * 10_000) / 10_000;
+
+function toPosition(project: ProjectRow): BudgetPosition {
+  const budgetGBDC = Number(project.budget_gbdc);
+  const committedGBDC = Number(project.committed_gbdc);
+  const disbursedGBDC = Number(project.disbursed_gbdc);
+  return {
+    projectId: project.project_id,
+    budgetGBDC,
+    committedGBDC,
+    disbursedGBDC,
+    remainingGBDC: round(budgetGBDC - disbursedGBDC),
+    uncommittedGBDC: round(budgetGBDC - committedGBDC),
+  };
+}
+
+/* Lock a project's row until the transaction ends */
+async function lockProject(client: PoolClient, projectId: string): Promise<ProjectRow> {
+  const result = await client.query<ProjectRow>('SELECT * FROM government_projects WHERE project_id = $1 FOR UPDATE', [projectId]);
+  if (result.rows.length === 0) throw new AppError('Project not found', 404, 'NOT_FOUND');
+  return result.rows[0];
+}
+
+/* Lock a milestone's row until the transaction ends */
+async function lockMilestone(client: PoolClient, projectId: string, milestoneId: string): Promise<MilestoneRow> {
+  const result = await client.query<MilestoneRow>(
+    'SELECT * FROM project_milestones WHERE milestone_id = $1 AND project_id = $2 FOR UPDATE',
+    [milestoneId, projectId]
+  );
+  if (result.rows.length === 0) throw new AppError('Milestone not found', 404, 'NOT_FOUND');
+  return result.rows[0];
+}
+
+/**
+ * Post an entry to a project's budget ledger and update the project's
+ * totals. Runs inside the caller's transaction and refuses entries that
+ * would commit or disburse more than the budget. Returns the entry id.
+ */
+export async function postBudgetEntry(client: PoolClient, projectId: string, entry: {
+  entryType: BudgetEntryType;
+  amountGBDC: number;
+  milestoneId?: string;
+  variationId?: string;
+  txId?: string;
+  createdBy: string;
+}): Promise<string> {
+  const position = toPosition(await lockProject(client, projectId));
+  const amount = round(entry.amountGBDC);
+  switch (entry.entryType) {
+    case 'BUDGET': position.budgetGBDC = amount; break;
+    case 'VARIATION': position.budgetGBDC = round(position.budgetGBDC + amount); break;
+    case 'COMMITMENT': position.committedGBDC = round(position.committedGBDC + amount); break;
+    default: position.disbursedGBDC = round(position.disbursedGBDC + amount);
+  }
+  if (position.disbursedGBDC > position.budgetGBDC) {
+    throw new AppError(
+      `Budget of ${position.budgetGBDC} GHS would be exceeded: ${position.disbursedGBDC} GHS disbursed`,
+      409, 'BUDGET_EXCEEDED'
+    );
+  }
+  if (position.committedGBDC > position.budgetGBDC) {
+    throw new AppError(
+      `Budget of ${position.budgetGBDC} GHS would be exceeded: ${position.committedGBDC} GHS committed to milestones`,
+      409, 'BUDGET_EXCEEDED'
+    );
+  }
+
+  await client.query(
+    'UPDATE government_projects SET budget_gbdc = $1, committed_gbdc = $2, disbursed_gbdc = $3, updated_at = NOW() WHERE project_id = $4',
+    [position.budgetGBDC, position.committedGBDC, position.disbursedGBDC, projectId]
+  );
+  const entryId = `BUD-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+  await client.query(
+    `INSERT INTO project_budget_entries
+       (entry_id, project_id, entry_type, amount_gbdc, milestone_id, variation_id, tx_id,
+        budget_after, committed_after, disbursed_after, remaining_after, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+    [entryId, projectId, entry.entryType, amount, entry.milestoneId ?? null, entry.variationId ?? null, entry.txId ?? null,
+      position.budgetGBDC, position.committedGBDC, position.disbursedGBDC,
+      round(position.budgetGBDC - position.disbursedGBDC), entry.createdBy]
+  );
+  return entryId;
+}
+
+/**
+ * Open an approved project's budget ledger with its budget and one
+ * commitment per milestone
+ */
+export async function openBudget(client: PoolClient, projectId: string, createdBy: string): Promise<void> {
+  const project = await lockProject(client, projectId);
+  await postBudgetEntry(client, projectId, { entryType: 'BUDGET', amountGBDC: Number(project.budget_gbdc), createdBy });
+  const milestones = await client.query(
+    'SELECT milestone_id, amount_gbdc FROM project_milestones WHERE project_id = $1 ORDER BY created_at',
+    [projectId]
+  );
+  for (const milestone of milestones.rows) {
+    await postBudgetEntry(client, projectId, {
+      entryType: 'COMMITMENT',
+      amountGBDC: Number(milestone.amount_gbdc),
+      milestoneId: milestone.milestone_id,
+      createdBy,
+    });
+  }
+}
+
+/**
+ * Reserve budget for a direct payment against a verified milestone. The
+ * reservation is committed before the ledger payment is made, so a
+ * concurrent payment sees it; settle it with confirmDisbursement or
+ * cancelDisbursement. Returns the budget entry id.
+ */
+export async function reserveDisbursement(params: {
+  projectId: string;
+  milestoneId: string;
+  contractorId: string;
+  amountGBDC: number;
+  createdBy: string;
+}): Promise<string> {
+  return withTransaction(async (client) => {
+    const project = await lockProject(client, params.projectId);
+    if (!['APPROVED', 'IN_PROGRESS'].includes(project.status)) {
+      throw new AppError(`Project is ${project.status}`, 409, 'CONFLICT');
+    }
+    const milestone = await lockMilestone(client, params.projectId, params.milestoneId);
+    if (milestone.contractor_id !== params.contractorId) {
+      throw new AppError(`Milestone is contracted to ${milestone.contractor_id}`, 400, 'VALIDATION');
+    }
+    if (milestone.status !== 'VERIFIED') {
+      throw new AppError('Milestone must be VERIFIED by an independent inspector before disbursement', 409, 'CONFLICT');
+    }
+    const paid = round(Number(milestone.disbursed_gbdc) + params.amountGBDC);
+    if (paid > Number(milestone.amount_gbdc)) {
+      throw new AppError(
+        `Milestone amount of ${Number(milestone.amount_gbdc)} GHS would be exceeded: ${Number(milestone.disbursed_gbdc)} GHS already paid`,
+        409, 'BUDGET_EXCEEDED'
+      );
+    }
+
+    await client.query('UPDATE project_milestones SET disbursed_gbdc = $1 WHERE milestone_id = $2', [paid, params.milestoneId]);
+    return postBudgetEntry(client, params.projectId, {
+      entryType: 'DISBURSEMENT',
+      amountGBDC: params.amountGBDC,
+      milestoneId: params.milestoneId,
+      createdBy: params.createdBy,
+    });
+  });
+}
+
+/**
+ * Attach the ledger transaction that paid a reservation; a milestone paid
+ * in full is COMPLETED
+ */
+export async function confirmDisbursement(entryId: string, txId: string): Promise<void> {
+  await withTransaction(async (client) => {
+    const entry = await client.query(
+      'UPDATE project_budget_entries SET tx_id = $1 WHERE entry_id = $2 RETURNING project_id, milestone_id',
+      [txId, entryId]
+    );
+    const { project_id: projectId, milestone_id: milestoneId } = entry.rows[0];
+    await client.query(
+      `UPDATE project_milestones SET status = 'COMPLETED', completed_at = NOW()
+       WHERE milestone_id = $1 AND disbursed_gbdc >= amount_gbdc`,
+      [milestoneId]
+    );
+    await client.query(
+      "UPDATE government_projects SET status = 'IN_PROGRESS', updated_at = NOW() WHERE project_id = $1 AND status = 'APPROVED'",
+      [projectId]
+    );
+  });
+}
+
+/**
+ * Give back a reservation whose ledger payment failed
+ */
+export async function cancelDisbursement(entryId: string, createdBy: string): Promise<void> {
+  await withTransaction(async (client) => {
+    const entry = (await client.query('SELECT * FROM project_budget_entries WHERE entry_id = $1', [entryId])).rows[0];
+    const amount = Number(entry.amount_gbdc);
+    await lockProject(client, entry.project_id);
+    await client.query(
+      'UPDATE project_milestones SET disbursed_gbdc = disbursed_gbdc - $1 WHERE milestone_id = $2',
+      [amount, entry.milestone_id]
+    );
+    await postBudgetEntry(client, entry.project_id, {
+      entryType: 'DISBURSEMENT_REVERSAL',
+      amountGBDC: -amount,
+      milestoneId: entry.milestone_id,
+      createdBy,
+    });
+  });
+}
+
+/**
+ * Record an escrow release in the budget ledger. The ledger has already
+ * checked it against the escrow; recording is idempotent per transaction.
+ */
+export async function recordEscrowRelease(params: {
+  projectId: string;
+  milestoneId: string;
+  amountGBDC: number;
+  txId: string;
+}): Promise<void> {
+  await withTransaction(async (client) => {
+    await lockProject(client, params.projectId);
+    const seen = await client.query('SELECT 1 FROM project_budget_entries WHERE tx_id = $1', [params.txId]);
+    if (seen.rows.length > 0) return;
+
+    await client.query(
+      'UPDATE project_milestones SET disbursed_gbdc = disbursed_gbdc + $1 WHERE milestone_id = $2',
+      [params.amountGBDC, params.milestoneId]
+    );
+    await postBudgetEntry(client, params.projectId, {
+      entryType: 'DISBURSEMENT',
+      amountGBDC: params.amountGBDC,
+      milestoneId: params.milestoneId,
+      txId: params.txId,
+      createdBy: 'LEDGER',
+    });
+  });
+}
+
+/**
+ * Apply an approved variation order to the budget ledger and milestones.
+ * Increases are posted before decreases so the checks see the final budget.
+ */
+export async function applyVariation(client: PoolClient, variation: {
+  variationId: string;
+  projectId: string;
+  budgetDeltaGBDC: number;
+  milestones: NewMilestone[];
+  amendments: { milestoneId: string; amountGBDC: number }[];
+  createdBy: string;
+}): Promise<void> {
+  const { variationId, projectId, createdBy } = variation;
+  await lockProject(client, projectId);
+  if (variation.budgetDeltaGBDC > 0) {
+    await postBudgetEntry(client, projectId, { entryType: 'VARIATION', amountGBDC: variation.budgetDeltaGBDC, variationId, createdBy });
+  }
+
+  const changes: { milestoneId: string; amountGBDC: number; change: number }[] = [];
+  for (const amendment of variation.amendments) {
+    const milestone = await lockMilestone(client, projectId, amendment.milestoneId);
+    if (['RELEASED', 'REFUNDED', 'COMPLETED'].includes(milestone.status)) {
+      throw new AppError(`Milestone ${amendment.milestoneId} is ${milestone.status}`, 409, 'CONFLICT');
+    }
+    if (amendment.amountGBDC < Number(milestone.disbursed_gbdc)) {
+      throw new AppError(`Milestone ${amendment.milestoneId} has already been paid ${Number(milestone.disbursed_gbdc)} GHS`, 409, 'BUDGET_EXCEEDED');
+    }
+    changes.push({ ...amendment, change: round(amendment.amountGBDC - Number(milestone.amount_gbdc)) });
+  }
+  for (const { milestoneId, amountGBDC, change } of changes.sort((a, b) => a.change - b.change)) {
+    await client.query('UPDATE project_milestones SET amount_gbdc = $1 WHERE milestone_id = $2', [amountGBDC, milestoneId]);
+    await postBudgetEntry(client, projectId, { entryType: 'COMMITMENT', amountGBDC: change, milestoneId, variationId, createdBy });
+  }
+
+  for (const milestone of variation.milestones) {
+    await client.query(
+      `INSERT INTO project_milestones (milestone_id, project_id, description, amount_gbdc, contractor_id, status, release_conditions)
+       VALUES ($1, $2, $3, $4, $5, 'PENDING', $6)`,
+      [milestone.milestoneId, projectId, milestone.description ?? '', milestone.amountGBDC, milestone.contractorId, JSON.stringify(milestone.conditions)]
+    );
+    await postBudgetEntry(client, projectId, {
+      entryType: 'COMMITMENT',
+      amountGBDC: milestone.amountGBDC,
+      milestoneId: milestone.milestoneId,
+      variationId,
+      createdBy,
+    });
+  }
+
+  if (variation.budgetDeltaGBDC < 0) {
+    await postBudgetEntry(client, projectId, { entryType: 'VARIATION', amountGBDC: variation.budgetDeltaGBDC, variationId, createdBy });
+  }
+}
+
+/**
+ * A project's budget position and its ledger entries, oldest first
+ */
+export async function getBudget(projectId: string): Promise<BudgetPosition & { entries: any[] }> {
+  const project = await query('SELECT * FROM government_projects WHERE project_id = $1', [projectId]);
+  if (project.rows.length === 0) throw new AppError('Project not found', 404, 'NOT_FOUND');
+  const entries = await query('SELECT * FROM project_budget_entries WHERE project_id = $1 ORDER BY created_at', [projectId]);
+  return { ...toPosition(project.rows[0] as ProjectRow), entries: entries.rows };
+}
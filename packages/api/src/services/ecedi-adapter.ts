@@ -0,0 +1,194 @@
+/**
+ * GOVRES — eCedi Gateway Adapter
+ *
+ * The eCedi side of a bridge transfer, behind a two-phase interface:
+ * prepare a transfer to or from a wallet, then commit or abort it. Every
+ * call carries the bridge transfer's id as its reference, so a repeated
+ * call is answered with the transfer as it stands rather than acted on
+ * twice. The gateway is configured from ECEDI_GATEWAY_URL, which may
+ * point at the eCedi sandbox; without one an in-memory mock stands in.
+ */
+
+import crypto from 'crypto';
+import { SYSTEM } from '@govres/shared';
+import { BridgeDirection } from '@govres/ledger';
+
+export type ECediTransferState = 'PREPARED' | 'COMMITTED' | 'ABORTED' | 'REJECTED' | 'UNKNOWN';
+
+export interface ECediTransferStatus {
+  state: ECediTransferState;
+  /** eCedi's own id for the transfer, once prepared */
+  ecediTxId?: string;
+  reason?: string;
+}
+
+export interface ECediTransferRequest {
+  /** Bridge transfer id, reused on every call about the transfer */
+  reference: string;
+  /** GBDC_TO_ECEDI credits the wallet with eCedi; ECEDI_TO_GBDC debits it */
+  direction: BridgeDirection;
+  wallet: string;
+  amountCedi: number;
+}
+
+export interface ECediAdapter {
+  /** First phase: reserve the wallet leg; REJECTED when eCedi will not take part */
+  prepareTransfer(request: ECediTransferRequest): Promise<ECediTransferStatus>;
+  commitTransfer(reference: string): Promise<ECediTransferStatus>;
+  /** Release a prepared transfer; aborting one never prepared is not an error */
+  abortTransfer(reference: string): Promise<ECediTransferStatus>;
+  /** The transfer as eCedi has it; UNKNOWN if it never reached eCedi */
+  getTransfer(reference: string): Promise<ECediTransferStatus>;
+}
+
+/**
+ * A gateway request that failed. Retryable failures (timeouts, network
+ * errors, throttling and server errors) leave the transfer where it was.
+ */
+export class ECediGatewayError extends Error {
+  public retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.retryable = retryable;
+    Object.setPrototypeOf(this, ECediGatewayError.prototype);
+  }
+}
+
+// ─── eCedi Gateway ──────────────────────────────────────────
+
+const NOT_FOUND = 404;
+
+/* eCedi interoperability gateway: API-key authenticated, transfers keyed by our reference */
+export class HttpECediAdapter implements ECediAdapter {
+  constructor(private config: { baseUrl: string; apiKey: string }) {}
+
+  async prepareTransfer(transfer: ECediTransferRequest): Promise<ECediTransferStatus> {
+    const { body } = await this.request('POST', '/v1/transfers', {
+      reference: transfer.reference,
+      type: transfer.direction === 'GBDC_TO_ECEDI' ? 'ISSUE' : 'REDEEM',
+      wallet: transfer.wallet,
+      amount: transfer.amountCedi.toFixed(2),
+      currency: 'GHS',
+    });
+    return ecediStatus(body);
+  }
+
+  async commitTransfer(reference: string): Promise<ECediTransferStatus> {
+    const { body } = await this.request('POST', `/v1/transfers/${reference}/commit`, {});
+    return ecediStatus(body);
+  }
+
+  async abortTransfer(reference: string): Promise<ECediTransferStatus> {
+    const { status, body } = await this.request('POST', `/v1/transfers/${reference}/abort`, {});
+    return status === NOT_FOUND ? { state: 'UNKNOWN' } : ecediStatus(body);
+  }
+
+  async getTransfer(reference: string): Promise<ECediTransferStatus> {
+    const { status, body } = await this.request('GET', `/v1/transfers/${reference}`);
+    return status === NOT_FOUND ? { state: 'UNKNOWN' } : ecediStatus(body);
+  }
+
+  private async request(method: string, path: string, payload?: unknown): Promise<{ status: number; body: any }> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}${path}`, {
+        method,
+        headers: { 'X-Api-Key': this.config.apiKey, 'Content-Type': 'application/json' },
+        body: payload === undefined ? undefined : JSON.stringify(payload),
+        signal: AbortSignal.timeout(SYSTEM.ECEDI_REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new ECediGatewayError(`eCedi gateway unreachable: ${(error as Error).message}`, true);
+    }
+    const text = await response.text();
+    let body: any;
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      body = { message: text };
+    }
+    if (response.ok || response.status === NOT_FOUND) return { status: response.status, body };
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new ECediGatewayError(`eCedi gateway returned ${response.status}: ${body.message ?? text}`, retryable);
+  }
+}
+
+function ecediStatus(body: any): ECediTransferStatus {
+  const states: ECediTransferState[] = ['PREPARED', 'COMMITTED', 'ABORTED', 'REJECTED'];
+  const state = states.includes(body.status) ? body.status as ECediTransferState : 'UNKNOWN';
+  return { state, ecediTxId: body.transactionId, reason: body.reason ?? body.message };
+}
+
+// ─── Local Mock ─────────────────────────────────────────────
+
+/**
+ * In-memory stand-in for the gateway, for running the bridge without
+ * eCedi. Outcomes are picked by the wallet:
+ *
+ *   ...0  the transfer is rejected (wallet not found)
+ *   ...9  the gateway is down for the first call about a transfer
+ *
+ * Other wallets prepare and commit.
+ */
+export class MockECediAdapter implements ECediAdapter {
+  private transfers = new Map<string, ECediTransferStatus & { wallet: string }>();
+  private unavailable = new Set<string>();
+
+  async prepareTransfer(transfer: ECediTransferRequest): Promise<ECediTransferStatus> {
+    const existing = this.transfers.get(transfer.reference);
+    if (existing) return status(existing);
+    if (transfer.wallet.endsWith('9') && !this.unavailable.has(transfer.reference)) {
+      this.unavailable.add(transfer.reference);
+      throw new ECediGatewayError('eCedi gateway returned 503: Service unavailable', true);
+    }
+    const prepared = transfer.wallet.endsWith('0')
+      ? { state: 'REJECTED' as const, wallet: transfer.wallet, reason: `eCedi wallet ${transfer.wallet} not found` }
+      : { state: 'PREPARED' as const, wallet: transfer.wallet, ecediTxId: `ECEDI-${crypto.randomBytes(6).toString('hex').toUpperCase()}` };
+    this.transfers.set(transfer.reference, prepared);
+    return status(prepared);
+  }
+
+  async commitTransfer(reference: string): Promise<ECediTransferStatus> {
+    const transfer = this.transfers.get(reference);
+    if (!transfer || (transfer.state !== 'PREPARED' && transfer.state !== 'COMMITTED')) {
+      throw new ECediGatewayError(`eCedi transfer ${reference} is not prepared`, false);
+    }
+    transfer.state = 'COMMITTED';
+    return status(transfer);
+  }
+
+  async abortTransfer(reference: string): Promise<ECediTransferStatus> {
+    const transfer = this.transfers.get(reference);
+    if (!transfer) return { state: 'UNKNOWN' };
+    if (transfer.state === 'COMMITTED') throw new ECediGatewayError(`eCedi transfer ${reference} is already committed`, false);
+    if (transfer.state === 'PREPARED') transfer.state = 'ABORTED';
+    return status(transfer);
+  }
+
+  async getTransfer(reference: string): Promise<ECediTransferStatus> {
+    const transfer = this.transfers.get(reference);
+    return transfer ? status(transfer) : { state: 'UNKNOWN' };
+  }
+}
+
+function status(transfer: ECediTransferStatus & { wallet: string }): ECediTransferStatus {
+  return { state: transfer.state, ecediTxId: transfer.ecediTxId, reason: transfer.reason };
+}
+
+// ─── Registry ───────────────────────────────────────────────
+
+let adapter: ECediAdapter | undefined;
+
+/**
+ * The eCedi gateway, configured from the environment
+ */
+export function getECediAdapter(): ECediAdapter {
+  if (!adapter) {
+    const env = process.env;
+    adapter = env.ECEDI_GATEWAY_URL
+      ? new HttpECediAdapter({ baseUrl: env.ECEDI_GATEWAY_URL.replace(/\/$/, ''), apiKey: env.ECEDI_API_KEY || '' })
+      : new MockECediAdapter();
+  }
+  return adapter;
+}
@@ -0,0 +1,271 @@
+/**
+ * GOVRES — eCedi Bridge Service Tests
+ * Two-phase commit and rollback of bridge transfers, and their recovery
+ * and reconciliation by bridge runs, against a ledger engine, the mock
+ * eCedi gateway and an in-memory stand-in for ecedi_transactions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ERROR_CODES, SYSTEM, UserRole } from '@govres/shared';
+import { BridgeDirection, ECEDI_FLOAT_ACCOUNT, LedgerEngine } from '@govres/ledger';
+
+const db = vi.hoisted(() => ({
+  transfers: new Map<string, any>(),
+  steps: [] as { tx_id: string; transfer_id: string; step: string }[],
+  reconciliations: [] as any[],
+  engine: undefined as any,
+}));
+
+vi.mock('../database/connection', () => {
+  const query = async (text: string, params: any[] = []) => {
+    const sql = text.replace(/\s+/g, ' ').trim();
+    const rows = (list: any[]) => ({ rows: list.map(row => ({ ...row })), rowCount: list.length });
+    const all = [...db.transfers.values()];
+    const update = (transferId: string, changes: Record<string, unknown>) => {
+      const row = db.transfers.get(transferId);
+      Object.assign(row, changes, { updated_at: new Date() });
+      return rows([row]);
+    };
+
+    if (sql.startsWith('INSERT INTO ecedi_transactions')) {
+      const [transfer_id, account_id, ecedi_wallet, amount_cedi, direction, requested_by] = params;
+      db.transfers.set(transfer_id, {
+        transfer_id, ecedi_tx_id: null, govres_tx_id: null, settlement_tx_id: null, account_id, ecedi_wallet, amount_cedi: String(amount_cedi),
+        direction, status: 'PENDING', failure_reason: null, last_error: null, proof_hash: null, requested_by, mismatch: null,
+        reconciled_at: null, created_at: new Date(), updated_at: new Date(), completed_at: null,
+      });
+      return rows([]);
+    }
+    if (sql.startsWith('SELECT * FROM ecedi_transactions WHERE transfer_id = $1')) return rows(all.filter(row => row.transfer_id === params[0]));
+    if (sql.startsWith('SELECT transfer_id FROM ecedi_transactions WHERE status = ANY($1) AND updated_at < $2')) {
+      return rows(all.filter(row => params[0].includes(row.status) && row.updated_at < params[1]));
+    }
+    if (sql.startsWith("UPDATE ecedi_transactions SET status = 'LOCKED', govres_tx_id = $1")) {
+      return update(params[1], { status: 'LOCKED', govres_tx_id: params[0] });
+    }
+    if (sql.startsWith('UPDATE ecedi_transactions SET status = $1, failure_reason = $2,')) {
+      const [status, reason, ecediTxId, transferId] = params;
+      const row = db.transfers.get(transferId);
+      return update(transferId, { status, failure_reason: reason, ecedi_tx_id: ecediTxId ?? row.ecedi_tx_id, last_error: null });
+    }
+    if (sql.startsWith('UPDATE ecedi_transactions SET status = $1, failure_reason = COALESCE($2, failure_reason)')) {
+      const [status, reason, ecediTxId, settlementTxId, proofHash, transferId] = params;
+      const row = db.transfers.get(transferId);
+      return update(transferId, {
+        status, failure_reason: reason ?? row.failure_reason, ecedi_tx_id: ecediTxId ?? row.ecedi_tx_id,
+        settlement_tx_id: settlementTxId ?? row.settlement_tx_id, proof_hash: proofHash, last_error: null, completed_at: new Date(),
+      });
+    }
+    if (sql.startsWith('UPDATE ecedi_transactions SET settlement_tx_id = $1')) return update(params[1], { settlement_tx_id: params[0] });
+    if (sql.startsWith('UPDATE ecedi_transactions SET last_error = $1')) return update(params[1], { last_error: params[0] });
+    if (sql.startsWith('SELECT * FROM ecedi_transactions WHERE transfer_id IS NOT NULL AND (reconciled_at IS NULL')) {
+      return rows(all.filter(row => !row.reconciled_at || row.mismatch || row.updated_at > row.reconciled_at));
+    }
+    if (sql.startsWith('UPDATE ecedi_transactions SET mismatch = $1')) {
+      const row = db.transfers.get(params[2]);
+      Object.assign(row, { mismatch: params[0], reconciled_at: params[1] ? new Date() : row.reconciled_at });
+      return rows([]);
+    }
+    if (sql.startsWith("SELECT tx_data->>'transferId' AS transfer_id, tx_data->>'bridge' AS step FROM ledger_transactions")) {
+      return rows(db.steps.filter(step => params[0].includes(step.transfer_id)));
+    }
+    if (sql.startsWith("SELECT tx_id FROM ledger_transactions WHERE tx_data->>'transferId' = $1 AND tx_data->>'bridge' = $2")) {
+      return rows(db.steps.filter(step => step.transfer_id === params[0] && step.step === params[1]));
+    }
+    if (sql.startsWith("SELECT DISTINCT tx_data->>'transferId' AS transfer_id FROM ledger_transactions")) {
+      return rows(db.steps.filter(step => !db.transfers.has(step.transfer_id)));
+    }
+    if (sql.startsWith('SELECT COALESCE(SUM(CASE')) {
+      const expected = all.reduce((sum, row) => {
+        if (row.direction === 'GBDC_TO_ECEDI') {
+          return ['COMMITTING', 'COMPLETED'].includes(row.status) && row.settlement_tx_id ? sum + Number(row.amount_cedi) : sum;
+        }
+        const rolledBack = ['ROLLING_BACK', 'FAILED'].includes(row.status) && row.settlement_tx_id;
+        return row.govres_tx_id && !rolledBack ? sum - Number(row.amount_cedi) : sum;
+      }, 0);
+      return rows([{ expected_float: String(expected) }]);
+    }
+    if (sql.startsWith('INSERT INTO ecedi_reconciliations')) {
+      db.reconciliations.push({ run_id: params[0], status: params[5] });
+      return rows([]);
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+  return { query, withTransaction: (fn: (client: unknown) => Promise<unknown>) => fn({ query }) };
+});
+
+vi.mock('../utils/logger', () => ({ logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } }));
+
+vi.mock('./ledger', () => ({
+  getLedger: async () => db.engine,
+  ensureAccounts: async () => undefined,
+  submit: async (operation: (engine: LedgerEngine) => string) => {
+    const txId = operation(db.engine);
+    return { result: txId, txId, blockHeight: 1 };
+  },
+}));
+
+import { ECediGatewayError, getECediAdapter } from './ecedi-adapter';
+import { bridgeFailedError, runEcediBridge, startBridgeTransfer } from './ecedi-bridge';
+
+const balance = (account: string) => db.engine.getAccountBalance(account)?.gbdcBalance ?? 0;
+const stepsOf = (transferId: string) => db.steps.filter(step => step.transfer_id === transferId).map(step => step.step);
+const bridge = (direction: BridgeDirection, amountCedi: number, wallet = 'WALLET-1') =>
+  startBridgeTransfer({ direction, accountId: 'BANK-A', wallet, amountCedi, requestedBy: 'BANK-A' });
+/* Move the clock past the prepare timeout, after which in-flight transfers are resumed */
+const pastPrepareTimeout = () => vi.setSystemTime(Date.now() + SYSTEM.ECEDI_PREPARE_TIMEOUT_MS + 1_000);
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  db.transfers.clear();
+  db.steps.length = 0;
+  db.reconciliations.length = 0;
+  const engine = new LedgerEngine('BOG-NODE-TEST');
+  await engine.initialize();
+  engine.registerAccount('BANK-A', UserRole.COMMERCIAL_BANK);
+  engine.registerGoldReserve(1_000_000, 'gold-attest');
+  engine.mintGBDC({
+    amountCedi: 100_000,
+    goldBackingGrams: 2_000,
+    goldPricePerGramUSD: 80,
+    exchangeRateUSDGHS: 15,
+    issuanceId: 'ISS-E1',
+    issuedBy: 'BOG_TREASURY',
+  });
+  engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 500, description: 'Liquidity' });
+  engine.on('bridge:step', (event: { transferId: string; step: string; txId: string }) => {
+    db.steps.push({ tx_id: event.txId, transfer_id: event.transferId, step: event.step });
+  });
+  db.engine = engine;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+// ─── Commit ─────────────────────────────────────────────
+
+describe('startBridgeTransfer commit', () => {
+  it('locks the GBDC, has eCedi prepare and commit, and moves the GBDC to the float', async () => {
+    const transfer = await bridge('GBDC_TO_ECEDI', 400);
+
+    expect(transfer).toMatchObject({ status: 'COMPLETED', failure_reason: null, ecedi_tx_id: expect.stringMatching(/^ECEDI-/) });
+    expect(transfer.proof_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(stepsOf(transfer.transfer_id)).toEqual(['LOCK', 'COMMIT']);
+    expect(transfer.govres_tx_id).toBe(db.steps[0].tx_id);
+    expect(transfer.settlement_tx_id).toBe(db.steps[1].tx_id);
+    expect(balance('BANK-A')).toBe(100);
+    expect(balance(ECEDI_FLOAT_ACCOUNT)).toBe(400);
+    expect(db.engine.getBridgeLock(transfer.transfer_id)).toBe(0);
+    expect(await getECediAdapter().getTransfer(transfer.transfer_id)).toMatchObject({ state: 'COMMITTED', ecediTxId: transfer.ecedi_tx_id });
+  });
+
+  it('brings eCedi back into GBDC out of the float', async () => {
+    await bridge('GBDC_TO_ECEDI', 400);
+    const back = await bridge('ECEDI_TO_GBDC', 150);
+
+    expect(back.status).toBe('COMPLETED');
+    expect(balance('BANK-A')).toBe(250);
+    expect(balance(ECEDI_FLOAT_ACCOUNT)).toBe(250);
+    expect((await runEcediBridge()).reconciliation).toMatchObject({ transfersChecked: 2, floatBalanceCedi: 250, expectedFloatCedi: 250, mismatches: [] });
+  });
+
+  it('refuses a transfer the bank cannot cover before anything is locked', async () => {
+    await expect(bridge('GBDC_TO_ECEDI', 500.01)).rejects.toThrow();
+    const [transfer] = db.transfers.values();
+
+    expect(transfer.status).toBe('FAILED');
+    expect(db.steps).toEqual([]);
+    expect(balance('BANK-A')).toBe(500);
+  });
+});
+
+// ─── Abort ──────────────────────────────────────────────
+
+describe('startBridgeTransfer abort', () => {
+  it('rolls the locked GBDC back to the bank when eCedi rejects the transfer', async () => {
+    const transfer = await bridge('GBDC_TO_ECEDI', 400, 'WALLET-10');
+
+    expect(transfer).toMatchObject({ status: 'FAILED', failure_reason: 'eCedi wallet WALLET-10 not found', proof_hash: null });
+    expect(stepsOf(transfer.transfer_id)).toEqual(['LOCK', 'ROLLBACK']);
+    expect(balance('BANK-A')).toBe(500);
+    expect(balance(ECEDI_FLOAT_ACCOUNT)).toBe(0);
+    expect(bridgeFailedError(transfer)).toMatchObject({ statusCode: 422, code: ERROR_CODES.ECEDI_TRANSFER_FAILED });
+  });
+
+  it('aborts the eCedi leg it prepared when the prepare cannot be read back', async () => {
+    const adapter = getECediAdapter();
+    const prepareTransfer = adapter.prepareTransfer.bind(adapter);
+    vi.spyOn(adapter, 'prepareTransfer').mockImplementationOnce(async request => {
+      await prepareTransfer(request);
+      throw new ECediGatewayError('eCedi gateway returned 400: malformed transfer', false);
+    });
+
+    const transfer = await bridge('GBDC_TO_ECEDI', 400);
+
+    expect(transfer).toMatchObject({ status: 'FAILED', failure_reason: 'eCedi gateway returned 400: malformed transfer' });
+    expect(await adapter.getTransfer(transfer.transfer_id)).toMatchObject({ state: 'ABORTED' });
+    expect(stepsOf(transfer.transfer_id)).toEqual(['LOCK', 'ROLLBACK']);
+    expect(balance('BANK-A')).toBe(500);
+    expect((await runEcediBridge()).reconciliation.mismatches).toEqual([]);
+  });
+});
+
+// ─── Recovery and Reconciliation ────────────────────────
+
+describe('runEcediBridge', () => {
+  it('leaves an unanswered prepare until the timeout, then rolls it back when eCedi never prepared it', async () => {
+    const transfer = await bridge('GBDC_TO_ECEDI', 400, 'WALLET-19');
+    expect(transfer).toMatchObject({ status: 'LOCKED', last_error: 'eCedi gateway returned 503: Service unavailable' });
+    expect(balance('BANK-A')).toBe(100);
+
+    const early = await runEcediBridge();
+    expect(early).toMatchObject({ resumed: 0, reconciliation: { mismatches: [] } });
+
+    pastPrepareTimeout();
+    const late = await runEcediBridge();
+
+    expect(late).toMatchObject({ resumed: 1, completed: 0, failed: 1, reconciliation: { mismatches: [] } });
+    expect(db.transfers.get(transfer.transfer_id)).toMatchObject({ status: 'FAILED', failure_reason: 'eCedi did not prepare in time' });
+    expect(stepsOf(transfer.transfer_id)).toEqual(['LOCK', 'ROLLBACK']);
+    expect(balance('BANK-A')).toBe(500);
+  });
+
+  it('carries out a commit decision once the gateway can be reached again', async () => {
+    const adapter = getECediAdapter();
+    const commitTransfer = vi.spyOn(adapter, 'commitTransfer').mockRejectedValue(new ECediGatewayError('eCedi gateway timed out', true));
+
+    const transfer = await bridge('GBDC_TO_ECEDI', 400);
+    expect(transfer).toMatchObject({ status: 'COMMITTING', last_error: 'eCedi gateway timed out' });
+    // The ledger side of the decision is already carried out
+    expect(balance(ECEDI_FLOAT_ACCOUNT)).toBe(400);
+
+    // Still unreachable: the decision stands and the commit is tried again by the next run
+    pastPrepareTimeout();
+    expect(await runEcediBridge()).toMatchObject({ resumed: 1, completed: 0, failed: 0 });
+    expect(db.transfers.get(transfer.transfer_id)).toMatchObject({ status: 'COMMITTING', last_error: 'eCedi gateway timed out' });
+    expect(commitTransfer).toHaveBeenCalledTimes(2);
+
+    commitTransfer.mockRestore();
+    pastPrepareTimeout();
+    const recovered = await runEcediBridge();
+
+    expect(recovered).toMatchObject({ resumed: 1, completed: 1, reconciliation: { floatBalanceCedi: 400, expectedFloatCedi: 400, mismatches: [] } });
+    expect(db.transfers.get(transfer.transfer_id)).toMatchObject({ status: 'COMPLETED', mismatch: null, last_error: null });
+    expect(stepsOf(transfer.transfer_id)).toEqual(['LOCK', 'COMMIT']);
+    expect(await adapter.getTransfer(transfer.transfer_id)).toMatchObject({ state: 'COMMITTED' });
+  });
+
+  it('flags a finished transfer whose eCedi leg does not match its outcome', async () => {
+    const transfer = await bridge('GBDC_TO_ECEDI', 400);
+    await runEcediBridge();
+    vi.spyOn(getECediAdapter(), 'getTransfer').mockResolvedValue({ state: 'ABORTED' });
+    db.transfers.get(transfer.transfer_id).updated_at = new Date(Date.now() + 1);
+
+    const run = await runEcediBridge();
+
+    expect(run.reconciliation.mismatches).toEqual([{ transferId: transfer.transfer_id, issue: 'COMPLETED but eCedi reports ABORTED' }]);
+    expect(db.transfers.get(transfer.transfer_id).mismatch).toBe('COMPLETED but eCedi reports ABORTED');
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * GOVRES — eCedi Bridge Service
+ *
+ * Moves GBDC to and from eCedi under two-phase commit, with the ledger
+ * and the eCedi gateway as participants. A transfer is recorded PENDING,
+ * its GBDC leg is locked on the ledger (LOCKED) and the gateway is asked
+ * to prepare the wallet leg. The decision is recorded before either side
+ * acts on it: COMMITTING once eCedi has prepared, ROLLING_BACK when it
+ * rejects the transfer. Both sides then commit, or roll back and abort,
+ * and the transfer ends COMPLETED or FAILED. Every step is safe to
+ * repeat, so a transfer left part way by a crash or an unreachable
+ * gateway is finished by a later bridge run: a recorded decision is
+ * carried out, and a transfer stalled before eCedi prepared is settled by
+ * what the gateway reports, or rolled back once the prepare timeout has
+ * passed without an answer.
+ *
+ * Each run then reconciles ecedi_transactions with the ledger and the
+ * gateway. A finished transfer must have the ledger steps and eCedi
+ * state its outcome implies and no GBDC left locked, and the bridge float
+ * must hold what the transfers add up to. Mismatches are flagged on their
+ * transfers and recorded with the run.
+ */
+
+import crypto from 'crypto';
+import { ERROR_CODES, SYSTEM } from '@govres/shared';
+import { BridgeDirection, BridgeStep, BridgeTransfer, ECEDI_FLOAT_ACCOUNT } from '@govres/ledger';
+import { query } from '../database/connection';
+import { EcediTransferRow, EcediTransferStatus } from '../database/rows';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { ensureAccounts, getLedger, submit } from './ledger';
+import { ECediGatewayError, ECediTransferStatus, getECediAdapter } from './ecedi-adapter';
+
+export interface EcediMismatch {
+  /* Unset for findings about the float as a whole */
+  transferId?: string;
+  issue: string;
+}
+
+export interface EcediReconciliation {
+  runId: string;
+  transfersChecked: number;
+  floatBalanceCedi: number;
+  expectedFloatCedi: number;
+  mismatches: EcediMismatch[];
+}
+
+export interface EcediBridgeRun {
+  resumed: number;
+  completed: number;
+  failed: number;
+  reconciliation: EcediReconciliation;
+}
+
+/* Statuses of a transfer between its two phases */
+const IN_FLIGHT: EcediTransferStatus[] = ['PENDING', 'LOCKED', 'COMMITTING', 'ROLLING_BACK'];
+
+/* Work on one transfer at a time, so a request and a bridge run cannot both carry it forward */
+const transfersInFlight = new Map<string, Promise<unknown>>();
+let runInFlight: Promise<EcediBridgeRun> | undefined;
+let bridgeTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Move GBDC between a commercial bank and an eCedi wallet. Refusals by
+ * the ledger, such as a balance that does not cover the transfer, are
+ * thrown before anything is locked. Returns the transfer as it stands
+ * once both phases have run, or as far as they got.
+ */
+export async function startBridgeTransfer(params: {
+  direction: BridgeDirection;
+  accountId: string;
+  wallet: string;
+  amountCedi: number;
+  requestedBy: string;
+}): Promise<EcediTransferRow> {
+  await ensureAccounts(params.accountId);
+  const transferId = newId('BRG');
+  await query(
+    `INSERT INTO ecedi_transactions (transfer_id, account_id, ecedi_wallet, amount_cedi, direction, status, requested_by)
+     VALUES ($1, $2, $3, $4, $5, 'PENDING', $6)`,
+    [transferId, params.accountId, params.wallet, params.amountCedi, params.direction, params.requestedBy]
+  );
+
+  return serialised(transferId, async () => {
+    const transfer = await getTransfer(transferId);
+    let lockTxId: string;
+    try {
+      ({ txId: lockTxId } = await submit(engine => engine.lockBridgeTransfer(toLedger(transfer)), { channel: 'ECEDI' }));
+    } catch (error) {
+      // Left PENDING if the lock went through after all; a bridge run picks it up
+      if ((await getLedger()).getBridgeLock(transferId) === 0) await finish(transfer, 'FAILED', (error as Error).message);
+      throw error;
+    }
+    const locked = await query(
+      `UPDATE ecedi_transactions SET status = 'LOCKED', govres_tx_id = $1, updated_at = NOW() WHERE transfer_id = $2 RETURNING *`,
+      [lockTxId, transferId]
+    );
+    return advance(locked.rows[0], false);
+  });
+}
+
+/**
+ * Finish transfers stalled between phases, then reconcile the bridge. A
+ * call while a run is in progress joins it.
+ */
+export function runEcediBridge(): Promise<EcediBridgeRun> {
+  if (!runInFlight) {
+    runInFlight = processBridge().finally(() => { runInFlight = undefined; });
+  }
+  return runInFlight;
+}
+
+/**
+ * Start running the eCedi bridge on a timer
+ */
+export function startEcediBridge(intervalMs: number = SYSTEM.ECEDI_RECONCILE_INTERVAL_MS): void {
+  if (bridgeTimer) return;
+  bridgeTimer = setInterval(() => {
+    runEcediBridge()
+      .then(run => {
+        if (run.resumed > 0) logger.info('Resumed eCedi bridge transfers', { resumed: run.resumed, completed: run.completed, failed: run.failed });
+      })
+      .catch(error => logger.error('eCedi bridge run failed', { error: error instanceof Error ? error.message : String(error) }));
+  }, intervalMs);
+}
+
+/**
+ * The error reporting a transfer that ended FAILED
+ */
+export function bridgeFailedError(transfer: EcediTransferRow): AppError {
+  return new AppError(`eCedi transfer ${transfer.transfer_id} failed: ${transfer.failure_reason}`, 422, ERROR_CODES.ECEDI_TRANSFER_FAILED);
+}
+
+async function processBridge(): Promise<EcediBridgeRun> {
+  const stalled = await query(
+    `SELECT transfer_id FROM ecedi_transactions WHERE status = ANY($1) AND updated_at < $2 ORDER BY created_at`,
+    [IN_FLIGHT, new Date(Date.now() - SYSTEM.ECEDI_PREPARE_TIMEOUT_MS)]
+  );
+  let resumed = 0;
+  let completed = 0;
+  let failed = 0;
+  for (const { transfer_id: transferId } of stalled.rows) {
+    try {
+      const transfer = await serialised(transferId, async () => {
+        const current = await getTransfer(transferId);
+        // A request may have finished it since the query
+        return IN_FLIGHT.includes(current.status) ? advance(current, true) : current;
+      });
+      resumed++;
+      if (transfer.status === 'COMPLETED') completed++;
+      if (transfer.status === 'FAILED') failed++;
+    } catch (error) {
+      await noteError(transferId, (error as Error).message);
+      logger.error('eCedi bridge transfer could not be resumed', { transferId, error: (error as Error).message });
+    }
+  }
+  return { resumed, completed, failed, reconciliation: await reconcile() };
+}
+
+// ─── Two-Phase Commit ───────────────────────────────────────
+
+/*
+ * Carry a transfer forward from where it stands. A resumed transfer asks
+ * the gateway what became of its prepare rather than sending it again.
+ */
+async function advance(transfer: EcediTransferRow, resumed: boolean): Promise<EcediTransferRow> {
+  if (transfer.status === 'PENDING') transfer = await recoverLock(transfer);
+  if (transfer.status === 'LOCKED') transfer = await prepare(transfer, resumed);
+  if (transfer.status === 'COMMITTING') transfer = await commit(transfer);
+  if (transfer.status === 'ROLLING_BACK') transfer = await rollBack(transfer);
+  return transfer;
+}
+
+/* A transfer left PENDING stopped around its lock: go on if the lock went through, otherwise fail it */
+async function recoverLock(transfer: EcediTransferRow): Promise<EcediTransferRow> {
+  if ((await getLedger()).getBridgeLock(transfer.transfer_id) === 0) return finish(transfer, 'FAILED', 'GBDC was never locked');
+  const lockTxId = await findLedgerStep(transfer.transfer_id, 'LOCK');
+  const locked = await query(
+    `UPDATE ecedi_transactions SET status = 'LOCKED', govres_tx_id = $1, updated_at = NOW() WHERE transfer_id = $2 RETURNING *`,
+    [lockTxId, transfer.transfer_id]
+  );
+  return locked.rows[0];
+}
+
+/* First phase on the eCedi side, ending in the decision */
+async function prepare(transfer: EcediTransferRow, resumed: boolean): Promise<EcediTransferRow> {
+  const adapter = getECediAdapter();
+  let status: ECediTransferStatus;
+  try {
+    status = resumed
+      ? await adapter.getTransfer(transfer.transfer_id)
+      : await adapter.prepareTransfer({
+        reference: transfer.transfer_id,
+        direction: transfer.direction,
+        wallet: transfer.ecedi_wallet,
+        amountCedi: Number(transfer.amount_cedi),
+      });
+  } catch (error) {
+    const message = (error as Error).message;
+    // Unanswered prepares are asked about once the timeout passes, then given up on
+    if (error instanceof ECediGatewayError && error.retryable && !resumed) return noteError(transfer.transfer_id, message);
+    return decide(transfer, 'ROLLING_BACK', resumed ? `eCedi did not prepare in time: ${message}` : message);
+  }
+
+  switch (status.state) {
+    case 'PREPARED':
+    case 'COMMITTED':
+      return decide(transfer, 'COMMITTING', undefined, status.ecediTxId);
+    case 'UNKNOWN':
+      return decide(transfer, 'ROLLING_BACK', resumed ? 'eCedi did not prepare in time' : 'eCedi did not recognise the transfer');
+    default:
+      return decide(transfer, 'ROLLING_BACK', status.reason ?? `eCedi ${status.state.toLowerCase()} the transfer`);
+  }
+}
+
+async function decide(transfer: EcediTransferRow, decision: 'COMMITTING' | 'ROLLING_BACK', reason?: string, ecediTxId?: string): Promise<EcediTransferRow> {
+  const decided = await query(
+    `UPDATE ecedi_transactions SET status = $1, failure_reason = $2, ecedi_tx_id = COALESCE($3, ecedi_tx_id), last_error = NULL, updated_at = NOW()
+     WHERE transfer_id = $4 RETURNING *`,
+    [decision, reason ?? null, ecediTxId ?? null, transfer.transfer_id]
+  );
+  logger.info('eCedi bridge transfer decided', { transferId: transfer.transfer_id, decision, reason });
+  return decided.rows[0];
+}
+
+/* Second phase: GBDC to its destination, then the eCedi leg; a gateway that cannot be reached is retried by the next run */
+async function commit(transfer: EcediTransferRow): Promise<EcediTransferRow> {
+  const settlementTxId = transfer.settlement_tx_id ?? await settleOnLedger(transfer, 'COMMIT');
+  let status: ECediTransferStatus;
+  try {
+    status = await getECediAdapter().commitTransfer(transfer.transfer_id);
+  } catch (error) {
+    return noteError(transfer.transfer_id, (error as Error).message);
+  }
+  return finish({ ...transfer, settlement_tx_id: settlementTxId, ecedi_tx_id: status.ecediTxId ?? transfer.ecedi_tx_id }, 'COMPLETED');
+}
+
+async function rollBack(transfer: EcediTransferRow): Promise<EcediTransferRow> {
+  if (!transfer.settlement_tx_id) await settleOnLedger(transfer, 'ROLLBACK');
+  try {
+    await getECediAdapter().abortTransfer(transfer.transfer_id);
+  } catch (error) {
+    return noteError(transfer.transfer_id, (error as Error).message);
+  }
+  return finish(transfer, 'FAILED');
+}
+
+/* Commit or roll back a transfer's lock, unless an earlier attempt already did */
+async function settleOnLedger(transfer: EcediTransferRow, step: 'COMMIT' | 'ROLLBACK'): Promise<string | null> {
+  if ((await getLedger()).getBridgeLock(transfer.transfer_id) === 0) return findLedgerStep(transfer.transfer_id, step);
+  const { txId } = await submit(
+    engine => step === 'COMMIT'
+      ? engine.commitBridgeTransfer(toLedger(transfer))
+      : engine.rollbackBridgeTransfer({ ...toLedger(transfer), reason: transfer.failure_reason! }),
+    { channel: 'ECEDI' }
+  );
+  await query('UPDATE ecedi_transactions SET settlement_tx_id = $1, updated_at = NOW() WHERE transfer_id = $2', [txId, transfer.transfer_id]);
+  return txId;
+}
+
+async function finish(transfer: EcediTransferRow, outcome: 'COMPLETED' | 'FAILED', reason?: string): Promise<EcediTransferRow> {
+  const proofHash = outcome === 'COMPLETED'
+    ? crypto.createHash('sha256')
+      .update(`${transfer.ecedi_tx_id}:${transfer.govres_tx_id}:${transfer.settlement_tx_id}:${transfer.amount_cedi}`)
+      .digest('hex')
+    : null;
+  const finished = await query(
+    `UPDATE ecedi_transactions SET status = $1, failure_reason = COALESCE($2, failure_reason), ecedi_tx_id = COALESCE($3, ecedi_tx_id),
+       settlement_tx_id = COALESCE($4, settlement_tx_id), proof_hash = $5, last_error = NULL, completed_at = NOW(), updated_at = NOW()
+     WHERE transfer_id = $6 RETURNING *`,
+    [outcome, reason ?? null, transfer.ecedi_tx_id ?? null, transfer.settlement_tx_id ?? null, proofHash, transfer.transfer_id]
+  );
+  logger.info('eCedi bridge transfer finished', { transferId: transfer.transfer_id, outcome, reason: finished.rows[0].failure_reason });
+  return finished.rows[0];
+}
+
+async function noteError(transferId: string, message: string): Promise<EcediTransferRow> {
+  const noted = await query(
+    'UPDATE ecedi_transactions SET last_error = $1, updated_at = NOW() WHERE transfer_id = $2 RETURNING *',
+    [message, transferId]
+  );
+  logger.warn('eCedi bridge transfer will be resumed', { transferId, error: message });
+  return noted.rows[0];
+}
+
+// ─── Reconciliation ─────────────────────────────────────────
+
+/*
+ * Check transfers not yet reconciled, or flagged or changed since they
+ * were, and the float against every transfer. Transfers the gateway
+ * cannot be asked about are left for the next run.
+ */
+async function reconcile(): Promise<EcediReconciliation> {
+  const engine = await getLedger();
+  const adapter = getECediAdapter();
+  const due = await query(
+    `SELECT * FROM ecedi_transactions
+     WHERE transfer_id IS NOT NULL AND (reconciled_at IS NULL OR mismatch IS NOT NULL OR updated_at > reconciled_at)
+     ORDER BY created_at`
+  );
+  const steps = await query(
+    `SELECT tx_data->>'transferId' AS transfer_id, tx_data->>'bridge' AS step FROM ledger_transactions
+     WHERE tx_data ? 'bridge' AND tx_data->>'transferId' = ANY($1)`,
+    [due.rows.map(row => row.transfer_id)]
+  );
+  const stepsByTransfer = new Map<string, Set<string>>();
+  for (const row of steps.rows) {
+    stepsByTransfer.set(row.transfer_id, (stepsByTransfer.get(row.transfer_id) ?? new Set()).add(row.step));
+  }
+
+  const mismatches: EcediMismatch[] = [];
+  let transfersChecked = 0;
+  for (const transfer of due.rows as EcediTransferRow[]) {
+    const finished = !IN_FLIGHT.includes(transfer.status);
+    let ecedi: ECediTransferStatus | undefined;
+    if (finished) {
+      try {
+        ecedi = await adapter.getTransfer(transfer.transfer_id);
+      } catch (error) {
+        logger.warn('eCedi transfer left for the next reconciliation', { transferId: transfer.transfer_id, error: (error as Error).message });
+        continue;
+      }
+    }
+    const issue = transferIssue(transfer, stepsByTransfer.get(transfer.transfer_id) ?? new Set(), engine.getBridgeLock(transfer.transfer_id), ecedi);
+    transfersChecked++;
+    if (issue) mismatches.push({ transferId: transfer.transfer_id, issue });
+    await query(
+      `UPDATE ecedi_transactions SET mismatch = $1, reconciled_at = CASE WHEN $2 THEN NOW() ELSE reconciled_at END WHERE transfer_id = $3`,
+      [issue ?? null, finished, transfer.transfer_id]
+    );
+  }
+
+  // Ledger steps for a transfer the bridge has no record of
+  const orphans = await query(
+    `SELECT DISTINCT tx_data->>'transferId' AS transfer_id FROM ledger_transactions lt
+     WHERE tx_data ? 'bridge' AND NOT EXISTS (SELECT 1 FROM ecedi_transactions e WHERE e.transfer_id = lt.tx_data->>'transferId')`
+  );
+  for (const row of orphans.rows) {
+    mismatches.push({ transferId: row.transfer_id, issue: 'Ledger has bridge steps for a transfer with no eCedi record' });
+  }
+
+  // Outgoing GBDC joins the float on commit; incoming GBDC leaves it on lock and returns on rollback
+  const expected = await query(
+    `SELECT COALESCE(SUM(CASE
+       WHEN direction = 'GBDC_TO_ECEDI' AND status IN ('COMMITTING', 'COMPLETED') AND settlement_tx_id IS NOT NULL THEN amount_cedi
+       WHEN direction = 'ECEDI_TO_GBDC' AND govres_tx_id IS NOT NULL
+         AND NOT (status IN ('ROLLING_BACK', 'FAILED') AND settlement_tx_id IS NOT NULL) THEN -amount_cedi
+       ELSE 0 END), 0) AS expected_float
+     FROM ecedi_transactions WHERE transfer_id IS NOT NULL`
+  );
+  const expectedFloatCedi = Number(expected.rows[0].expected_float);
+  const floatBalanceCedi = engine.getAccountBalance(ECEDI_FLOAT_ACCOUNT)?.gbdcBalance ?? 0;
+  if (Math.round(floatBalanceCedi * 100) !== Math.round(expectedFloatCedi * 100)) {
+    mismatches.push({ issue: `Bridge float holds ${floatBalanceCedi} GHS; transfers add up to ${expectedFloatCedi} GHS` });
+  }
+
+  const reconciliation: EcediReconciliation = { runId: newId('ERC'), transfersChecked, floatBalanceCedi, expectedFloatCedi, mismatches };
+  await query(
+    `INSERT INTO ecedi_reconciliations (run_id, transfers_checked, float_balance_cedi, expected_float_cedi, mismatches, status)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [reconciliation.runId, transfersChecked, floatBalanceCedi, expectedFloatCedi, JSON.stringify(mismatches), mismatches.length > 0 ? 'MISMATCHED' : 'MATCHED']
+  );
+  if (mismatches.length > 0) logger.error('eCedi bridge reconciliation found mismatches', { runId: reconciliation.runId, mismatches });
+  return reconciliation;
+}
+
+/* What is wrong with a transfer given its ledger steps, the GBDC still locked for it and, once finished, its eCedi state */
+function transferIssue(transfer: EcediTransferRow, steps: Set<string>, locked: number, ecedi?: ECediTransferStatus): string | undefined {
+  if (IN_FLIGHT.includes(transfer.status)) {
+    const stalledMs = Date.now() - new Date(transfer.updated_at).getTime();
+    return stalledMs > SYSTEM.ECEDI_PREPARE_TIMEOUT_MS
+      ? `Stalled in ${transfer.status}${transfer.last_error ? `: ${transfer.last_error}` : ''}`
+      : undefined;
+  }
+  if (locked > 0) return `${transfer.status} but ${locked} GHS is still locked on the ledger`;
+  if (steps.has('COMMIT') && steps.has('ROLLBACK')) return 'Ledger both committed and rolled back the lock';
+
+  if (transfer.status === 'COMPLETED') {
+    if (!steps.has('LOCK') || !steps.has('COMMIT')) return 'COMPLETED without a committed lock on the ledger';
+    if (ecedi!.state !== 'COMMITTED') return `COMPLETED but eCedi reports ${ecedi!.state}`;
+    return undefined;
+  }
+  if (steps.has('COMMIT')) return 'FAILED but the ledger committed the lock';
+  if (steps.has('LOCK') && !steps.has('ROLLBACK')) return 'FAILED without rolling back the lock on the ledger';
+  if (ecedi!.state === 'COMMITTED' || ecedi!.state === 'PREPARED') return `FAILED but eCedi reports ${ecedi!.state}`;
+  return undefined;
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+async function getTransfer(transferId: string): Promise<EcediTransferRow> {
+  const result = await query('SELECT * FROM ecedi_transactions WHERE transfer_id = $1', [transferId]);
+  if (result.rows.length === 0) throw new AppError('eCedi transfer not found', 404, 'NOT_FOUND');
+  return result.rows[0];
+}
+
+async function findLedgerStep(transferId: string, step: BridgeStep): Promise<string | null> {
+  const result = await query(
+    `SELECT tx_id FROM ledger_transactions WHERE tx_data->>'transferId' = $1 AND tx_data->>'bridge' = $2`,
+    [transferId, step]
+  );
+  return result.rows[0]?.tx_id ?? null;
+}
+
+function toLedger(transfer: EcediTransferRow): BridgeTransfer {
+  return { transferId: transfer.transfer_id, direction: transfer.direction, account: transfer.account_id, amountCedi: Number(transfer.amount_cedi) };
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+function serialised<T>(transferId: string, task: () => Promise<T>): Promise<T> {
+  const previous = transfersInFlight.get(transferId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  transfersInFlight.set(transferId, next);
+  const cleanup = () => { if (transfersInFlight.get(transferId) === next) transfersInFlight.delete(transferId); };
+  next.then(cleanup, cleanup);
+  return next;
+}
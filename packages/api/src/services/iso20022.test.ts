@@ -0,0 +1,221 @@
+/**
+ * GOVRES — ISO 20022 Codec Tests
+ * Validation of inbound pacs.008 and pacs.009 messages, and pacs.002 and
+ * camt.053 messages read back after they are written
+ */
+
+import { describe, it, expect } from 'vitest';
+import { XmlElement, parseXml } from '../utils/xml';
+import { CreditTransferMessage, buildPaymentStatusReport, buildStatement, decodeCreditTransfer } from './iso20022';
+
+const transfer = (endToEndId: string, amount: string, extra = '') => `
+    <CdtTrfTxInf>
+      <PmtId><InstrId>I-${endToEndId}</InstrId><EndToEndId>${endToEndId}</EndToEndId></PmtId>
+      <IntrBkSttlmAmt Ccy="GHS">${amount}</IntrBkSttlmAmt>
+      <ChrgBr>SLEV</ChrgBr>
+      <Dbtr><Nm>Ama Mensah</Nm></Dbtr>
+      <DbtrAgt><FinInstnId><BICFI>GCBLGHAC</BICFI></FinInstnId></DbtrAgt>
+      <CdtrAgt><FinInstnId><BICFI>ECOCGHAC</BICFI></FinInstnId></CdtrAgt>
+      <Cdtr><Nm>Kofi Boateng</Nm></Cdtr>${extra}
+    </CdtTrfTxInf>`;
+
+const pacs008 = (header: { nbOfTxs?: number; ctrlSum?: string } = {}, transactions = [transfer('E2E-1', '1500.25'), transfer('E2E-2', '250')]) => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pacs.008.001.08">
+  <FIToFICstmrCdtTrf>
+    <GrpHdr>
+      <MsgId>MSG-0001</MsgId>
+      <CreDtTm>2026-10-19T09:30:00Z</CreDtTm>
+      <NbOfTxs>${header.nbOfTxs ?? transactions.length}</NbOfTxs>
+      <CtrlSum>${header.ctrlSum ?? '1750.25'}</CtrlSum>
+      <SttlmInf><SttlmMtd>CLRG</SttlmMtd></SttlmInf>
+      <PmtTpInf><ClrChanl>RTNS</ClrChanl></PmtTpInf>
+    </GrpHdr>${transactions.join('')}
+  </FIToFICstmrCdtTrf>
+</Document>`;
+
+/* First descendant with the given path of element names */
+function at(element: XmlElement, ...path: string[]): XmlElement {
+  return path.reduce((node, name) => {
+    const child = node.children.find(c => c.name === name);
+    if (!child) throw new Error(`No ${name} in ${node.name}`);
+    return child;
+  }, element);
+}
+
+// ─── Reading ────────────────────────────────────────────
+
+describe('decodeCreditTransfer', () => {
+  it('reads a valid pacs.008, taking the clearing channel from the group header', () => {
+    expect(decodeCreditTransfer(pacs008())).toEqual({
+      messageType: 'pacs.008.001.08',
+      msgId: 'MSG-0001',
+      createdAt: new Date('2026-10-19T09:30:00Z'),
+      transactions: [
+        expect.objectContaining({ endToEndId: 'E2E-1', instrId: 'I-E2E-1', amount: 1500.25, currency: 'GHS', debtorBic: 'GCBLGHAC', creditorBic: 'ECOCGHAC', clearingChannel: 'RTNS' }),
+        expect.objectContaining({ endToEndId: 'E2E-2', amount: 250 }),
+      ],
+    });
+  });
+
+  it('reads the debtor and creditor banks of a pacs.009 from Dbtr and Cdtr', () => {
+    const message = decodeCreditTransfer(`<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pacs.009.001.08">
+      <FICdtTrf>
+        <GrpHdr>
+          <MsgId>MSG-0002</MsgId><CreDtTm>2026-10-19T10:00:00</CreDtTm><NbOfTxs>1</NbOfTxs>
+          <SttlmInf><SttlmMtd>CLRG</SttlmMtd></SttlmInf>
+        </GrpHdr>
+        <CdtTrfTxInf>
+          <PmtId><EndToEndId>FI-1</EndToEndId></PmtId>
+          <PmtTpInf><InstrPrty>HIGH</InstrPrty><ClrChanl>RTGS</ClrChanl></PmtTpInf>
+          <IntrBkSttlmAmt Ccy="GHS">1000000</IntrBkSttlmAmt>
+          <Dbtr><FinInstnId><BICFI>GCBLGHAC</BICFI></FinInstnId></Dbtr>
+          <Cdtr><FinInstnId><BICFI>SCBLGHAC</BICFI></FinInstnId></Cdtr>
+        </CdtTrfTxInf>
+      </FICdtTrf>
+    </Document>`);
+
+    expect(message.messageType).toBe('pacs.009.001.08');
+    expect(message.transactions).toEqual([expect.objectContaining({
+      endToEndId: 'FI-1', debtorBic: 'GCBLGHAC', creditorBic: 'SCBLGHAC', clearingChannel: 'RTGS', instructionPriority: 'HIGH',
+    })]);
+  });
+
+  it('refuses a message missing a mandatory element, naming where it is missing', () => {
+    const withoutAgent = pacs008({}, [transfer('E2E-1', '1750.25').replace(/<CdtrAgt>.*<\/CdtrAgt>/, '')]);
+    expect(() => decodeCreditTransfer(withoutAgent)).toThrow(/^Invalid pacs\.008\.001\.08 message: FIToFICstmrCdtTrf\/CdtTrfTxInf\/0\/CdtrAgt: /);
+    expect(() => decodeCreditTransfer(withoutAgent)).toThrow(expect.objectContaining({ statusCode: 400, code: 'VALIDATION' }));
+  });
+
+  it('refuses a control sum that does not match the transactions', () => {
+    expect(() => decodeCreditTransfer(pacs008({ ctrlSum: '1750.24' })))
+      .toThrow("CtrlSum 1750.24 does not match the transactions' total");
+  });
+
+  it('refuses a transaction count that does not match the transactions', () => {
+    expect(() => decodeCreditTransfer(pacs008({ nbOfTxs: 3 }))).toThrow('NbOfTxs is 3 but the message has 2 transactions');
+  });
+
+  it('refuses repeated end-to-end ids', () => {
+    const repeated = pacs008({ ctrlSum: '500' }, [transfer('E2E-1', '250'), transfer('E2E-1', '250')]);
+    expect(() => decodeCreditTransfer(repeated)).toThrow('EndToEndId must be unique within the message');
+  });
+
+  it('refuses a document type declaration before reading anything', () => {
+    const xml = pacs008().replace('<Document', '<!DOCTYPE Document [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>\n<Document');
+    expect(() => decodeCreditTransfer(xml)).toThrow(expect.objectContaining({ statusCode: 400, code: 'VALIDATION' }));
+    expect(() => decodeCreditTransfer(xml)).toThrow('document type declarations are not accepted');
+  });
+
+  it('refuses documents of other message types', () => {
+    for (const type of ['pacs.002.001.10', 'constructor', 'toString']) {
+      const xml = pacs008().replace('pacs.008.001.08', type);
+      expect(() => decodeCreditTransfer(xml)).toThrow('Expected a pacs.008.001.08 or pacs.009.001.08 Document');
+    }
+  });
+});
+
+// ─── Writing ────────────────────────────────────────────
+
+describe('buildPaymentStatusReport', () => {
+  const original: CreditTransferMessage = decodeCreditTransfer(pacs008());
+
+  it('reports each transaction and a PART group status when only some were rejected', () => {
+    const report = parseXml(buildPaymentStatusReport({
+      msgId: 'RPT-0001',
+      original,
+      createdAt: new Date('2026-10-19T09:31:00.250Z'),
+      transactions: [
+        { endToEndId: 'E2E-1', instrId: 'I-E2E-1', status: 'ACSC', settledAt: new Date('2026-10-19T09:30:30Z') },
+        { endToEndId: 'E2E-2', status: 'RJCT', reasonCode: 'AM04', reason: 'Insufficient funds' },
+      ],
+    }));
+
+    expect(report.attributes.xmlns).toBe('urn:iso:std:iso:20022:tech:xsd:pacs.002.001.10');
+    const body = at(report, 'FIToFIPmtStsRpt');
+    expect(at(body, 'GrpHdr', 'CreDtTm').text).toBe('2026-10-19T09:31:00Z');
+    const group = at(body, 'OrgnlGrpInfAndSts');
+    expect(group.children.map(c => [c.name, c.text])).toEqual([
+      ['OrgnlMsgId', 'MSG-0001'],
+      ['OrgnlMsgNmId', 'pacs.008.001.08'],
+      ['OrgnlCreDtTm', '2026-10-19T09:30:00Z'],
+      ['OrgnlNbOfTxs', '2'],
+      ['GrpSts', 'PART'],
+    ]);
+
+    const [settled, rejected] = body.children.filter(c => c.name === 'TxInfAndSts');
+    expect(at(settled, 'OrgnlInstrId').text).toBe('I-E2E-1');
+    expect(at(settled, 'TxSts').text).toBe('ACSC');
+    expect(at(settled, 'FctvIntrBkSttlmDt', 'DtTm').text).toBe('2026-10-19T09:30:30Z');
+    expect(at(rejected, 'OrgnlEndToEndId').text).toBe('E2E-2');
+    expect(at(rejected, 'StsRsnInf', 'Rsn', 'Cd').text).toBe('AM04');
+    expect(at(rejected, 'StsRsnInf', 'AddtlInf').text).toBe('Insufficient funds');
+  });
+
+  it.each([
+    [['ACSC', 'ACSC'], 'ACSC'],
+    [['ACSC', 'ACSP'], 'ACSP'],
+    [['RJCT', 'RJCT'], 'RJCT'],
+  ] as const)('gives transactions %j the group status %s', (statuses, groupStatus) => {
+    const report = parseXml(buildPaymentStatusReport({
+      msgId: 'RPT-0002',
+      original,
+      transactions: statuses.map((status, i) => ({ endToEndId: `E2E-${i + 1}`, status })),
+    }));
+    expect(at(report, 'FIToFIPmtStsRpt', 'OrgnlGrpInfAndSts', 'GrpSts').text).toBe(groupStatus);
+  });
+});
+
+describe('buildStatement', () => {
+  it('writes balances, totals and entries that read back as booked', () => {
+    const statement = parseXml(buildStatement({
+      msgId: 'STMT-0001',
+      accountId: 'BANK-GCB',
+      accountName: 'GCB Bank & Co',
+      ownerBic: 'GCBLGHAC',
+      servicerBic: 'BAGHGHAC',
+      date: '2026-10-19',
+      openingBalanceCedi: 1_000,
+      closingBalanceCedi: 1_250.5,
+      createdAt: new Date('2026-10-19T23:59:59Z'),
+      entries: [
+        { txId: 'TX-1', txType: 'TRANSFER', amountCedi: 500.5, credit: true, bookedAt: new Date('2026-10-19T09:00:00Z'), counterparty: 'BANK-ECO', endToEndId: 'E2E-1' },
+        { txId: 'TX-2', txType: 'TRANSFER', amountCedi: 250, credit: false, bookedAt: new Date('2026-10-19T15:00:00Z'), counterparty: 'BANK-SCB', description: 'Net debit' },
+      ],
+    }));
+
+    expect(statement.attributes.xmlns).toBe('urn:iso:std:iso:20022:tech:xsd:camt.053.001.08');
+    const stmt = at(statement, 'BkToCstmrStmt', 'Stmt');
+    expect(at(stmt, 'Id').text).toBe('BANK-GCB-2026-10-19');
+    expect(at(stmt, 'Acct', 'Nm').text).toBe('GCB Bank & Co');
+    expect(at(stmt, 'Acct', 'Ownr', 'Id', 'OrgId', 'AnyBIC').text).toBe('GCBLGHAC');
+
+    const balances = stmt.children.filter(c => c.name === 'Bal')
+      .map(bal => [at(bal, 'Tp', 'CdOrPrtry', 'Cd').text, at(bal, 'Amt').text, at(bal, 'Amt').attributes.Ccy, at(bal, 'CdtDbtInd').text]);
+    expect(balances).toEqual([['OPBD', '1000', 'GHS', 'CRDT'], ['CLBD', '1250.5', 'GHS', 'CRDT']]);
+
+    const totals = at(stmt, 'TxsSummry');
+    expect(at(totals, 'TtlNtries', 'NbOfNtries').text).toBe('2');
+    expect(at(totals, 'TtlNtries', 'Sum').text).toBe('750.5');
+    expect(at(totals, 'TtlNtries', 'TtlNetNtry', 'Amt').text).toBe('250.5');
+    expect(at(totals, 'TtlCdtNtries', 'Sum').text).toBe('500.5');
+    expect(at(totals, 'TtlDbtNtries', 'Sum').text).toBe('250');
+
+    const [credit, debit] = stmt.children.filter(c => c.name === 'Ntry');
+    expect(at(credit, 'CdtDbtInd').text).toBe('CRDT');
+    expect(at(credit, 'NtryDtls', 'TxDtls', 'Refs', 'EndToEndId').text).toBe('E2E-1');
+    expect(at(credit, 'NtryDtls', 'TxDtls', 'RltdPties', 'DbtrAcct', 'Id', 'Othr', 'Id').text).toBe('BANK-ECO');
+    expect(at(debit, 'CdtDbtInd').text).toBe('DBIT');
+    expect(at(debit, 'ValDt', 'Dt').text).toBe('2026-10-19');
+    expect(at(debit, 'NtryDtls', 'TxDtls', 'RltdPties', 'CdtrAcct', 'Id', 'Othr', 'Id').text).toBe('BANK-SCB');
+    expect(at(debit, 'NtryDtls', 'TxDtls', 'AddtlTxInf').text).toBe('Net debit');
+  });
+
+  it('marks a negative balance as a debit with an unsigned amount', () => {
+    const statement = parseXml(buildStatement({
+      msgId: 'STMT-0002', accountId: 'BANK-GCB', servicerBic: 'BAGHGHAC', date: '2026-10-19',
+      openingBalanceCedi: 0, closingBalanceCedi: -42.125, entries: [],
+    }));
+    const closing = at(statement, 'BkToCstmrStmt', 'Stmt').children.filter(c => c.name === 'Bal')[1];
+    expect([at(closing, 'Amt').text, at(closing, 'CdtDbtInd').text]).toEqual(['42.125', 'DBIT']);
+  });
+});
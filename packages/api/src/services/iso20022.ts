@@ -0,0 +1,390 @@
+/**
+ * GOVRES — ISO 20022 Codec
+ *
+ * Reads pacs.008 (customer credit transfer) and pacs.009 (financial
+ * institution credit transfer) messages sent by banks, and writes the
+ * pacs.002 status reports and camt.053 statements sent back to them.
+ * Inbound messages are checked against the elements, code sets and
+ * formats of the pacs.008.001.08 and pacs.009.001.08 schemas before any
+ * transaction in them is acted on.
+ */
+
+import { z } from 'zod';
+import { AppError } from '../middleware/error-handler';
+import { XmlElement, XmlNode, buildXml, parseXml, serializeXml } from '../utils/xml';
+
+const NAMESPACE_PREFIX = 'urn:iso:std:iso:20022:tech:xsd:';
+
+export const CREDIT_TRANSFER_MESSAGES = {
+  'pacs.008.001.08': 'FIToFICstmrCdtTrf',
+  'pacs.009.001.08': 'FICdtTrf',
+} as const;
+
+export type CreditTransferMessageType = keyof typeof CREDIT_TRANSFER_MESSAGES;
+
+export const STATUS_REPORT_MESSAGE = 'pacs.002.001.10';
+export const STATEMENT_MESSAGE = 'camt.053.001.08';
+
+export interface CreditTransfer {
+  endToEndId: string;
+  instrId?: string;
+  txId?: string;
+  uetr?: string;
+  amount: number;
+  currency: string;
+  /** Bank paying: the debtor agent of a pacs.008, the debtor of a pacs.009 */
+  debtorBic: string;
+  /** Bank paid: the creditor agent of a pacs.008, the creditor of a pacs.009 */
+  creditorBic: string;
+  /** RTGS, RTNS (real-time net), MPNS (mass-payment net) or BOOK */
+  clearingChannel?: string;
+  /** HIGH or NORM */
+  instructionPriority?: string;
+}
+
+export interface CreditTransferMessage {
+  messageType: CreditTransferMessageType;
+  msgId: string;
+  createdAt: Date;
+  transactions: CreditTransfer[];
+}
+
+/** ExternalStatusReason1Code values used in status reports */
+export type StatusReasonCode = 'AM03' | 'AM04' | 'AG01' | 'RC03' | 'RC04' | 'NARR';
+
+export interface TransactionStatus {
+  endToEndId: string;
+  instrId?: string;
+  txId?: string;
+  uetr?: string;
+  /** Settled, accepted for settlement, or rejected */
+  status: 'ACSC' | 'ACSP' | 'RJCT';
+  reasonCode?: StatusReasonCode;
+  reason?: string;
+  settledAt?: Date;
+}
+
+export interface StatementEntry {
+  txId: string;
+  txType: string;
+  amountCedi: number;
+  credit: boolean;
+  bookedAt: Date;
+  counterparty: string;
+  description?: string;
+  endToEndId?: string;
+}
+
+// ─── Schemas ──────────────────────────────────────────────
+
+const Max35Text = z.string().min(1).max(35);
+const Max140Text = z.string().min(1).max(140);
+const BICFI = z.string().regex(/^[A-Z0-9]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/, 'Invalid BICFI');
+const ISODate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid ISODate');
+const ISODateTime = z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/, 'Invalid ISODateTime');
+const UUIDv4 = z.string().regex(/^[a-f0-9]{8}-[a-f0-9]{4}-4[a-f0-9]{3}-[89ab][a-f0-9]{3}-[a-f0-9]{12}$/, 'Invalid UUIDv4Identifier');
+const DecimalNumber = z.string().regex(/^\d{1,18}(\.\d{1,17})?$/, 'Invalid DecimalNumber');
+
+const ActiveCurrencyAndAmount = z.object({
+  '#text': z.string().regex(/^\d{1,13}(\.\d{1,5})?$/, 'Invalid ActiveCurrencyAndAmount'),
+  '@Ccy': z.string().regex(/^[A-Z]{3}$/, 'Invalid ActiveCurrencyCode'),
+});
+
+const FinancialInstitution = z.object({ FinInstnId: z.object({ BICFI }) });
+
+const PaymentTypeInformation = z.object({
+  InstrPrty: z.enum(['HIGH', 'NORM']).optional(),
+  ClrChanl: z.enum(['RTGS', 'RTNS', 'MPNS', 'BOOK']).optional(),
+});
+
+const GroupHeader = z.object({
+  MsgId: Max35Text,
+  CreDtTm: ISODateTime,
+  NbOfTxs: z.string().regex(/^[0-9]{1,15}$/, 'Invalid Max15NumericText'),
+  CtrlSum: DecimalNumber.optional(),
+  TtlIntrBkSttlmAmt: ActiveCurrencyAndAmount.optional(),
+  IntrBkSttlmDt: ISODate.optional(),
+  SttlmInf: z.object({ SttlmMtd: z.enum(['INDA', 'INGA', 'COVE', 'CLRG']) }),
+  PmtTpInf: PaymentTypeInformation.optional(),
+});
+
+const transaction = {
+  PmtId: z.object({
+    InstrId: Max35Text.optional(),
+    EndToEndId: Max35Text,
+    TxId: Max35Text.optional(),
+    UETR: UUIDv4.optional(),
+  }),
+  PmtTpInf: PaymentTypeInformation.optional(),
+  IntrBkSttlmAmt: ActiveCurrencyAndAmount,
+  IntrBkSttlmDt: ISODate.optional(),
+  RmtInf: z.object({ Ustrd: Max140Text.optional() }).optional(),
+};
+
+const CustomerCreditTransfer = z.object({
+  ...transaction,
+  ChrgBr: z.enum(['DEBT', 'CRED', 'SHAR', 'SLEV']),
+  Dbtr: z.object({ Nm: Max140Text.optional() }),
+  DbtrAgt: FinancialInstitution,
+  CdtrAgt: FinancialInstitution,
+  Cdtr: z.object({ Nm: Max140Text.optional() }),
+});
+
+const InstitutionCreditTransfer = z.object({
+  ...transaction,
+  Dbtr: FinancialInstitution,
+  DbtrAgt: FinancialInstitution.optional(),
+  CdtrAgt: FinancialInstitution.optional(),
+  Cdtr: FinancialInstitution,
+});
+
+/* A repeated element reads as an array, a single one as an object; both are checked as an array, so issues keep their path */
+const oneOrMore = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (Array.isArray(value) ? value : [value]), schema.array().min(1));
+
+// ─── Reading ──────────────────────────────────────────────
+
+/**
+ * Parse and validate a pacs.008 or pacs.009 message. Throws a 400
+ * AppError listing every schema violation.
+ */
+export function decodeCreditTransfer(xml: string): CreditTransferMessage {
+  let document: XmlElement;
+  try {
+    document = parseXml(xml);
+  } catch (error) {
+    throw new AppError((error as Error).message, 400, 'VALIDATION');
+  }
+
+  const namespace = document.attributes.xmlns ?? '';
+  const messageType = namespace.slice(NAMESPACE_PREFIX.length) as CreditTransferMessageType;
+  if (document.name !== 'Document' || !namespace.startsWith(NAMESPACE_PREFIX) || !Object.hasOwn(CREDIT_TRANSFER_MESSAGES, messageType)) {
+    throw new AppError(`Expected a ${Object.keys(CREDIT_TRANSFER_MESSAGES).join(' or ')} Document`, 400, 'VALIDATION');
+  }
+  const rootName = CREDIT_TRANSFER_MESSAGES[messageType];
+  const schema = z.object({
+    [rootName]: z.object({
+      GrpHdr: GroupHeader,
+      CdtTrfTxInf: oneOrMore(messageType === 'pacs.008.001.08' ? CustomerCreditTransfer : InstitutionCreditTransfer),
+    }),
+  });
+
+  const parsed = schema.safeParse(toObject(document));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('/')}: ${issue.message}`);
+    throw new AppError(`Invalid ${messageType} message: ${issues.join('; ')}`, 400, 'VALIDATION');
+  }
+  const { GrpHdr: header, CdtTrfTxInf: entries } = parsed.data[rootName] as {
+    GrpHdr: z.infer<typeof GroupHeader>;
+    CdtTrfTxInf: (z.infer<typeof CustomerCreditTransfer> | z.infer<typeof InstitutionCreditTransfer>)[];
+  };
+
+  const transactions = entries.map(entry => ({
+    endToEndId: entry.PmtId.EndToEndId,
+    instrId: entry.PmtId.InstrId,
+    txId: entry.PmtId.TxId,
+    uetr: entry.PmtId.UETR,
+    amount: Number(entry.IntrBkSttlmAmt['#text']),
+    currency: entry.IntrBkSttlmAmt['@Ccy'],
+    debtorBic: 'ChrgBr' in entry ? entry.DbtrAgt.FinInstnId.BICFI : entry.Dbtr.FinInstnId.BICFI,
+    creditorBic: 'ChrgBr' in entry ? entry.CdtrAgt.FinInstnId.BICFI : entry.Cdtr.FinInstnId.BICFI,
+    clearingChannel: entry.PmtTpInf?.ClrChanl ?? header.PmtTpInf?.ClrChanl,
+    instructionPriority: entry.PmtTpInf?.InstrPrty ?? header.PmtTpInf?.InstrPrty,
+  }));
+
+  // Cross-field rules the schema states in its annotations
+  const issues: string[] = [];
+  if (Number(header.NbOfTxs) !== transactions.length) {
+    issues.push(`NbOfTxs is ${header.NbOfTxs} but the message has ${transactions.length} transactions`);
+  }
+  const total = transactions.reduce((sum, tx) => sum + tx.amount, 0);
+  if (header.CtrlSum !== undefined && !sameAmount(Number(header.CtrlSum), total)) {
+    issues.push(`CtrlSum ${header.CtrlSum} does not match the transactions' total`);
+  }
+  if (header.TtlIntrBkSttlmAmt && !sameAmount(Number(header.TtlIntrBkSttlmAmt['#text']), total)) {
+    issues.push(`TtlIntrBkSttlmAmt ${header.TtlIntrBkSttlmAmt['#text']} does not match the transactions' total`);
+  }
+  const endToEndIds = new Set(transactions.map(tx => tx.endToEndId));
+  if (endToEndIds.size !== transactions.length) issues.push('EndToEndId must be unique within the message');
+  if (transactions.some(tx => !(tx.amount > 0))) issues.push('IntrBkSttlmAmt must be positive');
+  if (issues.length > 0) throw new AppError(`Invalid ${messageType} message: ${issues.join('; ')}`, 400, 'VALIDATION');
+
+  return { messageType, msgId: header.MsgId, createdAt: new Date(header.CreDtTm), transactions };
+}
+
+/* Element tree as plain values: leaves become text, attributes become "@name" keys, repeats become arrays */
+function toObject(element: XmlElement): unknown {
+  const attributes = Object.entries(element.attributes).filter(([name]) => name !== 'xmlns' && !name.startsWith('xmlns:'));
+  if (element.children.length === 0) {
+    return attributes.length === 0
+      ? element.text
+      : Object.fromEntries([['#text', element.text], ...attributes.map(([name, value]) => [`@${name}`, value])]);
+  }
+  const object: Record<string, unknown> = {};
+  for (const child of element.children) {
+    const value = toObject(child);
+    const existing = object[child.name];
+    if (existing === undefined) object[child.name] = value;
+    else if (Array.isArray(existing)) existing.push(value);
+    else object[child.name] = [existing, value];
+  }
+  return object;
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.00001;
+}
+
+// ─── Writing ──────────────────────────────────────────────
+
+/**
+ * pacs.002 reporting the status of each transaction in a credit transfer
+ * message. The group status is ACSC when every transaction has settled,
+ * RJCT when every one was rejected, PART when only some were, and ACSP
+ * otherwise.
+ */
+export function buildPaymentStatusReport(params: {
+  msgId: string;
+  original: CreditTransferMessage;
+  transactions: TransactionStatus[];
+  createdAt?: Date;
+}): string {
+  const { original, transactions } = params;
+  const rejected = transactions.filter(tx => tx.status === 'RJCT').length;
+  const groupStatus = rejected === transactions.length ? 'RJCT'
+    : rejected > 0 ? 'PART'
+      : transactions.every(tx => tx.status === 'ACSC') ? 'ACSC' : 'ACSP';
+
+  return serializeXml(document(STATUS_REPORT_MESSAGE, 'FIToFIPmtStsRpt', [
+    buildXml('GrpHdr', [
+      buildXml('MsgId', params.msgId),
+      buildXml('CreDtTm', isoDateTime(params.createdAt ?? new Date())),
+    ]),
+    buildXml('OrgnlGrpInfAndSts', [
+      buildXml('OrgnlMsgId', original.msgId),
+      buildXml('OrgnlMsgNmId', original.messageType),
+      buildXml('OrgnlCreDtTm', isoDateTime(original.createdAt)),
+      buildXml('OrgnlNbOfTxs', original.transactions.length),
+      buildXml('GrpSts', groupStatus),
+    ]),
+    ...transactions.map(tx => buildXml('TxInfAndSts', [
+      optional('OrgnlInstrId', tx.instrId),
+      buildXml('OrgnlEndToEndId', tx.endToEndId),
+      optional('OrgnlTxId', tx.txId),
+      optional('OrgnlUETR', tx.uetr),
+      buildXml('TxSts', tx.status),
+      tx.reasonCode ? buildXml('StsRsnInf', [
+        buildXml('Rsn', [buildXml('Cd', tx.reasonCode)]),
+        optional('AddtlInf', tx.reason?.slice(0, 105)),
+      ]) : undefined,
+      tx.settledAt ? buildXml('FctvIntrBkSttlmDt', [buildXml('DtTm', isoDateTime(tx.settledAt))]) : undefined,
+    ])),
+  ]));
+}
+
+/**
+ * camt.053 end-of-day statement of a bank's GBDC account for one day
+ */
+export function buildStatement(params: {
+  msgId: string;
+  accountId: string;
+  accountName?: string;
+  /** The bank's own BIC, and the BIC of the central bank servicing the account */
+  ownerBic?: string;
+  servicerBic: string;
+  /** Statement day, YYYY-MM-DD, in UTC */
+  date: string;
+  openingBalanceCedi: number;
+  closingBalanceCedi: number;
+  entries: StatementEntry[];
+  createdAt?: Date;
+}): string {
+  const createdAt = params.createdAt ?? new Date();
+  const credits = params.entries.filter(entry => entry.credit);
+  const debits = params.entries.filter(entry => !entry.credit);
+  const sum = (entries: StatementEntry[]) => entries.reduce((total, entry) => total + entry.amountCedi, 0);
+  const net = sum(credits) - sum(debits);
+
+  const balance = (code: 'OPBD' | 'CLBD', amountCedi: number) => buildXml('Bal', [
+    buildXml('Tp', [buildXml('CdOrPrtry', [buildXml('Cd', code)])]),
+    amount('Amt', amountCedi),
+    buildXml('CdtDbtInd', creditDebit(amountCedi)),
+    buildXml('Dt', [buildXml('Dt', params.date)]),
+  ]);
+
+  return serializeXml(document(STATEMENT_MESSAGE, 'BkToCstmrStmt', [
+    buildXml('GrpHdr', [
+      buildXml('MsgId', params.msgId),
+      buildXml('CreDtTm', isoDateTime(createdAt)),
+    ]),
+    buildXml('Stmt', [
+      buildXml('Id', `${params.accountId}-${params.date}`.slice(0, 35)),
+      buildXml('CreDtTm', isoDateTime(createdAt)),
+      buildXml('FrToDt', [
+        buildXml('FrDtTm', `${params.date}T00:00:00Z`),
+        buildXml('ToDtTm', `${params.date}T23:59:59Z`),
+      ]),
+      buildXml('Acct', [
+        buildXml('Id', [buildXml('Othr', [buildXml('Id', params.accountId)])]),
+        buildXml('Ccy', 'GHS'),
+        optional('Nm', params.accountName),
+        params.ownerBic ? buildXml('Ownr', [buildXml('Id', [buildXml('OrgId', [buildXml('AnyBIC', params.ownerBic)])])]) : undefined,
+        buildXml('Svcr', [buildXml('FinInstnId', [buildXml('BICFI', params.servicerBic)])]),
+      ]),
+      balance('OPBD', params.openingBalanceCedi),
+      balance('CLBD', params.closingBalanceCedi),
+      buildXml('TxsSummry', [
+        buildXml('TtlNtries', [
+          buildXml('NbOfNtries', params.entries.length),
+          buildXml('Sum', formatAmount(sum(params.entries))),
+          buildXml('TtlNetNtry', [amount('Amt', net), buildXml('CdtDbtInd', creditDebit(net))]),
+        ]),
+        buildXml('TtlCdtNtries', [buildXml('NbOfNtries', credits.length), buildXml('Sum', formatAmount(sum(credits)))]),
+        buildXml('TtlDbtNtries', [buildXml('NbOfNtries', debits.length), buildXml('Sum', formatAmount(sum(debits)))]),
+      ]),
+      ...params.entries.map(entry => buildXml('Ntry', [
+        buildXml('NtryRef', entry.txId.slice(0, 35)),
+        amount('Amt', entry.amountCedi),
+        buildXml('CdtDbtInd', entry.credit ? 'CRDT' : 'DBIT'),
+        buildXml('Sts', [buildXml('Cd', 'BOOK')]),
+        buildXml('BookgDt', [buildXml('DtTm', isoDateTime(entry.bookedAt))]),
+        buildXml('ValDt', [buildXml('Dt', isoDateTime(entry.bookedAt).slice(0, 10))]),
+        buildXml('AcctSvcrRef', entry.txId.slice(0, 35)),
+        buildXml('BkTxCd', [buildXml('Prtry', [buildXml('Cd', entry.txType)])]),
+        buildXml('NtryDtls', [buildXml('TxDtls', [
+          entry.endToEndId ? buildXml('Refs', [buildXml('EndToEndId', entry.endToEndId)]) : undefined,
+          buildXml('RltdPties', [buildXml(entry.credit ? 'DbtrAcct' : 'CdtrAcct', [
+            buildXml('Id', [buildXml('Othr', [buildXml('Id', entry.counterparty)])]),
+          ])]),
+          optional('AddtlTxInf', entry.description?.slice(0, 500)),
+        ])]),
+      ])),
+    ]),
+  ]));
+}
+
+function document(messageType: string, rootName: string, children: XmlNode[]): XmlElement {
+  return buildXml('Document', [buildXml(rootName, children)], { xmlns: `${NAMESPACE_PREFIX}${messageType}` });
+}
+
+function optional(name: string, value: string | undefined): XmlNode {
+  return value ? buildXml(name, value) : undefined;
+}
+
+/* Amounts are unsigned; CdtDbtInd carries the direction */
+function amount(name: string, amountCedi: number): XmlElement {
+  return buildXml(name, formatAmount(amountCedi), { Ccy: 'GHS' });
+}
+
+/* Ledger amounts carry four decimal places; trailing zeros are dropped */
+function formatAmount(amountCedi: number): string {
+  return Math.abs(amountCedi).toFixed(4).replace(/\.?0+$/, '');
+}
+
+function creditDebit(amountCedi: number): 'CRDT' | 'DBIT' {
+  return amountCedi < 0 ? 'DBIT' : 'CRDT';
+}
+
+function isoDateTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
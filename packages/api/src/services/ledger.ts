@@ -0,0 +1,444 @@
+/**
+ * GOVRES — Ledger Service
+ *
+ * Owns the API's single LedgerEngine instance, persisted through
+ * PostgresLedgerStorage. Every financial write in the API goes through
+ * submit(), so it runs the engine's balance, reserve and role checks,
+ * is sealed into a committed block before the route responds, and is
+ * identified by the engine's own txId.
+ */
+
+import { InterbankObligation, LedgerBlock, LedgerEngine, NettingResult, PostgresLedgerStorage, ValidatorKeyPair } from '@govres/ledger';
+import { UserRole, SYSTEM } from '@govres/shared';
+import { pool, query } from '../database/connection';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { recordEscrowRelease } from './budget';
+
+export type LedgerChannel = 'INTERBANK' | 'MOMO' | 'BANK_TRANSFER' | 'ECEDI';
+
+export interface LedgerReceipt<T> {
+  result: T;
+  txId: string;
+  blockHeight: number;
+}
+
+const VALIDATOR_ID = process.env.LEDGER_VALIDATOR_ID || 'BOG-NODE-1';
+
+let enginePromise: Promise<LedgerEngine> | undefined;
+
+/**
+ * Load this node's signing keys. Without them the engine falls back to an
+ * ephemeral development key, and blocks it signs will not verify after a
+ * restart — so production refuses to start.
+ */
+function loadSigningKey(): ValidatorKeyPair | undefined {
+  const publicKey = process.env.LEDGER_VALIDATOR_PUBLIC_KEY?.replace(/\\n/g, '\n');
+  const privateKey = process.env.LEDGER_VALIDATOR_PRIVATE_KEY?.replace(/\\n/g, '\n');
+  if (publicKey && privateKey) return { publicKey, privateKey };
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('LEDGER_VALIDATOR_PUBLIC_KEY and LEDGER_VALIDATOR_PRIVATE_KEY must be set in production');
+  }
+  logger.warn('Ledger validator keys not configured — using an ephemeral development key');
+  return undefined;
+}
+
+/**
+ * Get the shared engine, restoring it from the database on first use
+ */
+export function getLedger(): Promise<LedgerEngine> {
+  if (!enginePromise) {
+    enginePromise = (async () => {
+      const seasons = await query('SELECT season_year, validity_days FROM crdn_seasons');
+      const haircuts = await query('SELECT haircut_key, haircut_percent FROM collateral_haircuts');
+      const engine = new LedgerEngine(VALIDATOR_ID, {
+        storage: new PostgresLedgerStorage(pool),
+        signingKey: loadSigningKey(),
+        crdnValidityDays: Object.fromEntries(seasons.rows.map(row => [row.season_year, Number(row.validity_days)])),
+        collateralHaircuts: Object.fromEntries(haircuts.rows.map(row => [row.haircut_key, Number(row.haircut_percent)])),
+      });
+      await engine.initialize();
+      recordMarginCalls(engine);
+      await restoreCollateralPrices(engine);
+      logger.info('Ledger engine ready', { validatorId: VALIDATOR_ID, chainHeight: engine.getChainHeight() });
+      return engine;
+    })().catch((error) => {
+      enginePromise = undefined;
+      throw error;
+    });
+  }
+  return enginePromise;
+}
+
+/* Keep margin_calls in step with the engine's margin call events */
+function recordMarginCalls(engine: LedgerEngine): void {
+  engine.on('collateral:margin_call', (event: { bank: string; exposureCedi: number; collateralValueCedi: number; shortfallCedi: number }) => {
+    logger.warn('Margin call', event);
+    // A restart re-raises calls that are still open; keep one row per call
+    query(
+      `INSERT INTO margin_calls (bank_id, exposure_cedi, collateral_value_cedi, shortfall_cedi)
+       SELECT $1, $2, $3, $4 WHERE NOT EXISTS (SELECT 1 FROM margin_calls WHERE bank_id = $1 AND status = 'OPEN')`,
+      [event.bank, event.exposureCedi, event.collateralValueCedi, event.shortfallCedi]
+    ).catch(error => logger.error('Failed to record margin call', { bank: event.bank, error: error.message }));
+  });
+  engine.on('collateral:margin_cured', (event: { bank: string }) => {
+    query("UPDATE margin_calls SET status = 'CURED', cured_at = NOW() WHERE bank_id = $1 AND status = 'OPEN'", [event.bank])
+      .catch(error => logger.error('Failed to close margin call', { bank: event.bank, error: error.message }));
+  });
+}
+
+/* Prices are not ledger state; reapply the latest attested price of each asset */
+async function restoreCollateralPrices(engine: LedgerEngine): Promise<void> {
+  const prices = await query(
+    `SELECT DISTINCT ON (source_id) source_id, data, hash FROM oracle_attestations
+     WHERE source_type = 'COLLATERAL_PRICE' ORDER BY source_id, created_at DESC`
+  );
+  for (const row of prices.rows) {
+    engine.updateCollateralPrice({ asset: row.source_id, pricePerUnitGHS: Number(row.data.pricePerUnitGHS), attestationHash: row.hash });
+  }
+}
+
+/**
+ * Register ledger accounts that exist in user_accounts but not yet on
+ * the ledger. Registrations are committed with the next block.
+ */
+export async function ensureAccounts(...accountIds: string[]): Promise<void> {
+  const engine = await getLedger();
+  for (const accountId of new Set(accountIds)) {
+    if (engine.getAccountBalance(accountId)) continue;
+    const result = await query('SELECT role, is_active FROM user_accounts WHERE account_id = $1', [accountId]);
+    if (result.rows.length === 0) throw new AppError(`Account ${accountId} not found`, 404, 'NOT_FOUND');
+    if (!result.rows[0].is_active) throw new AppError(`Account ${accountId} is inactive`, 422, 'ACCOUNT_INACTIVE');
+    // Re-check: another request may have registered it while we queried
+    if (!engine.getAccountBalance(accountId)) engine.registerAccount(accountId, result.rows[0].role as UserRole);
+  }
+}
+
+/**
+ * Bring the ledger's gold reserve up to the weight held in the vaults.
+ * Only increases are recorded; releases go through explicit operations.
+ */
+export async function syncGoldReserve(attestationHash: string): Promise<number> {
+  const engine = await getLedger();
+  const vault = await query('SELECT COALESCE(SUM(weight_grams), 0) AS total_grams FROM gold_bars');
+  const delta = Number(vault.rows[0].total_grams) - engine.getReserveSummary().goldReserveGrams;
+  if (delta > 0) engine.registerGoldReserve(delta, attestationHash);
+  return Math.max(delta, 0);
+}
+
+/**
+ * Run a ledger operation and wait until its transaction is in a
+ * committed block. Engine rejections surface as 422 AppErrors.
+ */
+export async function submit<T>(
+  operation: (engine: LedgerEngine) => T,
+  options: { channel?: LedgerChannel } = {}
+): Promise<LedgerReceipt<T>> {
+  const engine = await getLedger();
+  const startHeight = engine.getChainHeight();
+
+  const { result, txId } = runOperation(engine, operation);
+  if (!txId) throw new AppError('Ledger operation produced no transaction', 500, 'LEDGER_NO_TX');
+
+  const blockHeight = await seal(engine, txId, startHeight);
+
+  if (options.channel) {
+    await query('UPDATE ledger_transactions SET channel = $1 WHERE tx_id = $2', [options.channel, txId]);
+  }
+  await syncBlocks(engine, startHeight, blockHeight);
+
+  return { result, txId, blockHeight };
+}
+
+/**
+ * Expire CRDNs past their validity period and wait until the expiries
+ * are committed. Returns the number of notes expired.
+ */
+export async function expireCRDNs(): Promise<number> {
+  const engine = await getLedger();
+  const startHeight = engine.getChainHeight();
+  const txIds = engine.expireCRDNs();
+  if (txIds.length === 0) return 0;
+
+  // Pending transactions are sealed in order, so the last one comes last
+  const blockHeight = await seal(engine, txIds[txIds.length - 1], startHeight);
+  await syncBlocks(engine, startHeight, blockHeight);
+  return txIds.length;
+}
+
+let expiryTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Run expireCRDNs on a timer. The API seals its own blocks, so it uses
+ * this instead of the engine's startCRDNExpiry.
+ */
+export function startCRDNExpiry(intervalMs: number = SYSTEM.CRDN_EXPIRY_CHECK_INTERVAL_MS): void {
+  if (expiryTimer) return;
+  expiryTimer = setInterval(() => {
+    expireCRDNs()
+      .then(count => { if (count > 0) logger.info('Expired CRDNs returned to the settlement pool', { count }); })
+      .catch(error => logger.error('CRDN expiry failed', { error: error instanceof Error ? error.message : String(error) }));
+  }, intervalMs);
+}
+
+/**
+ * Record a supply-chain or oracle event against project escrows and wait
+ * until the conditions it meets, and the releases it triggers, are
+ * committed. Returns the number of conditions met and milestones released.
+ */
+export async function recordEscrowEvent(eventType: string, reference?: string): Promise<number> {
+  const engine = await getLedger();
+  const startHeight = engine.getChainHeight();
+  const { result: txIds, txId } = runOperation(engine, e => e.recordEscrowEvent({ eventType, reference }));
+  if (!txId) return 0;
+
+  const blockHeight = await seal(engine, txId, startHeight);
+  await syncBlocks(engine, startHeight, blockHeight);
+  return txIds.length;
+}
+
+/**
+ * Release escrowed milestones whose deadlines have passed and wait until
+ * the releases are committed. Returns the number of milestones released.
+ */
+export async function releaseDueMilestones(): Promise<number> {
+  const engine = await getLedger();
+  const startHeight = engine.getChainHeight();
+  // The last release may be followed by a return of unallocated budget, so seal the last transaction created
+  const { result: txIds, txId } = runOperation(engine, e => e.releaseDueMilestones());
+  if (!txId) return 0;
+
+  const blockHeight = await seal(engine, txId, startHeight);
+  await syncBlocks(engine, startHeight, blockHeight);
+  return txIds.length;
+}
+
+let escrowTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Run releaseDueMilestones on a timer, so deadline conditions release
+ * without anyone calling in
+ */
+export function startEscrowReleases(intervalMs: number = SYSTEM.ESCROW_RELEASE_CHECK_INTERVAL_MS): void {
+  if (escrowTimer) return;
+  escrowTimer = setInterval(() => {
+    releaseDueMilestones()
+      .then(count => { if (count > 0) logger.info('Released escrowed milestones past their deadline', { count }); })
+      .catch(error => logger.error('Escrow release failed', { error: error instanceof Error ? error.message : String(error) }));
+  }, intervalMs);
+}
+
+/**
+ * Pay yield note coupons that have fallen due and wait until the payments
+ * are committed. Returns the number of coupons paid.
+ */
+export async function payDueCoupons(): Promise<number> {
+  const engine = await getLedger();
+  const startHeight = engine.getChainHeight();
+  const { result: txIds, txId } = runOperation(engine, e => e.payDueCoupons());
+  if (!txId) return 0;
+
+  const blockHeight = await seal(engine, txId, startHeight);
+  await syncBlocks(engine, startHeight, blockHeight);
+  return txIds.length;
+}
+
+let couponTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Run payDueCoupons on a timer, so coupons are paid on their dates
+ */
+export function startCouponPayments(intervalMs: number = SYSTEM.YIELD_NOTE_COUPON_CHECK_INTERVAL_MS): void {
+  if (couponTimer) return;
+  couponTimer = setInterval(() => {
+    payDueCoupons()
+      .then(count => { if (count > 0) logger.info('Paid yield note coupons', { count }); })
+      .catch(error => logger.error('Coupon payment failed', { error: error instanceof Error ? error.message : String(error) }));
+  }, intervalMs);
+}
+
+/**
+ * Settle a netting cycle on the ledger and wait until its payments are
+ * committed. The block height is null when nothing needed to move: every
+ * obligation was queued or rejected, or the settled ones netted to zero.
+ */
+export async function settleNetCycle(
+  cycleId: string,
+  obligations: InterbankObligation[]
+): Promise<{ result: NettingResult; blockHeight: number | null }> {
+  const engine = await getLedger();
+  const startHeight = engine.getChainHeight();
+  const { result, txId } = runOperation(engine, e => e.settleNetCycle({ cycleId, obligations }));
+  if (!txId) return { result, blockHeight: null };
+
+  const blockHeight = await seal(engine, txId, startHeight);
+  await query("UPDATE ledger_transactions SET channel = 'INTERBANK' WHERE tx_id = ANY($1)", [result.txIds]);
+  await syncBlocks(engine, startHeight, blockHeight);
+  return { result, blockHeight };
+}
+
+/* Run a ledger operation, noting the last transaction it created */
+function runOperation<T>(engine: LedgerEngine, operation: (engine: LedgerEngine) => T): { result: T; txId?: string } {
+  let txId: string | undefined;
+  const capture = (event: { txId: string }) => { txId = event.txId; };
+  engine.on('transaction:created', capture);
+  try {
+    const result = operation(engine);
+    return { result, txId };
+  } catch (error) {
+    throw toAppError(error);
+  } finally {
+    engine.off('transaction:created', capture);
+  }
+}
+
+/* Generate blocks until the one holding txId has been committed */
+async function seal(engine: LedgerEngine, txId: string, startHeight: number): Promise<number> {
+  for (;;) {
+    for (let height = engine.getChainHeight(); height > startHeight; height--) {
+      if ((await committedBlock(engine, height)).transactions.some(tx => tx.txId === txId)) return height;
+    }
+    const block = await engine.generateBlock();
+    if (!block) throw new AppError('Ledger block failed validation', 500, 'LEDGER_005');
+    // Raced with a block already in flight; look again and retry
+  }
+}
+
+/* A committed block, read back from storage if the engine has pruned it */
+async function committedBlock(engine: LedgerEngine, height: number): Promise<LedgerBlock> {
+  const block = await engine.fetchBlock(height);
+  if (!block) throw new AppError(`Ledger block ${height} not found`, 500, 'LEDGER_BLOCK_MISSING');
+  return block;
+}
+
+/* Refresh the read models for every block from startHeight (exclusive) to endHeight */
+async function syncBlocks(engine: LedgerEngine, startHeight: number, endHeight: number): Promise<void> {
+  for (let height = startHeight + 1; height <= endHeight; height++) {
+    await syncBalances(engine, height);
+    await syncInstruments(engine, height);
+    await syncEscrows(engine, height);
+    await syncYieldNotes(engine, height);
+  }
+}
+
+/* Refresh the account_balances read model for accounts touched by a block */
+async function syncBalances(engine: LedgerEngine, blockHeight: number): Promise<void> {
+  const block = await committedBlock(engine, blockHeight);
+  const accountIds = new Set(block.transactions.flatMap(tx => [tx.fromAccount, tx.toAccount]));
+  for (const accountId of accountIds) {
+    const balance = engine.getAccountBalance(accountId);
+    if (!balance) continue;
+    await query(
+      `INSERT INTO account_balances (account_id, gbdc_balance, crdn_balance, last_updated)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (account_id) DO UPDATE SET gbdc_balance = EXCLUDED.gbdc_balance, crdn_balance = EXCLUDED.crdn_balance, last_updated = NOW()`,
+      [accountId, balance.gbdcBalance, balance.crdnBalance]
+    );
+  }
+}
+
+/* Refresh holder and status of instruments changed by a block; issued instruments are inserted by their routes */
+async function syncInstruments(engine: LedgerEngine, blockHeight: number): Promise<void> {
+  const block = await committedBlock(engine, blockHeight);
+  const instrumentIds = new Set(block.transactions
+    .filter(tx => tx.instrumentType === 'GBDC' && tx.type !== 'MINT')
+    .flatMap(tx => [tx.instrumentId, ...((tx.data.instruments as string[] | undefined) ?? [])]));
+  for (const instrumentId of instrumentIds) {
+    const gbdc = engine.getGBDCRecord(instrumentId);
+    if (!gbdc) continue;
+    await query(
+      'UPDATE gbdc_instruments SET holder_id = $1, status = $2, updated_at = NOW() WHERE instrument_id = $3',
+      [gbdc.holder, gbdc.status, instrumentId]
+    );
+  }
+
+  const crdnIds = new Set(block.transactions
+    .filter(tx => tx.instrumentType === 'CRDN' && tx.type !== 'MINT')
+    .map(tx => tx.instrumentId));
+  for (const instrumentId of crdnIds) {
+    const crdn = engine.getCRDNRecord(instrumentId);
+    if (!crdn) continue;
+    await query(
+      'UPDATE crdn_instruments SET status = $1, holder_id = $2, amount_cedi = $3, cocoa_weight_kg = $4, updated_at = NOW() WHERE instrument_id = $5',
+      [crdn.status, crdn.holder, crdn.amountCedi, crdn.cocoaWeightKg, instrumentId]
+    );
+  }
+}
+
+/* Post escrow releases to the budget ledger and refresh milestone and project status for escrows changed by a block */
+async function syncEscrows(engine: LedgerEngine, blockHeight: number): Promise<void> {
+  const block = await committedBlock(engine, blockHeight);
+  const escrowTxs = block.transactions.filter(tx => tx.type === 'ESCROW' || tx.data.escrow);
+  for (const tx of escrowTxs.filter(tx => tx.data.escrow === 'RELEASE')) {
+    await recordEscrowRelease({
+      projectId: tx.data.projectId as string,
+      milestoneId: tx.data.milestoneId as string,
+      amountGBDC: tx.amount,
+      txId: tx.txId,
+    });
+  }
+
+  const projectIds = new Set(escrowTxs.map(tx => tx.data.projectId as string));
+  for (const projectId of projectIds) {
+    const escrow = engine.getEscrow(projectId);
+    if (!escrow) continue;
+    for (const milestone of escrow.milestones) {
+      if (milestone.status === 'LOCKED') continue;
+      await query(
+        `UPDATE project_milestones SET status = $1, released_tx_id = $2, released_at = CASE WHEN $2::text IS NULL THEN NULL ELSE NOW() END
+         WHERE milestone_id = $3 AND status <> $1`,
+        [milestone.status, milestone.releaseTxId ?? null, milestone.milestoneId]
+      );
+    }
+    const status = escrow.status === 'ACTIVE' ? (escrow.releasedCedi > 0 ? 'IN_PROGRESS' : 'APPROVED') : escrow.status;
+    await query('UPDATE government_projects SET status = $1, updated_at = NOW() WHERE project_id = $2', [status, projectId]);
+  }
+}
+
+/* Upsert notes, record coupons and refresh series subscriptions for yield note steps in a block */
+async function syncYieldNotes(engine: LedgerEngine, blockHeight: number): Promise<void> {
+  const block = await committedBlock(engine, blockHeight);
+  const noteTxs = block.transactions.filter(tx => tx.type === 'YIELD_NOTE' || tx.data.yieldNote);
+
+  for (const tx of noteTxs.filter(tx => tx.data.noteId)) {
+    const note = engine.getYieldNote(tx.data.noteId as string)!;
+    const series = engine.getNoteSeries(note.seriesId)!;
+    await query(
+      `INSERT INTO yield_notes (note_id, series_id, asset_type, investor_id, principal_cedi, yield_percentage, maturity_date,
+         backing_instrument_ids, status, coupons_paid_cedi, last_coupon_at, subscription_tx_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT (note_id) DO UPDATE SET status = EXCLUDED.status, coupons_paid_cedi = EXCLUDED.coupons_paid_cedi,
+         last_coupon_at = EXCLUDED.last_coupon_at, updated_at = NOW()`,
+      [note.noteId, note.seriesId, series.assetType, note.investorId, note.principalCedi, series.couponRatePercent,
+        series.maturityDate, JSON.stringify(series.backingIds), note.status, note.couponsPaidCedi, note.lastCouponAt, tx.txId]
+    );
+    if (tx.data.yieldNote === 'COUPON') {
+      await query(
+        `INSERT INTO yield_note_coupons (note_id, coupon_date, amount_cedi, tx_id) VALUES ($1, $2, $3, $4)
+         ON CONFLICT (tx_id) DO NOTHING`,
+        [note.noteId, tx.data.couponDate, tx.amount, tx.txId]
+      );
+    }
+    if (tx.data.yieldNote === 'REDEEM') {
+      await query('UPDATE yield_notes SET redemption_tx_id = $1, redeemed_at = NOW() WHERE note_id = $2', [tx.txId, note.noteId]);
+    }
+  }
+
+  const seriesIds = new Set(noteTxs.map(tx => tx.data.seriesId as string));
+  for (const seriesId of seriesIds) {
+    const series = engine.getNoteSeries(seriesId);
+    if (!series) continue;
+    await query('UPDATE yield_note_series SET subscribed_cedi = $1 WHERE series_id = $2', [series.subscribedCedi, seriesId]);
+  }
+}
+
+/* Engine errors are "CODE: message" or a bare message */
+function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const match = /^([A-Z]+_\d{3})(?::\s*(.*))?$/.exec(message);
+  if (!match) return new AppError(message, 422, 'LEDGER_REJECTED');
+  const status = match[1].startsWith('AUTH_') ? 403 : 422;
+  return new AppError(match[2] || message, status, match[1]);
+}
@@ -0,0 +1,105 @@
+/**
+ * GOVRES — Mobile Money Provider Adapter Tests
+ * Each adapter against its local simulator, and the validation of
+ * provider callbacks
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { MomoSimulators, startMomoSimulators } from '../simulators/momo';
+import { AirtelTigoMoneyAdapter, MomoProviderAdapter, MomoProviderCode, MtnMomoAdapter, VodafoneCashAdapter, providerForPhone, toMsisdn } from './momo-providers';
+
+let simulators: MomoSimulators;
+let receiver: http.Server;
+let callbackUrl: string;
+const callbacks = new Map<string, (body: unknown) => void>();
+
+beforeAll(async () => {
+  simulators = await startMomoSimulators({ settleDelayMs: 20 });
+  // Hands each callback to the test waiting on its path
+  receiver = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      callbacks.get(req.url ?? '')?.(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  callbackUrl = `http://127.0.0.1:${(receiver.address() as { port: number }).port}`;
+});
+
+afterAll(async () => {
+  await simulators.close();
+  await new Promise<void>(resolve => receiver.close(() => resolve()));
+});
+
+const adapterFor = (code: MomoProviderCode): MomoProviderAdapter => {
+  const baseUrl = simulators.urls[code];
+  switch (code) {
+    case 'MTN_MOMO':
+      return new MtnMomoAdapter({ baseUrl, apiUser: 'user', apiKey: 'key', subscriptionKey: 'sub', environment: 'sandbox' });
+    case 'VODAFONE_CASH':
+      return new VodafoneCashAdapter({ baseUrl, apiKey: 'key' });
+    case 'AIRTELTIGO_MONEY':
+      return new AirtelTigoMoneyAdapter({ baseUrl, clientId: 'client', clientSecret: 'secret' });
+  }
+};
+
+/* Send a payout and wait for the simulator's callback about it */
+async function payAndAwaitCallback(code: MomoProviderCode, phoneNumber: string) {
+  const adapter = adapterFor(code);
+  const reference = crypto.randomUUID();
+  const path = `/${code}/${reference}`;
+  const received = new Promise<unknown>(resolve => callbacks.set(path, resolve));
+  const accepted = await adapter.initiatePayout({ reference, phoneNumber, amountCedi: 125.5, description: 'Test payout', callbackUrl: `${callbackUrl}${path}` });
+  return { adapter, reference, accepted, callback: await received };
+}
+
+// ─── Callbacks ──────────────────────────────────────────
+
+describe('parseCallback', () => {
+  it.each([
+    ['MTN_MOMO', '0241234567'],
+    ['VODAFONE_CASH', '0201234567'],
+    ['AIRTELTIGO_MONEY', '0271234567'],
+  ] as const)('reads the reference and reported outcome of a %s callback', async (code, phoneNumber) => {
+    const { adapter, reference, accepted, callback } = await payAndAwaitCallback(code, phoneNumber);
+
+    expect(accepted.state).toBe('PENDING');
+    expect(adapter.parseCallback(callback)).toEqual({ reference, reported: expect.objectContaining({ state: 'SUCCESSFUL' }) });
+    expect(await adapter.getPayoutStatus(reference)).toMatchObject({ state: 'SUCCESSFUL', providerTxId: expect.stringContaining(code) });
+  });
+
+  it('reads a failed payout with its reason', async () => {
+    const { adapter, reference, callback } = await payAndAwaitCallback('VODAFONE_CASH', '0201234560');
+    expect(adapter.parseCallback(callback)).toEqual({ reference, reported: expect.objectContaining({ state: 'FAILED', reason: 'Payee wallet not found' }) });
+  });
+
+  it.each([
+    ['MTN_MOMO', [undefined, null, 'SUCCESSFUL', {}, { externalId: 'REF-1' }, { externalId: 42, status: 'SUCCESSFUL' }, { externalId: '', status: 'SUCCESSFUL' }]],
+    ['VODAFONE_CASH', [undefined, [], { reference: 'REF-1' }, { reference: 'REF-1', status: 1 }, { externalId: 'REF-1', status: 'SUCCESS' }]],
+    ['AIRTELTIGO_MONEY', [undefined, { id: 'REF-1', status_code: 'TS' }, { transaction: { id: 'REF-1' } }, { transaction: { id: 'REF-1', status_code: 'TS', message: 7 } }]],
+  ] as const)('refuses %s bodies that are not one of its callbacks', (code, bodies) => {
+    const adapter = adapterFor(code);
+    for (const body of bodies) expect(adapter.parseCallback(body)).toBeUndefined();
+  });
+
+  it("refuses another provider's callback", async () => {
+    const { callback } = await payAndAwaitCallback('MTN_MOMO', '0241234567');
+    expect(adapterFor('VODAFONE_CASH').parseCallback(callback)).toBeUndefined();
+    expect(adapterFor('AIRTELTIGO_MONEY').parseCallback(callback)).toBeUndefined();
+  });
+});
+
+// ─── Phone Numbers ──────────────────────────────────────
+
+describe('phone numbers', () => {
+  it('normalises local and international forms to an MSISDN and finds the provider by prefix', () => {
+    expect(['0241234567', '233241234567', '+233 24 123 4567'].map(toMsisdn)).toEqual(Array(3).fill('233241234567'));
+    expect(providerForPhone('+233201234567')).toBe('VODAFONE_CASH');
+    expect(providerForPhone('0271234567')).toBe('AIRTELTIGO_MONEY');
+    expect(providerForPhone('0211234567')).toBeUndefined();
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * GOVRES — Mobile Money Provider Adapters
+ *
+ * One adapter per entry in MOMO_PROVIDERS, each speaking its provider's
+ * disbursement API behind the same interface: send a payout, poll its
+ * status, read a callback and reverse a payout. Adapters are stateless
+ * apart from cached access tokens; the payout service owns retries and
+ * the ledger side of a payout.
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import { MOMO_PROVIDERS, SYSTEM } from '@govres/shared';
+
+export type MomoProviderCode = typeof MOMO_PROVIDERS[number]['code'];
+
+export type PayoutState = 'PENDING' | 'SUCCESSFUL' | 'FAILED';
+
+export interface PayoutStatus {
+  state: PayoutState;
+  /** Provider's own id for the payout, once it has one */
+  providerTxId?: string;
+  reason?: string;
+}
+
+/** A provider callback about one of our payouts */
+export interface PayoutCallback {
+  reference: string;
+  /** What the callback claims; the payout service reads the status back rather than trusting it */
+  reported: PayoutStatus;
+}
+
+export interface PayoutRequest {
+  /** Our reference for the payout, a UUID reused on every attempt so a resent payout is not paid twice */
+  reference: string;
+  phoneNumber: string;
+  amountCedi: number;
+  description: string;
+  callbackUrl?: string;
+}
+
+export interface MomoProviderAdapter {
+  readonly code: MomoProviderCode;
+  /** Send a payout; the provider usually accepts it as PENDING and reports the outcome later */
+  initiatePayout(request: PayoutRequest): Promise<PayoutStatus>;
+  getPayoutStatus(reference: string): Promise<PayoutStatus>;
+  /** The payout a callback is about, or undefined if the body is not one of the provider's callbacks */
+  parseCallback(body: unknown): PayoutCallback | undefined;
+  /** Reverse a payout, or cancel one still pending; resolves to the reversal's state */
+  reversePayout(reference: string, providerTxId?: string): Promise<PayoutStatus>;
+}
+
+/**
+ * A provider request that failed. Retryable failures (timeouts, network
+ * errors, throttling and server errors) leave the payout to be tried again.
+ */
+export class MomoProviderError extends Error {
+  public retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.retryable = retryable;
+    Object.setPrototypeOf(this, MomoProviderError.prototype);
+  }
+}
+
+/* A 409 means the provider already has this reference, which is how a resent payout shows up */
+const ALREADY_RECEIVED = 409;
+
+async function request(provider: string, url: string, init: RequestInit & { expect?: number[] }): Promise<{ status: number; body: any }> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(SYSTEM.MOMO_REQUEST_TIMEOUT_MS) });
+  } catch (error) {
+    throw new MomoProviderError(`${provider} unreachable: ${(error as Error).message}`, true);
+  }
+  const text = await response.text();
+  let body: any;
+  try {
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    body = { message: text };
+  }
+  if (response.ok || init.expect?.includes(response.status)) return { status: response.status, body };
+  const retryable = response.status === 429 || response.status >= 500;
+  throw new MomoProviderError(`${provider} returned ${response.status}: ${body.message ?? body.reason ?? text}`, retryable);
+}
+
+// ─── MTN Mobile Money ───────────────────────────────────────
+
+/* Transfer as MTN returns it and calls back with it */
+const MtnTransfer = z.object({
+  externalId: z.string().min(1),
+  status: z.string().min(1),
+  financialTransactionId: z.string().nullish(),
+  reason: z.union([z.string(), z.object({ message: z.string().nullish() }).passthrough()]).nullish(),
+});
+
+/* MTN MoMo Open API disbursements: transfers keyed by X-Reference-Id, bearer tokens from the disbursement token endpoint */
+export class MtnMomoAdapter implements MomoProviderAdapter {
+  readonly code = 'MTN_MOMO' as const;
+  private token?: { value: string; expiresAt: number };
+
+  constructor(private config: { baseUrl: string; apiUser: string; apiKey: string; subscriptionKey: string; environment: string }) {}
+
+  async initiatePayout(payout: PayoutRequest): Promise<PayoutStatus> {
+    await request('MTN MoMo', `${this.config.baseUrl}/disbursement/v1_0/transfer`, {
+      method: 'POST',
+      headers: {
+        ...(await this.headers()),
+        'X-Reference-Id': payout.reference,
+        ...(payout.callbackUrl ? { 'X-Callback-Url': payout.callbackUrl } : {}),
+      },
+      body: JSON.stringify({
+        amount: payout.amountCedi.toFixed(2),
+        currency: 'GHS',
+        externalId: payout.reference,
+        payee: { partyIdType: 'MSISDN', partyId: toMsisdn(payout.phoneNumber) },
+        payerMessage: payout.description,
+        payeeNote: payout.description,
+      }),
+      expect: [ALREADY_RECEIVED],
+    });
+    return this.getPayoutStatus(payout.reference);
+  }
+
+  async getPayoutStatus(reference: string): Promise<PayoutStatus> {
+    const { body } = await request('MTN MoMo', `${this.config.baseUrl}/disbursement/v1_0/transfer/${reference}`, {
+      headers: await this.headers(),
+    });
+    return mtnStatus(body);
+  }
+
+  parseCallback(body: unknown): PayoutCallback | undefined {
+    const parsed = MtnTransfer.safeParse(body);
+    return parsed.success ? { reference: parsed.data.externalId, reported: mtnStatus(parsed.data) } : undefined;
+  }
+
+  async reversePayout(reference: string): Promise<PayoutStatus> {
+    const refundReference = crypto.randomUUID();
+    await request('MTN MoMo', `${this.config.baseUrl}/disbursement/v1_0/refund`, {
+      method: 'POST',
+      headers: { ...(await this.headers()), 'X-Reference-Id': refundReference },
+      body: JSON.stringify({ referenceIdToRefund: reference, externalId: refundReference, payerMessage: 'Payout reversal' }),
+    });
+    const { body } = await request('MTN MoMo', `${this.config.baseUrl}/disbursement/v1_0/refund/${refundReference}`, {
+      headers: await this.headers(),
+    });
+    return mtnStatus(body);
+  }
+
+  private async headers(): Promise<Record<string, string>> {
+    if (!this.token || this.token.expiresAt <= Date.now()) {
+      const credentials = Buffer.from(`${this.config.apiUser}:${this.config.apiKey}`).toString('base64');
+      const { body } = await request('MTN MoMo', `${this.config.baseUrl}/disbursement/token/`, {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}`, 'Ocp-Apim-Subscription-Key': this.config.subscriptionKey },
+      });
+      // Renew a minute early so a token never expires mid-request
+      this.token = { value: body.access_token, expiresAt: Date.now() + (Number(body.expires_in ?? 3600) - 60) * 1000 };
+    }
+    return {
+      Authorization: `Bearer ${this.token.value}`,
+      'Ocp-Apim-Subscription-Key': this.config.subscriptionKey,
+      'X-Target-Environment': this.config.environment,
+      'Content-Type': 'application/json',
+    };
+  }
+}
+
+function mtnStatus(body: any): PayoutStatus {
+  const state: PayoutState = body.status === 'SUCCESSFUL' ? 'SUCCESSFUL' : body.status === 'FAILED' || body.status === 'REJECTED' ? 'FAILED' : 'PENDING';
+  return { state, providerTxId: body.financialTransactionId ?? undefined, reason: body.reason?.message ?? body.reason ?? undefined };
+}
+
+// ─── Vodafone Cash ──────────────────────────────────────────
+
+const VodafonePayout = z.object({
+  reference: z.string().min(1),
+  status: z.string().min(1),
+  transactionId: z.string().nullish(),
+  message: z.string().nullish(),
+});
+
+/* Vodafone Cash merchant payouts: API-key authenticated, keyed by our reference */
+export class VodafoneCashAdapter implements MomoProviderAdapter {
+  readonly code = 'VODAFONE_CASH' as const;
+
+  constructor(private config: { baseUrl: string; apiKey: string }) {}
+
+  async initiatePayout(payout: PayoutRequest): Promise<PayoutStatus> {
+    const { status, body } = await request('Vodafone Cash', `${this.config.baseUrl}/v1/payouts`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        reference: payout.reference,
+        msisdn: toMsisdn(payout.phoneNumber),
+        amount: payout.amountCedi.toFixed(2),
+        currency: 'GHS',
+        narration: payout.description,
+        callbackUrl: payout.callbackUrl,
+      }),
+      expect: [ALREADY_RECEIVED],
+    });
+    return status === ALREADY_RECEIVED ? this.getPayoutStatus(payout.reference) : vodafoneStatus(body);
+  }
+
+  async getPayoutStatus(reference: string): Promise<PayoutStatus> {
+    const { body } = await request('Vodafone Cash', `${this.config.baseUrl}/v1/payouts/${reference}`, { headers: this.headers() });
+    return vodafoneStatus(body);
+  }
+
+  parseCallback(body: unknown): PayoutCallback | undefined {
+    const parsed = VodafonePayout.safeParse(body);
+    return parsed.success ? { reference: parsed.data.reference, reported: vodafoneStatus(parsed.data) } : undefined;
+  }
+
+  async reversePayout(reference: string): Promise<PayoutStatus> {
+    const { body } = await request('Vodafone Cash', `${this.config.baseUrl}/v1/payouts/${reference}/reversal`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ reason: 'Payout reversal' }),
+    });
+    return vodafoneStatus(body);
+  }
+
+  private headers(): Record<string, string> {
+    return { 'X-Api-Key': this.config.apiKey, 'Content-Type': 'application/json' };
+  }
+}
+
+function vodafoneStatus(body: any): PayoutStatus {
+  const state: PayoutState = body.status === 'SUCCESS' ? 'SUCCESSFUL' : body.status === 'FAILED' ? 'FAILED' : 'PENDING';
+  return { state, providerTxId: body.transactionId ?? undefined, reason: body.message ?? undefined };
+}
+
+// ─── AirtelTigo Money ───────────────────────────────────────
+
+/* Callbacks carry the transaction's status code as status_code */
+const AirtelTigoCallback = z.object({
+  transaction: z.object({
+    id: z.string().min(1),
+    status_code: z.string().min(1),
+    airtel_money_id: z.string().nullish(),
+    message: z.string().nullish(),
+  }),
+});
+
+/* AirtelTigo Money disbursements: OAuth client credentials, TS/TF/TIP transaction status codes */
+export class AirtelTigoMoneyAdapter implements MomoProviderAdapter {
+  readonly code = 'AIRTELTIGO_MONEY' as const;
+  private token?: { value: string; expiresAt: number };
+
+  constructor(private config: { baseUrl: string; clientId: string; clientSecret: string }) {}
+
+  async initiatePayout(payout: PayoutRequest): Promise<PayoutStatus> {
+    const { status, body } = await request('AirtelTigo Money', `${this.config.baseUrl}/standard/v1/disbursements/`, {
+      method: 'POST',
+      headers: await this.headers(),
+      body: JSON.stringify({
+        payee: { msisdn: toMsisdn(payout.phoneNumber).slice(3) },
+        reference: payout.description.slice(0, 64),
+        transaction: { amount: payout.amountCedi, id: payout.reference, type: 'B2C' },
+        callback_url: payout.callbackUrl,
+      }),
+      expect: [ALREADY_RECEIVED],
+    });
+    return status === ALREADY_RECEIVED ? this.getPayoutStatus(payout.reference) : airtelTigoStatus(body.data?.transaction);
+  }
+
+  async getPayoutStatus(reference: string): Promise<PayoutStatus> {
+    const { body } = await request('AirtelTigo Money', `${this.config.baseUrl}/standard/v1/disbursements/${reference}`, {
+      headers: await this.headers(),
+    });
+    return airtelTigoStatus(body.data?.transaction);
+  }
+
+  parseCallback(body: unknown): PayoutCallback | undefined {
+    const parsed = AirtelTigoCallback.safeParse(body);
+    return parsed.success ? { reference: parsed.data.transaction.id, reported: airtelTigoStatus(parsed.data.transaction) } : undefined;
+  }
+
+  async reversePayout(reference: string, providerTxId?: string): Promise<PayoutStatus> {
+    const { body } = await request('AirtelTigo Money', `${this.config.baseUrl}/standard/v1/payments/refund`, {
+      method: 'POST',
+      headers: await this.headers(),
+      body: JSON.stringify({ transaction: { id: reference, airtel_money_id: providerTxId } }),
+    });
+    return airtelTigoStatus(body.data?.transaction);
+  }
+
+  private async headers(): Promise<Record<string, string>> {
+    if (!this.token || this.token.expiresAt <= Date.now()) {
+      const { body } = await request('AirtelTigo Money', `${this.config.baseUrl}/auth/oauth2/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ client_id: this.config.clientId, client_secret: this.config.clientSecret, grant_type: 'client_credentials' }),
+      });
+      this.token = { value: body.access_token, expiresAt: Date.now() + (Number(body.expires_in ?? 3600) - 60) * 1000 };
+    }
+    return {
+      Authorization: `Bearer ${this.token.value}`,
+      'X-Country': 'GH',
+      'X-Currency': 'GHS',
+      'Content-Type': 'application/json',
+    };
+  }
+}
+
+function airtelTigoStatus(transaction: any): PayoutStatus {
+  const code = transaction?.status ?? transaction?.status_code;
+  const state: PayoutState = code === 'TS' ? 'SUCCESSFUL' : code === 'TF' ? 'FAILED' : 'PENDING';
+  return { state, providerTxId: transaction?.airtel_money_id ?? undefined, reason: transaction?.message ?? undefined };
+}
+
+// ─── Registry ───────────────────────────────────────────────
+
+const adapters = new Map<MomoProviderCode, MomoProviderAdapter>();
+
+/**
+ * The adapter for a provider, configured from the environment. Each
+ * provider's base URL can point at the local simulators.
+ */
+export function getMomoProvider(code: MomoProviderCode): MomoProviderAdapter {
+  let adapter = adapters.get(code);
+  if (!adapter) {
+    const env = process.env;
+    switch (code) {
+      case 'MTN_MOMO':
+        adapter = new MtnMomoAdapter({
+          baseUrl: env.MTN_MOMO_API_URL || 'https://sandbox.momodeveloper.mtn.com',
+          apiUser: env.MTN_MOMO_API_USER || '',
+          apiKey: env.MTN_MOMO_API_KEY || '',
+          subscriptionKey: env.MTN_MOMO_SUBSCRIPTION_KEY || '',
+          environment: env.MTN_MOMO_TARGET_ENVIRONMENT || 'sandbox',
+        });
+        break;
+      case 'VODAFONE_CASH':
+        adapter = new VodafoneCashAdapter({ baseUrl: env.VODAFONE_CASH_API_URL || '', apiKey: env.VODAFONE_CASH_API_KEY || '' });
+        break;
+      case 'AIRTELTIGO_MONEY':
+        adapter = new AirtelTigoMoneyAdapter({
+          baseUrl: env.AIRTELTIGO_MONEY_API_URL || '',
+          clientId: env.AIRTELTIGO_MONEY_CLIENT_ID || '',
+          clientSecret: env.AIRTELTIGO_MONEY_CLIENT_SECRET || '',
+        });
+        break;
+    }
+    adapters.set(code, adapter!);
+  }
+  return adapter!;
+}
+
+/**
+ * The provider whose number prefixes include a Ghanaian phone number,
+ * given in local (0XX...) or international (233XX... or +233XX...) form
+ */
+export function providerForPhone(phoneNumber: string): MomoProviderCode | undefined {
+  const local = `0${toMsisdn(phoneNumber).slice(3)}`;
+  return MOMO_PROVIDERS.find(provider => provider.prefix.split('|').includes(local.slice(0, 3)))?.code;
+}
+
+/**
+ * A Ghanaian phone number as a 233XXXXXXXXX MSISDN
+ */
+export function toMsisdn(phoneNumber: string): string {
+  const digits = phoneNumber.replace(/\D/g, '');
+  return digits.startsWith('233') ? digits : `233${digits.replace(/^0/, '')}`;
+}
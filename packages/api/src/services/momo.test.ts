@@ -0,0 +1,240 @@
+/**
+ * GOVRES — Mobile Money Payout Service Tests
+ * Payment limits and compliance holds, sending, retry with exponential
+ * backoff, and settlement of payouts against the local provider
+ * simulators and an in-memory stand-in for momo_transactions
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { ERROR_CODES, SYSTEM } from '@govres/shared';
+import { MomoSimulators, startMomoSimulators } from '../simulators/momo';
+
+const db = vi.hoisted(() => ({
+  payouts: new Map<string, any>(),
+  reviews: [] as any[],
+  kycTier: 3,
+  ledger: {
+    transferGBDC: (() => undefined) as (...args: unknown[]) => unknown,
+    getCRDNRecord: () => undefined,
+    getAccountBalance: () => ({ gbdcBalance: 0 }),
+    registerAccount: () => undefined,
+  },
+}));
+
+vi.mock('../database/connection', () => {
+  const query = async (text: string, params: any[] = []) => {
+    const sql = text.replace(/\s+/g, ' ').trim();
+    const rows = (list: any[]) => ({ rows: list.map(row => ({ ...row })), rowCount: list.length });
+    const all = [...db.payouts.values()];
+    const byId = (id: string) => all.filter(row => row.momo_tx_id === id);
+    const update = (list: any[], changes: Record<string, unknown>) => {
+      list.forEach(row => Object.assign(row, changes, { updated_at: new Date() }));
+      return rows(list);
+    };
+
+    if (sql.startsWith('SELECT kyc_tier FROM user_accounts')) return rows([{ kyc_tier: db.kycTier }]);
+    if (sql.startsWith('SELECT amount_cedi, scheduled_for FROM momo_transactions')) {
+      const column = sql.includes('WHERE account_id') ? 'account_id' : 'phone_number';
+      const since = Date.now() - 30 * 24 * 60 * 60 * 1000;
+      return rows(all.filter(row => row[column] === params[0] && !['FAILED', 'REVERSED'].includes(row.status) && row.scheduled_for.getTime() > since));
+    }
+    if (sql.startsWith('INSERT INTO momo_transactions')) {
+      const [momo_tx_id, govres_tx_id, provider, provider_reference, phone_number, amount_cedi, instrument_type, crdn_instrument_id,
+        account_id, cashout_id, tranche, tranche_count, scheduled_for, next_attempt_at, status] = params;
+      db.payouts.set(momo_tx_id, {
+        momo_tx_id, govres_tx_id, provider, provider_reference, provider_tx_id: null, phone_number, amount_cedi: String(amount_cedi),
+        instrument_type, crdn_instrument_id, account_id, cashout_id, tranche, tranche_count, scheduled_for, status, attempts: 0,
+        next_attempt_at, accepted_at: null, last_error: null, failure_reason: null, settlement_tx_id: null,
+        created_at: new Date(), updated_at: new Date(), completed_at: null,
+      });
+      return rows([db.payouts.get(momo_tx_id)]);
+    }
+    if (sql.startsWith('INSERT INTO payment_reviews')) {
+      const [review_id, cashout_id, account_id, phone_number, amount_cedi, reason_code, reason, checks] = params;
+      db.reviews.push({ review_id, cashout_id, account_id, phone_number, amount_cedi: String(amount_cedi), reason_code, reason, checks: JSON.parse(checks), status: 'PENDING' });
+      return rows([db.reviews.at(-1)]);
+    }
+    if (sql.startsWith('SELECT * FROM momo_transactions WHERE momo_tx_id = $1')) return rows(byId(params[0]));
+    if (sql.startsWith('SELECT 1 FROM momo_transactions WHERE cashout_id = $1 AND tranche < $2')) {
+      return rows(all.filter(row => row.cashout_id === params[0] && row.tranche < params[1] && row.status !== 'COMPLETED'));
+    }
+    if (sql.startsWith('SELECT status FROM momo_transactions WHERE cashout_id = $1 AND momo_tx_id <> $2')) {
+      return rows(all.filter(row => row.cashout_id === params[0] && row.momo_tx_id !== params[1]));
+    }
+    if (sql.startsWith('SELECT momo_tx_id, status FROM momo_transactions m')) {
+      const due = (row: any) => row.status === 'PENDING' || (row.status === 'INITIATED'
+        && (!row.next_attempt_at || row.next_attempt_at <= new Date())
+        && !all.some(e => e.cashout_id === row.cashout_id && e.tranche < row.tranche && e.status !== 'COMPLETED'));
+      return rows(all.filter(due));
+    }
+    if (sql.startsWith('UPDATE momo_transactions SET attempts = $1, last_error = $2, next_attempt_at = $3')) {
+      return update(byId(params[3]), { attempts: params[0], last_error: params[1], next_attempt_at: params[2] });
+    }
+    if (sql.startsWith('UPDATE momo_transactions SET attempts = $1 WHERE momo_tx_id = $2')) return update(byId(params[1]), { attempts: params[0] });
+    if (sql.startsWith("UPDATE momo_transactions SET status = 'PENDING'")) {
+      return update(byId(params[2]), {
+        status: 'PENDING', attempts: params[0], accepted_at: new Date(), provider_tx_id: params[1], last_error: null, next_attempt_at: null,
+      });
+    }
+    if (sql.startsWith('UPDATE momo_transactions SET last_error = $1')) return update(byId(params[1]), { last_error: params[0] });
+    if (sql.startsWith('UPDATE momo_transactions SET provider_tx_id = $1')) return update(byId(params[1]), { provider_tx_id: params[0] });
+    if (sql.startsWith('UPDATE momo_transactions SET status = $1, failure_reason = $2')) {
+      const [status, failure_reason, providerTxId, settlement_tx_id, id] = params;
+      const [row] = byId(id);
+      return update([row], { status, failure_reason, provider_tx_id: providerTxId ?? row.provider_tx_id, settlement_tx_id, completed_at: new Date(), next_attempt_at: null });
+    }
+    if (sql.startsWith("UPDATE momo_transactions SET status = 'FAILED', failure_reason = $1")) {
+      return update(all.filter(row => row.cashout_id === params[1] && ['HELD', 'INITIATED'].includes(row.status)), {
+        status: 'FAILED', failure_reason: params[0], completed_at: new Date(), next_attempt_at: null,
+      });
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+  return { query, withTransaction: (fn: (client: unknown) => Promise<unknown>) => fn({ query }) };
+});
+
+vi.mock('../utils/logger', () => ({ logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } }));
+
+vi.mock('./ledger', () => ({
+  getLedger: async () => db.ledger,
+  ensureAccounts: async () => undefined,
+  submit: async (operation: (engine: unknown) => unknown) => ({ result: operation(db.ledger), txId: 'TX-RETURN', blockHeight: 1 }),
+}));
+
+import { logger } from '../utils/logger';
+import { MOMO_SETTLEMENT_ACCOUNT, runMomoPayouts, sendMomoPayout, startMomoTransfer } from './momo';
+
+let simulators: MomoSimulators;
+let transfers: unknown[];
+
+beforeAll(async () => {
+  simulators = await startMomoSimulators({ settleDelayMs: 20 });
+  process.env.MTN_MOMO_API_URL = simulators.urls.MTN_MOMO;
+  process.env.VODAFONE_CASH_API_URL = simulators.urls.VODAFONE_CASH;
+  process.env.AIRTELTIGO_MONEY_API_URL = simulators.urls.AIRTELTIGO_MONEY;
+});
+
+afterAll(() => simulators.close());
+
+beforeEach(() => {
+  db.payouts.clear();
+  db.reviews.length = 0;
+  db.kycTier = 3;
+  transfers = [];
+  db.ledger.transferGBDC = params => { transfers.push(params); };
+  vi.mocked(logger.warn).mockClear();
+});
+
+/* A GBDC payout from a bank, due now. The simulators answer numbers ending in 8 with a 503 on the first try */
+function payout(momoTxId: string, phoneNumber: string, overrides: Record<string, unknown> = {}) {
+  const row = {
+    momo_tx_id: momoTxId, govres_tx_id: 'TX-PAY', provider: 'MTN_MOMO', provider_reference: crypto.randomUUID(), provider_tx_id: null,
+    phone_number: phoneNumber, amount_cedi: '250.0000', instrument_type: 'GBDC', crdn_instrument_id: null, account_id: 'BANK-A',
+    cashout_id: `MCO-${momoTxId}`, tranche: 1, tranche_count: 1, scheduled_for: new Date(), status: 'INITIATED', attempts: 0,
+    next_attempt_at: new Date(), accepted_at: null, last_error: null, failure_reason: null, settlement_tx_id: null,
+    created_at: new Date(), updated_at: new Date(), completed_at: null, ...overrides,
+  };
+  db.payouts.set(momoTxId, row);
+  return row;
+}
+
+const settleDelay = () => new Promise(resolve => setTimeout(resolve, 60));
+
+// ─── Payment Limits ─────────────────────────────────────
+
+describe('startMomoTransfer limits', () => {
+  const transfer = (amountCedi: number, phoneNumber = '0241234567') =>
+    startMomoTransfer({ accountId: 'BANK-A', provider: 'MTN_MOMO', phoneNumber, amountCedi });
+
+  it('holds a transfer that reaches the CTR threshold for compliance review, sending nothing until it is decided', async () => {
+    const cashout = await transfer(50_000);
+
+    expect(cashout.limits.action).toBe('REVIEW');
+    expect(cashout.review).toMatchObject({ cashout_id: cashout.cashoutId, reason_code: ERROR_CODES.AML_FLAG, amount_cedi: '50000', status: 'PENDING' });
+    expect(cashout.payouts).toEqual([expect.objectContaining({ status: 'HELD', next_attempt_at: null, amount_cedi: '50000' })]);
+    // The GBDC is taken when the transfer is recorded, so it cannot be spent while the review is pending
+    expect(transfers).toEqual([expect.objectContaining({ fromAccount: 'BANK-A', toAccount: MOMO_SETTLEMENT_ACCOUNT, amountCedi: 50_000 })]);
+
+    expect(await runMomoPayouts()).toEqual({ sent: 0, checked: 0, completed: 0, failed: 0 });
+    expect(db.payouts.get(cashout.payouts[0].momo_tx_id).status).toBe('HELD');
+  });
+
+  it("refuses a transfer one pesewa past the wallet's daily cap before any GBDC moves", async () => {
+    payout('MOMO-EARLIER', '0241234567', { status: 'COMPLETED', amount_cedi: '30000.0000', account_id: 'BANK-B' });
+
+    await expect(transfer(20_000.01)).rejects.toMatchObject({ statusCode: 422, code: ERROR_CODES.WALLET_DAILY_LIMIT_EXCEEDED });
+    expect(transfers).toEqual([]);
+    expect(db.payouts.size).toBe(1);
+  });
+
+  it('refuses senders whose KYC tier allows no payments', async () => {
+    db.kycTier = 0;
+    await expect(transfer(10)).rejects.toMatchObject({ statusCode: 403, code: ERROR_CODES.KYC_REQUIRED });
+    expect(transfers).toEqual([]);
+  });
+});
+
+// ─── Retries ────────────────────────────────────────────
+
+describe('payout retries', () => {
+  it('retries a send the provider turned away after the backoff, under the same reference, and settles it', async () => {
+    const { provider_reference: reference } = payout('MOMO-1', '0241234568');
+    const sentAt = Date.now();
+
+    const refused = await sendMomoPayout('MOMO-1');
+    expect(refused).toMatchObject({ status: 'INITIATED', attempts: 1, last_error: expect.stringContaining('503') });
+    expect(refused.next_attempt_at!.getTime()).toBeGreaterThanOrEqual(sentAt + SYSTEM.MOMO_RETRY_BASE_DELAY_MS);
+
+    // Nothing is sent again before the backoff has passed
+    expect(await runMomoPayouts()).toEqual({ sent: 0, checked: 0, completed: 0, failed: 0 });
+
+    db.payouts.get('MOMO-1').next_attempt_at = new Date(Date.now() - 1);
+    expect(await runMomoPayouts()).toMatchObject({ sent: 1 });
+    expect(db.payouts.get('MOMO-1')).toMatchObject({ status: 'PENDING', attempts: 2, provider_reference: reference, last_error: null });
+
+    await settleDelay();
+    expect(await runMomoPayouts()).toEqual({ sent: 0, checked: 1, completed: 1, failed: 0 });
+    expect(db.payouts.get('MOMO-1')).toMatchObject({ status: 'COMPLETED', provider_tx_id: expect.stringMatching(/^MTN_MOMO-/) });
+    expect(transfers).toEqual([]);
+  });
+
+  it('doubles the delay with every attempt', async () => {
+    for (let attempts = 0; attempts < SYSTEM.MOMO_MAX_ATTEMPTS - 1; attempts++) {
+      payout(`MOMO-${attempts}`, '0201234568', { provider: 'VODAFONE_CASH', attempts });
+      await sendMomoPayout(`MOMO-${attempts}`);
+    }
+
+    expect(logger.warn).toHaveBeenCalledTimes(4);
+    [1, 2, 4, 8].forEach((factor, call) => {
+      expect(logger.warn).toHaveBeenNthCalledWith(call + 1, expect.any(String), expect.objectContaining({ delayMs: factor * SYSTEM.MOMO_RETRY_BASE_DELAY_MS }));
+    });
+    expect([...db.payouts.values()].map(row => [row.status, row.attempts])).toEqual([['INITIATED', 1], ['INITIATED', 2], ['INITIATED', 3], ['INITIATED', 4]]);
+  });
+
+  it('fails the payout once its attempts run out and returns the GBDC to the bank', async () => {
+    payout('MOMO-1', '0271234568', { provider: 'AIRTELTIGO_MONEY', attempts: SYSTEM.MOMO_MAX_ATTEMPTS - 1 });
+
+    const failed = await sendMomoPayout('MOMO-1');
+    expect(failed).toMatchObject({ status: 'FAILED', attempts: SYSTEM.MOMO_MAX_ATTEMPTS, settlement_tx_id: 'TX-RETURN', failure_reason: expect.stringContaining('503') });
+    expect(transfers).toEqual([expect.objectContaining({ fromAccount: MOMO_SETTLEMENT_ACCOUNT, toAccount: 'BANK-A', amountCedi: 250 })]);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('does not retry a payout the provider refuses outright', async () => {
+    payout('MOMO-1', '0241234567', { amount_cedi: '0.0000' });
+
+    const failed = await sendMomoPayout('MOMO-1');
+    expect(failed).toMatchObject({ status: 'FAILED', attempts: 1, failure_reason: expect.stringContaining('400') });
+    expect(transfers).toHaveLength(1);
+  });
+
+  it('sends no tranche before the ones ahead of it are paid', async () => {
+    payout('MOMO-1', '0241234567', { cashout_id: 'MCO-1', tranche_count: 2 });
+    payout('MOMO-2', '0241234567', { cashout_id: 'MCO-1', tranche: 2, tranche_count: 2 });
+
+    await expect(sendMomoPayout('MOMO-2')).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+    expect(await runMomoPayouts()).toMatchObject({ sent: 1 });
+    expect(db.payouts.get('MOMO-2')).toMatchObject({ status: 'INITIATED', attempts: 0 });
+  });
+});
@@ -0,0 +1,487 @@
+/**
+ * GOVRES — Mobile Money Payout Service
+ *
+ * A MoMo cash-out converts the holder's CRDN on the ledger, leaving the
+ * note CONVERTING, and records an INITIATED payout. Cash-outs above the
+ * holder's payment limits are paid in tranches over several days, each
+ * its own payout sent after the one before is paid, and ones flagged by
+ * AML checks are HELD until BoG reviews them. A payout is sent to
+ * the provider under a reference that is reused on every attempt, so a
+ * resent payout is never paid twice; sends that fail in transit are
+ * retried with exponential backoff. Accepted payouts are PENDING until
+ * the provider's callback or the next status poll reports the outcome.
+ * Callbacks are only a prompt: the outcome is always read back from the
+ * provider. A payout ends COMPLETED, the last of a cash-out completing
+ * the conversion, or FAILED, which cancels the tranches after it and,
+ * when none were paid, returns the note to its holder; one still pending
+ * past the payout timeout is reversed with the provider and ends REVERSED.
+ * Banks also pay GBDC out to wallets, as single payouts whose GBDC is
+ * returned to the bank when they fail.
+ */
+
+import crypto from 'crypto';
+import { CRDNStatus, SYSTEM, UserRole } from '@govres/shared';
+import { PaymentLimitDecision } from '@govres/security';
+import { query, withTransaction } from '../database/connection';
+import { MomoPayoutRow, PaymentReviewRow } from '../database/rows';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { ensureAccounts, getLedger, submit } from './ledger';
+import { MomoProviderCode, MomoProviderError, PayoutStatus, getMomoProvider } from './momo-providers';
+import { assessMomoPayment, paymentBlockedError } from './payment-limits';
+
+export interface MomoCashout {
+  cashoutId: string;
+  limits: PaymentLimitDecision;
+  /* One payout per tranche, in the order they are sent */
+  payouts: MomoPayoutRow[];
+  /* Set when the cash-out is held for compliance review */
+  review?: PaymentReviewRow;
+}
+
+export interface MomoPayoutRun {
+  sent: number;
+  checked: number;
+  completed: number;
+  failed: number;
+}
+
+/* GBDC paid out to MoMo wallets, held here once sent and returned from here if a payout fails */
+export const MOMO_SETTLEMENT_ACCOUNT = 'MOMO_SETTLEMENT';
+
+/* Work on one payout at a time, so a callback and a poll cannot settle it twice */
+const payoutsInFlight = new Map<string, Promise<unknown>>();
+let runInFlight: Promise<MomoPayoutRun> | undefined;
+let payoutTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Convert a CRDN to cash and pay it to its holder's wallet, within the
+ * holder's payment limits: in one payout, in tranches over several days,
+ * or held for compliance review. Limits that cannot be met refuse the
+ * cash-out before the note is converted. The first send runs in the
+ * background.
+ */
+export async function startMomoCashout(params: {
+  instrumentId: string;
+  holderId: string;
+  provider: MomoProviderCode;
+  phoneNumber: string;
+  allowSplit: boolean;
+}): Promise<MomoCashout> {
+  const record = (await getLedger()).getCRDNRecord(params.instrumentId);
+  if (!record) throw new AppError('CRDN not found', 404, 'NOT_FOUND');
+  const limits = await assessMomoPayment({
+    accountId: params.holderId,
+    phoneNumber: params.phoneNumber,
+    amountCedi: record.amountCedi,
+    instrumentType: 'CRDN',
+    splittable: params.allowSplit,
+  });
+  if (limits.action === 'BLOCK') throw paymentBlockedError(limits);
+
+  await ensureAccounts(params.holderId);
+  const { txId } = await submit(
+    engine => engine.convertCRDN({ instrumentId: params.instrumentId, farmerId: params.holderId, targetInstrument: 'CASH' }),
+    { channel: 'MOMO' }
+  );
+  const crdn = (await getLedger()).getCRDNRecord(params.instrumentId)!;
+  await query('UPDATE crdn_instruments SET payout_account = $1 WHERE instrument_id = $2', [crdn.payoutAccount, params.instrumentId]);
+
+  return recordPayouts({
+    txId,
+    provider: params.provider,
+    phoneNumber: params.phoneNumber,
+    accountId: params.holderId,
+    amountCedi: crdn.amountCedi,
+    instrumentType: 'CRDN',
+    instrumentId: params.instrumentId,
+    limits,
+  });
+}
+
+/**
+ * Pay GBDC from a bank to a MoMo wallet in a single payout, within the
+ * wallet's daily cap and the bank's limits. The GBDC moves to the MoMo
+ * settlement account when the payout is recorded and goes back to the
+ * bank if the payout fails. The send runs in the background.
+ */
+export async function startMomoTransfer(params: {
+  accountId: string;
+  provider: MomoProviderCode;
+  phoneNumber: string;
+  amountCedi: number;
+}): Promise<MomoCashout> {
+  const limits = await assessMomoPayment({ ...params, instrumentType: 'GBDC', splittable: false });
+  if (limits.action === 'BLOCK') throw paymentBlockedError(limits);
+
+  await ensureAccounts(params.accountId);
+  const engine = await getLedger();
+  if (!engine.getAccountBalance(MOMO_SETTLEMENT_ACCOUNT)) engine.registerAccount(MOMO_SETTLEMENT_ACCOUNT, UserRole.BOG_ADMIN);
+  const { txId } = await submit(
+    engine => engine.transferGBDC({
+      fromAccount: params.accountId,
+      toAccount: MOMO_SETTLEMENT_ACCOUNT,
+      amountCedi: params.amountCedi,
+      description: `MoMo payout to ${params.phoneNumber}`,
+    }),
+    { channel: 'MOMO' }
+  );
+  return recordPayouts({ ...params, txId, instrumentType: 'GBDC', limits });
+}
+
+/**
+ * Send an INITIATED payout now, ignoring any backoff. Returns the payout
+ * as it stands afterwards.
+ */
+export function sendMomoPayout(momoTxId: string): Promise<MomoPayoutRow> {
+  return serialised(momoTxId, async () => {
+    const payout = await getPayout(momoTxId);
+    if (payout.status !== 'INITIATED') return payout;
+
+    // Sending a tranche early or out of order would break the limits it was scheduled under
+    if (new Date(payout.scheduled_for).getTime() > Date.now()) {
+      throw new AppError(`Tranche ${payout.tranche} of ${payout.cashout_id} is scheduled for ${new Date(payout.scheduled_for).toISOString()}`, 409, 'CONFLICT');
+    }
+    const earlier = await query(
+      `SELECT 1 FROM momo_transactions WHERE cashout_id = $1 AND tranche < $2 AND status <> 'COMPLETED'`,
+      [payout.cashout_id, payout.tranche]
+    );
+    if (earlier.rows.length > 0) {
+      throw new AppError(`Earlier tranches of ${payout.cashout_id} have not been paid`, 409, 'CONFLICT');
+    }
+
+    await attempt(payout);
+    return getPayout(momoTxId);
+  });
+}
+
+/**
+ * Act on a provider callback by reading the payout's status back from the
+ * provider. Returns the payout, or undefined if the callback is not for
+ * one of ours.
+ */
+export async function handleMomoCallback(provider: MomoProviderCode, body: unknown): Promise<MomoPayoutRow | undefined> {
+  const callback = getMomoProvider(provider).parseCallback(body);
+  if (!callback) return undefined;
+  const found = await query('SELECT momo_tx_id FROM momo_transactions WHERE provider = $1 AND provider_reference::text = $2', [provider, callback.reference]);
+  if (found.rows.length === 0) return undefined;
+
+  const momoTxId: string = found.rows[0].momo_tx_id;
+  return serialised(momoTxId, async () => {
+    const payout = await getPayout(momoTxId);
+    if (payout.status === 'PENDING' || payout.status === 'INITIATED') await check(payout);
+    return getPayout(momoTxId);
+  });
+}
+
+/**
+ * Reverse a payout still PENDING with its provider and return the note
+ * to its holder
+ */
+export function reverseMomoPayout(momoTxId: string, reason: string): Promise<MomoPayoutRow> {
+  return serialised(momoTxId, async () => {
+    const payout = await getPayout(momoTxId);
+    if (payout.status !== 'PENDING') throw new AppError(`MoMo payout is ${payout.status}`, 409, 'CONFLICT');
+    await reverse(payout, reason);
+    return getPayout(momoTxId);
+  });
+}
+
+/**
+ * Decide a cash-out held for compliance review. Approval releases its
+ * tranches, keeping their spacing from the time of approval; rejection
+ * fails the payouts and returns the note to its holder.
+ */
+export async function decideMomoReview(reviewId: string, params: { approve: boolean; decidedBy: string; note?: string }): Promise<PaymentReviewRow> {
+  const decided = await query(
+    `UPDATE payment_reviews SET status = $1, decided_by = $2, decision_note = $3, decided_at = NOW()
+     WHERE review_id = $4 AND status = 'PENDING'
+     RETURNING *`,
+    [params.approve ? 'APPROVED' : 'REJECTED', params.decidedBy, params.note ?? null, reviewId]
+  );
+  if (decided.rows.length === 0) {
+    const existing = await query('SELECT status FROM payment_reviews WHERE review_id = $1', [reviewId]);
+    if (existing.rows.length === 0) throw new AppError('Payment review not found', 404, 'NOT_FOUND');
+    throw new AppError(`Payment review is ${existing.rows[0].status}`, 409, 'CONFLICT');
+  }
+  const review: PaymentReviewRow = decided.rows[0];
+
+  const first = await query(`SELECT * FROM momo_transactions WHERE cashout_id = $1 AND tranche = 1`, [review.cashout_id]);
+  if (params.approve) {
+    await query(
+      `UPDATE momo_transactions SET status = 'INITIATED', scheduled_for = scheduled_for + (NOW() - $2::timestamptz),
+         next_attempt_at = scheduled_for + (NOW() - $2::timestamptz), updated_at = NOW()
+       WHERE cashout_id = $1 AND status = 'HELD'`,
+      [review.cashout_id, review.created_at]
+    );
+    sendInBackground(first.rows[0].momo_tx_id);
+  } else {
+    const reason = `Rejected on compliance review${params.note ? `: ${params.note}` : ''}`;
+    await serialised(first.rows[0].momo_tx_id, async () => settle(await getPayout(first.rows[0].momo_tx_id), 'FAILED', reason));
+  }
+  return review;
+}
+
+/**
+ * Send payouts whose backoff has passed and poll pending ones. A call
+ * while a run is in progress joins it.
+ */
+export function runMomoPayouts(): Promise<MomoPayoutRun> {
+  if (!runInFlight) {
+    runInFlight = processPayouts().finally(() => { runInFlight = undefined; });
+  }
+  return runInFlight;
+}
+
+/**
+ * Start running MoMo payouts on a timer
+ */
+export function startMomoPayouts(intervalMs: number = SYSTEM.MOMO_PAYOUT_CHECK_INTERVAL_MS): void {
+  if (payoutTimer) return;
+  payoutTimer = setInterval(() => {
+    runMomoPayouts()
+      .then(run => {
+        if (run.completed + run.failed > 0) logger.info('Settled MoMo payouts', run);
+      })
+      .catch(error => logger.error('MoMo payout run failed', { error: error instanceof Error ? error.message : String(error) }));
+  }, intervalMs);
+}
+
+async function processPayouts(): Promise<MomoPayoutRun> {
+  const due = await query(
+    `SELECT momo_tx_id, status FROM momo_transactions m
+     WHERE (status = 'INITIATED' AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+            AND NOT EXISTS (SELECT 1 FROM momo_transactions e WHERE e.cashout_id = m.cashout_id AND e.tranche < m.tranche AND e.status <> 'COMPLETED'))
+        OR status = 'PENDING'
+     ORDER BY created_at, tranche`
+  );
+  const run: MomoPayoutRun = { sent: 0, checked: 0, completed: 0, failed: 0 };
+  for (const { momo_tx_id: momoTxId, status } of due.rows as Pick<MomoPayoutRow, 'momo_tx_id' | 'status'>[]) {
+    const payout = await serialised(momoTxId, async () => {
+      const current = await getPayout(momoTxId);
+      // A callback may have settled it since the query
+      if (current.status !== status) return current;
+      await (status === 'INITIATED' ? attempt(current) : check(current));
+      return getPayout(momoTxId);
+    });
+    if (status === 'INITIATED') run.sent++;
+    else run.checked++;
+    if (payout.status === 'COMPLETED') run.completed++;
+    if (payout.status === 'FAILED' || payout.status === 'REVERSED') run.failed++;
+  }
+  return run;
+}
+
+/* Send a payout; transient failures are retried after a doubling delay until attempts run out */
+async function attempt(payout: MomoPayoutRow): Promise<void> {
+  const attempts = Number(payout.attempts) + 1;
+  let status: PayoutStatus;
+  try {
+    status = await getMomoProvider(payout.provider).initiatePayout({
+      reference: payout.provider_reference,
+      phoneNumber: payout.phone_number,
+      amountCedi: Number(payout.amount_cedi),
+      description: payout.instrument_type === 'CRDN' ? `GOVRES CRDN payout ${payout.crdn_instrument_id}` : `GOVRES payout ${payout.cashout_id}`,
+      callbackUrl: callbackUrl(payout.provider),
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (error instanceof MomoProviderError && error.retryable && attempts < SYSTEM.MOMO_MAX_ATTEMPTS) {
+      const delayMs = SYSTEM.MOMO_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+      await query(
+        `UPDATE momo_transactions SET attempts = $1, last_error = $2, next_attempt_at = $3, updated_at = NOW() WHERE momo_tx_id = $4`,
+        [attempts, message, new Date(Date.now() + delayMs), payout.momo_tx_id]
+      );
+      logger.warn('MoMo payout will be retried', { momoTxId: payout.momo_tx_id, attempts, delayMs, error: message });
+      return;
+    }
+    await query('UPDATE momo_transactions SET attempts = $1 WHERE momo_tx_id = $2', [attempts, payout.momo_tx_id]);
+    await settle(payout, 'FAILED', message);
+    return;
+  }
+
+  const accepted = await query(
+    `UPDATE momo_transactions SET status = 'PENDING', attempts = $1, accepted_at = NOW(), provider_tx_id = $2, last_error = NULL,
+       next_attempt_at = NULL, updated_at = NOW()
+     WHERE momo_tx_id = $3 RETURNING *`,
+    [attempts, status.providerTxId ?? null, payout.momo_tx_id]
+  );
+  await apply(accepted.rows[0], status);
+}
+
+/* Poll a payout's status with its provider */
+async function check(payout: MomoPayoutRow): Promise<void> {
+  let status: PayoutStatus;
+  try {
+    status = await getMomoProvider(payout.provider).getPayoutStatus(payout.provider_reference);
+  } catch (error) {
+    await query('UPDATE momo_transactions SET last_error = $1, updated_at = NOW() WHERE momo_tx_id = $2', [(error as Error).message, payout.momo_tx_id]);
+    return;
+  }
+  if (payout.status === 'INITIATED' && status.state === 'PENDING') return;
+  await apply(payout, status);
+}
+
+async function apply(payout: MomoPayoutRow, status: PayoutStatus): Promise<void> {
+  if (status.state === 'SUCCESSFUL') {
+    await settle(payout, 'COMPLETED', undefined, status.providerTxId);
+  } else if (status.state === 'FAILED') {
+    await settle(payout, 'FAILED', status.reason ?? 'Payout failed');
+  } else if (payout.accepted_at && Date.now() - new Date(payout.accepted_at).getTime() > SYSTEM.MOMO_PAYOUT_TIMEOUT_MS) {
+    await reverse(payout, 'Payout timed out');
+  } else if (status.providerTxId && status.providerTxId !== payout.provider_tx_id) {
+    await query('UPDATE momo_transactions SET provider_tx_id = $1, updated_at = NOW() WHERE momo_tx_id = $2', [status.providerTxId, payout.momo_tx_id]);
+  }
+}
+
+async function reverse(payout: MomoPayoutRow, reason: string): Promise<void> {
+  let status: PayoutStatus;
+  try {
+    status = await getMomoProvider(payout.provider).reversePayout(payout.provider_reference, payout.provider_tx_id ?? undefined);
+  } catch (error) {
+    await query('UPDATE momo_transactions SET last_error = $1, updated_at = NOW() WHERE momo_tx_id = $2', [(error as Error).message, payout.momo_tx_id]);
+    return;
+  }
+  if (status.state === 'FAILED') {
+    await query('UPDATE momo_transactions SET last_error = $1, updated_at = NOW() WHERE momo_tx_id = $2', [`Reversal refused: ${status.reason ?? 'unknown reason'}`, payout.momo_tx_id]);
+    return;
+  }
+  await settle(payout, 'REVERSED', reason);
+}
+
+/* Record a payout's outcome on the ledger and in its row */
+async function settle(payout: MomoPayoutRow, outcome: 'COMPLETED' | 'FAILED' | 'REVERSED', reason?: string, providerTxId?: string): Promise<void> {
+  const instrumentId = payout.crdn_instrument_id;
+  const others = await query('SELECT status FROM momo_transactions WHERE cashout_id = $1 AND momo_tx_id <> $2', [payout.cashout_id, payout.momo_tx_id]);
+  const paid = others.rows.filter(row => row.status === 'COMPLETED').length;
+  const payoutReference = Number(payout.tranche_count) > 1
+    ? payout.cashout_id
+    : providerTxId ?? payout.provider_tx_id ?? payout.provider_reference;
+
+  // The note converts once its last tranche is paid, and returns to its holder only if none was.
+  // The conversion may already have been settled by hand
+  const settlesNote = outcome === 'COMPLETED' ? paid === others.rows.length : paid === 0;
+  let settlementTxId: string | null = null;
+  if (payout.instrument_type === 'GBDC') {
+    // A GBDC payout is a single tranche; what did not reach the wallet goes back to the bank
+    if (outcome !== 'COMPLETED') {
+      const { txId } = await submit(
+        engine => engine.transferGBDC({
+          fromAccount: MOMO_SETTLEMENT_ACCOUNT,
+          toAccount: payout.account_id!,
+          amountCedi: Number(payout.amount_cedi),
+          description: `Returned MoMo payout ${payout.momo_tx_id}: ${reason}`,
+        }),
+        { channel: 'MOMO' }
+      );
+      settlementTxId = txId;
+    }
+  } else if (settlesNote && instrumentId && (await getLedger()).getCRDNRecord(instrumentId)?.status === CRDNStatus.CONVERTING) {
+    const { txId } = await submit(
+      engine => outcome === 'COMPLETED'
+        ? engine.completeCRDNConversion({ instrumentId, payoutReference })
+        : engine.failCRDNConversion({ instrumentId, reason: reason! }),
+      { channel: 'MOMO' }
+    );
+    settlementTxId = txId;
+    if (outcome === 'COMPLETED') {
+      await query('UPDATE crdn_instruments SET payout_reference = $1, converted_at = NOW() WHERE instrument_id = $2', [payoutReference, instrumentId]);
+    } else {
+      await query('UPDATE crdn_instruments SET payout_account = NULL WHERE instrument_id = $1', [instrumentId]);
+    }
+  }
+
+  await query(
+    `UPDATE momo_transactions SET status = $1, failure_reason = $2, provider_tx_id = COALESCE($3, provider_tx_id), settlement_tx_id = $4,
+       completed_at = NOW(), next_attempt_at = NULL, updated_at = NOW()
+     WHERE momo_tx_id = $5`,
+    [outcome, reason ?? null, providerTxId ?? null, settlementTxId, payout.momo_tx_id]
+  );
+
+  // Tranches still to be sent are cancelled with the one that did not go through
+  if (outcome !== 'COMPLETED' && others.rows.length > 0) {
+    await query(
+      `UPDATE momo_transactions SET status = 'FAILED', failure_reason = $1, completed_at = NOW(), next_attempt_at = NULL, updated_at = NOW()
+       WHERE cashout_id = $2 AND status IN ('HELD', 'INITIATED')`,
+      [`Tranche ${payout.tranche} ${outcome.toLowerCase()}: ${reason}`, payout.cashout_id]
+    );
+    if (paid > 0) {
+      logger.error('MoMo cash-out only partly paid; its CRDN payout must be settled by hand', { cashoutId: payout.cashout_id, instrumentId, paid });
+    }
+  }
+  logger.info('MoMo payout settled', { momoTxId: payout.momo_tx_id, cashoutId: payout.cashout_id, outcome, reason, settlementTxId });
+}
+
+/* One payout per tranche of a payment already taken on the ledger, HELD when the payment is under review */
+async function recordPayouts(params: {
+  txId: string;
+  provider: MomoProviderCode;
+  phoneNumber: string;
+  accountId: string;
+  amountCedi: number;
+  instrumentType: 'GBDC' | 'CRDN';
+  instrumentId?: string;
+  limits: PaymentLimitDecision;
+}): Promise<MomoCashout> {
+  const cashoutId = newId('MCO');
+  const held = params.limits.action === 'REVIEW';
+  const cashout = await withTransaction(async client => {
+    const payouts: MomoPayoutRow[] = [];
+    for (const [index, tranche] of params.limits.tranches.entries()) {
+      const inserted = await client.query(
+        `INSERT INTO momo_transactions (momo_tx_id, govres_tx_id, provider, provider_reference, phone_number, amount_cedi, instrument_type,
+           crdn_instrument_id, account_id, cashout_id, tranche, tranche_count, scheduled_for, next_attempt_at, status)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+         RETURNING *`,
+        [
+          newId('MOMO'), params.txId, params.provider, crypto.randomUUID(), params.phoneNumber, tranche.amount, params.instrumentType,
+          params.instrumentId ?? null, params.accountId, cashoutId, index + 1, params.limits.tranches.length, tranche.notBefore, held ? null : tranche.notBefore, held ? 'HELD' : 'INITIATED',
+        ]
+      );
+      payouts.push(inserted.rows[0]);
+    }
+
+    let review: PaymentReviewRow | undefined;
+    if (held) {
+      const inserted = await client.query(
+        `INSERT INTO payment_reviews (review_id, cashout_id, account_id, phone_number, amount_cedi, reason_code, reason, checks)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [newId('REV'), cashoutId, params.accountId, params.phoneNumber, params.amountCedi, params.limits.code, params.limits.reason, JSON.stringify(params.limits.checks)]
+      );
+      review = inserted.rows[0];
+    }
+    return { cashoutId, limits: params.limits, payouts, review };
+  });
+
+  if (!held) sendInBackground(cashout.payouts[0].momo_tx_id);
+  return cashout;
+}
+
+async function getPayout(momoTxId: string): Promise<MomoPayoutRow> {
+  const result = await query('SELECT * FROM momo_transactions WHERE momo_tx_id = $1', [momoTxId]);
+  if (result.rows.length === 0) throw new AppError('MoMo payout not found', 404, 'NOT_FOUND');
+  return result.rows[0];
+}
+
+function sendInBackground(momoTxId: string): void {
+  sendMomoPayout(momoTxId).catch(error => logger.error('MoMo payout failed to send', { momoTxId, error: (error as Error).message }));
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+function callbackUrl(provider: MomoProviderCode): string | undefined {
+  const base = process.env.MOMO_CALLBACK_BASE_URL;
+  return base ? `${base.replace(/\/$/, '')}/api/v1/momo/callback/${provider}` : undefined;
+}
+
+function serialised<T>(momoTxId: string, task: () => Promise<T>): Promise<T> {
+  const previous = payoutsInFlight.get(momoTxId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  payoutsInFlight.set(momoTxId, next);
+  const cleanup = () => { if (payoutsInFlight.get(momoTxId) === next) payoutsInFlight.delete(momoTxId); };
+  next.then(cleanup, cleanup);
+  return next;
+}
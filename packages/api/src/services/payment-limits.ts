@@ -0,0 +1,67 @@
+/**
+ * GOVRES — Payment Limits Service
+ *
+ * Applies the holder's KYC tier limits, the MoMo daily cap per wallet and
+ * the AML thresholds to outgoing MoMo payments. Rolling totals come from
+ * the payouts already made or scheduled from the account and to the
+ * wallet over the last 30 days; failed and reversed payouts do not count.
+ */
+
+import { ERROR_CODES, FINANCIAL } from '@govres/shared';
+import { PaymentLimitDecision, PriorPayment, evaluatePaymentLimits } from '@govres/security';
+import { query } from '../database/connection';
+import { AppError } from '../middleware/error-handler';
+
+/**
+ * Decide how a MoMo payment from an account to a wallet may be made
+ */
+export async function assessMomoPayment(params: {
+  accountId: string;
+  phoneNumber: string;
+  amountCedi: number;
+  instrumentType: 'GBDC' | 'CRDN';
+  splittable: boolean;
+}): Promise<PaymentLimitDecision> {
+  const account = await query('SELECT kyc_tier FROM user_accounts WHERE account_id = $1', [params.accountId]);
+  const kycLevel = account.rows.length > 0 ? Number(account.rows[0].kyc_tier) : 0;
+
+  const [accountPayments, walletPayments] = await Promise.all([
+    recentPayouts('account_id', params.accountId),
+    recentPayouts('phone_number', params.phoneNumber),
+  ]);
+
+  return evaluatePaymentLimits({
+    payment: {
+      amount: params.amountCedi,
+      senderAccountId: params.accountId,
+      recipientAccountId: `MOMO:${params.phoneNumber}`,
+      instrumentType: params.instrumentType,
+      channel: 'MOMO',
+      senderKycLevel: kycLevel,
+      recipientKycLevel: 0,
+    },
+    accountPayments,
+    walletPayments,
+    walletDailyLimit: FINANCIAL.MAX_MOMO_DAILY_CEDI,
+    splittable: params.splittable,
+    maxSplitDays: FINANCIAL.MAX_PAYMENT_SPLIT_DAYS,
+  });
+}
+
+/**
+ * The error refusing a blocked payment
+ */
+export function paymentBlockedError(decision: PaymentLimitDecision): AppError {
+  const status = decision.code === ERROR_CODES.KYC_REQUIRED ? 403 : 422;
+  return new AppError(decision.reason, status, decision.code ?? ERROR_CODES.LIMIT_EXCEEDED);
+}
+
+/* Payouts counted against limits, including tranches still scheduled */
+async function recentPayouts(column: 'account_id' | 'phone_number', value: string): Promise<PriorPayment[]> {
+  const result = await query(
+    `SELECT amount_cedi, scheduled_for FROM momo_transactions
+     WHERE ${column} = $1 AND status NOT IN ('FAILED', 'REVERSED') AND scheduled_for > NOW() - INTERVAL '30 days'`,
+    [value]
+  );
+  return result.rows.map(row => ({ amount: Number(row.amount_cedi), at: new Date(row.scheduled_for) }));
+}
@@ -0,0 +1,230 @@
+/**
+ * GOVRES — Smart Payment Routing Service
+ *
+ * Quotes each settlement rail for a payment from live state and routes it
+ * with the ledger's router. Whether the recipient can be reached on a rail
+ * follows from what the payer gave for them: a GOVRES account, an eCedi
+ * wallet or a MoMo number. MoMo carries what the payer's and wallet's
+ * limits allow today; health is each rail's success rate over the recent
+ * window, and the eCedi bridge is passed over while its last
+ * reconciliation has mismatches. Every route is recorded, with its
+ * execution when it is sent.
+ */
+
+import crypto from 'crypto';
+import { ERROR_CODES, SETTLEMENT_RAILS, SYSTEM, SettlementChannel, UserRole } from '@govres/shared';
+import { PaymentRoute, RailQuote, RouteExecution, RouteLeg, executeRoute, planPaymentRoute } from '@govres/ledger';
+import { query } from '../database/connection';
+import { AppError } from '../middleware/error-handler';
+import { bridgeFailedError, startBridgeTransfer } from './ecedi-bridge';
+import { ensureAccounts, getLedger, submit } from './ledger';
+import { providerForPhone } from './momo-providers';
+import { startMomoTransfer } from './momo';
+import { assessMomoPayment } from './payment-limits';
+import { submitInterbankSettlement } from './settlement';
+
+/** Where a payment may be sent; at least one is needed */
+export interface PaymentRecipient {
+  accountId?: string;
+  ecediWallet?: string;
+  momoPhone?: string;
+}
+
+/** What a leg left behind on its rail */
+export interface LegReceipt {
+  /** Ledger transaction, settlement, bridge transfer or MoMo cash-out id */
+  reference: string;
+  status: string;
+}
+
+export interface RoutedPayment extends PaymentRoute {
+  routeId: string;
+  payerAccountId: string;
+  recipient: PaymentRecipient;
+  status: 'PLANNED' | 'UNROUTABLE' | RouteExecution<LegReceipt>['status'];
+  execution?: RouteExecution<LegReceipt>;
+}
+
+const RAIL_ORDER = [SettlementChannel.INTERBANK, SettlementChannel.BANK_TRANSFER, SettlementChannel.ECEDI, SettlementChannel.MOMO];
+
+/**
+ * Plan a payment's route and, when asked, send it. Payments beyond the
+ * payer's GBDC are refused before any rail is quoted.
+ */
+export async function routePayment(params: {
+  payerAccountId: string;
+  recipient: PaymentRecipient;
+  amountCedi: number;
+  allowSplit: boolean;
+  execute: boolean;
+  requestedBy: string;
+}): Promise<RoutedPayment> {
+  const { recipient } = params;
+  if (!recipient.accountId && !recipient.ecediWallet && !recipient.momoPhone) {
+    throw new AppError('A recipient account, eCedi wallet or MoMo number is required', 400, 'VALIDATION');
+  }
+  if (recipient.accountId === params.payerAccountId) throw new AppError('Payer and recipient are the same account', 400, 'VALIDATION');
+  if (recipient.momoPhone && !providerForPhone(recipient.momoPhone)) {
+    throw new AppError(`${recipient.momoPhone} is not a Ghanaian mobile money number`, 400, 'VALIDATION');
+  }
+
+  await ensureAccounts(params.payerAccountId);
+  const balance = (await getLedger()).getAccountBalance(params.payerAccountId)!.gbdcBalance;
+  if (balance < params.amountCedi) {
+    throw new AppError(`Payer has GH¢${balance.toLocaleString()} of GBDC, short of GH¢${params.amountCedi.toLocaleString()}`, 422, ERROR_CODES.INSUFFICIENT_BALANCE);
+  }
+
+  const quotes = await quoteRails(params.payerAccountId, recipient, params.amountCedi);
+  const options = { allowSplit: params.allowSplit, minHealth: SYSTEM.ROUTING_MIN_RAIL_HEALTH };
+  const route = planPaymentRoute(params.amountCedi, quotes, options);
+  const routeId = newId('ROUTE');
+
+  let execution: RouteExecution<LegReceipt> | undefined;
+  if (params.execute && route.action !== 'UNROUTABLE') {
+    execution = await executeRoute(route, quotes, leg => sendLeg(routeId, params, leg), options);
+  }
+  const status = route.action === 'UNROUTABLE' ? 'UNROUTABLE' : execution?.status ?? 'PLANNED';
+
+  await query(
+    `INSERT INTO payment_routes (route_id, payer_account_id, recipient, amount_cedi, action, legs, total_fee_cedi, scores, explanation,
+       execution, status, requested_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+    [
+      routeId, params.payerAccountId, JSON.stringify(recipient), params.amountCedi, route.action, JSON.stringify(route.legs),
+      route.totalFeeCedi, JSON.stringify(route.scores), JSON.stringify(route.explanation),
+      execution ? JSON.stringify(execution) : null, status, params.requestedBy,
+    ]
+  );
+  return { routeId, payerAccountId: params.payerAccountId, recipient, ...route, status, execution };
+}
+
+/**
+ * Quote every rail for a payment from the payer to the recipient
+ */
+export async function quoteRails(payerAccountId: string, recipient: PaymentRecipient, amountCedi: number): Promise<RailQuote[]> {
+  const engine = await getLedger();
+  const payer = engine.getAccountBalance(payerAccountId)!;
+  if (recipient.accountId) await ensureAccounts(recipient.accountId);
+  const payee = recipient.accountId ? engine.getAccountBalance(recipient.accountId) : undefined;
+  const health = await railHealth();
+
+  const reach = (channel: SettlementChannel): { reachable: boolean; note?: string } => {
+    switch (channel) {
+      case SettlementChannel.INTERBANK:
+        return payer.role === UserRole.COMMERCIAL_BANK && payee?.role === UserRole.COMMERCIAL_BANK
+          ? { reachable: true }
+          : { reachable: false, note: 'RTGS settles between commercial banks' };
+      case SettlementChannel.BANK_TRANSFER:
+        return payee ? { reachable: true } : { reachable: false, note: 'Recipient has no GOVRES account' };
+      case SettlementChannel.ECEDI:
+        if (!recipient.ecediWallet) return { reachable: false, note: 'Recipient has no eCedi wallet' };
+        return payer.role === UserRole.COMMERCIAL_BANK ? { reachable: true } : { reachable: false, note: 'Only commercial banks bridge GBDC to eCedi' };
+      case SettlementChannel.MOMO:
+        return recipient.momoPhone ? { reachable: true } : { reachable: false, note: 'Recipient has no MoMo number' };
+    }
+  };
+
+  const quotes: RailQuote[] = [];
+  for (const channel of RAIL_ORDER) {
+    const rail: { feeFixedCedi: number; feePercent: number; maxFeeCedi?: number; finalitySeconds: number } = SETTLEMENT_RAILS[channel];
+    const reachability = reach(channel);
+    const capacity = reachability.reachable && channel === SettlementChannel.MOMO
+      ? await momoCapacity(payerAccountId, recipient.momoPhone!, amountCedi)
+      : { capacityCedi: Infinity };
+    quotes.push({
+      channel,
+      ...reachability,
+      ...capacity,
+      feeFixedCedi: rail.feeFixedCedi,
+      feePercent: rail.feePercent,
+      maxFeeCedi: rail.maxFeeCedi,
+      health: health[channel],
+      finalitySeconds: rail.finalitySeconds,
+    });
+  }
+  return quotes;
+}
+
+/* What MoMo can pay the wallet in one payout today, under the payer's and the wallet's limits */
+async function momoCapacity(accountId: string, phoneNumber: string, amountCedi: number): Promise<{ capacityCedi: number; note?: string }> {
+  const whole = await assessMomoPayment({ accountId, phoneNumber, amountCedi, instrumentType: 'GBDC', splittable: false });
+  if (whole.action === 'REVIEW') return { capacityCedi: amountCedi, note: 'Held for compliance review before it is paid' };
+  if (whole.action !== 'BLOCK') return { capacityCedi: amountCedi };
+
+  // Later tranches would not settle with the rest of the payment, so only today's first one counts
+  const split = await assessMomoPayment({ accountId, phoneNumber, amountCedi, instrumentType: 'GBDC', splittable: true });
+  const first = split.tranches[0];
+  const today = first && first.notBefore.getTime() <= Date.now() ? first.amount : 0;
+  return { capacityCedi: today, note: whole.reason };
+}
+
+/* Share of each rail's payments over the health window that succeeded; rails with none are taken as healthy */
+async function railHealth(): Promise<Record<SettlementChannel, number>> {
+  const hours = SYSTEM.ROUTING_HEALTH_WINDOW_HOURS;
+  const rate = (row: any) => Number(row.settled) > 0 ? Number(row.succeeded) / Number(row.settled) : 1;
+  const [momo, ecedi, rtgs, reconciliation] = await Promise.all([
+    query(
+      `SELECT COUNT(*) FILTER (WHERE status = 'COMPLETED') AS succeeded, COUNT(*) AS settled FROM momo_transactions
+       WHERE status IN ('COMPLETED', 'FAILED', 'REVERSED') AND completed_at > NOW() - make_interval(hours => $1)`,
+      [hours]
+    ),
+    query(
+      `SELECT COUNT(*) FILTER (WHERE status = 'COMPLETED') AS succeeded, COUNT(*) AS settled FROM ecedi_transactions
+       WHERE transfer_id IS NOT NULL AND status IN ('COMPLETED', 'FAILED') AND completed_at > NOW() - make_interval(hours => $1)`,
+      [hours]
+    ),
+    query(
+      `SELECT COUNT(*) FILTER (WHERE status = 'SETTLED') AS succeeded, COUNT(*) AS settled FROM bank_settlements
+       WHERE mode = 'RTGS' AND status IN ('SETTLED', 'FAILED') AND created_at > NOW() - make_interval(hours => $1)`,
+      [hours]
+    ),
+    query('SELECT status FROM ecedi_reconciliations ORDER BY run_at DESC LIMIT 1'),
+  ]);
+  return {
+    [SettlementChannel.INTERBANK]: rate(rtgs.rows[0]),
+    [SettlementChannel.BANK_TRANSFER]: 1,
+    [SettlementChannel.ECEDI]: reconciliation.rows[0]?.status === 'MISMATCHED' ? 0 : rate(ecedi.rows[0]),
+    [SettlementChannel.MOMO]: rate(momo.rows[0]),
+  };
+}
+
+/* Send one leg on its rail; a leg that is refused or fails outright throws, so the route falls back */
+async function sendLeg(
+  routeId: string,
+  params: { payerAccountId: string; recipient: PaymentRecipient; requestedBy: string },
+  leg: RouteLeg
+): Promise<LegReceipt> {
+  const { payerAccountId, recipient } = params;
+  switch (leg.channel) {
+    case SettlementChannel.INTERBANK: {
+      const settlement = await submitInterbankSettlement({
+        fromBankId: payerAccountId, toBankId: recipient.accountId!, amountCedi: leg.amountCedi, mode: 'RTGS', referenceNumber: routeId,
+      });
+      if (settlement.status === 'FAILED') throw new Error(settlement.failure_reason ?? 'RTGS settlement failed');
+      return { reference: settlement.settlement_id, status: settlement.status };
+    }
+    case SettlementChannel.BANK_TRANSFER: {
+      const { txId } = await submit(
+        engine => engine.transferGBDC({ fromAccount: payerAccountId, toAccount: recipient.accountId!, amountCedi: leg.amountCedi, description: `Payment ${routeId}` }),
+        { channel: 'BANK_TRANSFER' }
+      );
+      return { reference: txId, status: 'SETTLED' };
+    }
+    case SettlementChannel.ECEDI: {
+      // A transfer still between phases has its GBDC locked; the bridge run finishes it
+      const transfer = await startBridgeTransfer({
+        direction: 'GBDC_TO_ECEDI', accountId: payerAccountId, wallet: recipient.ecediWallet!, amountCedi: leg.amountCedi, requestedBy: params.requestedBy,
+      });
+      if (transfer.status === 'FAILED') throw bridgeFailedError(transfer);
+      return { reference: transfer.transfer_id, status: transfer.status };
+    }
+    case SettlementChannel.MOMO: {
+      const cashout = await startMomoTransfer({ accountId: payerAccountId, provider: providerForPhone(recipient.momoPhone!)!, phoneNumber: recipient.momoPhone!, amountCedi: leg.amountCedi });
+      return { reference: cashout.cashoutId, status: cashout.payouts[0].status };
+    }
+  }
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+}
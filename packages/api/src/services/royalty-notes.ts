@@ -0,0 +1,115 @@
+/**
+ * GOVRES — Royalty Note Service
+ *
+ * Royalty-backed notes are structured by the GoldBod royalty oracle. This
+ * service rebuilds an oracle from the production reports, forecasts and
+ * notes held in the database, so every request applies the oracle's
+ * coverage rules to current data, and saves notes back after each change.
+ */
+
+import { GoldBodRoyaltyOracle, GoldProductionReport, RoyaltyBackedNote, RoyaltyForecast } from '@govres/oracle';
+import { query } from '../database/connection';
+
+/**
+ * An oracle loaded with every stored report, forecast and note
+ */
+export async function loadRoyaltyOracle(): Promise<GoldBodRoyaltyOracle> {
+  const oracle = new GoldBodRoyaltyOracle();
+  const notes = await query('SELECT * FROM royalty_notes');
+  for (const row of notes.rows) oracle.restoreNote(toNote(row));
+
+  const forecasts = await query('SELECT * FROM royalty_forecasts');
+  for (const row of forecasts.rows) oracle.recordForecast(toForecast(row));
+
+  // Reports are recorded last; each one re-checks the coverage of the notes above
+  const reports = await query('SELECT * FROM gold_production_reports ORDER BY created_at');
+  for (const row of reports.rows) oracle.recordProductionReport(toReport(row));
+  return oracle;
+}
+
+/**
+ * Insert or update a note
+ */
+export async function saveRoyaltyNote(note: RoyaltyBackedNote, createdBy?: string): Promise<void> {
+  await query(
+    `INSERT INTO royalty_notes (note_id, principal_ghs, backing_royalty_ids, forecast_ids, yield_percent, maturity_months, status,
+       verified_royalty_ghs, forecast_royalty_ghs, coverage_ratio, issued_at, activated_at, matures_at, matured_at, created_by, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+     ON CONFLICT (note_id) DO UPDATE SET status = EXCLUDED.status, verified_royalty_ghs = EXCLUDED.verified_royalty_ghs,
+       forecast_royalty_ghs = EXCLUDED.forecast_royalty_ghs, coverage_ratio = EXCLUDED.coverage_ratio, issued_at = EXCLUDED.issued_at,
+       activated_at = EXCLUDED.activated_at, matures_at = EXCLUDED.matures_at, matured_at = EXCLUDED.matured_at, updated_at = NOW()`,
+    [note.noteId, note.principalGHS, JSON.stringify(note.backingRoyaltyIds), JSON.stringify(note.forecastIds), note.yieldPercent,
+      note.maturityMonths, note.status, note.verifiedRoyaltyGHS, note.forecastRoyaltyGHS, note.coverageRatio, note.issuedAt ?? null,
+      note.activatedAt ?? null, note.maturesAt ?? null, note.maturedAt ?? null, createdBy ?? null, note.createdAt]
+  );
+}
+
+/**
+ * Save a forecast generated by the oracle
+ */
+export async function saveRoyaltyForecast(forecast: RoyaltyForecast): Promise<void> {
+  await query(
+    `INSERT INTO royalty_forecasts (forecast_id, period_year, period_quarter, estimated_production_ounces, estimated_gold_price_usd,
+       estimated_royalty_usd, estimated_royalty_ghs, confidence, assumptions, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [forecast.forecastId, forecast.period.year, forecast.period.quarter, forecast.estimatedProductionOunces, forecast.estimatedGoldPriceUSD,
+      forecast.estimatedRoyaltyUSD, forecast.estimatedRoyaltyGHS, forecast.confidence, JSON.stringify(forecast.assumptions), forecast.createdAt]
+  );
+}
+
+function toReport(row: any): GoldProductionReport {
+  return {
+    reportId: row.report_id,
+    period: { year: Number(row.period_year), quarter: Number(row.period_quarter) },
+    producerId: row.producer_id,
+    producerName: row.producer_name,
+    mineId: row.mine_id,
+    mineName: row.mine_name,
+    region: row.region,
+    productionOunces: Number(row.production_ounces),
+    productionGrams: Number(row.production_grams),
+    goldPricePerOunceUSD: Number(row.gold_price_per_ounce_usd),
+    grossRevenueUSD: Number(row.gross_revenue_usd),
+    royaltyRate: Number(row.royalty_rate),
+    royaltyAmountUSD: Number(row.royalty_amount_usd),
+    royaltyAmountGHS: Number(row.royalty_amount_ghs),
+    exchangeRateUSDGHS: Number(row.exchange_rate_usd_ghs),
+    reportDate: new Date(row.report_date),
+    verifiedBy: row.verified_by ?? '',
+  };
+}
+
+function toForecast(row: any): RoyaltyForecast {
+  return {
+    forecastId: row.forecast_id,
+    period: { year: Number(row.period_year), quarter: Number(row.period_quarter) },
+    estimatedProductionOunces: Number(row.estimated_production_ounces),
+    estimatedGoldPriceUSD: Number(row.estimated_gold_price_usd),
+    estimatedRoyaltyUSD: Number(row.estimated_royalty_usd),
+    estimatedRoyaltyGHS: Number(row.estimated_royalty_ghs),
+    confidence: row.confidence,
+    assumptions: row.assumptions,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function toNote(row: any): RoyaltyBackedNote {
+  const date = (value: unknown) => (value ? new Date(value as string) : undefined);
+  return {
+    noteId: row.note_id,
+    principalGHS: Number(row.principal_ghs),
+    backingRoyaltyIds: row.backing_royalty_ids,
+    forecastIds: row.forecast_ids,
+    yieldPercent: Number(row.yield_percent),
+    maturityMonths: Number(row.maturity_months),
+    status: row.status,
+    verifiedRoyaltyGHS: Number(row.verified_royalty_ghs),
+    forecastRoyaltyGHS: Number(row.forecast_royalty_ghs),
+    coverageRatio: Number(row.coverage_ratio),
+    createdAt: new Date(row.created_at),
+    issuedAt: date(row.issued_at),
+    activatedAt: date(row.activated_at),
+    maturesAt: date(row.matures_at),
+    maturedAt: date(row.matured_at),
+  };
+}
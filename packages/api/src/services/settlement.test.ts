@@ -0,0 +1,213 @@
+/**
+ * GOVRES — Interbank Settlement Service Tests
+ * RTGS queueing and release, gridlock resolution and the finality deadline,
+ * against a ledger engine and an in-memory stand-in for bank_settlements
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FINANCIAL, UserRole } from '@govres/shared';
+import { LedgerEngine } from '@govres/ledger';
+
+const db = vi.hoisted(() => ({
+  settlements: new Map<string, any>(),
+  cycles: [] as any[],
+  engine: undefined as any,
+  txCount: 0,
+}));
+
+vi.mock('../database/connection', () => {
+  const query = async (text: string, params: any[] = []) => {
+    const sql = text.replace(/\s+/g, ' ').trim();
+    const rows = (list: any[]) => ({ rows: list.map(row => ({ ...row })), rowCount: list.length });
+    const all = [...db.settlements.values()];
+    const update = (list: any[], changes: Record<string, unknown>) => {
+      list.forEach(row => Object.assign(row, changes));
+      return rows(list);
+    };
+
+    if (sql.startsWith('INSERT INTO bank_settlements')) {
+      const [settlement_id, bank_id, amount_cedi, counterparty_bank_id, mode, priority, status, reference_number, settle_by] = params;
+      db.settlements.set(settlement_id, {
+        settlement_id, bank_id, bank_name: '', instrument_type: 'GBDC', amount_cedi: String(amount_cedi), direction: 'DEBIT',
+        counterparty_bank_id, mode, priority, status, tx_id: null, settled_at: null, reference_number, cycle_id: null,
+        queued_cycles: 0, settle_by, failure_reason: null, iso_message_id: null, end_to_end_id: null, created_at: new Date(),
+      });
+      return rows([db.settlements.get(settlement_id)]);
+    }
+    if (sql.startsWith('INSERT INTO settlement_cycles')) {
+      db.cycles.push({ cycle_id: params[0], mode: params[1], settled_count: params[2], queued_count: params[3] });
+      return rows([]);
+    }
+    if (sql.startsWith('SELECT priority FROM bank_settlements')) {
+      return rows(all.filter(row => row.mode === 'RTGS' && row.status === 'QUEUED' && row.bank_id === params[0]));
+    }
+    if (sql.startsWith('SELECT * FROM bank_settlements WHERE settlement_id = $1')) return rows(all.filter(row => row.settlement_id === params[0]));
+    if (sql.startsWith("SELECT * FROM bank_settlements WHERE mode = 'RTGS' AND status = 'QUEUED'")) {
+      return rows(all.filter(row => row.mode === 'RTGS' && row.status === 'QUEUED'));
+    }
+    if (sql.startsWith("UPDATE bank_settlements SET status = 'QUEUED' WHERE settlement_id = $1")) {
+      return update(all.filter(row => row.settlement_id === params[0]), { status: 'QUEUED' });
+    }
+    if (sql.startsWith("UPDATE bank_settlements SET status = 'CLEARING' WHERE settlement_id = $1")) {
+      return update(all.filter(row => row.settlement_id === params[0] && row.status === 'QUEUED'), { status: 'CLEARING' });
+    }
+    if (sql.startsWith("UPDATE bank_settlements SET status = 'CLEARING', cycle_id = $1 WHERE settlement_id = ANY($2)")) {
+      return update(all.filter(row => params[1].includes(row.settlement_id) && row.status === 'QUEUED'), { status: 'CLEARING', cycle_id: params[0] });
+    }
+    if (sql.startsWith("UPDATE bank_settlements SET status = 'CLEARING', cycle_id = $1 WHERE mode = 'NET'")) {
+      return update(all.filter(row => row.mode === 'NET' && row.status === 'PENDING'), { status: 'CLEARING', cycle_id: params[0] });
+    }
+    if (sql.startsWith("UPDATE bank_settlements SET status = 'SETTLED', tx_id = $1")) {
+      return update(all.filter(row => row.settlement_id === params[1]), { status: 'SETTLED', tx_id: params[0], settled_at: new Date() });
+    }
+    if (sql.startsWith("UPDATE bank_settlements SET status = 'SETTLED', settled_at = NOW() WHERE settlement_id = ANY($1)")) {
+      return update(all.filter(row => params[0].includes(row.settlement_id)), { status: 'SETTLED', settled_at: new Date() });
+    }
+    if (sql.startsWith('UPDATE bank_settlements SET status = $1, cycle_id = NULL, queued_cycles')) {
+      const requeued = all.filter(row => params[1].includes(row.settlement_id));
+      requeued.forEach(row => { row.queued_cycles++; });
+      return update(requeued, { status: params[0], cycle_id: null });
+    }
+    if (sql.startsWith("UPDATE bank_settlements SET status = 'FAILED'")) {
+      const ids: string[] = Array.isArray(params[0]) ? params[0] : [params[1]];
+      return update(all.filter(row => ids.includes(row.settlement_id)), { status: 'FAILED' });
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+  return { query, withTransaction: (fn: (client: unknown) => Promise<unknown>) => fn({ query }) };
+});
+
+vi.mock('../utils/logger', () => ({ logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } }));
+
+vi.mock('./ledger', () => ({
+  getLedger: async () => db.engine,
+  ensureAccounts: async () => undefined,
+  submit: async (operation: (engine: LedgerEngine) => unknown) => ({ result: operation(db.engine), txId: `TX-${++db.txCount}`, blockHeight: 1 }),
+  settleNetCycle: async (cycleId: string, obligations: unknown[]) => {
+    const result = db.engine.settleNetCycle({ cycleId, obligations });
+    return { result, blockHeight: result.txIds.length > 0 ? 1 : null };
+  },
+}));
+
+import { logger } from '../utils/logger';
+import { runRtgsQueue, runSettlementCycle, settleBy, submitInterbankSettlement } from './settlement';
+
+const balance = (bank: string) => db.engine.getAccountBalance(bank).gbdcBalance;
+const statusOf = (settlementId: string) => db.settlements.get(settlementId).status;
+const rtgs = (fromBankId: string, toBankId: string, amountCedi: number, priority?: 'URGENT' | 'HIGH' | 'NORMAL') =>
+  submitInterbankSettlement({ fromBankId, toBankId, amountCedi, mode: 'RTGS', priority });
+
+beforeEach(async () => {
+  db.settlements.clear();
+  db.cycles.length = 0;
+  db.txCount = 0;
+  const engine = new LedgerEngine('BOG-NODE-TEST');
+  await engine.initialize();
+  for (const bank of ['BANK-A', 'BANK-B', 'BANK-C']) engine.registerAccount(bank, UserRole.COMMERCIAL_BANK);
+  engine.registerGoldReserve(1_000_000, 'gold-attest');
+  engine.mintGBDC({
+    amountCedi: 100_000,
+    goldBackingGrams: 2_000,
+    goldPricePerGramUSD: 80,
+    exchangeRateUSDGHS: 15,
+    issuanceId: 'ISS-S1',
+    issuedBy: 'BOG_TREASURY',
+  });
+  engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 500, description: 'Liquidity' });
+  db.engine = engine;
+});
+
+// A settled payment starts a queue run in the background; let it finish
+afterEach(() => runRtgsQueue());
+
+// ─── RTGS Queueing ──────────────────────────────────────
+
+describe('RTGS settlement', () => {
+  it('settles gross at once when the sender can fund the payment', async () => {
+    const settlement = await rtgs('BANK-A', 'BANK-B', 200);
+    expect(settlement).toMatchObject({ status: 'SETTLED', tx_id: 'TX-1', priority: 'NORMAL' });
+    expect(balance('BANK-A')).toBe(300);
+    expect(balance('BANK-B')).toBe(200);
+  });
+
+  it('queues a payment the sender is short for and releases it once liquidity arrives', async () => {
+    const short = await rtgs('BANK-B', 'BANK-C', 200);
+    expect(short.status).toBe('QUEUED');
+    expect(balance('BANK-C')).toBe(0);
+
+    // Settling BANK-B's incoming payment retries the queue; joining that run waits for it
+    await rtgs('BANK-A', 'BANK-B', 300);
+    await runRtgsQueue();
+
+    expect(statusOf(short.settlement_id)).toBe('SETTLED');
+    expect(balance('BANK-B')).toBe(100);
+    expect(balance('BANK-C')).toBe(200);
+  });
+
+  it('keeps a payment behind a queued one of the same or higher priority, but lets a more urgent one through', async () => {
+    const first = await rtgs('BANK-A', 'BANK-B', 600, 'HIGH');
+    expect(first.status).toBe('QUEUED');
+
+    // BANK-A could fund this one, but it may not overtake the queued HIGH payment
+    expect((await rtgs('BANK-A', 'BANK-C', 100, 'NORMAL')).status).toBe('QUEUED');
+    expect((await rtgs('BANK-A', 'BANK-C', 100, 'URGENT')).status).toBe('SETTLED');
+    expect(balance('BANK-A')).toBe(400);
+  });
+
+  it('releases a queue in priority order and stops at the first payment the sender cannot fund', async () => {
+    const large = await rtgs('BANK-B', 'BANK-C', 250, 'HIGH');
+    const small = await rtgs('BANK-B', 'BANK-C', 50, 'NORMAL');
+    db.engine.transferGBDC({ fromAccount: 'BANK-A', toAccount: 'BANK-B', amountCedi: 100, description: 'Liquidity' });
+
+    const run = await runRtgsQueue();
+    expect(run).toEqual({ releasedGross: 0, optimised: null });
+    expect(statusOf(large.settlement_id)).toBe('QUEUED');
+    expect(statusOf(small.settlement_id)).toBe('QUEUED');
+  });
+});
+
+// ─── Gridlock Resolution ────────────────────────────────
+
+describe('runRtgsQueue', () => {
+  it('settles queued payments that offset each other when no sender could fund its own', async () => {
+    const toC = await rtgs('BANK-B', 'BANK-C', 300);
+    const toB = await rtgs('BANK-C', 'BANK-B', 300);
+    expect([toC.status, toB.status]).toEqual(['QUEUED', 'QUEUED']);
+
+    const run = await runRtgsQueue();
+    expect(run.releasedGross).toBe(0);
+    expect(run.optimised).toMatchObject({ mode: 'RTGS', settled: 2, queued: 0, grossCedi: 600, netCedi: 0 });
+    expect(statusOf(toC.settlement_id)).toBe('SETTLED');
+    expect(statusOf(toB.settlement_id)).toBe('SETTLED');
+    expect(db.cycles).toEqual([expect.objectContaining({ cycle_id: run.optimised!.cycleId, mode: 'RTGS', settled_count: 2 })]);
+    expect(balance('BANK-B')).toBe(0);
+    expect(balance('BANK-C')).toBe(0);
+  });
+});
+
+// ─── Finality Deadline ──────────────────────────────────
+
+describe('settlement finality', () => {
+  it('stamps every settlement with the finality window from submission', async () => {
+    const before = Date.now();
+    const settlement = await submitInterbankSettlement({ fromBankId: 'BANK-A', toBankId: 'BANK-B', amountCedi: 10, mode: 'NET' });
+
+    expect(settlement.status).toBe('PENDING');
+    const deadline = settlement.settle_by!.getTime();
+    expect(deadline).toBeGreaterThanOrEqual(before + FINANCIAL.SETTLEMENT_FINALITY_SECONDS * 1000);
+    expect(deadline).toBeLessThanOrEqual(Date.now() + FINANCIAL.SETTLEMENT_FINALITY_SECONDS * 1000);
+    expect(settleBy(new Date(0)).getTime()).toBe(FINANCIAL.SETTLEMENT_FINALITY_SECONDS * 1000);
+  });
+
+  it('returns an unfunded NET obligation to the queue and reports it once past its settle-by time', async () => {
+    const funded = await submitInterbankSettlement({ fromBankId: 'BANK-A', toBankId: 'BANK-B', amountCedi: 100, mode: 'NET' });
+    const short = await submitInterbankSettlement({ fromBankId: 'BANK-C', toBankId: 'BANK-A', amountCedi: 400, mode: 'NET' });
+    db.settlements.get(short.settlement_id).created_at = new Date(Date.now() - (FINANCIAL.SETTLEMENT_FINALITY_SECONDS + 1) * 1000);
+
+    const summary = await runSettlementCycle();
+    expect(summary).toMatchObject({ mode: 'NET', settled: 1, queued: 1, overdue: 1 });
+    expect(statusOf(funded.settlement_id)).toBe('SETTLED');
+    expect(db.settlements.get(short.settlement_id)).toMatchObject({ status: 'PENDING', cycle_id: null, queued_cycles: 1 });
+    expect(logger.warn).toHaveBeenCalledWith('Interbank settlements queued past the finality window', { cycleId: summary!.cycleId, overdue: 1 });
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * GOVRES — Interbank Settlement Service
+ *
+ * Interbank settlements run in one of two modes. NET settlements are
+ * queued as PENDING and settled in netting cycles: each cycle claims the
+ * queue, settles the banks' multilateral net positions on the ledger in
+ * one block, and marks what it settled SETTLED. Obligations held back
+ * because a bank could not cover its net debit return to the queue for the
+ * next cycle; cycles run well inside the settlement finality window, and
+ * anything still queued past its settle-by time is reported.
+ *
+ * RTGS settlements settle gross, one by one, as soon as the sender can
+ * fund them. Those it cannot fund are QUEUED by priority and retried
+ * whenever liquidity may have arrived; the optimiser then releases queued
+ * payments that offsetting flows make fundable together.
+ */
+
+import crypto from 'crypto';
+import { InterbankObligation, NetPosition, netPositions, planNetSettlement } from '@govres/ledger';
+import { ERROR_CODES, FINANCIAL, SYSTEM, UserRole } from '@govres/shared';
+import { query, withTransaction } from '../database/connection';
+import { BankSettlementRow } from '../database/rows';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { ensureAccounts, getLedger, settleNetCycle, submit } from './ledger';
+
+export type SettlementMode = BankSettlementRow['mode'];
+
+export const RTGS_PRIORITIES = ['URGENT', 'HIGH', 'NORMAL'] as const;
+export type RtgsPriority = typeof RTGS_PRIORITIES[number];
+
+export interface SettlementCycleSummary {
+  cycleId: string;
+  mode: SettlementMode;
+  settled: number;
+  queued: number;
+  rejected: number;
+  /** Sum of the obligations settled */
+  grossCedi: number;
+  /** Sum of the net debits paid, which is all the liquidity the cycle used */
+  netCedi: number;
+  /** Queued obligations already past their settle-by time */
+  overdue: number;
+  blockHeight: number | null;
+}
+
+export interface RtgsQueueRun {
+  /** Queued payments the senders could fund on their own */
+  releasedGross: number;
+  /** The optimiser's release of payments funded by offsetting flows, if it ran */
+  optimised: SettlementCycleSummary | null;
+}
+
+export interface IntradayLiquidity {
+  bankId: string;
+  balanceCedi: number;
+  /** Balance less GBDC pledged as collateral */
+  spendableCedi: number;
+  settledOutCedi: number;
+  settledInCedi: number;
+  /** Settled in less settled out since the start of the day */
+  netSettledCedi: number;
+  queuedOutCedi: number;
+  queuedOutCount: number;
+  queuedInCedi: number;
+  /** Queued outgoing payments that spendable GBDC does not cover */
+  fundingGapCedi: number;
+}
+
+/* Amounts are stored as DECIMAL(20,4) */
+const round = (amount: number) => Math.round(amount * 10_000) / 10_000;
+
+/* Ranks passed to the netting plan; higher settles first */
+const PRIORITY_RANK: Record<RtgsPriority, number> = { URGENT: 2, HIGH: 1, NORMAL: 0 };
+
+let cycleInFlight: Promise<SettlementCycleSummary | null> | undefined;
+let cycleTimer: NodeJS.Timeout | undefined;
+let rtgsInFlight: Promise<RtgsQueueRun> | undefined;
+let rtgsTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Run one netting cycle over the queued NET settlements. A call while a
+ * cycle is running joins it. Returns null if nothing was queued.
+ */
+export function runSettlementCycle(): Promise<SettlementCycleSummary | null> {
+  if (!cycleInFlight) {
+    cycleInFlight = settleQueue().finally(() => { cycleInFlight = undefined; });
+  }
+  return cycleInFlight;
+}
+
+/**
+ * Run settlement cycles on a timer
+ */
+export function startSettlementCycles(intervalMs: number = SYSTEM.INTERBANK_NETTING_INTERVAL_MS): void {
+  if (cycleTimer) return;
+  cycleTimer = setInterval(() => {
+    runSettlementCycle()
+      .then(summary => {
+        if (summary && summary.settled + summary.rejected > 0) logger.info('Interbank settlement cycle settled', summary);
+      })
+      .catch(error => logger.error('Interbank settlement cycle failed', { error: error instanceof Error ? error.message : String(error) }));
+  }, intervalMs);
+}
+
+/**
+ * Time by which a settlement submitted at submittedAt should be final
+ */
+export function settleBy(submittedAt: Date): Date {
+  return new Date(submittedAt.getTime() + FINANCIAL.SETTLEMENT_FINALITY_SECONDS * 1000);
+}
+
+/**
+ * Queued settlements of a mode as netting obligations, with the net
+ * positions they would settle to, optionally only those a bank sends or
+ * receives
+ */
+export async function getSettlementQueue(
+  mode: SettlementMode,
+  bankId?: string
+): Promise<{ obligations: BankSettlementRow[]; positions: NetPosition[] }> {
+  const result = await query(
+    `SELECT * FROM bank_settlements WHERE mode = $1 AND status = $2 AND direction = 'DEBIT'
+       AND ($3::text IS NULL OR bank_id = $3 OR counterparty_bank_id = $3)
+     ORDER BY created_at`,
+    [mode, mode === 'NET' ? 'PENDING' : 'QUEUED', bankId ?? null]
+  );
+  const queued: BankSettlementRow[] = result.rows;
+  const obligations = queued.map(toObligation).sort(byRank);
+  const rows = obligations.map(o => queued.find(row => row.settlement_id === o.obligationId)!);
+  const positions = netPositions(obligations);
+  return { obligations: rows, positions: bankId ? positions.filter(p => p.bank === bankId) : positions };
+}
+
+/**
+ * Submit an interbank settlement between two commercial banks. NET
+ * settlements wait for the next netting cycle. RTGS settlements settle
+ * gross if the sender can fund them now and has no queued payment of the
+ * same or higher priority ahead; otherwise they are queued. Returns the
+ * stored settlement.
+ */
+export async function submitInterbankSettlement(params: {
+  fromBankId: string;
+  toBankId: string;
+  amountCedi: number;
+  mode: SettlementMode;
+  priority?: RtgsPriority;
+  referenceNumber?: string;
+  /** ISO 20022 message and end-to-end ids, for settlements imported from pacs messages */
+  isoMessageId?: string;
+  endToEndId?: string;
+}): Promise<BankSettlementRow> {
+  await ensureAccounts(params.fromBankId, params.toBankId);
+  const engine = await getLedger();
+  if ([params.fromBankId, params.toBankId].some(bankId => engine.getAccountBalance(bankId)!.role !== UserRole.COMMERCIAL_BANK)) {
+    throw new AppError('Interbank settlement is between commercial banks', 400, 'VALIDATION');
+  }
+
+  const settlementId = `SETT-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+  const priority = params.mode === 'RTGS' ? params.priority ?? 'NORMAL' : null;
+  const inserted = await query(
+    `INSERT INTO bank_settlements (settlement_id, bank_id, bank_name, instrument_type, amount_cedi, direction, counterparty_bank_id,
+       mode, priority, status, reference_number, settle_by, iso_message_id, end_to_end_id)
+     VALUES ($1, $2, '', 'GBDC', $3, 'DEBIT', $4, $5, $6, $7, $8, $9, $10, $11)
+     RETURNING *`,
+    [settlementId, params.fromBankId, params.amountCedi, params.toBankId, params.mode, priority,
+      params.mode === 'NET' ? 'PENDING' : 'CLEARING', params.referenceNumber || params.endToEndId || settlementId,
+      settleBy(new Date()), params.isoMessageId ?? null, params.endToEndId ?? null]
+  );
+  if (params.mode === 'NET') return inserted.rows[0];
+
+  const ahead = await query(
+    `SELECT priority FROM bank_settlements WHERE mode = 'RTGS' AND status = 'QUEUED' AND bank_id = $1`,
+    [params.fromBankId]
+  );
+  const blocked = (ahead.rows as Pick<BankSettlementRow, 'priority'>[]).some(row => PRIORITY_RANK[row.priority!] >= PRIORITY_RANK[priority!]);
+  const outcome = blocked ? 'UNFUNDED' : await settleGross(inserted.rows[0]);
+  if (outcome === 'UNFUNDED') {
+    await query(`UPDATE bank_settlements SET status = 'QUEUED' WHERE settlement_id = $1`, [settlementId]);
+  } else if (outcome === 'SETTLED') {
+    // The recipient's new liquidity may fund its own queued payments
+    retryRtgsQueue();
+  }
+
+  const result = await query('SELECT * FROM bank_settlements WHERE settlement_id = $1', [settlementId]);
+  return result.rows[0];
+}
+
+/**
+ * Change the priority of a queued RTGS payment. Returns the updated
+ * settlement, or undefined if it is no longer queued.
+ */
+export async function reprioritiseRtgsPayment(settlementId: string, priority: RtgsPriority): Promise<BankSettlementRow | undefined> {
+  const result = await query(
+    `UPDATE bank_settlements SET priority = $1 WHERE settlement_id = $2 AND mode = 'RTGS' AND status = 'QUEUED' RETURNING *`,
+    [priority, settlementId]
+  );
+  if (result.rows.length > 0) {
+    retryRtgsQueue();
+  }
+  return result.rows[0];
+}
+
+/**
+ * Retry queued RTGS payments and then optimise what is left. Each sender's
+ * queue is worked in priority order and stops at the first payment it
+ * cannot fund, so nothing overtakes a higher-priority payment. A call
+ * while a run is in progress joins it.
+ */
+export function runRtgsQueue(): Promise<RtgsQueueRun> {
+  if (!rtgsInFlight) {
+    rtgsInFlight = processRtgsQueue().finally(() => { rtgsInFlight = undefined; });
+  }
+  return rtgsInFlight;
+}
+
+/**
+ * Run the RTGS queue on a timer
+ */
+export function startRtgsQueue(intervalMs: number = SYSTEM.RTGS_QUEUE_CHECK_INTERVAL_MS): void {
+  if (rtgsTimer) return;
+  rtgsTimer = setInterval(() => {
+    runRtgsQueue()
+      .then(run => {
+        if (run.releasedGross > 0 || run.optimised?.settled) logger.info('Released queued RTGS payments', run);
+      })
+      .catch(error => logger.error('RTGS queue run failed', { error: error instanceof Error ? error.message : String(error) }));
+  }, intervalMs);
+}
+
+/**
+ * Each bank's liquidity position for the day so far: settled flows in
+ * both modes, queued RTGS and NET payments, and what its spendable GBDC
+ * leaves unfunded. Covers one bank or every commercial bank.
+ */
+export async function getIntradayLiquidity(bankId?: string): Promise<IntradayLiquidity[]> {
+  const banks = bankId
+    ? [bankId]
+    : (await query(`SELECT account_id FROM user_accounts WHERE role = $1 ORDER BY account_id`, [UserRole.COMMERCIAL_BANK])).rows.map(row => row.account_id);
+  const result = await query(
+    `SELECT bank_id, counterparty_bank_id, amount_cedi, status FROM bank_settlements
+     WHERE direction = 'DEBIT' AND (bank_id = ANY($1) OR counterparty_bank_id = ANY($1))
+       AND ((status = 'SETTLED' AND settled_at >= date_trunc('day', NOW())) OR status IN ('PENDING', 'QUEUED', 'CLEARING'))`,
+    [banks]
+  );
+  const flows: Pick<BankSettlementRow, 'bank_id' | 'counterparty_bank_id' | 'amount_cedi' | 'status'>[] = result.rows;
+  const engine = await getLedger();
+
+  return banks.map(id => {
+    const sum = (rows: typeof flows) => round(rows.reduce((total, row) => total + Number(row.amount_cedi), 0));
+    const settled = flows.filter(row => row.status === 'SETTLED');
+    const queuedOut = flows.filter(row => row.status !== 'SETTLED' && row.bank_id === id);
+    const spendableCedi = engine.getAccountBalance(id) ? engine.getSpendableBalance(id) : 0;
+    const settledOutCedi = sum(settled.filter(row => row.bank_id === id));
+    const settledInCedi = sum(settled.filter(row => row.counterparty_bank_id === id));
+    return {
+      bankId: id,
+      balanceCedi: engine.getAccountBalance(id)?.gbdcBalance ?? 0,
+      spendableCedi,
+      settledOutCedi,
+      settledInCedi,
+      netSettledCedi: round(settledInCedi - settledOutCedi),
+      queuedOutCedi: sum(queuedOut),
+      queuedOutCount: queuedOut.length,
+      queuedInCedi: sum(flows.filter(row => row.status !== 'SETTLED' && row.counterparty_bank_id === id)),
+      fundingGapCedi: Math.max(round(sum(queuedOut) - spendableCedi), 0),
+    };
+  });
+}
+
+/* Run the RTGS queue in the background after liquidity may have moved */
+function retryRtgsQueue(): void {
+  runRtgsQueue().catch(error => logger.error('RTGS queue run failed', { error: error instanceof Error ? error.message : String(error) }));
+}
+
+async function settleQueue(): Promise<SettlementCycleSummary | null> {
+  const cycleId = `CYC-${Date.now().toString(36).toUpperCase()}`;
+  // Claiming the queue keeps a concurrent cancellation from touching obligations in the cycle
+  const claimed = await query(
+    `UPDATE bank_settlements SET status = 'CLEARING', cycle_id = $1
+     WHERE mode = 'NET' AND status = 'PENDING' AND direction = 'DEBIT'
+     RETURNING *`,
+    [cycleId]
+  );
+  if (claimed.rows.length === 0) return null;
+
+  const summary = await settleClaimed(cycleId, 'NET', claimed.rows);
+  if (summary.blockHeight !== null) {
+    retryRtgsQueue();
+  }
+  return summary;
+}
+
+async function processRtgsQueue(): Promise<RtgsQueueRun> {
+  let releasedGross = 0;
+  for (let progress = true; progress;) {
+    progress = false;
+    const blockedBanks = new Set<string>();
+    for (const obligation of await queuedRtgsPayments()) {
+      if (blockedBanks.has(obligation.fromBank)) continue;
+      const claimed = await query(
+        `UPDATE bank_settlements SET status = 'CLEARING' WHERE settlement_id = $1 AND status = 'QUEUED' RETURNING *`,
+        [obligation.obligationId]
+      );
+      if (claimed.rows.length === 0) continue;
+      const outcome = await settleGross(claimed.rows[0]);
+      if (outcome === 'SETTLED') {
+        releasedGross++;
+        progress = true;
+      } else if (outcome === 'UNFUNDED') {
+        await query(`UPDATE bank_settlements SET status = 'QUEUED' WHERE settlement_id = $1`, [obligation.obligationId]);
+        blockedBanks.add(obligation.fromBank);
+      }
+    }
+  }
+
+  // What is left may still settle together where payments offset each other
+  const engine = await getLedger();
+  const plan = planNetSettlement(await queuedRtgsPayments(), bank => engine.getSpendableBalance(bank));
+  if (plan.settled.length === 0) return { releasedGross, optimised: null };
+
+  const cycleId = `OPT-${Date.now().toString(36).toUpperCase()}`;
+  const claimed = await query(
+    `UPDATE bank_settlements SET status = 'CLEARING', cycle_id = $1
+     WHERE settlement_id = ANY($2) AND status = 'QUEUED'
+     RETURNING *`,
+    [cycleId, plan.settled.map(o => o.obligationId)]
+  );
+  const optimised = claimed.rows.length > 0 ? await settleClaimed(cycleId, 'RTGS', claimed.rows) : null;
+  return { releasedGross, optimised };
+}
+
+/* Queued RTGS payments in the order they are released */
+async function queuedRtgsPayments(): Promise<InterbankObligation[]> {
+  const queued = await query(`SELECT * FROM bank_settlements WHERE mode = 'RTGS' AND status = 'QUEUED' AND direction = 'DEBIT'`);
+  return queued.rows.map(toObligation).sort(byRank);
+}
+
+/**
+ * Transfer a claimed RTGS payment in full. UNFUNDED leaves it claimed for
+ * the caller to queue; a ledger rejection marks it FAILED.
+ */
+async function settleGross(row: BankSettlementRow): Promise<'SETTLED' | 'UNFUNDED' | 'FAILED'> {
+  const obligation = toObligation(row);
+  const engine = await getLedger();
+  if (engine.getSpendableBalance(obligation.fromBank) < obligation.amountCedi) return 'UNFUNDED';
+
+  let receipt;
+  try {
+    receipt = await submit(e => e.transferGBDC({
+      fromAccount: obligation.fromBank,
+      toAccount: obligation.toBank,
+      amountCedi: obligation.amountCedi,
+      description: `RTGS settlement ${row.reference_number || obligation.obligationId}`,
+    }), { channel: 'INTERBANK' });
+  } catch (error) {
+    // Another payment may have spent the liquidity first
+    if ((error as { code?: string }).code === ERROR_CODES.INSUFFICIENT_BALANCE) return 'UNFUNDED';
+    await query(
+      `UPDATE bank_settlements SET status = 'FAILED', failure_reason = $1 WHERE settlement_id = $2`,
+      [error instanceof Error ? error.message : String(error), obligation.obligationId]
+    );
+    return 'FAILED';
+  }
+  await query(
+    `UPDATE bank_settlements SET status = 'SETTLED', tx_id = $1, settled_at = NOW() WHERE settlement_id = $2`,
+    [receipt.txId, obligation.obligationId]
+  );
+  return 'SETTLED';
+}
+
+/* Settle claimed obligations net on the ledger and record the outcome against each */
+async function settleClaimed(cycleId: string, mode: SettlementMode, rows: BankSettlementRow[]): Promise<SettlementCycleSummary> {
+  const startedAt = new Date();
+  const requeued = mode === 'NET' ? 'PENDING' : 'QUEUED';
+  let settlement;
+  try {
+    settlement = await settleNetCycle(cycleId, rows.map(toObligation));
+  } catch (error) {
+    await query(`UPDATE bank_settlements SET status = $1, cycle_id = NULL WHERE cycle_id = $2 AND status = 'CLEARING'`, [requeued, cycleId]);
+    throw error;
+  }
+  const { result, blockHeight } = settlement;
+  const ids = (list: InterbankObligation[]) => list.map(o => o.obligationId);
+  const summary: SettlementCycleSummary = {
+    cycleId,
+    mode,
+    settled: result.settled.length,
+    queued: result.queued.length,
+    rejected: result.rejected.length,
+    grossCedi: round(result.settled.reduce((sum, o) => sum + o.amountCedi, 0)),
+    netCedi: round(result.positions.reduce((sum, p) => sum + Math.max(-p.netCedi, 0), 0)),
+    overdue: result.queued.filter(o => settleBy(o.submittedAt).getTime() < Date.now()).length,
+    blockHeight,
+  };
+
+  await withTransaction(async client => {
+    await client.query(
+      `INSERT INTO settlement_cycles (cycle_id, mode, settled_count, queued_count, rejected_count, gross_cedi, net_cedi, positions, tx_ids, block_height, started_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [cycleId, mode, summary.settled, summary.queued, summary.rejected, summary.grossCedi, summary.netCedi,
+        JSON.stringify(result.positions), JSON.stringify(result.txIds), blockHeight, startedAt]
+    );
+    await client.query(
+      `UPDATE bank_settlements SET status = 'SETTLED', settled_at = NOW() WHERE settlement_id = ANY($1)`,
+      [ids(result.settled)]
+    );
+    await client.query(
+      `UPDATE bank_settlements SET status = $1, cycle_id = NULL, queued_cycles = queued_cycles + 1 WHERE settlement_id = ANY($2)`,
+      [requeued, ids(result.queued)]
+    );
+    await client.query(
+      `UPDATE bank_settlements SET status = 'FAILED', failure_reason = 'Interbank settlement is between two active commercial banks'
+       WHERE settlement_id = ANY($1)`,
+      [ids(result.rejected)]
+    );
+  });
+
+  if (mode === 'NET' && summary.overdue > 0) {
+    logger.warn('Interbank settlements queued past the finality window', { cycleId, overdue: summary.overdue });
+  }
+  return summary;
+}
+
+function toObligation(row: BankSettlementRow): InterbankObligation {
+  return {
+    obligationId: row.settlement_id,
+    fromBank: row.bank_id,
+    toBank: row.counterparty_bank_id!,
+    amountCedi: Number(row.amount_cedi),
+    submittedAt: new Date(row.created_at),
+    priority: row.priority ? PRIORITY_RANK[row.priority] : undefined,
+  };
+}
+
+/* The order planNetSettlement ranks obligations in */
+function byRank(a: InterbankObligation, b: InterbankObligation): number {
+  return (b.priority ?? 0) - (a.priority ?? 0)
+    || a.submittedAt.getTime() - b.submittedAt.getTime()
+    || a.obligationId.localeCompare(b.obligationId);
+}
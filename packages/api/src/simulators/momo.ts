@@ -0,0 +1,260 @@
+/**
+ * GOVRES — Mobile Money Provider Simulators
+ *
+ * Local stand-ins for the MTN MoMo, Vodafone Cash and AirtelTigo Money
+ * disbursement APIs, one HTTP server per provider, for running payouts
+ * end to end without provider sandboxes. Payouts are accepted as pending
+ * and settle after a delay, when the simulator calls back the URL given
+ * with the payout. Outcomes are picked by the payee's number:
+ *
+ *   ...0  the payout fails (payee wallet not found)
+ *   ...8  the first attempt gets a 503, as if the provider were down
+ *   ...9  the payout never settles, to exercise the payout timeout
+ *
+ * Other numbers succeed, apart from the configured random failure and
+ * error rates. Point MTN_MOMO_API_URL, VODAFONE_CASH_API_URL and
+ * AIRTELTIGO_MONEY_API_URL at the printed addresses to use them.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { MomoProviderCode } from '../services/momo-providers';
+
+export interface MomoSimulatorOptions {
+  /** Port per provider; 0 picks a free one */
+  ports?: Partial<Record<MomoProviderCode, number>>;
+  /** Time from acceptance to settlement and callback */
+  settleDelayMs?: number;
+  /** Share of payouts that fail at random */
+  failureRate?: number;
+  /** Share of requests answered with a 500 at random */
+  errorRate?: number;
+}
+
+export interface MomoSimulators {
+  urls: Record<MomoProviderCode, string>;
+  close(): Promise<void>;
+}
+
+type SimulatedState = 'PENDING' | 'SUCCESSFUL' | 'FAILED' | 'REVERSED';
+
+interface SimulatedPayout {
+  reference: string;
+  msisdn: string;
+  amount: string;
+  callbackUrl?: string;
+  state: SimulatedState;
+  providerTxId: string;
+  reason?: string;
+}
+
+interface Reply {
+  status: number;
+  body?: unknown;
+}
+
+/* Provider-specific wire format around a shared payout store */
+interface ProviderDialect {
+  /** Accept a payout request; undefined if the route is not a payout request */
+  initiate(method: string, path: string, body: any, headers: http.IncomingHttpHeaders): Omit<SimulatedPayout, 'state' | 'providerTxId'> | undefined;
+  accepted(payout: SimulatedPayout): Reply;
+  /** Reference a status request is for */
+  statusReference(method: string, path: string): string | undefined;
+  status(payout: SimulatedPayout): Reply;
+  /** Reference of the payout a reversal request is for */
+  reversalReference(method: string, path: string, body: any, headers: http.IncomingHttpHeaders): string | undefined;
+  reversal(payout: SimulatedPayout, refused: boolean): Reply;
+  callback(payout: SimulatedPayout): unknown;
+  /** Token endpoint, for providers that use one */
+  tokenPath?: string;
+}
+
+const DIALECTS: Record<MomoProviderCode, ProviderDialect> = {
+  MTN_MOMO: {
+    tokenPath: '/disbursement/token/',
+    initiate: (method, path, body, headers) => method === 'POST' && path === '/disbursement/v1_0/transfer'
+      ? { reference: String(headers['x-reference-id']), msisdn: body.payee?.partyId, amount: body.amount, callbackUrl: headers['x-callback-url'] as string | undefined }
+      : undefined,
+    accepted: () => ({ status: 202 }),
+    statusReference: (method, path) => (method === 'GET' ? /^\/disbursement\/v1_0\/transfer\/([\w-]+)$/.exec(path)?.[1] : undefined),
+    status: payout => ({ status: 200, body: mtnBody(payout) }),
+    reversalReference: (method, path, body) => (method === 'POST' && path === '/disbursement/v1_0/refund' ? body.referenceIdToRefund : undefined),
+    // The refund is looked up by its own reference, which MTN answers with the refund's state
+    reversal: (_payout, refused) => ({ status: refused ? 409 : 202 }),
+    callback: payout => mtnBody(payout),
+  },
+  VODAFONE_CASH: {
+    initiate: (method, path, body) => method === 'POST' && path === '/v1/payouts'
+      ? { reference: body.reference, msisdn: body.msisdn, amount: body.amount, callbackUrl: body.callbackUrl }
+      : undefined,
+    accepted: payout => ({ status: 201, body: vodafoneBody(payout) }),
+    statusReference: (method, path) => (method === 'GET' ? /^\/v1\/payouts\/([\w-]+)$/.exec(path)?.[1] : undefined),
+    status: payout => ({ status: 200, body: vodafoneBody(payout) }),
+    reversalReference: (method, path) => (method === 'POST' ? /^\/v1\/payouts\/([\w-]+)\/reversal$/.exec(path)?.[1] : undefined),
+    reversal: (payout, refused) => (refused
+      ? { status: 200, body: { ...vodafoneBody(payout), status: 'FAILED', message: 'Payout cannot be reversed' } }
+      : { status: 200, body: { reference: payout.reference, status: 'SUCCESS', message: 'Reversed' } }),
+    callback: payout => vodafoneBody(payout),
+  },
+  AIRTELTIGO_MONEY: {
+    tokenPath: '/auth/oauth2/token',
+    initiate: (method, path, body) => method === 'POST' && path === '/standard/v1/disbursements/'
+      ? { reference: body.transaction?.id, msisdn: `233${body.payee?.msisdn}`, amount: String(body.transaction?.amount), callbackUrl: body.callback_url }
+      : undefined,
+    accepted: payout => ({ status: 200, body: { data: { transaction: airtelTigoTransaction(payout) }, status: { success: true } } }),
+    statusReference: (method, path) => (method === 'GET' ? /^\/standard\/v1\/disbursements\/([\w-]+)$/.exec(path)?.[1] : undefined),
+    status: payout => ({ status: 200, body: { data: { transaction: airtelTigoTransaction(payout) }, status: { success: true } } }),
+    reversalReference: (method, path, body) => (method === 'POST' && path === '/standard/v1/payments/refund' ? body.transaction?.id : undefined),
+    reversal: (payout, refused) => ({
+      status: 200,
+      body: { data: { transaction: { id: payout.reference, airtel_money_id: payout.providerTxId, status: refused ? 'TF' : 'TS' } } },
+    }),
+    callback: payout => ({ transaction: { ...airtelTigoTransaction(payout), status_code: airtelTigoTransaction(payout).status } }),
+  },
+};
+
+function mtnBody(payout: SimulatedPayout) {
+  return {
+    amount: payout.amount,
+    currency: 'GHS',
+    externalId: payout.reference,
+    financialTransactionId: payout.state === 'SUCCESSFUL' ? payout.providerTxId : undefined,
+    payee: { partyIdType: 'MSISDN', partyId: payout.msisdn },
+    status: payout.state === 'REVERSED' ? 'FAILED' : payout.state,
+    reason: payout.reason,
+  };
+}
+
+function vodafoneBody(payout: SimulatedPayout) {
+  const status = payout.state === 'SUCCESSFUL' ? 'SUCCESS' : payout.state === 'PENDING' ? 'PENDING' : 'FAILED';
+  return { reference: payout.reference, transactionId: payout.providerTxId, status, message: payout.reason };
+}
+
+function airtelTigoTransaction(payout: SimulatedPayout) {
+  const status = payout.state === 'SUCCESSFUL' ? 'TS' : payout.state === 'PENDING' ? 'TIP' : 'TF';
+  return { id: payout.reference, airtel_money_id: payout.providerTxId, status, message: payout.reason };
+}
+
+/**
+ * Start a simulator for every provider
+ */
+export async function startMomoSimulators(options: MomoSimulatorOptions = {}): Promise<MomoSimulators> {
+  const settleDelayMs = options.settleDelayMs ?? 2_000;
+  const failureRate = options.failureRate ?? 0;
+  const errorRate = options.errorRate ?? 0;
+  const servers: http.Server[] = [];
+  const timers = new Set<NodeJS.Timeout>();
+  const urls = {} as Record<MomoProviderCode, string>;
+
+  for (const [code, dialect] of Object.entries(DIALECTS) as [MomoProviderCode, ProviderDialect][]) {
+    const payouts = new Map<string, SimulatedPayout>();
+    const refusedOnce = new Set<string>();
+    // MTN refunds are read back through the status route under their own reference
+    const mtnRefunds = new Map<string, SimulatedPayout>();
+
+    const settle = (payout: SimulatedPayout) => {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        if (payout.state !== 'PENDING') return;
+        if (payout.msisdn.endsWith('9')) return;
+        const fails = payout.msisdn.endsWith('0') || Math.random() < failureRate;
+        payout.state = fails ? 'FAILED' : 'SUCCESSFUL';
+        payout.reason = fails ? 'Payee wallet not found' : undefined;
+        if (payout.callbackUrl) {
+          fetch(payout.callbackUrl, {
+            method: code === 'MTN_MOMO' ? 'PUT' : 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(dialect.callback(payout)),
+          }).catch(() => undefined);
+        }
+      }, settleDelayMs);
+      timers.add(timer);
+    };
+
+    const handle = (method: string, path: string, body: any, headers: http.IncomingHttpHeaders): Reply => {
+      if (Math.random() < errorRate) return { status: 500, body: { message: 'Simulated provider error' } };
+      if (dialect.tokenPath && method === 'POST' && path === dialect.tokenPath) {
+        return { status: 200, body: { access_token: crypto.randomBytes(16).toString('hex'), token_type: 'Bearer', expires_in: 3600 } };
+      }
+
+      const request = dialect.initiate(method, path, body, headers);
+      if (request) {
+        if (!request.reference || !request.msisdn || !(Number(request.amount) > 0)) return { status: 400, body: { message: 'Invalid payout request' } };
+        if (payouts.has(request.reference)) return { status: 409, body: { message: 'Duplicate reference' } };
+        if (request.msisdn.endsWith('8') && !refusedOnce.has(request.reference)) {
+          refusedOnce.add(request.reference);
+          return { status: 503, body: { message: 'Service temporarily unavailable' } };
+        }
+        const payout: SimulatedPayout = { ...request, state: 'PENDING', providerTxId: `${code}-${crypto.randomBytes(5).toString('hex').toUpperCase()}` };
+        payouts.set(payout.reference, payout);
+        settle(payout);
+        return dialect.accepted(payout);
+      }
+
+      const statusReference = dialect.statusReference(method, path);
+      if (statusReference) {
+        const payout = payouts.get(statusReference) ?? mtnRefunds.get(statusReference);
+        return payout ? dialect.status(payout) : { status: 404, body: { message: 'Payout not found' } };
+      }
+
+      const reversalReference = dialect.reversalReference(method, path, body, headers);
+      if (reversalReference) {
+        const payout = payouts.get(reversalReference);
+        if (!payout) return { status: 404, body: { message: 'Payout not found' } };
+        const refused = payout.state === 'FAILED' || payout.state === 'REVERSED';
+        if (!refused) {
+          payout.state = 'REVERSED';
+          payout.reason = 'Reversed at the sender\'s request';
+        }
+        if (code === 'MTN_MOMO') {
+          const refundReference = String(headers['x-reference-id']);
+          mtnRefunds.set(refundReference, { ...payout, reference: refundReference, state: refused ? 'FAILED' : 'SUCCESSFUL' });
+        }
+        return dialect.reversal(payout, refused);
+      }
+      return { status: 404, body: { message: `No route for ${method} ${path}` } };
+    };
+
+    const server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        let body: any = {};
+        try {
+          body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+        } catch {
+          body = {};
+        }
+        const path = (req.url ?? '/').split('?')[0].replace(/^\/disbursement\/v1_0\/refund\/([\w-]+)$/, '/disbursement/v1_0/transfer/$1');
+        const reply = handle(req.method ?? 'GET', path, body, req.headers);
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(reply.body === undefined ? '' : JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(options.ports?.[code] ?? 0, '127.0.0.1', resolve));
+    servers.push(server);
+    urls[code] = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+  }
+
+  return {
+    urls,
+    close: async () => {
+      for (const timer of timers) clearTimeout(timer);
+      await Promise.all(servers.map(server => new Promise<void>(resolve => server.close(() => resolve()))));
+    },
+  };
+}
+
+if (require.main === module) {
+  startMomoSimulators({
+    ports: { MTN_MOMO: 4101, VODAFONE_CASH: 4102, AIRTELTIGO_MONEY: 4103 },
+    settleDelayMs: Number(process.env.MOMO_SIM_SETTLE_DELAY_MS ?? 2_000),
+    failureRate: Number(process.env.MOMO_SIM_FAILURE_RATE ?? 0),
+    errorRate: Number(process.env.MOMO_SIM_ERROR_RATE ?? 0),
+  }).then(({ urls }) => {
+    console.log('MoMo provider simulators running:');
+    console.log(`  MTN_MOMO_API_URL=${urls.MTN_MOMO}`);
+    console.log(`  VODAFONE_CASH_API_URL=${urls.VODAFONE_CASH}`);
+    console.log(`  AIRTELTIGO_MONEY_API_URL=${urls.AIRTELTIGO_MONEY}`);
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * GOVRES — XML Utility Tests
+ * Parsing, entity handling, refusal of document type declarations, and
+ * round trips through the writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildXml, parseXml, serializeXml } from './xml';
+
+// ─── Parsing ────────────────────────────────────────────
+
+describe('parseXml', () => {
+  it('reads elements without their namespace prefix, with attributes and trimmed text', () => {
+    const root = parseXml(`<?xml version="1.0" encoding="UTF-8"?>
+      <!-- status report -->
+      <p:Document xmlns:p="urn:example" Id='D1'>
+        <p:Amt Ccy="GHS"> 1500.25 </p:Amt>
+        <p:Empty/>
+      </p:Document>`);
+
+    expect(root).toEqual({
+      name: 'Document',
+      attributes: { 'xmlns:p': 'urn:example', Id: 'D1' },
+      text: '',
+      children: [
+        { name: 'Amt', attributes: { Ccy: 'GHS' }, children: [], text: '1500.25' },
+        { name: 'Empty', attributes: {}, children: [], text: '' },
+      ],
+    });
+  });
+
+  it('decodes predefined and numeric entities, and keeps CDATA as written', () => {
+    const root = parseXml('<Nm a="&quot;x&quot;">Kofi &amp; Sons &#x263A; &#169; <![CDATA[<b>&amp;</b>]]></Nm>');
+    expect(root.attributes.a).toBe('"x"');
+    expect(root.text).toBe('Kofi & Sons ☺ © <b>&amp;</b>');
+  });
+
+  it('refuses entities it does not define, including names inherited by plain objects', () => {
+    expect(() => parseXml('<Nm>&nbsp;</Nm>')).toThrow('unknown entity &nbsp;');
+    expect(() => parseXml('<Nm>&constructor;</Nm>')).toThrow('unknown entity &constructor;');
+    expect(() => parseXml('<Nm a="&toString;"/>')).toThrow('unknown entity &toString;');
+  });
+
+  it('refuses document type declarations', () => {
+    const xml = '<?xml version="1.0"?><!DOCTYPE Document [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><Document>&xxe;</Document>';
+    expect(() => parseXml(xml)).toThrow('document type declarations are not accepted');
+  });
+
+  it.each([
+    ['an unclosed element', '<Document><MsgId>1</MsgId>', 'unclosed element Document'],
+    ['a mismatched closing tag', '<Document></Documents>', 'expected </Document> but found </Documents>'],
+    ['an unquoted attribute', '<Amt Ccy=GHS>1</Amt>', 'expected a quoted attribute value'],
+    ['content after the root', '<A/><B/>', 'content after the root element'],
+    ['no root element', '   ', 'expected an element'],
+  ])('reports %s with its offset', (_, xml, message) => {
+    expect(() => parseXml(xml)).toThrow(new RegExp(`^Malformed XML at offset \\d+: ${message}`));
+  });
+});
+
+// ─── Writing ────────────────────────────────────────────
+
+describe('serializeXml', () => {
+  it('writes a document that parses back to the same tree, leaving out undefined children', () => {
+    const root = buildXml('Document', [
+      buildXml('Nm', 'Ama <Mensah> & "Co"'),
+      undefined,
+      buildXml('Amt', 12.5, { Ccy: 'GHS' }),
+      buildXml('Empty'),
+    ], { xmlns: 'urn:example' });
+
+    const xml = serializeXml(root);
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<Document xmlns="urn:example">\n  <Nm>')).toBe(true);
+    expect(parseXml(xml)).toEqual(root);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * GOVRES — XML Utility
+ *
+ * A small XML reader and writer for ISO 20022 messages. Element names are
+ * read without their namespace prefix; document type declarations are
+ * refused so no external entity can be resolved.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Text content directly inside the element, trimmed */
+  text: string;
+}
+
+/** A child for buildXml: an element, or undefined to leave it out */
+export type XmlNode = XmlElement | undefined;
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Parse a document into its root element. Throws on malformed XML.
+ */
+export function parseXml(xml: string): XmlElement {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Malformed XML at offset ${pos}: ${message}`);
+  };
+
+  const skipMisc = () => {
+    for (;;) {
+      while (pos < xml.length && /\s/.test(xml[pos])) pos++;
+      if (xml.startsWith('<?', pos)) {
+        const end = xml.indexOf('?>', pos);
+        if (end < 0) fail('unterminated processing instruction');
+        pos = end + 2;
+      } else if (xml.startsWith('<!--', pos)) {
+        const end = xml.indexOf('-->', pos);
+        if (end < 0) fail('unterminated comment');
+        pos = end + 3;
+      } else if (xml.startsWith('<!DOCTYPE', pos)) {
+        fail('document type declarations are not accepted');
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readName = (): string => {
+    const match = /^[A-Za-z_][\w.:-]*/.exec(xml.slice(pos, pos + 256));
+    if (!match) fail('expected a name');
+    pos += match![0].length;
+    return match![0];
+  };
+
+  const readElement = (): XmlElement => {
+    if (xml[pos] !== '<') fail('expected an element');
+    pos++;
+    const qualifiedName = readName();
+    const element: XmlElement = { name: localName(qualifiedName), attributes: {}, children: [], text: '' };
+
+    for (;;) {
+      while (/\s/.test(xml[pos] ?? '')) pos++;
+      if (xml.startsWith('/>', pos)) {
+        pos += 2;
+        return element;
+      }
+      if (xml[pos] === '>') {
+        pos++;
+        break;
+      }
+      const attribute = readName();
+      while (/\s/.test(xml[pos] ?? '')) pos++;
+      if (xml[pos] !== '=') fail(`expected a value for attribute ${attribute}`);
+      pos++;
+      while (/\s/.test(xml[pos] ?? '')) pos++;
+      const quote = xml[pos];
+      if (quote !== '"' && quote !== "'") fail('expected a quoted attribute value');
+      const end = xml.indexOf(quote, pos + 1);
+      if (end < 0) fail('unterminated attribute value');
+      element.attributes[attribute] = decodeEntities(xml.slice(pos + 1, end));
+      pos = end + 1;
+    }
+
+    let text = '';
+    for (;;) {
+      if (pos >= xml.length) fail(`unclosed element ${qualifiedName}`);
+      if (xml.startsWith('</', pos)) {
+        pos += 2;
+        const closing = readName();
+        if (closing !== qualifiedName) fail(`expected </${qualifiedName}> but found </${closing}>`);
+        while (/\s/.test(xml[pos] ?? '')) pos++;
+        if (xml[pos] !== '>') fail('expected >');
+        pos++;
+        element.text = text.trim();
+        return element;
+      }
+      if (xml.startsWith('<!--', pos)) {
+        const end = xml.indexOf('-->', pos);
+        if (end < 0) fail('unterminated comment');
+        pos = end + 3;
+      } else if (xml.startsWith('<![CDATA[', pos)) {
+        const end = xml.indexOf(']]>', pos);
+        if (end < 0) fail('unterminated CDATA section');
+        text += xml.slice(pos + 9, end);
+        pos = end + 3;
+      } else if (xml[pos] === '<') {
+        element.children.push(readElement());
+      } else {
+        const end = xml.indexOf('<', pos);
+        text += decodeEntities(xml.slice(pos, end < 0 ? xml.length : end));
+        pos = end < 0 ? xml.length : end;
+      }
+    }
+  };
+
+  skipMisc();
+  const root = readElement();
+  skipMisc();
+  if (pos < xml.length) fail('content after the root element');
+  return root;
+}
+
+/**
+ * Build an element; undefined children are left out, so optional fields
+ * can be written inline
+ */
+export function buildXml(
+  name: string,
+  content?: string | number | XmlNode[],
+  attributes: Record<string, string> = {}
+): XmlElement {
+  return Array.isArray(content)
+    ? { name, attributes, children: content.filter((child): child is XmlElement => child !== undefined), text: '' }
+    : { name, attributes, children: [], text: content === undefined ? '' : String(content) };
+}
+
+/**
+ * Serialise an element as an indented UTF-8 document
+ */
+export function serializeXml(root: XmlElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeElement(root, '')}\n`;
+}
+
+function serializeElement(element: XmlElement, indent: string): string {
+  const attributes = Object.entries(element.attributes).map(([key, value]) => ` ${key}="${encodeEntities(value)}"`).join('');
+  if (element.children.length === 0) {
+    return `${indent}<${element.name}${attributes}>${encodeEntities(element.text)}</${element.name}>`;
+  }
+  const children = element.children.map(child => serializeElement(child, `${indent}  `)).join('\n');
+  return `${indent}<${element.name}${attributes}>\n${children}\n${indent}</${element.name}>`;
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    if (Object.hasOwn(ENTITIES, code)) return ENTITIES[code];
+    throw new Error(`Malformed XML: unknown entity ${entity}`);
+  });
+}
+
+function encodeEntities(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -7,6 +7,9 @@ import { describe, it, expect } from 'vitest';
 import {
   computeBlockHash,
   computeMerkleRoot,
+  computeMerkleLeaf,
+  buildMerkleProof,
+  verifyMerkleProof,
   validateBlock,
   createGenesisBlock,
   BlockTransaction,
@@ -125,6 +128,46 @@ describe('computeMerkleRoot', () => {
   });
 });
 
+// ─── Merkle proofs ──────────────────────────────────────
+
+describe('Merkle proofs', () => {
+  const txs = Array.from({ length: 5 }, (_, i) => makeTx({ txId: `TX-${i}`, signature: `sig-${i}` }));
+  const block = makeBlock(3, 'a'.repeat(64), txs);
+
+  it('proves every transaction, including the unpaired last leaf', () => {
+    for (const tx of txs) {
+      const proof = buildMerkleProof(block, tx.txId)!;
+      expect(proof.leafHash).toBe(computeMerkleLeaf(tx));
+      expect(proof.path).toHaveLength(3);
+      expect(verifyMerkleProof(proof, block.header.merkleRoot)).toBe(true);
+    }
+  });
+
+  it('carries the block it was built from', () => {
+    const proof = buildMerkleProof(block, 'TX-2')!;
+    expect(proof).toEqual(expect.objectContaining({ txId: 'TX-2', blockHeight: 3, blockHash: block.hash, merkleRoot: block.header.merkleRoot }));
+  });
+
+  it('proves the only transaction of a single-transaction block with an empty path', () => {
+    const single = makeBlock(1, 'a'.repeat(64), [txs[0]]);
+    const proof = buildMerkleProof(single, 'TX-0')!;
+    expect(proof.path).toEqual([]);
+    expect(verifyMerkleProof(proof, single.header.merkleRoot)).toBe(true);
+  });
+
+  it('returns undefined for a transaction not in the block', () => {
+    expect(buildMerkleProof(block, 'TX-MISSING')).toBeUndefined();
+  });
+
+  it('rejects a tampered leaf, path or root', () => {
+    const proof = buildMerkleProof(block, 'TX-1')!;
+    expect(verifyMerkleProof({ ...proof, leafHash: computeMerkleLeaf(txs[2]) }, block.header.merkleRoot)).toBe(false);
+    const path = proof.path.map((step, i) => (i === 1 ? { ...step, hash: 'f'.repeat(64) } : step));
+    expect(verifyMerkleProof({ ...proof, path }, block.header.merkleRoot)).toBe(false);
+    expect(verifyMerkleProof(proof, 'f'.repeat(64))).toBe(false);
+  });
+});
+
 // ─── createGenesisBlock ─────────────────────────────────
 
 describe('createGenesisBlock', () => {
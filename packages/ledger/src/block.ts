@@ -12,6 +12,7 @@
 
 import crypto from 'crypto';
 import { SYSTEM } from '@govres/shared';
+import { ValidatorRegistry, verifyBlockSignature, verifyTransactionSignature } from './validator';
 
 export interface BlockHeader {
   blockHeight: number;
@@ -32,7 +33,7 @@ export interface LedgerBlock {
 
 export interface BlockTransaction {
   txId: string;
-  type: 'MINT' | 'TRANSFER' | 'REDEEM' | 'CONVERT' | 'SETTLE' | 'BURN';
+  type: 'MINT' | 'TRANSFER' | 'REDEEM' | 'CONVERT' | 'SETTLE' | 'BURN' | 'EXPIRE' | 'PLEDGE' | 'RELEASE' | 'ESCROW' | 'YIELD_NOTE';
   instrumentType: 'GBDC' | 'CRDN';
   instrumentId: string;
   fromAccount: string;
@@ -59,37 +60,121 @@ export function computeBlockHash(header: BlockHeader): string {
   return crypto.createHash(SYSTEM.HASH_ALGORITHM).update(data).digest('hex');
 }
 
+export interface MerkleProofStep {
+  hash: string;
+  /** Side of the sibling relative to the running hash */
+  position: 'left' | 'right';
+}
+
 /**
- * Computes the Merkle root of a set of transactions
+ * Proof that a transaction is one of the leaves under a block's Merkle
+ * root. Anyone holding the block header can check it without the
+ * block's other transactions.
  */
-export function computeMerkleRoot(transactions: BlockTransaction[]): string {
-  if (transactions.length === 0) {
-    return crypto.createHash(SYSTEM.HASH_ALGORITHM).update('empty').digest('hex');
-  }
+export interface MerkleProof {
+  txId: string;
+  leafHash: string;
+  path: MerkleProofStep[];
+  merkleRoot: string;
+  blockHeight: number;
+  blockHash: string;
+}
 
-  let hashes = transactions.map(tx =>
-    crypto.createHash(SYSTEM.HASH_ALGORITHM).update(tx.txId + tx.signature).digest('hex')
-  );
+function sha256(data: string): string {
+  return crypto.createHash(SYSTEM.HASH_ALGORITHM).update(data).digest('hex');
+}
+
+/**
+ * Computes the Merkle leaf for a transaction
+ */
+export function computeMerkleLeaf(tx: Pick<BlockTransaction, 'txId' | 'signature'>): string {
+  return sha256(tx.txId + tx.signature);
+}
+
+/* Every level of the tree, leaves first; an odd node is paired with itself */
+function computeMerkleLevels(leaves: string[]): string[][] {
+  const levels = [leaves];
+  let hashes = leaves;
 
   while (hashes.length > 1) {
     const nextLevel: string[] = [];
     for (let i = 0; i < hashes.length; i += 2) {
       const left = hashes[i];
       const right = i + 1 < hashes.length ? hashes[i + 1] : left;
-      nextLevel.push(
-        crypto.createHash(SYSTEM.HASH_ALGORITHM).update(left + right).digest('hex')
-      );
+      nextLevel.push(sha256(left + right));
     }
+    levels.push(nextLevel);
     hashes = nextLevel;
   }
 
-  return hashes[0];
+  return levels;
+}
+
+/**
+ * Computes the Merkle root of a set of transactions
+ */
+export function computeMerkleRoot(transactions: BlockTransaction[]): string {
+  return computeMerkleRootOfHashes(transactions.map(computeMerkleLeaf));
+}
+
+/**
+ * Computes the Merkle root over precomputed leaf hashes
+ */
+export function computeMerkleRootOfHashes(leaves: string[]): string {
+  if (leaves.length === 0) {
+    return sha256('empty');
+  }
+  const levels = computeMerkleLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+/**
+ * Builds the inclusion proof for one transaction in a block
+ */
+export function buildMerkleProof(block: LedgerBlock, txId: string): MerkleProof | undefined {
+  const position = block.transactions.findIndex(tx => tx.txId === txId);
+  if (position === -1) return undefined;
+
+  const levels = computeMerkleLevels(block.transactions.map(computeMerkleLeaf));
+  const path: MerkleProofStep[] = [];
+  let index = position;
+  for (const level of levels.slice(0, -1)) {
+    const isRight = index % 2 === 1;
+    const sibling = isRight ? level[index - 1] : level[index + 1] ?? level[index];
+    path.push({ hash: sibling, position: isRight ? 'left' : 'right' });
+    index = Math.floor(index / 2);
+  }
+
+  return {
+    txId,
+    leafHash: levels[0][position],
+    path,
+    merkleRoot: block.header.merkleRoot,
+    blockHeight: block.header.blockHeight,
+    blockHash: block.hash,
+  };
 }
 
 /**
- * Validates a block's integrity
+ * Checks that a proof's leaf hashes up to merkleRoot, which should come
+ * from a block header the verifier already trusts
  */
-export function validateBlock(block: LedgerBlock, previousBlock?: LedgerBlock): boolean {
+export function verifyMerkleProof(proof: MerkleProof, merkleRoot: string): boolean {
+  if (proof.merkleRoot !== merkleRoot) return false;
+
+  let hash = proof.leafHash;
+  for (const step of proof.path) {
+    hash = step.position === 'left' ? sha256(step.hash + hash) : sha256(hash + step.hash);
+  }
+  return hash === merkleRoot;
+}
+
+/**
+ * Validates a block's integrity.
+ * When a validator registry is supplied, the block must also be signed by
+ * an authorised validator, and every transaction by that same validator.
+ */
+export function validateBlock(block: LedgerBlock, previousBlock?: LedgerBlock, validators?: ValidatorRegistry): boolean {
   // 1. Verify block hash
   const computedHash = computeBlockHash(block.header);
   if (computedHash !== block.hash) {
@@ -122,6 +207,17 @@ export function validateBlock(block: LedgerBlock, previousBlock?: LedgerBlock):
     return false;
   }
 
+  // 7. Verify validator and transaction signatures
+  if (validators) {
+    const publicKey = validators.getPublicKey(block.header.validatorId);
+    if (!publicKey || !verifyBlockSignature(block, publicKey)) {
+      return false;
+    }
+    if (!block.transactions.every(tx => verifyTransactionSignature(tx, publicKey))) {
+      return false;
+    }
+  }
+
   return true;
 }
 
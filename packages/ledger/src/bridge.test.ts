@@ -0,0 +1,135 @@
+/**
+ * GOVRES — eCedi Bridge Tests
+ * Locking, committing and rolling back bridge transfers, and their
+ * replication to other validators
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { UserRole } from '@govres/shared';
+import { LedgerEngine } from './engine';
+import { BridgeTransfer, ECEDI_FLOAT_ACCOUNT, bridgeLegs, bridgeLockAccountId } from './bridge';
+
+const transfer = (transferId: string, direction: BridgeTransfer['direction'], amountCedi: number, account = 'BANK-A'): BridgeTransfer =>
+  ({ transferId, direction, account, amountCedi });
+
+// ─── Legs ───────────────────────────────────────────────
+
+describe('bridgeLegs', () => {
+  it('locks from the bank and commits to the float for GBDC going out', () => {
+    const out = transfer('BR-1', 'GBDC_TO_ECEDI', 100);
+    expect(bridgeLegs(out, 'LOCK')).toEqual({ from: 'BANK-A', to: bridgeLockAccountId('BR-1') });
+    expect(bridgeLegs(out, 'COMMIT')).toEqual({ from: bridgeLockAccountId('BR-1'), to: ECEDI_FLOAT_ACCOUNT });
+    expect(bridgeLegs(out, 'ROLLBACK')).toEqual({ from: bridgeLockAccountId('BR-1'), to: 'BANK-A' });
+  });
+
+  it('locks from the float and commits to the bank for GBDC coming back', () => {
+    const back = transfer('BR-2', 'ECEDI_TO_GBDC', 100);
+    expect(bridgeLegs(back, 'LOCK')).toEqual({ from: ECEDI_FLOAT_ACCOUNT, to: bridgeLockAccountId('BR-2') });
+    expect(bridgeLegs(back, 'COMMIT')).toEqual({ from: bridgeLockAccountId('BR-2'), to: 'BANK-A' });
+    expect(bridgeLegs(back, 'ROLLBACK')).toEqual({ from: bridgeLockAccountId('BR-2'), to: ECEDI_FLOAT_ACCOUNT });
+  });
+});
+
+// ─── Engine Bridge Transfers ────────────────────────────
+
+describe('LedgerEngine eCedi bridge', () => {
+  let engine: LedgerEngine;
+
+  beforeEach(async () => {
+    engine = new LedgerEngine('BOG-NODE-TEST');
+    await engine.initialize();
+    engine.registerAccount('BANK-A', UserRole.COMMERCIAL_BANK);
+    engine.registerAccount('FARMER-1', UserRole.FARMER);
+    engine.registerGoldReserve(1_000_000, 'gold-attest');
+    engine.mintGBDC({
+      amountCedi: 100_000,
+      goldBackingGrams: 2_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-B1',
+      issuedBy: 'BOG_TREASURY',
+    });
+    engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 1_000, description: 'Liquidity' });
+  });
+
+  it('locks GBDC going out and moves it to the float on commit', async () => {
+    const out = transfer('BR-1', 'GBDC_TO_ECEDI', 400);
+    engine.lockBridgeTransfer(out);
+    expect(engine.getAccountBalance('BANK-A')!.gbdcBalance).toBe(600);
+    expect(engine.getBridgeLock('BR-1')).toBe(400);
+    expect(() => engine.lockBridgeTransfer(out)).toThrow('already exists');
+
+    engine.commitBridgeTransfer(out);
+    expect(engine.getBridgeLock('BR-1')).toBe(0);
+    expect(engine.getAccountBalance(ECEDI_FLOAT_ACCOUNT)!.gbdcBalance).toBe(400);
+    expect(() => engine.rollbackBridgeTransfer({ ...out, reason: 'Too late' })).toThrow('no locked GBDC');
+
+    await engine.generateBlock();
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+
+  it('returns locked GBDC to the bank on rollback', () => {
+    const out = transfer('BR-1', 'GBDC_TO_ECEDI', 400);
+    engine.lockBridgeTransfer(out);
+    expect(() => engine.commitBridgeTransfer({ ...out, amountCedi: 300 })).toThrow('locked 400 GHS');
+
+    engine.rollbackBridgeTransfer({ ...out, reason: 'eCedi declined' });
+    expect(engine.getAccountBalance('BANK-A')!.gbdcBalance).toBe(1_000);
+    expect(engine.getBridgeLock('BR-1')).toBe(0);
+  });
+
+  it('pays GBDC back out of the float, which must cover it', () => {
+    expect(() => engine.lockBridgeTransfer(transfer('BR-0', 'ECEDI_TO_GBDC', 100))).toThrow('ECEDI_BRIDGE holds 0 GHS');
+
+    const out = transfer('BR-1', 'GBDC_TO_ECEDI', 400);
+    engine.lockBridgeTransfer(out);
+    engine.commitBridgeTransfer(out);
+
+    const back = transfer('BR-2', 'ECEDI_TO_GBDC', 150);
+    engine.lockBridgeTransfer(back);
+    expect(engine.getAccountBalance(ECEDI_FLOAT_ACCOUNT)!.gbdcBalance).toBe(250);
+    engine.commitBridgeTransfer(back);
+    expect(engine.getAccountBalance('BANK-A')!.gbdcBalance).toBe(750);
+  });
+
+  it('only lets commercial banks use the bridge', () => {
+    expect(() => engine.lockBridgeTransfer(transfer('BR-1', 'GBDC_TO_ECEDI', 10, 'FARMER-1'))).toThrow('Only commercial banks');
+  });
+
+  it('keeps bridge steps out of reversals', async () => {
+    engine.registerAccount('ADMIN-1', UserRole.BOG_ADMIN);
+    engine.registerAccount('ADMIN-2', UserRole.BOG_ADMIN);
+    engine.lockBridgeTransfer(transfer('BR-1', 'GBDC_TO_ECEDI', 400));
+    const block = await engine.generateBlock();
+    const lock = block!.transactions.find(tx => tx.data.bridge === 'LOCK')!;
+    expect(() => engine.reverseTransaction({ original: lock, requestedBy: 'ADMIN-1', approvedBy: 'ADMIN-2', reason: 'Dispute' }))
+      .toThrow('Only GBDC transfers');
+  });
+
+  it('replicates bridge steps and rejects ones for accounts that are not banks', async () => {
+    const other = new LedgerEngine('BOG-NODE-TEST', { genesisBlock: engine.getBlock(0) });
+    await other.initialize();
+    for (const [id, role] of [['BANK-A', UserRole.COMMERCIAL_BANK], ['FARMER-1', UserRole.FARMER], ['BANK-D', UserRole.GOVT_AGENCY],
+      [ECEDI_FLOAT_ACCOUNT, UserRole.BOG_ADMIN], [bridgeLockAccountId('BR-1'), UserRole.BOG_ADMIN], [bridgeLockAccountId('BR-2'), UserRole.BOG_ADMIN]] as const) {
+      other.registerAccount(id, role);
+    }
+    other.registerGoldReserve(1_000_000, 'gold-attest');
+    const commit = async () => {
+      const proposal = engine.createBlockProposal();
+      await other.appendBlock(proposal);
+      await engine.appendBlock(proposal);
+    };
+    await commit();
+
+    const out = transfer('BR-1', 'GBDC_TO_ECEDI', 400);
+    engine.lockBridgeTransfer(out);
+    engine.commitBridgeTransfer(out);
+    await commit();
+    expect(other.getAccountBalance(ECEDI_FLOAT_ACCOUNT)).toEqual(engine.getAccountBalance(ECEDI_FLOAT_ACCOUNT));
+
+    // A validator that wrongly treats BANK-D as a commercial bank
+    engine.registerAccount('BANK-D', UserRole.COMMERCIAL_BANK);
+    engine.lockBridgeTransfer(transfer('BR-2', 'ECEDI_TO_GBDC', 100, 'BANK-D'));
+    expect(other.verifyBlockProposal(engine.createBlockProposal())).toBe(false);
+  });
+});
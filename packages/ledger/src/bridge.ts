@@ -0,0 +1,50 @@
+/**
+ * GOVRES — eCedi Bridge
+ *
+ * Banks move GBDC across to the eCedi CBDC and back under two-phase
+ * commit. The first phase locks the transfer's GBDC leg in a lock account
+ * of its own: the bank's GBDC going out to eCedi, or GBDC from the bridge
+ * float coming back for eCedi paid in. Once the eCedi side has prepared
+ * its leg the lock is committed: outgoing GBDC joins the float, which
+ * backs the eCedi issued against it, and incoming GBDC goes to the bank.
+ * If either side cannot go ahead the lock is rolled back to where it
+ * came from.
+ */
+
+export type BridgeDirection = 'GBDC_TO_ECEDI' | 'ECEDI_TO_GBDC';
+
+export type BridgeStep = 'LOCK' | 'COMMIT' | 'ROLLBACK';
+
+export interface BridgeTransfer {
+  transferId: string;
+  direction: BridgeDirection;
+  /** Commercial bank sending or receiving the GBDC */
+  account: string;
+  amountCedi: number;
+}
+
+/**
+ * Ledger account holding the GBDC behind eCedi issued through the bridge
+ */
+export const ECEDI_FLOAT_ACCOUNT = 'ECEDI_BRIDGE';
+
+/**
+ * Ledger account holding a transfer's GBDC while it is locked
+ */
+export function bridgeLockAccountId(transferId: string): string {
+  return `ECEDI-LOCK-${transferId}`;
+}
+
+/**
+ * Accounts a step of a bridge transfer moves GBDC from and to
+ */
+export function bridgeLegs(transfer: Omit<BridgeTransfer, 'amountCedi'>, step: BridgeStep): { from: string; to: string } {
+  const lock = bridgeLockAccountId(transfer.transferId);
+  const origin = transfer.direction === 'GBDC_TO_ECEDI' ? transfer.account : ECEDI_FLOAT_ACCOUNT;
+  const destination = transfer.direction === 'GBDC_TO_ECEDI' ? ECEDI_FLOAT_ACCOUNT : transfer.account;
+  switch (step) {
+    case 'LOCK': return { from: origin, to: lock };
+    case 'COMMIT': return { from: lock, to: destination };
+    case 'ROLLBACK': return { from: lock, to: origin };
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * GOVRES — Collateralised Lending Tests
+ * Haircuts, valuation and interest, and the engine's pledge, draw,
+ * repay, release and margin call flow
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UserRole, GBDCStatus, CRDNStatus, FINANCIAL } from '@govres/shared';
+import { LedgerEngine } from './engine';
+import { MemoryLedgerStorage } from './storage';
+import { CreditLine, getHaircutPercent, lendingValue, accrueInterest } from './collateral';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Valuation Helpers ──────────────────────────────────
+
+describe('getHaircutPercent', () => {
+  it('uses the grade-specific CRDN haircut, then the instrument default', () => {
+    expect(getHaircutPercent('GBDC')).toBe(FINANCIAL.COLLATERAL_HAIRCUT_PERCENT.GBDC);
+    expect(getHaircutPercent('CRDN', 'GRADE_1')).toBe(FINANCIAL.COLLATERAL_HAIRCUT_PERCENT.CRDN_GRADE_1);
+    expect(getHaircutPercent('CRDN', 'UNGRADED')).toBe(FINANCIAL.COLLATERAL_HAIRCUT_PERCENT.CRDN);
+  });
+
+  it('prefers overrides', () => {
+    const overrides = new Map([['CRDN_GRADE_1', 15], ['CRDN', 40]]);
+    expect(getHaircutPercent('CRDN', 'GRADE_1', overrides)).toBe(15);
+    expect(getHaircutPercent('CRDN', undefined, overrides)).toBe(40);
+  });
+});
+
+describe('lendingValue', () => {
+  const pledge = { faceValueCedi: 10_000, haircutPercent: 20 };
+
+  it('lends face value less the haircut without a price', () => {
+    expect(lendingValue(pledge, 100)).toBe(8_000);
+  });
+
+  it('follows the attested price but never above face value', () => {
+    expect(lendingValue(pledge, 100, 80)).toBe(6_400);
+    expect(lendingValue(pledge, 100, 150)).toBe(8_000);
+  });
+});
+
+describe('accrueInterest', () => {
+  it('accrues simple interest on an actual/365 basis', () => {
+    const line: CreditLine = {
+      bank: 'BANK-1',
+      principalCedi: 10_000,
+      accruedInterestCedi: 0,
+      interestRatePercent: 20,
+      lastAccrualAt: new Date('2026-01-01T00:00:00Z'),
+    };
+    accrueInterest(line, new Date(line.lastAccrualAt.getTime() + 73 * DAY_MS));
+    expect(line.accruedInterestCedi).toBeCloseTo(400, 6);
+
+    // Earlier timestamps accrue nothing
+    accrueInterest(line, new Date('2025-12-01T00:00:00Z'));
+    expect(line.accruedInterestCedi).toBeCloseTo(400, 6);
+  });
+});
+
+// ─── Lending Facility ───────────────────────────────────
+
+describe('LedgerEngine lending facility', () => {
+  let engine: LedgerEngine;
+  let gbdcId: string;
+
+  const mint = (amountCedi: number, goldBackingGrams: number, issuanceId: string) => engine.mintGBDC({
+    amountCedi,
+    goldBackingGrams,
+    goldPricePerGramUSD: 80,
+    exchangeRateUSDGHS: 15,
+    issuanceId,
+    issuedBy: 'BOG_TREASURY',
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+    engine = new LedgerEngine('BOG-NODE-TEST', { storage: new MemoryLedgerStorage() });
+    await engine.initialize();
+    engine.registerAccount('BANK-L1', UserRole.COMMERCIAL_BANK);
+    engine.registerAccount('FARMER-L1', UserRole.FARMER);
+    engine.registerAccount('LBC-L1', UserRole.LBC);
+    engine.registerGoldReserve(1_000_000, 'gold-attest');
+
+    // 50,000 GHS on 1,000 g of gold for the bank; the treasury keeps 100,000 to lend
+    gbdcId = mint(50_000, 1_000, 'ISS-L1');
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BOG_TREASURY', toAccount: 'BANK-L1', amountCedi: 50_000, description: 'Fund bank' });
+    mint(100_000, 2_000, 'ISS-L2');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('locks a pledged GBDC instrument while it stays on the bank balance', async () => {
+    engine.pledgeCollateral({ instrumentId: gbdcId, instrumentType: 'GBDC', bank: 'BANK-L1' });
+
+    expect(engine.getGBDCRecord(gbdcId)!.status).toBe(GBDCStatus.LOCKED);
+    expect(engine.getAccountBalance('BANK-L1')!.gbdcBalance).toBe(50_000);
+    expect(engine.getCreditLine('BANK-L1')).toEqual(expect.objectContaining({ collateralValueCedi: 47_500, availableCedi: 47_500 }));
+    expect(() => engine.transferGBDC({ fromAccount: 'BANK-L1', toAccount: 'BOG_TREASURY', amountCedi: 1_000, description: 'x' })).toThrow('SETTLE_004');
+    expect(() => engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'BANK-L1', amountCedi: 1_000 })).toThrow('SETTLE_004');
+
+    await engine.generateBlock();
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+
+  it('pledges a CRDN at its grade haircut and blocks transfers and conversion', async () => {
+    const crdnId = engine.issueCRDN({
+      farmerId: 'FARMER-L1', lbcId: 'LBC-L1', cocoaWeightKg: 640, pricePerKgGHS: 50,
+      warehouseReceiptId: 'WR-L1', seasonYear: '2025/2026', attestationHash: 'ah',
+    });
+    engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'FARMER-L1', toAccount: 'BANK-L1' });
+    engine.pledgeCollateral({ instrumentId: crdnId, instrumentType: 'CRDN', bank: 'BANK-L1', qualityGrade: 'GRADE_1' });
+
+    expect(engine.getCRDNRecord(crdnId)!.status).toBe(CRDNStatus.PLEDGED);
+    expect(engine.getCreditLine('BANK-L1').pledges[0]).toEqual(expect.objectContaining({ haircutPercent: 20, qualityGrade: 'GRADE_1' }));
+    expect(engine.getCreditLine('BANK-L1').collateralValueCedi).toBe(25_600);
+    expect(() => engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'BANK-L1', toAccount: 'FARMER-L1' })).toThrow('current state');
+    expect(() => engine.convertCRDN({ instrumentId: crdnId, farmerId: 'BANK-L1', targetInstrument: 'GBDC' })).toThrow('current state');
+    expect(engine.getReserveSummary().totalCRDNOutstanding).toBe(32_000);
+
+    await engine.generateBlock();
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+
+  it('only lets commercial banks pledge what they wholly hold', () => {
+    expect(() => engine.pledgeCollateral({ instrumentId: gbdcId, instrumentType: 'GBDC', bank: 'FARMER-L1' })).toThrow('AUTH_002');
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BANK-L1', toAccount: 'BOG_TREASURY', amountCedi: 100, description: 'Split' });
+    expect(() => engine.pledgeCollateral({ instrumentId: gbdcId, instrumentType: 'GBDC', bank: 'BANK-L1' })).toThrow('does not hold all');
+  });
+
+  it('lends up to the collateral value and accrues interest on draws', () => {
+    engine.pledgeCollateral({ instrumentId: gbdcId, instrumentType: 'GBDC', bank: 'BANK-L1' });
+    expect(() => engine.drawCredit({ bank: 'BANK-L1', amountCedi: 50_000 })).toThrow('LEDGER_001');
+
+    engine.drawCredit({ bank: 'BANK-L1', amountCedi: 10_000 });
+    expect(engine.getAccountBalance('BANK-L1')!.gbdcBalance).toBe(60_000);
+
+    vi.setSystemTime(new Date(Date.now() + 365 * DAY_MS));
+    const line = engine.getCreditLine('BANK-L1');
+    expect(line.principalCedi).toBe(10_000);
+    expect(line.accruedInterestCedi).toBeCloseTo(10_000 * FINANCIAL.LENDING_FACILITY_RATE_PERCENT / 100, 4);
+  });
+
+  it('applies repayments to interest before principal', () => {
+    engine.pledgeCollateral({ instrumentId: gbdcId, instrumentType: 'GBDC', bank: 'BANK-L1' });
+    engine.drawCredit({ bank: 'BANK-L1', amountCedi: 10_000 });
+    vi.setSystemTime(new Date(Date.now() + 365 * DAY_MS));
+
+    engine.repayCredit({ bank: 'BANK-L1', amountCedi: 3_000 });
+    const line = engine.getCreditLine('BANK-L1');
+    expect(line.accruedInterestCedi).toBeCloseTo(0, 4);
+    expect(line.principalCedi).toBeCloseTo(10_000 - (3_000 - 2_800), 4);
+  });
+
+  it('releases collateral only when the rest still covers the facility', async () => {
+    engine.pledgeCollateral({ instrumentId: gbdcId, instrumentType: 'GBDC', bank: 'BANK-L1' });
+    engine.drawCredit({ bank: 'BANK-L1', amountCedi: 10_000 });
+    expect(() => engine.releaseCollateral({ instrumentId: gbdcId, bank: 'BANK-L1' })).toThrow('under-collateralised');
+
+    engine.repayCredit({ bank: 'BANK-L1', amountCedi: 10_000 });
+    engine.releaseCollateral({ instrumentId: gbdcId, bank: 'BANK-L1' });
+    expect(engine.getGBDCRecord(gbdcId)!.status).toBe(GBDCStatus.CIRCULATING);
+    expect(engine.getCreditLine('BANK-L1').pledges).toHaveLength(0);
+
+    await engine.generateBlock();
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+
+  it('raises a margin call once when the gold attestation drops, and clears it on recovery', () => {
+    engine.pledgeCollateral({ instrumentId: gbdcId, instrumentType: 'GBDC', bank: 'BANK-L1' });
+    engine.drawCredit({ bank: 'BANK-L1', amountCedi: 45_000 });
+    const calls: any[] = [];
+    const cures: any[] = [];
+    engine.on('collateral:margin_call', e => calls.push(e));
+    engine.on('collateral:margin_cured', e => cures.push(e));
+
+    // 1,000 g at 40 GHS/g, less 5%
+    expect(engine.updateCollateralPrice({ asset: 'GOLD', pricePerUnitGHS: 40, attestationHash: 'p1' })).toEqual(['BANK-L1']);
+    engine.updateCollateralPrice({ asset: 'GOLD', pricePerUnitGHS: 39, attestationHash: 'p2' });
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toEqual(expect.objectContaining({ bank: 'BANK-L1', collateralValueCedi: 38_000 }));
+    expect(calls[0].shortfallCedi).toBeCloseTo(7_000, 4);
+
+    expect(engine.updateCollateralPrice({ asset: 'GOLD', pricePerUnitGHS: 50, attestationHash: 'p3' })).toEqual([]);
+    expect(cures).toEqual([expect.objectContaining({ bank: 'BANK-L1' })]);
+  });
+
+  it('ignores cocoa prices for gold-backed collateral', () => {
+    engine.pledgeCollateral({ instrumentId: gbdcId, instrumentType: 'GBDC', bank: 'BANK-L1' });
+    engine.updateCollateralPrice({ asset: 'COCOA', pricePerUnitGHS: 1, attestationHash: 'c1' });
+    expect(engine.getCreditLine('BANK-L1').collateralValueCedi).toBe(47_500);
+  });
+
+  it('fixes the haircut when the instrument is pledged', () => {
+    engine.setCollateralHaircut('GBDC', 10);
+    engine.pledgeCollateral({ instrumentId: gbdcId, instrumentType: 'GBDC', bank: 'BANK-L1' });
+    engine.setCollateralHaircut('GBDC', 50);
+    expect(engine.getCreditLine('BANK-L1').collateralValueCedi).toBe(45_000);
+    expect(() => engine.setCollateralHaircut('GBDC', 100)).toThrow();
+  });
+
+  it('keeps facility transfers out of dispute reversals', async () => {
+    engine.registerAccount('ADMIN-1', UserRole.BOG_ADMIN);
+    engine.registerAccount('ADMIN-2', UserRole.BOG_ADMIN);
+    engine.pledgeCollateral({ instrumentId: gbdcId, instrumentType: 'GBDC', bank: 'BANK-L1' });
+    engine.drawCredit({ bank: 'BANK-L1', amountCedi: 10_000 });
+    const block = await engine.generateBlock();
+    const draw = block!.transactions.find(tx => tx.data.facility === 'DRAW')!;
+
+    expect(() => engine.reverseTransaction({ original: draw, requestedBy: 'ADMIN-1', approvedBy: 'ADMIN-2', reason: 'Dispute' }))
+      .toThrow('Only GBDC transfers');
+  });
+
+  it('rebuilds pledges and credit lines on restart', async () => {
+    const storage = new MemoryLedgerStorage();
+    const first = new LedgerEngine('BOG-NODE-TEST', { storage });
+    await first.initialize();
+    first.registerAccount('BANK-L1', UserRole.COMMERCIAL_BANK);
+    first.registerGoldReserve(1_000_000, 'gold-attest');
+    const id = first.mintGBDC({
+      amountCedi: 50_000, goldBackingGrams: 1_000, goldPricePerGramUSD: 80, exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-R1', issuedBy: 'BOG_TREASURY',
+    });
+    first.mintGBDC({
+      amountCedi: 50_000, goldBackingGrams: 1_000, goldPricePerGramUSD: 80, exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-R2', issuedBy: 'BOG_TREASURY',
+    });
+    first.transferGBDC({ instrumentId: id, fromAccount: 'BOG_TREASURY', toAccount: 'BANK-L1', amountCedi: 50_000, description: 'Fund bank' });
+    first.pledgeCollateral({ instrumentId: id, instrumentType: 'GBDC', bank: 'BANK-L1' });
+    first.drawCredit({ bank: 'BANK-L1', amountCedi: 20_000 });
+    await first.generateBlock();
+
+    const restarted = new LedgerEngine('BOG-NODE-TEST', { storage });
+    await restarted.initialize();
+    expect(restarted.getGBDCRecord(id)!.status).toBe(GBDCStatus.LOCKED);
+    expect(restarted.getCreditLine('BANK-L1')).toEqual(first.getCreditLine('BANK-L1'));
+  });
+});
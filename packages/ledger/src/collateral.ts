@@ -0,0 +1,108 @@
+/**
+ * GOVRES — Collateralised Lending
+ *
+ * Commercial banks pledge GBDC or CRDN instruments to BoG and draw GBDC
+ * against them. Each pledge lends at its market value less a haircut set
+ * per instrument type and, for CRDNs, per QCC quality grade. Market value
+ * follows the latest attested gold or cocoa price, capped at face value,
+ * so a falling attestation shrinks the credit line and can leave a bank
+ * under-collateralised.
+ */
+
+import { FINANCIAL } from '@govres/shared';
+
+export type CollateralAsset = 'GOLD' | 'COCOA';
+
+export interface Pledge {
+  instrumentId: string;
+  instrumentType: 'GBDC' | 'CRDN';
+  bank: string;
+  faceValueCedi: number;
+  haircutPercent: number;
+  qualityGrade?: string;
+  /** Status the instrument returns to when released */
+  priorStatus: string;
+  pledgedAt: Date;
+}
+
+export interface CreditLine {
+  bank: string;
+  principalCedi: number;
+  accruedInterestCedi: number;
+  interestRatePercent: number;
+  /** Interest is accrued up to this time */
+  lastAccrualAt: Date;
+}
+
+/* A bank's facility with interest accrued to the time it was read */
+export interface CreditLineSummary {
+  bank: string;
+  pledges: Pledge[];
+  /** Sum of the pledges' lending values at the latest attested prices */
+  collateralValueCedi: number;
+  principalCedi: number;
+  accruedInterestCedi: number;
+  /** Principal plus accrued interest */
+  exposureCedi: number;
+  availableCedi: number;
+  interestRatePercent: number;
+  /** Exposure the collateral no longer covers; a margin call is open while positive */
+  shortfallCedi: number;
+}
+
+/* An attested price for one unit of backing: a gram of gold or a kilogram of cocoa */
+export interface CollateralPrice {
+  asset: CollateralAsset;
+  pricePerUnitGHS: number;
+  attestationHash: string;
+  updatedAt: Date;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Key into a haircut table: CRDNs are looked up by grade first, e.g.
+ * CRDN_GRADE_1, then by instrument type
+ */
+export function haircutKey(instrumentType: 'GBDC' | 'CRDN', qualityGrade?: string): string {
+  return instrumentType === 'CRDN' && qualityGrade ? `CRDN_${qualityGrade}` : instrumentType;
+}
+
+/**
+ * Haircut for an instrument, from overrides then FINANCIAL.COLLATERAL_HAIRCUT_PERCENT
+ */
+export function getHaircutPercent(
+  instrumentType: 'GBDC' | 'CRDN',
+  qualityGrade?: string,
+  overrides: Map<string, number> = new Map()
+): number {
+  const defaults: Record<string, number> = FINANCIAL.COLLATERAL_HAIRCUT_PERCENT;
+  const key = haircutKey(instrumentType, qualityGrade);
+  return overrides.get(key) ?? defaults[key] ?? overrides.get(instrumentType) ?? defaults[instrumentType];
+}
+
+/**
+ * What a pledge lends: its backing at the attested price, capped at face
+ * value, less the haircut. Without a price the backing is taken at face.
+ */
+export function lendingValue(
+  pledge: Pick<Pledge, 'faceValueCedi' | 'haircutPercent'>,
+  backingQuantity: number,
+  pricePerUnitGHS?: number
+): number {
+  const marketValue = pricePerUnitGHS === undefined
+    ? pledge.faceValueCedi
+    : Math.min(pledge.faceValueCedi, backingQuantity * pricePerUnitGHS);
+  return marketValue * (1 - pledge.haircutPercent / 100);
+}
+
+/**
+ * Accrue simple interest (actual/365) on the principal up to at
+ */
+export function accrueInterest(line: CreditLine, at: Date): void {
+  const elapsed = at.getTime() - new Date(line.lastAccrualAt).getTime();
+  if (elapsed > 0) {
+    line.accruedInterestCedi += line.principalCedi * (line.interestRatePercent / 100) * elapsed / YEAR_MS;
+    line.lastAccrualAt = at;
+  }
+}
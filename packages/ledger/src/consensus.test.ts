@@ -0,0 +1,228 @@
+/**
+ * GOVRES — Consensus Tests
+ * Multi-validator agreement, leader rotation and view changes over the in-memory transport
+ */
+
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { signData } from '@govres/security';
+import { UserRole } from '@govres/shared';
+import { LedgerEngine } from './engine';
+import { ConsensusNode, InMemoryTransport, ConsensusMessage } from './consensus';
+import { ValidatorRegistry, ValidatorKeyPair, getDevelopmentKeyPair } from './validator';
+
+// ─── Helpers ────────────────────────────────────────────
+
+const VALIDATOR_IDS = ['BOG-NODE-1', 'BOG-NODE-2', 'BOG-NODE-3', 'BOG-NODE-4'];
+
+// One key pair shared by all test validators keeps RSA-4096 generation out of the test run
+let key: ValidatorKeyPair;
+
+beforeAll(() => {
+  key = getDevelopmentKeyPair();
+}, 60_000);
+
+interface Network {
+  transport: InMemoryTransport;
+  engines: LedgerEngine[];
+  nodes: ConsensusNode[];
+}
+
+let running: Network | undefined;
+
+async function createNetwork(ids = VALIDATOR_IDS): Promise<Network> {
+  const validators = new ValidatorRegistry();
+  for (const id of ids) validators.register(id, key.publicKey);
+
+  const first = new LedgerEngine(ids[0], { signingKey: key, validators });
+  await first.initialize();
+  const engines = [first];
+  for (const id of ids.slice(1)) {
+    const engine = new LedgerEngine(id, { signingKey: key, validators, genesisBlock: first.getBlock(0) });
+    await engine.initialize();
+    engines.push(engine);
+  }
+
+  for (const engine of engines) {
+    engine.registerAccount('BANK-A', UserRole.COMMERCIAL_BANK);
+    engine.registerGoldReserve(1_000_000, 'gold-attest');
+  }
+
+  const transport = new InMemoryTransport();
+  const nodes = ids.map((id, i) => new ConsensusNode({
+    validatorId: id,
+    engine: engines[i],
+    signingKey: key,
+    validators,
+    transport,
+    proposeDelayMs: 10,
+    viewTimeoutMs: 300,
+  }));
+
+  running = { transport, engines, nodes };
+  return running;
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 15_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function mint(engine: LedgerEngine, issuanceId: string): string {
+  return engine.mintGBDC({
+    amountCedi: 50_000,
+    goldBackingGrams: 1_000,
+    goldPricePerGramUSD: 80,
+    exchangeRateUSDGHS: 15,
+    issuanceId,
+    issuedBy: 'BOG_TREASURY',
+  });
+}
+
+afterEach(() => {
+  running?.nodes.forEach(node => node.stop());
+  running = undefined;
+});
+
+// ─── Quorum & Leadership ────────────────────────────────
+
+describe('ConsensusNode quorum', () => {
+  it('tolerates f = floor((n-1)/3) faults with an n-f quorum', async () => {
+    const { nodes } = await createNetwork();
+    expect(nodes[0].getFaultTolerance()).toBe(1);
+    expect(nodes[0].getQuorum()).toBe(3);
+  });
+
+  it('rotates leaders round-robin by height and round', async () => {
+    const { nodes } = await createNetwork();
+    expect(nodes[0].getLeader(1, 0)).toBe('BOG-NODE-2');
+    expect(nodes[0].getLeader(2, 0)).toBe('BOG-NODE-3');
+    expect(nodes[0].getLeader(1, 1)).toBe('BOG-NODE-3');
+    expect(nodes[0].getLeader(4, 0)).toBe('BOG-NODE-1');
+    expect(nodes.every(node => node.getLeader(7, 2) === nodes[0].getLeader(7, 2))).toBe(true);
+  });
+
+  it('refuses to run a node outside the validator set', async () => {
+    const { engines, transport } = await createNetwork();
+    expect(() => new ConsensusNode({
+      validatorId: 'ROGUE-NODE',
+      engine: engines[0],
+      signingKey: key,
+      validators: new ValidatorRegistry(),
+      transport,
+    })).toThrow();
+  });
+});
+
+// ─── Agreement ──────────────────────────────────────────
+
+describe('ConsensusNode agreement', () => {
+  it('commits identical blocks on every validator', async () => {
+    const { engines, nodes } = await createNetwork();
+    const instrumentId = mint(engines[1], 'ISS-C1');
+
+    nodes.forEach(node => node.start());
+    await waitFor(() => engines.every(engine => engine.getGBDCRecord(instrumentId) !== undefined));
+    await waitFor(() => engines.every(engine => engine.getChainHeight() >= 2));
+
+    for (let height = 0; height <= 2; height++) {
+      const hashes = new Set(engines.map(engine => engine.getBlock(height)!.hash));
+      expect(hashes.size).toBe(1);
+    }
+    for (const engine of engines) {
+      expect(engine.getAccountBalance('BOG_TREASURY')!.gbdcBalance).toBe(50_000);
+      expect(engine.getReserveSummary().pendingTransactions).toBe(0);
+    }
+  });
+
+  it('includes transactions from every validator as leadership rotates', async () => {
+    const { engines, nodes } = await createNetwork();
+    const ids = engines.map((engine, i) => mint(engine, `ISS-R${i}`));
+
+    nodes.forEach(node => node.start());
+    await waitFor(() => engines.every(engine => ids.every(id => engine.getGBDCRecord(id))));
+
+    for (const engine of engines) {
+      expect(engine.getAccountBalance('BOG_TREASURY')!.gbdcBalance).toBe(200_000);
+    }
+  });
+
+  it('emits consensus:committed with the proposer of each block', async () => {
+    const { nodes } = await createNetwork();
+    const committed: any[] = [];
+    nodes[0].on('consensus:committed', (e) => committed.push(e));
+
+    nodes.forEach(node => node.start());
+    await waitFor(() => committed.length >= 2);
+
+    expect(committed[0]).toEqual(expect.objectContaining({ height: 1, round: 0, proposerId: 'BOG-NODE-2' }));
+    expect(committed[1]).toEqual(expect.objectContaining({ height: 2, round: 0, proposerId: 'BOG-NODE-3' }));
+  });
+});
+
+// ─── Faults & View Changes ──────────────────────────────
+
+describe('ConsensusNode view changes', () => {
+  it('replaces a silent leader and keeps committing', async () => {
+    const { engines, nodes, transport } = await createNetwork();
+    const silentLeader = nodes[0].getLeader(1, 0);
+    transport.isolate(silentLeader);
+
+    const viewChanges: any[] = [];
+    nodes[0].on('consensus:view_change', (e) => viewChanges.push(e));
+
+    nodes.forEach(node => node.start());
+    const live = engines.filter((_, i) => VALIDATOR_IDS[i] !== silentLeader);
+    await waitFor(() => live.every(engine => engine.getChainHeight() >= 2));
+
+    expect(viewChanges[0]).toEqual(expect.objectContaining({ height: 1, round: 1, leader: 'BOG-NODE-3' }));
+    expect(live[0].getBlock(1)!.header.validatorId).toBe('BOG-NODE-3');
+    expect(new Set(live.map(engine => engine.getBlock(1)!.hash)).size).toBe(1);
+    expect(engines[VALIDATOR_IDS.indexOf(silentLeader)].getChainHeight()).toBe(0);
+  });
+
+  it('cannot make progress without a quorum', async () => {
+    const { engines, nodes, transport } = await createNetwork();
+    transport.isolate('BOG-NODE-3');
+    transport.isolate('BOG-NODE-4');
+
+    nodes.forEach(node => node.start());
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    expect(engines.every(engine => engine.getChainHeight() === 0)).toBe(true);
+  });
+});
+
+// ─── Message Authentication ─────────────────────────────
+
+describe('ConsensusNode message checks', () => {
+  it('rejects proposals from a validator that is not the leader', async () => {
+    const { engines, nodes, transport } = await createNetwork();
+    transport.isolate('BOG-NODE-2'); // real leader for height 1 stays quiet
+    const rejected: any[] = [];
+    nodes[0].on('consensus:rejected', (e) => rejected.push(e));
+    nodes[0].start();
+
+    const block = engines[3].createBlockProposal();
+    const message = { type: 'PROPOSAL', height: 1, round: 0, block, senderId: 'BOG-NODE-4', signature: '' } as ConsensusMessage;
+    message.signature = signData(`PROPOSAL:1:0:${block.hash}:BOG-NODE-4`, key.privateKey);
+    transport.broadcast(message);
+
+    await waitFor(() => rejected.length > 0);
+    expect(rejected[0]).toEqual(expect.objectContaining({ senderId: 'BOG-NODE-4', reason: 'not the leader' }));
+  });
+
+  it('rejects messages with a forged signature', async () => {
+    const { nodes, transport } = await createNetwork();
+    const rejected: any[] = [];
+    nodes[0].on('consensus:rejected', (e) => rejected.push(e));
+    nodes[0].start();
+
+    transport.broadcast({ type: 'COMMIT', height: 1, round: 0, blockHash: 'abc', senderId: 'BOG-NODE-3', signature: 'forged' });
+
+    await waitFor(() => rejected.length > 0);
+    expect(rejected[0]).toEqual(expect.objectContaining({ senderId: 'BOG-NODE-3', reason: 'bad signature' }));
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * GOVRES — Validator Consensus
+ *
+ * Byzantine fault tolerant agreement on ledger blocks between BoG
+ * validator nodes, in the style of PBFT / Tendermint:
+ *
+ *   1. PROPOSE   — the round leader broadcasts a signed block proposal
+ *   2. PREPARE   — validators that accept the proposal broadcast a prepare vote
+ *   3. COMMIT    — on 2f+1 prepares a validator locks the block and votes commit
+ *   4. Finalise  — on 2f+1 commits the block is appended to every engine
+ *
+ * Leaders rotate round-robin by (height + round). If no block is finalised
+ * before the view timeout, validators vote to change view; 2f+1 view-change
+ * votes move everyone to the next round and leader. A validator locked on a
+ * block carries it in its view-change vote, and the new leader re-proposes
+ * the most recently locked block so a block that may have been finalised
+ * elsewhere is never replaced.
+ *
+ * With n validators the network tolerates f = floor((n - 1) / 3) faulty ones.
+ */
+
+import { EventEmitter } from 'events';
+import { signData, verifySignature } from '@govres/security';
+import { LedgerBlock } from './block';
+import { LedgerEngine } from './engine';
+import { ValidatorKeyPair, ValidatorRegistry } from './validator';
+
+// ─── Messages ───────────────────────────────────────────────────
+
+export type ConsensusMessage =
+  | ProposalMessage
+  | VoteMessage
+  | ViewChangeMessage;
+
+interface MessageBase {
+  height: number;
+  round: number;
+  senderId: string;
+  signature: string;
+}
+
+export interface ProposalMessage extends MessageBase {
+  type: 'PROPOSAL';
+  block: LedgerBlock;
+}
+
+export interface VoteMessage extends MessageBase {
+  type: 'PREPARE' | 'COMMIT';
+  blockHash: string;
+}
+
+export interface ViewChangeMessage extends MessageBase {
+  type: 'VIEW_CHANGE';
+  /** Block this validator is locked on, if any, and the round it locked in */
+  lockedBlock?: LedgerBlock;
+  lockedRound?: number;
+}
+
+type UnsignedMessage =
+  | Omit<ProposalMessage, 'senderId' | 'signature'>
+  | Omit<VoteMessage, 'senderId' | 'signature'>
+  | Omit<ViewChangeMessage, 'senderId' | 'signature'>;
+
+/* The signed content of a message; blocks are covered by their hash */
+function messageDigest(message: ConsensusMessage): string {
+  const blockHash =
+    message.type === 'PROPOSAL' ? message.block.hash
+    : message.type === 'VIEW_CHANGE' ? message.lockedBlock?.hash ?? ''
+    : message.blockHash;
+  return `${message.type}:${message.height}:${message.round}:${blockHash}:${message.senderId}`;
+}
+
+// ─── Transport ──────────────────────────────────────────────────
+
+export interface ConsensusTransport {
+  /** Attach a node so it receives broadcasts */
+  register(nodeId: string, handler: (message: ConsensusMessage) => void): void;
+
+  /** Deliver a message to every registered node, including the sender */
+  broadcast(message: ConsensusMessage): void;
+}
+
+/**
+ * Single-process transport for tests and simulations. Messages are
+ * copied and delivered asynchronously, like a real network. Nodes can be
+ * isolated to simulate a crashed or partitioned validator.
+ */
+export class InMemoryTransport implements ConsensusTransport {
+  private handlers = new Map<string, (message: ConsensusMessage) => void>();
+  private isolated = new Set<string>();
+
+  register(nodeId: string, handler: (message: ConsensusMessage) => void): void {
+    this.handlers.set(nodeId, handler);
+  }
+
+  broadcast(message: ConsensusMessage): void {
+    if (this.isolated.has(message.senderId)) return;
+    for (const [nodeId, handler] of this.handlers) {
+      if (this.isolated.has(nodeId)) continue;
+      const copy = structuredClone(message);
+      setImmediate(() => handler(copy));
+    }
+  }
+
+  isolate(nodeId: string): void {
+    this.isolated.add(nodeId);
+  }
+
+  reconnect(nodeId: string): void {
+    this.isolated.delete(nodeId);
+  }
+}
+
+// ─── Consensus Node ─────────────────────────────────────────────
+
+export interface ConsensusNodeOptions {
+  validatorId: string;
+  engine: LedgerEngine;
+  signingKey: ValidatorKeyPair;
+  /** Authorised validator set; every member takes part in consensus */
+  validators: ValidatorRegistry;
+  transport: ConsensusTransport;
+  /** Delay before a leader proposes, i.e. the block interval */
+  proposeDelayMs?: number;
+  /** Time allowed for a round before voting to change view */
+  viewTimeoutMs?: number;
+}
+
+export class ConsensusNode extends EventEmitter {
+  private readonly validatorId: string;
+  private readonly engine: LedgerEngine;
+  private readonly signingKey: ValidatorKeyPair;
+  private readonly registry: ValidatorRegistry;
+  private readonly transport: ConsensusTransport;
+  private readonly proposeDelayMs: number;
+  private readonly viewTimeoutMs: number;
+
+  private height = 0;
+  private round = 0;
+  private running = false;
+  private finalising = false;
+
+  private proposal?: LedgerBlock;
+  private lockedBlock?: LedgerBlock;
+  private lockedRound?: number;
+  private sentPrepare = new Set<number>();
+  private sentCommit = new Set<number>();
+  private sentViewChange = new Set<number>();
+
+  /* Votes keyed by `${round}:${blockHash}` → voter ids */
+  private prepares = new Map<string, Set<string>>();
+  private commits = new Map<string, Set<string>>();
+  /* View-change votes keyed by target round → voter id → message */
+  private viewChanges = new Map<number, Map<string, ViewChangeMessage>>();
+  /* Messages for heights or rounds this node has not reached yet */
+  private future: ConsensusMessage[] = [];
+
+  private proposeTimer?: NodeJS.Timeout;
+  private viewTimer?: NodeJS.Timeout;
+
+  constructor(options: ConsensusNodeOptions) {
+    super();
+    this.validatorId = options.validatorId;
+    this.engine = options.engine;
+    this.signingKey = options.signingKey;
+    this.registry = options.validators;
+    this.transport = options.transport;
+    this.proposeDelayMs = options.proposeDelayMs ?? 1000;
+    this.viewTimeoutMs = options.viewTimeoutMs ?? 5000;
+
+    if (!this.registry.isAuthorised(this.validatorId)) {
+      throw new Error(`Validator ${this.validatorId} is not in the validator set`);
+    }
+    this.transport.register(this.validatorId, (message) => this.receive(message));
+  }
+
+  // ─── Lifecycle ────────────────────────────────────────────────
+
+  /**
+   * Start taking part in consensus from the engine's current tip.
+   * The engine must already be initialised.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.enterHeight(this.engine.getChainHeight() + 1);
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.proposeTimer);
+    clearTimeout(this.viewTimer);
+  }
+
+  // ─── Quorum & Leadership ──────────────────────────────────────
+
+  getValidatorSet(): string[] {
+    return this.registry.getValidatorIds().sort();
+  }
+
+  /** Maximum number of faulty validators tolerated */
+  getFaultTolerance(): number {
+    return Math.floor((this.getValidatorSet().length - 1) / 3);
+  }
+
+  /**
+   * Votes needed to prepare, commit or change view: n - f, which is 2f+1
+   * for n = 3f+1 and keeps any two quorums overlapping in an honest node
+   */
+  getQuorum(): number {
+    return this.getValidatorSet().length - this.getFaultTolerance();
+  }
+
+  getLeader(height: number, round: number): string {
+    const validators = this.getValidatorSet();
+    return validators[(height + round) % validators.length];
+  }
+
+  getStatus() {
+    return {
+      validatorId: this.validatorId,
+      height: this.height,
+      round: this.round,
+      leader: this.getLeader(this.height, this.round),
+      lockedBlockHash: this.lockedBlock?.hash ?? null,
+      chainHeight: this.engine.getChainHeight(),
+    };
+  }
+
+  // ─── Round Progression ────────────────────────────────────────
+
+  private enterHeight(height: number): void {
+    this.height = height;
+    this.proposal = undefined;
+    this.lockedBlock = undefined;
+    this.lockedRound = undefined;
+    this.sentPrepare.clear();
+    this.sentCommit.clear();
+    this.sentViewChange.clear();
+    this.prepares.clear();
+    this.commits.clear();
+    this.viewChanges.clear();
+    this.future = this.future.filter(m => m.height >= height);
+    this.enterRound(0);
+  }
+
+  private enterRound(round: number): void {
+    this.round = round;
+    this.proposal = undefined;
+    clearTimeout(this.proposeTimer);
+    clearTimeout(this.viewTimer);
+    if (!this.running) return;
+
+    if (this.getLeader(this.height, round) === this.validatorId) {
+      const delay = round === 0 ? this.proposeDelayMs : 0;
+      this.proposeTimer = setTimeout(() => this.propose(), delay);
+    }
+    // Later rounds get longer, so a slow but honest network still converges
+    this.viewTimer = setTimeout(() => this.requestViewChange(round + 1), this.proposeDelayMs + this.viewTimeoutMs * (round + 1));
+
+    const ready = this.future.filter(m => m.height === this.height && m.round <= round);
+    this.future = this.future.filter(m => !ready.includes(m));
+    for (const message of ready) this.receive(message);
+  }
+
+  private propose(): void {
+    if (!this.running) return;
+    const block = this.reproposalCandidate() ?? this.engine.createBlockProposal();
+    this.send({ type: 'PROPOSAL', height: this.height, round: this.round, block });
+    this.emit('consensus:proposed', { height: this.height, round: this.round, hash: block.hash });
+  }
+
+  /* The most recently locked block reported in the view change that started this round */
+  private reproposalCandidate(): LedgerBlock | undefined {
+    let candidate: { block: LedgerBlock; round: number } | undefined;
+    if (this.lockedBlock && this.lockedRound !== undefined) {
+      candidate = { block: this.lockedBlock, round: this.lockedRound };
+    }
+    for (const message of this.viewChanges.get(this.round)?.values() ?? []) {
+      if (message.lockedBlock && message.lockedRound !== undefined
+        && (!candidate || message.lockedRound > candidate.round)) {
+        candidate = { block: message.lockedBlock, round: message.lockedRound };
+      }
+    }
+    return candidate?.block;
+  }
+
+  private requestViewChange(round: number): void {
+    if (!this.running || this.sentViewChange.has(round)) return;
+    this.sentViewChange.add(round);
+    this.send({
+      type: 'VIEW_CHANGE',
+      height: this.height,
+      round,
+      lockedBlock: this.lockedBlock,
+      lockedRound: this.lockedRound,
+    });
+  }
+
+  // ─── Message Handling ─────────────────────────────────────────
+
+  private send(message: UnsignedMessage): void {
+    const unsigned = { ...message, senderId: this.validatorId, signature: '' } as ConsensusMessage;
+    unsigned.signature = signData(messageDigest(unsigned), this.signingKey.privateKey);
+    this.transport.broadcast(unsigned);
+  }
+
+  private authentic(message: ConsensusMessage): boolean {
+    const publicKey = this.registry.getPublicKey(message.senderId);
+    if (!publicKey) return false;
+    try {
+      return verifySignature(messageDigest(message), message.signature, publicKey);
+    } catch {
+      return false;
+    }
+  }
+
+  private receive(message: ConsensusMessage): void {
+    if (!this.running || this.finalising) {
+      if (this.running && message.height >= this.height) this.future.push(message);
+      return;
+    }
+    if (message.height < this.height) return;
+    if (message.height > this.height || (message.type !== 'VIEW_CHANGE' && message.round > this.round)) {
+      this.future.push(message);
+      return;
+    }
+    if (!this.authentic(message)) {
+      this.emit('consensus:rejected', { senderId: message.senderId, type: message.type, reason: 'bad signature' });
+      return;
+    }
+
+    switch (message.type) {
+      case 'PROPOSAL': return this.onProposal(message);
+      case 'PREPARE': return this.onPrepare(message);
+      case 'COMMIT': return this.onCommit(message);
+      case 'VIEW_CHANGE': return this.onViewChange(message);
+    }
+  }
+
+  private onProposal(message: ProposalMessage): void {
+    if (message.round !== this.round || this.proposal) return;
+    if (message.senderId !== this.getLeader(message.height, message.round)) {
+      this.emit('consensus:rejected', { senderId: message.senderId, type: message.type, reason: 'not the leader' });
+      return;
+    }
+
+    const block = message.block;
+    // A locked validator only accepts the block it is locked on
+    if (this.lockedBlock && this.lockedBlock.hash !== block.hash) return;
+    if (!this.engine.verifyBlockProposal(block)) {
+      this.emit('consensus:rejected', { senderId: message.senderId, type: message.type, reason: 'invalid block' });
+      return;
+    }
+
+    this.proposal = block;
+    if (!this.sentPrepare.has(this.round)) {
+      this.sentPrepare.add(this.round);
+      this.send({ type: 'PREPARE', height: this.height, round: this.round, blockHash: block.hash });
+    }
+    this.checkPrepared();
+    this.checkCommitted();
+  }
+
+  private onPrepare(message: VoteMessage): void {
+    this.tally(this.prepares, message);
+    this.checkPrepared();
+  }
+
+  private onCommit(message: VoteMessage): void {
+    this.tally(this.commits, message);
+    this.checkCommitted();
+  }
+
+  private onViewChange(message: ViewChangeMessage): void {
+    if (message.round <= this.round) return;
+    const votes = this.viewChanges.get(message.round) ?? new Map<string, ViewChangeMessage>();
+    votes.set(message.senderId, message);
+    this.viewChanges.set(message.round, votes);
+
+    // f+1 votes mean at least one honest validator timed out: join them
+    if (votes.size >= this.getFaultTolerance() + 1) this.requestViewChange(message.round);
+
+    if (votes.size >= this.getQuorum()) {
+      this.emit('consensus:view_change', {
+        height: this.height,
+        round: message.round,
+        leader: this.getLeader(this.height, message.round),
+      });
+      this.enterRound(message.round);
+    }
+  }
+
+  private tally(votes: Map<string, Set<string>>, message: VoteMessage): void {
+    const key = `${message.round}:${message.blockHash}`;
+    const voters = votes.get(key) ?? new Set<string>();
+    voters.add(message.senderId);
+    votes.set(key, voters);
+  }
+
+  private checkPrepared(): void {
+    if (!this.proposal || this.sentCommit.has(this.round)) return;
+    const voters = this.prepares.get(`${this.round}:${this.proposal.hash}`);
+    if (!voters || voters.size < this.getQuorum()) return;
+
+    this.lockedBlock = this.proposal;
+    this.lockedRound = this.round;
+    this.sentCommit.add(this.round);
+    this.send({ type: 'COMMIT', height: this.height, round: this.round, blockHash: this.proposal.hash });
+  }
+
+  private checkCommitted(): void {
+    if (!this.proposal) return;
+    const voters = this.commits.get(`${this.round}:${this.proposal.hash}`);
+    if (!voters || voters.size < this.getQuorum()) return;
+    void this.finalise(this.proposal);
+  }
+
+  private async finalise(block: LedgerBlock): Promise<void> {
+    this.finalising = true;
+    clearTimeout(this.proposeTimer);
+    clearTimeout(this.viewTimer);
+    try {
+      await this.engine.appendBlock(block);
+      this.emit('consensus:committed', {
+        height: block.header.blockHeight,
+        round: this.round,
+        hash: block.hash,
+        proposerId: block.header.validatorId,
+        txCount: block.transactions.length,
+      });
+    } catch (error) {
+      this.finalising = false;
+      this.emit('consensus:error', {
+        height: this.height,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.stop();
+      return;
+    }
+    this.finalising = false;
+    this.enterHeight(this.height + 1);
+  }
+}
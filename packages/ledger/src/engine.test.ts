@@ -3,15 +3,16 @@
  * Full coverage for the core permissioned ledger engine
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { LedgerEngine } from './engine';
-import { UserRole, FINANCIAL } from '@govres/shared';
+import { BlockTransaction, verifyMerkleProof } from './block';
+import { UserRole, FINANCIAL, CRDNStatus } from '@govres/shared';
 
 let engine: LedgerEngine;
 
-beforeEach(() => {
+beforeEach(async () => {
   engine = new LedgerEngine('BOG-NODE-TEST');
-  engine.initialize();
+  await engine.initialize();
 });
 
 afterEach(() => {
@@ -25,9 +26,10 @@ describe('LedgerEngine initialization', () => {
     expect(engine.getChainHeight()).toBe(0);
   });
 
-  it('registers BOG_TREASURY and BOG_RESERVE accounts', () => {
+  it('registers the BoG system accounts', () => {
     expect(engine.getAccountBalance('BOG_TREASURY')).toBeDefined();
     expect(engine.getAccountBalance('BOG_RESERVE')).toBeDefined();
+    expect(engine.getAccountBalance('CRDN_SETTLEMENT_POOL')).toBeDefined();
   });
 
   it('genesis block has no transactions', () => {
@@ -240,6 +242,54 @@ describe('transferGBDC', () => {
       })
     ).toThrow();
   });
+
+  it('throws for an unknown instrument', () => {
+    expect(() =>
+      engine.transferGBDC({
+        instrumentId: 'GBDC-UNKNOWN',
+        fromAccount: 'BOG_TREASURY',
+        toAccount: 'BANK-A',
+        amountCedi: 1_000,
+        description: 'Bad',
+      })
+    ).toThrow('LEDGER_002');
+  });
+
+  it('splits the instrument on a partial transfer without moving its holder', () => {
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 30_000, description: 'Partial' });
+
+    const lots = engine.getGBDCLots({ instrumentId: gbdcId });
+    expect(lots.map(lot => [lot.owner, lot.amountCedi])).toEqual([['BANK-A', 30_000], ['BOG_TREASURY', 70_000]]);
+    expect(engine.getGBDCRecord(gbdcId)!.holder).toBe('BOG_TREASURY');
+  });
+
+  it('merges lots and moves the holder once one account owns the whole instrument', () => {
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 30_000, description: 'First' });
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 70_000, description: 'Rest' });
+
+    expect(engine.getGBDCLots({ owner: 'BANK-A' }).map(lot => lot.amountCedi)).toEqual([30_000, 70_000]);
+    engine.registerAccount('BANK-B', UserRole.COMMERCIAL_BANK);
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BANK-A', toAccount: 'BANK-B', amountCedi: 100_000, description: 'Merge' });
+
+    expect(engine.getGBDCLots({ instrumentId: gbdcId }).map(lot => [lot.owner, lot.amountCedi])).toEqual([['BANK-B', 100_000]]);
+    expect(engine.getGBDCRecord(gbdcId)!.holder).toBe('BANK-B');
+  });
+
+  it('spends the oldest lots across instruments when none is given', () => {
+    const secondId = engine.mintGBDC({
+      amountCedi: 100_000,
+      goldBackingGrams: 5_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-T2',
+      issuedBy: 'BOG_TREASURY',
+    });
+    engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 150_000, description: 'Any lots' });
+
+    expect(engine.getGBDCLots({ owner: 'BANK-A' }).map(lot => [lot.instrumentId, lot.amountCedi])).toEqual([[gbdcId, 100_000], [secondId, 50_000]]);
+    expect(engine.getGBDCLots({ owner: 'BOG_TREASURY' }).map(lot => [lot.instrumentId, lot.amountCedi])).toEqual([[secondId, 50_000]]);
+    expect(engine.getGBDCRecord(gbdcId)!.holder).toBe('BANK-A');
+  });
 });
 
 // ─── GBDC Redemption ────────────────────────────────────
@@ -278,6 +328,26 @@ describe('redeemGBDC', () => {
     expect(engine.getAccountBalance('GCB-BANK')!.gbdcBalance).toBe(0);
   });
 
+  it('keeps a partially redeemed instrument outstanding', () => {
+    const outstandingBefore = engine.getReserveSummary().totalGBDCOutstanding;
+    engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'GCB-BANK', amountCedi: 20_000 });
+
+    const gbdc = engine.getGBDCRecord(gbdcId)!;
+    expect(gbdc.status).toBe('CIRCULATING');
+    expect(gbdc.redeemedCedi).toBe(20_000);
+    expect(engine.getGBDCLots({ instrumentId: gbdcId }).map(lot => lot.amountCedi)).toEqual([30_000]);
+    expect(engine.getReserveSummary().totalGBDCOutstanding).toBe(outstandingBefore - 20_000);
+  });
+
+  it('marks the instrument REDEEMED once every lot is redeemed', () => {
+    engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'GCB-BANK', amountCedi: 20_000 });
+    expect(() => engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'GCB-BANK', amountCedi: 40_000 })).toThrow('SETTLE_004');
+    engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'GCB-BANK', amountCedi: 30_000 });
+
+    expect(engine.getGBDCRecord(gbdcId)!.status).toBe('REDEEMED');
+    expect(engine.getGBDCLots({ instrumentId: gbdcId })).toHaveLength(0);
+  });
+
   it('rejects redemption by non-bank', () => {
     engine.registerAccount('FARMER-X', UserRole.FARMER);
     expect(() =>
@@ -290,6 +360,161 @@ describe('redeemGBDC', () => {
   });
 });
 
+// ─── GBDC Burn ──────────────────────────────────────────
+
+describe('burnGBDC', () => {
+  let gbdcId: string;
+  const mintFullAllocation = (issuanceId: string) => engine.mintGBDC({
+    amountCedi: 80_000,
+    goldBackingGrams: 100_000, // the whole 10% allocation of 1,000 kg
+    goldPricePerGramUSD: 80,
+    exchangeRateUSDGHS: 15,
+    issuanceId,
+    issuedBy: 'BOG_TREASURY',
+  });
+
+  beforeEach(() => {
+    engine.registerGoldReserve(1_000_000, 'h');
+    engine.registerAccount('GCB-BANK', UserRole.COMMERCIAL_BANK);
+    gbdcId = mintFullAllocation('ISS-B1');
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BOG_TREASURY', toAccount: 'GCB-BANK', amountCedi: 80_000, description: 'Fund bank' });
+  });
+
+  it('keeps gold backing committed until redeemed GBDC is burned', () => {
+    engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'GCB-BANK', amountCedi: 80_000 });
+    expect(() => mintFullAllocation('ISS-B2')).toThrow('LEDGER_001');
+
+    engine.burnGBDC({ instrumentId: gbdcId, burnedBy: 'BOG_TREASURY' });
+    expect(engine.getGBDCRecord(gbdcId)!.status).toBe('BURNED');
+    expect(() => mintFullAllocation('ISS-B2')).not.toThrow();
+  });
+
+  it('burns part of the redeemed amount and releases proportional backing', () => {
+    engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'GCB-BANK', amountCedi: 20_000 });
+    let burned: any = null;
+    engine.on('gbdc:burned', (e) => { burned = e; });
+
+    engine.burnGBDC({ instrumentId: gbdcId, burnedBy: 'BOG_TREASURY', amountCedi: 8_000 });
+    expect(burned).toEqual(expect.objectContaining({ instrumentId: gbdcId, amountCedi: 8_000, goldReleasedGrams: 10_000, fullyBurned: false }));
+    expect(engine.getGBDCRecord(gbdcId)!.burnedCedi).toBe(8_000);
+    expect(engine.getGBDCRecord(gbdcId)!.status).toBe('CIRCULATING');
+  });
+
+  it('cannot burn GBDC that is still in circulation', () => {
+    engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'GCB-BANK', amountCedi: 20_000 });
+    expect(() => engine.burnGBDC({ instrumentId: gbdcId, burnedBy: 'BOG_TREASURY', amountCedi: 20_001 })).toThrow('SETTLE_004');
+    engine.burnGBDC({ instrumentId: gbdcId, burnedBy: 'BOG_TREASURY' });
+    expect(() => engine.burnGBDC({ instrumentId: gbdcId, burnedBy: 'BOG_TREASURY' })).toThrow('SETTLE_004');
+  });
+
+  it('rejects burns by non-BoG accounts and unknown instruments', () => {
+    engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'GCB-BANK', amountCedi: 20_000 });
+    expect(() => engine.burnGBDC({ instrumentId: gbdcId, burnedBy: 'GCB-BANK' })).toThrow('AUTH_001');
+    expect(() => engine.burnGBDC({ instrumentId: 'GBDC-UNKNOWN', burnedBy: 'BOG_TREASURY' })).toThrow('LEDGER_002');
+  });
+
+  it('seals burns into blocks with balances still reconciled', async () => {
+    engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'GCB-BANK', amountCedi: 80_000 });
+    engine.burnGBDC({ instrumentId: gbdcId, burnedBy: 'BOG_TREASURY' });
+    const block = await engine.generateBlock();
+    expect(block!.transactions.map(tx => tx.type)).toEqual(['MINT', 'TRANSFER', 'REDEEM', 'BURN']);
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+});
+
+// ─── Reversals ──────────────────────────────────────────
+
+describe('reverseTransaction', () => {
+  let gbdcId: string;
+  let original: BlockTransaction;
+
+  beforeEach(async () => {
+    engine.registerGoldReserve(1_000_000, 'h');
+    engine.registerAccount('BANK-A', UserRole.COMMERCIAL_BANK);
+    engine.registerAccount('BOG-ADMIN-1', UserRole.BOG_ADMIN);
+    engine.registerAccount('BOG-ADMIN-2', UserRole.BOG_ADMIN);
+    gbdcId = engine.mintGBDC({
+      amountCedi: 100_000,
+      goldBackingGrams: 5_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-RV1',
+      issuedBy: 'BOG_TREASURY',
+    });
+    const txId = engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 30_000, description: 'Mistaken settlement' });
+    const block = await engine.generateBlock();
+    original = block!.transactions.find(tx => tx.txId === txId)!;
+  });
+
+  const reverse = (overrides: Partial<Parameters<LedgerEngine['reverseTransaction']>[0]> = {}) => engine.reverseTransaction({
+    original,
+    requestedBy: 'BOG-ADMIN-1',
+    approvedBy: 'BOG-ADMIN-2',
+    reason: 'Duplicate instruction',
+    ...overrides,
+  });
+
+  it('posts a compensating transfer linked to the original', async () => {
+    let reversed: any = null;
+    engine.on('transaction:reversed', (e) => { reversed = e; });
+
+    const reversalTxId = reverse();
+    expect(engine.getAccountBalance('BANK-A')!.gbdcBalance).toBe(0);
+    expect(engine.getAccountBalance('BOG_TREASURY')!.gbdcBalance).toBe(100_000);
+    expect(engine.getReversal(original.txId)).toBe(reversalTxId);
+    expect(reversed).toEqual(expect.objectContaining({ originalTxId: original.txId, reversalTxId, reason: 'Duplicate instruction' }));
+
+    const block = await engine.generateBlock();
+    expect(block!.transactions[0].data).toEqual(expect.objectContaining({
+      reversalOf: original.txId,
+      requestedBy: 'BOG-ADMIN-1',
+      approvedBy: 'BOG-ADMIN-2',
+    }));
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+
+  it('returns the lots received in the original transfer first', async () => {
+    const laterTxId = engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 10_000, description: 'Second settlement' });
+    const block = await engine.generateBlock();
+    const later = block!.transactions.find(tx => tx.txId === laterTxId)!;
+
+    reverse({ original: later });
+    const remaining = engine.getGBDCLots({ owner: 'BANK-A' });
+    expect(remaining.map(lot => [lot.lotId, lot.amountCedi])).toEqual([[`${original.txId}:0`, 30_000]]);
+  });
+
+  it('requires two different BoG admins and a reason', () => {
+    expect(() => reverse({ approvedBy: 'BOG-ADMIN-1' })).toThrow('AUTH_002');
+    expect(() => reverse({ approvedBy: 'BANK-A' })).toThrow('AUTH_001');
+    expect(() => reverse({ reason: ' ' })).toThrow('reason');
+  });
+
+  it('refuses when the recipient no longer holds the amount', () => {
+    engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'BANK-A', amountCedi: 5_000 });
+    expect(() => reverse()).toThrow('SETTLE_004');
+  });
+
+  it('reverses a transaction only once and never reverses a reversal', async () => {
+    const reversalTxId = reverse();
+    expect(() => reverse()).toThrow('LEDGER_003');
+
+    const block = await engine.generateBlock();
+    const reversal = block!.transactions.find(tx => tx.txId === reversalTxId)!;
+    expect(() => reverse({ original: reversal })).toThrow('Only GBDC transfers');
+  });
+
+  it('rejects unconfirmed, tampered and non-transfer originals', async () => {
+    expect(() => reverse({ original: { ...original, amount: 1 } })).toThrow('LEDGER_004');
+
+    const mint = engine.getBlock(1)!.transactions.find(tx => tx.type === 'MINT')!;
+    expect(() => reverse({ original: mint })).toThrow('Only GBDC transfers');
+
+    engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 1_000, description: 'Pending' });
+    const pending = engine.createBlockProposal().transactions[0];
+    expect(() => reverse({ original: pending })).toThrow('not yet confirmed');
+  });
+});
+
 // ─── CRDN Issuance ──────────────────────────────────────
 
 describe('issueCRDN', () => {
@@ -407,6 +632,13 @@ describe('convertCRDN', () => {
     expect(engine.getAccountBalance('FARMER-C1')!.gbdcBalance).toBe(32_000);
   });
 
+  it('issues a GBDC instrument for the converted note', () => {
+    engine.convertCRDN({ instrumentId: crdnId, farmerId: 'FARMER-C1', targetInstrument: 'GBDC' });
+    const gbdc = engine.getGBDCRecord(`GBDC-${crdnId}`)!;
+    expect(gbdc).toEqual(expect.objectContaining({ amountCedi: 32_000, goldBackingGrams: 0, holder: 'FARMER-C1', issuanceId: crdnId }));
+    expect(engine.getGBDCLots({ owner: 'FARMER-C1' }).map(lot => lot.amountCedi)).toEqual([32_000]);
+  });
+
   it('converts CRDN to CASH', () => {
     const txId = engine.convertCRDN({
       instrumentId: crdnId,
@@ -418,6 +650,34 @@ describe('convertCRDN', () => {
     expect(engine.getAccountBalance('FARMER-C1')!.gbdcBalance).toBe(0);
   });
 
+  it('holds a cash conversion in CONVERTING until the payout settles', () => {
+    engine.convertCRDN({ instrumentId: crdnId, farmerId: 'FARMER-C1', targetInstrument: 'CASH', bankAccountId: 'LBC-C1' });
+    expect(engine.getCRDNRecord(crdnId)).toEqual(expect.objectContaining({ status: CRDNStatus.CONVERTING, payoutAccount: 'LBC-C1' }));
+    expect(engine.getAccountBalance('FARMER-C1')!.crdnBalance).toBe(32_000);
+    expect(engine.checkBalances().balanced).toBe(true);
+
+    let converted: any = null;
+    engine.on('crdn:converted', (e) => { converted = e; });
+    engine.completeCRDNConversion({ instrumentId: crdnId, payoutReference: 'MOMO-123' });
+    expect(engine.getCRDNRecord(crdnId)!.status).toBe(CRDNStatus.CONVERTED);
+    expect(engine.getCRDNRecord(crdnId)!.payoutAccount).toBeUndefined();
+    expect(engine.getAccountBalance('FARMER-C1')!.crdnBalance).toBe(0);
+    expect(converted).toEqual(expect.objectContaining({ target: 'CASH', payoutReference: 'MOMO-123' }));
+  });
+
+  it('returns the note to its holder as HELD when the payout fails', () => {
+    engine.convertCRDN({ instrumentId: crdnId, farmerId: 'FARMER-C1', targetInstrument: 'CASH' });
+    expect(() => engine.convertCRDN({ instrumentId: crdnId, farmerId: 'FARMER-C1', targetInstrument: 'CASH' })).toThrow();
+
+    engine.failCRDNConversion({ instrumentId: crdnId, reason: 'MoMo wallet unreachable' });
+    expect(engine.getCRDNRecord(crdnId)!.status).toBe(CRDNStatus.HELD);
+    expect(engine.getAccountBalance('FARMER-C1')!.crdnBalance).toBe(32_000);
+    expect(() => engine.completeCRDNConversion({ instrumentId: crdnId, payoutReference: 'late' })).toThrow('no conversion in progress');
+
+    engine.convertCRDN({ instrumentId: crdnId, farmerId: 'FARMER-C1', targetInstrument: 'GBDC' });
+    expect(engine.getCRDNRecord(crdnId)!.status).toBe(CRDNStatus.CONVERTED);
+  });
+
   it('rejects conversion by non-holder', () => {
     engine.registerAccount('FARMER-OTHER', UserRole.FARMER);
     expect(() =>
@@ -445,6 +705,318 @@ describe('convertCRDN', () => {
   });
 });
 
+// ─── CRDN Transfers ─────────────────────────────────────
+
+describe('transferCRDN', () => {
+  let crdnId: string;
+
+  beforeEach(() => {
+    engine.registerAccount('FARMER-T1', UserRole.FARMER);
+    engine.registerAccount('LBC-T1', UserRole.LBC);
+    engine.registerAccount('BANK-T1', UserRole.COMMERCIAL_BANK);
+    engine.registerAccount('CONTRACTOR-T1', UserRole.CONTRACTOR);
+    crdnId = engine.issueCRDN({
+      farmerId: 'FARMER-T1',
+      lbcId: 'LBC-T1',
+      cocoaWeightKg: 640,
+      pricePerKgGHS: 50,
+      warehouseReceiptId: 'WR-T1',
+      seasonYear: '2025/2026',
+      attestationHash: 'ah',
+    });
+  });
+
+  it('moves a whole note to the new holder', () => {
+    const result = engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'FARMER-T1', toAccount: 'LBC-T1' });
+    expect(result.instrumentId).toBe(crdnId);
+    expect(engine.getCRDNRecord(crdnId)).toEqual(expect.objectContaining({ holder: 'LBC-T1', farmerId: 'FARMER-T1', status: CRDNStatus.HELD }));
+    expect(engine.getAccountBalance('FARMER-T1')!.crdnBalance).toBe(0);
+    expect(engine.getAccountBalance('LBC-T1')!.crdnBalance).toBe(32_000);
+  });
+
+  it('splits a partial transfer into a new note', async () => {
+    const { instrumentId: splitId } = engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'FARMER-T1', toAccount: 'BANK-T1', amountCedi: 8_000 });
+
+    const parent = engine.getCRDNRecord(crdnId)!;
+    const split = engine.getCRDNRecord(splitId)!;
+    expect(parent).toEqual(expect.objectContaining({ amountCedi: 24_000, cocoaWeightKg: 480, holder: 'FARMER-T1', status: CRDNStatus.ISSUED }));
+    expect(split).toEqual(expect.objectContaining({ amountCedi: 8_000, cocoaWeightKg: 160, holder: 'BANK-T1', farmerId: 'FARMER-T1', parentInstrumentId: crdnId }));
+    expect(split.expiresAt).toEqual(parent.expiresAt);
+
+    await engine.generateBlock();
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+
+  it('lets the new holder convert the note', () => {
+    engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'FARMER-T1', toAccount: 'BANK-T1' });
+    expect(() => engine.convertCRDN({ instrumentId: crdnId, farmerId: 'FARMER-T1', targetInstrument: 'GBDC' })).toThrow('Not the holder');
+    engine.convertCRDN({ instrumentId: crdnId, farmerId: 'BANK-T1', targetInstrument: 'GBDC' });
+    expect(engine.getAccountBalance('BANK-T1')!.gbdcBalance).toBe(32_000);
+  });
+
+  it('settles a priced sale against GBDC from the buyer', async () => {
+    engine.registerGoldReserve(1_000_000, 'h');
+    const gbdcId = engine.mintGBDC({
+      amountCedi: 50_000,
+      goldBackingGrams: 1_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-CT1',
+      issuedBy: 'BOG_TREASURY',
+    });
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BOG_TREASURY', toAccount: 'BANK-T1', amountCedi: 50_000, description: 'Fund bank' });
+
+    const result = engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'FARMER-T1', toAccount: 'BANK-T1', amountCedi: 10_000, priceCedi: 9_500 });
+    expect(result.paymentTxId).toBeDefined();
+    expect(engine.getAccountBalance('FARMER-T1')!.gbdcBalance).toBe(9_500);
+    expect(engine.getAccountBalance('BANK-T1')!.gbdcBalance).toBe(40_500);
+    expect(engine.getAccountBalance('BANK-T1')!.crdnBalance).toBe(10_000);
+
+    const block = await engine.generateBlock();
+    expect(block!.transactions.slice(-2).map(tx => [tx.type, tx.instrumentType])).toEqual([['TRANSFER', 'CRDN'], ['TRANSFER', 'GBDC']]);
+  });
+
+  it('keeps the payment for a sale out of reversals', async () => {
+    engine.registerGoldReserve(1_000_000, 'h');
+    engine.registerAccount('BOG-ADMIN-1', UserRole.BOG_ADMIN);
+    engine.registerAccount('BOG-ADMIN-2', UserRole.BOG_ADMIN);
+    engine.mintGBDC({
+      amountCedi: 50_000,
+      goldBackingGrams: 1_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-CT2',
+      issuedBy: 'BOG_TREASURY',
+    });
+    engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'BANK-T1', amountCedi: 50_000, description: 'Fund bank' });
+    const { txId, paymentTxId } = engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'FARMER-T1', toAccount: 'BANK-T1', priceCedi: 30_000 });
+    const block = await engine.generateBlock();
+    const payment = block!.transactions.find(tx => tx.txId === paymentTxId)!;
+
+    expect(payment.data.crdnSale).toBe(txId);
+    expect(() => engine.reverseTransaction({ original: payment, requestedBy: 'BOG-ADMIN-1', approvedBy: 'BOG-ADMIN-2', reason: 'Dispute' }))
+      .toThrow('Only GBDC transfers');
+    expect(engine.getAccountBalance('FARMER-T1')!.gbdcBalance).toBe(30_000);
+    expect(engine.getCRDNRecord(crdnId)!.holder).toBe('BANK-T1');
+  });
+
+  it('records nothing when the buyer cannot pay', () => {
+    expect(() => engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'FARMER-T1', toAccount: 'BANK-T1', priceCedi: 30_000 })).toThrow('SETTLE_004');
+    expect(engine.getCRDNRecord(crdnId)!.holder).toBe('FARMER-T1');
+    expect(engine.getReserveSummary().pendingTransactions).toBe(1);
+  });
+
+  it('enforces holder, role and split size rules', () => {
+    expect(() => engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'LBC-T1', toAccount: 'BANK-T1' })).toThrow('Not the holder');
+    expect(() => engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'FARMER-T1', toAccount: 'CONTRACTOR-T1' })).toThrow('AUTH_002');
+    expect(() => engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'FARMER-T1', toAccount: 'BANK-T1', amountCedi: 31_995 })).toThrow('at least');
+    expect(() => engine.transferCRDN({ instrumentId: crdnId, fromAccount: 'FARMER-T1', toAccount: 'BANK-T1', amountCedi: 40_000 })).toThrow();
+  });
+
+  it('rejects a proposed transfer of a note the sender no longer holds', async () => {
+    const other = new LedgerEngine('BOG-NODE-TEST');
+    await other.initialize();
+    const proposer = new LedgerEngine('BOG-NODE-TEST', { genesisBlock: other.getBlock(0) });
+    await proposer.initialize();
+    for (const node of [other, proposer]) {
+      node.registerAccount('FARMER-T1', UserRole.FARMER);
+      node.registerAccount('LBC-T1', UserRole.LBC);
+      node.registerAccount('BANK-T1', UserRole.COMMERCIAL_BANK);
+    }
+    const id = proposer.issueCRDN({
+      farmerId: 'FARMER-T1', lbcId: 'LBC-T1', cocoaWeightKg: 100, pricePerKgGHS: 50,
+      warehouseReceiptId: 'WR-T2', seasonYear: '2025/2026', attestationHash: 'ah',
+    });
+    proposer.transferCRDN({ instrumentId: id, fromAccount: 'FARMER-T1', toAccount: 'LBC-T1' });
+    await other.appendBlock(proposer.createBlockProposal());
+    await proposer.appendBlock(proposer.createBlockProposal());
+    expect(other.getCRDNRecord(id)!.holder).toBe('LBC-T1');
+
+    // A validator that still thinks the farmer holds the note
+    proposer.getCRDNRecord(id)!.holder = 'FARMER-T1';
+    proposer.transferCRDN({ instrumentId: id, fromAccount: 'FARMER-T1', toAccount: 'BANK-T1' });
+    expect(other.verifyBlockProposal(proposer.createBlockProposal())).toBe(false);
+  });
+});
+
+// ─── CRDN Expiry ────────────────────────────────────────
+
+describe('CRDN expiry', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const issue = (seasonYear: string) => engine.issueCRDN({
+    farmerId: 'FARMER-E1',
+    lbcId: 'LBC-E1',
+    cocoaWeightKg: 100,
+    pricePerKgGHS: 50,
+    warehouseReceiptId: 'WR-E1',
+    seasonYear,
+    attestationHash: 'ah',
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-10-01T00:00:00Z'));
+    engine.registerAccount('FARMER-E1', UserRole.FARMER);
+    engine.registerAccount('LBC-E1', UserRole.LBC);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records the season validity period on issuance', () => {
+    engine.setCRDNValidity('2025/2026', 30);
+    const seasonal = issue('2025/2026');
+    const standard = issue('2024/2025');
+    expect(engine.getCRDNRecord(seasonal)!.expiresAt).toEqual(new Date('2025-10-31T00:00:00Z'));
+    expect(engine.getCRDNRecord(standard)!.expiresAt.getTime())
+      .toBe(new Date('2025-10-01T00:00:00Z').getTime() + FINANCIAL.CRDN_VALIDITY_DAYS * DAY_MS);
+    expect(() => engine.setCRDNValidity('2025/2026', 0)).toThrow();
+  });
+
+  it('returns expired notes to the settlement pool', async () => {
+    engine.setCRDNValidity('2025/2026', 30);
+    const crdnId = issue('2025/2026');
+    expect(engine.expireCRDNs()).toEqual([]);
+
+    vi.setSystemTime(new Date('2025-10-31T00:00:01Z'));
+    let expired: any = null;
+    engine.on('crdn:expired', (e) => { expired = e; });
+    const [txId] = engine.expireCRDNs();
+
+    expect(engine.getCRDNRecord(crdnId)).toEqual(expect.objectContaining({ status: CRDNStatus.EXPIRED, holder: 'CRDN_SETTLEMENT_POOL' }));
+    expect(engine.getAccountBalance('FARMER-E1')!.crdnBalance).toBe(0);
+    expect(engine.getAccountBalance('CRDN_SETTLEMENT_POOL')!.crdnBalance).toBe(5_000);
+    expect(engine.getCRDNSettlementPool()).toBe(5_000);
+    expect(engine.getTotalCRDNOutstanding()).toBe(0);
+    expect(expired).toEqual(expect.objectContaining({ instrumentId: crdnId, holder: 'FARMER-E1', amountCedi: 5_000, txId }));
+
+    const block = await engine.generateBlock();
+    expect(block!.transactions.map(tx => tx.type)).toEqual(['MINT', 'EXPIRE']);
+    expect(engine.checkBalances().balanced).toBe(true);
+    expect(engine.expireCRDNs()).toEqual([]);
+  });
+
+  it('refuses to convert an expired note before the scheduler runs', () => {
+    engine.setCRDNValidity('2025/2026', 1);
+    const crdnId = issue('2025/2026');
+    vi.setSystemTime(new Date('2025-10-03T00:00:00Z'));
+    expect(() => engine.convertCRDN({ instrumentId: crdnId, farmerId: 'FARMER-E1', targetInstrument: 'CASH' })).toThrow('expired');
+  });
+
+  it('leaves notes with a payout in flight until it settles', () => {
+    engine.setCRDNValidity('2025/2026', 1);
+    const crdnId = issue('2025/2026');
+    engine.convertCRDN({ instrumentId: crdnId, farmerId: 'FARMER-E1', targetInstrument: 'CASH' });
+
+    vi.setSystemTime(new Date('2025-10-03T00:00:00Z'));
+    expect(engine.expireCRDNs()).toEqual([]);
+    engine.failCRDNConversion({ instrumentId: crdnId, reason: 'Bank rejected payout' });
+    expect(engine.expireCRDNs()).toHaveLength(1);
+    expect(engine.getCRDNRecord(crdnId)!.status).toBe(CRDNStatus.EXPIRED);
+  });
+
+  it('rejects an expiry proposed before the note was due', async () => {
+    const other = new LedgerEngine('BOG-NODE-TEST');
+    await other.initialize();
+    const proposer = new LedgerEngine('BOG-NODE-TEST', { genesisBlock: other.getBlock(0) });
+    await proposer.initialize();
+    for (const node of [other, proposer]) {
+      node.registerAccount('FARMER-E1', UserRole.FARMER);
+      node.registerAccount('LBC-E1', UserRole.LBC);
+      node.setCRDNValidity('2025/2026', 30);
+    }
+
+    const crdnId = proposer.issueCRDN({
+      farmerId: 'FARMER-E1', lbcId: 'LBC-E1', cocoaWeightKg: 100, pricePerKgGHS: 50,
+      warehouseReceiptId: 'WR-E1', seasonYear: '2025/2026', attestationHash: 'ah',
+    });
+    await other.appendBlock(proposer.createBlockProposal());
+    await proposer.appendBlock(proposer.createBlockProposal());
+
+    // A validator with a wrong deadline signs an expiry too early
+    vi.setSystemTime(new Date('2025-10-05T00:00:00Z'));
+    proposer.getCRDNRecord(crdnId)!.expiresAt = new Date('2025-10-02T00:00:00Z');
+    expect(proposer.expireCRDNs()).toHaveLength(1);
+    expect(other.verifyBlockProposal(proposer.createBlockProposal())).toBe(false);
+    expect(other.getCRDNRecord(crdnId)!.status).toBe(CRDNStatus.ISSUED);
+  });
+});
+
+// ─── Balance Invariant ──────────────────────────────────
+
+describe('checkBalances', () => {
+  beforeEach(() => {
+    engine.registerGoldReserve(1_000_000, 'h');
+    engine.registerAccount('BANK-A', UserRole.COMMERCIAL_BANK);
+  });
+
+  it('reconciles balances, lots and issuance after transfers and redemptions', async () => {
+    const gbdcId = engine.mintGBDC({
+      amountCedi: 100_000,
+      goldBackingGrams: 5_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-B1',
+      issuedBy: 'BOG_TREASURY',
+    });
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 33_333.3333, description: 'Odd amount' });
+    engine.redeemGBDC({ instrumentId: gbdcId, holderAccount: 'BANK-A', amountCedi: 11_111.1111 });
+    await engine.generateBlock();
+
+    const check = engine.checkBalances();
+    expect(check.balanced).toBe(true);
+    expect(check.gbdcOutstanding).toBeCloseTo(88_888.8889, 4);
+    expect(check.gbdcLots).toBeCloseTo(check.gbdcBalances, 4);
+  });
+
+  it('refuses to seal a block when balances do not reconcile', async () => {
+    engine.mintGBDC({
+      amountCedi: 100_000,
+      goldBackingGrams: 5_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-B2',
+      issuedBy: 'BOG_TREASURY',
+    });
+    const imbalances: any[] = [];
+    engine.on('ledger:imbalance', (e) => imbalances.push(e));
+    engine.getAccountBalance('BANK-A')!.gbdcBalance += 500;
+
+    await expect(engine.generateBlock()).rejects.toThrow('LEDGER_006');
+    expect(engine.getChainHeight()).toBe(0);
+    expect(imbalances[0]).toEqual(expect.objectContaining({ blockHeight: 1, gbdcBalances: 100_500, gbdcOutstanding: 100_000 }));
+  });
+});
+
+// ─── Merkle Proofs ──────────────────────────────────────
+
+describe('getMerkleProof', () => {
+  it('proves a committed transaction against its block header', async () => {
+    engine.registerGoldReserve(1_000_000, 'h');
+    engine.registerAccount('BANK-A', UserRole.COMMERCIAL_BANK);
+    const gbdcId = engine.mintGBDC({
+      amountCedi: 100_000,
+      goldBackingGrams: 5_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-P1',
+      issuedBy: 'BOG_TREASURY',
+    });
+    const txId = engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 10_000, description: 'Prove me' });
+    const block = (await engine.generateBlock())!;
+
+    const proof = (await engine.getMerkleProof(block.header.blockHeight, txId))!;
+    expect(proof.blockHash).toBe(block.hash);
+    expect(verifyMerkleProof(proof, block.header.merkleRoot)).toBe(true);
+  });
+
+  it('returns undefined for unknown blocks or transactions', async () => {
+    expect(await engine.getMerkleProof(0, 'nope')).toBeUndefined();
+    expect(await engine.getMerkleProof(42, 'nope')).toBeUndefined();
+  });
+});
+
 // ─── Reserve Summary ────────────────────────────────────
 
 describe('getReserveSummary', () => {
@@ -455,7 +1027,7 @@ describe('getReserveSummary', () => {
     expect(summary.totalGBDCOutstanding).toBe(0);
     expect(summary.totalCRDNOutstanding).toBe(0);
     expect(summary.chainHeight).toBe(0);
-    expect(summary.accountCount).toBe(2); // BOG_TREASURY + BOG_RESERVE
+    expect(summary.accountCount).toBe(3); // BOG_TREASURY + BOG_RESERVE + CRDN_SETTLEMENT_POOL
   });
 
   it('reflects gold and GBDC after minting', () => {
@@ -477,11 +1049,11 @@ describe('getReserveSummary', () => {
 // ─── Events ─────────────────────────────────────────────
 
 describe('Event emissions', () => {
-  it('emits ledger:initialized on init', () => {
+  it('emits ledger:initialized on init', async () => {
     const engine2 = new LedgerEngine('BOG-2');
     let emitted = false;
     engine2.on('ledger:initialized', () => { emitted = true; });
-    engine2.initialize();
+    await engine2.initialize();
     expect(emitted).toBe(true);
   });
 
@@ -19,6 +19,7 @@ import {
   GBDCStatus,
   CRDNStatus,
   UserRole,
+  AssetType,
   SYSTEM,
   FINANCIAL,
   ERROR_CODES,
@@ -26,25 +27,128 @@ import {
 import {
   LedgerBlock,
   BlockTransaction,
+  MerkleProof,
+  buildMerkleProof,
   createGenesisBlock,
   computeMerkleRoot,
   computeBlockHash,
   validateBlock,
 } from './block';
+import {
+  LedgerStorage,
+  MemoryLedgerStorage,
+  StoredAccount,
+  StoredLedger,
+  ReserveEntry,
+} from './storage';
+import {
+  ValidatorKeyPair,
+  ValidatorRegistry,
+  getDevelopmentKeyPair,
+  signBlock,
+  signTransaction,
+  verifyTransactionSignature,
+} from './validator';
+import { LedgerSnapshot, SnapshotState, createSnapshot, verifySnapshot } from './snapshot';
+import {
+  CollateralAsset,
+  CollateralPrice,
+  CreditLine,
+  CreditLineSummary,
+  Pledge,
+  accrueInterest,
+  getHaircutPercent,
+  lendingValue,
+} from './collateral';
+import {
+  Escrow,
+  EscrowMilestone,
+  MilestoneAmendment,
+  MilestoneTerms,
+  canRelease,
+  escrowAccountId,
+  escrowBalance,
+  lockedAmount,
+  matchEventConditions,
+  validateConditions,
+} from './escrow';
+import {
+  NoteSeries,
+  YieldNoteHolding,
+  accrueCoupon,
+  nextCouponDate,
+  noteSeriesAccountId,
+} from './yield-notes';
+import {
+  InterbankObligation,
+  NettingResult,
+  clearingAccountId,
+  planNetSettlement,
+} from './netting';
+import {
+  BridgeStep,
+  BridgeTransfer,
+  ECEDI_FLOAT_ACCOUNT,
+  bridgeLegs,
+  bridgeLockAccountId,
+} from './bridge';
 
 // ─── Ledger State ───────────────────────────────────────────────
 
 interface LedgerState {
+  /** Recent blocks; older ones are pruned to storage once a snapshot covers them */
   chain: LedgerBlock[];
+  /** Height of chain[0] */
+  chainBase: number;
   pendingTransactions: BlockTransaction[];
   accounts: Map<string, AccountBalance>;
   gbdcRegistry: Map<string, GBDCRecord>;
+  /** Unspent GBDC lots in creation order */
+  lots: Map<string, GBDCLot>;
+  /** Reversed transaction id → compensating transaction id */
+  reversals: Map<string, string>;
   crdnRegistry: Map<string, CRDNRecord>;
+  /** Instruments pledged as lending collateral, by instrument id */
+  pledges: Map<string, Pledge>;
+  /** Lending facility drawn by each bank */
+  creditLines: Map<string, CreditLine>;
+  /** Project escrows by project id */
+  escrows: Map<string, Escrow>;
+  /** Yield note series by series id */
+  noteSeries: Map<string, NoteSeries>;
+  /** Subscribed yield notes by note id */
+  yieldNotes: Map<string, YieldNoteHolding>;
   goldReserveGrams: number;
   cocoaReserveKg: number;
 }
 
-interface AccountBalance {
+/* State changes recorded since the last block, committed with the next one */
+interface PendingChanges {
+  accounts: StoredAccount[];
+  reserves: ReserveEntry[];
+}
+
+export interface LedgerEngineOptions {
+  storage?: LedgerStorage;
+  /** This node's signing keys; a process-wide development pair if omitted */
+  signingKey?: ValidatorKeyPair;
+  /** Authorised validators; this node's public key is always added */
+  validators?: ValidatorRegistry;
+  /** Shared genesis block, so every validator in a network starts from the same chain */
+  genesisBlock?: LedgerBlock;
+  /** Blocks between automatic state snapshots; 0 disables them */
+  snapshotInterval?: number;
+  /** Recent blocks kept in memory after a snapshot */
+  retainedBlocks?: number;
+  /** CRDN validity period in days by cocoa season; others use FINANCIAL.CRDN_VALIDITY_DAYS */
+  crdnValidityDays?: Record<string, number>;
+  /** Collateral haircut overrides keyed like FINANCIAL.COLLATERAL_HAIRCUT_PERCENT */
+  collateralHaircuts?: Record<string, number>;
+  /** Annual rate charged on new facility draws; FINANCIAL.LENDING_FACILITY_RATE_PERCENT if omitted */
+  lendingRatePercent?: number;
+}
+
+export interface AccountBalance {
   accountId: string;
   gbdcBalance: number;
   crdnBalance: number;
@@ -52,17 +156,53 @@ interface AccountBalance {
   isActive: boolean;
 }
 
-interface GBDCRecord {
+export interface GBDCRecord {
   instrumentId: string;
   amountCedi: number;
   goldBackingGrams: number;
+  /** Sole owner of all outstanding lots; unchanged while the instrument is split */
   holder: string;
   status: GBDCStatus;
   mintedAt: Date;
   issuanceId: string;
+  redeemedCedi: number;
+  /** Redeemed GBDC permanently retired; its gold backing is free for new issuance */
+  burnedCedi: number;
+}
+
+/**
+ * A quantity of one GBDC instrument owned by one account. Transfers and
+ * redemptions consume whole lots and create new ones for the recipient
+ * and any change, so an instrument can be split across holders and
+ * merged back.
+ */
+export interface GBDCLot {
+  lotId: string;
+  instrumentId: string;
+  owner: string;
+  amountCedi: number;
+}
+
+export interface BalanceCheck {
+  /** Sum of account GBDC balances */
+  gbdcBalances: number;
+  /** Minted minus redeemed, over all instruments */
+  gbdcOutstanding: number;
+  /** Sum of unspent lots */
+  gbdcLots: number;
+  crdnBalances: number;
+  crdnOutstanding: number;
+  balanced: boolean;
+}
+
+/* Amounts are stored as DECIMAL(20,4); differences below a pesewa are rounding */
+const BALANCE_TOLERANCE_CEDI = 0.01;
+
+function roundCedi(amount: number): number {
+  return Math.round(amount * 10_000) / 10_000;
 }
 
-interface CRDNRecord {
+export interface CRDNRecord {
   instrumentId: string;
   amountCedi: number;
   cocoaWeightKg: number;
@@ -71,6 +211,29 @@ interface CRDNRecord {
   issuedAt: Date;
   farmerId: string;
   lbcId: string;
+  seasonYear: string;
+  /** Unconverted notes are returned to the settlement pool after this */
+  expiresAt: Date;
+  /** Bank or MoMo account paying out a cash conversion while CONVERTING */
+  payoutAccount?: string;
+  /** Note this one was split from by a partial transfer */
+  parentInstrumentId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/* Facility draws and repayments are GBDC transfers tagged with data.facility */
+type FacilityMovement = 'DRAW' | 'REPAY';
+
+/* Roles that may hold and trade CRDNs before conversion */
+const CRDN_HOLDER_ROLES = [UserRole.FARMER, UserRole.LBC, UserRole.COMMERCIAL_BANK];
+
+/**
+ * Id of the GBDC instrument issued when a CRDN is converted to GBDC;
+ * it keeps the note's id for traceability
+ */
+export function convertedInstrumentId(crdnInstrumentId: string): string {
+  return `GBDC-${crdnInstrumentId}`;
 }
 
 // ─── Ledger Engine ──────────────────────────────────────────────
@@ -78,33 +241,95 @@ interface CRDNRecord {
 export class LedgerEngine extends EventEmitter {
   private state: LedgerState;
   private validatorId: string;
+  private signingKey: ValidatorKeyPair;
+  private validators: ValidatorRegistry;
+  private storage: LedgerStorage;
+  private genesisBlock?: LedgerBlock;
+  private snapshotInterval: number;
+  private retainedBlocks: number;
+  private lastSnapshotHeight = 0;
+  private pendingChanges: PendingChanges = { accounts: [], reserves: [] };
+  private blockInFlight?: Promise<LedgerBlock | null>;
   private blockTimer?: NodeJS.Timeout;
-
-  constructor(validatorId: string) {
+  private expiryTimer?: NodeJS.Timeout;
+  private crdnValidityDays: Map<string, number>;
+  private collateralHaircuts: Map<string, number>;
+  private lendingRatePercent: number;
+  /* Latest attested prices and banks under a margin call; node-local, not ledger state */
+  private collateralPrices = new Map<CollateralAsset, CollateralPrice>();
+  private marginCalls = new Set<string>();
+
+  constructor(validatorId: string, options: LedgerEngineOptions = {}) {
     super();
     this.validatorId = validatorId;
+    this.signingKey = options.signingKey ?? getDevelopmentKeyPair();
+    this.validators = options.validators ?? new ValidatorRegistry();
+    this.validators.register(validatorId, this.signingKey.publicKey);
+    this.storage = options.storage ?? new MemoryLedgerStorage();
+    this.genesisBlock = options.genesisBlock;
+    this.snapshotInterval = options.snapshotInterval ?? SYSTEM.SNAPSHOT_INTERVAL_BLOCKS;
+    this.retainedBlocks = Math.max(options.retainedBlocks ?? SYSTEM.RETAINED_BLOCKS, 1);
+    this.crdnValidityDays = new Map(Object.entries(options.crdnValidityDays ?? {}));
+    this.collateralHaircuts = new Map(Object.entries(options.collateralHaircuts ?? {}));
+    this.lendingRatePercent = options.lendingRatePercent ?? FINANCIAL.LENDING_FACILITY_RATE_PERCENT;
     this.state = {
       chain: [],
+      chainBase: 0,
       pendingTransactions: [],
       accounts: new Map(),
       gbdcRegistry: new Map(),
+      lots: new Map(),
+      reversals: new Map(),
       crdnRegistry: new Map(),
+      pledges: new Map(),
+      creditLines: new Map(),
+      escrows: new Map(),
+      noteSeries: new Map(),
+      yieldNotes: new Map(),
       goldReserveGrams: 0,
       cocoaReserveKg: 0,
     };
   }
 
   /**
-   * Initialize the ledger with a genesis block
+   * Initialize the ledger.
+   * If the storage backend already holds a chain, the engine state is
+   * rebuilt from the latest snapshot and the blocks after it; otherwise a
+   * genesis block is created.
    */
-  initialize(): void {
-    const genesis = createGenesisBlock(this.validatorId);
-    this.state.chain.push(genesis);
-    this.emit('ledger:initialized', { blockHeight: 0, hash: genesis.hash });
+  async initialize(): Promise<void> {
+    const stored = await this.storage.load();
+    if (stored.blocks.length > 0) {
+      this.restore(stored);
+      const tip = this.getLatestBlock();
+      this.emit('ledger:recovered', {
+        blockHeight: tip.header.blockHeight,
+        hash: tip.hash,
+        accountCount: this.state.accounts.size,
+      });
+      this.emit('ledger:initialized', { blockHeight: tip.header.blockHeight, hash: tip.hash });
+      return;
+    }
+
+    let genesis: LedgerBlock;
+    if (this.genesisBlock) {
+      genesis = structuredClone(this.genesisBlock);
+      if (genesis.header.blockHeight !== 0 || !validateBlock(genesis, undefined, this.validators)) {
+        throw new Error(`${ERROR_CODES.BLOCK_VALIDATION_FAILED}: Supplied genesis block is invalid`);
+      }
+    } else {
+      genesis = createGenesisBlock(this.validatorId);
+      genesis.header.validatorSignature = signBlock(genesis, this.signingKey.privateKey);
+    }
 
-    // Register the BoG system account
+    // Register the BoG system accounts
     this.registerAccount('BOG_TREASURY', UserRole.BOG_ADMIN);
     this.registerAccount('BOG_RESERVE', UserRole.BOG_ADMIN);
+    this.registerAccount('CRDN_SETTLEMENT_POOL', UserRole.BOG_ADMIN);
+
+    await this.commit(genesis);
+    this.state.chain.push(genesis);
+    this.emit('ledger:initialized', { blockHeight: 0, hash: genesis.hash });
   }
 
   /**
@@ -112,8 +337,10 @@ export class LedgerEngine extends EventEmitter {
    */
   startBlockGeneration(): void {
     this.blockTimer = setInterval(() => {
-      if (this.state.pendingTransactions.length > 0) {
-        this.generateBlock();
+      if (this.hasPendingWork()) {
+        this.generateBlock().catch(() => {
+          // Failure is reported via block:commit_failed; retried next tick
+        });
       }
     }, SYSTEM.BLOCK_INTERVAL_MS);
   }
@@ -127,6 +354,31 @@ export class LedgerEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Start expiring CRDNs past their validity period on a timer. Expiry
+   * transactions are sealed with the next block.
+   */
+  startCRDNExpiry(intervalMs: number = SYSTEM.CRDN_EXPIRY_CHECK_INTERVAL_MS): void {
+    this.stopCRDNExpiry();
+    this.expiryTimer = setInterval(() => {
+      try {
+        this.expireCRDNs();
+      } catch (error) {
+        this.emit('crdn:expiry_failed', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the CRDN expiry scheduler
+   */
+  stopCRDNExpiry(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+  }
+
   /**
    * Register a new account on the ledger
    */
@@ -134,13 +386,9 @@ export class LedgerEngine extends EventEmitter {
     if (this.state.accounts.has(accountId)) {
       throw new Error(`Account ${accountId} already exists`);
     }
-    this.state.accounts.set(accountId, {
-      accountId,
-      gbdcBalance: 0,
-      crdnBalance: 0,
-      role,
-      isActive: true,
-    });
+    const account: StoredAccount = { accountId, role, isActive: true, registeredAt: new Date() };
+    this.applyAccount(account);
+    this.pendingChanges.accounts.push(account);
     this.emit('account:registered', { accountId, role });
   }
 
@@ -148,7 +396,9 @@ export class LedgerEngine extends EventEmitter {
    * Register gold reserves backing (Oracle verified)
    */
   registerGoldReserve(weightGrams: number, attestationHash: string): void {
-    this.state.goldReserveGrams += weightGrams;
+    const entry: ReserveEntry = { assetType: 'GOLD', quantity: weightGrams, attestationHash, recordedAt: new Date() };
+    this.applyReserve(entry);
+    this.pendingChanges.reserves.push(entry);
     this.emit('reserve:gold:updated', {
       totalGrams: this.state.goldReserveGrams,
       addedGrams: weightGrams,
@@ -160,7 +410,9 @@ export class LedgerEngine extends EventEmitter {
    * Register cocoa reserves (Oracle verified)
    */
   registerCocoaReserve(weightKg: number, attestationHash: string): void {
-    this.state.cocoaReserveKg += weightKg;
+    const entry: ReserveEntry = { assetType: 'COCOA', quantity: weightKg, attestationHash, recordedAt: new Date() };
+    this.applyReserve(entry);
+    this.pendingChanges.reserves.push(entry);
     this.emit('reserve:cocoa:updated', {
       totalKg: this.state.cocoaReserveKg,
       addedKg: weightKg,
@@ -204,23 +456,8 @@ export class LedgerEngine extends EventEmitter {
       throw new Error(`Minimum GBDC issuance is ${FINANCIAL.MIN_GBDC_ISSUANCE_CEDI} GHS`);
     }
 
-    // Create instrument
+    // Create instrument and credit BoG Treasury
     const instrumentId = this.generateInstrumentId('GBDC');
-    this.state.gbdcRegistry.set(instrumentId, {
-      instrumentId,
-      amountCedi: params.amountCedi,
-      goldBackingGrams: params.goldBackingGrams,
-      holder: 'BOG_TREASURY',
-      status: GBDCStatus.MINTED,
-      mintedAt: new Date(),
-      issuanceId: params.issuanceId,
-    });
-
-    // Credit BoG Treasury
-    const treasury = this.state.accounts.get('BOG_TREASURY')!;
-    treasury.gbdcBalance += params.amountCedi;
-
-    // Create transaction
     const tx = this.createTransaction({
       type: 'MINT',
       instrumentType: 'GBDC',
@@ -243,14 +480,23 @@ export class LedgerEngine extends EventEmitter {
   /**
    * Transfer GBDC between accounts
    * Used for government contractor payments and interbank settlement
+   *
+   * Spends the sender's lots of instrumentId, or its oldest lots of any
+   * instrument if none is given. Partial transfers split the instrument;
+   * the remainder comes back to the sender as a change lot.
    */
   transferGBDC(params: {
-    instrumentId: string;
+    instrumentId?: string;
     fromAccount: string;
     toAccount: string;
     amountCedi: number;
     description: string;
   }): string {
+    return this.postGBDCTransfer(params);
+  }
+
+  /* A GBDC transfer with extra data marking what it settles */
+  private postGBDCTransfer(params: Parameters<LedgerEngine['transferGBDC']>[0], extra: Record<string, unknown> = {}): string {
     // Validate accounts
     const from = this.state.accounts.get(params.fromAccount);
     const to = this.state.accounts.get(params.toAccount);
@@ -261,31 +507,21 @@ export class LedgerEngine extends EventEmitter {
     if (from.gbdcBalance < params.amountCedi) {
       throw new Error(ERROR_CODES.INSUFFICIENT_BALANCE);
     }
+    const lots = this.selectLots(params.fromAccount, params.amountCedi, params.instrumentId);
 
-    // Update balances
-    from.gbdcBalance -= params.amountCedi;
-    to.gbdcBalance += params.amountCedi;
-
-    // Update GBDC registry
-    const gbdc = this.state.gbdcRegistry.get(params.instrumentId);
-    if (gbdc) {
-      gbdc.holder = params.toAccount;
-      gbdc.status = GBDCStatus.CIRCULATING;
-    }
-
-    // Create transaction
+    // Create transaction (updates balances, lots and GBDC registry)
     const tx = this.createTransaction({
       type: 'TRANSFER',
       instrumentType: 'GBDC',
-      instrumentId: params.instrumentId,
+      instrumentId: lots[0].instrumentId,
       fromAccount: params.fromAccount,
       toAccount: params.toAccount,
       amount: params.amountCedi,
-      data: { description: params.description },
+      data: { description: params.description, ...extra, ...this.describeInputs(lots) },
     });
 
     this.emit('gbdc:transferred', {
-      instrumentId: params.instrumentId,
+      instrumentId: tx.instrumentId,
       from: params.fromAccount,
       to: params.toAccount,
       amount: params.amountCedi,
@@ -297,7 +533,9 @@ export class LedgerEngine extends EventEmitter {
 
   /**
    * Redeem GBDC back to BoG
-   * Only banks can initiate redemption
+   * Only banks can initiate redemption. The instrument is only marked
+   * REDEEMED once every lot of it has been redeemed. Redeemed GBDC leaves
+   * circulation but keeps its gold backing until BoG burns it.
    */
   redeemGBDC(params: {
     instrumentId: string;
@@ -312,13 +550,7 @@ export class LedgerEngine extends EventEmitter {
     if (holder.gbdcBalance < params.amountCedi) {
       throw new Error(ERROR_CODES.INSUFFICIENT_BALANCE);
     }
-
-    holder.gbdcBalance -= params.amountCedi;
-    const gbdc = this.state.gbdcRegistry.get(params.instrumentId);
-    if (gbdc) {
-      gbdc.status = GBDCStatus.REDEEMED;
-      gbdc.holder = 'BOG_TREASURY';
-    }
+    const lots = this.selectLots(params.holderAccount, params.amountCedi, params.instrumentId);
 
     const tx = this.createTransaction({
       type: 'REDEEM',
@@ -327,13 +559,147 @@ export class LedgerEngine extends EventEmitter {
       fromAccount: params.holderAccount,
       toAccount: 'BOG_TREASURY',
       amount: params.amountCedi,
-      data: {},
+      data: this.describeInputs(lots),
+    });
+
+    const gbdc = this.state.gbdcRegistry.get(params.instrumentId)!;
+    this.emit('gbdc:redeemed', {
+      instrumentId: params.instrumentId,
+      amountCedi: params.amountCedi,
+      remainingCedi: roundCedi(gbdc.amountCedi - gbdc.redeemedCedi),
+      txId: tx.txId,
+    });
+    return tx.txId;
+  }
+
+  /**
+   * Burn redeemed GBDC
+   * Only BoG can burn. Permanently retires amountCedi of the instrument's
+   * redeemed GBDC (all of it if omitted) and releases the matching share
+   * of its gold backing for new issuance.
+   */
+  burnGBDC(params: {
+    instrumentId: string;
+    burnedBy: string;
+    amountCedi?: number;
+  }): string {
+    const burner = this.state.accounts.get(params.burnedBy);
+    if (!burner || burner.role !== UserRole.BOG_ADMIN) {
+      throw new Error(ERROR_CODES.UNAUTHORIZED + ': Only BoG can burn GBDC');
+    }
+
+    const gbdc = this.state.gbdcRegistry.get(params.instrumentId);
+    if (!gbdc) {
+      throw new Error(`${ERROR_CODES.INVALID_INSTRUMENT}: GBDC instrument ${params.instrumentId} not found`);
+    }
+    const burnable = roundCedi(gbdc.redeemedCedi - gbdc.burnedCedi);
+    const amountCedi = params.amountCedi ?? burnable;
+    if (!(amountCedi > 0) || roundCedi(amountCedi) > burnable) {
+      throw new Error(`${ERROR_CODES.INSUFFICIENT_BALANCE}: ${burnable} GHS of ${params.instrumentId} is redeemed and unburned`);
+    }
+
+    const goldReleasedGrams = gbdc.goldBackingGrams * amountCedi / gbdc.amountCedi;
+    const tx = this.createTransaction({
+      type: 'BURN',
+      instrumentType: 'GBDC',
+      instrumentId: params.instrumentId,
+      fromAccount: 'BOG_TREASURY',
+      toAccount: 'BOG_RESERVE',
+      amount: amountCedi,
+      data: { goldReleasedGrams, burnedBy: params.burnedBy },
+    });
+
+    this.emit('gbdc:burned', {
+      instrumentId: params.instrumentId,
+      amountCedi,
+      goldReleasedGrams,
+      fullyBurned: gbdc.status === GBDCStatus.BURNED,
+      txId: tx.txId,
+    });
+    return tx.txId;
+  }
+
+  // ─── Reversals ────────────────────────────────────────────────
+
+  /**
+   * Reverse a committed GBDC transfer (including interbank settlements)
+   * by posting a compensating transfer from the recipient back to the
+   * sender. Needs two different BoG admins: one who raised the reversal
+   * and one who approved it. The recipient must still hold the amount;
+   * lots received in the original transfer are returned first.
+   */
+  reverseTransaction(params: {
+    original: BlockTransaction;
+    requestedBy: string;
+    approvedBy: string;
+    reason: string;
+  }): string {
+    const { original } = params;
+    for (const adminId of [params.requestedBy, params.approvedBy]) {
+      if (this.state.accounts.get(adminId)?.role !== UserRole.BOG_ADMIN) {
+        throw new Error(ERROR_CODES.UNAUTHORIZED + ': Only BoG admins can reverse transactions');
+      }
+    }
+    if (params.requestedBy === params.approvedBy) {
+      throw new Error(ERROR_CODES.FORBIDDEN + ': A reversal must be approved by a second admin');
+    }
+    if (!params.reason.trim()) throw new Error('A dispute reason is required');
+
+    // The original must be a genuine, committed ledger transaction
+    const signedByValidator = this.validators.getValidatorIds()
+      .some(id => verifyTransactionSignature(original, this.validators.getPublicKey(id)!));
+    if (!signedByValidator) throw new Error(ERROR_CODES.INVALID_SIGNATURE + ': Unknown transaction');
+    if (this.state.pendingTransactions.some(tx => tx.txId === original.txId)) {
+      throw new Error(`Transaction ${original.txId} is not yet confirmed`);
+    }
+    if (original.type !== 'TRANSFER' || original.instrumentType !== 'GBDC' || original.data.reversalOf || original.data.facility || original.data.escrow || original.data.yieldNote || original.data.netting || original.data.bridge || original.data.crdnSale) {
+      throw new Error(`Only GBDC transfers can be reversed`);
+    }
+    if (this.state.reversals.has(original.txId)) {
+      throw new Error(`${ERROR_CODES.DOUBLE_SPEND}: Transaction ${original.txId} is already reversed`);
+    }
+
+    const recipient = this.state.accounts.get(original.toAccount);
+    const sender = this.state.accounts.get(original.fromAccount);
+    if (!recipient || !sender) throw new Error('Invalid account');
+    if (recipient.gbdcBalance < original.amount) {
+      throw new Error(`${ERROR_CODES.INSUFFICIENT_BALANCE}: ${original.toAccount} no longer holds ${original.amount} GHS`);
+    }
+    const lots = this.selectLots(original.toAccount, original.amount, undefined, original.txId);
+
+    const tx = this.createTransaction({
+      type: 'TRANSFER',
+      instrumentType: 'GBDC',
+      instrumentId: lots[0].instrumentId,
+      fromAccount: original.toAccount,
+      toAccount: original.fromAccount,
+      amount: original.amount,
+      data: {
+        description: `Reversal of ${original.txId}`,
+        reversalOf: original.txId,
+        reason: params.reason,
+        requestedBy: params.requestedBy,
+        approvedBy: params.approvedBy,
+        ...this.describeInputs(lots),
+      },
     });
 
-    this.emit('gbdc:redeemed', { instrumentId: params.instrumentId, txId: tx.txId });
+    this.emit('transaction:reversed', {
+      originalTxId: original.txId,
+      reversalTxId: tx.txId,
+      amount: original.amount,
+      reason: params.reason,
+    });
     return tx.txId;
   }
 
+  /**
+   * The compensating transaction that reversed txId, if any
+   */
+  getReversal(txId: string): string | undefined {
+    return this.state.reversals.get(txId);
+  }
+
   // ─── CRDN Operations ───────────────────────────────────────────
 
   /**
@@ -365,20 +731,7 @@ export class LedgerEngine extends EventEmitter {
     }
 
     const instrumentId = this.generateInstrumentId('CRDN');
-    this.state.crdnRegistry.set(instrumentId, {
-      instrumentId,
-      amountCedi,
-      cocoaWeightKg: params.cocoaWeightKg,
-      holder: params.farmerId,
-      status: CRDNStatus.ISSUED,
-      issuedAt: new Date(),
-      farmerId: params.farmerId,
-      lbcId: params.lbcId,
-    });
-
-    // Credit farmer
-    farmer.crdnBalance += amountCedi;
-
+    const expiresAt = new Date(Date.now() + this.getCRDNValidity(params.seasonYear) * DAY_MS);
     const tx = this.createTransaction({
       type: 'MINT',
       instrumentType: 'CRDN',
@@ -392,6 +745,8 @@ export class LedgerEngine extends EventEmitter {
         pricePerKgGHS: params.pricePerKgGHS,
         seasonYear: params.seasonYear,
         attestationHash: params.attestationHash,
+        lbcId: params.lbcId,
+        expiresAt: expiresAt.toISOString(),
       },
     });
 
@@ -399,16 +754,125 @@ export class LedgerEngine extends EventEmitter {
       instrumentId,
       farmerId: params.farmerId,
       amountCedi,
+      expiresAt,
       txId: tx.txId,
     });
 
     return instrumentId;
   }
 
+  /**
+   * Set how long CRDNs issued for a season stay convertible. Notes
+   * already issued keep the deadline recorded at issuance.
+   */
+  setCRDNValidity(seasonYear: string, validityDays: number): void {
+    if (!(validityDays > 0)) throw new Error('Validity period must be positive');
+    this.crdnValidityDays.set(seasonYear, validityDays);
+  }
+
+  getCRDNValidity(seasonYear: string): number {
+    return this.crdnValidityDays.get(seasonYear) ?? FINANCIAL.CRDN_VALIDITY_DAYS;
+  }
+
+  /**
+   * Transfer all or part of a CRDN between farmers, LBCs and banks before
+   * conversion. A partial transfer splits the note: the recipient gets a
+   * new note for amountCedi with the same season and deadline, and the
+   * rest stays with the holder. With priceCedi the recipient pays the
+   * holder that much GBDC in the same batch, so a sale settles delivery
+   * versus payment.
+   */
+  transferCRDN(params: {
+    instrumentId: string;
+    fromAccount: string;
+    toAccount: string;
+    amountCedi?: number;
+    priceCedi?: number;
+    description?: string;
+  }): { instrumentId: string; txId: string; paymentTxId?: string } {
+    const crdn = this.state.crdnRegistry.get(params.instrumentId);
+    if (!crdn) throw new Error('CRDN not found');
+    if (crdn.holder !== params.fromAccount) throw new Error('Not the holder');
+    if (crdn.status !== CRDNStatus.ISSUED && crdn.status !== CRDNStatus.HELD) {
+      throw new Error('CRDN cannot be transferred in current state');
+    }
+    if (crdn.expiresAt.getTime() <= Date.now()) {
+      throw new Error(`CRDN expired on ${crdn.expiresAt.toISOString()}`);
+    }
+
+    const from = this.state.accounts.get(params.fromAccount);
+    const to = this.state.accounts.get(params.toAccount);
+    if (!from || !to) throw new Error('Invalid account');
+    if (!from.isActive || !to.isActive) throw new Error('Account inactive');
+    if (params.fromAccount === params.toAccount) throw new Error('Cannot transfer a CRDN to its holder');
+    for (const account of [from, to]) {
+      if (!CRDN_HOLDER_ROLES.includes(account.role)) {
+        throw new Error(`${ERROR_CODES.FORBIDDEN}: ${account.role} accounts cannot hold CRDNs`);
+      }
+    }
+
+    const amountCedi = roundCedi(params.amountCedi ?? crdn.amountCedi);
+    if (!(amountCedi > 0) || amountCedi > crdn.amountCedi) {
+      throw new Error(`Transfer amount must be between 0 and ${crdn.amountCedi} GHS`);
+    }
+    const split = amountCedi < crdn.amountCedi;
+    if (split && Math.min(amountCedi, crdn.amountCedi - amountCedi) < FINANCIAL.MIN_CRDN_VALUE_CEDI) {
+      throw new Error(`Both parts of a split CRDN must be at least ${FINANCIAL.MIN_CRDN_VALUE_CEDI} GHS`);
+    }
+
+    // Check the buyer can pay before either leg is recorded
+    if (params.priceCedi !== undefined) {
+      if (!(params.priceCedi > 0) || params.priceCedi > amountCedi) {
+        throw new Error('Price must be positive and no more than the face value');
+      }
+      this.selectLots(params.toAccount, params.priceCedi);
+    }
+
+    const splitInstrumentId = split ? this.generateInstrumentId('CRDN') : undefined;
+    const tx = this.createTransaction({
+      type: 'TRANSFER',
+      instrumentType: 'CRDN',
+      instrumentId: params.instrumentId,
+      fromAccount: params.fromAccount,
+      toAccount: params.toAccount,
+      amount: amountCedi,
+      data: {
+        description: params.description ?? 'CRDN transfer',
+        ...(splitInstrumentId ? { splitInstrumentId } : {}),
+        ...(params.priceCedi !== undefined ? { priceCedi: params.priceCedi } : {}),
+      },
+    });
+
+    // Linked to the delivery, so the payment cannot be reversed on its own
+    const paymentTxId = params.priceCedi === undefined ? undefined : this.postGBDCTransfer({
+      fromAccount: params.toAccount,
+      toAccount: params.fromAccount,
+      amountCedi: params.priceCedi,
+      description: `Payment for CRDN ${splitInstrumentId ?? params.instrumentId}`,
+    }, { crdnSale: tx.txId });
+
+    const instrumentId = splitInstrumentId ?? params.instrumentId;
+    this.emit('crdn:transferred', {
+      instrumentId,
+      parentInstrumentId: splitInstrumentId ? params.instrumentId : undefined,
+      from: params.fromAccount,
+      to: params.toAccount,
+      amountCedi,
+      priceCedi: params.priceCedi,
+      txId: tx.txId,
+    });
+
+    return { instrumentId, txId: tx.txId, paymentTxId };
+  }
+
   /**
    * Convert CRDN to GBDC or cash
    * 
-   * Per whitepaper: Convertible immediately to cedi via bank/MoMo
+   * Per whitepaper: Convertible immediately to cedi via bank/MoMo.
+   * Conversion to GBDC settles on the ledger at once. A cash conversion
+   * leaves the note CONVERTING while the bank or MoMo payout is in
+   * flight; completeCRDNConversion or failCRDNConversion records the
+   * outcome.
    */
   convertCRDN(params: {
     instrumentId: string;
@@ -422,16 +886,11 @@ export class LedgerEngine extends EventEmitter {
     if (crdn.status !== CRDNStatus.ISSUED && crdn.status !== CRDNStatus.HELD) {
       throw new Error('CRDN cannot be converted in current state');
     }
-
-    const farmer = this.state.accounts.get(params.farmerId)!;
-    farmer.crdnBalance -= crdn.amountCedi;
-
-    crdn.status = CRDNStatus.CONVERTED;
-
-    if (params.targetInstrument === 'GBDC') {
-      farmer.gbdcBalance += crdn.amountCedi;
+    if (crdn.expiresAt.getTime() <= Date.now()) {
+      throw new Error(`CRDN expired on ${crdn.expiresAt.toISOString()}`);
     }
 
+    const cash = params.targetInstrument === 'CASH';
     const tx = this.createTransaction({
       type: 'CONVERT',
       instrumentType: 'CRDN',
@@ -442,66 +901,1556 @@ export class LedgerEngine extends EventEmitter {
       data: {
         targetInstrument: params.targetInstrument,
         originalCRDN: params.instrumentId,
+        ...(cash ? { phase: 'INITIATED' } : {}),
       },
     });
 
+    if (cash) {
+      this.emit('crdn:converting', {
+        instrumentId: params.instrumentId,
+        farmerId: params.farmerId,
+        amountCedi: crdn.amountCedi,
+        payoutAccount: tx.toAccount,
+        txId: tx.txId,
+      });
+      return tx.txId;
+    }
+
     this.emit('crdn:converted', {
       instrumentId: params.instrumentId,
       farmerId: params.farmerId,
       amountCedi: crdn.amountCedi,
       target: params.targetInstrument,
+      gbdcInstrumentId: convertedInstrumentId(params.instrumentId),
       txId: tx.txId,
     });
 
     return tx.txId;
   }
 
-  // ─── Query Methods ────────────────────────────────────────────
+  /**
+   * Record that the payout for a cash conversion has been made. The
+   * note's value leaves the holder's balance and it becomes CONVERTED.
+   */
+  completeCRDNConversion(params: { instrumentId: string; payoutReference: string }): string {
+    const crdn = this.getConvertingCRDN(params.instrumentId);
+    const tx = this.createTransaction({
+      type: 'CONVERT',
+      instrumentType: 'CRDN',
+      instrumentId: params.instrumentId,
+      fromAccount: crdn.holder,
+      toAccount: crdn.payoutAccount!,
+      amount: crdn.amountCedi,
+      data: {
+        targetInstrument: 'CASH',
+        originalCRDN: params.instrumentId,
+        phase: 'COMPLETED',
+        payoutReference: params.payoutReference,
+      },
+    });
 
-  getChainHeight(): number {
-    return this.state.chain.length - 1;
-  }
+    this.emit('crdn:converted', {
+      instrumentId: params.instrumentId,
+      farmerId: crdn.farmerId,
+      amountCedi: crdn.amountCedi,
+      target: 'CASH',
+      payoutReference: params.payoutReference,
+      txId: tx.txId,
+    });
 
-  getBlock(height: number): LedgerBlock | undefined {
-    return this.state.chain[height];
+    return tx.txId;
   }
 
-  getLatestBlock(): LedgerBlock {
-    return this.state.chain[this.state.chain.length - 1];
-  }
+  /**
+   * Record that the payout for a cash conversion failed. The note stays
+   * with its holder as HELD and can be converted again until it expires.
+   */
+  failCRDNConversion(params: { instrumentId: string; reason: string }): string {
+    const crdn = this.getConvertingCRDN(params.instrumentId);
+    const tx = this.createTransaction({
+      type: 'CONVERT',
+      instrumentType: 'CRDN',
+      instrumentId: params.instrumentId,
+      fromAccount: crdn.holder,
+      toAccount: crdn.payoutAccount!,
+      amount: crdn.amountCedi,
+      data: {
+        targetInstrument: 'CASH',
+        originalCRDN: params.instrumentId,
+        phase: 'FAILED',
+        reason: params.reason,
+      },
+    });
 
-  getAccountBalance(accountId: string): AccountBalance | undefined {
-    return this.state.accounts.get(accountId);
-  }
+    this.emit('crdn:conversion_failed', {
+      instrumentId: params.instrumentId,
+      farmerId: crdn.farmerId,
+      reason: params.reason,
+      txId: tx.txId,
+    });
 
-  getGBDCRecord(instrumentId: string): GBDCRecord | undefined {
-    return this.state.gbdcRegistry.get(instrumentId);
+    return tx.txId;
   }
 
-  getCRDNRecord(instrumentId: string): CRDNRecord | undefined {
-    return this.state.crdnRegistry.get(instrumentId);
+  /**
+   * Expire every unconverted CRDN past its validity period, moving its
+   * value from the holder to the CRDN settlement pool. Notes with a cash
+   * payout in flight are left until the payout is settled.
+   */
+  expireCRDNs(): string[] {
+    // Chains started before the pool existed register it on first use
+    if (!this.state.accounts.has('CRDN_SETTLEMENT_POOL')) {
+      this.registerAccount('CRDN_SETTLEMENT_POOL', UserRole.BOG_ADMIN);
+    }
+
+    const now = Date.now();
+    const due = [...this.state.crdnRegistry.values()].filter(crdn =>
+      (crdn.status === CRDNStatus.ISSUED || crdn.status === CRDNStatus.HELD) && crdn.expiresAt.getTime() <= now);
+
+    return due.map(crdn => {
+      const holder = crdn.holder;
+      const tx = this.createTransaction({
+        type: 'EXPIRE',
+        instrumentType: 'CRDN',
+        instrumentId: crdn.instrumentId,
+        fromAccount: holder,
+        toAccount: 'CRDN_SETTLEMENT_POOL',
+        amount: crdn.amountCedi,
+        data: {
+          seasonYear: crdn.seasonYear,
+          expiresAt: crdn.expiresAt.toISOString(),
+        },
+      });
+
+      this.emit('crdn:expired', {
+        instrumentId: crdn.instrumentId,
+        holder,
+        amountCedi: crdn.amountCedi,
+        txId: tx.txId,
+      });
+      return tx.txId;
+    });
   }
 
-  getTotalGBDCOutstanding(): number {
-    let total = 0;
-    for (const [, gbdc] of this.state.gbdcRegistry) {
-      if (gbdc.status === GBDCStatus.MINTED || gbdc.status === GBDCStatus.CIRCULATING) {
-        total += gbdc.amountCedi;
-      }
-    }
-    return total;
+  private getConvertingCRDN(instrumentId: string): CRDNRecord {
+    const crdn = this.state.crdnRegistry.get(instrumentId);
+    if (!crdn) throw new Error('CRDN not found');
+    if (crdn.status !== CRDNStatus.CONVERTING) throw new Error('CRDN has no conversion in progress');
+    return crdn;
   }
 
-  getTotalCRDNOutstanding(): number {
-    let total = 0;
-    for (const [, crdn] of this.state.crdnRegistry) {
-      if (crdn.status === CRDNStatus.ISSUED || crdn.status === CRDNStatus.HELD) {
-        total += crdn.amountCedi;
-      }
+  // ─── Collateralised Lending ────────────────────────────────────
+
+  /**
+   * Pledge a GBDC or CRDN instrument to BoG as collateral for a bank's
+   * credit line. A GBDC instrument must be wholly owned by the bank and
+   * becomes LOCKED; a CRDN becomes PLEDGED. Either stays on the bank's
+   * balance but cannot be spent, transferred or converted until released.
+   * The haircut is fixed at pledge time from the instrument type and,
+   * for CRDNs, the QCC grade.
+   */
+  pledgeCollateral(params: {
+    instrumentId: string;
+    instrumentType: 'GBDC' | 'CRDN';
+    bank: string;
+    qualityGrade?: string;
+  }): string {
+    this.getFacilityBank(params.bank);
+    if (this.state.pledges.has(params.instrumentId)) {
+      throw new Error(`Instrument ${params.instrumentId} is already pledged`);
+    }
+
+    let faceValueCedi: number;
+    if (params.instrumentType === 'GBDC') {
+      const gbdc = this.state.gbdcRegistry.get(params.instrumentId);
+      if (!gbdc) throw new Error(`${ERROR_CODES.INVALID_INSTRUMENT}: GBDC instrument ${params.instrumentId} not found`);
+      if (gbdc.status !== GBDCStatus.MINTED && gbdc.status !== GBDCStatus.CIRCULATING) {
+        throw new Error('GBDC cannot be pledged in current state');
+      }
+      const lots = this.getGBDCLots({ instrumentId: params.instrumentId });
+      if (lots.length === 0 || lots.some(lot => lot.owner !== params.bank)) {
+        throw new Error(`${params.bank} does not hold all of ${params.instrumentId}`);
+      }
+      faceValueCedi = roundCedi(lots.reduce((sum, lot) => sum + lot.amountCedi, 0));
+    } else {
+      const crdn = this.state.crdnRegistry.get(params.instrumentId);
+      if (!crdn) throw new Error('CRDN not found');
+      if (crdn.holder !== params.bank) throw new Error('Not the holder');
+      if (crdn.status !== CRDNStatus.ISSUED && crdn.status !== CRDNStatus.HELD) {
+        throw new Error('CRDN cannot be pledged in current state');
+      }
+      if (crdn.expiresAt.getTime() <= Date.now()) {
+        throw new Error(`CRDN expired on ${crdn.expiresAt.toISOString()}`);
+      }
+      faceValueCedi = crdn.amountCedi;
+    }
+
+    const haircutPercent = getHaircutPercent(params.instrumentType, params.qualityGrade, this.collateralHaircuts);
+    const tx = this.createTransaction({
+      type: 'PLEDGE',
+      instrumentType: params.instrumentType,
+      instrumentId: params.instrumentId,
+      fromAccount: params.bank,
+      toAccount: 'BOG_TREASURY',
+      amount: faceValueCedi,
+      data: {
+        haircutPercent,
+        ...(params.qualityGrade ? { qualityGrade: params.qualityGrade } : {}),
+      },
+    });
+
+    this.emit('collateral:pledged', {
+      instrumentId: params.instrumentId,
+      instrumentType: params.instrumentType,
+      bank: params.bank,
+      faceValueCedi,
+      haircutPercent,
+      txId: tx.txId,
+    });
+    this.checkMarginCalls();
+    return tx.txId;
+  }
+
+  /**
+   * Return a pledged instrument to the bank. Refused if the collateral
+   * left would no longer cover the bank's drawn principal and interest.
+   */
+  releaseCollateral(params: { instrumentId: string; bank: string }): string {
+    const pledge = this.state.pledges.get(params.instrumentId);
+    if (!pledge || pledge.bank !== params.bank) {
+      throw new Error(`Instrument ${params.instrumentId} is not pledged by ${params.bank}`);
+    }
+    const line = this.getCreditLine(params.bank);
+    const remainingValue = line.collateralValueCedi - this.pledgeLendingValue(pledge);
+    if (line.exposureCedi - remainingValue >= BALANCE_TOLERANCE_CEDI) {
+      throw new Error(`${ERROR_CODES.INSUFFICIENT_RESERVE}: Releasing ${params.instrumentId} would leave ${params.bank} under-collateralised`);
+    }
+
+    const tx = this.createTransaction({
+      type: 'RELEASE',
+      instrumentType: pledge.instrumentType,
+      instrumentId: params.instrumentId,
+      fromAccount: 'BOG_TREASURY',
+      toAccount: params.bank,
+      amount: pledge.faceValueCedi,
+      data: {},
+    });
+
+    this.emit('collateral:released', {
+      instrumentId: params.instrumentId,
+      instrumentType: pledge.instrumentType,
+      bank: params.bank,
+      txId: tx.txId,
+    });
+    return tx.txId;
+  }
+
+  /**
+   * Lend GBDC from BoG Treasury against the bank's pledged collateral, at
+   * the current facility rate. Principal and interest together may not
+   * exceed the collateral's lending value.
+   */
+  drawCredit(params: { bank: string; amountCedi: number; description?: string }): string {
+    this.getFacilityBank(params.bank);
+    if (!(params.amountCedi > 0)) throw new Error('Amount must be positive');
+    const line = this.getCreditLine(params.bank);
+    if (roundCedi(params.amountCedi) > roundCedi(line.availableCedi)) {
+      throw new Error(`${ERROR_CODES.INSUFFICIENT_RESERVE}: ${params.bank} can draw at most ${roundCedi(line.availableCedi)} GHS`);
+    }
+    const lots = this.selectLots('BOG_TREASURY', params.amountCedi);
+
+    const tx = this.createTransaction({
+      type: 'TRANSFER',
+      instrumentType: 'GBDC',
+      instrumentId: lots[0].instrumentId,
+      fromAccount: 'BOG_TREASURY',
+      toAccount: params.bank,
+      amount: params.amountCedi,
+      data: {
+        description: params.description ?? 'Collateralised facility draw',
+        facility: 'DRAW',
+        interestRatePercent: this.lendingRatePercent,
+        ...this.describeInputs(lots),
+      },
+    });
+
+    this.emit('collateral:drawn', {
+      bank: params.bank,
+      amountCedi: params.amountCedi,
+      interestRatePercent: this.lendingRatePercent,
+      txId: tx.txId,
+    });
+    return tx.txId;
+  }
+
+  /**
+   * Repay the facility in GBDC. Accrued interest is settled before
+   * principal; anything above the outstanding balance is not taken.
+   */
+  repayCredit(params: { bank: string; amountCedi: number }): string {
+    const exposureCedi = roundCedi(this.getCreditLine(params.bank).exposureCedi);
+    if (!(exposureCedi > 0)) throw new Error(`${params.bank} has nothing drawn on its facility`);
+    if (!(params.amountCedi > 0)) throw new Error('Amount must be positive');
+    const amountCedi = Math.min(roundCedi(params.amountCedi), exposureCedi);
+    const lots = this.selectLots(params.bank, amountCedi);
+
+    const tx = this.createTransaction({
+      type: 'TRANSFER',
+      instrumentType: 'GBDC',
+      instrumentId: lots[0].instrumentId,
+      fromAccount: params.bank,
+      toAccount: 'BOG_TREASURY',
+      amount: amountCedi,
+      data: {
+        description: 'Collateralised facility repayment',
+        facility: 'REPAY',
+        ...this.describeInputs(lots),
+      },
+    });
+
+    this.emit('collateral:repaid', {
+      bank: params.bank,
+      amountCedi,
+      outstandingCedi: roundCedi(this.getCreditLine(params.bank).exposureCedi),
+      txId: tx.txId,
+    });
+    this.checkMarginCalls();
+    return tx.txId;
+  }
+
+  /**
+   * Record an attested gold (per gram) or cocoa (per kg) price and
+   * revalue every pledge backed by it. Banks whose collateral no longer
+   * covers their facility get a margin call.
+   */
+  updateCollateralPrice(params: {
+    asset: CollateralAsset;
+    pricePerUnitGHS: number;
+    attestationHash: string;
+  }): string[] {
+    if (!(params.pricePerUnitGHS > 0)) throw new Error('Price must be positive');
+    this.collateralPrices.set(params.asset, { ...params, updatedAt: new Date() });
+    this.emit('collateral:price_updated', params);
+    return this.checkMarginCalls();
+  }
+
+  getCollateralPrice(asset: CollateralAsset): CollateralPrice | undefined {
+    return this.collateralPrices.get(asset);
+  }
+
+  /**
+   * Set the haircut for new pledges under a key such as GBDC, CRDN or
+   * CRDN_GRADE_1. Existing pledges keep the haircut they were made at.
+   */
+  setCollateralHaircut(key: string, haircutPercent: number): void {
+    if (!(haircutPercent >= 0 && haircutPercent < 100)) throw new Error('Haircut must be at least 0 and below 100 percent');
+    this.collateralHaircuts.set(key, haircutPercent);
+  }
+
+  /**
+   * Compare every bank's exposure with its collateral. Emits
+   * collateral:margin_call when a bank first falls short and
+   * collateral:margin_cured once it is covered again. Returns the banks
+   * currently under a margin call.
+   */
+  checkMarginCalls(): string[] {
+    const banks = new Set([
+      ...this.state.creditLines.keys(),
+      ...[...this.state.pledges.values()].map(pledge => pledge.bank),
+    ]);
+    for (const bank of banks) {
+      const line = this.getCreditLine(bank);
+      if (line.shortfallCedi >= BALANCE_TOLERANCE_CEDI) {
+        if (this.marginCalls.has(bank)) continue;
+        this.marginCalls.add(bank);
+        this.emit('collateral:margin_call', {
+          bank,
+          exposureCedi: line.exposureCedi,
+          collateralValueCedi: line.collateralValueCedi,
+          shortfallCedi: line.shortfallCedi,
+          prices: [...this.collateralPrices.values()],
+        });
+      } else if (this.marginCalls.delete(bank)) {
+        this.emit('collateral:margin_cured', {
+          bank,
+          exposureCedi: line.exposureCedi,
+          collateralValueCedi: line.collateralValueCedi,
+        });
+      }
+    }
+    return [...this.marginCalls];
+  }
+
+  /**
+   * A bank's pledges, drawn balance and headroom, with interest accrued
+   * to now and collateral valued at the latest attested prices
+   */
+  getCreditLine(bank: string): CreditLineSummary {
+    const pledges = [...this.state.pledges.values()].filter(pledge => pledge.bank === bank);
+    const collateralValueCedi = pledges.reduce((sum, pledge) => sum + this.pledgeLendingValue(pledge), 0);
+
+    const stored = this.state.creditLines.get(bank);
+    const line: CreditLine = stored
+      ? { ...stored }
+      : { bank, principalCedi: 0, accruedInterestCedi: 0, interestRatePercent: this.lendingRatePercent, lastAccrualAt: new Date() };
+    accrueInterest(line, new Date());
+    const exposureCedi = line.principalCedi + line.accruedInterestCedi;
+
+    return {
+      bank,
+      pledges: pledges.map(pledge => ({ ...pledge })),
+      collateralValueCedi,
+      principalCedi: line.principalCedi,
+      accruedInterestCedi: line.accruedInterestCedi,
+      exposureCedi,
+      availableCedi: Math.max(collateralValueCedi - exposureCedi, 0),
+      interestRatePercent: line.interestRatePercent,
+      shortfallCedi: Math.max(exposureCedi - collateralValueCedi, 0),
+    };
+  }
+
+  private getFacilityBank(bank: string): AccountBalance {
+    const account = this.state.accounts.get(bank);
+    if (!account || account.role !== UserRole.COMMERCIAL_BANK) {
+      throw new Error(`${ERROR_CODES.FORBIDDEN}: Only commercial banks can use the lending facility`);
+    }
+    if (!account.isActive) throw new Error('Account inactive');
+    return account;
+  }
+
+  /* Lending value of a pledge at the latest attested price for its backing */
+  private pledgeLendingValue(pledge: Pledge): number {
+    if (pledge.instrumentType === 'CRDN') {
+      const crdn = this.state.crdnRegistry.get(pledge.instrumentId)!;
+      // A note past its deadline can no longer be converted, so it lends nothing
+      if (crdn.expiresAt.getTime() <= Date.now()) return 0;
+      return lendingValue(pledge, crdn.cocoaWeightKg, this.collateralPrices.get('COCOA')?.pricePerUnitGHS);
+    }
+
+    const gbdc = this.state.gbdcRegistry.get(pledge.instrumentId)!;
+    const share = pledge.faceValueCedi / gbdc.amountCedi;
+    if (gbdc.goldBackingGrams > 0) {
+      return lendingValue(pledge, gbdc.goldBackingGrams * share, this.collateralPrices.get('GOLD')?.pricePerUnitGHS);
+    }
+    // GBDC converted from a CRDN is backed by that note's cocoa
+    const source = this.state.crdnRegistry.get(gbdc.issuanceId);
+    return source
+      ? lendingValue(pledge, source.cocoaWeightKg * share, this.collateralPrices.get('COCOA')?.pricePerUnitGHS)
+      : lendingValue(pledge, 0);
+  }
+
+  // ─── Project Escrow ───────────────────────────────────────────
+
+  /**
+   * Lock an approved project's budget in its own escrow account. Each
+   * milestone's amount is released to its contractor once all of its
+   * conditions are met; milestones may not add up to more than the budget.
+   */
+  fundEscrow(params: {
+    projectId: string;
+    amountCedi: number;
+    milestones: MilestoneTerms[];
+    fundedBy: string;
+  }): string {
+    if (this.state.accounts.get(params.fundedBy)?.role !== UserRole.BOG_ADMIN) {
+      throw new Error(ERROR_CODES.UNAUTHORIZED + ': Only BoG can fund project escrow');
+    }
+    if (this.state.escrows.has(params.projectId)) {
+      throw new Error(`Project ${params.projectId} already has an escrow`);
+    }
+    if (!(params.amountCedi > 0)) throw new Error('Amount must be positive');
+    if (params.milestones.length === 0) throw new Error('An escrow needs at least one milestone');
+    this.validateMilestoneTerms(params.milestones, new Set());
+    const allocated = roundCedi(params.milestones.reduce((sum, milestone) => sum + milestone.amountCedi, 0));
+    if (allocated > roundCedi(params.amountCedi)) {
+      throw new Error(`Milestones total ${allocated} GHS, more than the ${params.amountCedi} GHS budget`);
+    }
+
+    const account = escrowAccountId(params.projectId);
+    if (!this.state.accounts.has(account)) this.registerAccount(account, UserRole.BOG_ADMIN);
+    const lots = this.selectLots('BOG_TREASURY', params.amountCedi);
+
+    const tx = this.createTransaction({
+      type: 'TRANSFER',
+      instrumentType: 'GBDC',
+      instrumentId: lots[0].instrumentId,
+      fromAccount: 'BOG_TREASURY',
+      toAccount: account,
+      amount: params.amountCedi,
+      data: {
+        description: `Escrow for project ${params.projectId}`,
+        escrow: 'FUND',
+        projectId: params.projectId,
+        milestones: params.milestones.map(({ milestoneId, contractorId, amountCedi, conditions }) =>
+          ({ milestoneId, contractorId, amountCedi, conditions })),
+        ...this.describeInputs(lots),
+      },
+    });
+
+    this.emit('escrow:funded', { projectId: params.projectId, account, amountCedi: params.amountCedi, txId: tx.txId });
+    return tx.txId;
+  }
+
+  /**
+   * Apply an approved variation order to an active escrow: move the budget
+   * change between Treasury and escrow, add milestones and change the
+   * amounts of locked ones. What stays in escrow must still cover every
+   * locked milestone. Returns the transaction ids created.
+   */
+  varyEscrow(params: {
+    projectId: string;
+    variationId: string;
+    budgetDeltaCedi: number;
+    milestones: MilestoneTerms[];
+    amendments: MilestoneAmendment[];
+    approvedBy: string;
+  }): string[] {
+    if (this.state.accounts.get(params.approvedBy)?.role !== UserRole.BOG_ADMIN) {
+      throw new Error(ERROR_CODES.UNAUTHORIZED + ': Only BoG can approve variation orders');
+    }
+    const escrow = this.state.escrows.get(params.projectId);
+    if (!escrow) throw new Error(`Project ${params.projectId} has no escrow`);
+    if (escrow.status !== 'ACTIVE') throw new Error(`Escrow for ${params.projectId} is ${escrow.status}`);
+    if (escrow.variationIds.includes(params.variationId)) throw new Error(`Variation ${params.variationId} has already been applied`);
+    const delta = roundCedi(params.budgetDeltaCedi);
+    if (delta === 0 && params.milestones.length === 0 && params.amendments.length === 0) {
+      throw new Error('Variation order changes nothing');
+    }
+
+    this.validateMilestoneTerms(params.milestones, new Set(escrow.milestones.map(m => m.milestoneId)));
+    const amended = new Map<string, number>();
+    for (const amendment of params.amendments) {
+      const milestone = escrow.milestones.find(m => m.milestoneId === amendment.milestoneId);
+      if (!milestone) throw new Error(`Milestone ${amendment.milestoneId} not found in project ${params.projectId}`);
+      if (milestone.status !== 'LOCKED') throw new Error(`Milestone ${amendment.milestoneId} is ${milestone.status}`);
+      if (!(amendment.amountCedi > 0)) throw new Error(`Milestone ${amendment.milestoneId}: amount must be positive`);
+      amended.set(amendment.milestoneId, amendment.amountCedi);
+    }
+    const balance = roundCedi(escrowBalance(escrow) + delta);
+    const locked = roundCedi(escrow.milestones.reduce((sum, m) =>
+      sum + (m.status === 'LOCKED' ? amended.get(m.milestoneId) ?? m.amountCedi : 0), 0)
+      + params.milestones.reduce((sum, m) => sum + m.amountCedi, 0));
+    if (locked > balance) {
+      throw new Error(`Variation leaves ${locked} GHS of milestones against ${balance} GHS in escrow`);
+    }
+
+    const txIds: string[] = [];
+    if (delta !== 0) {
+      const [fromAccount, toAccount] = delta > 0 ? ['BOG_TREASURY', escrow.account] : [escrow.account, 'BOG_TREASURY'];
+      const lots = this.selectLots(fromAccount, Math.abs(delta));
+      txIds.push(this.createTransaction({
+        type: 'TRANSFER',
+        instrumentType: 'GBDC',
+        instrumentId: lots[0].instrumentId,
+        fromAccount,
+        toAccount,
+        amount: Math.abs(delta),
+        data: {
+          description: `Variation ${params.variationId} for project ${params.projectId}`,
+          escrow: delta > 0 ? 'TOP_UP' : 'RETURN',
+          projectId: params.projectId,
+          variationId: params.variationId,
+          ...this.describeInputs(lots),
+        },
+      }).txId);
+    }
+    if (params.milestones.length > 0 || params.amendments.length > 0) {
+      txIds.push(this.createTransaction({
+        type: 'ESCROW',
+        instrumentType: 'GBDC',
+        instrumentId: params.projectId,
+        fromAccount: params.approvedBy,
+        toAccount: escrow.account,
+        amount: 0,
+        data: {
+          projectId: params.projectId,
+          variationId: params.variationId,
+          milestones: params.milestones.map(({ milestoneId, contractorId, amountCedi, conditions }) =>
+            ({ milestoneId, contractorId, amountCedi, conditions })),
+          amendments: params.amendments.map(({ milestoneId, amountCedi }) => ({ milestoneId, amountCedi })),
+        },
+      }).txId);
+    }
+
+    this.emit('escrow:varied', { projectId: params.projectId, variationId: params.variationId, budgetDeltaCedi: delta, txIds });
+    return txIds;
+  }
+
+  /**
+   * Record a verifier's sign-off on a milestone, then release any
+   * milestones of the project whose conditions are now all met. Returns
+   * the sign-off and release transaction ids.
+   */
+  signOffMilestone(params: { projectId: string; milestoneId: string; verifierId: string }): string[] {
+    const { escrow, milestone } = this.getLockedMilestone(params.projectId, params.milestoneId);
+    if (!this.state.accounts.has(params.verifierId)) throw new Error('Invalid account');
+    const signOffs = milestone.conditions
+      .map((condition, index) => ({ condition, index }))
+      .filter(({ condition }) => condition.type === 'SIGN_OFF' && condition.verifierId === params.verifierId);
+    if (signOffs.length === 0) {
+      throw new Error(`${ERROR_CODES.FORBIDDEN}: ${params.verifierId} is not a verifier of ${params.milestoneId}`);
+    }
+    const conditions = signOffs.map(({ index }) => index).filter(index => !milestone.metConditions.includes(index));
+    if (conditions.length === 0) throw new Error(`${params.verifierId} has already signed off ${params.milestoneId}`);
+
+    const tx = this.createTransaction({
+      type: 'ESCROW',
+      instrumentType: 'GBDC',
+      instrumentId: params.projectId,
+      fromAccount: params.verifierId,
+      toAccount: escrow.account,
+      amount: 0,
+      data: { projectId: params.projectId, milestoneId: params.milestoneId, conditions, verifierId: params.verifierId },
+    });
+
+    this.emit('escrow:condition_met', {
+      projectId: params.projectId,
+      milestoneId: params.milestoneId,
+      condition: 'SIGN_OFF',
+      verifierId: params.verifierId,
+      txId: tx.txId,
+    });
+    return [tx.txId, ...this.releaseDueMilestones(params.projectId)];
+  }
+
+  /**
+   * Record an independent inspector's verification of a milestone against
+   * a hash of the evidence reviewed, then release any milestones of the
+   * project whose conditions are now all met. Inspectors hold the INSPECTOR
+   * role and may not be the milestone's contractor.
+   */
+  verifyMilestone(params: { projectId: string; milestoneId: string; inspectorId: string; evidenceHash: string }): string[] {
+    const { escrow, milestone } = this.getLockedMilestone(params.projectId, params.milestoneId);
+    if (this.state.accounts.get(params.inspectorId)?.role !== UserRole.INSPECTOR || params.inspectorId === milestone.contractorId) {
+      throw new Error(`${ERROR_CODES.FORBIDDEN}: ${params.inspectorId} is not an independent inspector of ${params.milestoneId}`);
+    }
+    if (!params.evidenceHash) throw new Error('Verification needs an evidence hash');
+    const conditions = milestone.conditions
+      .map((condition, index) => ({ condition, index }))
+      .filter(({ condition, index }) => condition.type === 'INSPECTION' && !milestone.metConditions.includes(index))
+      .map(({ index }) => index);
+    if (conditions.length === 0) throw new Error(`${params.milestoneId} is not awaiting inspection`);
+
+    const tx = this.createTransaction({
+      type: 'ESCROW',
+      instrumentType: 'GBDC',
+      instrumentId: params.projectId,
+      fromAccount: params.inspectorId,
+      toAccount: escrow.account,
+      amount: 0,
+      data: {
+        projectId: params.projectId,
+        milestoneId: params.milestoneId,
+        conditions,
+        inspectorId: params.inspectorId,
+        evidenceHash: params.evidenceHash,
+      },
+    });
+
+    this.emit('escrow:condition_met', {
+      projectId: params.projectId,
+      milestoneId: params.milestoneId,
+      condition: 'INSPECTION',
+      inspectorId: params.inspectorId,
+      txId: tx.txId,
+    });
+    return [tx.txId, ...this.releaseDueMilestones(params.projectId)];
+  }
+
+  /**
+   * Record a supply-chain or oracle event against every locked milestone
+   * waiting on it, then release the milestones it completes. Returns the
+   * transaction ids created.
+   */
+  recordEscrowEvent(params: { eventType: string; reference?: string }): string[] {
+    const txIds: string[] = [];
+    const projects = new Set<string>();
+    for (const [, escrow] of this.state.escrows) {
+      if (escrow.status !== 'ACTIVE') continue;
+      for (const milestone of escrow.milestones) {
+        if (milestone.status !== 'LOCKED') continue;
+        const conditions = matchEventConditions(milestone, params.eventType, params.reference);
+        if (conditions.length === 0) continue;
+
+        const tx = this.createTransaction({
+          type: 'ESCROW',
+          instrumentType: 'GBDC',
+          instrumentId: escrow.projectId,
+          fromAccount: escrow.account,
+          toAccount: escrow.account,
+          amount: 0,
+          data: {
+            projectId: escrow.projectId,
+            milestoneId: milestone.milestoneId,
+            conditions,
+            eventType: params.eventType,
+            ...(params.reference !== undefined ? { reference: params.reference } : {}),
+          },
+        });
+        this.emit('escrow:condition_met', {
+          projectId: escrow.projectId,
+          milestoneId: milestone.milestoneId,
+          condition: 'ORACLE_EVENT',
+          eventType: params.eventType,
+          txId: tx.txId,
+        });
+        txIds.push(tx.txId);
+        projects.add(escrow.projectId);
+      }
+    }
+    for (const projectId of projects) txIds.push(...this.releaseDueMilestones(projectId));
+    return txIds;
+  }
+
+  /**
+   * Pay a milestone's amount from escrow to its contractor. Every release
+   * condition must be met. Once the last milestone is paid, any budget
+   * left unallocated returns to Treasury.
+   */
+  releaseMilestone(params: { projectId: string; milestoneId: string }): string {
+    const { escrow, milestone } = this.getLockedMilestone(params.projectId, params.milestoneId);
+    if (!canRelease(milestone, new Date())) {
+      throw new Error(`Release conditions for ${params.milestoneId} are not met`);
+    }
+    const lots = this.selectLots(escrow.account, milestone.amountCedi);
+
+    const tx = this.createTransaction({
+      type: 'TRANSFER',
+      instrumentType: 'GBDC',
+      instrumentId: lots[0].instrumentId,
+      fromAccount: escrow.account,
+      toAccount: milestone.contractorId,
+      amount: milestone.amountCedi,
+      data: {
+        description: `Disbursement for ${params.milestoneId}`,
+        escrow: 'RELEASE',
+        projectId: params.projectId,
+        milestoneId: params.milestoneId,
+        ...this.describeInputs(lots),
+      },
+    });
+
+    this.emit('escrow:released', {
+      projectId: params.projectId,
+      milestoneId: params.milestoneId,
+      contractorId: milestone.contractorId,
+      amountCedi: milestone.amountCedi,
+      txId: tx.txId,
+    });
+
+    if (escrow.status === 'ACTIVE' && escrow.milestones.every(m => m.status === 'RELEASED')) {
+      this.refundEscrow(escrow, 'COMPLETED');
+    }
+    return tx.txId;
+  }
+
+  /**
+   * Release every locked milestone whose conditions are met, for one
+   * project or all of them. Deadline conditions are only picked up when
+   * this runs, so callers schedule it.
+   */
+  releaseDueMilestones(projectId?: string): string[] {
+    const now = new Date();
+    const escrows = projectId ? [this.state.escrows.get(projectId)].filter(e => e !== undefined) : [...this.state.escrows.values()];
+    const txIds: string[] = [];
+    for (const escrow of escrows) {
+      if (escrow.status !== 'ACTIVE') continue;
+      for (const milestone of escrow.milestones) {
+        if (canRelease(milestone, now)) {
+          txIds.push(this.releaseMilestone({ projectId: escrow.projectId, milestoneId: milestone.milestoneId }));
+        }
+      }
+    }
+    return txIds;
+  }
+
+  /**
+   * Cancel a project: everything still in escrow returns to Treasury and
+   * unpaid milestones are marked REFUNDED
+   */
+  cancelEscrow(params: { projectId: string; cancelledBy: string }): string {
+    if (this.state.accounts.get(params.cancelledBy)?.role !== UserRole.BOG_ADMIN) {
+      throw new Error(ERROR_CODES.UNAUTHORIZED + ': Only BoG can cancel project escrow');
+    }
+    const escrow = this.state.escrows.get(params.projectId);
+    if (!escrow) throw new Error(`Project ${params.projectId} has no escrow`);
+    if (escrow.status !== 'ACTIVE') throw new Error(`Escrow for ${params.projectId} is ${escrow.status}`);
+    return this.refundEscrow(escrow, 'CANCELLED');
+  }
+
+  getEscrow(projectId: string): Escrow | undefined {
+    const escrow = this.state.escrows.get(projectId);
+    return escrow ? structuredClone(escrow) : undefined;
+  }
+
+  /* Check new milestones have unique ids, positive amounts, active contractors and well-formed conditions */
+  private validateMilestoneTerms(milestones: MilestoneTerms[], existingIds: Set<string>): void {
+    const milestoneIds = new Set(existingIds);
+    for (const milestone of milestones) {
+      if (milestoneIds.has(milestone.milestoneId)) throw new Error(`Duplicate milestone ${milestone.milestoneId}`);
+      milestoneIds.add(milestone.milestoneId);
+      if (!(milestone.amountCedi > 0)) throw new Error(`Milestone ${milestone.milestoneId}: amount must be positive`);
+      const contractor = this.state.accounts.get(milestone.contractorId);
+      if (!contractor || !contractor.isActive) throw new Error(`Milestone ${milestone.milestoneId}: invalid contractor account`);
+      const problem = validateConditions(milestone.conditions);
+      if (problem) throw new Error(`Milestone ${milestone.milestoneId}: ${problem}`);
+    }
+  }
+
+  private getLockedMilestone(projectId: string, milestoneId: string): { escrow: Escrow; milestone: EscrowMilestone } {
+    const escrow = this.state.escrows.get(projectId);
+    if (!escrow) throw new Error(`Project ${projectId} has no escrow`);
+    const milestone = escrow.milestones.find(m => m.milestoneId === milestoneId);
+    if (!milestone) throw new Error(`Milestone ${milestoneId} not found in project ${projectId}`);
+    if (escrow.status !== 'ACTIVE' || milestone.status !== 'LOCKED') {
+      throw new Error(`Milestone ${milestoneId} is ${milestone.status === 'LOCKED' ? escrow.status : milestone.status}`);
+    }
+    return { escrow, milestone };
+  }
+
+  /* Return the escrow's remaining balance to Treasury and close it */
+  private refundEscrow(escrow: Escrow, outcome: 'COMPLETED' | 'CANCELLED'): string {
+    const amountCedi = roundCedi(escrowBalance(escrow));
+    const lots = this.selectLots(escrow.account, amountCedi);
+
+    const tx = this.createTransaction({
+      type: 'TRANSFER',
+      instrumentType: 'GBDC',
+      instrumentId: lots[0].instrumentId,
+      fromAccount: escrow.account,
+      toAccount: 'BOG_TREASURY',
+      amount: amountCedi,
+      data: {
+        description: `Escrow return for project ${escrow.projectId}`,
+        escrow: 'REFUND',
+        projectId: escrow.projectId,
+        outcome,
+        ...this.describeInputs(lots),
+      },
+    });
+
+    this.emit('escrow:refunded', { projectId: escrow.projectId, amountCedi, outcome, txId: tx.txId });
+    return tx.txId;
+  }
+
+  // ─── Diaspora Yield Notes ─────────────────────────────────────
+
+  /**
+   * Issue a series of yield notes. Gold-backed series name GBDC held by
+   * BoG and cocoa-backed series name outstanding CRDNs, both valued from
+   * the ledger; royalty-backed series name production reports, valued by
+   * the caller from their attested royalties. The backing must cover the
+   * issue size and may not already back another series before maturity.
+   */
+  createNoteSeries(params: {
+    seriesId: string;
+    assetType: AssetType;
+    backingIds: string[];
+    /** Attested royalties of the backing reports; MINERAL_ROYALTY series only */
+    royaltyValueCedi?: number;
+    issueSizeCedi: number;
+    couponRatePercent: number;
+    couponIntervalMonths: number;
+    maturityDate: Date;
+    issuedBy: string;
+  }): string {
+    if (this.state.accounts.get(params.issuedBy)?.role !== UserRole.BOG_ADMIN) {
+      throw new Error(ERROR_CODES.UNAUTHORIZED + ': Only BoG can issue yield notes');
+    }
+    if (this.state.noteSeries.has(params.seriesId)) throw new Error(`Yield note series ${params.seriesId} already exists`);
+    if (!(params.issueSizeCedi > 0)) throw new Error('Issue size must be positive');
+    if (!(params.couponRatePercent > 0)) throw new Error('Coupon rate must be positive');
+    if (!Number.isInteger(params.couponIntervalMonths) || params.couponIntervalMonths < 1) {
+      throw new Error('Coupon interval must be a whole number of months');
+    }
+    const now = new Date();
+    if (!(new Date(params.maturityDate).getTime() > now.getTime())) throw new Error('Maturity date must be in the future');
+    const backingValueCedi = roundCedi(this.valueBacking(params.assetType, params.backingIds, params.royaltyValueCedi, now));
+    if (backingValueCedi < roundCedi(params.issueSizeCedi)) {
+      throw new Error(`Backing worth ${backingValueCedi} GHS does not cover the ${params.issueSizeCedi} GHS issue`);
+    }
+
+    const account = noteSeriesAccountId(params.seriesId);
+    if (!this.state.accounts.has(account)) this.registerAccount(account, UserRole.BOG_ADMIN);
+
+    const tx = this.createTransaction({
+      type: 'YIELD_NOTE',
+      instrumentType: 'GBDC',
+      instrumentId: params.seriesId,
+      fromAccount: params.issuedBy,
+      toAccount: account,
+      amount: 0,
+      data: {
+        yieldNote: 'SERIES',
+        seriesId: params.seriesId,
+        assetType: params.assetType,
+        backingIds: [...params.backingIds],
+        backingValueCedi,
+        issueSizeCedi: params.issueSizeCedi,
+        couponRatePercent: params.couponRatePercent,
+        couponIntervalMonths: params.couponIntervalMonths,
+        maturityDate: new Date(params.maturityDate).toISOString(),
+      },
+    });
+
+    this.emit('yield_note:series_issued', { seriesId: params.seriesId, assetType: params.assetType, issueSizeCedi: params.issueSizeCedi, txId: tx.txId });
+    return tx.txId;
+  }
+
+  /**
+   * Subscribe a diaspora investor to a series: their GBDC moves to the
+   * series account and a note for that principal is opened in noteId
+   */
+  subscribeNote(params: { seriesId: string; noteId: string; investorId: string; amountCedi: number }): string {
+    const investor = this.state.accounts.get(params.investorId);
+    if (!investor || !investor.isActive) throw new Error('Invalid account');
+    if (investor.role !== UserRole.DIASPORA) {
+      throw new Error(ERROR_CODES.FORBIDDEN + ': Only diaspora investors can subscribe to yield notes');
+    }
+    const series = this.state.noteSeries.get(params.seriesId);
+    if (!series) throw new Error(`Yield note series ${params.seriesId} not found`);
+    if (new Date(series.maturityDate).getTime() <= Date.now()) throw new Error(`Yield note series ${params.seriesId} has matured`);
+    if (this.state.yieldNotes.has(params.noteId)) throw new Error(`Yield note ${params.noteId} already exists`);
+    if (!(params.amountCedi > 0)) throw new Error('Amount must be positive');
+    const remaining = roundCedi(series.issueSizeCedi - series.subscribedCedi);
+    if (roundCedi(params.amountCedi) > remaining) {
+      throw new Error(`Only ${remaining} GHS of series ${params.seriesId} remains`);
+    }
+    const lots = this.selectLots(params.investorId, params.amountCedi);
+
+    const tx = this.createTransaction({
+      type: 'TRANSFER',
+      instrumentType: 'GBDC',
+      instrumentId: lots[0].instrumentId,
+      fromAccount: params.investorId,
+      toAccount: series.account,
+      amount: params.amountCedi,
+      data: {
+        description: `Subscription to yield note series ${params.seriesId}`,
+        yieldNote: 'SUBSCRIBE',
+        seriesId: params.seriesId,
+        noteId: params.noteId,
+        ...this.describeInputs(lots),
+      },
+    });
+
+    this.emit('yield_note:subscribed', { ...params, txId: tx.txId });
+    return tx.txId;
+  }
+
+  /**
+   * Pay every coupon that has fallen due, for one note or all of them.
+   * Coupons are only paid when this runs, so callers schedule it. A note
+   * matures with its final coupon. Returns the transaction ids created.
+   */
+  payDueCoupons(noteId?: string): string[] {
+    const now = Date.now();
+    const notes = noteId ? [this.state.yieldNotes.get(noteId)].filter(n => n !== undefined) : [...this.state.yieldNotes.values()];
+    const txIds: string[] = [];
+    for (const note of notes) {
+      const series = this.state.noteSeries.get(note.seriesId)!;
+      for (let due = nextCouponDate(series, note); due && due.getTime() <= now && note.status === 'ACTIVE'; due = nextCouponDate(series, note)) {
+        txIds.push(this.payCoupon(note, series, due));
+      }
+    }
+    return txIds;
+  }
+
+  /**
+   * Return a matured note's principal from the series account to its
+   * investor. The investor or BoG may redeem.
+   */
+  redeemNote(params: { noteId: string; requestedBy: string }): string {
+    const note = this.state.yieldNotes.get(params.noteId);
+    if (!note) throw new Error(`Yield note ${params.noteId} not found`);
+    if (params.requestedBy !== note.investorId && this.state.accounts.get(params.requestedBy)?.role !== UserRole.BOG_ADMIN) {
+      throw new Error(ERROR_CODES.FORBIDDEN + `: ${params.requestedBy} cannot redeem ${params.noteId}`);
+    }
+    if (note.status !== 'MATURED') throw new Error(`Yield note ${params.noteId} is ${note.status}`);
+    const series = this.state.noteSeries.get(note.seriesId)!;
+    const lots = this.selectLots(series.account, note.principalCedi);
+
+    const tx = this.createTransaction({
+      type: 'TRANSFER',
+      instrumentType: 'GBDC',
+      instrumentId: lots[0].instrumentId,
+      fromAccount: series.account,
+      toAccount: note.investorId,
+      amount: note.principalCedi,
+      data: {
+        description: `Redemption of yield note ${params.noteId}`,
+        yieldNote: 'REDEEM',
+        seriesId: note.seriesId,
+        noteId: params.noteId,
+        ...this.describeInputs(lots),
+      },
+    });
+
+    this.emit('yield_note:redeemed', { noteId: params.noteId, investorId: note.investorId, amountCedi: note.principalCedi, txId: tx.txId });
+    return tx.txId;
+  }
+
+  getNoteSeries(seriesId: string): NoteSeries | undefined {
+    const series = this.state.noteSeries.get(seriesId);
+    return series ? structuredClone(series) : undefined;
+  }
+
+  getYieldNote(noteId: string): YieldNoteHolding | undefined {
+    const note = this.state.yieldNotes.get(noteId);
+    return note ? structuredClone(note) : undefined;
+  }
+
+  getYieldNotes(filter: { seriesId?: string; investorId?: string } = {}): YieldNoteHolding[] {
+    return [...this.state.yieldNotes.values()]
+      .filter(note => (!filter.seriesId || note.seriesId === filter.seriesId) && (!filter.investorId || note.investorId === filter.investorId))
+      .map(note => structuredClone(note));
+  }
+
+  /*
+   * Pay the coupon accrued since the note's last coupon up to couponDate.
+   * A coupon too small to round to a pesewa is still recorded, so the
+   * schedule moves on and the maturity coupon always matures the note.
+   */
+  private payCoupon(note: YieldNoteHolding, series: NoteSeries, couponDate: Date): string {
+    const amountCedi = roundCedi(accrueCoupon(note.principalCedi, series.couponRatePercent, note.lastCouponAt, couponDate));
+    const data = {
+      description: `Coupon on yield note ${note.noteId}`,
+      yieldNote: 'COUPON',
+      seriesId: note.seriesId,
+      noteId: note.noteId,
+      couponDate: couponDate.toISOString(),
+    };
+
+    let tx: BlockTransaction;
+    if (amountCedi > 0) {
+      const lots = this.selectLots('BOG_TREASURY', amountCedi);
+      tx = this.createTransaction({
+        type: 'TRANSFER',
+        instrumentType: 'GBDC',
+        instrumentId: lots[0].instrumentId,
+        fromAccount: 'BOG_TREASURY',
+        toAccount: note.investorId,
+        amount: amountCedi,
+        data: { ...data, ...this.describeInputs(lots) },
+      });
+    } else {
+      tx = this.createTransaction({
+        type: 'YIELD_NOTE',
+        instrumentType: 'GBDC',
+        instrumentId: note.seriesId,
+        fromAccount: 'BOG_TREASURY',
+        toAccount: note.investorId,
+        amount: 0,
+        data,
+      });
+    }
+
+    this.emit('yield_note:coupon_paid', { noteId: note.noteId, couponDate: data.couponDate, amountCedi, txId: tx.txId });
+    if (note.status === 'MATURED') this.emit('yield_note:matured', { noteId: note.noteId, investorId: note.investorId });
+    return tx.txId;
+  }
+
+  /*
+   * Value a series' backing in GHS at time at: GBDC lots held by BoG
+   * accounts, or the face value of outstanding CRDNs. Throws when an
+   * instrument is unknown or already backs a series that has not matured.
+   */
+  private valueBacking(assetType: AssetType, backingIds: string[], royaltyValueCedi: number | undefined, at: Date): number {
+    if (!Array.isArray(backingIds) || backingIds.length === 0) throw new Error('A yield note series needs backing');
+    if (new Set(backingIds).size !== backingIds.length) throw new Error('Backing is listed more than once');
+    for (const [, series] of this.state.noteSeries) {
+      const shared = series.backingIds.find(id => backingIds.includes(id));
+      if (shared && new Date(series.maturityDate).getTime() > at.getTime()) {
+        throw new Error(`${shared} already backs yield note series ${series.seriesId}`);
+      }
+    }
+
+    switch (assetType) {
+      case AssetType.GOLD:
+        return backingIds.reduce((sum, instrumentId) => {
+          if (!this.state.gbdcRegistry.has(instrumentId)) {
+            throw new Error(`${ERROR_CODES.INVALID_INSTRUMENT}: GBDC instrument ${instrumentId} not found`);
+          }
+          return sum + this.getGBDCLots({ instrumentId })
+            .filter(lot => this.state.accounts.get(lot.owner)?.role === UserRole.BOG_ADMIN)
+            .reduce((held, lot) => held + lot.amountCedi, 0);
+        }, 0);
+      case AssetType.COCOA:
+        return backingIds.reduce((sum, instrumentId) => {
+          const crdn = this.state.crdnRegistry.get(instrumentId);
+          if (!crdn) throw new Error(`${ERROR_CODES.INVALID_INSTRUMENT}: CRDN ${instrumentId} not found`);
+          const outstanding = crdn.status === CRDNStatus.ISSUED || crdn.status === CRDNStatus.HELD || crdn.status === CRDNStatus.PLEDGED;
+          return sum + (outstanding ? crdn.amountCedi : 0);
+        }, 0);
+      case AssetType.MINERAL_ROYALTY:
+        if (!(Number(royaltyValueCedi) > 0)) throw new Error('Royalty-backed series need the attested royalty value');
+        return Number(royaltyValueCedi);
+      default:
+        throw new Error(`Unknown yield note asset type ${assetType}`);
+    }
+  }
+
+  // ─── Interbank Netting ────────────────────────────────────────
+
+  /**
+   * Settle a cycle of interbank obligations on their multilateral net
+   * positions. Obligations between accounts that are not active commercial
+   * banks are rejected; of the rest, those that would leave a net debtor
+   * short are queued (see planNetSettlement). Net debtors pay into the
+   * cycle's clearing account and net creditors are paid out of it, all
+   * created together so they are sealed into the same block.
+   */
+  settleNetCycle(params: { cycleId: string; obligations: InterbankObligation[] }): NettingResult {
+    const clearing = clearingAccountId(params.cycleId);
+    if (this.state.accounts.has(clearing)) throw new Error(`Settlement cycle ${params.cycleId} has already settled`);
+
+    const isBank = (accountId: string) => {
+      const account = this.state.accounts.get(accountId);
+      return !!account && account.isActive && account.role === UserRole.COMMERCIAL_BANK;
+    };
+    const rejected = params.obligations.filter(o =>
+      !isBank(o.fromBank) || !isBank(o.toBank) || o.fromBank === o.toBank || !(roundCedi(o.amountCedi) > 0));
+    const plan = planNetSettlement(
+      params.obligations.filter(o => !rejected.includes(o)),
+      bank => this.getSpendableBalance(bank)
+    );
+
+    // Every debtor's inputs are chosen before anything is posted, so the cycle settles whole or not at all
+    const debtors = plan.positions.filter(p => p.netCedi < 0)
+      .map(position => ({ position, lots: this.selectLots(position.bank, -position.netCedi) }));
+    if (debtors.length > 0) this.registerAccount(clearing, UserRole.BOG_ADMIN);
+
+    const txIds: string[] = [];
+    for (const { position, lots } of debtors) {
+      txIds.push(this.createTransaction({
+        type: 'TRANSFER',
+        instrumentType: 'GBDC',
+        instrumentId: lots[0].instrumentId,
+        fromAccount: position.bank,
+        toAccount: clearing,
+        amount: -position.netCedi,
+        data: {
+          description: `Net debit for settlement cycle ${params.cycleId}`,
+          netting: 'PAY_IN',
+          cycleId: params.cycleId,
+          ...this.describeInputs(lots),
+        },
+      }).txId);
+    }
+    for (const position of plan.positions.filter(p => p.netCedi > 0)) {
+      const lots = this.selectLots(clearing, position.netCedi);
+      txIds.push(this.createTransaction({
+        type: 'TRANSFER',
+        instrumentType: 'GBDC',
+        instrumentId: lots[0].instrumentId,
+        fromAccount: clearing,
+        toAccount: position.bank,
+        amount: position.netCedi,
+        data: {
+          description: `Net credit for settlement cycle ${params.cycleId}`,
+          netting: 'PAY_OUT',
+          cycleId: params.cycleId,
+          ...this.describeInputs(lots),
+        },
+      }).txId);
+    }
+
+    this.emit('netting:settled', {
+      cycleId: params.cycleId,
+      settled: plan.settled.length,
+      queued: plan.queued.length,
+      rejected: rejected.length,
+      txIds,
+    });
+    return { cycleId: params.cycleId, ...plan, rejected, txIds };
+  }
+
+  // ─── eCedi Bridge ─────────────────────────────────────────────
+
+  /**
+   * First phase of a bridge transfer: lock its GBDC leg in the transfer's
+   * lock account. Only active commercial banks use the bridge, and GBDC
+   * coming back from eCedi must be covered by the float.
+   */
+  lockBridgeTransfer(params: BridgeTransfer): string {
+    const lock = bridgeLockAccountId(params.transferId);
+    if (this.state.accounts.has(lock)) throw new Error(`Bridge transfer ${params.transferId} already exists`);
+    const bank = this.state.accounts.get(params.account);
+    if (!bank || bank.role !== UserRole.COMMERCIAL_BANK) {
+      throw new Error(`${ERROR_CODES.FORBIDDEN}: Only commercial banks can bridge GBDC to eCedi`);
+    }
+    if (!bank.isActive) throw new Error('Account inactive');
+    if (!this.state.accounts.has(ECEDI_FLOAT_ACCOUNT)) this.registerAccount(ECEDI_FLOAT_ACCOUNT, UserRole.BOG_ADMIN);
+
+    const lots = this.selectLots(bridgeLegs(params, 'LOCK').from, params.amountCedi);
+    this.registerAccount(lock, UserRole.BOG_ADMIN);
+    return this.postBridgeStep(params, 'LOCK', lots);
+  }
+
+  /**
+   * Second phase once the eCedi side has prepared: the locked GBDC goes
+   * to the float, or to the bank for eCedi paid in
+   */
+  commitBridgeTransfer(params: BridgeTransfer): string {
+    return this.postBridgeStep(params, 'COMMIT', this.selectLockedLots(params));
+  }
+
+  /**
+   * Return a transfer's locked GBDC to where it came from
+   */
+  rollbackBridgeTransfer(params: BridgeTransfer & { reason: string }): string {
+    return this.postBridgeStep(params, 'ROLLBACK', this.selectLockedLots(params), { reason: params.reason });
+  }
+
+  /**
+   * GBDC locked for a bridge transfer: its amount while the transfer is
+   * between phases, 0 once committed or rolled back or if never locked
+   */
+  getBridgeLock(transferId: string): number {
+    return this.state.accounts.get(bridgeLockAccountId(transferId))?.gbdcBalance ?? 0;
+  }
+
+  /* The whole lock is committed or rolled back, and it must be what the transfer locked */
+  private selectLockedLots(params: BridgeTransfer): GBDCLot[] {
+    const locked = roundCedi(this.getBridgeLock(params.transferId));
+    if (!(locked > 0)) throw new Error(`Bridge transfer ${params.transferId} has no locked GBDC`);
+    if (locked !== roundCedi(params.amountCedi)) {
+      throw new Error(`Bridge transfer ${params.transferId} locked ${locked} GHS, not ${params.amountCedi} GHS`);
+    }
+    return this.selectLots(bridgeLockAccountId(params.transferId), params.amountCedi);
+  }
+
+  private postBridgeStep(params: BridgeTransfer, step: BridgeStep, lots: GBDCLot[], extra: Record<string, unknown> = {}): string {
+    const { from, to } = bridgeLegs(params, step);
+    const tx = this.createTransaction({
+      type: 'TRANSFER',
+      instrumentType: 'GBDC',
+      instrumentId: lots[0].instrumentId,
+      fromAccount: from,
+      toAccount: to,
+      amount: params.amountCedi,
+      data: {
+        description: `eCedi bridge ${step.toLowerCase()} for ${params.transferId}`,
+        bridge: step,
+        transferId: params.transferId,
+        direction: params.direction,
+        account: params.account,
+        ...extra,
+        ...this.describeInputs(lots),
+      },
+    });
+
+    this.emit('bridge:step', { transferId: params.transferId, direction: params.direction, step, amountCedi: params.amountCedi, txId: tx.txId });
+    return tx.txId;
+  }
+
+  // ─── Block Production ─────────────────────────────────────────
+
+  /**
+   * Seal pending transactions into a block and persist it.
+   * The block is only appended to the in-memory chain once the storage
+   * backend has committed it; on failure the transactions are returned
+   * to the pending pool. No block is sealed while balances do not
+   * reconcile with outstanding issuance.
+   */
+  async generateBlock(): Promise<LedgerBlock | null> {
+    if (this.blockInFlight) return this.blockInFlight;
+    this.blockInFlight = this.produceBlock().finally(() => {
+      this.blockInFlight = undefined;
+    });
+    return this.blockInFlight;
+  }
+
+  private async produceBlock(): Promise<LedgerBlock | null> {
+    const previousBlock = this.getLatestBlock();
+    this.assertBalanced(previousBlock.header.blockHeight + 1);
+    const transactions = this.state.pendingTransactions.splice(0, SYSTEM.MAX_TX_PER_BLOCK);
+    const block = this.buildBlock(previousBlock, transactions);
+    const { header, hash } = block;
+
+    if (!validateBlock(block, previousBlock, this.validators)) {
+      // Return transactions to pending pool
+      this.state.pendingTransactions.unshift(...transactions);
+      this.emit('block:validation_failed', { blockHeight: header.blockHeight });
+      return null;
+    }
+
+    try {
+      await this.commit(block);
+    } catch (error) {
+      this.state.pendingTransactions.unshift(...transactions);
+      this.emit('block:commit_failed', {
+        blockHeight: header.blockHeight,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    this.state.chain.push(block);
+    this.emit('block:generated', {
+      blockHeight: header.blockHeight,
+      hash,
+      txCount: transactions.length,
+    });
+    await this.maybeSnapshot();
+    return block;
+  }
+
+  // ─── Consensus Hooks ──────────────────────────────────────────
+  //
+  // Used by ConsensusNode instead of generateBlock when several
+  // validators agree on blocks. Accounts and reserve attestations come
+  // from off-chain registries and must be registered on every validator.
+
+  /**
+   * Build and sign the next block from pending transactions without
+   * committing it. The transactions stay pending until a block holding
+   * them is appended.
+   */
+  createBlockProposal(): LedgerBlock {
+    const transactions = this.state.pendingTransactions.slice(0, SYSTEM.MAX_TX_PER_BLOCK);
+    return this.buildBlock(this.getLatestBlock(), transactions);
+  }
+
+  /**
+   * Check that a proposed block extends this node's chain, is signed by an
+   * authorised validator, and only references accounts and instruments
+   * this node knows about
+   */
+  verifyBlockProposal(block: LedgerBlock): boolean {
+    if (!validateBlock(block, this.getLatestBlock(), this.validators)) return false;
+    const pending = new Set(this.state.pendingTransactions.map(tx => tx.txId));
+    return this.dryRun(block.transactions.filter(tx => !pending.has(tx.txId)));
+  }
+
+  /**
+   * Append a block agreed by consensus. Transactions this node originated
+   * are already reflected in its state and simply leave the pending pool;
+   * all others are applied.
+   */
+  async appendBlock(block: LedgerBlock): Promise<void> {
+    if (!this.verifyBlockProposal(block)) {
+      throw new Error(`${ERROR_CODES.BLOCK_VALIDATION_FAILED}: Block ${block.header.blockHeight} rejected`);
+    }
+
+    await this.commit(block);
+
+    const pending = new Set(this.state.pendingTransactions.map(tx => tx.txId));
+    const included = new Set(block.transactions.map(tx => tx.txId));
+    for (const tx of block.transactions) {
+      if (!pending.has(tx.txId)) this.applyTransaction(tx);
+    }
+    this.state.pendingTransactions = this.state.pendingTransactions.filter(tx => !included.has(tx.txId));
+    this.assertBalanced(block.header.blockHeight);
+    this.state.chain.push(block);
+
+    this.emit('block:appended', {
+      blockHeight: block.header.blockHeight,
+      hash: block.hash,
+      validatorId: block.header.validatorId,
+      txCount: block.transactions.length,
+    });
+    await this.maybeSnapshot();
+  }
+
+  // ─── Snapshots & Pruning ──────────────────────────────────────
+
+  /**
+   * Sign and persist a snapshot of state at the current tip, then drop
+   * blocks it covers from memory, keeping the most recent ones. Only
+   * possible when nothing is pending, so the state matches the chain.
+   */
+  async takeSnapshot(): Promise<LedgerSnapshot> {
+    if (this.hasPendingWork()) {
+      throw new Error('Cannot snapshot while transactions or registrations are pending');
+    }
+    const tip = this.getLatestBlock();
+    const snapshot = createSnapshot(this.snapshotState(), tip, this.validatorId, this.signingKey.privateKey);
+    await this.storage.saveSnapshot(snapshot);
+
+    this.lastSnapshotHeight = snapshot.blockHeight;
+    this.pruneBlocks(snapshot.blockHeight + 1 - this.retainedBlocks);
+    this.emit('snapshot:created', { blockHeight: snapshot.blockHeight, stateRoot: snapshot.stateRoot });
+    return snapshot;
+  }
+
+  /**
+   * Drop in-memory blocks below a height; they stay in storage and can be
+   * read back with fetchBlock. The tip is always kept.
+   */
+  pruneBlocks(beforeHeight: number): number {
+    const count = Math.min(beforeHeight - this.state.chainBase, this.state.chain.length - 1);
+    if (count <= 0) return 0;
+    this.state.chain.splice(0, count);
+    this.state.chainBase += count;
+    this.emit('chain:pruned', { beforeHeight: this.state.chainBase, prunedCount: count });
+    return count;
+  }
+
+  /**
+   * Get a block from memory, or from storage if it has been pruned
+   */
+  async fetchBlock(height: number): Promise<LedgerBlock | undefined> {
+    const block = this.getBlock(height);
+    if (block || height < 0 || height > this.getChainHeight()) return block;
+    const [stored] = await this.storage.loadBlocks(height, height);
+    return stored;
+  }
+
+  private async maybeSnapshot(): Promise<void> {
+    if (this.snapshotInterval <= 0 || this.hasPendingWork()) return;
+    if (this.getChainHeight() - this.lastSnapshotHeight < this.snapshotInterval) return;
+    try {
+      await this.takeSnapshot();
+    } catch (error) {
+      // The chain is unaffected; the next eligible block tries again
+      this.emit('snapshot:failed', {
+        blockHeight: this.getChainHeight(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private snapshotState(): SnapshotState {
+    return {
+      accounts: [...this.state.accounts.values()],
+      gbdcRegistry: [...this.state.gbdcRegistry.values()],
+      crdnRegistry: [...this.state.crdnRegistry.values()],
+      lots: [...this.state.lots.values()],
+      reversals: [...this.state.reversals].map(([originalTxId, reversalTxId]) => ({ originalTxId, reversalTxId })),
+      pledges: [...this.state.pledges.values()],
+      creditLines: [...this.state.creditLines.values()],
+      escrows: [...this.state.escrows.values()],
+      noteSeries: [...this.state.noteSeries.values()],
+      yieldNotes: [...this.state.yieldNotes.values()],
+      goldReserveGrams: this.state.goldReserveGrams,
+      cocoaReserveKg: this.state.cocoaReserveKg,
+    };
+  }
+
+  // ─── Query Methods ────────────────────────────────────────────
+
+  getChainHeight(): number {
+    return this.state.chainBase + this.state.chain.length - 1;
+  }
+
+  /**
+   * Get a block held in memory; pruned blocks need fetchBlock
+   */
+  getBlock(height: number): LedgerBlock | undefined {
+    return height >= this.state.chainBase ? this.state.chain[height - this.state.chainBase] : undefined;
+  }
+
+  getLatestBlock(): LedgerBlock {
+    return this.state.chain[this.state.chain.length - 1];
+  }
+
+  /**
+   * Inclusion proof for a committed transaction, checkable against the
+   * block header's Merkle root with verifyMerkleProof. Pruned blocks are
+   * loaded from storage.
+   */
+  async getMerkleProof(blockHeight: number, txId: string): Promise<MerkleProof | undefined> {
+    const block = await this.fetchBlock(blockHeight);
+    return block ? buildMerkleProof(block, txId) : undefined;
+  }
+
+  getAccountBalance(accountId: string): AccountBalance | undefined {
+    return this.state.accounts.get(accountId);
+  }
+
+  /**
+   * GBDC an account can pay with now: its balance less lots of instruments
+   * pledged as collateral
+   */
+  getSpendableBalance(accountId: string): number {
+    return roundCedi([...this.state.lots.values()]
+      .filter(lot => lot.owner === accountId && this.state.gbdcRegistry.get(lot.instrumentId)?.status !== GBDCStatus.LOCKED)
+      .reduce((sum, lot) => sum + lot.amountCedi, 0));
+  }
+
+  getGBDCRecord(instrumentId: string): GBDCRecord | undefined {
+    return this.state.gbdcRegistry.get(instrumentId);
+  }
+
+  getCRDNRecord(instrumentId: string): CRDNRecord | undefined {
+    return this.state.crdnRegistry.get(instrumentId);
+  }
+
+  /**
+   * Unspent GBDC lots, oldest first, optionally for one owner or instrument
+   */
+  getGBDCLots(filter: { owner?: string; instrumentId?: string } = {}): GBDCLot[] {
+    const lots: GBDCLot[] = [];
+    for (const [, lot] of this.state.lots) {
+      if (filter.owner && lot.owner !== filter.owner) continue;
+      if (filter.instrumentId && lot.instrumentId !== filter.instrumentId) continue;
+      lots.push({ ...lot });
+    }
+    return lots;
+  }
+
+  getTotalGBDCOutstanding(): number {
+    let total = 0;
+    for (const [, gbdc] of this.state.gbdcRegistry) {
+      if (gbdc.status === GBDCStatus.MINTED || gbdc.status === GBDCStatus.CIRCULATING || gbdc.status === GBDCStatus.LOCKED) {
+        total += gbdc.amountCedi - gbdc.redeemedCedi;
+      }
+    }
+    return total;
+  }
+
+  getTotalCRDNOutstanding(): number {
+    let total = 0;
+    for (const [, crdn] of this.state.crdnRegistry) {
+      if (
+        crdn.status === CRDNStatus.ISSUED
+        || crdn.status === CRDNStatus.HELD
+        || crdn.status === CRDNStatus.CONVERTING
+        || crdn.status === CRDNStatus.PLEDGED
+      ) {
+        total += crdn.amountCedi;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Value of expired CRDNs held in the settlement pool
+   */
+  getCRDNSettlementPool(): number {
+    let total = 0;
+    for (const [, crdn] of this.state.crdnRegistry) {
+      if (crdn.status === CRDNStatus.EXPIRED) total += crdn.amountCedi;
     }
     return total;
   }
 
+  /**
+   * Reconcile account balances against issuance: GBDC balances must equal
+   * minted minus redeemed and the sum of unspent lots, and CRDN balances
+   * must equal notes issued but not yet converted, plus expired notes
+   * held in the settlement pool.
+   */
+  checkBalances(): BalanceCheck {
+    let gbdcBalances = 0;
+    let crdnBalances = 0;
+    for (const [, account] of this.state.accounts) {
+      gbdcBalances += account.gbdcBalance;
+      crdnBalances += account.crdnBalance;
+    }
+    let gbdcLots = 0;
+    for (const [, lot] of this.state.lots) gbdcLots += lot.amountCedi;
+
+    const gbdcOutstanding = this.getTotalGBDCOutstanding();
+    const crdnOutstanding = this.getTotalCRDNOutstanding() + this.getCRDNSettlementPool();
+    const balanced = Math.abs(gbdcBalances - gbdcOutstanding) < BALANCE_TOLERANCE_CEDI
+      && Math.abs(gbdcLots - gbdcOutstanding) < BALANCE_TOLERANCE_CEDI
+      && Math.abs(crdnBalances - crdnOutstanding) < BALANCE_TOLERANCE_CEDI;
+
+    return { gbdcBalances, gbdcOutstanding, gbdcLots, crdnBalances, crdnOutstanding, balanced };
+  }
+
   getReserveSummary() {
     const totalGBDC = this.getTotalGBDCOutstanding();
     const totalCRDN = this.getTotalCRDNOutstanding();
@@ -513,6 +2462,7 @@ export class LedgerEngine extends EventEmitter {
       cocoaReserveKg: this.state.cocoaReserveKg,
       totalGBDCOutstanding: totalGBDC,
       totalCRDNOutstanding: totalCRDN,
+      crdnSettlementPool: this.getCRDNSettlementPool(),
       chainHeight: this.getChainHeight(),
       pendingTransactions: this.state.pendingTransactions.length,
       accountCount: this.state.accounts.size,
@@ -525,8 +2475,9 @@ export class LedgerEngine extends EventEmitter {
   private getTotalGBDCBackingGrams(): number {
     let total = 0;
     for (const [, gbdc] of this.state.gbdcRegistry) {
-      if (gbdc.status !== GBDCStatus.BURNED && gbdc.status !== GBDCStatus.REDEEMED) {
-        total += gbdc.goldBackingGrams;
+      if (gbdc.status !== GBDCStatus.BURNED) {
+        // Burned portions release their share of the backing
+        total += gbdc.goldBackingGrams * (gbdc.amountCedi - gbdc.burnedCedi) / gbdc.amountCedi;
       }
     }
     return total;
@@ -552,18 +2503,521 @@ export class LedgerEngine extends EventEmitter {
       amount: params.amount,
       timestamp: new Date(),
       data: params.data,
-      signature: this.signTransaction(txId),
+      signature: '',
     };
+    tx.signature = signTransaction(tx, this.signingKey.privateKey);
 
+    this.applyTransaction(tx);
     this.state.pendingTransactions.push(tx);
     this.emit('transaction:created', { txId, type: params.type });
     return tx;
   }
 
-  private generateBlock(): void {
-    const previousBlock = this.getLatestBlock();
-    const transactions = this.state.pendingTransactions.splice(0, SYSTEM.MAX_TX_PER_BLOCK);
+  /**
+   * Apply a transaction's effects to balances and instrument registries.
+   * Shared by live operations and chain replay, so both always produce
+   * identical state. Validation happens before this point.
+   */
+  private applyTransaction(tx: BlockTransaction): void {
+    switch (tx.type) {
+      case 'MINT':
+        if (tx.instrumentType === 'GBDC') {
+          this.state.gbdcRegistry.set(tx.instrumentId, {
+            instrumentId: tx.instrumentId,
+            amountCedi: tx.amount,
+            goldBackingGrams: tx.data.goldBackingGrams as number,
+            holder: tx.toAccount,
+            status: GBDCStatus.MINTED,
+            mintedAt: tx.timestamp,
+            issuanceId: tx.data.issuanceId as string,
+            redeemedCedi: 0,
+            burnedCedi: 0,
+          });
+          this.createLot(`${tx.txId}:0`, tx.instrumentId, tx.toAccount, tx.amount);
+          this.state.accounts.get(tx.toAccount)!.gbdcBalance += tx.amount;
+        } else {
+          this.state.crdnRegistry.set(tx.instrumentId, {
+            instrumentId: tx.instrumentId,
+            amountCedi: tx.amount,
+            cocoaWeightKg: tx.data.cocoaWeightKg as number,
+            holder: tx.toAccount,
+            status: CRDNStatus.ISSUED,
+            issuedAt: tx.timestamp,
+            farmerId: tx.toAccount,
+            lbcId: tx.data.lbcId as string,
+            seasonYear: tx.data.seasonYear as string,
+            // Notes issued before deadlines were recorded get the default period
+            expiresAt: tx.data.expiresAt
+              ? new Date(tx.data.expiresAt as string)
+              : new Date(new Date(tx.timestamp).getTime() + FINANCIAL.CRDN_VALIDITY_DAYS * DAY_MS),
+          });
+          this.state.accounts.get(tx.toAccount)!.crdnBalance += tx.amount;
+        }
+        break;
+
+      case 'TRANSFER': {
+        if (tx.instrumentType === 'CRDN') {
+          this.applyCRDNTransfer(tx);
+          break;
+        }
+        const instrumentIds = this.spendLots(tx, tx.toAccount);
+        if (typeof tx.data.reversalOf === 'string') this.state.reversals.set(tx.data.reversalOf, tx.txId);
+        if (tx.data.facility) this.applyFacilityMovement(tx);
+        if (tx.data.escrow) this.applyEscrowMovement(tx);
+        if (tx.data.yieldNote) this.applyYieldNote(tx);
+        this.state.accounts.get(tx.fromAccount)!.gbdcBalance -= tx.amount;
+        this.state.accounts.get(tx.toAccount)!.gbdcBalance += tx.amount;
+        for (const instrumentId of instrumentIds) {
+          const gbdc = this.state.gbdcRegistry.get(instrumentId)!;
+          gbdc.status = GBDCStatus.CIRCULATING;
+          this.refreshHolder(gbdc);
+        }
+        break;
+      }
+
+      case 'REDEEM': {
+        this.spendLots(tx, null);
+        this.state.accounts.get(tx.fromAccount)!.gbdcBalance -= tx.amount;
+        const gbdc = this.state.gbdcRegistry.get(tx.instrumentId)!;
+        gbdc.redeemedCedi = roundCedi(gbdc.redeemedCedi + tx.amount);
+        if (gbdc.amountCedi - gbdc.redeemedCedi < BALANCE_TOLERANCE_CEDI) {
+          gbdc.status = GBDCStatus.REDEEMED;
+          gbdc.holder = 'BOG_TREASURY';
+        } else {
+          this.refreshHolder(gbdc);
+        }
+        break;
+      }
+
+      case 'BURN': {
+        const gbdc = this.state.gbdcRegistry.get(tx.instrumentId)!;
+        gbdc.burnedCedi = roundCedi(gbdc.burnedCedi + tx.amount);
+        if (gbdc.amountCedi - gbdc.burnedCedi < BALANCE_TOLERANCE_CEDI) {
+          gbdc.status = GBDCStatus.BURNED;
+        }
+        break;
+      }
+
+      case 'CONVERT': {
+        const crdn = this.state.crdnRegistry.get(tx.instrumentId)!;
+        if (tx.data.phase === 'INITIATED') {
+          // The value stays with the holder until the payout is confirmed
+          crdn.status = CRDNStatus.CONVERTING;
+          crdn.payoutAccount = tx.toAccount;
+          break;
+        }
+        delete crdn.payoutAccount;
+        if (tx.data.phase === 'FAILED') {
+          crdn.status = CRDNStatus.HELD;
+          break;
+        }
+        const farmer = this.state.accounts.get(tx.fromAccount)!;
+        farmer.crdnBalance -= crdn.amountCedi;
+        crdn.status = CRDNStatus.CONVERTED;
+        if (tx.data.targetInstrument === 'GBDC') {
+          // Issued as its own cocoa-backed instrument so GBDC balances stay reconciled with issuance
+          const instrumentId = convertedInstrumentId(tx.instrumentId);
+          this.state.gbdcRegistry.set(instrumentId, {
+            instrumentId,
+            amountCedi: crdn.amountCedi,
+            goldBackingGrams: 0,
+            holder: tx.fromAccount,
+            status: GBDCStatus.MINTED,
+            mintedAt: tx.timestamp,
+            issuanceId: tx.instrumentId,
+            redeemedCedi: 0,
+            burnedCedi: 0,
+          });
+          this.createLot(`${tx.txId}:0`, instrumentId, tx.fromAccount, crdn.amountCedi);
+          farmer.gbdcBalance += crdn.amountCedi;
+        }
+        break;
+      }
+
+      case 'EXPIRE': {
+        const crdn = this.state.crdnRegistry.get(tx.instrumentId)!;
+        this.state.accounts.get(tx.fromAccount)!.crdnBalance -= tx.amount;
+        this.state.accounts.get(tx.toAccount)!.crdnBalance += tx.amount;
+        crdn.status = CRDNStatus.EXPIRED;
+        crdn.holder = tx.toAccount;
+        break;
+      }
+
+      case 'PLEDGE': {
+        const gbdc = tx.instrumentType === 'GBDC' ? this.state.gbdcRegistry.get(tx.instrumentId)! : undefined;
+        const crdn = tx.instrumentType === 'CRDN' ? this.state.crdnRegistry.get(tx.instrumentId)! : undefined;
+        this.state.pledges.set(tx.instrumentId, {
+          instrumentId: tx.instrumentId,
+          instrumentType: tx.instrumentType,
+          bank: tx.fromAccount,
+          faceValueCedi: tx.amount,
+          haircutPercent: tx.data.haircutPercent as number,
+          qualityGrade: tx.data.qualityGrade as string | undefined,
+          priorStatus: (gbdc ?? crdn)!.status,
+          pledgedAt: new Date(tx.timestamp),
+        });
+        if (gbdc) gbdc.status = GBDCStatus.LOCKED;
+        if (crdn) crdn.status = CRDNStatus.PLEDGED;
+        break;
+      }
+
+      case 'RELEASE': {
+        const pledge = this.state.pledges.get(tx.instrumentId)!;
+        if (tx.instrumentType === 'GBDC') {
+          this.state.gbdcRegistry.get(tx.instrumentId)!.status = pledge.priorStatus as GBDCStatus;
+        } else {
+          this.state.crdnRegistry.get(tx.instrumentId)!.status = pledge.priorStatus as CRDNStatus;
+        }
+        this.state.pledges.delete(tx.instrumentId);
+        break;
+      }
+
+      case 'ESCROW': {
+        const escrow = this.state.escrows.get(tx.data.projectId as string)!;
+        if (tx.data.variationId) {
+          for (const amendment of tx.data.amendments as MilestoneAmendment[]) {
+            escrow.milestones.find(m => m.milestoneId === amendment.milestoneId)!.amountCedi = amendment.amountCedi;
+          }
+          for (const terms of tx.data.milestones as MilestoneTerms[]) {
+            escrow.milestones.push({ ...structuredClone(terms), metConditions: [], status: 'LOCKED' });
+          }
+          this.noteVariation(escrow, tx.data.variationId as string);
+          break;
+        }
+        const milestone = escrow.milestones.find(m => m.milestoneId === tx.data.milestoneId)!;
+        milestone.metConditions.push(...(tx.data.conditions as number[]));
+        break;
+      }
+
+      case 'YIELD_NOTE':
+        this.applyYieldNote(tx);
+        break;
+    }
+  }
+
+  /* Open, pay out of, or close a project escrow */
+  private applyEscrowMovement(tx: BlockTransaction): void {
+    const projectId = tx.data.projectId as string;
+    if (tx.data.escrow === 'FUND') {
+      this.state.escrows.set(projectId, {
+        projectId,
+        account: tx.toAccount,
+        fundedCedi: tx.amount,
+        releasedCedi: 0,
+        refundedCedi: 0,
+        status: 'ACTIVE',
+        milestones: (tx.data.milestones as MilestoneTerms[]).map(terms => ({
+          ...structuredClone(terms),
+          metConditions: [],
+          status: 'LOCKED',
+        })),
+        variationIds: [],
+        fundedAt: new Date(tx.timestamp),
+      });
+      return;
+    }
+
+    const escrow = this.state.escrows.get(projectId)!;
+    if (tx.data.escrow === 'RELEASE') {
+      const milestone = escrow.milestones.find(m => m.milestoneId === tx.data.milestoneId)!;
+      milestone.status = 'RELEASED';
+      milestone.releaseTxId = tx.txId;
+      escrow.releasedCedi = roundCedi(escrow.releasedCedi + tx.amount);
+      if (escrow.milestones.every(m => m.status === 'RELEASED') && escrowBalance(escrow) < BALANCE_TOLERANCE_CEDI) {
+        escrow.status = 'COMPLETED';
+      }
+      return;
+    }
+    if (tx.data.escrow === 'TOP_UP' || tx.data.escrow === 'RETURN') {
+      if (tx.data.escrow === 'TOP_UP') escrow.fundedCedi = roundCedi(escrow.fundedCedi + tx.amount);
+      else escrow.refundedCedi = roundCedi(escrow.refundedCedi + tx.amount);
+      this.noteVariation(escrow, tx.data.variationId as string);
+      return;
+    }
+
+    escrow.refundedCedi = roundCedi(escrow.refundedCedi + tx.amount);
+    escrow.status = tx.data.outcome as Escrow['status'];
+    for (const milestone of escrow.milestones) {
+      if (milestone.status === 'LOCKED') milestone.status = 'REFUNDED';
+    }
+  }
+
+  /* A variation order may post both a budget movement and new terms; note it once */
+  private noteVariation(escrow: Escrow, variationId: string): void {
+    if (!escrow.variationIds.includes(variationId)) escrow.variationIds.push(variationId);
+  }
+
+  /* Open a series or a note, record a coupon, or close a redeemed note */
+  private applyYieldNote(tx: BlockTransaction): void {
+    const seriesId = tx.data.seriesId as string;
+    if (tx.data.yieldNote === 'SERIES') {
+      this.state.noteSeries.set(seriesId, {
+        seriesId,
+        assetType: tx.data.assetType as AssetType,
+        backingIds: [...(tx.data.backingIds as string[])],
+        backingValueCedi: tx.data.backingValueCedi as number,
+        issueSizeCedi: tx.data.issueSizeCedi as number,
+        subscribedCedi: 0,
+        couponRatePercent: tx.data.couponRatePercent as number,
+        couponIntervalMonths: tx.data.couponIntervalMonths as number,
+        account: tx.toAccount,
+        issuedAt: new Date(tx.timestamp),
+        maturityDate: new Date(tx.data.maturityDate as string),
+      });
+      return;
+    }
+
+    const series = this.state.noteSeries.get(seriesId)!;
+    const noteId = tx.data.noteId as string;
+    if (tx.data.yieldNote === 'SUBSCRIBE') {
+      series.subscribedCedi = roundCedi(series.subscribedCedi + tx.amount);
+      this.state.yieldNotes.set(noteId, {
+        noteId,
+        seriesId,
+        investorId: tx.fromAccount,
+        principalCedi: tx.amount,
+        couponsPaidCedi: 0,
+        lastCouponAt: new Date(tx.timestamp),
+        status: 'ACTIVE',
+        subscribedAt: new Date(tx.timestamp),
+      });
+      return;
+    }
+
+    const note = this.state.yieldNotes.get(noteId)!;
+    if (tx.data.yieldNote === 'COUPON') {
+      note.couponsPaidCedi = roundCedi(note.couponsPaidCedi + tx.amount);
+      note.lastCouponAt = new Date(tx.data.couponDate as string);
+      if (note.lastCouponAt.getTime() >= new Date(series.maturityDate).getTime()) note.status = 'MATURED';
+      return;
+    }
+    note.status = 'REDEEMED';
+    note.redemptionTxId = tx.txId;
+  }
+
+  /* Accrue interest to the transaction's time, then add a draw or apply a repayment interest-first */
+  private applyFacilityMovement(tx: BlockTransaction): void {
+    const movement = tx.data.facility as FacilityMovement;
+    const bank = movement === 'DRAW' ? tx.toAccount : tx.fromAccount;
+    const at = new Date(tx.timestamp);
+    let line = this.state.creditLines.get(bank);
+    if (!line) {
+      line = { bank, principalCedi: 0, accruedInterestCedi: 0, interestRatePercent: this.lendingRatePercent, lastAccrualAt: at };
+      this.state.creditLines.set(bank, line);
+    }
+    accrueInterest(line, at);
+
+    if (movement === 'DRAW') {
+      line.principalCedi = roundCedi(line.principalCedi + tx.amount);
+      line.interestRatePercent = tx.data.interestRatePercent as number;
+      return;
+    }
+    const interestPaid = Math.min(tx.amount, line.accruedInterestCedi);
+    line.accruedInterestCedi -= interestPaid;
+    line.principalCedi = Math.max(roundCedi(line.principalCedi - (tx.amount - interestPaid)), 0);
+  }
+
+  /* Move a whole note to the recipient, or split amount off into a new note */
+  private applyCRDNTransfer(tx: BlockTransaction): void {
+    const crdn = this.state.crdnRegistry.get(tx.instrumentId)!;
+    this.state.accounts.get(tx.fromAccount)!.crdnBalance -= tx.amount;
+    this.state.accounts.get(tx.toAccount)!.crdnBalance += tx.amount;
+
+    const splitInstrumentId = tx.data.splitInstrumentId as string | undefined;
+    if (!splitInstrumentId) {
+      crdn.holder = tx.toAccount;
+      crdn.status = CRDNStatus.HELD;
+      return;
+    }
+    const weightKg = crdn.cocoaWeightKg * tx.amount / crdn.amountCedi;
+    this.state.crdnRegistry.set(splitInstrumentId, {
+      ...crdn,
+      instrumentId: splitInstrumentId,
+      amountCedi: tx.amount,
+      cocoaWeightKg: weightKg,
+      holder: tx.toAccount,
+      status: CRDNStatus.HELD,
+      parentInstrumentId: crdn.instrumentId,
+    });
+    crdn.amountCedi = roundCedi(crdn.amountCedi - tx.amount);
+    crdn.cocoaWeightKg -= weightKg;
+  }
+
+  /**
+   * Pick the owner's lots, oldest first, until they cover amount. Lots
+   * created by preferTxId, if given, are spent before any others.
+   */
+  private selectLots(owner: string, amount: number, instrumentId?: string, preferTxId?: string): GBDCLot[] {
+    if (!(amount > 0)) throw new Error('Amount must be positive');
+    if (instrumentId && !this.state.gbdcRegistry.has(instrumentId)) {
+      throw new Error(`${ERROR_CODES.INVALID_INSTRUMENT}: GBDC instrument ${instrumentId} not found`);
+    }
+
+    // Lots of instruments pledged as collateral cannot be spent
+    const owned = [...this.state.lots.values()]
+      .filter(lot => lot.owner === owner && (!instrumentId || lot.instrumentId === instrumentId))
+      .filter(lot => this.state.gbdcRegistry.get(lot.instrumentId)?.status !== GBDCStatus.LOCKED);
+    if (preferTxId) {
+      const preferred = (lot: GBDCLot) => (lot.lotId.startsWith(`${preferTxId}:`) ? 0 : 1);
+      owned.sort((a, b) => preferred(a) - preferred(b));
+    }
+
+    const selected: GBDCLot[] = [];
+    let total = 0;
+    for (const lot of owned) {
+      if (roundCedi(total) >= roundCedi(amount)) break;
+      selected.push(lot);
+      total += lot.amountCedi;
+    }
+    if (roundCedi(total) < roundCedi(amount)) {
+      throw new Error(`${ERROR_CODES.INSUFFICIENT_BALANCE}: ${owner} holds ${roundCedi(total)} GHS of ${instrumentId ?? 'GBDC'}`);
+    }
+    return selected;
+  }
+
+  /* Input lots are recorded in the signed transaction so every replica spends the same ones */
+  private describeInputs(lots: GBDCLot[]): { lots: string[]; instruments: string[] } {
+    return {
+      lots: lots.map(lot => lot.lotId),
+      instruments: [...new Set(lots.map(lot => lot.instrumentId))],
+    };
+  }
+
+  /**
+   * Consume a transaction's input lots. The amount goes to recipient (or
+   * is destroyed when null) and the remainder of each instrument returns
+   * to the sender; output lot ids derive from the txId so replay
+   * recreates them exactly. Returns the instruments touched.
+   */
+  private spendLots(tx: BlockTransaction, recipient: string | null): string[] {
+    const inputs = (tx.data.lots as string[]).map(lotId => {
+      const lot = this.state.lots.get(lotId);
+      if (!lot || lot.owner !== tx.fromAccount) {
+        throw new Error(`${ERROR_CODES.DOUBLE_SPEND}: Lot ${lotId} is not held by ${tx.fromAccount}`);
+      }
+      if (this.state.gbdcRegistry.get(lot.instrumentId)?.status === GBDCStatus.LOCKED) {
+        throw new Error(`${ERROR_CODES.DOUBLE_SPEND}: Lot ${lotId} is pledged as collateral`);
+      }
+      return lot;
+    });
+
+    const sent = new Map<string, number>();
+    const change = new Map<string, number>();
+    let remaining = tx.amount;
+    for (const lot of inputs) {
+      this.state.lots.delete(lot.lotId);
+      const taken = Math.min(lot.amountCedi, remaining);
+      remaining = roundCedi(remaining - taken);
+      sent.set(lot.instrumentId, (sent.get(lot.instrumentId) ?? 0) + taken);
+      change.set(lot.instrumentId, (change.get(lot.instrumentId) ?? 0) + lot.amountCedi - taken);
+    }
+
+    let output = 0;
+    for (const [instrumentId, amount] of sent) {
+      if (recipient) this.createLot(`${tx.txId}:${output++}`, instrumentId, recipient, amount);
+      const rest = roundCedi(change.get(instrumentId)!);
+      if (rest > 0) this.createLot(`${tx.txId}:${output++}`, instrumentId, tx.fromAccount, rest);
+    }
+    return [...sent.keys()];
+  }
+
+  private createLot(lotId: string, instrumentId: string, owner: string, amountCedi: number): void {
+    this.state.lots.set(lotId, { lotId, instrumentId, owner, amountCedi: roundCedi(amountCedi) });
+  }
+
+  /* The holder moves only once a single account owns every outstanding lot */
+  private refreshHolder(gbdc: GBDCRecord): void {
+    const owners = new Set<string>();
+    for (const [, lot] of this.state.lots) {
+      if (lot.instrumentId === gbdc.instrumentId) owners.add(lot.owner);
+    }
+    if (owners.size === 1) gbdc.holder = [...owners][0];
+  }
+
+  private assertBalanced(blockHeight: number): void {
+    const check = this.checkBalances();
+    if (check.balanced) return;
+    this.emit('ledger:imbalance', { blockHeight, ...check });
+    throw new Error(`${ERROR_CODES.BALANCE_INVARIANT_VIOLATED}: Balances do not reconcile with issuance at block ${blockHeight}`);
+  }
+
+  private applyAccount(account: StoredAccount): void {
+    this.state.accounts.set(account.accountId, {
+      accountId: account.accountId,
+      gbdcBalance: 0,
+      crdnBalance: 0,
+      role: account.role,
+      isActive: account.isActive,
+    });
+  }
+
+  private applyReserve(entry: ReserveEntry): void {
+    if (entry.assetType === 'GOLD') {
+      this.state.goldReserveGrams += entry.quantity;
+    } else {
+      this.state.cocoaReserveKg += entry.quantity;
+    }
+  }
 
+  /**
+   * Rebuild engine state from a stored ledger: load the snapshot if there
+   * is one, then replay every block after it
+   */
+  private restore(stored: StoredLedger): void {
+    let blocks = stored.blocks;
+    let previous: LedgerBlock | undefined;
+    if (stored.snapshot) {
+      previous = this.restoreSnapshot(stored.snapshot, blocks[0]);
+      blocks = blocks.slice(1);
+    }
+
+    // Accounts and reserves recorded after the snapshot, or all of them without one
+    for (const account of stored.accounts) {
+      if (!this.state.accounts.has(account.accountId)) this.applyAccount(account);
+    }
+    for (const entry of stored.reserves) this.applyReserve(entry);
+
+    for (const block of blocks) {
+      if (!validateBlock(block, previous, this.validators)) {
+        throw new Error(`${ERROR_CODES.BLOCK_VALIDATION_FAILED}: Stored block ${block.header.blockHeight} failed validation`);
+      }
+      for (const tx of block.transactions) this.applyTransaction(tx);
+      this.assertBalanced(block.header.blockHeight);
+      this.state.chain.push(block);
+      previous = block;
+    }
+  }
+
+  /* Load snapshot state and make its block the base of the chain */
+  private restoreSnapshot(snapshot: LedgerSnapshot, block: LedgerBlock | undefined): LedgerBlock {
+    if (!verifySnapshot(snapshot, this.validators)) {
+      throw new Error(`${ERROR_CODES.BLOCK_VALIDATION_FAILED}: Snapshot at height ${snapshot.blockHeight} failed verification`);
+    }
+    if (!block || block.hash !== snapshot.blockHash || !validateBlock(block, undefined, this.validators)) {
+      throw new Error(`${ERROR_CODES.BLOCK_VALIDATION_FAILED}: Snapshot block ${snapshot.blockHeight} is missing or invalid`);
+    }
+
+    for (const account of snapshot.accounts) this.state.accounts.set(account.accountId, { ...account });
+    for (const gbdc of snapshot.gbdcRegistry) this.state.gbdcRegistry.set(gbdc.instrumentId, { ...gbdc });
+    for (const crdn of snapshot.crdnRegistry) this.state.crdnRegistry.set(crdn.instrumentId, { ...crdn });
+    for (const lot of snapshot.lots) this.state.lots.set(lot.lotId, { ...lot });
+    for (const reversal of snapshot.reversals) this.state.reversals.set(reversal.originalTxId, reversal.reversalTxId);
+    for (const pledge of snapshot.pledges) this.state.pledges.set(pledge.instrumentId, { ...pledge });
+    for (const line of snapshot.creditLines) this.state.creditLines.set(line.bank, { ...line });
+    for (const escrow of snapshot.escrows) this.state.escrows.set(escrow.projectId, structuredClone(escrow));
+    for (const series of snapshot.noteSeries) this.state.noteSeries.set(series.seriesId, { ...series, backingIds: [...series.backingIds] });
+    for (const note of snapshot.yieldNotes) this.state.yieldNotes.set(note.noteId, { ...note });
+    this.state.goldReserveGrams = snapshot.goldReserveGrams;
+    this.state.cocoaReserveKg = snapshot.cocoaReserveKg;
+    this.assertBalanced(snapshot.blockHeight);
+
+    this.state.chain.push(block);
+    this.state.chainBase = snapshot.blockHeight;
+    this.lastSnapshotHeight = snapshot.blockHeight;
+    return block;
+  }
+
+  private buildBlock(previousBlock: LedgerBlock, transactions: BlockTransaction[]): LedgerBlock {
     const header = {
       blockHeight: previousBlock.header.blockHeight + 1,
       previousHash: previousBlock.hash,
@@ -575,20 +3029,242 @@ export class LedgerEngine extends EventEmitter {
       nonce: 0,
     };
 
-    const hash = computeBlockHash(header);
-    const block: LedgerBlock = { header, transactions, hash };
+    const block: LedgerBlock = { header, transactions, hash: computeBlockHash(header) };
+    header.validatorSignature = signBlock(block, this.signingKey.privateKey);
+    return block;
+  }
 
-    if (validateBlock(block, previousBlock)) {
-      this.state.chain.push(block);
-      this.emit('block:generated', {
-        blockHeight: header.blockHeight,
-        hash,
-        txCount: transactions.length,
-      });
-    } else {
-      // Return transactions to pending pool
-      this.state.pendingTransactions.unshift(...transactions);
-      this.emit('block:validation_failed', { blockHeight: header.blockHeight });
+  /**
+   * Apply foreign transactions in order to a copy of the state, so lots
+   * created earlier in a block can be spent later in it and conflicting
+   * spends are caught before anything changes
+   */
+  private dryRun(transactions: BlockTransaction[]): boolean {
+    const saved = this.state;
+    this.state = {
+      ...saved,
+      accounts: structuredClone(saved.accounts),
+      gbdcRegistry: structuredClone(saved.gbdcRegistry),
+      lots: structuredClone(saved.lots),
+      reversals: new Map(saved.reversals),
+      crdnRegistry: structuredClone(saved.crdnRegistry),
+      pledges: structuredClone(saved.pledges),
+      creditLines: structuredClone(saved.creditLines),
+      escrows: structuredClone(saved.escrows),
+      noteSeries: structuredClone(saved.noteSeries),
+      yieldNotes: structuredClone(saved.yieldNotes),
+    };
+    try {
+      for (const tx of transactions) {
+        if (!this.canApply(tx)) return false;
+        this.applyTransaction(tx);
+      }
+      return true;
+    } catch {
+      return false;
+    } finally {
+      this.state = saved;
+    }
+  }
+
+  /* Whether applyTransaction can run on this node's state for a foreign transaction */
+  private canApply(tx: BlockTransaction): boolean {
+    if (!this.state.accounts.has(tx.toAccount)) return false;
+    if (tx.type !== 'MINT' && !this.state.accounts.has(tx.fromAccount)) return false;
+    if (tx.type === 'CONVERT') return this.state.crdnRegistry.has(tx.instrumentId);
+    if (tx.type === 'EXPIRE') {
+      // Other validators only accept expiries that were due when signed
+      const crdn = this.state.crdnRegistry.get(tx.instrumentId);
+      return !!crdn
+        && (crdn.status === CRDNStatus.ISSUED || crdn.status === CRDNStatus.HELD)
+        && crdn.expiresAt.getTime() <= new Date(tx.timestamp).getTime();
+    }
+    if (tx.type === 'PLEDGE') return this.canPledge(tx);
+    if (tx.type === 'RELEASE') return this.state.pledges.get(tx.instrumentId)?.bank === tx.toAccount;
+    if ((tx.type === 'ESCROW' || tx.data.escrow) && !this.canApplyEscrow(tx)) return false;
+    if (tx.type === 'ESCROW') return true;
+    if ((tx.type === 'YIELD_NOTE' || tx.data.yieldNote) && !this.canApplyYieldNote(tx)) return false;
+    if (tx.type === 'YIELD_NOTE') return true;
+    if (tx.data.netting && !this.canApplyNetting(tx)) return false;
+    if (tx.data.bridge && !this.canApplyBridge(tx)) return false;
+    if ((tx.type === 'REDEEM' || tx.type === 'BURN') && !this.state.gbdcRegistry.has(tx.instrumentId)) return false;
+    if (typeof tx.data.reversalOf === 'string' && this.state.reversals.has(tx.data.reversalOf)) return false;
+    if (tx.type === 'TRANSFER' && tx.instrumentType === 'CRDN') {
+      const crdn = this.state.crdnRegistry.get(tx.instrumentId);
+      const splitInstrumentId = tx.data.splitInstrumentId as string | undefined;
+      return !!crdn
+        && crdn.holder === tx.fromAccount
+        && (crdn.status === CRDNStatus.ISSUED || crdn.status === CRDNStatus.HELD)
+        && tx.amount <= crdn.amountCedi
+        && (!splitInstrumentId || !this.state.crdnRegistry.has(splitInstrumentId));
+    }
+    if (tx.type === 'TRANSFER' || tx.type === 'REDEEM') return Array.isArray(tx.data.lots);
+    return true;
+  }
+
+  /* The pledging bank must still hold the whole instrument, unpledged */
+  private canPledge(tx: BlockTransaction): boolean {
+    if (this.state.pledges.has(tx.instrumentId)) return false;
+    if (this.state.accounts.get(tx.fromAccount)!.role !== UserRole.COMMERCIAL_BANK) return false;
+    if (tx.instrumentType === 'CRDN') {
+      const crdn = this.state.crdnRegistry.get(tx.instrumentId);
+      return !!crdn
+        && crdn.holder === tx.fromAccount
+        && (crdn.status === CRDNStatus.ISSUED || crdn.status === CRDNStatus.HELD);
+    }
+    const gbdc = this.state.gbdcRegistry.get(tx.instrumentId);
+    const lots = this.getGBDCLots({ instrumentId: tx.instrumentId });
+    return !!gbdc
+      && (gbdc.status === GBDCStatus.MINTED || gbdc.status === GBDCStatus.CIRCULATING)
+      && lots.length > 0
+      && lots.every(lot => lot.owner === tx.fromAccount);
+  }
+
+  /* Escrow steps must follow the escrow's state: funded once, released only when due, closed once */
+  private canApplyEscrow(tx: BlockTransaction): boolean {
+    const escrow = this.state.escrows.get(tx.data.projectId as string);
+    if (tx.data.escrow === 'FUND') return !escrow;
+    if (!escrow || escrow.status !== 'ACTIVE') return false;
+    if (tx.data.escrow === 'REFUND' || tx.data.escrow === 'TOP_UP') return true;
+    if (tx.data.escrow === 'RETURN') return roundCedi(escrowBalance(escrow) - tx.amount) >= roundCedi(lockedAmount(escrow));
+    if (tx.data.variationId) return this.canApplyVariation(escrow, tx);
+
+    const milestone = escrow.milestones.find(m => m.milestoneId === tx.data.milestoneId);
+    if (!milestone || milestone.status !== 'LOCKED') return false;
+    if (tx.data.escrow === 'RELEASE') {
+      return milestone.contractorId === tx.toAccount
+        && milestone.amountCedi === tx.amount
+        && canRelease(milestone, new Date(tx.timestamp));
+    }
+    // Each condition must be met by the kind of record it waits on
+    const conditions = tx.data.conditions as number[];
+    return Array.isArray(conditions) && conditions.every(index => {
+      const condition = milestone.conditions[index];
+      if (!condition || milestone.metConditions.includes(index)) return false;
+      switch (condition.type) {
+        case 'SIGN_OFF': return tx.fromAccount === condition.verifierId;
+        case 'INSPECTION':
+          return tx.fromAccount !== milestone.contractorId
+            && this.state.accounts.get(tx.fromAccount)?.role === UserRole.INSPECTOR;
+        case 'ORACLE_EVENT':
+          return tx.data.eventType === condition.eventType
+            && (condition.reference === undefined || condition.reference === tx.data.reference);
+        default: return false;
+      }
+    });
+  }
+
+  /* A variation's new milestones must be new, its amendments must be to locked milestones, and escrow must cover the result */
+  private canApplyVariation(escrow: Escrow, tx: BlockTransaction): boolean {
+    if (this.state.accounts.get(tx.fromAccount)?.role !== UserRole.BOG_ADMIN) return false;
+    const milestones = tx.data.milestones as MilestoneTerms[];
+    const amendments = tx.data.amendments as MilestoneAmendment[];
+    if (!Array.isArray(milestones) || !Array.isArray(amendments)) return false;
+    const ids = new Set(escrow.milestones.map(m => m.milestoneId));
+    if (milestones.some(m => ids.has(m.milestoneId) || !(m.amountCedi > 0) || !this.state.accounts.has(m.contractorId) || validateConditions(m.conditions))) {
+      return false;
+    }
+    if (amendments.some(a => escrow.milestones.find(m => m.milestoneId === a.milestoneId)?.status !== 'LOCKED' || !(a.amountCedi > 0))) {
+      return false;
+    }
+    const locked = escrow.milestones.reduce((sum, m) =>
+      sum + (m.status === 'LOCKED' ? amendments.find(a => a.milestoneId === m.milestoneId)?.amountCedi ?? m.amountCedi : 0), 0)
+      + milestones.reduce((sum, m) => sum + m.amountCedi, 0);
+    return roundCedi(locked) <= roundCedi(escrowBalance(escrow));
+  }
+
+  /* Yield note steps must follow the schedule: issued once and covered, subscribed within size, coupons in order and exact, redeemed once matured */
+  private canApplyYieldNote(tx: BlockTransaction): boolean {
+    const series = this.state.noteSeries.get(tx.data.seriesId as string);
+    const at = new Date(tx.timestamp);
+    if (tx.data.yieldNote === 'SERIES') {
+      if (series || tx.type !== 'YIELD_NOTE' || tx.toAccount !== noteSeriesAccountId(tx.data.seriesId as string)) return false;
+      if (this.state.accounts.get(tx.fromAccount)?.role !== UserRole.BOG_ADMIN) return false;
+      const backingValueCedi = this.valueBacking(
+        tx.data.assetType as AssetType,
+        tx.data.backingIds as string[],
+        tx.data.backingValueCedi as number,
+        at
+      );
+      return (tx.data.issueSizeCedi as number) > 0
+        && roundCedi(backingValueCedi) >= roundCedi(tx.data.issueSizeCedi as number)
+        && new Date(tx.data.maturityDate as string).getTime() > at.getTime();
+    }
+    if (!series) return false;
+
+    const noteId = tx.data.noteId as string;
+    if (tx.data.yieldNote === 'SUBSCRIBE') {
+      return tx.type === 'TRANSFER'
+        && !this.state.yieldNotes.has(noteId)
+        && this.state.accounts.get(tx.fromAccount)?.role === UserRole.DIASPORA
+        && tx.toAccount === series.account
+        && at.getTime() < new Date(series.maturityDate).getTime()
+        && roundCedi(series.subscribedCedi + tx.amount) <= roundCedi(series.issueSizeCedi);
+    }
+
+    const note = this.state.yieldNotes.get(noteId);
+    if (!note || note.seriesId !== series.seriesId || tx.toAccount !== note.investorId) return false;
+    if (tx.data.yieldNote === 'COUPON') {
+      const due = nextCouponDate(series, note);
+      const couponDate = new Date(tx.data.couponDate as string);
+      return note.status === 'ACTIVE'
+        && tx.fromAccount === 'BOG_TREASURY'
+        && !!due && due.getTime() === couponDate.getTime() && couponDate.getTime() <= at.getTime()
+        && tx.amount === roundCedi(accrueCoupon(note.principalCedi, series.couponRatePercent, note.lastCouponAt, couponDate))
+        && (tx.type === 'TRANSFER') === tx.amount > 0;
+    }
+    return tx.data.yieldNote === 'REDEEM'
+      && tx.type === 'TRANSFER'
+      && note.status === 'MATURED'
+      && tx.fromAccount === series.account
+      && tx.amount === note.principalCedi;
+  }
+
+  /* Netting moves GBDC between commercial banks and their cycle's clearing account only */
+  private canApplyNetting(tx: BlockTransaction): boolean {
+    const clearing = clearingAccountId(tx.data.cycleId as string);
+    const bank = tx.data.netting === 'PAY_IN' ? tx.fromAccount : tx.toAccount;
+    return tx.type === 'TRANSFER'
+      && (tx.data.netting === 'PAY_IN' ? tx.toAccount : tx.fromAccount) === clearing
+      && (tx.data.netting === 'PAY_IN' || tx.data.netting === 'PAY_OUT')
+      && this.state.accounts.get(bank)?.role === UserRole.COMMERCIAL_BANK;
+  }
+
+  /* Bridge steps move GBDC between a bank or the float and the transfer's lock account, locking once and settling the whole lock */
+  private canApplyBridge(tx: BlockTransaction): boolean {
+    const step = tx.data.bridge as BridgeStep;
+    const direction = tx.data.direction as BridgeTransfer['direction'];
+    if (tx.type !== 'TRANSFER' || !['LOCK', 'COMMIT', 'ROLLBACK'].includes(step)) return false;
+    if (direction !== 'GBDC_TO_ECEDI' && direction !== 'ECEDI_TO_GBDC') return false;
+    if (this.state.accounts.get(tx.data.account as string)?.role !== UserRole.COMMERCIAL_BANK) return false;
+
+    const transfer = { transferId: tx.data.transferId as string, direction, account: tx.data.account as string };
+    const { from, to } = bridgeLegs(transfer, step);
+    const locked = roundCedi(this.getBridgeLock(transfer.transferId));
+    return tx.fromAccount === from
+      && tx.toAccount === to
+      && (step === 'LOCK' ? locked === 0 : locked === roundCedi(tx.amount));
+  }
+
+  private hasPendingWork(): boolean {
+    return this.state.pendingTransactions.length > 0
+      || this.pendingChanges.accounts.length > 0
+      || this.pendingChanges.reserves.length > 0;
+  }
+
+  /**
+   * Persist a block together with all state changes recorded since the last one
+   */
+  private async commit(block: LedgerBlock): Promise<void> {
+    const changes = this.pendingChanges;
+    this.pendingChanges = { accounts: [], reserves: [] };
+    try {
+      await this.storage.commitBlock({ block, accounts: changes.accounts, reserves: changes.reserves });
+    } catch (error) {
+      // Put the changes back so they ride along with the next block
+      this.pendingChanges.accounts.unshift(...changes.accounts);
+      this.pendingChanges.reserves.unshift(...changes.reserves);
+      throw error;
     }
   }
 
@@ -601,11 +3277,4 @@ export class LedgerEngine extends EventEmitter {
   private generateTxId(): string {
     return crypto.randomBytes(32).toString('hex');
   }
-
-  private signTransaction(txId: string): string {
-    return crypto
-      .createHash(SYSTEM.HASH_ALGORITHM)
-      .update(txId + this.validatorId + Date.now())
-      .digest('hex');
-  }
 }
@@ -0,0 +1,268 @@
+/**
+ * GOVRES — Project Escrow Tests
+ * Release conditions, and the engine's fund, release, cancel and
+ * replication of project escrows
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UserRole } from '@govres/shared';
+import { LedgerEngine } from './engine';
+import { EscrowMilestone, MilestoneTerms, isConditionMet, matchEventConditions, validateConditions, escrowAccountId } from './escrow';
+
+// ─── Release Conditions ─────────────────────────────────
+
+describe('release conditions', () => {
+  const milestone: EscrowMilestone = {
+    milestoneId: 'M-1',
+    contractorId: 'C-1',
+    amountCedi: 100,
+    conditions: [
+      { type: 'SIGN_OFF', verifierId: 'V-1' },
+      { type: 'DEADLINE', releaseAt: '2026-06-01T00:00:00.000Z' },
+      { type: 'ORACLE_EVENT', eventType: 'EXPORT_SHIP', reference: 'LOT-1' },
+      { type: 'ORACLE_EVENT', eventType: 'GOLD_ATTESTATION' },
+    ],
+    metConditions: [0],
+    status: 'LOCKED',
+  };
+
+  it('meets deadlines by time and other conditions by record', () => {
+    expect(isConditionMet(milestone, 0, new Date('2026-01-01'))).toBe(true);
+    expect(isConditionMet(milestone, 1, new Date('2026-05-31'))).toBe(false);
+    expect(isConditionMet(milestone, 1, new Date('2026-06-01'))).toBe(true);
+    expect(isConditionMet(milestone, 2, new Date('2027-01-01'))).toBe(false);
+  });
+
+  it('matches events by type and, when given, reference', () => {
+    expect(matchEventConditions(milestone, 'EXPORT_SHIP', 'LOT-2')).toEqual([]);
+    expect(matchEventConditions(milestone, 'EXPORT_SHIP', 'LOT-1')).toEqual([2]);
+    expect(matchEventConditions(milestone, 'GOLD_ATTESTATION', 'VAULT-9')).toEqual([3]);
+  });
+
+  it('rejects malformed conditions', () => {
+    expect(validateConditions([])).toMatch('at least one');
+    expect(validateConditions([{ type: 'SIGN_OFF', verifierId: '' }])).toMatch('verifierId');
+    expect(validateConditions([{ type: 'DEADLINE', releaseAt: 'soon' }])).toMatch('releaseAt');
+    expect(validateConditions([{ type: 'WHENEVER' } as any])).toMatch('unknown');
+    expect(validateConditions(milestone.conditions)).toBeUndefined();
+  });
+});
+
+// ─── Engine Escrow ──────────────────────────────────────
+
+describe('LedgerEngine project escrow', () => {
+  let engine: LedgerEngine;
+
+  const milestones = (...terms: Partial<MilestoneTerms>[]): MilestoneTerms[] => terms.map((t, i) => ({
+    milestoneId: `MILE-P1-${i + 1}`,
+    contractorId: 'CONTRACTOR-1',
+    amountCedi: 10_000,
+    conditions: [{ type: 'SIGN_OFF', verifierId: 'VERIFIER-1' }],
+    ...t,
+  }));
+
+  const fund = (terms: MilestoneTerms[], amountCedi = 30_000, projectId = 'P1') =>
+    engine.fundEscrow({ projectId, amountCedi, milestones: terms, fundedBy: 'ADMIN-1' });
+
+  beforeEach(async () => {
+    engine = new LedgerEngine('BOG-NODE-TEST');
+    await engine.initialize();
+    engine.registerAccount('ADMIN-1', UserRole.BOG_ADMIN);
+    engine.registerAccount('AGENCY-1', UserRole.GOVT_AGENCY);
+    engine.registerAccount('VERIFIER-1', UserRole.GOVT_AGENCY);
+    engine.registerAccount('CONTRACTOR-1', UserRole.CONTRACTOR);
+    engine.registerGoldReserve(1_000_000, 'gold-attest');
+    engine.mintGBDC({
+      amountCedi: 100_000,
+      goldBackingGrams: 2_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-E1',
+      issuedBy: 'BOG_TREASURY',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('locks the budget in the project escrow account', async () => {
+    fund(milestones({}, {}));
+
+    expect(engine.getAccountBalance('BOG_TREASURY')!.gbdcBalance).toBe(70_000);
+    expect(engine.getAccountBalance(escrowAccountId('P1'))!.gbdcBalance).toBe(30_000);
+    const escrow = engine.getEscrow('P1')!;
+    expect(escrow).toEqual(expect.objectContaining({ status: 'ACTIVE', fundedCedi: 30_000, releasedCedi: 0 }));
+    expect(escrow.milestones.map(m => m.status)).toEqual(['LOCKED', 'LOCKED']);
+
+    await engine.generateBlock();
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+
+  it('validates funder, milestones and budget', () => {
+    expect(() => engine.fundEscrow({ projectId: 'P1', amountCedi: 30_000, milestones: milestones({}), fundedBy: 'AGENCY-1' })).toThrow('AUTH_001');
+    expect(() => fund(milestones({ amountCedi: 20_000 }, { amountCedi: 20_000 }))).toThrow('more than');
+    expect(() => fund(milestones({ conditions: [] }))).toThrow('at least one');
+    expect(() => fund(milestones({ contractorId: 'NOBODY' }))).toThrow('invalid contractor');
+    expect(() => fund(milestones({}), 200_000)).toThrow('SETTLE_004');
+    fund(milestones({}));
+    expect(() => fund(milestones({}))).toThrow('already has an escrow');
+  });
+
+  it('releases a milestone as soon as its verifier signs off', () => {
+    fund(milestones({}, {}));
+    expect(() => engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'AGENCY-1' })).toThrow('AUTH_002');
+
+    const txIds = engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'VERIFIER-1' });
+    expect(txIds).toHaveLength(2);
+    expect(engine.getAccountBalance('CONTRACTOR-1')!.gbdcBalance).toBe(10_000);
+    expect(engine.getEscrow('P1')!.milestones[0]).toEqual(expect.objectContaining({ status: 'RELEASED', releaseTxId: txIds[1] }));
+    expect(() => engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'VERIFIER-1' })).toThrow('RELEASED');
+  });
+
+  it('waits for every condition, including a matching supply-chain event', () => {
+    fund(milestones({
+      conditions: [
+        { type: 'SIGN_OFF', verifierId: 'VERIFIER-1' },
+        { type: 'ORACLE_EVENT', eventType: 'EXPORT_SHIP', reference: 'LOT-7' },
+      ],
+    }));
+
+    engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'VERIFIER-1' });
+    expect(() => engine.releaseMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1' })).toThrow('not met');
+    expect(engine.recordEscrowEvent({ eventType: 'EXPORT_SHIP', reference: 'LOT-8' })).toEqual([]);
+
+    const txIds = engine.recordEscrowEvent({ eventType: 'EXPORT_SHIP', reference: 'LOT-7' });
+    expect(txIds).toHaveLength(2);
+    expect(engine.getAccountBalance('CONTRACTOR-1')!.gbdcBalance).toBe(10_000);
+    expect(engine.getEscrow('P1')).toEqual(expect.objectContaining({ status: 'COMPLETED', refundedCedi: 20_000 }));
+  });
+
+  it('releases deadline milestones once the date has passed', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+    fund(milestones({ conditions: [{ type: 'DEADLINE', releaseAt: '2026-04-01T00:00:00.000Z' }] }));
+
+    expect(engine.releaseDueMilestones()).toEqual([]);
+    vi.setSystemTime(new Date('2026-04-01T00:00:00Z'));
+    expect(engine.releaseDueMilestones()).toHaveLength(1);
+    expect(engine.getAccountBalance('CONTRACTOR-1')!.gbdcBalance).toBe(10_000);
+  });
+
+  it('returns unallocated budget to Treasury once every milestone is paid', async () => {
+    fund(milestones({}, {}), 25_000);
+    engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'VERIFIER-1' });
+    engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-2', verifierId: 'VERIFIER-1' });
+
+    expect(engine.getEscrow('P1')).toEqual(expect.objectContaining({ status: 'COMPLETED', releasedCedi: 20_000, refundedCedi: 5_000 }));
+    expect(engine.getAccountBalance(escrowAccountId('P1'))!.gbdcBalance).toBe(0);
+    expect(engine.getAccountBalance('BOG_TREASURY')!.gbdcBalance).toBe(80_000);
+
+    await engine.generateBlock();
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+
+  it('returns what is left to Treasury when the project is cancelled', () => {
+    fund(milestones({}, {}));
+    engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'VERIFIER-1' });
+
+    expect(() => engine.cancelEscrow({ projectId: 'P1', cancelledBy: 'AGENCY-1' })).toThrow('AUTH_001');
+    engine.cancelEscrow({ projectId: 'P1', cancelledBy: 'ADMIN-1' });
+
+    const escrow = engine.getEscrow('P1')!;
+    expect(escrow).toEqual(expect.objectContaining({ status: 'CANCELLED', releasedCedi: 10_000, refundedCedi: 20_000 }));
+    expect(escrow.milestones.map(m => m.status)).toEqual(['RELEASED', 'REFUNDED']);
+    expect(engine.getAccountBalance('BOG_TREASURY')!.gbdcBalance).toBe(90_000);
+    expect(() => engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-2', verifierId: 'VERIFIER-1' })).toThrow('REFUNDED');
+  });
+
+  it('applies variation orders that top up budget, add milestones and amend amounts', async () => {
+    fund(milestones({}, {}), 20_000);
+    const vary = (budgetDeltaCedi: number, extra: Partial<Parameters<LedgerEngine['varyEscrow']>[0]> = {}) => engine.varyEscrow({
+      projectId: 'P1', variationId: 'VO-1', budgetDeltaCedi, milestones: [], amendments: [], approvedBy: 'ADMIN-1', ...extra,
+    });
+
+    expect(() => vary(5_000, { approvedBy: 'AGENCY-1' })).toThrow('AUTH_001');
+    expect(() => vary(0)).toThrow('changes nothing');
+    expect(() => vary(0, { amendments: [{ milestoneId: 'MILE-P1-1', amountCedi: 15_000 }] })).toThrow('25000 GHS of milestones against 20000');
+
+    const txIds = vary(15_000, {
+      milestones: [{ milestoneId: 'MILE-P1-3', contractorId: 'CONTRACTOR-1', amountCedi: 5_000, conditions: [{ type: 'SIGN_OFF', verifierId: 'VERIFIER-1' }] }],
+      amendments: [{ milestoneId: 'MILE-P1-1', amountCedi: 20_000 }],
+    });
+    expect(txIds).toHaveLength(2);
+    expect(engine.getAccountBalance(escrowAccountId('P1'))!.gbdcBalance).toBe(35_000);
+    expect(engine.getEscrow('P1')!.milestones.map(m => m.amountCedi)).toEqual([20_000, 10_000, 5_000]);
+    expect(() => vary(1_000)).toThrow('already been applied');
+
+    engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'VERIFIER-1' });
+    expect(engine.getAccountBalance('CONTRACTOR-1')!.gbdcBalance).toBe(20_000);
+    await engine.generateBlock();
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+
+  it('returns budget cut by a variation order to Treasury', () => {
+    fund(milestones({}, {}));
+    const cut = (budgetDeltaCedi: number) => engine.varyEscrow({
+      projectId: 'P1', variationId: 'VO-2', budgetDeltaCedi, milestones: [], amendments: [], approvedBy: 'ADMIN-1',
+    });
+
+    expect(() => cut(-15_000)).toThrow('20000 GHS of milestones against 15000');
+    cut(-10_000);
+    expect(engine.getEscrow('P1')).toEqual(expect.objectContaining({ fundedCedi: 30_000, refundedCedi: 10_000, status: 'ACTIVE' }));
+    expect(engine.getAccountBalance('BOG_TREASURY')!.gbdcBalance).toBe(80_000);
+
+    // Nothing unallocated is left, so paying both milestones completes the escrow
+    engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'VERIFIER-1' });
+    engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-2', verifierId: 'VERIFIER-1' });
+    expect(engine.getEscrow('P1')!.status).toBe('COMPLETED');
+    expect(engine.getAccountBalance(escrowAccountId('P1'))!.gbdcBalance).toBe(0);
+  });
+
+  it('keeps escrow payments out of dispute reversals', async () => {
+    engine.registerAccount('ADMIN-2', UserRole.BOG_ADMIN);
+    fund(milestones({}));
+    engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'VERIFIER-1' });
+    const block = await engine.generateBlock();
+    const release = block!.transactions.find(tx => tx.data.escrow === 'RELEASE')!;
+
+    expect(() => engine.reverseTransaction({ original: release, requestedBy: 'ADMIN-1', approvedBy: 'ADMIN-2', reason: 'Dispute' }))
+      .toThrow('Only GBDC transfers');
+  });
+
+  it('holds release until an independent inspector verifies the evidence', () => {
+    engine.registerAccount('INSPECTOR-1', UserRole.INSPECTOR);
+    fund(milestones({ conditions: [{ type: 'SIGN_OFF', verifierId: 'VERIFIER-1' }, { type: 'INSPECTION' }] }));
+    const verify = (inspectorId: string) =>
+      engine.verifyMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', inspectorId, evidenceHash: 'ev-hash' });
+
+    expect(engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'VERIFIER-1' })).toHaveLength(1);
+    expect(() => verify('VERIFIER-1')).toThrow('AUTH_002');
+    expect(() => verify('CONTRACTOR-1')).toThrow('AUTH_002');
+    expect(() => engine.releaseMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1' })).toThrow('not met');
+
+    expect(verify('INSPECTOR-1')).toHaveLength(2);
+    expect(engine.getAccountBalance('CONTRACTOR-1')!.gbdcBalance).toBe(10_000);
+  });
+
+  it('replicates escrow state and rejects verifications by non-inspectors', async () => {
+    const other = new LedgerEngine('BOG-NODE-TEST', { genesisBlock: engine.getBlock(0) });
+    await other.initialize();
+    for (const [id, role] of [['ADMIN-1', UserRole.BOG_ADMIN], ['AGENCY-1', UserRole.GOVT_AGENCY], ['VERIFIER-1', UserRole.GOVT_AGENCY], ['CONTRACTOR-1', UserRole.CONTRACTOR], [escrowAccountId('P1'), UserRole.BOG_ADMIN], ['INSPECTOR-1', UserRole.GOVT_AGENCY]] as const) {
+      other.registerAccount(id, role);
+    }
+    other.registerGoldReserve(1_000_000, 'gold-attest');
+    // A validator that wrongly treats INSPECTOR-1 as an inspector
+    engine.registerAccount('INSPECTOR-1', UserRole.INSPECTOR);
+
+    fund(milestones({}, { conditions: [{ type: 'INSPECTION' }] }));
+    engine.signOffMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-1', verifierId: 'VERIFIER-1' });
+    await other.appendBlock(engine.createBlockProposal());
+    await engine.appendBlock(engine.createBlockProposal());
+    expect(other.getEscrow('P1')).toEqual(engine.getEscrow('P1'));
+
+    engine.verifyMilestone({ projectId: 'P1', milestoneId: 'MILE-P1-2', inspectorId: 'INSPECTOR-1', evidenceHash: 'ev-hash' });
+    expect(other.verifyBlockProposal(engine.createBlockProposal())).toBe(false);
+    expect(other.getEscrow('P1')!.milestones[1].status).toBe('LOCKED');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * GOVRES — Project Escrow
+ *
+ * An approved government project's budget is moved from BoG Treasury
+ * into an escrow account of its own. Each milestone's share is released
+ * to its contractor once every one of its release conditions is met:
+ * sign-off by a named verifier, verification by an independent inspector,
+ * a date being reached, or a supply-chain or oracle event. Whatever has
+ * not been released returns to Treasury if the project is cancelled, and
+ * any unallocated budget returns once every milestone has been paid.
+ * Approved variation orders top up or return budget, add milestones and
+ * change the amounts of those still locked.
+ */
+
+export type ReleaseCondition =
+  | { type: 'SIGN_OFF'; verifierId: string }
+  /** Met when an independent inspector, neither agency nor contractor, verifies the evidence */
+  | { type: 'INSPECTION' }
+  /** Met once releaseAt (ISO 8601) has passed */
+  | { type: 'DEADLINE'; releaseAt: string }
+  /** Met by an event of eventType; with a reference, only by an event about that lot, vault, etc. */
+  | { type: 'ORACLE_EVENT'; eventType: string; reference?: string };
+
+export interface MilestoneTerms {
+  milestoneId: string;
+  contractorId: string;
+  amountCedi: number;
+  conditions: ReleaseCondition[];
+}
+
+/* A change to a locked milestone's amount under a variation order */
+export interface MilestoneAmendment {
+  milestoneId: string;
+  amountCedi: number;
+}
+
+export interface EscrowMilestone extends MilestoneTerms {
+  /** Indexes of the sign-off, inspection and event conditions recorded as met */
+  metConditions: number[];
+  status: 'LOCKED' | 'RELEASED' | 'REFUNDED';
+  releaseTxId?: string;
+}
+
+export interface Escrow {
+  projectId: string;
+  account: string;
+  fundedCedi: number;
+  releasedCedi: number;
+  refundedCedi: number;
+  status: 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
+  milestones: EscrowMilestone[];
+  /** Variation orders applied, in order */
+  variationIds: string[];
+  fundedAt: Date;
+}
+
+/**
+ * Ledger account holding a project's escrowed GBDC
+ */
+export function escrowAccountId(projectId: string): string {
+  return `ESCROW-${projectId}`;
+}
+
+/**
+ * GHS still held in escrow
+ */
+export function escrowBalance(escrow: Pick<Escrow, 'fundedCedi' | 'releasedCedi' | 'refundedCedi'>): number {
+  return escrow.fundedCedi - escrow.releasedCedi - escrow.refundedCedi;
+}
+
+/**
+ * GHS owed to milestones not yet released
+ */
+export function lockedAmount(escrow: Pick<Escrow, 'milestones'>): number {
+  return escrow.milestones.reduce((sum, m) => sum + (m.status === 'LOCKED' ? m.amountCedi : 0), 0);
+}
+
+/**
+ * Whether condition is met at time at, given the milestone's recorded sign-offs and events
+ */
+export function isConditionMet(milestone: EscrowMilestone, index: number, at: Date): boolean {
+  const condition = milestone.conditions[index];
+  if (condition.type === 'DEADLINE') return new Date(condition.releaseAt).getTime() <= at.getTime();
+  return milestone.metConditions.includes(index);
+}
+
+/**
+ * Whether a locked milestone can be released at time at
+ */
+export function canRelease(milestone: EscrowMilestone, at: Date): boolean {
+  return milestone.status === 'LOCKED'
+    && milestone.conditions.every((_, index) => isConditionMet(milestone, index, at));
+}
+
+/**
+ * Indexes of a milestone's unmet event conditions that an event satisfies
+ */
+export function matchEventConditions(milestone: EscrowMilestone, eventType: string, reference?: string): number[] {
+  return milestone.conditions.flatMap((condition, index) =>
+    condition.type === 'ORACLE_EVENT'
+      && condition.eventType === eventType
+      && (condition.reference === undefined || condition.reference === reference)
+      && !milestone.metConditions.includes(index)
+      ? [index]
+      : []);
+}
+
+/**
+ * Check a milestone's conditions are well formed; returns a problem or undefined
+ */
+export function validateConditions(conditions: ReleaseCondition[]): string | undefined {
+  if (!Array.isArray(conditions) || conditions.length === 0) return 'at least one release condition is required';
+  for (const condition of conditions) {
+    switch (condition?.type) {
+      case 'SIGN_OFF':
+        if (!condition.verifierId) return 'SIGN_OFF conditions need a verifierId';
+        break;
+      case 'INSPECTION':
+        break;
+      case 'DEADLINE':
+        if (Number.isNaN(new Date(condition.releaseAt).getTime())) return 'DEADLINE conditions need a valid releaseAt';
+        break;
+      case 'ORACLE_EVENT':
+        if (!condition.eventType) return 'ORACLE_EVENT conditions need an eventType';
+        break;
+      default:
+        return `unknown release condition type ${(condition as { type?: string })?.type}`;
+    }
+  }
+  return undefined;
+}
@@ -1,10 +1,125 @@
-export { LedgerEngine } from './engine';
+export {
+  LedgerEngine,
+  LedgerEngineOptions,
+  AccountBalance,
+  GBDCRecord,
+  CRDNRecord,
+  GBDCLot,
+  BalanceCheck,
+  convertedInstrumentId,
+} from './engine';
 export {
   LedgerBlock,
   BlockHeader,
   BlockTransaction,
+  MerkleProof,
+  MerkleProofStep,
   createGenesisBlock,
   computeBlockHash,
   computeMerkleRoot,
+  computeMerkleRootOfHashes,
+  computeMerkleLeaf,
+  buildMerkleProof,
+  verifyMerkleProof,
   validateBlock,
 } from './block';
+export {
+  LedgerStorage,
+  MemoryLedgerStorage,
+  PostgresLedgerStorage,
+  StoredAccount,
+  StoredLedger,
+  ReserveEntry,
+  BlockCommit,
+  SqlPool,
+  SqlClient,
+} from './storage';
+export {
+  LedgerSnapshot,
+  SnapshotState,
+  computeStateRoot,
+  createSnapshot,
+  verifySnapshot,
+} from './snapshot';
+export {
+  Pledge,
+  CreditLine,
+  CreditLineSummary,
+  CollateralAsset,
+  CollateralPrice,
+  haircutKey,
+  getHaircutPercent,
+  lendingValue,
+  accrueInterest,
+} from './collateral';
+export {
+  Escrow,
+  EscrowMilestone,
+  MilestoneTerms,
+  ReleaseCondition,
+  escrowAccountId,
+  isConditionMet,
+  canRelease,
+  matchEventConditions,
+  validateConditions,
+} from './escrow';
+export {
+  NoteSeries,
+  YieldNoteHolding,
+  noteSeriesAccountId,
+  couponSchedule,
+  nextCouponDate,
+  accrueCoupon,
+} from './yield-notes';
+export {
+  InterbankObligation,
+  NetPosition,
+  NettingPlan,
+  NettingResult,
+  clearingAccountId,
+  netPositions,
+  planNetSettlement,
+} from './netting';
+export {
+  BridgeDirection,
+  BridgeStep,
+  BridgeTransfer,
+  ECEDI_FLOAT_ACCOUNT,
+  bridgeLockAccountId,
+  bridgeLegs,
+} from './bridge';
+export {
+  RailQuote,
+  RailScore,
+  RoutingWeights,
+  RoutingOptions,
+  RouteLeg,
+  PaymentRoute,
+  LegOutcome,
+  RouteExecution,
+  DEFAULT_ROUTING_WEIGHTS,
+  railFee,
+  scoreRails,
+  planPaymentRoute,
+  executeRoute,
+} from './routing';
+export {
+  ValidatorRegistry,
+  ValidatorKeyPair,
+  signTransaction,
+  verifyTransactionSignature,
+  signBlock,
+  verifyBlockSignature,
+  transactionSigningPayload,
+  getDevelopmentKeyPair,
+} from './validator';
+export {
+  ConsensusNode,
+  ConsensusNodeOptions,
+  ConsensusTransport,
+  ConsensusMessage,
+  ProposalMessage,
+  VoteMessage,
+  ViewChangeMessage,
+  InMemoryTransport,
+} from './consensus';
@@ -0,0 +1,162 @@
+/**
+ * GOVRES — Interbank Netting Tests
+ * Multilateral net positions, gridlock resolution, and the engine's
+ * atomic settlement and replication of netting cycles
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { UserRole } from '@govres/shared';
+import { LedgerEngine } from './engine';
+import { InterbankObligation, clearingAccountId, netPositions, planNetSettlement } from './netting';
+
+const obligation = (obligationId: string, fromBank: string, toBank: string, amountCedi: number, minute = 0): InterbankObligation => ({
+  obligationId,
+  fromBank,
+  toBank,
+  amountCedi,
+  submittedAt: new Date(Date.UTC(2026, 9, 19, 9, minute)),
+});
+
+// ─── Net Positions ──────────────────────────────────────
+
+describe('netPositions', () => {
+  it('nets every bank to one position that sums to zero', () => {
+    const positions = netPositions([
+      obligation('O1', 'BANK-A', 'BANK-B', 100.1),
+      obligation('O2', 'BANK-B', 'BANK-C', 60.2),
+      obligation('O3', 'BANK-C', 'BANK-A', 0.3),
+      obligation('O4', 'BANK-D', 'BANK-E', 10),
+      obligation('O5', 'BANK-E', 'BANK-D', 10),
+    ]);
+    expect(positions).toEqual([
+      { bank: 'BANK-A', netCedi: -99.8 },
+      { bank: 'BANK-B', netCedi: 39.9 },
+      { bank: 'BANK-C', netCedi: 59.9 },
+    ]);
+  });
+});
+
+// ─── Gridlock Resolution ────────────────────────────────
+
+describe('planNetSettlement', () => {
+  it('settles a payment cycle that would gridlock gross, without liquidity', () => {
+    const plan = planNetSettlement([
+      obligation('O1', 'BANK-A', 'BANK-B', 1_000),
+      obligation('O2', 'BANK-B', 'BANK-C', 1_000),
+      obligation('O3', 'BANK-C', 'BANK-A', 1_000),
+    ], () => 0);
+    expect(plan.settled).toHaveLength(3);
+    expect(plan.queued).toEqual([]);
+    expect(plan.positions).toEqual([]);
+  });
+
+  it("holds back a short bank's latest payments until every net debtor can pay", () => {
+    const balances: Record<string, number> = { 'BANK-A': 150, 'BANK-B': 0, 'BANK-C': 0 };
+    const plan = planNetSettlement([
+      obligation('O3', 'BANK-A', 'BANK-C', 300, 2),
+      obligation('O1', 'BANK-A', 'BANK-B', 100, 0),
+      obligation('O2', 'BANK-B', 'BANK-C', 80, 1),
+      obligation('O4', 'BANK-A', 'BANK-B', 40, 3),
+    ], bank => balances[bank]);
+
+    // BANK-B pays BANK-C out of what it receives from BANK-A in the same cycle
+    expect(plan.settled.map(o => o.obligationId)).toEqual(['O1', 'O2']);
+    expect(plan.queued.map(o => o.obligationId)).toEqual(['O3', 'O4']);
+    expect(plan.positions).toEqual([
+      { bank: 'BANK-A', netCedi: -100 },
+      { bank: 'BANK-B', netCedi: 20 },
+      { bank: 'BANK-C', netCedi: 80 },
+    ]);
+  });
+
+  it('holds back lower-priority payments before earlier ones', () => {
+    const plan = planNetSettlement([
+      obligation('O1', 'BANK-A', 'BANK-B', 100, 0),
+      { ...obligation('O2', 'BANK-A', 'BANK-C', 100, 1), priority: 2 },
+      obligation('O3', 'BANK-B', 'BANK-A', 50, 2),
+    ], bank => (bank === 'BANK-A' ? 60 : 50));
+
+    expect(plan.settled.map(o => o.obligationId)).toEqual(['O2', 'O3']);
+    expect(plan.queued.map(o => o.obligationId)).toEqual(['O1']);
+  });
+});
+
+// ─── Engine Netting Cycles ──────────────────────────────
+
+describe('LedgerEngine netting cycles', () => {
+  let engine: LedgerEngine;
+
+  beforeEach(async () => {
+    engine = new LedgerEngine('BOG-NODE-TEST');
+    await engine.initialize();
+    engine.registerAccount('ADMIN-1', UserRole.BOG_ADMIN);
+    engine.registerAccount('ADMIN-2', UserRole.BOG_ADMIN);
+    for (const bank of ['BANK-A', 'BANK-B', 'BANK-C']) engine.registerAccount(bank, UserRole.COMMERCIAL_BANK);
+    engine.registerAccount('AGENCY-1', UserRole.GOVT_AGENCY);
+    engine.registerGoldReserve(1_000_000, 'gold-attest');
+    engine.mintGBDC({
+      amountCedi: 100_000,
+      goldBackingGrams: 2_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-N1',
+      issuedBy: 'BOG_TREASURY',
+    });
+    engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 500, description: 'Liquidity' });
+  });
+
+  it('settles net positions through the clearing account in one block', async () => {
+    const result = engine.settleNetCycle({
+      cycleId: 'CYC-1',
+      obligations: [
+        obligation('O1', 'BANK-A', 'BANK-B', 400),
+        obligation('O2', 'BANK-B', 'BANK-C', 300, 1),
+        obligation('O3', 'BANK-C', 'BANK-A', 50, 2),
+        obligation('O4', 'BANK-A', 'BANK-C', 200, 3),
+        obligation('O5', 'BANK-A', 'AGENCY-1', 10, 4),
+      ],
+    });
+
+    expect(result.rejected.map(o => o.obligationId)).toEqual(['O5']);
+    expect(result.queued.map(o => o.obligationId)).toEqual(['O4']);
+    expect(result.txIds).toHaveLength(3);
+    expect(engine.getAccountBalance('BANK-A')!.gbdcBalance).toBe(150);
+    expect(engine.getAccountBalance('BANK-B')!.gbdcBalance).toBe(100);
+    expect(engine.getAccountBalance('BANK-C')!.gbdcBalance).toBe(250);
+    expect(engine.getAccountBalance(clearingAccountId('CYC-1'))!.gbdcBalance).toBe(0);
+    expect(() => engine.settleNetCycle({ cycleId: 'CYC-1', obligations: [] })).toThrow('already settled');
+
+    const block = await engine.generateBlock();
+    expect(block!.transactions.filter(tx => tx.data.cycleId === 'CYC-1').map(tx => tx.txId)).toEqual(result.txIds);
+    expect(engine.checkBalances().balanced).toBe(true);
+
+    const payIn = block!.transactions.find(tx => tx.data.netting === 'PAY_IN')!;
+    expect(() => engine.reverseTransaction({ original: payIn, requestedBy: 'ADMIN-1', approvedBy: 'ADMIN-2', reason: 'Dispute' }))
+      .toThrow('Only GBDC transfers');
+  });
+
+  it('replicates netting and rejects payments to accounts that are not banks', async () => {
+    const other = new LedgerEngine('BOG-NODE-TEST', { genesisBlock: engine.getBlock(0) });
+    await other.initialize();
+    for (const [id, role] of [['ADMIN-1', UserRole.BOG_ADMIN], ['ADMIN-2', UserRole.BOG_ADMIN], ['BANK-A', UserRole.COMMERCIAL_BANK], ['BANK-B', UserRole.COMMERCIAL_BANK], ['BANK-C', UserRole.COMMERCIAL_BANK], ['AGENCY-1', UserRole.GOVT_AGENCY], ['BANK-D', UserRole.GOVT_AGENCY],
+      [clearingAccountId('CYC-1'), UserRole.BOG_ADMIN], [clearingAccountId('CYC-2'), UserRole.BOG_ADMIN]] as const) {
+      other.registerAccount(id, role);
+    }
+    other.registerGoldReserve(1_000_000, 'gold-attest');
+    const commit = async () => {
+      const proposal = engine.createBlockProposal();
+      await other.appendBlock(proposal);
+      await engine.appendBlock(proposal);
+    };
+    await commit();
+
+    engine.settleNetCycle({ cycleId: 'CYC-1', obligations: [obligation('O1', 'BANK-A', 'BANK-B', 400), obligation('O2', 'BANK-B', 'BANK-C', 300, 1)] });
+    await commit();
+    expect(other.getAccountBalance('BANK-C')).toEqual(engine.getAccountBalance('BANK-C'));
+
+    // A validator that wrongly treats BANK-D as a commercial bank
+    engine.registerAccount('BANK-D', UserRole.COMMERCIAL_BANK);
+    engine.settleNetCycle({ cycleId: 'CYC-2', obligations: [obligation('O3', 'BANK-A', 'BANK-D', 50)] });
+    expect(other.verifyBlockProposal(engine.createBlockProposal())).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * GOVRES — Interbank Netting
+ *
+ * Interbank GBDC obligations are collected into settlement cycles rather
+ * than settled one by one. Each cycle nets every included obligation into
+ * one multilateral position per bank, so only net debtors pay and only net
+ * creditors are paid. A bank whose spendable GBDC does not cover its net
+ * debit would block the whole cycle; gridlock is resolved by holding back
+ * that bank's lowest-priority, most recent payments, one at a time, until
+ * every remaining net debtor can pay. Held-back obligations stay queued for
+ * the next cycle in their original order. The same plan releases queued
+ * RTGS payments that offsetting flows make fundable.
+ */
+
+export interface InterbankObligation {
+  obligationId: string;
+  fromBank: string;
+  toBank: string;
+  amountCedi: number;
+  submittedAt: Date;
+  /** Higher settles first; obligations without one share the lowest priority */
+  priority?: number;
+}
+
+export interface NetPosition {
+  bank: string;
+  /** Positive for a net creditor, negative for a net debtor */
+  netCedi: number;
+}
+
+export interface NettingPlan {
+  /** Obligations settled by the cycle, in priority order */
+  settled: InterbankObligation[];
+  /** Obligations held back for a later cycle, in priority order */
+  queued: InterbankObligation[];
+  /** Non-zero net positions of the settled obligations, by bank id */
+  positions: NetPosition[];
+}
+
+export interface NettingResult extends NettingPlan {
+  cycleId: string;
+  /** Obligations not between two distinct, active commercial banks */
+  rejected: InterbankObligation[];
+  /** Net debit payments into the clearing account, then net credit payments out of it */
+  txIds: string[];
+}
+
+/* Netting sums in ten-thousandths of a cedi, the ledger's precision, so positions add to exactly zero */
+const UNITS_PER_CEDI = 10_000;
+
+/**
+ * Ledger account that collects a cycle's net debits and pays its net credits
+ */
+export function clearingAccountId(cycleId: string): string {
+  return `CLEARING-${cycleId}`;
+}
+
+/**
+ * Multilateral net position of every bank with a non-zero position
+ */
+export function netPositions(obligations: InterbankObligation[]): NetPosition[] {
+  const units = new Map<string, number>();
+  for (const obligation of obligations) {
+    const amount = Math.round(obligation.amountCedi * UNITS_PER_CEDI);
+    units.set(obligation.fromBank, (units.get(obligation.fromBank) ?? 0) - amount);
+    units.set(obligation.toBank, (units.get(obligation.toBank) ?? 0) + amount);
+  }
+  return [...units.entries()]
+    .filter(([, net]) => net !== 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([bank, net]) => ({ bank, netCedi: net / UNITS_PER_CEDI }));
+}
+
+/**
+ * Choose the obligations a cycle can settle given each bank's spendable
+ * GBDC. Obligations are ranked by priority, then in the order they were
+ * submitted; while any net debtor is short, the bank with the largest
+ * shortfall has its lowest-ranked included payment held back and the
+ * positions are recomputed.
+ */
+export function planNetSettlement(
+  obligations: InterbankObligation[],
+  available: (bank: string) => number
+): NettingPlan {
+  const included = [...obligations].sort(byPriority);
+  const heldBack: InterbankObligation[] = [];
+
+  for (;;) {
+    const positions = netPositions(included);
+    let worst: { bank: string; shortfall: number } | undefined;
+    for (const { bank, netCedi } of positions) {
+      const shortfall = Math.round(-netCedi * UNITS_PER_CEDI) - Math.round(available(bank) * UNITS_PER_CEDI);
+      if (shortfall > 0 && (!worst || shortfall > worst.shortfall)) worst = { bank, shortfall };
+    }
+    if (!worst) {
+      return {
+        settled: included,
+        queued: heldBack.sort(byPriority),
+        positions,
+      };
+    }
+
+    // A net debtor always has at least one outgoing obligation included; included is in rank order
+    let latest = included.length - 1;
+    while (included[latest].fromBank !== worst.bank) latest--;
+    heldBack.push(...included.splice(latest, 1));
+  }
+}
+
+/* Highest priority, then earliest submitted first; obligation id breaks ties so every node orders alike */
+function byPriority(a: InterbankObligation, b: InterbankObligation): number {
+  return (b.priority ?? 0) - (a.priority ?? 0)
+    || new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime()
+    || a.obligationId.localeCompare(b.obligationId);
+}
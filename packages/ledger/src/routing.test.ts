@@ -0,0 +1,148 @@
+/**
+ * GOVRES — Smart Payment Routing Tests
+ * Scoring rails, single and split routes, and falling back from failed legs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SettlementChannel } from '@govres/shared';
+import { RailQuote, RouteLeg, executeRoute, planPaymentRoute, railFee, scoreRails } from './routing';
+
+const quote = (channel: SettlementChannel, overrides: Partial<RailQuote> = {}): RailQuote => {
+  const terms: Record<SettlementChannel, Pick<RailQuote, 'feeFixedCedi' | 'feePercent' | 'maxFeeCedi' | 'finalitySeconds'>> = {
+    [SettlementChannel.INTERBANK]: { feeFixedCedi: 5, feePercent: 0, finalitySeconds: 5 },
+    [SettlementChannel.BANK_TRANSFER]: { feeFixedCedi: 0, feePercent: 0.1, maxFeeCedi: 20, finalitySeconds: 5 },
+    [SettlementChannel.MOMO]: { feeFixedCedi: 0, feePercent: 1, maxFeeCedi: 100, finalitySeconds: 300 },
+    [SettlementChannel.ECEDI]: { feeFixedCedi: 0, feePercent: 0, finalitySeconds: 15 },
+  };
+  return { channel, reachable: true, capacityCedi: Infinity, health: 1, ...terms[channel], ...overrides };
+};
+
+const allRails = () => [
+  quote(SettlementChannel.INTERBANK),
+  quote(SettlementChannel.BANK_TRANSFER),
+  quote(SettlementChannel.MOMO, { capacityCedi: 50_000, health: 0.95 }),
+  quote(SettlementChannel.ECEDI, { health: 0.9 }),
+];
+
+// ─── Scoring ────────────────────────────────────────────
+
+describe('scoreRails', () => {
+  it('caps fees and charges them on what the rail carries', () => {
+    expect(railFee(quote(SettlementChannel.MOMO), 2_000)).toBe(20);
+    expect(railFee(quote(SettlementChannel.MOMO), 40_000)).toBe(100);
+    expect(railFee(quote(SettlementChannel.BANK_TRANSFER), 1_234.56)).toBe(1.23);
+  });
+
+  it('ranks rails on cost, speed and health', () => {
+    const scores = scoreRails(1_000, allRails());
+    expect(scores.map(score => score.channel)).toEqual([
+      SettlementChannel.BANK_TRANSFER,
+      SettlementChannel.ECEDI,
+      SettlementChannel.INTERBANK,
+      SettlementChannel.MOMO,
+    ]);
+    expect(scores[0]).toMatchObject({ eligible: true, score: 0.96, amountCedi: 1_000, feeCedi: 1 });
+  });
+
+  it('gives rails that cannot be used no score, with the reason', () => {
+    const scores = scoreRails(1_000, [
+      quote(SettlementChannel.ECEDI, { reachable: false, note: 'Recipient has no eCedi wallet' }),
+      quote(SettlementChannel.MOMO, { health: 0.3 }),
+      quote(SettlementChannel.INTERBANK, { capacityCedi: 0, note: 'Payer has no spendable GBDC' }),
+    ], { minHealth: 0.5 });
+    expect(scores.every(score => !score.eligible && score.score === 0)).toBe(true);
+    expect(scores.map(score => score.reason)).toEqual([
+      'Recipient has no eCedi wallet',
+      'Health 30% is below the 50% minimum',
+      'Payer has no spendable GBDC',
+    ]);
+  });
+});
+
+// ─── Planning ───────────────────────────────────────────
+
+describe('planPaymentRoute', () => {
+  it('puts the payment on the best rail that carries all of it and explains why', () => {
+    const route = planPaymentRoute(1_000, allRails());
+    expect(route.action).toBe('SINGLE');
+    expect(route.legs).toEqual([{ channel: SettlementChannel.BANK_TRANSFER, amountCedi: 1_000, feeCedi: 1 }]);
+    expect(route.explanation[0]).toMatch(/^BANK_TRANSFER chosen with score 0.96: fee GH¢1/);
+    expect(route.explanation).toHaveLength(4);
+  });
+
+  it('prefers a rail that carries the whole payment over a better one that would need a split', () => {
+    const route = planPaymentRoute(80_000, [
+      quote(SettlementChannel.ECEDI, { capacityCedi: 30_000 }),
+      quote(SettlementChannel.MOMO),
+    ], { allowSplit: true });
+    expect(route.action).toBe('SINGLE');
+    expect(route.legs[0].channel).toBe(SettlementChannel.MOMO);
+  });
+
+  it('splits across rails in score order when no single rail can carry the payment', () => {
+    const route = planPaymentRoute(70_000, [
+      quote(SettlementChannel.MOMO, { capacityCedi: 50_000 }),
+      quote(SettlementChannel.ECEDI, { capacityCedi: 30_000 }),
+      quote(SettlementChannel.BANK_TRANSFER, { reachable: false }),
+    ], { allowSplit: true });
+    expect(route.action).toBe('SPLIT');
+    expect(route.legs).toEqual([
+      { channel: SettlementChannel.ECEDI, amountCedi: 30_000, feeCedi: 0 },
+      { channel: SettlementChannel.MOMO, amountCedi: 40_000, feeCedi: 100 },
+    ]);
+    expect(route.totalFeeCedi).toBe(100);
+    expect(route.explanation.at(-1)).toBe('BANK_TRANSFER passed over: Recipient cannot be reached on this rail');
+  });
+
+  it('cannot route a payment that needs a split it is not allowed, or more than the rails can carry', () => {
+    const rails = [quote(SettlementChannel.MOMO, { capacityCedi: 50_000 }), quote(SettlementChannel.ECEDI, { capacityCedi: 30_000 })];
+    expect(planPaymentRoute(70_000, rails).action).toBe('UNROUTABLE');
+    const tooMuch = planPaymentRoute(90_000, rails, { allowSplit: true });
+    expect(tooMuch.action).toBe('UNROUTABLE');
+    expect(tooMuch.explanation[0]).toBe('Usable rails can carry GH¢80,000 of GH¢90,000 between them');
+  });
+});
+
+// ─── Execution ──────────────────────────────────────────
+
+describe('executeRoute', () => {
+  const failing = (...channels: SettlementChannel[]) => async (leg: RouteLeg) => {
+    if (channels.includes(leg.channel)) throw new Error(`${leg.channel} is down`);
+    return `${leg.channel}:${leg.amountCedi}`;
+  };
+
+  it('falls back to the next-best rail when a leg fails', async () => {
+    const rails = allRails();
+    const execution = await executeRoute(planPaymentRoute(1_000, rails), rails, failing(SettlementChannel.BANK_TRANSFER));
+    expect(execution.status).toBe('COMPLETED');
+    expect(execution.legs.map(leg => [leg.leg.channel, leg.status, leg.fallbackFor])).toEqual([
+      [SettlementChannel.BANK_TRANSFER, 'FAILED', undefined],
+      [SettlementChannel.ECEDI, 'SENT', SettlementChannel.BANK_TRANSFER],
+    ]);
+    expect(execution.explanation[0]).toBe('BANK_TRANSFER leg of GH¢1,000 failed (BANK_TRANSFER is down); falling back to ECEDI');
+  });
+
+  it('keeps fallbacks within what other legs leave of each rail', async () => {
+    const rails = [
+      quote(SettlementChannel.ECEDI, { capacityCedi: 30_000 }),
+      quote(SettlementChannel.INTERBANK, { capacityCedi: 10_000 }),
+      quote(SettlementChannel.MOMO, { capacityCedi: 50_000 }),
+    ];
+    const route = planPaymentRoute(70_000, rails, { allowSplit: true });
+    expect(route.legs.map(leg => leg.amountCedi)).toEqual([30_000, 10_000, 30_000]);
+
+    const execution = await executeRoute(route, rails, failing(SettlementChannel.ECEDI), { allowSplit: true });
+    expect(execution.status).toBe('PARTIAL');
+    expect(execution.sentCedi).toBe(40_000);
+    expect(execution.unsentCedi).toBe(30_000);
+    expect(execution.explanation[0]).toMatch(/no rail left to fall back to$/);
+  });
+
+  it('fails when every rail fails', async () => {
+    const rails = [quote(SettlementChannel.ECEDI), quote(SettlementChannel.MOMO)];
+    const execution = await executeRoute(planPaymentRoute(500, rails), rails, failing(SettlementChannel.ECEDI, SettlementChannel.MOMO));
+    expect(execution.status).toBe('FAILED');
+    expect(execution.legs.map(leg => leg.status)).toEqual(['FAILED', 'FAILED']);
+    expect(execution.unsentCedi).toBe(500);
+  });
+});
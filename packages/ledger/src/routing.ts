@@ -0,0 +1,269 @@
+/**
+ * GOVRES — Smart Payment Routing
+ *
+ * Picks the settlement rail, or rails, a payment goes out on. Each rail is
+ * quoted for the payment: whether the recipient can be reached on it, how
+ * much of the payment it can carry under its limits and the payer's
+ * liquidity, its fees, how healthy it has been lately and how soon it
+ * settles. Rails that can be used are scored on cost, speed and health,
+ * and the payment goes on the best-scoring rail that can carry all of it.
+ * When none can, it is split across rails in score order. A leg that fails
+ * when it is sent falls back to the next-best rails with room left.
+ */
+
+import { SettlementChannel } from '@govres/shared';
+
+export interface RailQuote {
+  channel: SettlementChannel;
+  /** Whether the recipient can be paid on this rail at all */
+  reachable: boolean;
+  /** Why the rail cannot take the payment, or what caps it */
+  note?: string;
+  /** Most of this payment the rail can carry now */
+  capacityCedi: number;
+  feeFixedCedi: number;
+  feePercent: number;
+  maxFeeCedi?: number;
+  /** Share of the rail's recent payments that succeeded, from 0 to 1 */
+  health: number;
+  finalitySeconds: number;
+}
+
+export interface RoutingWeights {
+  cost: number;
+  speed: number;
+  health: number;
+}
+
+export interface RoutingOptions {
+  /** Whether the payment may be split across rails */
+  allowSplit?: boolean;
+  weights?: RoutingWeights;
+  /** Rails less healthy than this are passed over */
+  minHealth?: number;
+}
+
+export interface RailScore {
+  channel: SettlementChannel;
+  eligible: boolean;
+  /** Weighted score from 0 to 1; 0 for rails that cannot be used */
+  score: number;
+  /** What the rail would carry of the payment, and its fee for that */
+  amountCedi: number;
+  feeCedi: number;
+  reason: string;
+}
+
+export interface RouteLeg {
+  channel: SettlementChannel;
+  amountCedi: number;
+  feeCedi: number;
+}
+
+export interface PaymentRoute {
+  amountCedi: number;
+  action: 'SINGLE' | 'SPLIT' | 'UNROUTABLE';
+  legs: RouteLeg[];
+  totalFeeCedi: number;
+  /** Every rail quoted, best first */
+  scores: RailScore[];
+  explanation: string[];
+}
+
+export interface LegOutcome<T> {
+  leg: RouteLeg;
+  status: 'SENT' | 'FAILED';
+  result?: T;
+  error?: string;
+  /** Channel of the failed leg this one stands in for */
+  fallbackFor?: SettlementChannel;
+}
+
+export interface RouteExecution<T> {
+  status: 'COMPLETED' | 'PARTIAL' | 'FAILED';
+  legs: LegOutcome<T>[];
+  sentCedi: number;
+  unsentCedi: number;
+  explanation: string[];
+}
+
+export const DEFAULT_ROUTING_WEIGHTS: RoutingWeights = { cost: 0.4, speed: 0.3, health: 0.3 };
+
+/**
+ * Fee a rail charges to carry an amount
+ */
+export function railFee(quote: Pick<RailQuote, 'feeFixedCedi' | 'feePercent' | 'maxFeeCedi'>, amountCedi: number): number {
+  const fee = quote.feeFixedCedi + amountCedi * quote.feePercent / 100;
+  return cedi(pesewas(Math.min(fee, quote.maxFeeCedi ?? Infinity)));
+}
+
+/**
+ * Score every quoted rail for a payment, best first. Cost is the fee as a
+ * share of what the rail carries and speed the time to finality on a log
+ * scale, each relative to the other usable rails; health is taken as is.
+ */
+export function scoreRails(amountCedi: number, quotes: RailQuote[], options: RoutingOptions = {}): RailScore[] {
+  const weights = options.weights ?? DEFAULT_ROUTING_WEIGHTS;
+  const minHealth = options.minHealth ?? 0;
+  const scores = quotes.map(quote => {
+    const carried = cedi(Math.min(pesewas(amountCedi), pesewas(quote.capacityCedi)));
+    const ineligible = !quote.reachable
+      ? quote.note ?? 'Recipient cannot be reached on this rail'
+      : carried <= 0
+        ? quote.note ?? 'No capacity left for this payment'
+        : quote.health < minHealth
+          ? `Health ${percent(quote.health)} is below the ${percent(minHealth)} minimum`
+          : undefined;
+    return { quote, carried, fee: carried > 0 ? railFee(quote, carried) : 0, ineligible };
+  });
+
+  const usable = scores.filter(s => !s.ineligible);
+  const rates = usable.map(s => s.fee / s.carried);
+  const times = usable.map(s => Math.log(Math.max(s.quote.finalitySeconds, 1)));
+  const relative = (value: number, values: number[]) => {
+    const spread = Math.max(...values) - Math.min(...values);
+    return spread > 0 ? 1 - (value - Math.min(...values)) / spread : 1;
+  };
+
+  return scores
+    .map(({ quote, carried, fee, ineligible }): RailScore => {
+      if (ineligible) return { channel: quote.channel, eligible: false, score: 0, amountCedi: 0, feeCedi: 0, reason: ineligible };
+      const score = weights.cost * relative(fee / carried, rates)
+        + weights.speed * relative(Math.log(Math.max(quote.finalitySeconds, 1)), times)
+        + weights.health * quote.health;
+      const total = weights.cost + weights.speed + weights.health;
+      const capped = carried < amountCedi ? `, capped at GH¢${carried.toLocaleString()}${quote.note ? ` (${quote.note})` : ''}` : '';
+      return {
+        channel: quote.channel,
+        eligible: true,
+        score: Math.round(score / total * 1000) / 1000,
+        amountCedi: carried,
+        feeCedi: fee,
+        reason: `fee GH¢${fee.toLocaleString()}, about ${duration(quote.finalitySeconds)} to finality, ${percent(quote.health)} healthy${capped}`,
+      };
+    })
+    .sort((a, b) => b.score - a.score || Number(b.eligible) - Number(a.eligible));
+}
+
+/**
+ * Route a payment: on the best-scoring rail that can carry all of it, or
+ * split across rails in score order when none can and splitting is allowed
+ */
+export function planPaymentRoute(amountCedi: number, quotes: RailQuote[], options: RoutingOptions = {}): PaymentRoute {
+  const scores = scoreRails(amountCedi, quotes, options);
+  const eligible = scores.filter(score => score.eligible);
+  const passedOver = scores.filter(score => !score.eligible).map(score => `${score.channel} passed over: ${score.reason}`);
+  const route = (action: PaymentRoute['action'], legs: RouteLeg[], explanation: string[]): PaymentRoute => ({
+    amountCedi,
+    action,
+    legs,
+    totalFeeCedi: cedi(legs.reduce((sum, leg) => sum + pesewas(leg.feeCedi), 0)),
+    scores,
+    explanation: [...explanation, ...passedOver],
+  });
+
+  const whole = eligible.find(score => score.amountCedi >= amountCedi);
+  if (whole) {
+    const runnersUp = eligible.filter(score => score !== whole).map(score => `${score.channel} scored ${score.score}: ${score.reason}`);
+    return route('SINGLE', [{ channel: whole.channel, amountCedi, feeCedi: whole.feeCedi }], [
+      `${whole.channel} chosen with score ${whole.score}: ${whole.reason}`,
+      ...runnersUp,
+    ]);
+  }
+
+  const available = cedi(eligible.reduce((sum, score) => sum + pesewas(score.amountCedi), 0));
+  if (eligible.length === 0) return route('UNROUTABLE', [], ['No rail can take this payment']);
+  if (!options.allowSplit) {
+    return route('UNROUTABLE', [], [`No single rail can carry GH¢${amountCedi.toLocaleString()} and splitting is not allowed`]);
+  }
+  if (available < amountCedi) {
+    return route('UNROUTABLE', [], [`Usable rails can carry GH¢${available.toLocaleString()} of GH¢${amountCedi.toLocaleString()} between them`]);
+  }
+
+  const legs: RouteLeg[] = [];
+  let remaining = pesewas(amountCedi);
+  for (const score of eligible) {
+    if (remaining === 0) break;
+    const amount = Math.min(remaining, pesewas(score.amountCedi));
+    const quote = quotes.find(q => q.channel === score.channel)!;
+    legs.push({ channel: score.channel, amountCedi: cedi(amount), feeCedi: railFee(quote, cedi(amount)) });
+    remaining -= amount;
+  }
+  return route('SPLIT', legs, [
+    `No single rail can carry GH¢${amountCedi.toLocaleString()}; split across ${legs.length} rails in score order`,
+    ...legs.map(leg => `${leg.channel} carries GH¢${leg.amountCedi.toLocaleString()}: ${eligible.find(s => s.channel === leg.channel)!.reason}`),
+  ]);
+}
+
+/**
+ * Send a route's legs in order. A leg whose send throws falls back to
+ * the next-best rails for its amount, leaving out every rail that has
+ * failed and what the other legs already take of each rail's capacity.
+ */
+export async function executeRoute<T>(
+  route: PaymentRoute,
+  quotes: RailQuote[],
+  send: (leg: RouteLeg) => Promise<T>,
+  options: RoutingOptions = {}
+): Promise<RouteExecution<T>> {
+  const pending: Array<{ leg: RouteLeg; fallbackFor?: SettlementChannel }> = route.legs.map(leg => ({ leg }));
+  const outcomes: LegOutcome<T>[] = [];
+  const failed = new Set<SettlementChannel>();
+  const explanation: string[] = [];
+
+  while (pending.length > 0) {
+    const { leg, fallbackFor } = pending.shift()!;
+    try {
+      const result = await send(leg);
+      outcomes.push({ leg, status: 'SENT', result, fallbackFor });
+      continue;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      outcomes.push({ leg, status: 'FAILED', error: message, fallbackFor });
+      failed.add(leg.channel);
+
+      // Capacity already spoken for by legs sent or still to send
+      const taken = new Map<SettlementChannel, number>();
+      for (const other of [...outcomes.filter(o => o.status === 'SENT').map(o => o.leg), ...pending.map(p => p.leg)]) {
+        taken.set(other.channel, (taken.get(other.channel) ?? 0) + pesewas(other.amountCedi));
+      }
+      const remaining = quotes
+        .filter(quote => !failed.has(quote.channel))
+        .map(quote => ({ ...quote, capacityCedi: cedi(Math.max(pesewas(quote.capacityCedi) - (taken.get(quote.channel) ?? 0), 0)) }));
+      const fallback = planPaymentRoute(leg.amountCedi, remaining, options);
+      if (fallback.action === 'UNROUTABLE') {
+        explanation.push(`${leg.channel} leg of GH¢${leg.amountCedi.toLocaleString()} failed (${message}); no rail left to fall back to`);
+      } else {
+        explanation.push(`${leg.channel} leg of GH¢${leg.amountCedi.toLocaleString()} failed (${message}); falling back to ${fallback.legs.map(l => l.channel).join(' and ')}`);
+        pending.push(...fallback.legs.map(fallbackLeg => ({ leg: fallbackLeg, fallbackFor: leg.channel })));
+      }
+    }
+  }
+
+  const sent = outcomes.filter(outcome => outcome.status === 'SENT').reduce((sum, outcome) => sum + pesewas(outcome.leg.amountCedi), 0);
+  const unsent = pesewas(route.amountCedi) - sent;
+  return {
+    status: unsent === 0 ? 'COMPLETED' : sent > 0 ? 'PARTIAL' : 'FAILED',
+    legs: outcomes,
+    sentCedi: cedi(sent),
+    unsentCedi: cedi(unsent),
+    explanation,
+  };
+}
+
+/* Routes are planned in whole pesewas so legs add up exactly */
+function pesewas(amount: number): number {
+  return Number.isFinite(amount) ? Math.round(amount * 100) : amount;
+}
+
+function cedi(amount: number): number {
+  return Number.isFinite(amount) ? amount / 100 : amount;
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function duration(seconds: number): string {
+  return seconds < 120 ? `${seconds}s` : seconds < 7_200 ? `${Math.round(seconds / 60)} min` : `${Math.round(seconds / 3_600)} h`;
+}
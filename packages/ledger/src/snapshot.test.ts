@@ -0,0 +1,179 @@
+/**
+ * GOVRES — Ledger Snapshot Tests
+ * State roots, signed snapshots, restoring from a snapshot and pruning
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { UserRole } from '@govres/shared';
+import { LedgerEngine } from './engine';
+import { MemoryLedgerStorage } from './storage';
+import { verifyMerkleProof } from './block';
+import { computeStateRoot, verifySnapshot, LedgerSnapshot } from './snapshot';
+import { ValidatorRegistry, getDevelopmentKeyPair } from './validator';
+
+// ─── Helpers ────────────────────────────────────────────
+
+beforeAll(() => {
+  getDevelopmentKeyPair();
+}, 60_000);
+
+let storage: MemoryLedgerStorage;
+
+beforeEach(() => {
+  storage = new MemoryLedgerStorage();
+});
+
+async function createEngine(options: { snapshotInterval?: number; retainedBlocks?: number } = {}) {
+  const engine = new LedgerEngine('BOG-NODE-1', { storage, snapshotInterval: 0, ...options });
+  await engine.initialize();
+  return engine;
+}
+
+/* Seeds accounts and reserves, then seals one block per transfer */
+async function runBlocks(engine: LedgerEngine, transfers: number) {
+  engine.registerGoldReserve(1_000_000, 'gold-attest');
+  engine.registerAccount('BANK-A', UserRole.COMMERCIAL_BANK);
+  const gbdcId = engine.mintGBDC({
+    amountCedi: 100_000,
+    goldBackingGrams: 5_000,
+    goldPricePerGramUSD: 80,
+    exchangeRateUSDGHS: 15,
+    issuanceId: 'ISS-S1',
+    issuedBy: 'BOG_TREASURY',
+  });
+  await engine.generateBlock();
+  for (let i = 0; i < transfers; i++) {
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BOG_TREASURY', toAccount: 'BANK-A', amountCedi: 1_000, description: `T${i}` });
+    await engine.generateBlock();
+  }
+  return gbdcId;
+}
+
+// ─── State Root ─────────────────────────────────────────
+
+describe('computeStateRoot', () => {
+  const state = {
+    accounts: [
+      { accountId: 'A', gbdcBalance: 10, crdnBalance: 0, role: UserRole.COMMERCIAL_BANK, isActive: true },
+      { accountId: 'B', gbdcBalance: 5, crdnBalance: 0, role: UserRole.COMMERCIAL_BANK, isActive: true },
+    ],
+    gbdcRegistry: [],
+    crdnRegistry: [],
+    lots: [],
+    reversals: [],
+    pledges: [],
+    creditLines: [],
+    escrows: [],
+    noteSeries: [],
+    yieldNotes: [],
+    goldReserveGrams: 100,
+    cocoaReserveKg: 0,
+  };
+
+  it('does not depend on entry order', () => {
+    expect(computeStateRoot({ ...state, accounts: [...state.accounts].reverse() })).toBe(computeStateRoot(state));
+  });
+
+  it('changes with any balance or reserve', () => {
+    const root = computeStateRoot(state);
+    expect(computeStateRoot({ ...state, accounts: [{ ...state.accounts[0], gbdcBalance: 11 }, state.accounts[1]] })).not.toBe(root);
+    expect(computeStateRoot({ ...state, goldReserveGrams: 101 })).not.toBe(root);
+  });
+});
+
+// ─── Signed Snapshots ───────────────────────────────────
+
+describe('takeSnapshot', () => {
+  it('signs the state at the tip and verifies against the validator registry', async () => {
+    const engine = await createEngine();
+    await runBlocks(engine, 2);
+    const snapshot = await engine.takeSnapshot();
+
+    expect(snapshot.blockHeight).toBe(3);
+    expect(snapshot.blockHash).toBe(engine.getLatestBlock().hash);
+    expect(storage.getSnapshotCount()).toBe(1);
+
+    const validators = new ValidatorRegistry();
+    validators.register('BOG-NODE-1', getDevelopmentKeyPair().publicKey);
+    expect(verifySnapshot(snapshot, validators)).toBe(true);
+    expect(verifySnapshot(snapshot, new ValidatorRegistry())).toBe(false);
+
+    const tampered: LedgerSnapshot = structuredClone(snapshot);
+    tampered.accounts.find(a => a.accountId === 'BANK-A')!.gbdcBalance += 1;
+    expect(verifySnapshot(tampered, validators)).toBe(false);
+  });
+
+  it('refuses while transactions are pending', async () => {
+    const engine = await createEngine();
+    await runBlocks(engine, 0);
+    engine.registerAccount('BANK-B', UserRole.COMMERCIAL_BANK);
+    await expect(engine.takeSnapshot()).rejects.toThrow('pending');
+  });
+
+  it('is taken automatically every snapshotInterval blocks', async () => {
+    const engine = await createEngine({ snapshotInterval: 2 });
+    const heights: number[] = [];
+    engine.on('snapshot:created', (e) => heights.push(e.blockHeight));
+    await runBlocks(engine, 4);
+    expect(heights).toEqual([2, 4]);
+  });
+});
+
+// ─── Restore & Pruning ──────────────────────────────────
+
+describe('restoring from a snapshot', () => {
+  it('rebuilds identical state from the snapshot and later blocks', async () => {
+    const engine = await createEngine();
+    const gbdcId = await runBlocks(engine, 2);
+    await engine.takeSnapshot();
+    engine.registerAccount('BANK-B', UserRole.COMMERCIAL_BANK);
+    engine.registerGoldReserve(500, 'gold-attest-2');
+    engine.transferGBDC({ instrumentId: gbdcId, fromAccount: 'BANK-A', toAccount: 'BANK-B', amountCedi: 500, description: 'After' });
+    await engine.generateBlock();
+
+    const stored = await storage.load();
+    expect(stored.blocks.map(block => block.header.blockHeight)).toEqual([3, 4]);
+
+    const restarted = new LedgerEngine('BOG-NODE-1', { storage });
+    await restarted.initialize();
+    expect(restarted.getChainHeight()).toBe(4);
+    expect(restarted.getLatestBlock().hash).toBe(engine.getLatestBlock().hash);
+    expect(restarted.getReserveSummary()).toEqual(engine.getReserveSummary());
+    expect(restarted.getAccountBalance('BANK-B')!.gbdcBalance).toBe(500);
+    expect(restarted.getGBDCLots()).toEqual(engine.getGBDCLots());
+    expect(restarted.checkBalances().balanced).toBe(true);
+  });
+
+  it('refuses a snapshot whose state was altered in storage', async () => {
+    const engine = await createEngine();
+    await runBlocks(engine, 1);
+    await engine.takeSnapshot();
+    const snapshots = (storage as any).snapshots as LedgerSnapshot[];
+    snapshots[0].goldReserveGrams *= 2;
+
+    const restarted = new LedgerEngine('BOG-NODE-1', { storage });
+    await expect(restarted.initialize()).rejects.toThrow(/LEDGER_005/);
+  });
+
+  it('prunes covered blocks from memory but can still fetch them from storage', async () => {
+    const engine = await createEngine({ retainedBlocks: 2 });
+    await runBlocks(engine, 4);
+    await engine.takeSnapshot();
+
+    expect(engine.getChainHeight()).toBe(5);
+    expect(engine.getBlock(3)).toBeUndefined();
+    expect(engine.getBlock(4)).toBeDefined();
+    expect((await engine.fetchBlock(1))!.header.blockHeight).toBe(1);
+    expect(await engine.fetchBlock(9)).toBeUndefined();
+
+    // Transactions in pruned blocks can still be proved
+    const pruned = (await engine.fetchBlock(2))!;
+    const proof = (await engine.getMerkleProof(2, pruned.transactions[0].txId))!;
+    expect(proof.blockHash).toBe(pruned.hash);
+    expect(verifyMerkleProof(proof, pruned.header.merkleRoot)).toBe(true);
+
+    engine.transferGBDC({ fromAccount: 'BANK-A', toAccount: 'BOG_TREASURY', amountCedi: 100, description: 'Still extends' });
+    const block = await engine.generateBlock();
+    expect(block!.header.blockHeight).toBe(6);
+  });
+});
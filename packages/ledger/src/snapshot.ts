@@ -0,0 +1,108 @@
+/**
+ * GOVRES — Ledger State Snapshots
+ *
+ * A snapshot captures the engine's full state at a block height: account
+ * balances, both instrument registries, unspent GBDC lots, reversals,
+ * collateral pledges and credit lines, project escrows, yield note
+ * series and notes, and reserve totals. A Merkle root over every entry
+ * commits to that state, and the validator that took the snapshot signs it. An engine restored from a
+ * snapshot only replays the blocks after it, so older blocks can be
+ * dropped from memory while they remain in storage.
+ */
+
+import crypto from 'crypto';
+import { SYSTEM } from '@govres/shared';
+import { signData, verifySignature } from '@govres/security';
+import { LedgerBlock, computeMerkleRootOfHashes } from './block';
+import { ValidatorRegistry, canonicalJson } from './validator';
+import { AccountBalance, GBDCRecord, CRDNRecord, GBDCLot } from './engine';
+import { Pledge, CreditLine } from './collateral';
+import { Escrow } from './escrow';
+import { NoteSeries, YieldNoteHolding } from './yield-notes';
+
+export interface SnapshotState {
+  accounts: AccountBalance[];
+  gbdcRegistry: GBDCRecord[];
+  crdnRegistry: CRDNRecord[];
+  lots: GBDCLot[];
+  reversals: { originalTxId: string; reversalTxId: string }[];
+  pledges: Pledge[];
+  creditLines: CreditLine[];
+  escrows: Escrow[];
+  noteSeries: NoteSeries[];
+  yieldNotes: YieldNoteHolding[];
+  goldReserveGrams: number;
+  cocoaReserveKg: number;
+}
+
+export interface LedgerSnapshot extends SnapshotState {
+  blockHeight: number;
+  blockHash: string;
+  stateRoot: string;
+  validatorId: string;
+  signature: string;
+  createdAt: Date;
+}
+
+/**
+ * Merkle root over every state entry. Leaves are sorted, so the root does
+ * not depend on the order entries were created or stored in.
+ */
+export function computeStateRoot(state: SnapshotState): string {
+  const entries = [
+    ...state.accounts.map(account => `account:${canonicalJson(account)}`),
+    ...state.gbdcRegistry.map(gbdc => `gbdc:${canonicalJson(gbdc)}`),
+    ...state.crdnRegistry.map(crdn => `crdn:${canonicalJson(crdn)}`),
+    ...state.lots.map(lot => `lot:${canonicalJson(lot)}`),
+    ...state.reversals.map(reversal => `reversal:${canonicalJson(reversal)}`),
+    ...state.pledges.map(pledge => `pledge:${canonicalJson(pledge)}`),
+    ...state.creditLines.map(line => `credit:${canonicalJson(line)}`),
+    ...state.escrows.map(escrow => `escrow:${canonicalJson(escrow)}`),
+    ...state.noteSeries.map(series => `note_series:${canonicalJson(series)}`),
+    ...state.yieldNotes.map(note => `yield_note:${canonicalJson(note)}`),
+    `reserves:${canonicalJson({ goldReserveGrams: state.goldReserveGrams, cocoaReserveKg: state.cocoaReserveKg })}`,
+  ];
+  const leaves = entries.map(entry => crypto.createHash(SYSTEM.HASH_ALGORITHM).update(entry).digest('hex'));
+  return computeMerkleRootOfHashes(leaves.sort());
+}
+
+function snapshotSigningPayload(snapshot: Pick<LedgerSnapshot, 'blockHeight' | 'blockHash' | 'stateRoot' | 'validatorId'>): string {
+  return `${snapshot.blockHeight}:${snapshot.blockHash}:${snapshot.stateRoot}:${snapshot.validatorId}`;
+}
+
+/**
+ * Take a signed snapshot of state as of block
+ */
+export function createSnapshot(
+  state: SnapshotState,
+  block: LedgerBlock,
+  validatorId: string,
+  privateKey: string
+): LedgerSnapshot {
+  const snapshot: LedgerSnapshot = {
+    ...structuredClone(state),
+    blockHeight: block.header.blockHeight,
+    blockHash: block.hash,
+    stateRoot: computeStateRoot(state),
+    validatorId,
+    signature: '',
+    createdAt: new Date(),
+  };
+  snapshot.signature = signData(snapshotSigningPayload(snapshot), privateKey);
+  return snapshot;
+}
+
+/**
+ * Check that a snapshot's contents match its state root and that the root
+ * is signed by an authorised validator
+ */
+export function verifySnapshot(snapshot: LedgerSnapshot, validators: ValidatorRegistry): boolean {
+  const publicKey = validators.getPublicKey(snapshot.validatorId);
+  if (!publicKey) return false;
+  if (computeStateRoot(snapshot) !== snapshot.stateRoot) return false;
+  try {
+    return verifySignature(snapshotSigningPayload(snapshot), snapshot.signature, publicKey);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * GOVRES — Ledger Storage Tests
+ * Block persistence, crash recovery by chain replay, and the Postgres backend
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LedgerEngine } from './engine';
+import { MemoryLedgerStorage, PostgresLedgerStorage, SqlPool, SqlClient } from './storage';
+import { UserRole, GBDCStatus, CRDNStatus } from '@govres/shared';
+
+// ─── Helpers ────────────────────────────────────────────
+
+async function seedEngine(engine: LedgerEngine) {
+  engine.registerGoldReserve(1_000_000, 'gold-attest');
+  engine.registerCocoaReserve(50_000, 'cocoa-attest');
+  engine.registerAccount('BANK-A', UserRole.COMMERCIAL_BANK);
+  engine.registerAccount('FARMER-1', UserRole.FARMER);
+  engine.registerAccount('LBC-1', UserRole.LBC);
+
+  const gbdcId = engine.mintGBDC({
+    amountCedi: 100_000,
+    goldBackingGrams: 5_000,
+    goldPricePerGramUSD: 80,
+    exchangeRateUSDGHS: 15,
+    issuanceId: 'ISS-P1',
+    issuedBy: 'BOG_TREASURY',
+  });
+  engine.transferGBDC({
+    instrumentId: gbdcId,
+    fromAccount: 'BOG_TREASURY',
+    toAccount: 'BANK-A',
+    amountCedi: 40_000,
+    description: 'Settlement',
+  });
+  const crdnId = engine.issueCRDN({
+    farmerId: 'FARMER-1',
+    lbcId: 'LBC-1',
+    cocoaWeightKg: 640,
+    pricePerKgGHS: 50,
+    warehouseReceiptId: 'WR-P1',
+    seasonYear: '2025/2026',
+    attestationHash: 'attest-p1',
+  });
+  engine.convertCRDN({ instrumentId: crdnId, farmerId: 'FARMER-1', targetInstrument: 'GBDC' });
+
+  return { gbdcId, crdnId };
+}
+
+/* Records every statement so tests can assert on the SQL issued */
+function makeFakePool(failOn?: RegExp) {
+  const statements: string[] = [];
+  let released = 0;
+  const run = async (text: string) => {
+    statements.push(text.trim().split(/\s+/).slice(0, 3).join(' '));
+    if (failOn && failOn.test(text)) throw new Error('simulated write failure');
+    return { rows: [] };
+  };
+  const client: SqlClient = { query: run, release: () => { released++; } };
+  const pool: SqlPool = { query: run, connect: async () => client };
+  return { pool, statements, released: () => released };
+}
+
+// ─── MemoryLedgerStorage ────────────────────────────────
+
+describe('MemoryLedgerStorage', () => {
+  it('commits the genesis block on initialize', async () => {
+    const storage = new MemoryLedgerStorage();
+    const engine = new LedgerEngine('BOG-NODE-1', { storage });
+    await engine.initialize();
+    expect(storage.getBlockCount()).toBe(1);
+  });
+
+  it('rejects a block that does not extend the stored chain', async () => {
+    const storage = new MemoryLedgerStorage();
+    const engine = new LedgerEngine('BOG-NODE-1', { storage });
+    await engine.initialize();
+    const genesis = engine.getBlock(0)!;
+    await expect(storage.commitBlock({ block: genesis, accounts: [], reserves: [] })).rejects.toThrow();
+  });
+
+  it('returns copies that cannot mutate stored blocks', async () => {
+    const storage = new MemoryLedgerStorage();
+    const engine = new LedgerEngine('BOG-NODE-1', { storage });
+    await engine.initialize();
+    const loaded = await storage.load();
+    loaded.blocks[0].hash = 'tampered';
+    const reloaded = await storage.load();
+    expect(reloaded.blocks[0].hash).toBe(engine.getBlock(0)!.hash);
+  });
+});
+
+// ─── Crash Recovery ─────────────────────────────────────
+
+describe('LedgerEngine crash recovery', () => {
+  let storage: MemoryLedgerStorage;
+  let engine: LedgerEngine;
+
+  beforeEach(async () => {
+    storage = new MemoryLedgerStorage();
+    engine = new LedgerEngine('BOG-NODE-1', { storage });
+    await engine.initialize();
+  });
+
+  it('generateBlock seals pending transactions into a persisted block', async () => {
+    await seedEngine(engine);
+    const block = await engine.generateBlock();
+    expect(block).not.toBeNull();
+    expect(block!.transactions).toHaveLength(4);
+    expect(engine.getChainHeight()).toBe(1);
+    expect(storage.getBlockCount()).toBe(2);
+    expect(engine.getReserveSummary().pendingTransactions).toBe(0);
+  });
+
+  it('rebuilds balances, registries and reserves by replaying the chain', async () => {
+    const { gbdcId, crdnId } = await seedEngine(engine);
+    await engine.generateBlock();
+
+    const restarted = new LedgerEngine('BOG-NODE-1', { storage });
+    await restarted.initialize();
+
+    expect(restarted.getChainHeight()).toBe(1);
+    expect(restarted.getLatestBlock().hash).toBe(engine.getLatestBlock().hash);
+    expect(restarted.getAccountBalance('BOG_TREASURY')!.gbdcBalance).toBe(60_000);
+    expect(restarted.getAccountBalance('BANK-A')!.gbdcBalance).toBe(40_000);
+    expect(restarted.getAccountBalance('FARMER-1')!.gbdcBalance).toBe(32_000);
+    expect(restarted.getAccountBalance('FARMER-1')!.crdnBalance).toBe(0);
+    expect(restarted.getGBDCRecord(gbdcId)!.status).toBe(GBDCStatus.CIRCULATING);
+    expect(restarted.getCRDNRecord(crdnId)!.status).toBe(CRDNStatus.CONVERTED);
+    expect(restarted.getCRDNRecord(crdnId)!.lbcId).toBe('LBC-1');
+    expect(restarted.getReserveSummary()).toEqual(engine.getReserveSummary());
+  });
+
+  it('loses only transactions that were never sealed into a block', async () => {
+    const { gbdcId } = await seedEngine(engine);
+    await engine.generateBlock();
+    engine.transferGBDC({
+      instrumentId: gbdcId,
+      fromAccount: 'BANK-A',
+      toAccount: 'BOG_TREASURY',
+      amountCedi: 10_000,
+      description: 'Unsealed',
+    });
+
+    const restarted = new LedgerEngine('BOG-NODE-1', { storage });
+    await restarted.initialize();
+    expect(restarted.getAccountBalance('BANK-A')!.gbdcBalance).toBe(40_000);
+  });
+
+  it('persists account registrations even when no transactions are pending', async () => {
+    engine.registerAccount('BANK-B', UserRole.COMMERCIAL_BANK);
+    await engine.generateBlock();
+
+    const restarted = new LedgerEngine('BOG-NODE-1', { storage });
+    await restarted.initialize();
+    expect(restarted.getAccountBalance('BANK-B')!.role).toBe(UserRole.COMMERCIAL_BANK);
+  });
+
+  it('emits ledger:recovered when restoring from storage', async () => {
+    await seedEngine(engine);
+    await engine.generateBlock();
+
+    const restarted = new LedgerEngine('BOG-NODE-1', { storage });
+    let recovered: any = null;
+    restarted.on('ledger:recovered', (d) => { recovered = d; });
+    await restarted.initialize();
+    expect(recovered).toEqual(expect.objectContaining({ blockHeight: 1 }));
+  });
+
+  it('refuses to start from a tampered chain', async () => {
+    await seedEngine(engine);
+    await engine.generateBlock();
+
+    const tampered = new MemoryLedgerStorage();
+    const stored = await storage.load();
+    stored.blocks[1].transactions[0].amount = 999_999_999;
+    stored.blocks[1].transactions[0].signature = 'forged';
+    for (const block of stored.blocks) {
+      await tampered.commitBlock({ block, accounts: [], reserves: [] });
+    }
+
+    const restarted = new LedgerEngine('BOG-NODE-1', { storage: tampered });
+    await expect(restarted.initialize()).rejects.toThrow(/LEDGER_005/);
+  });
+
+  it('returns transactions to the pending pool when the commit fails', async () => {
+    await seedEngine(engine);
+    const failing = new MemoryLedgerStorage();
+    failing.commitBlock = async () => { throw new Error('disk full'); };
+    (engine as any).storage = failing;
+
+    let failed: any = null;
+    engine.on('block:commit_failed', (d) => { failed = d; });
+    await expect(engine.generateBlock()).rejects.toThrow('disk full');
+    expect(failed.blockHeight).toBe(1);
+    expect(engine.getChainHeight()).toBe(0);
+    expect(engine.getReserveSummary().pendingTransactions).toBe(4);
+  });
+});
+
+// ─── PostgresLedgerStorage ──────────────────────────────
+
+describe('PostgresLedgerStorage', () => {
+  it('writes a block inside a single database transaction', async () => {
+    const fake = makeFakePool();
+    const engine = new LedgerEngine('BOG-NODE-1', { storage: new PostgresLedgerStorage(fake.pool) });
+    await engine.initialize();
+
+    expect(fake.statements[fake.statements.length - 1]).toBe('COMMIT');
+    expect(fake.statements).toContain('BEGIN');
+    expect(fake.statements.filter(s => s.startsWith('INSERT INTO ledger_accounts'))).toHaveLength(3);
+    expect(fake.released()).toBe(1);
+  });
+
+  it('rolls back and releases the client when a write fails', async () => {
+    const fake = makeFakePool(/INSERT INTO ledger_accounts/);
+    const engine = new LedgerEngine('BOG-NODE-1', { storage: new PostgresLedgerStorage(fake.pool) });
+    await expect(engine.initialize()).rejects.toThrow('simulated write failure');
+    expect(fake.statements).toContain('ROLLBACK');
+    expect(fake.statements).not.toContain('COMMIT');
+    expect(fake.released()).toBe(1);
+  });
+
+  it('maps stored rows back into blocks and transactions', async () => {
+    const timestamp = new Date('2025-06-01T00:00:00.000Z');
+    const pool: SqlPool = {
+      connect: async () => { throw new Error('not used'); },
+      query: async (text: string) => {
+        if (text.includes('FROM ledger_blocks')) {
+          return { rows: [{ block_height: '1', previous_hash: 'p', hash: 'h', merkle_root: 'm', transaction_count: 1, validator_id: 'V', validator_signature: null, nonce: '0', block_timestamp: timestamp }] };
+        }
+        if (text.includes('FROM ledger_transactions')) {
+          return { rows: [{ tx_id: 'tx1', block_height: '1', tx_type: 'MINT', instrument_type: 'GBDC', instrument_id: 'G1', from_account: 'BOG_RESERVE', to_account: 'BOG_TREASURY', amount_cedi: '1000.0000', tx_data: { issuanceId: 'I' }, signature_hash: 's', created_at: timestamp }] };
+        }
+        if (text.includes('FROM ledger_snapshots')) return { rows: [] };
+        if (text.includes('FROM ledger_accounts')) {
+          return { rows: [{ account_id: 'BOG_TREASURY', role: 'BOG_ADMIN', is_active: true, registered_at: timestamp }] };
+        }
+        return { rows: [{ asset_type: 'GOLD', quantity: '500.000000', attestation_hash: 'a', recorded_at: timestamp }] };
+      },
+    };
+
+    const stored = await new PostgresLedgerStorage(pool).load();
+    expect(stored.blocks[0].header.blockHeight).toBe(1);
+    expect(stored.blocks[0].header.validatorSignature).toBe('');
+    expect(stored.blocks[0].transactions[0].amount).toBe(1000);
+    expect(stored.accounts[0].role).toBe(UserRole.BOG_ADMIN);
+    expect(stored.reserves[0].quantity).toBe(500);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * GOVRES — Ledger Storage
+ *
+ * Pluggable persistence backends for the LedgerEngine.
+ * The engine keeps its working state in memory and commits every
+ * generated block — together with the account registrations and
+ * reserve attestations recorded since the previous block — as a single
+ * atomic unit. On restart the engine rebuilds its full state from the
+ * latest state snapshot, replaying only the blocks stored after it (or
+ * the whole chain when no snapshot has been taken).
+ *
+ * Two backends are provided:
+ * - MemoryLedgerStorage: default, process-local (tests, simulations)
+ * - PostgresLedgerStorage: durable, backed by the ledger_* tables
+ */
+
+import { UserRole } from '@govres/shared';
+import { LedgerBlock, BlockTransaction } from './block';
+import { LedgerSnapshot } from './snapshot';
+
+// ─── Storage Types ──────────────────────────────────────────────
+
+export interface StoredAccount {
+  accountId: string;
+  role: UserRole;
+  isActive: boolean;
+  registeredAt: Date;
+}
+
+export interface ReserveEntry {
+  assetType: 'GOLD' | 'COCOA';
+  quantity: number;              // grams for GOLD, kg for COCOA
+  attestationHash: string;
+  recordedAt: Date;
+}
+
+/* Everything that must be written atomically with a block */
+export interface BlockCommit {
+  block: LedgerBlock;
+  accounts: StoredAccount[];
+  reserves: ReserveEntry[];
+}
+
+/**
+ * Persisted ledger, as returned on startup. With a snapshot, blocks start
+ * at the snapshot's height and reserves only cover later blocks; accounts
+ * are always complete.
+ */
+export interface StoredLedger {
+  snapshot?: LedgerSnapshot;
+  blocks: LedgerBlock[];
+  accounts: StoredAccount[];
+  reserves: ReserveEntry[];
+}
+
+export interface LedgerStorage {
+  /** Load the ledger from the latest snapshot onwards, blocks ordered by height */
+  load(): Promise<StoredLedger>;
+
+  /** Atomically persist a block and its accompanying state changes */
+  commitBlock(commit: BlockCommit): Promise<void>;
+
+  /** Persist a state snapshot taken at an already committed block */
+  saveSnapshot(snapshot: LedgerSnapshot): Promise<void>;
+
+  /** Load committed blocks with heights in [fromHeight, toHeight] */
+  loadBlocks(fromHeight: number, toHeight: number): Promise<LedgerBlock[]>;
+}
+
+// ─── In-Memory Storage ──────────────────────────────────────────
+
+export class MemoryLedgerStorage implements LedgerStorage {
+  private blocks: LedgerBlock[] = [];
+  private accounts: StoredAccount[] = [];
+  private reserves: { blockHeight: number; entry: ReserveEntry }[] = [];
+  private snapshots: LedgerSnapshot[] = [];
+
+  async load(): Promise<StoredLedger> {
+    const snapshot = this.snapshots[this.snapshots.length - 1];
+    const fromHeight = snapshot?.blockHeight ?? 0;
+    return structuredClone({
+      snapshot,
+      blocks: this.blocks.filter(block => block.header.blockHeight >= fromHeight),
+      accounts: this.accounts,
+      reserves: this.reserves
+        .filter(reserve => !snapshot || reserve.blockHeight > snapshot.blockHeight)
+        .map(reserve => reserve.entry),
+    });
+  }
+
+  async commitBlock(commit: BlockCommit): Promise<void> {
+    const tip = this.blocks[this.blocks.length - 1];
+    if (tip && commit.block.header.blockHeight !== tip.header.blockHeight + 1) {
+      throw new Error(`Block ${commit.block.header.blockHeight} does not extend stored chain at height ${tip.header.blockHeight}`);
+    }
+    const copy = structuredClone(commit);
+    this.blocks.push(copy.block);
+    this.accounts.push(...copy.accounts);
+    this.reserves.push(...copy.reserves.map(entry => ({ blockHeight: copy.block.header.blockHeight, entry })));
+  }
+
+  async saveSnapshot(snapshot: LedgerSnapshot): Promise<void> {
+    if (!this.blocks.some(block => block.hash === snapshot.blockHash)) {
+      throw new Error(`Snapshot at height ${snapshot.blockHeight} does not match a stored block`);
+    }
+    this.snapshots.push(structuredClone(snapshot));
+  }
+
+  async loadBlocks(fromHeight: number, toHeight: number): Promise<LedgerBlock[]> {
+    return structuredClone(this.blocks.filter(block =>
+      block.header.blockHeight >= fromHeight && block.header.blockHeight <= toHeight
+    ));
+  }
+
+  getBlockCount(): number {
+    return this.blocks.length;
+  }
+
+  getSnapshotCount(): number {
+    return this.snapshots.length;
+  }
+}
+
+// ─── PostgreSQL Storage ─────────────────────────────────────────
+
+/* Minimal subset of the pg Pool / PoolClient API used by the storage */
+export interface SqlClient {
+  query(text: string, params?: unknown[]): Promise<{ rows: any[] }>;
+  release(): void;
+}
+
+export interface SqlPool {
+  query(text: string, params?: unknown[]): Promise<{ rows: any[] }>;
+  connect(): Promise<SqlClient>;
+}
+
+export class PostgresLedgerStorage implements LedgerStorage {
+  constructor(private readonly pool: SqlPool) {}
+
+  async load(): Promise<StoredLedger> {
+    const snapshotRows = await this.pool.query(
+      `SELECT block_height, block_hash, state_root, validator_id, signature, state, created_at
+       FROM ledger_snapshots ORDER BY block_height DESC LIMIT 1`
+    );
+    const snapshot = snapshotRows.rows.length > 0 ? toSnapshot(snapshotRows.rows[0]) : undefined;
+
+    const blocks = await this.readBlocks(snapshot?.blockHeight ?? 0);
+    const accountRows = await this.pool.query(
+      'SELECT account_id, role, is_active, registered_at FROM ledger_accounts ORDER BY registered_at ASC'
+    );
+    const reserveRows = await this.pool.query(
+      `SELECT asset_type, quantity, attestation_hash, recorded_at FROM ledger_reserve_entries
+       WHERE block_height >= $1 ORDER BY recorded_at ASC`,
+      [snapshot ? snapshot.blockHeight + 1 : 0]
+    );
+
+    return {
+      snapshot,
+      blocks,
+      accounts: accountRows.rows.map(row => ({
+        accountId: row.account_id,
+        role: row.role as UserRole,
+        isActive: row.is_active,
+        registeredAt: new Date(row.registered_at),
+      })),
+      reserves: reserveRows.rows.map(row => ({
+        assetType: row.asset_type,
+        quantity: Number(row.quantity),
+        attestationHash: row.attestation_hash,
+        recordedAt: new Date(row.recorded_at),
+      })),
+    };
+  }
+
+  async loadBlocks(fromHeight: number, toHeight: number): Promise<LedgerBlock[]> {
+    return this.readBlocks(fromHeight, toHeight);
+  }
+
+  async saveSnapshot(snapshot: LedgerSnapshot): Promise<void> {
+    const { blockHeight, blockHash, stateRoot, validatorId, signature, createdAt, ...state } = snapshot;
+    await this.pool.query(
+      `INSERT INTO ledger_snapshots (block_height, block_hash, state_root, validator_id, signature, state, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (block_height) DO NOTHING`,
+      [blockHeight, blockHash, stateRoot, validatorId, signature, JSON.stringify(state), createdAt]
+    );
+  }
+
+  private async readBlocks(fromHeight: number, toHeight = Number.MAX_SAFE_INTEGER): Promise<LedgerBlock[]> {
+    const blockRows = await this.pool.query(
+      `SELECT block_height, previous_hash, hash, merkle_root, transaction_count,
+              validator_id, validator_signature, nonce, block_timestamp
+       FROM ledger_blocks WHERE block_height BETWEEN $1 AND $2 ORDER BY block_height ASC`,
+      [fromHeight, toHeight]
+    );
+    const txRows = await this.pool.query(
+      `SELECT tx_id, block_height, tx_type, instrument_type, instrument_id, from_account,
+              to_account, amount_cedi, tx_data, signature_hash, created_at
+       FROM ledger_transactions
+       WHERE block_height BETWEEN $1 AND $2
+       ORDER BY block_height ASC, block_position ASC`,
+      [fromHeight, toHeight]
+    );
+
+    const txByHeight = new Map<number, BlockTransaction[]>();
+    for (const row of txRows.rows) {
+      const height = Number(row.block_height);
+      const list = txByHeight.get(height) ?? [];
+      list.push({
+        txId: row.tx_id,
+        type: row.tx_type,
+        instrumentType: row.instrument_type,
+        instrumentId: row.instrument_id,
+        fromAccount: row.from_account,
+        toAccount: row.to_account,
+        amount: Number(row.amount_cedi),
+        timestamp: new Date(row.created_at),
+        data: row.tx_data ?? {},
+        signature: row.signature_hash,
+      });
+      txByHeight.set(height, list);
+    }
+
+    return blockRows.rows.map(row => {
+      const blockHeight = Number(row.block_height);
+      return {
+        header: {
+          blockHeight,
+          previousHash: row.previous_hash,
+          timestamp: new Date(row.block_timestamp),
+          merkleRoot: row.merkle_root,
+          transactionCount: Number(row.transaction_count),
+          validatorId: row.validator_id,
+          validatorSignature: row.validator_signature ?? '',
+          nonce: Number(row.nonce),
+        },
+        transactions: txByHeight.get(blockHeight) ?? [],
+        hash: row.hash,
+      };
+    });
+  }
+
+  async commitBlock(commit: BlockCommit): Promise<void> {
+    const { block } = commit;
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `INSERT INTO ledger_blocks (block_height, previous_hash, hash, merkle_root, transaction_count, validator_id, validator_signature, nonce, block_timestamp)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          block.header.blockHeight, block.header.previousHash, block.hash, block.header.merkleRoot,
+          block.header.transactionCount, block.header.validatorId, block.header.validatorSignature,
+          block.header.nonce, block.header.timestamp,
+        ]
+      );
+
+      for (let i = 0; i < block.transactions.length; i++) {
+        const tx = block.transactions[i];
+        await client.query(
+          `INSERT INTO ledger_transactions (tx_id, block_height, block_position, tx_type, instrument_type, instrument_id, from_account, to_account, amount_cedi, status, description, signature_hash, tx_data, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'CONFIRMED', $10, $11, $12, $13)`,
+          [
+            tx.txId, block.header.blockHeight, i, tx.type, tx.instrumentType, tx.instrumentId,
+            tx.fromAccount, tx.toAccount, tx.amount,
+            typeof tx.data.description === 'string' ? tx.data.description : null,
+            tx.signature, JSON.stringify(tx.data), tx.timestamp,
+          ]
+        );
+      }
+
+      for (const account of commit.accounts) {
+        await client.query(
+          `INSERT INTO ledger_accounts (account_id, role, is_active, registered_at)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (account_id) DO UPDATE SET role = EXCLUDED.role, is_active = EXCLUDED.is_active`,
+          [account.accountId, account.role, account.isActive, account.registeredAt]
+        );
+      }
+
+      for (const reserve of commit.reserves) {
+        await client.query(
+          `INSERT INTO ledger_reserve_entries (asset_type, quantity, attestation_hash, block_height, recorded_at)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [reserve.assetType, reserve.quantity, reserve.attestationHash, block.header.blockHeight, reserve.recordedAt]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+/* JSONB turns dates into strings; restore them so the state root still matches */
+function toSnapshot(row: any): LedgerSnapshot {
+  const state = row.state;
+  return {
+    ...state,
+    gbdcRegistry: state.gbdcRegistry.map((gbdc: any) => ({ ...gbdc, mintedAt: new Date(gbdc.mintedAt) })),
+    crdnRegistry: state.crdnRegistry.map((crdn: any) => ({ ...crdn, issuedAt: new Date(crdn.issuedAt), expiresAt: new Date(crdn.expiresAt) })),
+    // Snapshots taken before these features existed have no collateral, escrow or yield note state
+    pledges: (state.pledges ?? []).map((pledge: any) => ({ ...pledge, pledgedAt: new Date(pledge.pledgedAt) })),
+    creditLines: (state.creditLines ?? []).map((line: any) => ({ ...line, lastAccrualAt: new Date(line.lastAccrualAt) })),
+    escrows: (state.escrows ?? []).map((escrow: any) => ({ ...escrow, fundedAt: new Date(escrow.fundedAt) })),
+    noteSeries: (state.noteSeries ?? []).map((series: any) => ({ ...series, issuedAt: new Date(series.issuedAt), maturityDate: new Date(series.maturityDate) })),
+    yieldNotes: (state.yieldNotes ?? []).map((note: any) => ({ ...note, lastCouponAt: new Date(note.lastCouponAt), subscribedAt: new Date(note.subscribedAt) })),
+    blockHeight: Number(row.block_height),
+    blockHash: row.block_hash,
+    stateRoot: row.state_root,
+    validatorId: row.validator_id,
+    signature: row.signature,
+    createdAt: new Date(row.created_at),
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * GOVRES — Validator Signature Tests
+ * Validator registry, transaction/block signing, and signature checks in validateBlock
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { generateSigningKeyPair } from '@govres/security';
+import { UserRole } from '@govres/shared';
+import { computeBlockHash, computeMerkleRoot, validateBlock, BlockTransaction, LedgerBlock } from './block';
+import {
+  ValidatorRegistry,
+  ValidatorKeyPair,
+  signTransaction,
+  verifyTransactionSignature,
+  signBlock,
+  getDevelopmentKeyPair,
+} from './validator';
+import { LedgerEngine } from './engine';
+import { MemoryLedgerStorage } from './storage';
+
+// ─── Helpers ────────────────────────────────────────────
+
+let nodeKey: ValidatorKeyPair;
+let rogueKey: ValidatorKeyPair;
+
+beforeAll(() => {
+  nodeKey = getDevelopmentKeyPair();
+  rogueKey = generateSigningKeyPair();
+}, 60_000);
+
+function makeSignedTx(key: ValidatorKeyPair, partial: Partial<BlockTransaction> = {}): BlockTransaction {
+  const tx: BlockTransaction = {
+    txId: 'TX-001',
+    type: 'TRANSFER',
+    instrumentType: 'GBDC',
+    instrumentId: 'GBDC-001',
+    fromAccount: 'BOG_TREASURY',
+    toAccount: 'BANK-A',
+    amount: 10_000,
+    timestamp: new Date('2025-01-01'),
+    data: { description: 'Settlement', nested: { b: 2, a: 1 } },
+    signature: '',
+    ...partial,
+  };
+  tx.signature = signTransaction(tx, key.privateKey);
+  return tx;
+}
+
+function makeSignedBlock(key: ValidatorKeyPair, txs: BlockTransaction[], validatorId = 'BOG-NODE-1'): LedgerBlock {
+  const header = {
+    blockHeight: 1,
+    previousHash: '0'.repeat(64),
+    timestamp: new Date('2025-01-01'),
+    merkleRoot: computeMerkleRoot(txs),
+    transactionCount: txs.length,
+    validatorId,
+    validatorSignature: '',
+    nonce: 0,
+  };
+  const block: LedgerBlock = { header, transactions: txs, hash: computeBlockHash(header) };
+  header.validatorSignature = signBlock(block, key.privateKey);
+  return block;
+}
+
+function registryWith(validatorId: string, key: ValidatorKeyPair): ValidatorRegistry {
+  const registry = new ValidatorRegistry();
+  registry.register(validatorId, key.publicKey);
+  return registry;
+}
+
+// ─── ValidatorRegistry ──────────────────────────────────
+
+describe('ValidatorRegistry', () => {
+  it('registers and revokes validators', () => {
+    const registry = registryWith('BOG-NODE-1', nodeKey);
+    expect(registry.isAuthorised('BOG-NODE-1')).toBe(true);
+    expect(registry.getValidatorIds()).toEqual(['BOG-NODE-1']);
+    expect(registry.revoke('BOG-NODE-1')).toBe(true);
+    expect(registry.isAuthorised('BOG-NODE-1')).toBe(false);
+  });
+
+  it('refuses to replace a validator key silently', () => {
+    const registry = registryWith('BOG-NODE-1', nodeKey);
+    expect(() => registry.register('BOG-NODE-1', rogueKey.publicKey)).toThrow();
+    expect(() => registry.register('BOG-NODE-1', nodeKey.publicKey)).not.toThrow();
+  });
+});
+
+// ─── Transaction Signatures ─────────────────────────────
+
+describe('transaction signatures', () => {
+  it('verifies against the signing key only', () => {
+    const tx = makeSignedTx(nodeKey);
+    expect(verifyTransactionSignature(tx, nodeKey.publicKey)).toBe(true);
+    expect(verifyTransactionSignature(tx, rogueKey.publicKey)).toBe(false);
+  });
+
+  it('fails when any signed field is altered', () => {
+    const tx = makeSignedTx(nodeKey);
+    expect(verifyTransactionSignature({ ...tx, amount: 99_999 }, nodeKey.publicKey)).toBe(false);
+    expect(verifyTransactionSignature({ ...tx, toAccount: 'BANK-X' }, nodeKey.publicKey)).toBe(false);
+    expect(verifyTransactionSignature({ ...tx, data: { description: 'Other' } }, nodeKey.publicKey)).toBe(false);
+  });
+
+  it('survives storage that reorders keys or trims amount precision', () => {
+    const tx = makeSignedTx(nodeKey, { amount: 63_929.6 + 1e-9 });
+    const roundTripped = { ...tx, amount: 63_929.6, data: { nested: { a: 1, b: 2 }, description: 'Settlement' } };
+    expect(verifyTransactionSignature(roundTripped, nodeKey.publicKey)).toBe(true);
+  });
+
+  it('rejects a malformed signature without throwing', () => {
+    const tx = { ...makeSignedTx(nodeKey), signature: 'not-base64-%%' };
+    expect(verifyTransactionSignature(tx, nodeKey.publicKey)).toBe(false);
+  });
+});
+
+// ─── validateBlock with a registry ──────────────────────
+
+describe('validateBlock signature checks', () => {
+  it('accepts a block signed by an authorised validator', () => {
+    const block = makeSignedBlock(nodeKey, [makeSignedTx(nodeKey)]);
+    expect(validateBlock(block, undefined, registryWith('BOG-NODE-1', nodeKey))).toBe(true);
+  });
+
+  it('rejects a block from an unregistered validator', () => {
+    const block = makeSignedBlock(nodeKey, [makeSignedTx(nodeKey)], 'ROGUE-NODE');
+    expect(validateBlock(block, undefined, registryWith('BOG-NODE-1', nodeKey))).toBe(false);
+  });
+
+  it('rejects a block signed with the wrong key', () => {
+    const block = makeSignedBlock(rogueKey, [makeSignedTx(rogueKey)]);
+    expect(validateBlock(block, undefined, registryWith('BOG-NODE-1', nodeKey))).toBe(false);
+  });
+
+  it('rejects a block carrying a transaction signed by another key', () => {
+    const block = makeSignedBlock(nodeKey, [makeSignedTx(rogueKey)]);
+    expect(validateBlock(block, undefined, registryWith('BOG-NODE-1', nodeKey))).toBe(false);
+  });
+
+  it('rejects an unsigned block', () => {
+    const block = makeSignedBlock(nodeKey, []);
+    block.header.validatorSignature = '';
+    expect(validateBlock(block, undefined, registryWith('BOG-NODE-1', nodeKey))).toBe(false);
+  });
+});
+
+// ─── LedgerEngine signing ───────────────────────────────
+
+describe('LedgerEngine signing', () => {
+  it('signs genesis, produced blocks and transactions', async () => {
+    const validators = new ValidatorRegistry();
+    const engine = new LedgerEngine('BOG-NODE-1', { signingKey: nodeKey, validators });
+    await engine.initialize();
+    engine.registerAccount('BANK-A', UserRole.COMMERCIAL_BANK);
+    engine.registerGoldReserve(1_000_000, 'attest');
+    engine.mintGBDC({
+      amountCedi: 100_000,
+      goldBackingGrams: 5_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-1',
+      issuedBy: 'BOG_TREASURY',
+    });
+    const block = await engine.generateBlock();
+
+    expect(validators.getPublicKey('BOG-NODE-1')).toBe(nodeKey.publicKey);
+    expect(validateBlock(engine.getBlock(0)!, undefined, validators)).toBe(true);
+    expect(validateBlock(block!, engine.getBlock(0), validators)).toBe(true);
+    expect(verifyTransactionSignature(block!.transactions[0], nodeKey.publicKey)).toBe(true);
+  });
+
+  it('refuses to restore a chain signed by an unknown validator', async () => {
+    const storage = new MemoryLedgerStorage();
+    const rogue = new LedgerEngine('BOG-NODE-1', { storage, signingKey: rogueKey });
+    await rogue.initialize();
+
+    const engine = new LedgerEngine('BOG-NODE-1', { storage, signingKey: nodeKey });
+    await expect(engine.initialize()).rejects.toThrow(/LEDGER_005/);
+  });
+});
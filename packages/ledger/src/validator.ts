@@ -0,0 +1,129 @@
+/**
+ * GOVRES — Validator Keys
+ *
+ * Each BoG validator node holds an RSA key pair. Transactions and block
+ * headers are signed with the validator's private key, and blocks are only
+ * accepted when their signatures verify against the registry of
+ * authorised validator public keys.
+ */
+
+import { generateSigningKeyPair, signData, verifySignature } from '@govres/security';
+import { LedgerBlock, BlockTransaction } from './block';
+
+export interface ValidatorKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+// ─── Validator Registry ─────────────────────────────────────────
+
+export class ValidatorRegistry {
+  private keys = new Map<string, string>();
+
+  /**
+   * Authorise a validator. Re-registering with a different key is refused;
+   * revoke the old key first.
+   */
+  register(validatorId: string, publicKey: string): void {
+    const existing = this.keys.get(validatorId);
+    if (existing && existing !== publicKey) {
+      throw new Error(`Validator ${validatorId} is already registered with a different key`);
+    }
+    this.keys.set(validatorId, publicKey);
+  }
+
+  revoke(validatorId: string): boolean {
+    return this.keys.delete(validatorId);
+  }
+
+  getPublicKey(validatorId: string): string | undefined {
+    return this.keys.get(validatorId);
+  }
+
+  isAuthorised(validatorId: string): boolean {
+    return this.keys.has(validatorId);
+  }
+
+  getValidatorIds(): string[] {
+    return Array.from(this.keys.keys());
+  }
+}
+
+// ─── Signing ────────────────────────────────────────────────────
+
+/**
+ * Canonical JSON with sorted object keys, so a payload signs identically
+ * after a round trip through storage that reorders keys (e.g. JSONB)
+ */
+export function canonicalJson(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * The signed content of a transaction. Amounts are fixed to 4 decimal
+ * places, the precision at which the ledger persists them.
+ */
+export function transactionSigningPayload(tx: BlockTransaction): string {
+  return canonicalJson({
+    txId: tx.txId,
+    type: tx.type,
+    instrumentType: tx.instrumentType,
+    instrumentId: tx.instrumentId,
+    fromAccount: tx.fromAccount,
+    toAccount: tx.toAccount,
+    amount: tx.amount.toFixed(4),
+    timestamp: tx.timestamp,
+    data: tx.data,
+  });
+}
+
+export function signTransaction(tx: BlockTransaction, privateKey: string): string {
+  return signData(transactionSigningPayload(tx), privateKey);
+}
+
+export function verifyTransactionSignature(tx: BlockTransaction, publicKey: string): boolean {
+  try {
+    return verifySignature(transactionSigningPayload(tx), tx.signature, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Block signatures cover the block hash, which commits to every header
+ * field except the signature itself
+ */
+export function signBlock(block: LedgerBlock, privateKey: string): string {
+  return signData(block.hash, privateKey);
+}
+
+export function verifyBlockSignature(block: LedgerBlock, publicKey: string): boolean {
+  try {
+    return verifySignature(block.hash, block.header.validatorSignature, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+// ─── Development Keys ───────────────────────────────────────────
+
+let developmentKeyPair: ValidatorKeyPair | undefined;
+
+/**
+ * Process-wide key pair for engines constructed without explicit keys
+ * (tests, simulations). Generated once because RSA-4096 generation is slow.
+ * Blocks signed with it cannot be verified by another process.
+ */
+export function getDevelopmentKeyPair(): ValidatorKeyPair {
+  if (!developmentKeyPair) developmentKeyPair = generateSigningKeyPair();
+  return developmentKeyPair;
+}
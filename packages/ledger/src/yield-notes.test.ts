@@ -0,0 +1,166 @@
+/**
+ * GOVRES — Diaspora Yield Note Tests
+ * Coupon schedules and accrual, and the engine's issue, subscription,
+ * coupon, redemption and replication of yield notes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AssetType, UserRole } from '@govres/shared';
+import { LedgerEngine } from './engine';
+import { accrueCoupon, couponSchedule, noteSeriesAccountId } from './yield-notes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Coupon Schedule ────────────────────────────────────
+
+describe('coupon schedule', () => {
+  it('steps by the coupon interval, clamped to month end, and ends at maturity', () => {
+    const dates = couponSchedule({
+      issuedAt: new Date('2026-01-31T00:00:00Z'),
+      maturityDate: new Date('2026-05-15T00:00:00Z'),
+      couponIntervalMonths: 1,
+    });
+    expect(dates.map(d => d.toISOString().slice(0, 10))).toEqual(['2026-02-28', '2026-03-31', '2026-04-30', '2026-05-15']);
+  });
+
+  it('accrues simple interest on actual/365', () => {
+    expect(accrueCoupon(36_500, 10, new Date('2026-01-01'), new Date('2026-01-11'))).toBeCloseTo(100, 6);
+    expect(accrueCoupon(36_500, 10, new Date('2026-01-11'), new Date('2026-01-01'))).toBe(0);
+  });
+});
+
+// ─── Engine Yield Notes ─────────────────────────────────
+
+describe('LedgerEngine yield notes', () => {
+  let engine: LedgerEngine;
+  let goldInstrument: string;
+
+  const issue = (overrides: Partial<Parameters<LedgerEngine['createNoteSeries']>[0]> = {}) => engine.createNoteSeries({
+    seriesId: 'YN-2026-A',
+    assetType: AssetType.GOLD,
+    backingIds: [goldInstrument],
+    issueSizeCedi: 50_000,
+    couponRatePercent: 12,
+    couponIntervalMonths: 6,
+    maturityDate: new Date('2027-03-01T00:00:00Z'),
+    issuedBy: 'ADMIN-1',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+    engine = new LedgerEngine('BOG-NODE-TEST');
+    await engine.initialize();
+    engine.registerAccount('ADMIN-1', UserRole.BOG_ADMIN);
+    engine.registerAccount('INVESTOR-1', UserRole.DIASPORA);
+    engine.registerAccount('BANK-1', UserRole.COMMERCIAL_BANK);
+    engine.registerGoldReserve(1_000_000, 'gold-attest');
+    goldInstrument = engine.mintGBDC({
+      amountCedi: 100_000,
+      goldBackingGrams: 2_000,
+      goldPricePerGramUSD: 80,
+      exchangeRateUSDGHS: 15,
+      issuanceId: 'ISS-Y1',
+      issuedBy: 'BOG_TREASURY',
+    });
+    engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'INVESTOR-1', amountCedi: 20_000, description: 'Remittance' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs a note from subscription through coupons to redemption', async () => {
+    issue();
+    engine.subscribeNote({ seriesId: 'YN-2026-A', noteId: 'NOTE-1', investorId: 'INVESTOR-1', amountCedi: 10_000 });
+    expect(engine.getAccountBalance(noteSeriesAccountId('YN-2026-A'))!.gbdcBalance).toBe(10_000);
+    expect(engine.getNoteSeries('YN-2026-A')!.subscribedCedi).toBe(10_000);
+    expect(engine.payDueCoupons()).toEqual([]);
+
+    // First coupon on 1 September: 184 days at 12%
+    vi.setSystemTime(new Date('2026-09-02T00:00:00Z'));
+    expect(engine.payDueCoupons()).toHaveLength(1);
+    expect(engine.getYieldNote('NOTE-1')!.couponsPaidCedi).toBe(604.9315);
+    expect(() => engine.redeemNote({ noteId: 'NOTE-1', requestedBy: 'INVESTOR-1' })).toThrow('is ACTIVE');
+
+    // The maturity coupon matures the note
+    vi.setSystemTime(new Date('2027-03-05T00:00:00Z'));
+    expect(engine.payDueCoupons()).toHaveLength(1);
+    const note = engine.getYieldNote('NOTE-1')!;
+    expect(note.status).toBe('MATURED');
+    expect(note.couponsPaidCedi).toBe(1200);
+
+    engine.redeemNote({ noteId: 'NOTE-1', requestedBy: 'INVESTOR-1' });
+    expect(engine.getYieldNote('NOTE-1')!.status).toBe('REDEEMED');
+    expect(engine.getAccountBalance('INVESTOR-1')!.gbdcBalance).toBe(21_200);
+    expect(engine.getAccountBalance(noteSeriesAccountId('YN-2026-A'))!.gbdcBalance).toBe(0);
+    expect(() => engine.redeemNote({ noteId: 'NOTE-1', requestedBy: 'INVESTOR-1' })).toThrow('is REDEEMED');
+
+    await engine.generateBlock();
+    expect(engine.checkBalances().balanced).toBe(true);
+  });
+
+  it('requires BoG, covering backing not already in use, and a future maturity', () => {
+    expect(() => issue({ issuedBy: 'BANK-1' })).toThrow('AUTH_001');
+    expect(() => issue({ issueSizeCedi: 90_000 })).toThrow('does not cover');
+    expect(() => issue({ maturityDate: new Date('2026-01-01') })).toThrow('future');
+    expect(() => issue({ couponIntervalMonths: 1.5 })).toThrow('whole number');
+    expect(() => issue({ assetType: AssetType.MINERAL_ROYALTY, backingIds: ['GPR-2026-Q1'] })).toThrow('attested royalty');
+    issue();
+    expect(() => issue({ seriesId: 'YN-2026-B' })).toThrow('already backs');
+    issue({ seriesId: 'YN-2026-R', assetType: AssetType.MINERAL_ROYALTY, backingIds: ['GPR-2026-Q1'], royaltyValueCedi: 75_000 });
+    expect(engine.getNoteSeries('YN-2026-R')!.backingValueCedi).toBe(75_000);
+  });
+
+  it('limits subscriptions to diaspora investors and the issue size', () => {
+    issue({ issueSizeCedi: 15_000 });
+    engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'BANK-1', amountCedi: 5_000, description: 'Liquidity' });
+    expect(() => engine.subscribeNote({ seriesId: 'YN-2026-A', noteId: 'NOTE-B', investorId: 'BANK-1', amountCedi: 1_000 })).toThrow('AUTH_002');
+    engine.subscribeNote({ seriesId: 'YN-2026-A', noteId: 'NOTE-1', investorId: 'INVESTOR-1', amountCedi: 10_000 });
+    expect(() => engine.subscribeNote({ seriesId: 'YN-2026-A', noteId: 'NOTE-2', investorId: 'INVESTOR-1', amountCedi: 6_000 })).toThrow('Only 5000 GHS');
+    expect(() => engine.subscribeNote({ seriesId: 'YN-2026-A', noteId: 'NOTE-1', investorId: 'INVESTOR-1', amountCedi: 1_000 })).toThrow('already exists');
+
+    vi.setSystemTime(new Date(Date.now() + 400 * DAY_MS));
+    expect(() => engine.subscribeNote({ seriesId: 'YN-2026-A', noteId: 'NOTE-3', investorId: 'INVESTOR-1', amountCedi: 1_000 })).toThrow('has matured');
+  });
+
+  it('keeps yield note payments out of dispute reversals', async () => {
+    engine.registerAccount('ADMIN-2', UserRole.BOG_ADMIN);
+    issue();
+    engine.subscribeNote({ seriesId: 'YN-2026-A', noteId: 'NOTE-1', investorId: 'INVESTOR-1', amountCedi: 10_000 });
+    const block = await engine.generateBlock();
+    const subscription = block!.transactions.find(tx => tx.data.yieldNote === 'SUBSCRIBE')!;
+
+    expect(() => engine.reverseTransaction({ original: subscription, requestedBy: 'ADMIN-1', approvedBy: 'ADMIN-2', reason: 'Dispute' }))
+      .toThrow('Only GBDC transfers');
+  });
+
+  it('replicates yield notes and rejects subscriptions from non-diaspora accounts', async () => {
+    const other = new LedgerEngine('BOG-NODE-TEST', { genesisBlock: engine.getBlock(0) });
+    await other.initialize();
+    for (const [id, role] of [['ADMIN-1', UserRole.BOG_ADMIN], ['INVESTOR-1', UserRole.DIASPORA], ['BANK-1', UserRole.COMMERCIAL_BANK], [noteSeriesAccountId('YN-2026-A'), UserRole.BOG_ADMIN], ['INVESTOR-2', UserRole.COMMERCIAL_BANK]] as const) {
+      other.registerAccount(id, role);
+    }
+    other.registerGoldReserve(1_000_000, 'gold-attest');
+    // A validator that wrongly treats INVESTOR-2 as a diaspora investor
+    engine.registerAccount('INVESTOR-2', UserRole.DIASPORA);
+    engine.transferGBDC({ fromAccount: 'BOG_TREASURY', toAccount: 'INVESTOR-2', amountCedi: 5_000, description: 'Remittance' });
+
+    issue();
+    engine.subscribeNote({ seriesId: 'YN-2026-A', noteId: 'NOTE-1', investorId: 'INVESTOR-1', amountCedi: 10_000 });
+    await other.appendBlock(engine.createBlockProposal());
+    await engine.appendBlock(engine.createBlockProposal());
+
+    vi.setSystemTime(new Date('2026-09-02T00:00:00Z'));
+    engine.payDueCoupons();
+    await other.appendBlock(engine.createBlockProposal());
+    await engine.appendBlock(engine.createBlockProposal());
+    expect(other.getYieldNote('NOTE-1')).toEqual(engine.getYieldNote('NOTE-1'));
+    expect(other.getNoteSeries('YN-2026-A')).toEqual(engine.getNoteSeries('YN-2026-A'));
+
+    engine.subscribeNote({ seriesId: 'YN-2026-A', noteId: 'NOTE-2', investorId: 'INVESTOR-2', amountCedi: 5_000 });
+    expect(other.verifyBlockProposal(engine.createBlockProposal())).toBe(false);
+    expect(other.getYieldNote('NOTE-2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * GOVRES — Diaspora Yield Notes
+ *
+ * BoG issues yield notes in series. Each series is backed by GBDC, by
+ * cocoa through CRDNs, or by gold royalty production reports, and the
+ * backing must cover the series' issue size when it is created. Diaspora
+ * investors subscribe in GBDC, which is held in the series' own account
+ * until the notes are redeemed. Coupons accrue on the principal
+ * (actual/365) and are paid by BoG Treasury on the series' coupon dates,
+ * the last of which is the maturity date. Once its final coupon is paid a
+ * note has matured, and redemption returns its principal.
+ */
+
+import { AssetType } from '@govres/shared';
+
+export interface NoteSeries {
+  seriesId: string;
+  assetType: AssetType;
+  /** GBDC or CRDN instruments, or royalty production reports, backing the series */
+  backingIds: string[];
+  /** Value of the backing when the series was issued */
+  backingValueCedi: number;
+  issueSizeCedi: number;
+  subscribedCedi: number;
+  couponRatePercent: number;
+  /** Months between coupon dates, counted from issue */
+  couponIntervalMonths: number;
+  /** Holds subscribed principal until redemption */
+  account: string;
+  issuedAt: Date;
+  maturityDate: Date;
+}
+
+export interface YieldNoteHolding {
+  noteId: string;
+  seriesId: string;
+  investorId: string;
+  principalCedi: number;
+  couponsPaidCedi: number;
+  /** Coupons are accrued from this time: the subscription or the last coupon date paid */
+  lastCouponAt: Date;
+  status: 'ACTIVE' | 'MATURED' | 'REDEEMED';
+  subscribedAt: Date;
+  redemptionTxId?: string;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Ledger account holding a series' subscribed principal
+ */
+export function noteSeriesAccountId(seriesId: string): string {
+  return `NOTES-${seriesId}`;
+}
+
+/**
+ * A series' coupon dates in order: every couponIntervalMonths from issue,
+ * then the maturity date. Day-of-month is kept where the month allows it.
+ */
+export function couponSchedule(series: Pick<NoteSeries, 'issuedAt' | 'maturityDate' | 'couponIntervalMonths'>): Date[] {
+  const issuedAt = new Date(series.issuedAt);
+  const maturity = new Date(series.maturityDate).getTime();
+  const dates: Date[] = [];
+  for (let period = 1; ; period++) {
+    const month = issuedAt.getUTCMonth() + period * series.couponIntervalMonths;
+    const lastDay = new Date(Date.UTC(issuedAt.getUTCFullYear(), month + 1, 0)).getUTCDate();
+    const date = new Date(Date.UTC(
+      issuedAt.getUTCFullYear(),
+      month,
+      Math.min(issuedAt.getUTCDate(), lastDay),
+      issuedAt.getUTCHours(),
+      issuedAt.getUTCMinutes(),
+      issuedAt.getUTCSeconds(),
+      issuedAt.getUTCMilliseconds()
+    ));
+    if (date.getTime() >= maturity) break;
+    dates.push(date);
+  }
+  dates.push(new Date(maturity));
+  return dates;
+}
+
+/**
+ * The first coupon date after a note's last coupon, or undefined once the
+ * maturity coupon has been paid
+ */
+export function nextCouponDate(
+  series: Pick<NoteSeries, 'issuedAt' | 'maturityDate' | 'couponIntervalMonths'>,
+  note: Pick<YieldNoteHolding, 'lastCouponAt'>
+): Date | undefined {
+  const after = new Date(note.lastCouponAt).getTime();
+  return couponSchedule(series).find(date => date.getTime() > after);
+}
+
+/**
+ * Simple coupon (actual/365) on principal from one time to another
+ */
+export function accrueCoupon(principalCedi: number, couponRatePercent: number, from: Date, to: Date): number {
+  const elapsed = new Date(to).getTime() - new Date(from).getTime();
+  return elapsed > 0 ? principalCedi * (couponRatePercent / 100) * elapsed / YEAR_MS : 0;
+}
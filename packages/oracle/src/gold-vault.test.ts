@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { GoldVaultOracle, VaultSensorConfig, AssayReport } from './gold-vault';
+import { GoldVaultOracle, VaultSensorConfig, AssayReport, PlatformWeight } from './gold-vault';
 import crypto from 'crypto';
 import { SYSTEM } from '@govres/shared';
 
@@ -19,6 +19,7 @@ function makeSensor(overrides: Partial<VaultSensorConfig> = {}): VaultSensorConf
     calibrationCertificate: 'CERT-001',
     readingIntervalSeconds: 60,
     tolerancePercent: overrides.tolerancePercent ?? 0.5,
+    platformId: overrides.platformId,
   };
 }
 
@@ -36,8 +37,7 @@ function makeAssay(overrides: Partial<AssayReport> = {}): AssayReport {
   };
 }
 
-function makeReading(sensorId: string, weightGrams: number, tamper = false) {
-  const timestamp = new Date();
+function makeReading(sensorId: string, weightGrams: number, tamper = false, timestamp = new Date()) {
   const data = `${sensorId}:${timestamp.toISOString()}:${weightGrams}:25:45:${tamper}`;
   const signatureHash = crypto.createHash(SYSTEM.HASH_ALGORITHM).update(data).digest('hex');
   return {
@@ -146,6 +146,123 @@ describe('generateAttestation', () => {
   });
 });
 
+describe('sensor quorum', () => {
+  function platform(sensorIds: string[], options: { quorum?: number } = {}) {
+    oracle = new GoldVaultOracle(options);
+    for (const sensorId of sensorIds) oracle.registerSensor(makeSensor({ sensorId, vaultId: 'VQ', platformId: 'P1', tolerancePercent: 1 }));
+  }
+  const platformOf = (att: ReturnType<GoldVaultOracle['generateAttestation']>) => (att.data.platforms as PlatformWeight[])[0];
+
+  it('takes the median of redundant sensors rather than summing them', () => {
+    platform(['A', 'B', 'C'], { quorum: 2 });
+    oracle.processSensorReading(makeReading('A', 12_500));
+    oracle.processSensorReading(makeReading('B', 12_510));
+    oracle.processSensorReading(makeReading('C', 12_490));
+
+    const att = oracle.generateAttestation('VQ');
+    expect(att.verified).toBe(true);
+    expect(att.data.totalWeightGrams).toBe(12_500);
+    expect(att.confidenceScore).toBe(100);
+  });
+
+  it('rejects an outvoted sensor and lowers its reputation', () => {
+    platform(['A', 'B', 'C'], { quorum: 2 });
+    const anomalies: any[] = [];
+    oracle.on('anomaly:detected', (a) => anomalies.push(a));
+    oracle.processSensorReading(makeReading('A', 12_500));
+    oracle.processSensorReading(makeReading('B', 12_505));
+    oracle.processSensorReading(makeReading('C', 9_000));
+
+    const att = oracle.generateAttestation('VQ');
+    expect(att.verified).toBe(true);
+    expect(att.data.totalWeightGrams).toBe(12_502.5);
+    expect(platformOf(att).rejected).toEqual([{ sensorId: 'C', reason: 'OUTLIER' }]);
+    expect(oracle.getSensorReputation('C')).toBe(0.75);
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ type: 'WEIGHT_DISCREPANCY', sensorId: 'C' });
+    expect(att.confidenceScore).toBeCloseTo(66.7, 1);
+
+    // The same reading is only judged once
+    oracle.generateAttestation('VQ');
+    expect(oracle.getSensorReputation('C')).toBe(0.75);
+  });
+
+  it('leaves out a sensor that keeps disagreeing', () => {
+    platform(['A', 'B', 'C']);
+    let distrusted: any = null;
+    oracle.on('sensor:distrusted', (d) => { distrusted = d; });
+    for (let i = 0; i < 3; i++) {
+      const at = new Date(Date.now() - (3 - i) * 1000);
+      oracle.processSensorReading(makeReading('A', 12_500, false, at));
+      oracle.processSensorReading(makeReading('B', 12_500, false, at));
+      oracle.processSensorReading(makeReading('C', 9_000, false, at));
+      oracle.generateAttestation('VQ');
+    }
+    expect(distrusted).toMatchObject({ sensorId: 'C' });
+    expect(platformOf(oracle.generateAttestation('VQ')).rejected).toEqual([{ sensorId: 'C', reason: 'DISTRUSTED' }]);
+
+    // Recalibration restores it
+    oracle.registerSensor({ ...makeSensor({ sensorId: 'C', vaultId: 'VQ', platformId: 'P1' }), calibrationDate: new Date() });
+    expect(oracle.getSensorReputation('C')).toBe(1);
+  });
+
+  it('is not verified when too few fresh readings agree', () => {
+    platform(['A', 'B', 'C'], { quorum: 2 });
+    oracle.processSensorReading(makeReading('A', 12_500));
+    oracle.processSensorReading(makeReading('B', 12_500, false, new Date(Date.now() - 600_000)));
+    oracle.processSensorReading(makeReading('C', 12_500, true));
+
+    const att = oracle.generateAttestation('VQ');
+    expect(att.verified).toBe(false);
+    expect(att.verifiedAt).toBeUndefined();
+    expect(att.data.totalWeightGrams).toBe(0);
+    expect(att.confidenceScore).toBe(0);
+    expect(platformOf(att).rejected).toEqual([{ sensorId: 'B', reason: 'STALE' }, { sensorId: 'C', reason: 'TAMPERED' }]);
+  });
+
+  it("needs a majority of the platform's sensors by default, counting missing and stale ones", () => {
+    platform(['A', 'B', 'C']);
+    oracle.processSensorReading(makeReading('A', 12_500));
+    oracle.processSensorReading(makeReading('B', 12_500, false, new Date(Date.now() - 600_000)));
+
+    const att = oracle.generateAttestation('VQ');
+    expect(att.verified).toBe(false);
+    expect(att.data.totalWeightGrams).toBe(0);
+    expect(platformOf(att)).toMatchObject({
+      acceptedSensors: ['A'],
+      rejected: [{ sensorId: 'B', reason: 'STALE' }, { sensorId: 'C', reason: 'MISSING' }],
+      quorum: 2,
+      quorumMet: false,
+    });
+
+    // A second fresh, agreeing reading makes the majority
+    oracle.processSensorReading(makeReading('C', 12_505));
+    expect(oracle.generateAttestation('VQ').verified).toBe(true);
+  });
+
+  it('only lets the configured quorum raise the majority', () => {
+    platform(['A', 'B', 'C'], { quorum: 1 });
+    oracle.processSensorReading(makeReading('A', 12_500));
+    expect(platformOf(oracle.generateAttestation('VQ'))).toMatchObject({ quorum: 2, quorumMet: false });
+
+    platform(['A', 'B', 'C'], { quorum: 3 });
+    oracle.processSensorReading(makeReading('A', 12_500));
+    oracle.processSensorReading(makeReading('B', 12_500));
+    expect(platformOf(oracle.generateAttestation('VQ'))).toMatchObject({ quorum: 3, quorumMet: false });
+  });
+
+  it('trusts neither of two sensors that disagree', () => {
+    platform(['A', 'B']);
+    oracle.processSensorReading(makeReading('A', 12_500));
+    oracle.processSensorReading(makeReading('B', 11_000));
+
+    const att = oracle.generateAttestation('VQ');
+    expect(att.verified).toBe(false);
+    expect(platformOf(att).rejected.map(r => r.reason)).toEqual(['NO_MAJORITY', 'NO_MAJORITY']);
+    expect(oracle.getSensorReputation('A')).toBe(1);
+  });
+});
+
 describe('verifyAttestation', () => {
   it('returns true for a valid attestation', () => {
     oracle.registerSensor(makeSensor({ sensorId: 'SV2', vaultId: 'V2' }));
@@ -175,4 +292,13 @@ describe('getVaultSnapshot', () => {
     expect(snap.sensorReadings).toHaveLength(1);
     expect(snap.attestationHash).toMatch(/^[a-f0-9]{64}$/);
   });
+
+  it('reports stale sensors as anomalies', () => {
+    oracle.registerSensor(makeSensor({ sensorId: 'SS2', vaultId: 'VS2' }));
+    oracle.processSensorReading(makeReading('SS2', 25_000, false, new Date(Date.now() - 600_000)));
+
+    const snap = oracle.getVaultSnapshot('VS2');
+    expect(snap.totalWeightGrams).toBe(0);
+    expect(snap.anomalies.map(a => a.type)).toEqual(['SENSOR_OFFLINE']);
+  });
 });
@@ -11,6 +11,15 @@
  * 
  * Ghana's gold reserves are held at BoG vaults. ~$20B annual gold exports.
  * GOVRES uses 10% of reserves for GBDC backing (~GH¢4.15B capacity).
+ *
+ * Weight sensors under the same weighing platform are redundant. Each
+ * platform's weight is the median of its fresh readings once readings
+ * outside their sensor's tolerance of the median are rejected, and it
+ * counts only when a quorum of readings agree: a strict majority of the
+ * platform's sensors, or more if configured. Sensors lose reputation
+ * each time a majority outvotes them and are left out once it falls too
+ * low. An attestation is verified only when every platform reaches its
+ * quorum, and carries a confidence score from coverage and reputation.
  */
 
 import crypto from 'crypto';
@@ -35,6 +44,30 @@ export interface VaultSensorConfig {
   calibrationCertificate: string;
   readingIntervalSeconds: number;
   tolerancePercent: number;       // Acceptable variance
+  platformId?: string;            // Weighing platform shared by redundant sensors; the sensor's own if omitted
+}
+
+export interface GoldVaultOracleOptions {
+  /* Fresh, agreeing readings each platform needs at least, on top of a majority of its sensors; SYSTEM.ORACLE_SENSOR_QUORUM if omitted */
+  quorum?: number;
+  /* Reading intervals after which a reading is stale; SYSTEM.ORACLE_READING_MAX_AGE_INTERVALS if omitted */
+  maxReadingAgeIntervals?: number;
+  /* Reputation below which a sensor is left out; SYSTEM.ORACLE_MIN_SENSOR_REPUTATION if omitted */
+  minReputation?: number;
+}
+
+export type RejectedReadingReason = 'MISSING' | 'STALE' | 'TAMPERED' | 'DISTRUSTED' | 'OUTLIER' | 'NO_MAJORITY';
+
+export interface PlatformWeight {
+  platformId: string;
+  /* Median of the accepted readings; 0 when the platform has no quorum */
+  weightGrams: number;
+  sensorCount: number;
+  acceptedSensors: string[];
+  rejected: Array<{ sensorId: string; reason: RejectedReadingReason }>;
+  /* Agreeing readings needed: a strict majority of the platform's sensors, or the configured quorum if higher */
+  quorum: number;
+  quorumMet: boolean;
 }
 
 export interface AssayReport {
@@ -74,6 +107,10 @@ export interface VaultAnomaly {
   acknowledged: boolean;
 }
 
+/* Share of its reputation a sensor loses each time it is outvoted, and what it regains each time it agrees */
+const REPUTATION_PENALTY = 0.25;
+const REPUTATION_RECOVERY = 0.05;
+
 // ─── Gold Vault Oracle ──────────────────────────────────────────
 
 export class GoldVaultOracle extends EventEmitter {
@@ -82,15 +119,28 @@ export class GoldVaultOracle extends EventEmitter {
   private latestReadings: Map<string, SensorReading> = new Map();
   private attestations: Map<string, OracleAttestation> = new Map();
   private pollingTimers: Map<string, NodeJS.Timeout> = new Map();
+  private reputations: Map<string, number> = new Map();
+  /* Timestamp of the last reading each sensor's reputation was judged on */
+  private judgedReadings: Map<string, number> = new Map();
 
-  constructor() {
+  private readonly quorum: number;
+  private readonly maxReadingAgeIntervals: number;
+  private readonly minReputation: number;
+
+  constructor(options: GoldVaultOracleOptions = {}) {
     super();
+    this.quorum = options.quorum ?? SYSTEM.ORACLE_SENSOR_QUORUM;
+    this.maxReadingAgeIntervals = options.maxReadingAgeIntervals ?? SYSTEM.ORACLE_READING_MAX_AGE_INTERVALS;
+    this.minReputation = options.minReputation ?? SYSTEM.ORACLE_MIN_SENSOR_REPUTATION;
   }
 
   /**
-   * Register a vault sensor
+   * Register a vault sensor. A sensor registered again after recalibration
+   * starts over with full reputation.
    */
   registerSensor(config: VaultSensorConfig): void {
+    const previous = this.sensors.get(config.sensorId);
+    if (!previous || config.calibrationDate > previous.calibrationDate) this.reputations.set(config.sensorId, 1);
     this.sensors.set(config.sensorId, config);
     this.emit('sensor:registered', {
       sensorId: config.sensorId,
@@ -165,21 +215,27 @@ export class GoldVaultOracle extends EventEmitter {
 
   /**
    * Generate an attestation for the current vault state
-   * This creates a cryptographically signed proof of reserves
+   * This creates a cryptographically signed proof of reserves, verified
+   * only when every weighing platform in the vault reaches its quorum
    */
   generateAttestation(vaultId: string): OracleAttestation {
-    const vaultSensors = Array.from(this.sensors.values()).filter(s => s.vaultId === vaultId);
     const vaultBars = Array.from(this.bars.values());
 
-    // Aggregate readings
-    const readings = vaultSensors.map(s => this.latestReadings.get(s.sensorId)).filter(Boolean);
-    const totalWeight = readings.reduce((sum, r) => sum + (r?.weightGrams || 0), 0);
+    // Aggregate readings per platform, judging sensors on readings not yet judged
+    const platforms = this.aggregateWeights(vaultId, true);
+    const totalWeight = platforms.reduce((sum, p) => sum + p.weightGrams, 0);
+    const verified = platforms.length > 0 && platforms.every(p => p.quorumMet);
+    const confidenceScore = this.confidenceScore(platforms);
 
     const data = {
       vaultId,
       totalBars: vaultBars.length,
       totalWeightGrams: totalWeight,
-      sensorCount: vaultSensors.length,
+      sensorCount: platforms.reduce((sum, p) => sum + p.sensorCount, 0),
+      activeSensors: platforms.reduce((sum, p) => sum + p.acceptedSensors.length, 0),
+      quorum: this.quorum,
+      platforms,
+      confidenceScore,
       readingsTimestamp: new Date(),
       barFingerprints: vaultBars.map(b => b.assayFingerprint),
     };
@@ -195,9 +251,10 @@ export class GoldVaultOracle extends EventEmitter {
       data,
       hash,
       signature,
-      verified: true,
-      verifiedAt: new Date(),
+      verified,
+      verifiedAt: verified ? new Date() : undefined,
       expiresAt: new Date(Date.now() + SYSTEM.ORACLE_ATTESTATION_VALIDITY_HOURS * 60 * 60 * 1000),
+      confidenceScore,
       createdAt: new Date(),
       updatedAt: new Date(),
       createdBy: 'GOLD_VAULT_ORACLE',
@@ -209,11 +266,20 @@ export class GoldVaultOracle extends EventEmitter {
       attestationId: attestation.attestationId,
       vaultId,
       totalWeightGrams: totalWeight,
+      verified,
+      confidenceScore,
     });
 
     return attestation;
   }
 
+  /**
+   * Current reputation of a sensor, from 0 to 1
+   */
+  getSensorReputation(sensorId: string): number | undefined {
+    return this.reputations.get(sensorId);
+  }
+
   /**
    * Verify an existing attestation
    */
@@ -239,7 +305,18 @@ export class GoldVaultOracle extends EventEmitter {
       .map(s => this.latestReadings.get(s.sensorId))
       .filter((r): r is SensorReading => r !== undefined);
 
-    const totalWeight = readings.reduce((sum, r) => sum + r.weightGrams, 0);
+    const platforms = this.aggregateWeights(vaultId, false);
+    const totalWeight = platforms.reduce((sum, p) => sum + p.weightGrams, 0);
+    const anomalies = platforms.flatMap(p => p.rejected
+      .filter(r => r.reason !== 'DISTRUSTED' && r.reason !== 'NO_MAJORITY')
+      .map((r): VaultAnomaly => ({
+        type: r.reason === 'TAMPERED' ? 'TAMPER_ALERT' : r.reason === 'OUTLIER' ? 'WEIGHT_DISCREPANCY' : 'SENSOR_OFFLINE',
+        severity: r.reason === 'TAMPERED' ? 'CRITICAL' : r.reason === 'OUTLIER' ? 'HIGH' : 'MEDIUM',
+        timestamp: new Date(),
+        details: `${r.sensorId} on platform ${p.platformId}: ${r.reason.toLowerCase()} reading`,
+        sensorId: r.sensorId,
+        acknowledged: false,
+      })));
     const barList = Array.from(this.bars.values()).map(bar => ({
       barId: bar.barId,
       weightGrams: bar.weightGrams,
@@ -258,7 +335,7 @@ export class GoldVaultOracle extends EventEmitter {
       ...snapshotData,
       bars: barList,
       sensorReadings: readings,
-      anomalies: [],
+      anomalies,
       attestationHash: crypto
         .createHash(SYSTEM.HASH_ALGORITHM)
         .update(JSON.stringify(snapshotData))
@@ -268,6 +345,104 @@ export class GoldVaultOracle extends EventEmitter {
 
   // ─── Private Methods ──────────────────────────────────────────
 
+  /**
+   * Weigh each platform in a vault from its fresh readings. Readings more
+   * than their sensor's tolerance from the platform median are outliers;
+   * when they are not outvoted by the rest, no reading on the platform is
+   * trusted. Judging moves reputations, once per reading.
+   */
+  private aggregateWeights(vaultId: string, judge: boolean): PlatformWeight[] {
+    const now = Date.now();
+    const platforms = new Map<string, VaultSensorConfig[]>();
+    for (const sensor of this.sensors.values()) {
+      if (sensor.vaultId !== vaultId || sensor.type !== 'WEIGHT') continue;
+      const platformId = sensor.platformId ?? sensor.sensorId;
+      platforms.set(platformId, [...(platforms.get(platformId) ?? []), sensor]);
+    }
+
+    return Array.from(platforms.entries()).map(([platformId, sensors]): PlatformWeight => {
+      const rejected: PlatformWeight['rejected'] = [];
+      const candidates: Array<{ sensor: VaultSensorConfig; reading: SensorReading }> = [];
+      for (const sensor of sensors) {
+        const reading = this.latestReadings.get(sensor.sensorId);
+        const maxAgeMs = sensor.readingIntervalSeconds * this.maxReadingAgeIntervals * 1000;
+        if (!reading) rejected.push({ sensorId: sensor.sensorId, reason: 'MISSING' });
+        else if (now - reading.timestamp.getTime() > maxAgeMs) rejected.push({ sensorId: sensor.sensorId, reason: 'STALE' });
+        else if (reading.tamperDetected) rejected.push({ sensorId: sensor.sensorId, reason: 'TAMPERED' });
+        else if (this.reputations.get(sensor.sensorId)! < this.minReputation) rejected.push({ sensorId: sensor.sensorId, reason: 'DISTRUSTED' });
+        else candidates.push({ sensor, reading });
+      }
+
+      const centre = median(candidates.map(c => c.reading.weightGrams));
+      const deviates = ({ sensor, reading }: typeof candidates[number]) => centre > 0
+        ? Math.abs(reading.weightGrams - centre) / centre * 100 > sensor.tolerancePercent
+        : reading.weightGrams !== centre;
+      const outliers = candidates.filter(deviates);
+      const agreeing = candidates.filter(c => !deviates(c));
+      const majority = agreeing.length > outliers.length;
+
+      if (majority) {
+        rejected.push(...outliers.map(c => ({ sensorId: c.sensor.sensorId, reason: 'OUTLIER' as const })));
+        if (judge) {
+          for (const c of agreeing) this.judge(c.sensor.sensorId, c.reading, true, platformId, centre);
+          for (const c of outliers) this.judge(c.sensor.sensorId, c.reading, false, platformId, centre);
+        }
+      } else {
+        // Without a majority there is no telling which readings are wrong
+        rejected.push(...candidates.map(c => ({ sensorId: c.sensor.sensorId, reason: 'NO_MAJORITY' as const })));
+      }
+
+      // Missing, stale and distrusted sensors count against the quorum, so they cannot leave one reading to speak for the platform
+      const quorum = Math.max(Math.floor(sensors.length / 2) + 1, this.quorum);
+      const accepted = majority ? agreeing : [];
+      const quorumMet = accepted.length >= quorum;
+      return {
+        platformId,
+        weightGrams: quorumMet ? median(accepted.map(c => c.reading.weightGrams)) : 0,
+        sensorCount: sensors.length,
+        acceptedSensors: accepted.map(c => c.sensor.sensorId),
+        rejected,
+        quorum,
+        quorumMet,
+      };
+    });
+  }
+
+  /* Raise or lower a sensor's reputation for a reading it has not yet been judged on */
+  private judge(sensorId: string, reading: SensorReading, agreed: boolean, platformId: string, medianWeightGrams: number): void {
+    if (this.judgedReadings.get(sensorId) === reading.timestamp.getTime()) return;
+    this.judgedReadings.set(sensorId, reading.timestamp.getTime());
+
+    const before = this.reputations.get(sensorId)!;
+    const after = agreed ? Math.min(before + REPUTATION_RECOVERY, 1) : before * (1 - REPUTATION_PENALTY);
+    this.reputations.set(sensorId, after);
+    if (agreed) return;
+
+    this.emit('anomaly:detected', {
+      type: 'WEIGHT_DISCREPANCY',
+      severity: 'HIGH',
+      sensorId,
+      platformId,
+      currentWeight: reading.weightGrams,
+      medianWeight: medianWeightGrams,
+      reputation: after,
+    });
+    if (before >= this.minReputation && after < this.minReputation) {
+      this.emit('sensor:distrusted', { sensorId, platformId, reputation: after });
+    }
+  }
+
+  /* 0–100: each platform's share of sensors agreeing times their mean reputation, averaged over platforms */
+  private confidenceScore(platforms: PlatformWeight[]): number {
+    if (platforms.length === 0) return 0;
+    const scores = platforms.map(p => {
+      if (!p.quorumMet) return 0;
+      const reputation = p.acceptedSensors.reduce((sum, id) => sum + this.reputations.get(id)!, 0) / p.acceptedSensors.length;
+      return p.acceptedSensors.length / p.sensorCount * reputation;
+    });
+    return Math.round(scores.reduce((sum, score) => sum + score, 0) / platforms.length * 1000) / 10;
+  }
+
   private computeReadingHash(reading: SensorReading): string {
     const data = `${reading.sensorId}:${reading.timestamp.toISOString()}:${reading.weightGrams}:${reading.temperatureCelsius}:${reading.humidityPercent}:${reading.tamperDetected}`;
     return crypto.createHash(SYSTEM.HASH_ALGORITHM).update(data).digest('hex');
@@ -281,3 +456,10 @@ export class GoldVaultOracle extends EventEmitter {
       .digest('hex');
   }
 }
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
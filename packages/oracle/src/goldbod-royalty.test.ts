@@ -77,3 +77,69 @@ describe('GoldBodRoyaltyOracle', () => {
     expect(att.hash).toMatch(/^[a-f0-9]{64}$/);
   });
 });
+
+describe('GoldBodRoyaltyOracle royalty-backed notes', () => {
+  // RPT-001 carries 180M GHS of royalties; the Q2 forecast estimates 200M GHS
+  const structure = (principalGHS: number, forecastIds: string[] = []) => oracle.structureNote({
+    principalGHS,
+    backingRoyaltyIds: ['RPT-001'],
+    forecastIds,
+    yieldPercent: 9,
+    maturityMonths: 12,
+  });
+
+  let forecastId: string;
+
+  beforeEach(() => {
+    oracle.recordProductionReport(makeReport());
+    forecastId = oracle.generateForecast({ year: 2025, quarter: 2, estimatedGoldPriceUSD: 2_500, exchangeRateUSDGHS: 16 }).forecastId;
+  });
+
+  it('moves a covered note from DRAFT through ISSUED and ACTIVE to MATURED', () => {
+    const draft = structure(100_000_000);
+    expect(draft.status).toBe('DRAFT');
+    expect(draft.coverageRatio).toBeCloseTo(1.8, 6);
+    expect(() => oracle.activateNote(draft.noteId)).toThrow('is DRAFT');
+
+    expect(oracle.issueNote(draft.noteId).status).toBe('ISSUED');
+    const active = oracle.activateNote(draft.noteId);
+    expect(active.status).toBe('ACTIVE');
+
+    expect(oracle.matureDueNotes(new Date(active.activatedAt!.getTime() + 30 * 24 * 60 * 60 * 1000))).toEqual([]);
+    const matured = oracle.matureDueNotes(new Date(active.maturesAt!.getTime() + 1));
+    expect(matured.map(n => n.noteId)).toEqual([draft.noteId]);
+    expect(oracle.getNote(draft.noteId)!.status).toBe('MATURED');
+  });
+
+  it('caps the principal forecast royalties can back', () => {
+    // 180M verified plus forecasts capped at 40% of 200M covers 1.3x
+    const note = structure(200_000_000, [forecastId]);
+    expect(note.forecastRoyaltyGHS).toBe(80_000_000);
+    expect(note.coverageRatio).toBeCloseTo(1.3, 6);
+    // At 300M the cap leaves only 1.0x
+    oracle.restoreNote({ ...note, status: 'MATURED' });
+    expect(() => structure(300_000_000, [forecastId])).toThrow('below the required');
+  });
+
+  it('only structures notes on verified, unused backing', () => {
+    oracle.recordProductionReport({ ...makeReport({ reportId: 'RPT-002' }), verifiedBy: '' });
+    expect(() => oracle.structureNote({ principalGHS: 1_000, backingRoyaltyIds: ['RPT-002'], forecastIds: [], yieldPercent: 9, maturityMonths: 12 }))
+      .toThrow('not been verified');
+    expect(() => structure(1_000, ['FORECAST-NONE'])).toThrow('not found');
+    structure(1_000);
+    expect(() => structure(1_000)).toThrow('already backs');
+  });
+
+  it('re-checks coverage when a report for a forecast quarter comes in', () => {
+    const note = structure(200_000_000, [forecastId]);
+    const alerts: any[] = [];
+    oracle.on('note:undercovered', (event) => alerts.push(event));
+
+    // Q2 realises only 18M GHS of the 200M forecast
+    oracle.recordProductionReport(makeReport({ reportId: 'RPT-Q2', period: { year: 2025, quarter: 2 }, productionOunces: 10_000 }));
+
+    expect(oracle.getNote(note.noteId)!.forecastRoyaltyGHS).toBe(18_000_000);
+    expect(alerts).toEqual([expect.objectContaining({ noteId: note.noteId, coverageRatio: 0.99, requiredRatio: 1.25 })]);
+    expect(() => oracle.issueNote(note.noteId)).toThrow('below the required');
+  });
+});
@@ -20,7 +20,7 @@
 
 import crypto from 'crypto';
 import { EventEmitter } from 'events';
-import { OracleSourceType, OracleAttestation, SYSTEM, GOLD_MINING_REGIONS } from '@govres/shared';
+import { OracleSourceType, OracleAttestation, SYSTEM, FINANCIAL, GOLD_MINING_REGIONS } from '@govres/shared';
 
 // ─── Types ──────────────────────────────────────────────────────
 
@@ -64,7 +64,21 @@ export interface RoyaltyBackedNote {
   yieldPercent: number;
   maturityMonths: number;
   status: 'DRAFT' | 'ISSUED' | 'ACTIVE' | 'MATURED' | 'REDEEMED';
+  verifiedRoyaltyGHS: number;       // Royalties of the backing reports
+  forecastRoyaltyGHS: number;       // Forecast royalties counted, after the cap
+  coverageRatio: number;            // Counted backing over principal
+  createdAt: Date;
   issuedAt?: Date;
+  activatedAt?: Date;
+  maturesAt?: Date;
+  maturedAt?: Date;
+}
+
+export interface RoyaltyNoteOptions {
+  /* Backing required as a multiple of principal; FINANCIAL.ROYALTY_NOTE_MIN_COVERAGE_RATIO if omitted */
+  minCoverageRatio?: number;
+  /* Share of principal forecasts may back; FINANCIAL.ROYALTY_NOTE_MAX_FORECAST_PERCENT if omitted */
+  maxForecastPercent?: number;
 }
 
 // ─── Gold Mining Companies Registry ─────────────────────────────
@@ -92,8 +106,13 @@ export class GoldBodRoyaltyOracle extends EventEmitter {
   /* Standard royalty rate per Minerals & Mining Act 2006 (Act 703) */
   private readonly ROYALTY_RATE = 0.05;
 
-  constructor() {
+  private readonly minCoverageRatio: number;
+  private readonly maxForecastPercent: number;
+
+  constructor(options: RoyaltyNoteOptions = {}) {
     super();
+    this.minCoverageRatio = options.minCoverageRatio ?? FINANCIAL.ROYALTY_NOTE_MIN_COVERAGE_RATIO;
+    this.maxForecastPercent = options.maxForecastPercent ?? FINANCIAL.ROYALTY_NOTE_MAX_FORECAST_PERCENT;
   }
 
   /**
@@ -117,6 +136,9 @@ export class GoldBodRoyaltyOracle extends EventEmitter {
       ounces: report.productionOunces,
       royaltyUSD: report.royaltyAmountUSD,
     });
+
+    // A corrected report, or actual production for a forecast quarter, changes what backs notes
+    this.recheckCoverage();
   }
 
   /**
@@ -154,7 +176,7 @@ export class GoldBodRoyaltyOracle extends EventEmitter {
       createdAt: new Date(),
     };
 
-    this.forecasts.set(forecast.forecastId, forecast);
+    this.recordForecast(forecast);
     this.emit('forecast:generated', {
       forecastId: forecast.forecastId,
       estimatedRoyaltyGHS: forecast.estimatedRoyaltyGHS,
@@ -163,6 +185,193 @@ export class GoldBodRoyaltyOracle extends EventEmitter {
     return forecast;
   }
 
+  /**
+   * Record a forecast generated earlier, e.g. when reloading saved forecasts
+   */
+  recordForecast(forecast: RoyaltyForecast): void {
+    this.forecasts.set(forecast.forecastId, forecast);
+  }
+
+  // ─── Royalty-Backed Notes ───────────────────────────────────────
+
+  /**
+   * Structure a DRAFT note against verified production reports and
+   * forecasts. Forecast royalties count towards backing only up to
+   * maxForecastPercent of the principal, and the counted backing must
+   * cover the principal by minCoverageRatio. A report or forecast backs
+   * at most one note that has not matured.
+   */
+  structureNote(params: {
+    principalGHS: number;
+    backingRoyaltyIds: string[];
+    forecastIds: string[];
+    yieldPercent: number;
+    maturityMonths: number;
+  }): RoyaltyBackedNote {
+    if (!(params.principalGHS > 0)) throw new Error('Principal must be positive');
+    if (!(params.yieldPercent > 0)) throw new Error('Yield must be positive');
+    if (!Number.isInteger(params.maturityMonths) || params.maturityMonths < 1) {
+      throw new Error('Maturity must be a whole number of months');
+    }
+    if (params.backingRoyaltyIds.length === 0) throw new Error('A royalty-backed note needs at least one production report');
+    for (const reportId of params.backingRoyaltyIds) {
+      const report = this.productionReports.get(reportId);
+      if (!report) throw new Error(`Production report ${reportId} not found`);
+      if (!report.verifiedBy) throw new Error(`Production report ${reportId} has not been verified`);
+    }
+    for (const forecastId of params.forecastIds) {
+      if (!this.forecasts.has(forecastId)) throw new Error(`Forecast ${forecastId} not found`);
+    }
+    const backingIds = [...params.backingRoyaltyIds, ...params.forecastIds];
+    if (new Set(backingIds).size !== backingIds.length) throw new Error('Backing is listed more than once');
+    for (const note of this.royaltyNotes.values()) {
+      if (note.status === 'MATURED' || note.status === 'REDEEMED') continue;
+      const shared = [...note.backingRoyaltyIds, ...note.forecastIds].find(id => backingIds.includes(id));
+      if (shared) throw new Error(`${shared} already backs note ${note.noteId}`);
+    }
+
+    const note: RoyaltyBackedNote = {
+      noteId: `RBN-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`,
+      principalGHS: params.principalGHS,
+      backingRoyaltyIds: [...params.backingRoyaltyIds],
+      forecastIds: [...params.forecastIds],
+      yieldPercent: params.yieldPercent,
+      maturityMonths: params.maturityMonths,
+      status: 'DRAFT',
+      verifiedRoyaltyGHS: 0,
+      forecastRoyaltyGHS: 0,
+      coverageRatio: 0,
+      createdAt: new Date(),
+    };
+    Object.assign(note, this.assessCoverage(note));
+    if (note.coverageRatio < this.minCoverageRatio) {
+      throw new Error(`Coverage ${note.coverageRatio.toFixed(2)}x is below the required ${this.minCoverageRatio}x`);
+    }
+
+    this.royaltyNotes.set(note.noteId, note);
+    this.emit('note:structured', { noteId: note.noteId, principalGHS: note.principalGHS, coverageRatio: note.coverageRatio });
+    return { ...note };
+  }
+
+  /**
+   * Issue a DRAFT note once its coverage still holds
+   */
+  issueNote(noteId: string): RoyaltyBackedNote {
+    const note = this.getNoteInStatus(noteId, 'DRAFT');
+    Object.assign(note, this.assessCoverage(note));
+    if (note.coverageRatio < this.minCoverageRatio) {
+      throw new Error(`Coverage ${note.coverageRatio.toFixed(2)}x is below the required ${this.minCoverageRatio}x`);
+    }
+    note.status = 'ISSUED';
+    note.issuedAt = new Date();
+    this.emit('note:issued', { noteId, coverageRatio: note.coverageRatio });
+    return { ...note };
+  }
+
+  /**
+   * Activate an issued note once its proceeds are raised; it matures
+   * maturityMonths later
+   */
+  activateNote(noteId: string): RoyaltyBackedNote {
+    const note = this.getNoteInStatus(noteId, 'ISSUED');
+    const activatedAt = new Date();
+    const maturesAt = new Date(activatedAt);
+    maturesAt.setUTCMonth(maturesAt.getUTCMonth() + note.maturityMonths);
+    note.status = 'ACTIVE';
+    note.activatedAt = activatedAt;
+    note.maturesAt = maturesAt;
+    this.emit('note:activated', { noteId, maturesAt });
+    return { ...note };
+  }
+
+  /**
+   * Mark active notes MATURED once their maturity date has passed.
+   * Returns the notes matured.
+   */
+  matureDueNotes(at: Date = new Date()): RoyaltyBackedNote[] {
+    const matured: RoyaltyBackedNote[] = [];
+    for (const note of this.royaltyNotes.values()) {
+      if (note.status !== 'ACTIVE' || note.maturesAt!.getTime() > at.getTime()) continue;
+      note.status = 'MATURED';
+      note.maturedAt = at;
+      this.emit('note:matured', { noteId: note.noteId });
+      matured.push({ ...note });
+    }
+    return matured;
+  }
+
+  /**
+   * Recompute coverage of every note that has not matured. Notes whose
+   * coverage has fallen below the required ratio raise note:undercovered.
+   */
+  recheckCoverage(): RoyaltyBackedNote[] {
+    const checked: RoyaltyBackedNote[] = [];
+    for (const note of this.royaltyNotes.values()) {
+      if (note.status === 'MATURED' || note.status === 'REDEEMED') continue;
+      Object.assign(note, this.assessCoverage(note));
+      if (note.coverageRatio < this.minCoverageRatio) {
+        this.emit('note:undercovered', {
+          noteId: note.noteId,
+          status: note.status,
+          coverageRatio: note.coverageRatio,
+          requiredRatio: this.minCoverageRatio,
+        });
+      }
+      checked.push({ ...note });
+    }
+    return checked;
+  }
+
+  /**
+   * Reload a note saved earlier, e.g. from the database
+   */
+  restoreNote(note: RoyaltyBackedNote): void {
+    this.royaltyNotes.set(note.noteId, { ...note });
+  }
+
+  getNote(noteId: string): RoyaltyBackedNote | undefined {
+    const note = this.royaltyNotes.get(noteId);
+    return note ? { ...note } : undefined;
+  }
+
+  getNotes(): RoyaltyBackedNote[] {
+    return Array.from(this.royaltyNotes.values(), note => ({ ...note }));
+  }
+
+  private getNoteInStatus(noteId: string, status: RoyaltyBackedNote['status']): RoyaltyBackedNote {
+    const note = this.royaltyNotes.get(noteId);
+    if (!note) throw new Error(`Royalty-backed note ${noteId} not found`);
+    if (note.status !== status) throw new Error(`Royalty-backed note ${noteId} is ${note.status}`);
+    return note;
+  }
+
+  /*
+   * Backing counted for a note. A forecast counts at its estimate until
+   * reports for its quarter arrive, then at no more than they realised;
+   * forecasts together count for at most maxForecastPercent of principal.
+   */
+  private assessCoverage(note: RoyaltyBackedNote): Pick<RoyaltyBackedNote, 'verifiedRoyaltyGHS' | 'forecastRoyaltyGHS' | 'coverageRatio'> {
+    const reports = Array.from(this.productionReports.values());
+    const verifiedRoyaltyGHS = note.backingRoyaltyIds.reduce((sum, reportId) => {
+      const report = this.productionReports.get(reportId);
+      return sum + (report?.verifiedBy ? report.royaltyAmountGHS : 0);
+    }, 0);
+    const forecastEstimateGHS = note.forecastIds.reduce((sum, forecastId) => {
+      const forecast = this.forecasts.get(forecastId);
+      if (!forecast) return sum;
+      const actual = reports.filter(r => r.period.year === forecast.period.year && r.period.quarter === forecast.period.quarter);
+      const realisedGHS = actual.reduce((total, r) => total + r.royaltyAmountGHS, 0);
+      return sum + (actual.length > 0 ? Math.min(forecast.estimatedRoyaltyGHS, realisedGHS) : forecast.estimatedRoyaltyGHS);
+    }, 0);
+    const forecastRoyaltyGHS = Math.min(forecastEstimateGHS, note.principalGHS * this.maxForecastPercent / 100);
+
+    return {
+      verifiedRoyaltyGHS,
+      forecastRoyaltyGHS,
+      coverageRatio: (verifiedRoyaltyGHS + forecastRoyaltyGHS) / note.principalGHS,
+    };
+  }
+
   /**
    * Generate attestation for royalty data
    */
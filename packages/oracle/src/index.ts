@@ -1,3 +1,3 @@
-export { GoldVaultOracle, VaultSensorConfig, AssayReport, VaultInventorySnapshot } from './gold-vault';
+export { GoldVaultOracle, GoldVaultOracleOptions, VaultSensorConfig, AssayReport, VaultInventorySnapshot, PlatformWeight, RejectedReadingReason } from './gold-vault';
 export { CocoaWarehouseOracle, FarmGateDelivery, WarehouseEntry, CocoaSeasonSummary } from './cocoa-warehouse';
-export { GoldBodRoyaltyOracle, GoldProductionReport, RoyaltyForecast, MAJOR_GOLD_PRODUCERS } from './goldbod-royalty';
+export { GoldBodRoyaltyOracle, GoldProductionReport, RoyaltyForecast, RoyaltyBackedNote, RoyaltyNoteOptions, MAJOR_GOLD_PRODUCERS } from './goldbod-royalty';
@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { OracleSourceType } from '@govres/shared';
 import {
   checkAMLCompliance,
   checkKYCCompliance,
@@ -25,6 +26,8 @@ function makeTxInput(overrides: Partial<TransactionComplianceInput> = {}): Trans
     channel: overrides.channel ?? 'LEDGER',
     senderKycLevel: overrides.senderKycLevel ?? 3,
     recipientKycLevel: overrides.recipientKycLevel ?? 3,
+    senderDailyTotal: overrides.senderDailyTotal,
+    senderMonthlyTotal: overrides.senderMonthlyTotal,
   };
 }
 
@@ -55,6 +58,17 @@ describe('checkAMLCompliance', () => {
     const checks = checkAMLCompliance(makeTxInput());
     checks.forEach(c => expect(c.category).toBe('AML'));
   });
+
+  it('flags structuring when the 24-hour total reaches 100,000 GH¢', () => {
+    const checks = checkAMLCompliance(makeTxInput({ amount: 20_000, senderDailyTotal: 80_000 }));
+    const str = checks.find(c => c.description.includes('Suspicious Transaction Report'));
+    expect(str!.result).toBe(ComplianceResult.NEEDS_REVIEW);
+  });
+
+  it('skips the structuring check without a 24-hour total', () => {
+    const checks = checkAMLCompliance(makeTxInput({ amount: 20_000 }));
+    expect(checks.find(c => c.description.includes('Suspicious Transaction Report'))).toBeUndefined();
+  });
 });
 
 // ─── KYC compliance ─────────────────────────────────────
@@ -79,6 +93,17 @@ describe('checkKYCCompliance', () => {
     const checks = checkKYCCompliance(makeTxInput({ senderKycLevel: 0, amount: 1 }));
     expect(checks[0].result).toBe(ComplianceResult.FAIL);
   });
+
+  it('fails when the daily total would exceed the tier limit', () => {
+    const checks = checkKYCCompliance(makeTxInput({ senderKycLevel: 1, amount: 1_000, senderDailyTotal: 2_500, senderMonthlyTotal: 2_500 }));
+    expect(checks.find(c => c.description.includes('daily'))!.result).toBe(ComplianceResult.FAIL);
+    expect(checks.find(c => c.description.includes('monthly'))!.result).toBe(ComplianceResult.PASS);
+  });
+
+  it('fails when the monthly total would exceed the tier limit', () => {
+    const checks = checkKYCCompliance(makeTxInput({ senderKycLevel: 2, amount: 5_000, senderDailyTotal: 0, senderMonthlyTotal: 98_000 }));
+    expect(checks.find(c => c.description.includes('monthly'))!.result).toBe(ComplianceResult.FAIL);
+  });
 });
 
 // ─── Reserve adequacy ───────────────────────────────────
@@ -153,6 +178,27 @@ describe('checkOracleCompliance', () => {
     const freshness = checks.find(c => c.description.includes('freshness'));
     expect(freshness!.result).toBe(ComplianceResult.FAIL);
   });
+
+  it('reads coverage and confidence straight from an attestation', () => {
+    const checks = checkOracleCompliance({
+      id: 'att-1',
+      attestationId: 'GOLD-ATT-1',
+      sourceType: OracleSourceType.VAULT_SENSOR,
+      sourceId: 'VAULT-ACCRA-1',
+      data: { sensorCount: 4, activeSensors: 3 },
+      hash: 'hash',
+      signature: 'sig',
+      verified: true,
+      expiresAt: new Date(Date.now() + 3_600_000),
+      confidenceScore: 72.5,
+      createdAt: new Date(Date.now() - 60_000),
+      updatedAt: new Date(),
+      createdBy: 'GOLD_VAULT_ORACLE',
+      version: 1,
+    });
+    expect(checks.map(c => c.result)).toEqual([ComplianceResult.PASS, ComplianceResult.PASS, ComplianceResult.WARNING]);
+    expect(checks[2].details).toContain('72.5%');
+  });
 });
 
 // ─── generateComplianceReport ───────────────────────────
@@ -12,6 +12,8 @@
  *  - Minerals & Mining Act, 2006 (Act 703)
  */
 
+import { OracleAttestation } from '@govres/shared';
+
 export enum ComplianceCategory {
   AML = 'AML',
   KYC = 'KYC',
@@ -47,6 +49,9 @@ export interface TransactionComplianceInput {
   channel: string;
   senderKycLevel: number; // 0=none, 1=basic, 2=enhanced, 3=full
   recipientKycLevel: number;
+  /* Sender's rolling 24-hour and 30-day totals before this transaction, when known */
+  senderDailyTotal?: number;
+  senderMonthlyTotal?: number;
 }
 
 /**
@@ -66,13 +71,22 @@ const AML_THRESHOLDS = {
 /**
  * KYC tier limits per BoG e-Money guidelines
  */
-const KYC_TIER_LIMITS = {
+export const KYC_TIER_LIMITS = {
   0: { singleTx: 0, dailyLimit: 0, monthlyLimit: 0 },
   1: { singleTx: 1_000, dailyLimit: 3_000, monthlyLimit: 10_000 }, // Minimal KYC (Ghana Card only)
   2: { singleTx: 10_000, dailyLimit: 30_000, monthlyLimit: 100_000 }, // Standard KYC
   3: { singleTx: Infinity, dailyLimit: Infinity, monthlyLimit: Infinity }, // Full KYC (institutional)
 } as const;
 
+export type KycTierLimits = (typeof KYC_TIER_LIMITS)[keyof typeof KYC_TIER_LIMITS];
+
+/**
+ * Limits for a KYC level; unknown levels get no allowance
+ */
+export function getKycTierLimits(kycLevel: number): KycTierLimits {
+  return KYC_TIER_LIMITS[kycLevel as keyof typeof KYC_TIER_LIMITS] ?? KYC_TIER_LIMITS[0];
+}
+
 /**
  * Run AML compliance checks on a transaction
  */
@@ -106,6 +120,22 @@ export function checkAMLCompliance(input: TransactionComplianceInput): Complianc
     });
   }
 
+  // STR Check — many smaller transactions adding up within 24 hours
+  if (input.senderDailyTotal !== undefined) {
+    const aggregate = input.senderDailyTotal + input.amount;
+    checks.push({
+      id: `aml-str-${Date.now()}`,
+      category: ComplianceCategory.AML,
+      regulation: 'Anti-Money Laundering Act 1044, Section 31',
+      description: 'Suspicious Transaction Report structuring check',
+      result: aggregate >= AML_THRESHOLDS.STR_AGGREGATE_24H ? ComplianceResult.NEEDS_REVIEW : ComplianceResult.PASS,
+      details: aggregate >= AML_THRESHOLDS.STR_AGGREGATE_24H
+        ? `Sender's 24-hour total of GH¢${aggregate.toLocaleString()} reaches the structuring threshold of GH¢${AML_THRESHOLDS.STR_AGGREGATE_24H.toLocaleString()}.`
+        : `Sender's 24-hour total within structuring threshold.`,
+      timestamp,
+    });
+  }
+
   return checks;
 }
 
@@ -116,7 +146,7 @@ export function checkKYCCompliance(input: TransactionComplianceInput): Complianc
   const checks: ComplianceCheck[] = [];
   const timestamp = new Date().toISOString();
 
-  const senderLimits = KYC_TIER_LIMITS[input.senderKycLevel as keyof typeof KYC_TIER_LIMITS] ?? KYC_TIER_LIMITS[0];
+  const senderLimits = getKycTierLimits(input.senderKycLevel);
 
   checks.push({
     id: `kyc-sender-${Date.now()}`,
@@ -130,6 +160,26 @@ export function checkKYCCompliance(input: TransactionComplianceInput): Complianc
     timestamp,
   });
 
+  const windows = [
+    { label: 'daily', total: input.senderDailyTotal, limit: senderLimits.dailyLimit },
+    { label: 'monthly', total: input.senderMonthlyTotal, limit: senderLimits.monthlyLimit },
+  ];
+  for (const window of windows) {
+    if (window.total === undefined) continue;
+    const total = window.total + input.amount;
+    checks.push({
+      id: `kyc-sender-${window.label}-${Date.now()}`,
+      category: ComplianceCategory.KYC,
+      regulation: 'BoG e-Money Guidelines, Section 5.2',
+      description: `Sender KYC tier ${window.label} limit check`,
+      result: total <= window.limit ? ComplianceResult.PASS : ComplianceResult.FAIL,
+      details: total <= window.limit
+        ? `Sender KYC Level ${input.senderKycLevel}: Transaction within ${window.label} limit.`
+        : `Sender KYC Level ${input.senderKycLevel}: ${window.label} total of GH¢${total.toLocaleString()} exceeds limit of GH¢${window.limit.toLocaleString()}.`,
+      timestamp,
+    });
+  }
+
   return checks;
 }
 
@@ -172,15 +222,26 @@ export function checkReserveAdequacy(params: {
   return checks;
 }
 
-/**
- * Check oracle attestation validity
- */
-export function checkOracleCompliance(params: {
+export interface OracleComplianceInput {
   attestationAge: number; // seconds since last attestation
   sensorCount: number;
   activeSensors: number;
-  confidenceScore: number;
-}): ComplianceCheck[] {
+  confidenceScore: number; // 0–100
+}
+
+/**
+ * Check oracle attestation validity, from the figures or straight from
+ * the attestation. An attestation without a confidence score scores 0.
+ */
+export function checkOracleCompliance(input: OracleComplianceInput | OracleAttestation): ComplianceCheck[] {
+  const params: OracleComplianceInput = 'attestationId' in input
+    ? {
+      attestationAge: (Date.now() - new Date(input.createdAt).getTime()) / 1000,
+      sensorCount: Number(input.data.sensorCount ?? 0),
+      activeSensors: Number(input.data.activeSensors ?? 0),
+      confidenceScore: input.confidenceScore ?? 0,
+    }
+    : input;
   const checks: ComplianceCheck[] = [];
   const timestamp = new Date().toISOString();
 
@@ -7,10 +7,15 @@ export type { AuditLogEntry } from './audit';
 export {
   checkAMLCompliance,
   checkKYCCompliance,
+  getKycTierLimits,
   checkReserveAdequacy,
   checkOracleCompliance,
   generateComplianceReport,
   ComplianceCategory,
   ComplianceResult,
+  KYC_TIER_LIMITS,
 } from './compliance';
-export type { ComplianceCheck, TransactionComplianceInput } from './compliance';
+export type { ComplianceCheck, TransactionComplianceInput, KycTierLimits, OracleComplianceInput } from './compliance';
+
+export { evaluatePaymentLimits } from './payment-limits';
+export type { PaymentLimitAction, PaymentLimitDecision, PaymentLimitInput, PaymentTranche, PriorPayment } from './payment-limits';
@@ -0,0 +1,217 @@
+/**
+ * GOVRES — Payment Limits Tests
+ * Tests for splitting, holding and blocking payments under KYC tier and wallet limits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ERROR_CODES } from '@govres/shared';
+import { evaluatePaymentLimits, PaymentLimitInput, PriorPayment } from './payment-limits';
+
+// ─── Helpers ────────────────────────────────────────────
+
+const NOW = new Date('2026-03-02T09:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function makeInput(amount: number, kycLevel: number, overrides: Partial<PaymentLimitInput> = {}): PaymentLimitInput {
+  return {
+    payment: {
+      amount,
+      senderAccountId: 'FARMER-001',
+      recipientAccountId: 'MOMO:0240000001',
+      instrumentType: 'CRDN',
+      channel: 'MOMO',
+      senderKycLevel: kycLevel,
+      recipientKycLevel: 0,
+    },
+    accountPayments: [],
+    splittable: true,
+    maxSplitDays: 7,
+    now: NOW,
+    ...overrides,
+  };
+}
+
+function paidAgo(amount: number, hours: number): PriorPayment {
+  return { amount, at: new Date(NOW.getTime() - hours * HOUR_MS) };
+}
+
+// ─── Decisions ──────────────────────────────────────────
+
+describe('evaluatePaymentLimits', () => {
+  it('allows a payment within every limit in one tranche', () => {
+    const decision = evaluatePaymentLimits(makeInput(800, 1));
+    expect(decision.action).toBe('ALLOW');
+    expect(decision.tranches).toEqual([{ amount: 800, notBefore: NOW }]);
+  });
+
+  it('blocks senders without KYC', () => {
+    const decision = evaluatePaymentLimits(makeInput(10, 0));
+    expect(decision.action).toBe('BLOCK');
+    expect(decision.code).toBe(ERROR_CODES.KYC_REQUIRED);
+  });
+
+  it('splits a payment above the single-transaction limit into tranches', () => {
+    const decision = evaluatePaymentLimits(makeInput(2_500.5, 1));
+    expect(decision.action).toBe('SPLIT');
+    expect(decision.tranches.map(t => t.amount)).toEqual([1_000, 1_000, 500.5]);
+    expect(decision.tranches.every(t => t.notBefore.getTime() === NOW.getTime())).toBe(true);
+  });
+
+  it('moves tranches beyond the daily limit to following days', () => {
+    const decision = evaluatePaymentLimits(makeInput(7_000, 1, { accountPayments: [paidAgo(1_000, 2)] }));
+    expect(decision.action).toBe('SPLIT');
+    const byDay = new Map<number, number>();
+    for (const tranche of decision.tranches) {
+      const day = Math.round((tranche.notBefore.getTime() - NOW.getTime()) / DAY_MS);
+      byDay.set(day, (byDay.get(day) ?? 0) + tranche.amount);
+    }
+    expect([...byDay.entries()]).toEqual([[0, 2_000], [1, 3_000], [2, 2_000]]);
+  });
+
+  it('blocks a payment that cannot be split when it needs tranches', () => {
+    const decision = evaluatePaymentLimits(makeInput(2_500, 1, { splittable: false }));
+    expect(decision.action).toBe('BLOCK');
+    expect(decision.code).toBe(ERROR_CODES.SINGLE_TX_LIMIT_EXCEEDED);
+  });
+
+  it('blocks a payment beyond what is left of the monthly limit', () => {
+    const decision = evaluatePaymentLimits(makeInput(3_000, 1, { accountPayments: [paidAgo(2_000, 24 * 10), paidAgo(6_000, 24 * 20)] }));
+    expect(decision.action).toBe('BLOCK');
+    expect(decision.code).toBe(ERROR_CODES.MONTHLY_LIMIT_EXCEEDED);
+  });
+
+  it('ignores payments older than the monthly window', () => {
+    const decision = evaluatePaymentLimits(makeInput(900, 1, { accountPayments: [paidAgo(9_500, 24 * 31)] }));
+    expect(decision.action).toBe('ALLOW');
+  });
+
+  it('applies the wallet daily cap on top of the tier limits', () => {
+    const decision = evaluatePaymentLimits(makeInput(40_000, 3, {
+      walletPayments: [paidAgo(30_000, 3)],
+      walletDailyLimit: 50_000,
+    }));
+    expect(decision.action).toBe('SPLIT');
+    expect(decision.tranches.map(t => t.amount)).toEqual([20_000, 20_000]);
+  });
+
+  it('reports the wallet cap when it blocks an unsplittable payment', () => {
+    const decision = evaluatePaymentLimits(makeInput(40_000, 3, {
+      walletPayments: [paidAgo(30_000, 3)],
+      walletDailyLimit: 50_000,
+      splittable: false,
+    }));
+    expect(decision.code).toBe(ERROR_CODES.WALLET_DAILY_LIMIT_EXCEEDED);
+  });
+
+  it('blocks a payment that would need more days than allowed', () => {
+    const decision = evaluatePaymentLimits(makeInput(90_000, 2, { maxSplitDays: 2 }));
+    expect(decision.action).toBe('BLOCK');
+    expect(decision.code).toBe(ERROR_CODES.DAILY_LIMIT_EXCEEDED);
+  });
+
+  it('holds a payment at the CTR threshold for review, keeping its tranches', () => {
+    const decision = evaluatePaymentLimits(makeInput(60_000, 3, { walletDailyLimit: 50_000 }));
+    expect(decision.action).toBe('REVIEW');
+    expect(decision.code).toBe(ERROR_CODES.AML_FLAG);
+    expect(decision.tranches.map(t => t.amount)).toEqual([50_000, 10_000]);
+  });
+
+  it('holds payments that add up to the structuring threshold for review', () => {
+    const decision = evaluatePaymentLimits(makeInput(10_000, 3, { accountPayments: [paidAgo(45_000, 5), paidAgo(45_000, 10)] }));
+    expect(decision.action).toBe('REVIEW');
+  });
+});
+
+// ─── Boundaries ─────────────────────────────────────────
+
+describe('evaluatePaymentLimits at the limits', () => {
+  it('allows a payment of exactly the single-transaction limit in one tranche, and splits one pesewa more', () => {
+    expect(evaluatePaymentLimits(makeInput(1_000, 1)).action).toBe('ALLOW');
+
+    const over = evaluatePaymentLimits(makeInput(1_000.01, 1));
+    expect(over.action).toBe('SPLIT');
+    expect(over.tranches.map(t => t.amount)).toEqual([1_000, 0.01]);
+  });
+
+  it('pays up to exactly the daily limit today and moves the next pesewa to tomorrow', () => {
+    const full = evaluatePaymentLimits(makeInput(1_000, 1, { accountPayments: [paidAgo(2_000, 1)] }));
+    expect(full.action).toBe('ALLOW');
+    expect(full.tranches).toEqual([{ amount: 1_000, notBefore: NOW }]);
+
+    const over = evaluatePaymentLimits(makeInput(1_000.01, 1, { accountPayments: [paidAgo(2_000, 1)] }));
+    expect(over.tranches).toEqual([
+      { amount: 1_000, notBefore: NOW },
+      { amount: 0.01, notBefore: new Date(NOW.getTime() + DAY_MS) },
+    ]);
+  });
+
+  it('allows a payment of exactly what is left of the monthly limit and blocks one pesewa more', () => {
+    const history = [paidAgo(4_000, 24 * 5), paidAgo(5_500, 24 * 15)];
+    expect(evaluatePaymentLimits(makeInput(500, 1, { accountPayments: history })).action).toBe('ALLOW');
+
+    const over = evaluatePaymentLimits(makeInput(500.01, 1, { accountPayments: history }));
+    expect(over.action).toBe('BLOCK');
+    expect(over.code).toBe(ERROR_CODES.MONTHLY_LIMIT_EXCEEDED);
+  });
+
+  it('fills a wallet to exactly its daily cap, and refuses an unsplittable pesewa more', () => {
+    const cap = { walletPayments: [paidAgo(30_000, 3)], walletDailyLimit: 50_000, splittable: false };
+    expect(evaluatePaymentLimits(makeInput(20_000, 3, cap)).action).toBe('ALLOW');
+
+    const over = evaluatePaymentLimits(makeInput(20_000.01, 3, cap));
+    expect(over.action).toBe('BLOCK');
+    expect(over.code).toBe(ERROR_CODES.WALLET_DAILY_LIMIT_EXCEEDED);
+  });
+
+  it('counts a payment made just under 24 hours ago against today, and not one just over', () => {
+    expect(evaluatePaymentLimits(makeInput(1_000, 1, { accountPayments: [paidAgo(2_500, 23.99)] })).action).toBe('SPLIT');
+    expect(evaluatePaymentLimits(makeInput(1_000, 1, { accountPayments: [paidAgo(2_500, 24)] })).action).toBe('ALLOW');
+  });
+});
+
+// ─── Tranches ───────────────────────────────────────────
+
+describe('evaluatePaymentLimits tranches', () => {
+  it.each([
+    [2_999.99, 1, []],
+    [7_333.33, 1, [paidAgo(1_234.56, 5)]],
+    [95_000.07, 2, [paidAgo(0.03, 2)]],
+    [300_000.01, 3, []],
+  ])('splits GH¢%d into tranches adding up to the payment exactly', (amount, kycLevel, accountPayments) => {
+    const decision = evaluatePaymentLimits(makeInput(amount, kycLevel, { accountPayments, walletDailyLimit: 50_000 }));
+    expect(decision.tranches.length).toBeGreaterThan(1);
+    const pesewas = decision.tranches.reduce((sum, t) => sum + Math.round(t.amount * 100), 0);
+    expect(pesewas).toBe(Math.round(amount * 100));
+    expect(decision.tranches.every(t => Number.isInteger(Math.round(t.amount * 100)) && t.amount > 0)).toBe(true);
+  });
+});
+
+// ─── Compliance Review ──────────────────────────────────
+
+describe('evaluatePaymentLimits compliance review', () => {
+  it('holds a payment that reaches the CTR threshold for review, and allows one just under it', () => {
+    expect(evaluatePaymentLimits(makeInput(49_999.99, 3)).action).toBe('ALLOW');
+
+    const held = evaluatePaymentLimits(makeInput(50_000, 3));
+    expect(held.action).toBe('REVIEW');
+    expect(held.code).toBe(ERROR_CODES.AML_FLAG);
+    expect(held.tranches).toEqual([{ amount: 50_000, notBefore: NOW }]);
+    expect(held.reason).toContain('CTR threshold');
+  });
+
+  it('holds a payment that takes the 24-hour total to the structuring threshold', () => {
+    const under = evaluatePaymentLimits(makeInput(9_999.99, 3, { accountPayments: [paidAgo(45_000, 5), paidAgo(45_000, 10)] }));
+    expect(under.action).toBe('ALLOW');
+
+    const held = evaluatePaymentLimits(makeInput(10_000, 3, { accountPayments: [paidAgo(45_000, 5), paidAgo(45_000, 10)] }));
+    expect(held.action).toBe('REVIEW');
+    expect(held.reason).toContain('structuring threshold');
+  });
+
+  it('still blocks a flagged payment that breaks a tier limit rather than holding it', () => {
+    const decision = evaluatePaymentLimits(makeInput(60_000, 2, { splittable: false }));
+    expect(decision.action).toBe('BLOCK');
+    expect(decision.code).toBe(ERROR_CODES.SINGLE_TX_LIMIT_EXCEEDED);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * GOVRES — Payment Limits
+ * Decides how an outgoing payment may be made under its sender's KYC tier
+ * limits, a daily cap per receiving wallet and the AML thresholds
+ *
+ * A payment is made in one go, split into tranches over several days so
+ * that no rolling 24-hour or 30-day window exceeds a limit, held for
+ * compliance review when an AML check flags it, or blocked.
+ */
+
+import { ERROR_CODES } from '@govres/shared';
+import {
+  ComplianceCategory,
+  ComplianceCheck,
+  ComplianceResult,
+  TransactionComplianceInput,
+  checkAMLCompliance,
+  checkKYCCompliance,
+  getKycTierLimits,
+} from './compliance';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS;
+
+export type PaymentLimitAction = 'ALLOW' | 'SPLIT' | 'REVIEW' | 'BLOCK';
+
+/** A payment already made or scheduled, counted against later ones */
+export interface PriorPayment {
+  amount: number;
+  at: Date;
+}
+
+export interface PaymentTranche {
+  amount: number;
+  notBefore: Date;
+}
+
+export interface PaymentLimitInput {
+  payment: TransactionComplianceInput;
+  /* Payments from the sender's account, including tranches still scheduled */
+  accountPayments: PriorPayment[];
+  /* Payments to the receiving wallet, when it has a daily cap of its own */
+  walletPayments?: PriorPayment[];
+  walletDailyLimit?: number;
+  /* Whether the payment may be made in tranches over several days */
+  splittable: boolean;
+  maxSplitDays: number;
+  now?: Date;
+}
+
+export interface PaymentLimitDecision {
+  action: PaymentLimitAction;
+  /* Error code for a blocked payment, or the AML flag for one held for review */
+  code?: string;
+  reason: string;
+  /* How the payment is to be made; empty when blocked */
+  tranches: PaymentTranche[];
+  checks: ComplianceCheck[];
+}
+
+/**
+ * Decide how a payment may be made given what its sender and receiving
+ * wallet have already paid
+ */
+export function evaluatePaymentLimits(input: PaymentLimitInput): PaymentLimitDecision {
+  const now = input.now ?? new Date();
+  const { payment } = input;
+  const limits = getKycTierLimits(payment.senderKycLevel);
+  const accountPayments = input.accountPayments.map(toPesewas);
+  const walletPayments = (input.walletPayments ?? []).map(toPesewas);
+  const amount = pesewas(payment.amount);
+  const dailyTotal = windowTotal(accountPayments, now.getTime(), DAY_MS);
+  const monthlyTotal = windowTotal(accountPayments, now.getTime(), MONTH_MS);
+
+  const checks = [
+    ...checkKYCCompliance({ ...payment, senderDailyTotal: cedi(dailyTotal), senderMonthlyTotal: cedi(monthlyTotal) }),
+    ...checkAMLCompliance({ ...payment, senderDailyTotal: cedi(dailyTotal) }),
+  ];
+  const block = (code: string, reason: string): PaymentLimitDecision => ({ action: 'BLOCK', code, reason, tranches: [], checks });
+
+  if (limits.singleTx === 0) {
+    return block(ERROR_CODES.KYC_REQUIRED, `KYC level ${payment.senderKycLevel} does not allow outgoing payments; KYC verification required`);
+  }
+
+  const monthlyRoom = pesewas(limits.monthlyLimit) - monthlyTotal;
+  if (amount > monthlyRoom) {
+    return block(
+      ERROR_CODES.MONTHLY_LIMIT_EXCEEDED,
+      `Payment of GH¢${payment.amount.toLocaleString()} exceeds the GH¢${cedi(Math.max(monthlyRoom, 0)).toLocaleString()} left of the KYC level ${payment.senderKycLevel} monthly limit`
+    );
+  }
+
+  // Fill each day up to the tightest limit, starting today
+  const planned: PriorPayment[] = [];
+  let remaining = amount;
+  let binding: 'ACCOUNT' | 'WALLET' = 'ACCOUNT';
+  for (let day = 0; day < input.maxSplitDays && remaining > 0; day++) {
+    const at = now.getTime() + day * DAY_MS;
+    const accountRoom = pesewas(limits.dailyLimit) - windowTotal([...accountPayments, ...planned], at, DAY_MS);
+    const walletRoom = input.walletDailyLimit === undefined
+      ? Infinity
+      : pesewas(input.walletDailyLimit) - windowTotal([...walletPayments, ...planned], at, DAY_MS);
+    if (day === 0 && walletRoom < accountRoom) binding = 'WALLET';
+
+    let room = Math.min(accountRoom, walletRoom);
+    while (room > 0 && remaining > 0) {
+      const tranche = Math.min(remaining, room, pesewas(limits.singleTx));
+      planned.push({ amount: tranche, at: new Date(at) });
+      remaining -= tranche;
+      room -= tranche;
+    }
+  }
+
+  const dailyCode = binding === 'WALLET' ? ERROR_CODES.WALLET_DAILY_LIMIT_EXCEEDED : ERROR_CODES.DAILY_LIMIT_EXCEEDED;
+  const dailyLimit = binding === 'WALLET' ? `GH¢${input.walletDailyLimit!.toLocaleString()} daily limit for the receiving wallet` : `KYC level ${payment.senderKycLevel} daily limit`;
+  if (remaining > 0) {
+    return block(dailyCode, `Payment of GH¢${payment.amount.toLocaleString()} cannot be made within ${input.maxSplitDays} days under the ${dailyLimit}`);
+  }
+  if (planned.length > 1 && !input.splittable) {
+    return amount > pesewas(limits.singleTx)
+      ? block(ERROR_CODES.SINGLE_TX_LIMIT_EXCEEDED, `Payment of GH¢${payment.amount.toLocaleString()} exceeds the KYC level ${payment.senderKycLevel} single-transaction limit of GH¢${limits.singleTx.toLocaleString()}`)
+      : block(dailyCode, `Payment of GH¢${payment.amount.toLocaleString()} exceeds what is left of the ${dailyLimit}`);
+  }
+
+  const tranches = planned.map(tranche => ({ amount: cedi(tranche.amount), notBefore: tranche.at }));
+  const flagged = checks.filter(check => check.category === ComplianceCategory.AML && check.result !== ComplianceResult.PASS);
+  if (flagged.length > 0) {
+    return { action: 'REVIEW', code: ERROR_CODES.AML_FLAG, reason: flagged.map(check => check.details).join(' '), tranches, checks };
+  }
+  if (tranches.length > 1) {
+    const days = new Set(tranches.map(tranche => tranche.notBefore.getTime())).size;
+    return { action: 'SPLIT', reason: `Payment split into ${tranches.length} tranches over ${days} day(s) to stay within limits`, tranches, checks };
+  }
+  return { action: 'ALLOW', reason: 'Payment within limits', tranches, checks };
+}
+
+/* Total of payments within a window either side of a moment; any rolling window holding that moment lies inside it */
+function windowTotal(payments: PriorPayment[], at: number, windowMs: number): number {
+  return payments
+    .filter(payment => Math.abs(payment.at.getTime() - at) < windowMs)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+}
+
+/* Amounts are planned in whole pesewas so tranches add up exactly */
+function pesewas(amount: number): number {
+  return Number.isFinite(amount) ? Math.round(amount * 100) : amount;
+}
+
+function cedi(amount: number): number {
+  return amount / 100;
+}
+
+function toPesewas(payment: PriorPayment): PriorPayment {
+  return { amount: pesewas(payment.amount), at: payment.at };
+}
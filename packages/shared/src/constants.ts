@@ -52,9 +52,33 @@ export const FINANCIAL = {
   /* Minimum CRDN value */
   MIN_CRDN_VALUE_CEDI: 10,
 
+  /* CRDN validity from issuance, for seasons without their own period */
+  CRDN_VALIDITY_DAYS: 180,
+
+  /* Haircut on pledged collateral by instrument, and for CRDNs by QCC grade */
+  COLLATERAL_HAIRCUT_PERCENT: {
+    GBDC: 5,
+    CRDN: 30,
+    CRDN_GRADE_1: 20,
+    CRDN_GRADE_2: 30,
+    CRDN_SUB_STANDARD: 50,
+  },
+
+  /* Annual interest on draws from the collateralised lending facility */
+  LENDING_FACILITY_RATE_PERCENT: 28,
+
+  /* Backing a royalty-backed note must hold, as a multiple of its principal */
+  ROYALTY_NOTE_MIN_COVERAGE_RATIO: 1.25,
+
+  /* Share of a royalty-backed note's principal that forecast royalties may back */
+  ROYALTY_NOTE_MAX_FORECAST_PERCENT: 40,
+
   /* Maximum daily MoMo transaction limit */
   MAX_MOMO_DAILY_CEDI: 50_000,
 
+  /* Days over which a payment above its sender's limits may be split */
+  MAX_PAYMENT_SPLIT_DAYS: 7,
+
   /* Settlement finality window in seconds */
   SETTLEMENT_FINALITY_SECONDS: 30,
 } as const;
@@ -68,12 +92,72 @@ export const SYSTEM = {
   /* Maximum transactions per block */
   MAX_TX_PER_BLOCK: 1000,
 
+  /* Blocks between signed ledger state snapshots */
+  SNAPSHOT_INTERVAL_BLOCKS: 1000,
+
+  /* Recent blocks kept in memory once older ones are covered by a snapshot */
+  RETAINED_BLOCKS: 100,
+
+  /* How often the engine looks for CRDNs past their validity period */
+  CRDN_EXPIRY_CHECK_INTERVAL_MS: 3_600_000,
+
+  /* How often deadline-based escrow releases are checked */
+  ESCROW_RELEASE_CHECK_INTERVAL_MS: 60_000,
+
+  /* How often yield note coupons falling due are paid */
+  YIELD_NOTE_COUPON_CHECK_INTERVAL_MS: 3_600_000,
+
+  /* Interbank netting cycle length; well inside FINANCIAL.SETTLEMENT_FINALITY_SECONDS */
+  INTERBANK_NETTING_INTERVAL_MS: 10_000,
+
+  /* How often queued RTGS payments are retried and the queue optimised */
+  RTGS_QUEUE_CHECK_INTERVAL_MS: 5_000,
+
+  /* How often MoMo payouts are retried and pending ones polled */
+  MOMO_PAYOUT_CHECK_INTERVAL_MS: 15_000,
+
+  /* MoMo provider requests that take longer are abandoned and retried */
+  MOMO_REQUEST_TIMEOUT_MS: 10_000,
+
+  /* Attempts to send a MoMo payout before it fails */
+  MOMO_MAX_ATTEMPTS: 5,
+
+  /* Delay before a MoMo payout is retried; doubles with each attempt */
+  MOMO_RETRY_BASE_DELAY_MS: 30_000,
+
+  /* A MoMo payout still pending this long after acceptance is reversed */
+  MOMO_PAYOUT_TIMEOUT_MS: 1_800_000,
+
+  /* How often stalled eCedi bridge transfers are finished and the bridge reconciled */
+  ECEDI_RECONCILE_INTERVAL_MS: 300_000,
+
+  /* eCedi gateway requests that take longer are abandoned */
+  ECEDI_REQUEST_TIMEOUT_MS: 10_000,
+
+  /* A bridge transfer stalled this long before the eCedi side prepared is rolled back */
+  ECEDI_PREPARE_TIMEOUT_MS: 120_000,
+
+  /* Smart routing passes over rails whose recent success rate is below this */
+  ROUTING_MIN_RAIL_HEALTH: 0.5,
+
+  /* Hours of payments a rail's health is measured over */
+  ROUTING_HEALTH_WINDOW_HOURS: 24,
+
   /* Oracle attestation validity window in hours */
   ORACLE_ATTESTATION_VALIDITY_HOURS: 24,
 
   /* Sensor reading interval in seconds */
   SENSOR_READING_INTERVAL_SECONDS: 60,
 
+  /* Fresh, agreeing weight readings a weighing platform needs at least; a strict majority of its sensors always is */
+  ORACLE_SENSOR_QUORUM: 1,
+
+  /* A sensor reading older than this many of the sensor's reading intervals is stale */
+  ORACLE_READING_MAX_AGE_INTERVALS: 3,
+
+  /* Sensors whose reputation falls below this are left out of attestations */
+  ORACLE_MIN_SENSOR_REPUTATION: 0.5,
+
   /* Audit log retention period in days */
   AUDIT_RETENTION_DAYS: 2555, // ~7 years per regulatory requirement
 
@@ -126,6 +210,16 @@ export const MOMO_PROVIDERS = [
   { code: 'AIRTELTIGO_MONEY', name: 'AirtelTigo Money', prefix: '026|027|056|057' },
 ] as const;
 
+// ─── Settlement Rails ───────────────────────────────────────────
+
+/* Fees and typical time to finality of each settlement channel, as smart routing weighs them */
+export const SETTLEMENT_RAILS = {
+  INTERBANK: { name: 'GOVRES RTGS', feeFixedCedi: 5, feePercent: 0, finalitySeconds: 5 },
+  BANK_TRANSFER: { name: 'Ledger transfer', feeFixedCedi: 0, feePercent: 0.1, maxFeeCedi: 20, finalitySeconds: 5 },
+  MOMO: { name: 'Mobile Money', feeFixedCedi: 0, feePercent: 1, maxFeeCedi: 100, finalitySeconds: 300 },
+  ECEDI: { name: 'eCedi bridge', feeFixedCedi: 0, feePercent: 0, finalitySeconds: 15 },
+} as const;
+
 // ─── Error Codes ────────────────────────────────────────────────
 
 export const ERROR_CODES = {
@@ -135,6 +229,7 @@ export const ERROR_CODES = {
   DOUBLE_SPEND: 'LEDGER_003',
   INVALID_SIGNATURE: 'LEDGER_004',
   BLOCK_VALIDATION_FAILED: 'LEDGER_005',
+  BALANCE_INVARIANT_VIOLATED: 'LEDGER_006',
 
   // Oracle errors
   ATTESTATION_EXPIRED: 'ORACLE_001',
@@ -147,6 +242,7 @@ export const ERROR_CODES = {
   BANK_UNREACHABLE: 'SETTLE_002',
   MOMO_FAILED: 'SETTLE_003',
   INSUFFICIENT_BALANCE: 'SETTLE_004',
+  ECEDI_TRANSFER_FAILED: 'SETTLE_005',
 
   // Auth errors
   UNAUTHORIZED: 'AUTH_001',
@@ -158,6 +254,10 @@ export const ERROR_CODES = {
   AML_FLAG: 'COMP_001',
   SANCTION_HIT: 'COMP_002',
   LIMIT_EXCEEDED: 'COMP_003',
+  SINGLE_TX_LIMIT_EXCEEDED: 'COMP_004',
+  DAILY_LIMIT_EXCEEDED: 'COMP_005',
+  MONTHLY_LIMIT_EXCEEDED: 'COMP_006',
+  WALLET_DAILY_LIMIT_EXCEEDED: 'COMP_007',
 } as const;
 
 // ─── Cocoa Regions in Ghana ─────────────────────────────────────
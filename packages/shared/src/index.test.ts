@@ -22,14 +22,15 @@ import {
 // ─── UserRole enum ──────────────────────────────────────
 
 describe('UserRole enum', () => {
-  it('has all 9 roles', () => {
+  it('has all 10 roles', () => {
     const roles = Object.keys(UserRole);
-    expect(roles.length).toBeGreaterThanOrEqual(9);
+    expect(roles.length).toBeGreaterThanOrEqual(10);
     expect(roles).toContain('BOG_ADMIN');
     expect(roles).toContain('BOG_AUDITOR');
     expect(roles).toContain('GOVT_AGENCY');
     expect(roles).toContain('COMMERCIAL_BANK');
     expect(roles).toContain('CONTRACTOR');
+    expect(roles).toContain('INSPECTOR');
     expect(roles).toContain('FARMER');
     expect(roles).toContain('LBC');
     expect(roles).toContain('DIASPORA');
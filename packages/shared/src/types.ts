@@ -30,6 +30,7 @@ export enum UserRole {
   GOVT_AGENCY = 'GOVT_AGENCY',         // Government Agencies / Ministries
   COMMERCIAL_BANK = 'COMMERCIAL_BANK', // Commercial Banks
   CONTRACTOR = 'CONTRACTOR',           // Contractors / Suppliers
+  INSPECTOR = 'INSPECTOR',             // Independent Project Inspectors
   FARMER = 'FARMER',                   // Farmers
   LBC = 'LBC',                         // Licensed Buying Companies
   DIASPORA = 'DIASPORA',               // Diaspora Investors
@@ -66,6 +67,7 @@ export enum CRDNStatus {
   ISSUED = 'ISSUED',             // Issued at farm-gate delivery
   HELD = 'HELD',                 // Held by farmer/LBC
   CONVERTING = 'CONVERTING',     // Being converted to GBDC or cash
+  PLEDGED = 'PLEDGED',           // Pledged to BoG as lending collateral
   CONVERTED = 'CONVERTED',       // Converted to GBDC / cedi
   EXPIRED = 'EXPIRED',           // Past validity period
   CANCELLED = 'CANCELLED',       // Cancelled by issuer
@@ -279,6 +281,7 @@ export interface OracleAttestation extends BaseEntity {
   verified: boolean;
   verifiedAt?: Date;
   expiresAt: Date;                 // Attestation validity window
+  confidenceScore?: number;        // 0–100, from sensor quorum, agreement and reputation
 }
 
 /* Reserve summary for public dashboard */
@@ -316,7 +319,7 @@ export interface ECediTransaction {
   govresTxId: string;
   amount: number;
   direction: 'GBDC_TO_ECEDI' | 'ECEDI_TO_GBDC' | 'CRDN_TO_ECEDI';
-  status: 'PENDING' | 'COMPLETED' | 'FAILED';
+  status: 'PENDING' | 'LOCKED' | 'COMMITTING' | 'ROLLING_BACK' | 'COMPLETED' | 'FAILED';
   proofHash: string;               // Asset-backed verification proof
   timestamp: Date;
 }
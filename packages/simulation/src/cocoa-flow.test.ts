@@ -39,9 +39,9 @@ describe('Cocoa Flow Simulation', () => {
   let engine: LedgerEngine;
   let oracle: CocoaWarehouseOracle;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     engine = new LedgerEngine('cocoa-test-validator');
-    engine.initialize();
+    await engine.initialize();
     oracle = new CocoaWarehouseOracle(99.89); // GHS per kg producer price
   });
 
@@ -175,8 +175,8 @@ describe('Cocoa Flow Simulation', () => {
       expect(summary.cocoaReserveKg).toBe(50000);
       expect(summary.goldReserveGrams).toBe(100000);
       expect(summary.totalCRDNOutstanding).toBeGreaterThan(0);
-      // 2 initial accounts (BOG_TREASURY, BOG_RESERVE) + FARMER_A + LBC_A = 4
-      expect(summary.accountCount).toBe(4);
+      // 3 initial accounts (BOG_TREASURY, BOG_RESERVE, CRDN_SETTLEMENT_POOL) + FARMER_A + LBC_A = 5
+      expect(summary.accountCount).toBe(5);
     });
   });
 
@@ -29,7 +29,7 @@ export async function simulateCocoaSeason(options: {
   regions: string[];
 }): Promise<SimulationResult> {
   const ledger = new LedgerEngine('sim-validator-001');
-  ledger.initialize();
+  await ledger.initialize();
 
   const oracle = new CocoaWarehouseOracle(PRODUCER_PRICE_PER_KG);
 
@@ -10,9 +10,9 @@ import { UserRole } from '@govres/shared';
 describe('Contractor Flow Simulation', () => {
   let engine: LedgerEngine;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     engine = new LedgerEngine('contractor-test-validator');
-    engine.initialize();
+    await engine.initialize();
     // Register gold reserve sufficient for minting
     engine.registerGoldReserve(500_000, 'gold-attestation-hash');
   });
@@ -126,8 +126,8 @@ describe('Contractor Flow Simulation', () => {
       expect(engine.getTotalGBDCOutstanding()).toBe(totalMinted);
 
       const summary = engine.getReserveSummary();
-      // 2 initial accounts (BOG_TREASURY, BOG_RESERVE) + 4 contractors = 6
-      expect(summary.accountCount).toBe(6);
+      // 3 initial accounts (BOG_TREASURY, BOG_RESERVE, CRDN_SETTLEMENT_POOL) + 4 contractors = 7
+      expect(summary.accountCount).toBe(7);
     });
   });
 
@@ -91,7 +91,7 @@ export async function simulateContractorPayments(options: {
   milestoneCompletionRate: number;
 }): Promise<ContractorSimResult> {
   const ledger = new LedgerEngine('sim-contractor-validator');
-  ledger.initialize();
+  await ledger.initialize();
 
   const startTime = Date.now();
 
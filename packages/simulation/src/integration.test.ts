@@ -5,9 +5,10 @@
  * Cocoa Delivery → Oracle Attestation → CRDN Issue → Farmer Cashout
  */
 
+import crypto from 'crypto';
 import { describe, it, expect, beforeEach } from 'vitest';
 import { LedgerEngine } from '@govres/ledger';
-import { UserRole, COCOA_REGIONS, GOLD_MINING_REGIONS } from '@govres/shared';
+import { UserRole, COCOA_REGIONS, GOLD_MINING_REGIONS, SYSTEM } from '@govres/shared';
 import { CocoaWarehouseOracle, FarmGateDelivery } from '../../oracle/src/cocoa-warehouse';
 import { GoldVaultOracle } from '../../oracle/src/gold-vault';
 import { GoldBodRoyaltyOracle } from '../../oracle/src/goldbod-royalty';
@@ -41,9 +42,9 @@ function makeDelivery(overrides: Partial<FarmGateDelivery> = {}): FarmGateDelive
 describe('Integration: Full Money Creation Lifecycle', () => {
   let engine: LedgerEngine;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     engine = new LedgerEngine('integration-validator');
-    engine.initialize();
+    await engine.initialize();
   });
 
   describe('GBDC Money Printing Flow', () => {
@@ -81,8 +82,8 @@ describe('Integration: Full Money Creation Lifecycle', () => {
       const summary = engine.getReserveSummary();
       expect(summary.goldReserveGrams).toBe(1_000_000);
       expect(summary.totalGBDCOutstanding).toBe(50_000_000);
-      // 2 initial (BOG_TREASURY, BOG_RESERVE) + GCB_BANK + JOSPONG_GROUP = 4
-      expect(summary.accountCount).toBe(4);
+      // 3 initial (BOG_TREASURY, BOG_RESERVE, CRDN_SETTLEMENT_POOL) + GCB_BANK + JOSPONG_GROUP = 5
+      expect(summary.accountCount).toBe(5);
     });
 
     it('should enforce gold reserve ceiling on minting', () => {
@@ -200,8 +201,8 @@ describe('Integration: Full Money Creation Lifecycle', () => {
       const summary = engine.getReserveSummary();
       expect(summary.totalGBDCOutstanding).toBe(200_000_000);
       expect(summary.totalCRDNOutstanding).toBeCloseTo(3_200 * 99.89 * 10, 0);
-      // 2 initial + 10 farmers + 10 LBCs = 22
-      expect(summary.accountCount).toBe(22);
+      // 3 initial (BOG_TREASURY, BOG_RESERVE, CRDN_SETTLEMENT_POOL) + 10 farmers + 10 LBCs = 23
+      expect(summary.accountCount).toBe(23);
       expect(summary.reserveBackingRatio).toBeGreaterThan(0);
     });
   });
@@ -265,8 +266,21 @@ describe('Integration: Full Money Creation Lifecycle', () => {
         xrfSignature: 'xrf-int-1',
       });
 
+      // Attestations need a fresh reading from the vault's weight sensor
+      const timestamp = new Date();
+      goldOracle.processSensorReading({
+        sensorId: 'W1',
+        timestamp,
+        weightGrams: 12441,
+        temperatureCelsius: 22,
+        humidityPercent: 40,
+        tamperDetected: false,
+        signatureHash: crypto.createHash(SYSTEM.HASH_ALGORITHM).update(`W1:${timestamp.toISOString()}:12441:22:40:false`).digest('hex'),
+      });
+
       const attestation = goldOracle.generateAttestation('BOG_VAULT_1');
       expect(attestation.verified).toBe(true);
+      expect(attestation.data.totalWeightGrams).toBe(12441);
 
       // Register in ledger with attestation
       engine.registerGoldReserve(12441, attestation.hash);
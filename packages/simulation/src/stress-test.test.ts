@@ -10,9 +10,9 @@ import { UserRole } from '@govres/shared';
 describe('Stress Test Scenarios', () => {
   let engine: LedgerEngine;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     engine = new LedgerEngine('stress-test-validator');
-    engine.initialize();
+    await engine.initialize();
     engine.registerGoldReserve(10_000_000, 'stress-gold-attestation');
     engine.registerCocoaReserve(500_000, 'stress-cocoa-attestation');
   });
@@ -104,8 +104,8 @@ describe('Stress Test Scenarios', () => {
       expect(engine.getTotalCRDNOutstanding()).toBeCloseTo(320 * 99.89 * crdnCount, 0);
 
       const summary = engine.getReserveSummary();
-      // 2 initial accounts (BOG_TREASURY, BOG_RESERVE) + 30 farmers + 30 LBCs = 62
-      expect(summary.accountCount).toBe(2 + iterations * 2);
+      // 3 initial accounts (BOG_TREASURY, BOG_RESERVE, CRDN_SETTLEMENT_POOL) + 30 farmers + 30 LBCs = 63
+      expect(summary.accountCount).toBe(3 + iterations * 2);
     });
   });
 
@@ -126,8 +126,8 @@ describe('Stress Test Scenarios', () => {
       }
 
       const summary = engine.getReserveSummary();
-      // 2 initial accounts (BOG_TREASURY, BOG_RESERVE) + 200 = 202
-      expect(summary.accountCount).toBe(count + 2);
+      // 3 initial accounts (BOG_TREASURY, BOG_RESERVE, CRDN_SETTLEMENT_POOL) + 200 = 203
+      expect(summary.accountCount).toBe(count + 3);
     });
   });
 
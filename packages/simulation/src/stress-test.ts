@@ -20,7 +20,7 @@ export async function runStressTest(options: {
   batchSize: number;
 }): Promise<StressTestResult> {
   const ledger = new LedgerEngine('stress-validator');
-  ledger.initialize();
+  await ledger.initialize();
 
   // Seed massive gold reserve for GBDC minting
   ledger.registerGoldReserve(10_000_000, 'stress-gold-attest');
@@ -133,7 +133,9 @@ export const ledgerAPI = {
 export const cbdcAPI = {
   status: () => api.get('/cbdc/status'),
   gbdcToEcedi: (data: any) => api.post('/cbdc/convert/gbdc-to-ecedi', data),
-  crdnToEcedi: (data: any) => api.post('/cbdc/convert/crdn-to-ecedi', data),
+  ecediToGbdc: (data: any) => api.post('/cbdc/convert/ecedi-to-gbdc', data),
+  bridgeTransfers: (params?: any) => api.get('/cbdc/bridge/transfers', { params }),
+  bridgeReconciliations: () => api.get('/cbdc/bridge/reconciliations'),
   smartRoute: (data: any) => api.post('/cbdc/smart-route', data),
 };
 
@@ -146,7 +146,7 @@ export function BankDashboard() {
             {interbankMutation.isError && (
               <p className="text-sm text-red-600">{(interbankMutation.error as any)?.response?.data?.error?.message || 'Settlement failed'}</p>
             )}
-            {interbankMutation.isSuccess && <p className="text-sm text-green-600">Settlement completed ✓</p>}
+            {interbankMutation.isSuccess && <p className="text-sm text-green-600">Queued for the next netting cycle ✓</p>}
 
             <button type="submit" disabled={interbankMutation.isPending}
               className="w-full py-2.5 bg-govres-green text-white rounded-lg font-medium hover:bg-green-800 disabled:opacity-50">